@@ -1,7 +1,10 @@
 import logoIcon from "@/assets/logo-icon.png";
 import { Link } from "react-router-dom";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 export const Footer = () => {
+  const { t } = useLanguage();
+
   return (
     <footer className="border-t border-border bg-background">
       <div className="container mx-auto px-4 py-12">
@@ -15,27 +18,27 @@ export const Footer = () => {
               </span>
             </div>
             <p className="text-sm text-muted-foreground">
-              Nowoczesna platforma do porównywania ofert ubezpieczeniowych dla profesjonalistów.
+              {t("landing.tagline")}
             </p>
           </div>
 
           {/* Product */}
           <div>
-            <h3 className="mb-4 text-sm font-semibold text-foreground">Produkt</h3>
+            <h3 className="mb-4 text-sm font-semibold text-foreground">{t("landing.product")}</h3>
             <ul className="space-y-3">
               <li>
                 <Link to="/features" className="text-sm text-muted-foreground hover:text-foreground">
-                  Funkcje
+                  {t("landing.features")}
                 </Link>
               </li>
               <li>
                 <Link to="/pricing" className="text-sm text-muted-foreground hover:text-foreground">
-                  Cennik
+                  {t("landing.pricing")}
                 </Link>
               </li>
               <li>
                 <Link to="/integrations" className="text-sm text-muted-foreground hover:text-foreground">
-                  Integracje
+                  {t("landing.integrations")}
                 </Link>
               </li>
             </ul>
@@ -43,21 +46,21 @@ export const Footer = () => {
 
           {/* Company */}
           <div>
-            <h3 className="mb-4 text-sm font-semibold text-foreground">Firma</h3>
+            <h3 className="mb-4 text-sm font-semibold text-foreground">{t("landing.company")}</h3>
             <ul className="space-y-3">
               <li>
                 <Link to="/about" className="text-sm text-muted-foreground hover:text-foreground">
-                  O nas
+                  {t("landing.about")}
                 </Link>
               </li>
               <li>
                 <Link to="/contact" className="text-sm text-muted-foreground hover:text-foreground">
-                  Kontakt
+                  {t("landing.contact")}
                 </Link>
               </li>
               <li>
                 <Link to="/careers" className="text-sm text-muted-foreground hover:text-foreground">
-                  Kariera
+                  {t("landing.careers")}
                 </Link>
               </li>
             </ul>
@@ -65,21 +68,21 @@ export const Footer = () => {
 
           {/* Legal */}
           <div>
-            <h3 className="mb-4 text-sm font-semibold text-foreground">Prawne</h3>
+            <h3 className="mb-4 text-sm font-semibold text-foreground">{t("landing.legal")}</h3>
             <ul className="space-y-3">
               <li>
                 <Link to="/privacy" className="text-sm text-muted-foreground hover:text-foreground">
-                  Polityka prywatności
+                  {t("landing.privacy")}
                 </Link>
               </li>
               <li>
                 <Link to="/terms" className="text-sm text-muted-foreground hover:text-foreground">
-                  Regulamin
+                  {t("landing.terms")}
                 </Link>
               </li>
               <li>
                 <Link to="/security" className="text-sm text-muted-foreground hover:text-foreground">
-                  Bezpieczeństwo
+                  {t("landing.security")}
                 </Link>
               </li>
             </ul>
@@ -88,7 +91,7 @@ export const Footer = () => {
 
         <div className="mt-12 border-t border-border pt-8">
           <p className="text-center text-sm text-muted-foreground">
-            © {new Date().getFullYear()} InsurCompare. Wszystkie prawa zastrzeżone.
+            {t("landing.copyright", { year: new Date().getFullYear() })}
           </p>
         </div>
       </div>
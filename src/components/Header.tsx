@@ -3,8 +3,11 @@ import logoIcon from "@/assets/logo-icon.png";
 import { Link } from "react-router-dom";
 import { Menu } from "lucide-react";
 import { useState } from "react";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 export const Header = () => {
+  const { t } = useLanguage();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   return (
@@ -22,23 +25,24 @@ export const Header = () => {
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center space-x-8">
             <Link to="/features" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
-              Funkcje
+              {t("landing.features")}
             </Link>
             <Link to="/pricing" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
-              Cennik
+              {t("landing.pricing")}
             </Link>
             <Link to="/about" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
-              O nas
+              {t("landing.about")}
             </Link>
           </nav>
 
           {/* CTA Buttons */}
           <div className="hidden md:flex items-center space-x-4">
+            <LanguageSwitcher />
             <Link to="/auth">
-              <Button variant="ghost">Zaloguj się</Button>
+              <Button variant="ghost">{t("landing.signIn")}</Button>
             </Link>
             <Link to="/auth">
-              <Button>Rozpocznij</Button>
+              <Button>{t("landing.getStarted")}</Button>
             </Link>
           </div>
 
@@ -58,28 +62,29 @@ export const Header = () => {
               to="/features"
               className="block text-sm font-medium text-muted-foreground hover:text-foreground"
             >
-              Funkcje
+              {t("landing.features")}
             </Link>
             <Link
               to="/pricing"
               className="block text-sm font-medium text-muted-foreground hover:text-foreground"
             >
-              Cennik
+              {t("landing.pricing")}
             </Link>
             <Link
               to="/about"
               className="block text-sm font-medium text-muted-foreground hover:text-foreground"
             >
-              O nas
+              {t("landing.about")}
             </Link>
             <div className="flex flex-col space-y-2 pt-4">
+              <LanguageSwitcher />
               <Link to="/auth">
                 <Button variant="ghost" className="w-full">
-                  Zaloguj się
+                  {t("landing.signIn")}
                 </Button>
               </Link>
               <Link to="/auth">
-                <Button className="w-full">Rozpocznij</Button>
+                <Button className="w-full">{t("landing.getStarted")}</Button>
               </Link>
             </div>
           </nav>
@@ -2,8 +2,11 @@ import { Button } from "@/components/ui/button";
 import { ArrowRight, FileCheck2, Zap, Shield } from "lucide-react";
 import heroImage from "@/assets/hero-insurcompare.jpg";
 import { Link } from "react-router-dom";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 export const Hero = () => {
+  const { t } = useLanguage();
+
   return (
     <section className="relative overflow-hidden bg-gradient-subtle py-20 lg:py-32">
       <div className="container mx-auto px-4">
@@ -12,27 +15,26 @@ export const Hero = () => {
           <div className="space-y-8">
             <div className="space-y-4">
               <h1 className="text-4xl font-bold tracking-tight text-foreground sm:text-5xl lg:text-6xl">
-                Porównuj oferty ubezpieczeniowe w{" "}
+                {t("landing.heroTitle")}{" "}
                 <span className="bg-gradient-primary bg-clip-text text-transparent">
-                  minutę
+                  {t("landing.heroHighlight")}
                 </span>
               </h1>
               <p className="text-lg text-muted-foreground max-w-2xl">
-                Platforma dla agentów i brokerów ubezpieczeniowych. Automatyczna analiza polis, 
-                czytelne porównania i profesjonalne raporty dla Twoich klientów.
+                {t("landing.heroDescription")}
               </p>
             </div>
 
             <div className="flex flex-wrap gap-4">
               <Link to="/auth">
                 <Button size="lg" className="group">
-                  Rozpocznij za darmo
+                  {t("landing.startFree")}
                   <ArrowRight className="ml-2 h-4 w-4 transition-transform group-hover:translate-x-1" />
                 </Button>
               </Link>
               <Link to="/dashboard">
                 <Button size="lg" variant="outline">
-                  Zobacz demo
+                  {t("landing.demo")}
                 </Button>
               </Link>
             </div>
@@ -44,8 +46,8 @@ export const Hero = () => {
                   <Zap className="h-5 w-5 text-primary" />
                 </div>
                 <div>
-                  <p className="font-medium text-foreground">Błyskawiczne</p>
-                  <p className="text-sm text-muted-foreground">OCR + AI w sekundach</p>
+                  <p className="font-medium text-foreground">{t("landing.fast")}</p>
+                  <p className="text-sm text-muted-foreground">{t("landing.fastDescription")}</p>
                 </div>
               </div>
 
@@ -54,8 +56,8 @@ export const Hero = () => {
                   <FileCheck2 className="h-5 w-5 text-success" />
                 </div>
                 <div>
-                  <p className="font-medium text-foreground">Dokładne</p>
-                  <p className="text-sm text-muted-foreground">Inteligentne mapowanie</p>
+                  <p className="font-medium text-foreground">{t("landing.accurate")}</p>
+                  <p className="text-sm text-muted-foreground">{t("landing.accurateDescription")}</p>
                 </div>
               </div>
 
@@ -64,8 +66,8 @@ export const Hero = () => {
                   <Shield className="h-5 w-5 text-accent" />
                 </div>
                 <div>
-                  <p className="font-medium text-foreground">Bezpieczne</p>
-                  <p className="text-sm text-muted-foreground">RODO & audyt</p>
+                  <p className="font-medium text-foreground">{t("landing.secure")}</p>
+                  <p className="text-sm text-muted-foreground">{t("landing.secureDescription")}</p>
                 </div>
               </div>
             </div>
@@ -76,14 +78,14 @@ export const Hero = () => {
             <div className="relative overflow-hidden rounded-2xl shadow-elevated">
               <img
                 src={heroImage}
-                alt="InsurCompare Dashboard Preview"
+                alt={t("landing.imageAlt")}
                 className="w-full h-auto"
               />
             </div>
             {/* Floating badge */}
             <div className="absolute -bottom-4 -left-4 rounded-xl bg-card p-4 shadow-lg border border-border">
-              <p className="text-sm font-medium text-muted-foreground">Zaufało nam już</p>
-              <p className="text-2xl font-bold text-foreground">500+ agentów</p>
+              <p className="text-sm font-medium text-muted-foreground">{t("landing.trustedBy")}</p>
+              <p className="text-2xl font-bold text-foreground">{t("landing.agents")}</p>
             </div>
           </div>
         </div>
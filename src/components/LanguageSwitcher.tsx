@@ -0,0 +1,31 @@
+import { Languages } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { LANGUAGES, isLanguage } from "@/lib/i18n";
+
+export const LanguageSwitcher = () => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <Select
+      value={language}
+      onValueChange={(value) => {
+        if (isLanguage(value)) {
+          setLanguage(value);
+        }
+      }}
+    >
+      <SelectTrigger className="w-40" aria-label={t("language.label")}>
+        <Languages className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((entry) => (
+          <SelectItem key={entry.value} value={entry.value}>
+            {entry.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
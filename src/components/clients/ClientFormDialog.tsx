@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { errorMessage } from "@/lib/i18n";
+import { validateClientForm, type ClientFormValues, type ClientRow } from "@/services/client-service";
+
+interface ClientFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  client?: ClientRow | null;
+  onSubmit: (values: ClientFormValues) => Promise<void>;
+}
+
+const toFormValues = (client?: ClientRow | null): ClientFormValues => ({
+  fullName: client?.full_name ?? "",
+  email: client?.email ?? "",
+  phone: client?.phone ?? "",
+});
+
+export function ClientFormDialog({ open, onOpenChange, client, onSubmit }: ClientFormDialogProps) {
+  const { t } = useLanguage();
+  const [values, setValues] = useState<ClientFormValues>(() => toFormValues(client));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = Boolean(client);
+
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(client));
+      setError(null);
+    }
+  }, [client, open]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validation = validateClientForm(values);
+    if (validation.status === "error") {
+      setError(t(validation.message));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(values);
+      onOpenChange(false);
+    } catch (submitError) {
+      setError(errorMessage(t, submitError) ?? t("errors.clientSaveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? t("clientForm.editTitle") : t("clientForm.newTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("clientForm.description")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-full-name">{t("clientForm.fullName")}</Label>
+            <Input
+              id="client-full-name"
+              placeholder={t("clientForm.fullNamePlaceholder")}
+              value={values.fullName}
+              onChange={(e) => setValues((prev) => ({ ...prev, fullName: e.target.value }))}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="client-email">{t("clientForm.email")}</Label>
+            <Input
+              id="client-email"
+              type="email"
+              placeholder={t("clientForm.emailPlaceholder")}
+              value={values.email ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, email: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="client-phone">{t("clientForm.phone")}</Label>
+            <Input
+              id="client-phone"
+              placeholder="+48 600 000 000"
+              value={values.phone ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, phone: e.target.value }))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? t("clientForm.saveChanges") : t("clientForm.create")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
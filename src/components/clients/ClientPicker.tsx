@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from "react";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClientFormDialog } from "@/components/clients/ClientFormDialog";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { errorMessage } from "@/lib/i18n";
+import { clientService, type ClientFormValues, type ClientRow } from "@/services/client-service";
+
+const NO_CLIENT_VALUE = "__none__";
+
+interface ClientPickerProps {
+  userId?: string;
+  value: string | null;
+  onChange: (clientId: string | null) => void;
+  disabled?: boolean;
+}
+
+export function ClientPicker({ userId, value, onChange, disabled }: ClientPickerProps) {
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const [clients, setClients] = useState<ClientRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadClients = useCallback(async () => {
+    if (!userId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setClients(await clientService.listClients(userId));
+    } catch (error) {
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("clientPicker.loadFailed"), { description });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, stableT]);
+
+  useEffect(() => {
+    void loadClients();
+  }, [loadClients]);
+
+  const handleCreate = async (values: ClientFormValues) => {
+    if (!userId) {
+      return;
+    }
+
+    const created = await clientService.createClient(userId, values);
+    setClients((prev) =>
+      [...prev, created].sort((a, b) => a.full_name.localeCompare(b.full_name, language)),
+    );
+    onChange(created.id);
+    toast.success(t("clientPicker.created"), { description: created.full_name });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="client-picker">{t("clientPicker.label")}</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value ?? NO_CLIENT_VALUE}
+          onValueChange={(next) => onChange(next === NO_CLIENT_VALUE ? null : next)}
+          disabled={disabled || loading}
+        >
+          <SelectTrigger id="client-picker" className="flex-1">
+            <SelectValue placeholder={loading ? t("clientPicker.loading") : t("clientPicker.placeholder")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CLIENT_VALUE}>{t("clientPicker.none")}</SelectItem>
+            {clients.map((client) => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.full_name}
+                {client.email ? ` (${client.email})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setIsDialogOpen(true)}
+          disabled={disabled || !userId}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {t("clientForm.newTitle")}
+        </Button>
+      </div>
+      <ClientFormDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} onSubmit={handleCreate} />
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { RISK_TOLERANCES, type ClientNeedsProfile, type RiskTolerance } from "@/lib/client-needs";
+import type { PremiumBasis } from "@/lib/comparison-utils";
+
+interface NeedsProfileFormProps {
+  profile: ClientNeedsProfile | null;
+  submitLabel: string;
+  onSubmit: (profile: ClientNeedsProfile | null) => Promise<void>;
+}
+
+interface NeedsProfileFormValues {
+  age: string;
+  dependants: string;
+  budgetAmount: string;
+  budgetPeriod: PremiumBasis;
+  budgetCurrency: string;
+  mustHaveCoverages: string;
+  riskTolerance: RiskTolerance | "none";
+  notes: string;
+}
+
+const toFormValues = (profile: ClientNeedsProfile | null): NeedsProfileFormValues => ({
+  age: profile?.age !== null && profile?.age !== undefined ? String(profile.age) : "",
+  dependants: profile?.dependants !== null && profile?.dependants !== undefined ? String(profile.dependants) : "",
+  budgetAmount: profile?.budget ? String(profile.budget.amount) : "",
+  budgetPeriod: profile?.budget?.period ?? "monthly",
+  budgetCurrency: profile?.budget?.currency ?? "PLN",
+  mustHaveCoverages: profile?.must_have_coverages.join("\n") ?? "",
+  riskTolerance: profile?.risk_tolerance ?? "none",
+  notes: profile?.notes ?? "",
+});
+
+const parseOptionalNumber = (value: string): number | null => {
+  const trimmed = value.trim().replace(",", ".");
+  return trimmed.length > 0 ? Number(trimmed) : null;
+};
+
+const toProfile = (values: NeedsProfileFormValues): ClientNeedsProfile => {
+  const budgetAmount = parseOptionalNumber(values.budgetAmount);
+  return {
+    age: parseOptionalNumber(values.age),
+    dependants: parseOptionalNumber(values.dependants),
+    budget:
+      budgetAmount !== null
+        ? {
+            amount: budgetAmount,
+            period: values.budgetPeriod,
+            currency: values.budgetCurrency.trim().toUpperCase() || "PLN",
+          }
+        : null,
+    must_have_coverages: values.mustHaveCoverages
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0),
+    risk_tolerance: values.riskTolerance === "none" ? null : values.riskTolerance,
+    notes: values.notes.trim() || null,
+  };
+};
+
+/**
+ * Needs questionnaire shared by the client card and the comparison view. Budget and must-have
+ * coverages are hard requirements: offers that miss them are flagged in the comparison table.
+ */
+export function NeedsProfileForm({ profile, submitLabel, onSubmit }: NeedsProfileFormProps) {
+  const { t } = useLanguage();
+  const [values, setValues] = useState(() => toFormValues(profile));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setValues(toFormValues(profile));
+  }, [profile]);
+
+  const update = <K extends keyof NeedsProfileFormValues>(key: K, value: NeedsProfileFormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  const save = async (next: ClientNeedsProfile | null) => {
+    setIsSaving(true);
+    try {
+      await onSubmit(next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void save(toProfile(values));
+      }}
+    >
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="needs-age">{t("needs.age")}</Label>
+          <Input
+            id="needs-age"
+            type="number"
+            min={0}
+            max={120}
+            value={values.age}
+            onChange={(e) => update("age", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="needs-dependants">{t("needs.dependants")}</Label>
+          <Input
+            id="needs-dependants"
+            type="number"
+            min={0}
+            value={values.dependants}
+            onChange={(e) => update("dependants", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="needs-budget">{t("needs.budget")}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="needs-budget"
+            inputMode="decimal"
+            placeholder={t("needs.budgetPlaceholder")}
+            value={values.budgetAmount}
+            onChange={(e) => update("budgetAmount", e.target.value)}
+          />
+          <Input
+            aria-label={t("needs.budgetCurrency")}
+            className="w-20"
+            maxLength={3}
+            value={values.budgetCurrency}
+            onChange={(e) => update("budgetCurrency", e.target.value.toUpperCase())}
+          />
+          <Select value={values.budgetPeriod} onValueChange={(value) => update("budgetPeriod", value as PremiumBasis)}>
+            <SelectTrigger className="w-[150px]" aria-label={t("needs.budgetPeriod")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="monthly">{t("premiumBasis.monthly")}</SelectItem>
+              <SelectItem value="annual">{t("premiumBasis.annual")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="needs-coverages">{t("needs.coverages")}</Label>
+        <Textarea
+          id="needs-coverages"
+          rows={3}
+          placeholder={t("needs.coveragesPlaceholder")}
+          value={values.mustHaveCoverages}
+          onChange={(e) => update("mustHaveCoverages", e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t("needs.riskTolerance")}</Label>
+        <Select
+          value={values.riskTolerance}
+          onValueChange={(value) => update("riskTolerance", value as NeedsProfileFormValues["riskTolerance"])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">{t("needs.riskToleranceNone")}</SelectItem>
+            {RISK_TOLERANCES.map((key) => (
+              <SelectItem key={key} value={key}>
+                {t(`riskTolerance.${key}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="needs-notes">{t("needs.notes")}</Label>
+        <Textarea
+          id="needs-notes"
+          rows={2}
+          value={values.notes}
+          onChange={(e) => update("notes", e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" disabled={isSaving || !profile} onClick={() => void save(null)}>
+          {t("needs.clear")}
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
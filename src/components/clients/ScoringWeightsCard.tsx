@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  SCORING_CRITERIA,
+  parseScoringWeights,
+  type ScoringWeights,
+} from "@/lib/offer-scoring";
+import type { ClientRow } from "@/services/client-service";
+
+interface ScoringWeightsCardProps {
+  client: ClientRow;
+  /** Null resets the client to the product type defaults. */
+  onSave: (weights: Partial<ScoringWeights> | null) => Promise<void>;
+}
+
+const toFormValues = (client: ClientRow): Record<keyof ScoringWeights, string> => {
+  const stored = parseScoringWeights(client.scoring_weights);
+  return Object.fromEntries(
+    SCORING_CRITERIA.map(({ key }) => [key, stored?.[key] !== undefined ? String(stored[key]) : ""]),
+  ) as Record<keyof ScoringWeights, string>;
+};
+
+/**
+ * Client-specific weights of the offer scoring model. Empty fields keep the weight suggested
+ * for the product type of each comparison.
+ */
+export function ScoringWeightsCard({ client, onSave }: ScoringWeightsCardProps) {
+  const { t } = useLanguage();
+  const [values, setValues] = useState(() => toFormValues(client));
+  const [isSaving, setIsSaving] = useState(false);
+  const hasStoredWeights = parseScoringWeights(client.scoring_weights) !== null;
+
+  useEffect(() => {
+    setValues(toFormValues(client));
+  }, [client]);
+
+  const save = async (weights: Partial<ScoringWeights> | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(weights);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const weights: Partial<ScoringWeights> = {};
+    SCORING_CRITERIA.forEach(({ key }) => {
+      const raw = values[key].trim().replace(",", ".");
+      if (raw.length > 0) {
+        weights[key] = Number(raw);
+      }
+    });
+    void save(Object.keys(weights).length > 0 ? weights : null);
+  };
+
+  return (
+    <Card className="shadow-md lg:col-span-2">
+      <CardHeader>
+        <CardTitle>{t("scoring.weightsTitle")}</CardTitle>
+        <CardDescription>{t("scoring.weightsDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {SCORING_CRITERIA.map(({ key }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`weight-${key}`}>{t(`scoring.${key}`)}</Label>
+                <Input
+                  id={`weight-${key}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder={String(DEFAULT_SCORING_WEIGHTS[key])}
+                  value={values[key]}
+                  onChange={(e) => setValues((current) => ({ ...current, [key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" disabled={isSaving || !hasStoredWeights} onClick={() => void save(null)}>
+              {t("scoring.restoreDefaults")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("scoring.saveWeights")}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
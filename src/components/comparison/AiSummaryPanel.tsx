@@ -3,10 +3,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Sparkles, CheckCircle2, AlertTriangle, ArrowRight, Copy } from "lucide-react";
+import { Sparkles, CheckCircle2, AlertTriangle, ArrowRight, Copy, Loader2, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
 
+import { useLanguage } from "@/contexts/LanguageContext";
+import { errorMessage } from "@/lib/i18n";
+import { SUMMARY_STYLES, isSummaryStyle, type SummaryStyle } from "@/lib/summary-styles";
 import { cn } from "@/lib/utils";
 import type { ComparisonSummary, ComparisonSummaryKeyNumber } from "@/types/comparison";
 
@@ -25,6 +29,12 @@ interface AiSummaryPanelProps {
   offers: LabeledOffer[];
   sourcesMap?: Record<string, unknown> | null;
   className?: string;
+  /** The summary is still being written; sections render as they arrive. */
+  isStreaming?: boolean;
+  onRegenerate?: () => void;
+  /** Shows the style presets; a style without a stored summary renders an empty state. */
+  summaryStyle?: SummaryStyle;
+  onSummaryStyleChange?: (style: SummaryStyle) => void;
 }
 
 interface NormalizedSource {
@@ -43,7 +53,8 @@ interface SourceTooltipProps {
 }
 
 function SourceTooltip({ source }: SourceTooltipProps) {
-  const heading = source.label ?? source.offerLabel ?? `Źródło ${source.order}`;
+  const { t } = useLanguage();
+  const heading = source.label ?? source.offerLabel ?? t("summary.source", { order: source.order });
 
   return (
     <Tooltip>
@@ -51,7 +62,7 @@ function SourceTooltip({ source }: SourceTooltipProps) {
         <span
           tabIndex={0}
           role="button"
-          aria-label={`Pokaż źródło ${source.shortLabel}`}
+          aria-label={t("summary.showSource", { label: source.shortLabel })}
           className="ml-1 inline-flex items-center rounded-full bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-700 transition focus:outline-none focus:ring-2 focus:ring-amber-400/70 dark:bg-amber-400/20 dark:text-amber-100"
         >
           [{source.shortLabel}]
@@ -60,10 +71,10 @@ function SourceTooltip({ source }: SourceTooltipProps) {
       <TooltipContent className="max-w-xs space-y-1 text-left">
         <p className="text-xs font-semibold leading-none text-foreground">{heading}</p>
         {source.offerLabel && (
-          <p className="text-xs text-muted-foreground">Oferta: {source.offerLabel}</p>
+          <p className="text-xs text-muted-foreground">{t("summary.sourceOffer", { label: source.offerLabel })}</p>
         )}
         {source.page && (
-          <p className="text-xs text-muted-foreground">Strona: {source.page}</p>
+          <p className="text-xs text-muted-foreground">{t("summary.sourcePage", { page: source.page })}</p>
         )}
         {(source.excerpt || source.description) && (
           <p className="text-xs leading-relaxed text-muted-foreground whitespace-pre-wrap">
@@ -196,7 +207,12 @@ export function AiSummaryPanel({
   offers,
   sourcesMap,
   className,
+  isStreaming = false,
+  onRegenerate,
+  summaryStyle,
+  onSummaryStyleChange,
 }: AiSummaryPanelProps) {
+  const { t } = useLanguage();
   const [showJustifications, setShowJustifications] = useState(false);
 
   const recommendedOffer = summaryData?.recommended_offer ?? null;
@@ -244,10 +260,10 @@ export function AiSummaryPanel({
         if (!source) {
           return "";
         }
-        const label = source.label ?? source.offerLabel ?? `Źródło ${source.order}`;
+        const label = source.label ?? source.offerLabel ?? t("summary.source", { order: source.order });
         return ` [${label}]`;
       }),
-    [resolvedSources],
+    [resolvedSources, t],
   );
 
   const renderHighlightedText = (text: string, keyPrefix: string) => {
@@ -301,30 +317,30 @@ export function AiSummaryPanel({
     if (recommendedOffer) {
       const offerTitle = recommendedOffer.name ?? recommendedOffer.insurer;
       if (offerTitle) {
-        sections.push(`Rekomendowana oferta: ${offerTitle}`);
+        sections.push(t("summary.recommendedLine", { name: offerTitle }));
       }
       if (recommendedOffer.summary) {
-        sections.push(`Opis: ${stripSourceMarkers(recommendedOffer.summary)}`);
+        sections.push(t("summary.descriptionLine", { text: stripSourceMarkers(recommendedOffer.summary) }));
       }
       if (keyNumbers.length > 0) {
         const metrics = keyNumbers.map((metric) => `- ${metric.label}: ${metric.value}`).join("\n");
-        sections.push(`Kluczowe liczby:\n${metrics}`);
+        sections.push(`${t("summary.keyNumbers")}:\n${metrics}`);
       }
     }
 
     if (reasons && reasons.length > 0) {
       const list = reasons.map((reason) => `- ${stripSourceMarkers(reason)}`).join("\n");
-      sections.push(`Powody:\n${list}`);
+      sections.push(`${t("summary.reasons")}:\n${list}`);
     }
 
     if (risks && risks.length > 0) {
       const list = risks.map((risk) => `- ${stripSourceMarkers(risk)}`).join("\n");
-      sections.push(`Ryzyka:\n${list}`);
+      sections.push(`${t("summary.risks")}:\n${list}`);
     }
 
     if (nextSteps && nextSteps.length > 0) {
       const list = nextSteps.map((step) => `- ${stripSourceMarkers(step)}`).join("\n");
-      sections.push(`Rekomendacje:\n${list}`);
+      sections.push(`${t("summary.nextSteps")}:\n${list}`);
     }
 
     if (fallbackText && !hasStructuredSummary) {
@@ -332,23 +348,23 @@ export function AiSummaryPanel({
     }
 
     if (sections.length === 0) {
-      toast.info("Brak treści do skopiowania");
+      toast.info(t("summary.nothingToCopy"));
       return;
     }
 
     const payload = sections.join("\n\n");
 
     if (typeof navigator === "undefined" || !navigator.clipboard) {
-      toast.error("Kopiowanie nie jest wspierane w tej przeglądarce");
+      toast.error(t("summary.copyUnsupported"));
       return;
     }
 
     try {
       await navigator.clipboard.writeText(payload);
-      toast.success("Skopiowano rekomendację AI");
+      toast.success(t("summary.copied"));
     } catch (error) {
-      toast.error("Nie udało się skopiować treści", {
-        description: error instanceof Error ? error.message : undefined,
+      toast.error(t("summary.copyFailed"), {
+        description: errorMessage(t, error),
       });
     }
   }, [
@@ -360,9 +376,12 @@ export function AiSummaryPanel({
     fallbackText,
     hasStructuredSummary,
     stripSourceMarkers,
+    t,
   ]);
 
-  if (!hasStructuredSummary && !fallbackText) {
+  const isEmpty = !hasStructuredSummary && !fallbackText;
+
+  if (isEmpty && !isStreaming && !onSummaryStyleChange) {
     return null;
   }
 
@@ -372,13 +391,36 @@ export function AiSummaryPanel({
         <div className="space-y-2">
           <CardTitle className="flex items-center gap-2 text-xl">
             <Sparkles className="h-5 w-5 text-primary" />
-            Rekomendacja AI
+            {t("summary.title")}
           </CardTitle>
-          <CardDescription>
-            Najważniejsze wskazówki przygotowane na podstawie analizy ofert
-          </CardDescription>
+          <CardDescription>{t("summary.description")}</CardDescription>
         </div>
-        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap sm:items-center sm:justify-end">
+          {onSummaryStyleChange && (
+            <Select
+              value={summaryStyle}
+              disabled={isStreaming}
+              onValueChange={(value) => {
+                if (isSummaryStyle(value)) {
+                  onSummaryStyleChange(value);
+                }
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-48" aria-label={t("summaryStyle.label")}>
+                <SelectValue placeholder={t("summaryStyle.label")} />
+              </SelectTrigger>
+              <SelectContent>
+                {SUMMARY_STYLES.map((style) => (
+                  <SelectItem key={style} value={style}>
+                    <span className="block">{t(`summaryStyle.${style}.label`)}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {t(`summaryStyle.${style}.description`)}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <div className="flex items-center gap-2">
             <Switch
               id="toggle-justifications"
@@ -386,13 +428,19 @@ export function AiSummaryPanel({
               onCheckedChange={(value) => setShowJustifications(Boolean(value))}
             />
             <Label htmlFor="toggle-justifications" className="text-sm text-muted-foreground">
-              Pokaż uzasadnienia
+              {t("summary.showJustifications")}
             </Label>
           </div>
-          <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={isStreaming || isEmpty} className="gap-2">
             <Copy className="h-4 w-4" />
-            Kopiuj
+            {t("summary.copy")}
           </Button>
+          {onRegenerate && (
+            <Button variant="outline" size="sm" onClick={onRegenerate} disabled={isStreaming} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              {isEmpty ? t("summary.generate") : t("summary.regenerate")}
+            </Button>
+          )}
         </div>
       </CardHeader>
 
@@ -403,7 +451,7 @@ export function AiSummaryPanel({
               <section className="space-y-4">
                 <h3 className="flex items-center gap-2 text-base font-semibold text-foreground">
                   <Sparkles className="h-4 w-4 text-primary" />
-                  Rekomendowana oferta
+                  {t("summary.recommendedOffer")}
                 </h3>
                 <div className="rounded-xl border border-primary/20 bg-primary/5 p-5 shadow-sm">
                   {(recommendedOffer.name || recommendedOffer.insurer) && (
@@ -415,7 +463,7 @@ export function AiSummaryPanel({
                       )}
                       {recommendedOffer.insurer && (!recommendedOffer.name || recommendedOffer.insurer !== recommendedOffer.name) && (
                         <p className="text-sm text-muted-foreground">
-                          Towarzystwo: {recommendedOffer.insurer}
+                          {t("summary.insurer", { name: recommendedOffer.insurer })}
                         </p>
                       )}
                     </div>
@@ -446,7 +494,7 @@ export function AiSummaryPanel({
             {reasons && reasons.length > 0 && (
               <section className="space-y-3">
                 <h3 className="text-base font-semibold uppercase tracking-wide text-muted-foreground">
-                  Powody wyboru
+                  {t("summary.reasons")}
                 </h3>
                 <ul className="space-y-2">
                   {reasons.map((reason, index) => (
@@ -467,7 +515,7 @@ export function AiSummaryPanel({
             {risks && risks.length > 0 && (
               <section className="space-y-3">
                 <h3 className="text-base font-semibold uppercase tracking-wide text-muted-foreground">
-                  Ryzyka
+                  {t("summary.risks")}
                 </h3>
                 <ul className="space-y-2">
                   {risks.map((risk, index) => (
@@ -488,7 +536,7 @@ export function AiSummaryPanel({
             {nextSteps && nextSteps.length > 0 && (
               <section className="space-y-3">
                 <h3 className="text-base font-semibold uppercase tracking-wide text-muted-foreground">
-                  Rekomendacje
+                  {t("summary.nextSteps")}
                 </h3>
                 <ul className="space-y-2">
                   {nextSteps.map((step, index) => (
@@ -520,17 +568,28 @@ export function AiSummaryPanel({
           </p>
         )}
 
+        {isEmpty && !isStreaming && (
+          <p className="text-sm text-muted-foreground">{t("summary.empty")}</p>
+        )}
+
+        {isStreaming && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("summary.generating")}
+          </p>
+        )}
+
         {showJustifications && resolvedSources.size > 0 && (
           <div className="rounded-lg border border-dashed border-muted-foreground/40 bg-muted/30 p-4">
             <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-              Źródła analizy
+              {t("summary.sources")}
             </h4>
             <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
               {Array.from(resolvedSources.values()).map((source) => (
                 <li key={`source-summary-${source.key}`} className="leading-relaxed">
                   <span className="font-medium text-foreground">[{source.shortLabel}]</span>{" "}
-                  {source.label ?? source.offerLabel ?? `Źródło ${source.order}`}
-                  {source.page && ` — str. ${source.page}`}
+                  {source.label ?? source.offerLabel ?? t("summary.source", { order: source.order })}
+                  {source.page && ` — ${t("summary.sourcePageShort", { page: source.page })}`}
                 </li>
               ))}
             </ul>
@@ -0,0 +1,85 @@
+import { AlertTriangle, CheckCircle2, Circle, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { jobErrorMessageKey, type ComparisonJobRow, type ComparisonStage } from "@/services/comparison-service";
+
+const JOB_STAGE_ORDER: ComparisonStage[] = [
+  "triggering_extraction",
+  "waiting_for_extraction",
+  "comparing_offers",
+  "generating_summary",
+];
+
+interface ComparisonJobProgressProps {
+  job: ComparisonJobRow | null;
+  isRetrying?: boolean;
+  onRetry?: () => void;
+}
+
+export function ComparisonJobProgress({ job, isRetrying = false, onRetry }: ComparisonJobProgressProps) {
+  const { t } = useLanguage();
+  const isFailed = job?.status === "failed";
+  const currentIndex = job
+    ? job.stage === "done"
+      ? JOB_STAGE_ORDER.length
+      : JOB_STAGE_ORDER.indexOf(job.stage as ComparisonStage)
+    : -1;
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader>
+        <CardTitle>{isFailed ? t("jobProgress.failedTitle") : t("jobProgress.runningTitle")}</CardTitle>
+        <CardDescription>
+          {isFailed
+            ? job?.last_error
+              ? t(jobErrorMessageKey(job.last_error))
+              : t("jobProgress.failedDescription")
+            : t("jobProgress.runningDescription")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-2">
+          {JOB_STAGE_ORDER.map((stage, index) => {
+            const isDone = index < currentIndex;
+            const isCurrent = index === currentIndex;
+
+            return (
+              <li key={stage} className="flex items-center gap-2 text-sm">
+                {isDone ? (
+                  <CheckCircle2 className="h-4 w-4 text-success" />
+                ) : isCurrent && isFailed ? (
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                ) : isCurrent ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground" />
+                )}
+                <span className={isDone || isCurrent ? "text-foreground" : "text-muted-foreground"}>
+                  {t(`stage.${stage}`)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+
+        {job?.status === "retrying" && (
+          <p className="text-xs text-muted-foreground">
+            {t("jobProgress.retrying", { attempt: job.attempts + 1, max: job.max_attempts })}
+          </p>
+        )}
+
+        {isFailed && onRetry && (
+          <Button onClick={onRetry} disabled={isRetrying}>
+            {isRetrying ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            {t("jobProgress.resume")}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
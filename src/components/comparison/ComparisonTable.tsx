@@ -1,5 +1,6 @@
-import { Fragment, useMemo } from "react";
+import { Fragment, useMemo, useState, type ReactNode } from "react";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -25,10 +26,19 @@ import {
   Shield,
   Building2,
   Sparkles,
+  PencilLine,
 } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getLocale } from "@/lib/i18n";
 import { cn } from "@/lib/utils";
 import type { ComparisonOffer } from "@/lib/comparison-utils";
-import { getPremium } from "@/lib/comparison-utils";
+import {
+  getNormalizedPremium,
+  getPremiumForBasis,
+  type PremiumBasis,
+} from "@/lib/comparison-utils";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import type { RequirementViolation } from "@/lib/client-needs";
 import {
   type ComparisonDiffStatus,
   type ComparisonSection,
@@ -36,11 +46,15 @@ import {
   type ComparisonValueCell,
   type HighlightTone,
 } from "@/lib/buildComparisonSections";
+import type { FieldConfidence } from "@/types/comparison";
 import { usePersistentSectionState } from "@/hooks/usePersistentSectionState";
 import { ArrowDown } from "lucide-react";
 import { formatCurrency } from "@/lib/valueFormatters";
 import { SourceTooltip } from "@/components/comparison/SourceTooltip";
+import { CorrectionBadge, CorrectionPopover } from "@/components/comparison/CorrectionPopover";
+import { ConfidenceBadge } from "@/components/comparison/ConfidenceBadge";
 import { segmentTextWithLinks } from "@/lib/safeLinks";
+import { getLatestCorrection, readCorrectionPath } from "@/lib/offer-corrections";
 
 const HIGHLIGHT_CELL_CLASSES: Record<Exclude<HighlightTone, "neutral" | undefined>, string> = {
   best: "bg-emerald-50 border-l-4 border-emerald-400 dark:bg-emerald-900/30 dark:border-emerald-700",
@@ -73,13 +87,6 @@ const ROW_ICON_MAP: Record<string, React.ComponentType<{ className?: string }>>
   alert: AlertCircle,
 };
 
-const DIFF_BADGE_LABEL: Record<ComparisonDiffStatus, string> = {
-  equal: "Brak różnic",
-  different: "Różnice",
-  partial: "Niepełne dane",
-  missing: "Brak danych",
-};
-
 const DIFF_BADGE_CLASS: Record<ComparisonDiffStatus, string> = {
   equal: "border-emerald-200 bg-emerald-500/10 text-emerald-700 dark:border-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-200",
   different: "border-amber-200 bg-amber-500/10 text-amber-700 dark:border-amber-600 dark:bg-amber-500/10 dark:text-amber-200",
@@ -94,12 +101,6 @@ const getHighlightCellClass = (highlight: HighlightTone) => {
   return HIGHLIGHT_CELL_CLASSES[highlight];
 };
 
-const getHighlightLabel = (highlight: HighlightTone) => {
-  if (highlight === "best") return "Rekomendacja AI";
-  if (highlight === "warning") return "Ostrzeżenie";
-  return null;
-};
-
 const getHighlightNoteClass = (highlight: HighlightTone) => {
   if (!highlight || highlight === "neutral") {
     return "border border-muted bg-muted/40";
@@ -134,11 +135,25 @@ const getValueCellDiffClass = (status: ComparisonDiffStatus) => {
   return "pl-4";
 };
 
+export interface ComparisonValueCorrection {
+  offerId: string;
+  path: string;
+  value: number;
+}
+
 interface ComparisonTableProps {
   comparisonId: string;
   offers: ComparisonOffer[];
   sections: ComparisonSection[];
   bestOfferIndex?: number;
+  /** Payment cycle the premium summary row is normalized to. */
+  premiumBasis?: PremiumBasis;
+  /** Converts premiums to the comparison's reporting currency. */
+  currencyConverter?: CurrencyConverter | null;
+  /** Hard requirements of the client's needs profile each offer misses, keyed by offer id. */
+  requirementViolations?: Record<string, RequirementViolation[]>;
+  /** Enables the editing mode; resolves once the correction is stored. */
+  onCorrectValue?: (correction: ComparisonValueCorrection) => Promise<void>;
 }
 
 export function ComparisonTable({
@@ -146,7 +161,39 @@ export function ComparisonTable({
   offers,
   sections,
   bestOfferIndex,
+  premiumBasis = "annual",
+  currencyConverter = null,
+  requirementViolations,
+  onCorrectValue,
 }: ComparisonTableProps) {
+  const { language, t } = useLanguage();
+  const locale = getLocale(language);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const renderRequirementBadge = (offerId: string) => {
+    const violations = requirementViolations?.[offerId] ?? [];
+    if (violations.length === 0) {
+      return null;
+    }
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="destructive" className="text-xs cursor-help">
+            {t("table.requirementsNotMet")}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs text-sm leading-relaxed">
+          <ul className="list-disc pl-4 space-y-1">
+            {violations.map((violation) => (
+              <li key={violation.message}>{violation.message}</li>
+            ))}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   const defaults = useMemo(
     () => Object.fromEntries(sections.map((section) => [section.id, section.defaultExpanded ?? true])),
     [sections],
@@ -159,23 +206,25 @@ export function ComparisonTable({
   );
 
   // Calculate premiums and related data
-  const premiums = useMemo(() => offers.map((offer) => getPremium(offer.data)), [offers]);
+  const normalizedPremiums = useMemo(
+    () => offers.map((offer) => getNormalizedPremium(offer.data, currencyConverter)),
+    [offers, currencyConverter],
+  );
+  // Only premiums in the reporting currency take part in picking the lowest one
+  const comparablePremiums = useMemo(
+    () => offers.map((offer) => getPremiumForBasis(offer.data, premiumBasis, currencyConverter)),
+    [offers, premiumBasis, currencyConverter],
+  );
+  const premiumRowLabel = t("rows.premiumShort", { basis: t(`premiumBasis.${premiumBasis}`) });
   
   const lowestPremium = useMemo(() => {
-    return premiums.reduce<number | null>((acc, premium) => {
+    return comparablePremiums.reduce<number | null>((acc, premium) => {
       if (premium !== null && (acc === null || premium < acc)) {
         return premium;
       }
       return acc;
     }, null);
-  }, [premiums]);
-
-  const currencies = useMemo(() => {
-    return offers.map((offer) => {
-      const currency = offer.data?.premium?.currency;
-      return currency && typeof currency === 'string' ? currency : 'PLN';
-    });
-  }, [offers]);
+  }, [comparablePremiums]);
 
   // Find price section and analyses
   const priceSection = useMemo(() => sections.find((s) => s.id === 'price'), [sections]);
@@ -200,7 +249,7 @@ export function ComparisonTable({
           );
         }
         return (
-          <span key={key} className="text-destructive" title={segment.reason ?? "Link oznaczony jako niebezpieczny"}>
+          <span key={key} className="text-destructive" title={t(segment.reason ?? "link.unsafe")}>
             {segment.value}
           </span>
         );
@@ -216,11 +265,54 @@ export function ComparisonTable({
     </span>
   );
 
+  const renderCellAnnotations = (
+    offer: ComparisonOffer | undefined,
+    path: string | null | undefined,
+    label: string,
+    confidence?: FieldConfidence | null,
+  ) => {
+    const correction = offer && path ? getLatestCorrection(offer.data, path) : null;
+    const canEdit = Boolean(offer && path && isEditing && onCorrectValue);
+    const showConfidence = Boolean(confidence && confidence.level !== "high");
+    if (!correction && !canEdit && !showConfidence) {
+      return null;
+    }
+
+    return (
+      <span className="inline-flex shrink-0 items-center gap-1">
+        <ConfidenceBadge confidence={confidence} />
+        {correction && <CorrectionBadge correction={correction} />}
+        {canEdit && offer && path && onCorrectValue && (
+          <CorrectionPopover
+            label={label}
+            currentValue={readCorrectionPath(offer.data, path)}
+            correction={correction}
+            onSubmit={(value) => onCorrectValue({ offerId: offer.id, path, value })}
+          />
+        )}
+      </span>
+    );
+  };
+
+  const withCellAnnotations = (content: ReactNode, annotations: ReactNode) =>
+    annotations ? (
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">{content}</div>
+        {annotations}
+      </div>
+    ) : (
+      content
+    );
+
   const renderValueContent = (
     cell: ComparisonValueCell,
     row: ComparisonSectionRow,
+    offer?: ComparisonOffer,
   ) => {
     const hasTooltip = Boolean(cell.tooltip);
+    const hasItemReferences =
+      row.type === "list" &&
+      Boolean(cell.itemSourceReferences?.some((references) => references && references.length > 0));
     const valueContent = (() => {
       if (row.type === "list") {
         if (!cell.items || cell.items.length === 0) {
@@ -231,7 +323,17 @@ export function ComparisonTable({
             {cell.items.map((item, idx) => (
               <li key={idx} className="flex items-start gap-2">
                 <span className="mt-1 h-1.5 w-1.5 rounded-full bg-primary/60" />
-                <span>{renderSegments(item, `list-${row.id}-${idx}`)}</span>
+                <SourceTooltip reference={cell.itemSourceReferences?.[idx]}>
+                  <span className={cell.itemSourceReferences?.[idx] ? "cursor-help" : undefined}>
+                    {renderSegments(item, `list-${row.id}-${idx}`)}
+                  </span>
+                </SourceTooltip>
+                {renderCellAnnotations(
+                  offer,
+                  cell.itemEditPaths?.[idx],
+                  t("table.itemSumInsured", { label: row.label, item: item.split(" • ")[0] }),
+                  cell.itemConfidence?.[idx],
+                )}
               </li>
             ))}
           </ul>
@@ -247,8 +349,11 @@ export function ComparisonTable({
       return null;
     })();
 
+    const metricAnnotations =
+      row.type === "metric" ? renderCellAnnotations(offer, cell.editPath, row.label, cell.confidence) : null;
+
     if (!valueContent) {
-      return <span className="text-sm text-muted-foreground">—</span>;
+      return withCellAnnotations(<span className="text-sm text-muted-foreground">—</span>, metricAnnotations);
     }
 
     const contentWithTooltip = hasTooltip ? (
@@ -267,15 +372,17 @@ export function ComparisonTable({
       valueContent
     );
 
-    if (cell.sourceReferences && cell.sourceReferences.length > 0) {
-      return (
+    // Lists with per-item citations verify each entry separately instead of the whole cell.
+    if (!hasItemReferences && cell.sourceReferences && cell.sourceReferences.length > 0) {
+      return withCellAnnotations(
         <SourceTooltip reference={cell.sourceReferences}>
           {contentWithTooltip}
-        </SourceTooltip>
+        </SourceTooltip>,
+        metricAnnotations,
       );
     }
 
-    return contentWithTooltip;
+    return withCellAnnotations(contentWithTooltip, metricAnnotations);
   };
 
   const renderAiBlock = (cell: ComparisonValueCell, row: ComparisonSectionRow) => {
@@ -286,7 +393,8 @@ export function ComparisonTable({
       return null;
     }
 
-    const highlightLabel = getHighlightLabel(cell.highlight);
+    const highlightLabel =
+      cell.highlight === "best" || cell.highlight === "warning" ? t(`table.highlight.${cell.highlight}`) : null;
 
     return (
       <div
@@ -296,7 +404,7 @@ export function ComparisonTable({
         )}
       >
         <div className="flex items-center gap-2 text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
-          {row.analysisLabel ?? "Analiza AI"}
+          {row.analysisLabel ?? t("rows.aiAnalysis")}
           {highlightLabel && (
             <Badge variant="outline" className={cn("text-[10px]", getHighlightBadgeClass(cell.highlight))}>
               {highlightLabel}
@@ -307,7 +415,7 @@ export function ComparisonTable({
           {cell.aiMessages.length > 0 ? (
             cell.aiMessages.map((message, idx) => <p key={idx}>{message}</p>)
           ) : (
-            <p className="text-muted-foreground">{row.aiFallbackMessage ?? "Brak analizy AI"}</p>
+            <p className="text-muted-foreground">{row.aiFallbackMessage ?? t("table.noAiAnalysis")}</p>
           )}
         </div>
       </div>
@@ -316,8 +424,19 @@ export function ComparisonTable({
 
   return (
     <Card className="shadow-elevated">
-      <CardHeader>
-        <CardTitle>Szczegółowe porównanie</CardTitle>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{t("table.title")}</CardTitle>
+        {onCorrectValue && (
+          <Button
+            type="button"
+            variant={isEditing ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIsEditing((current) => !current)}
+          >
+            <PencilLine className="mr-2 h-4 w-4" />
+            {isEditing ? t("table.finishEditing") : t("table.correctData")}
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
         <TooltipProvider>
@@ -325,7 +444,7 @@ export function ComparisonTable({
             <Table>
             <TableHeader>
               <TableRow>
-                <TableHead className="w-[200px]">Kategoria</TableHead>
+                <TableHead className="w-[200px]">{t("table.category")}</TableHead>
                 {offers.map((offer, idx) => (
                   <TableHead
                     key={offer.id}
@@ -341,9 +460,10 @@ export function ComparisonTable({
                       )}
                       {idx === bestOfferIndex && (
                         <Badge variant="default" className="text-xs">
-                          Rekomendowana
+                          {t("table.recommended")}
                         </Badge>
                       )}
+                      {renderRequirementBadge(offer.id)}
                     </div>
                   </TableHead>
                 ))}
@@ -354,11 +474,12 @@ export function ComparisonTable({
                 <TableCell className="font-medium">
                   <div className="flex items-center gap-2">
                     <DollarSign className="w-4 h-4 text-primary" />
-                    Składka miesięczna
+                    {premiumRowLabel}
                   </div>
                 </TableCell>
                 {offers.map((offer, idx) => {
-                  const premium = premiums[idx];
+                  const normalizedPremium = normalizedPremiums[idx];
+                  const premium = normalizedPremium?.[premiumBasis] ?? null;
                   const highlight = priceAnalyses[idx]?.highlight as HighlightTone;
                   const highlightClass = getHighlightCellClass(highlight);
                   return (
@@ -371,22 +492,34 @@ export function ComparisonTable({
                     >
                       <div className="flex flex-col gap-2">
                         <div className="flex items-center gap-2">
-                          {lowestPremium !== null && premium !== null && premium === lowestPremium && (
+                          {lowestPremium !== null && comparablePremiums[idx] === lowestPremium && (
                             <ArrowDown className="w-4 h-4 text-emerald-600" />
                           )}
-                          <span>
-                            {premium !== null
-                              ? formatCurrency(premium, currencies[idx])
-                              : "Brak danych"}
+                          <span
+                            title={
+                              normalizedPremium && normalizedPremium.currency !== normalizedPremium.originalCurrency
+                                ? t("cell.statedInOffer", {
+                                    value: formatCurrency(
+                                      normalizedPremium.amount,
+                                      normalizedPremium.originalCurrency,
+                                      locale,
+                                    ),
+                                  })
+                                : undefined
+                            }
+                          >
+                            {normalizedPremium && premium !== null
+                              ? formatCurrency(premium, normalizedPremium.currency, locale)
+                              : t("table.diff.missing")}
                           </span>
                         </div>
                         {priceAnalyses[idx] && renderAiBlock(priceAnalyses[idx], { 
                           type: 'metric',
                           id: 'price.total',
-                          label: 'Składka miesięczna',
+                          label: premiumRowLabel,
                           icon: 'price',
-                          analysisLabel: 'Analiza AI',
-                          aiFallbackMessage: 'Brak komentarza AI',
+                          analysisLabel: t("rows.aiAnalysis"),
+                          aiFallbackMessage: t("rows.noAiComment"),
                           values: [],
                           diffStatus: 'equal'
                         } as ComparisonSectionRow)}
@@ -404,16 +537,17 @@ export function ComparisonTable({
             <Table>
             <TableHeader>
               <TableRow>
-                <TableHead className="w-[240px]">Sekcja</TableHead>
+                <TableHead className="w-[240px]">{t("table.section")}</TableHead>
                 {offers.map((offer, idx) => (
                   <TableHead key={offer.id} className={cn(idx === bestOfferIndex && "bg-primary/5")}>
                     <div className="space-y-1">
                       <div className="font-semibold">{offer.insurer}</div>
                       {idx === bestOfferIndex && (
                         <Badge variant="default" className="text-xs">
-                          Rekomendowana
+                          {t("table.recommended")}
                         </Badge>
                       )}
+                      {renderRequirementBadge(offer.id)}
                     </div>
                   </TableHead>
                 ))}
@@ -446,7 +580,7 @@ export function ComparisonTable({
                               variant="outline"
                               className={cn("text-[10px] uppercase", DIFF_BADGE_CLASS[section.diffStatus])}
                             >
-                              {DIFF_BADGE_LABEL[section.diffStatus]}
+                              {t(`table.diff.${section.diffStatus}`)}
                             </Badge>
                             <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
                             />
@@ -480,7 +614,7 @@ export function ComparisonTable({
                                     )}
                                   >
                                     <div className="space-y-3">
-                                      {renderValueContent(cell, row)}
+                                      {renderValueContent(cell, row, offers[idx])}
                                       {renderAiBlock(cell, row)}
                                     </div>
                                   </TableCell>
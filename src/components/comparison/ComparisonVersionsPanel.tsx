@@ -0,0 +1,110 @@
+import { useMemo } from "react";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  diffComparisonVersions,
+  findPreviousVersion,
+  type ComparisonVersion,
+} from "@/lib/comparison-versions";
+import { getLocale, type Language } from "@/lib/i18n";
+
+interface ComparisonVersionsPanelProps {
+  /** Newest first; the first entry is the result currently stored on the comparison. */
+  versions: ComparisonVersion[];
+  selectedVersionId: string | null;
+  onSelectVersion: (versionId: string) => void;
+  onRerun: () => void;
+  isRerunning: boolean;
+}
+
+const formatVersionDate = (value: string, language: Language) =>
+  new Date(value).toLocaleString(getLocale(language), { dateStyle: "short", timeStyle: "short" });
+
+/**
+ * Switches between stored runs of a comparison and lists what changed against the run before
+ * the selected one.
+ */
+export function ComparisonVersionsPanel({
+  versions,
+  selectedVersionId,
+  onSelectVersion,
+  onRerun,
+  isRerunning,
+}: ComparisonVersionsPanelProps) {
+  const { language, t } = useLanguage();
+  const selected = versions.find((version) => version.id === selectedVersionId) ?? versions[0] ?? null;
+  const previous = useMemo(
+    () => (selected ? findPreviousVersion(versions, selected) : null),
+    [versions, selected]
+  );
+  const changes = useMemo(
+    () => (selected && previous ? diffComparisonVersions(previous, selected, language) : []),
+    [selected, previous, language]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <History className="h-5 w-5 text-primary" />
+            {t("versions.title")}
+          </CardTitle>
+          <CardDescription>
+            {selected
+              ? `${t("versions.selected", {
+                  version: selected.version,
+                  date: formatVersionDate(selected.createdAt, language),
+                })}${selected.comparisonModel ? t("versions.model", { model: selected.comparisonModel }) : ""}`
+              : t("versions.empty")}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {versions.length > 0 && (
+            <Select value={selected?.id} onValueChange={onSelectVersion}>
+              <SelectTrigger className="h-9 w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version, index) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    {t("versions.option", {
+                      version: version.version,
+                      date: formatVersionDate(version.createdAt, language),
+                    })}
+                    {index === 0 ? t("versions.current") : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="sm" disabled={isRerunning} onClick={onRerun}>
+            {isRerunning ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            {t("versions.rerun")}
+          </Button>
+        </div>
+      </CardHeader>
+      {selected && previous && (
+        <CardContent>
+          <p className="text-sm font-medium">{t("versions.changesSince", { version: previous.version })}</p>
+          {changes.length > 0 ? (
+            <ul className="mt-2 space-y-1 text-sm text-muted-foreground">
+              {changes.map((change, idx) => (
+                <li key={idx}>• {change.description}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">{t("versions.noChanges")}</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
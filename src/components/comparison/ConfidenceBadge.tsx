@@ -0,0 +1,38 @@
+import { AlertTriangle } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { cn } from "@/lib/utils";
+import type { FieldConfidence } from "@/types/comparison";
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+/**
+ * Flags values the extraction is unsure about. High-confidence values render nothing so the
+ * table stays quiet; low-confidence ones should be checked against the document before sending.
+ */
+export function ConfidenceBadge({ confidence }: { confidence?: FieldConfidence | null }) {
+  const { t } = useLanguage();
+  if (!confidence || confidence.level === "high") {
+    return null;
+  }
+
+  const isLow = confidence.level === "low";
+
+  return (
+    <span
+      className={cn(
+        "inline-flex shrink-0 items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-medium",
+        isLow
+          ? "border-amber-300 bg-amber-500/10 text-amber-700 dark:border-amber-600 dark:text-amber-200"
+          : "border-border bg-muted text-muted-foreground",
+      )}
+      title={
+        isLow
+          ? t("confidence.lowTitle", { score: formatScore(confidence.score) })
+          : t("confidence.mediumTitle", { score: formatScore(confidence.score) })
+      }
+    >
+      {isLow && <AlertTriangle className="h-3 w-3" />}
+      {isLow ? t("confidence.low") : t("confidence.medium")}
+    </span>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getLocale, translate, type Language } from "@/lib/i18n";
+import { parseCorrectionAmount, type OfferFieldCorrection } from "@/lib/offer-corrections";
+
+interface CorrectionPopoverProps {
+  label: string;
+  currentValue: unknown;
+  correction?: OfferFieldCorrection | null;
+  onSubmit: (value: number) => Promise<void>;
+}
+
+const formatOriginalValue = (value: unknown, language: Language) => {
+  if (value === null || value === undefined || value === "missing") {
+    return translate(language, "correction.noData");
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString(getLocale(language));
+  }
+  return String(value);
+};
+
+export function CorrectionPopover({ label, currentValue, correction, onSubmit }: CorrectionPopoverProps) {
+  const { language, t } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      // parseCorrectionAmount reads the number format of the active language, so the field is prefilled in it.
+      setInput(typeof currentValue === "number" ? currentValue.toLocaleString(getLocale(language)) : "");
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = parseCorrectionAmount(input, language);
+    if (parsed === null) {
+      setError(t("correction.invalidAmount"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(parsed);
+      setOpen(false);
+    } catch {
+      // The caller reports the failure; keep the form open so the value can be retried.
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="h-6 w-6 shrink-0" aria-label={t("correction.edit", { label })}>
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72">
+        <form className="space-y-3" onSubmit={(event) => void handleSubmit(event)}>
+          <div className="space-y-1">
+            <Label htmlFor="offer-correction-value">{label}</Label>
+            <Input
+              id="offer-correction-value"
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              inputMode="decimal"
+              autoFocus
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          {correction && (
+            <p className="text-xs text-muted-foreground">
+              {t("correction.originalValue", { value: formatOriginalValue(correction.original_value, language) })}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {t("correction.recalculationNotice")}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isSaving}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function CorrectionBadge({ correction }: { correction: OfferFieldCorrection }) {
+  const { language, t } = useLanguage();
+  const editedAt = new Date(correction.edited_at);
+  const editedAtLabel = Number.isNaN(editedAt.getTime())
+    ? correction.edited_at
+    : editedAt.toLocaleString(getLocale(language), { dateStyle: "short", timeStyle: "short" });
+
+  return (
+    <span
+      className="inline-flex items-center rounded-full border border-sky-200 bg-sky-500/10 px-2 py-0.5 text-[10px] font-medium text-sky-700 dark:border-sky-600 dark:text-sky-200"
+      title={t("correction.badgeTitle", {
+        user: correction.edited_by_email ?? correction.edited_by,
+        date: editedAtLabel,
+        value: formatOriginalValue(correction.original_value, language),
+      })}
+    >
+      {t("correction.badge")}
+    </span>
+  );
+}
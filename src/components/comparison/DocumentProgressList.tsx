@@ -0,0 +1,46 @@
+import { AlertTriangle, CheckCircle2, FileText, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { describeDocumentProgress } from "@/hooks/useComparisonFlow";
+import type { DocumentProgress } from "@/services/comparison-service";
+
+interface DocumentProgressListProps {
+  items: DocumentProgress[];
+}
+
+export function DocumentProgressList({ items }: DocumentProgressListProps) {
+  const { language } = useLanguage();
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => {
+        const { label, percent, state } = describeDocumentProgress(item, language);
+
+        return (
+          <li
+            key={item.documentId}
+            className="p-3 rounded-lg border border-border bg-muted/30 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <FileText className="h-5 w-5 text-primary shrink-0" />
+                <p className="text-sm font-medium text-foreground truncate">{item.fileName}</p>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground shrink-0">
+                {state === "completed" ? (
+                  <CheckCircle2 className="h-4 w-4 text-success" />
+                ) : state === "failed" ? (
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                ) : state === "active" ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                ) : null}
+                <span className={state === "failed" ? "text-destructive" : undefined}>{label}</span>
+              </div>
+            </div>
+            <Progress value={percent} className="h-1.5" />
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,10 +1,15 @@
-import { useEffect, useMemo, useState, type KeyboardEventHandler } from "react";
+import { useCallback, useEffect, useMemo, useState, type KeyboardEventHandler } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ArrowLeft, ArrowRight, Download, FileWarning, Loader2 } from "lucide-react";
+import { PdfPageViewer } from "@/components/comparison/PdfPageViewer";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
 import type { Database } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/i18n";
+import type { SourceReference } from "@/types/comparison";
 import { toast } from "sonner";
 
 type DocumentRow = Database["public"]["Tables"]["documents"]["Row"];
@@ -13,6 +18,8 @@ type DocumentViewerDialogProps = {
   isOpen: boolean;
   document: DocumentRow | null;
   page: number;
+  /** Citation to outline on its page; ignored on other pages. */
+  highlight?: SourceReference | null;
   onOpenChange: (open: boolean) => void;
   onPageChange: (page: number) => void;
   onDownload: (document: DocumentRow) => void;
@@ -43,15 +50,19 @@ export function DocumentViewerDialog({
   isOpen,
   document,
   page,
+  highlight,
   onOpenChange,
   onPageChange,
   onDownload,
   fetchPreviewUrl,
 }: DocumentViewerDialogProps) {
+  const { t } = useLanguage();
+  const stableT = useStableTranslator();
   const [basePreviewUrl, setBasePreviewUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [pageInput, setPageInput] = useState(page.toString());
+  const [pageCount, setPageCount] = useState<number | null>(null);
 
   const previewSupported = useMemo(() => isPdfFile(document) || isImageFile(document), [document]);
 
@@ -60,6 +71,8 @@ export function DocumentViewerDialog({
   }, [page]);
 
   useEffect(() => {
+    setPageCount(null);
+
     if (!isOpen) {
       setBasePreviewUrl(null);
       setPreviewError(null);
@@ -75,7 +88,7 @@ export function DocumentViewerDialog({
 
     if (!previewSupported) {
       setBasePreviewUrl(null);
-      setPreviewError("Podgląd nie jest dostępny dla tego typu pliku.");
+      setPreviewError(stableT("viewer.unsupported"));
       return;
     }
 
@@ -91,11 +104,11 @@ export function DocumentViewerDialog({
           setBasePreviewUrl(url);
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : undefined;
+        const message = errorMessage(stableT, error);
         if (!isCancelled) {
-          setPreviewError(message ?? "Nie udało się załadować podglądu dokumentu.");
+          setPreviewError(message ?? stableT("viewer.loadFailed"));
         }
-        toast.error("Nie udało się wczytać podglądu.", {
+        toast.error(stableT("result.previewFailed"), {
           description: message,
         });
       } finally {
@@ -110,21 +123,19 @@ export function DocumentViewerDialog({
     return () => {
       isCancelled = true;
     };
-  }, [document, fetchPreviewUrl, isOpen, previewSupported]);
+  }, [document, fetchPreviewUrl, isOpen, previewSupported, stableT]);
 
-  const displayUrl = useMemo(() => {
-    if (!basePreviewUrl) return null;
-    if (document && isPdfFile(document)) {
-      const safePage = clampPage(page);
-      return `${basePreviewUrl}#page=${safePage}`;
-    }
-    return basePreviewUrl;
-  }, [basePreviewUrl, document, page]);
+  const handleRenderError = useCallback(
+    (error: unknown) => {
+      setPreviewError(t("viewer.renderFailed", { message: errorMessage(t, error) ?? t("result.unknownError") }));
+    },
+    [t]
+  );
 
   const handlePageSubmit = () => {
     const parsed = Number(pageInput);
     const safePage = clampPage(parsed);
-    onPageChange(safePage);
+    onPageChange(pageCount ? Math.min(safePage, pageCount) : safePage);
   };
 
   const handleKeyDown: KeyboardEventHandler<HTMLInputElement> = (event) => {
@@ -150,29 +161,30 @@ export function DocumentViewerDialog({
           <p>{previewError}</p>
           {document && (
             <Button variant="outline" onClick={() => onDownload(document)}>
-              <Download className="mr-2 h-4 w-4" /> Pobierz dokument
+              <Download className="mr-2 h-4 w-4" /> {t("viewer.downloadDocument")}
             </Button>
           )}
         </div>
       );
     }
 
-    if (!displayUrl) {
+    if (!basePreviewUrl) {
       return (
         <div className="flex h-[60vh] flex-col items-center justify-center gap-2 text-center text-sm text-muted-foreground">
           <FileWarning className="h-10 w-10 text-muted-foreground/70" />
-          <p>Podgląd dokumentu nie jest dostępny.</p>
+          <p>{t("viewer.unavailable")}</p>
         </div>
       );
     }
 
     if (document && isPdfFile(document)) {
       return (
-        <iframe
-          key={displayUrl}
-          src={displayUrl}
-          title={`Podgląd dokumentu ${document.file_name}`}
-          className="h-[70vh] w-full rounded-md border"
+        <PdfPageViewer
+          url={basePreviewUrl}
+          page={clampPage(page)}
+          highlight={highlight}
+          onPageCountChange={setPageCount}
+          onError={handleRenderError}
         />
       );
     }
@@ -181,7 +193,7 @@ export function DocumentViewerDialog({
       return (
         <ScrollArea className="h-[70vh] w-full rounded-md border">
           <img
-            src={displayUrl}
+            src={basePreviewUrl}
             alt={document.file_name}
             className="h-full w-full object-contain"
           />
@@ -192,7 +204,7 @@ export function DocumentViewerDialog({
     return (
       <div className="flex h-[60vh] flex-col items-center justify-center gap-2 text-center text-sm text-muted-foreground">
         <FileWarning className="h-10 w-10 text-muted-foreground/70" />
-        <p>Ten typ pliku nie obsługuje podglądu. Skorzystaj z opcji pobierania.</p>
+        <p>{t("viewer.unsupportedHint")}</p>
       </div>
     );
   };
@@ -201,21 +213,21 @@ export function DocumentViewerDialog({
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-5xl">
         <DialogHeader>
-          <DialogTitle>{document?.file_name ?? "Podgląd dokumentu"}</DialogTitle>
+          <DialogTitle>{document?.file_name ?? t("viewer.title")}</DialogTitle>
           <DialogDescription>
-            Sprawdź szczegóły oferty bezpośrednio w przesłanym dokumencie.
+            {t("viewer.description")}
           </DialogDescription>
         </DialogHeader>
 
         {!document ? (
           <div className="py-10 text-center text-sm text-muted-foreground">
-            Wybierz dokument, aby wyświetlić jego podgląd.
+            {t("viewer.noDocument")}
           </div>
         ) : (
           <div className="space-y-4">
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <span>ID dokumentu:</span>
+                <span>{t("viewer.documentId")}</span>
                 <span className="font-medium text-foreground">{document.id}</span>
               </div>
               <div className="flex items-center gap-2">
@@ -238,11 +250,14 @@ export function DocumentViewerDialog({
                       inputMode="numeric"
                       pattern="[0-9]*"
                     />
+                    {pageCount !== null && (
+                      <span className="px-1 text-muted-foreground">/ {pageCount}</span>
+                    )}
                     <Button
                       variant="outline"
                       size="icon"
                       onClick={() => onPageChange(page + 1)}
-                      disabled={isLoading}
+                      disabled={isLoading || (pageCount !== null && page >= pageCount)}
                     >
                       <ArrowRight className="h-4 w-4" />
                     </Button>
@@ -253,7 +268,7 @@ export function DocumentViewerDialog({
                   onClick={() => onDownload(document)}
                   disabled={isLoading}
                 >
-                  <Download className="mr-2 h-4 w-4" /> Pobierz
+                  <Download className="mr-2 h-4 w-4" /> {t("result.download")}
                 </Button>
               </div>
             </div>
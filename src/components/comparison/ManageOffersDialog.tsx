@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { FileText, Loader2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { MAX_FILES } from "@/hooks/useComparisonFlow";
+import { errorMessage, getLocale } from "@/lib/i18n";
+import {
+  DOCUMENT_ACCEPT_ATTRIBUTE,
+  SUPPORTED_FORMAT_LABELS,
+  isSupportedDocumentFile,
+} from "@/lib/document-formats";
+import { comparisonService, type ReusableDocument } from "@/services/comparison-service";
+
+interface ManageOffersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+  documents: Array<{ id: string; file_name: string }>;
+  onAdd: (params: { files: File[]; existingDocumentIds: string[] }) => Promise<void>;
+  onRemove: (documentIds: string[]) => Promise<void>;
+}
+
+/**
+ * Adds offers to or drops offers from an existing comparison. Documents uploaded earlier can be
+ * picked instead of uploading the same quote again.
+ */
+export function ManageOffersDialog({
+  open,
+  onOpenChange,
+  userId,
+  documents,
+  onAdd,
+  onRemove,
+}: ManageOffersDialogProps) {
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const [toRemove, setToRemove] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [reusable, setReusable] = useState<ReusableDocument[]>([]);
+  const [toReuse, setToReuse] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<"add" | "remove" | null>(null);
+
+  const documentIdsKey = documents.map((doc) => doc.id).join(",");
+  useEffect(() => {
+    if (!open) {
+      setToRemove([]);
+      setFiles([]);
+      setToReuse([]);
+      return;
+    }
+    if (!userId) return;
+
+    let cancelled = false;
+    comparisonService
+      .listReusableDocuments(userId, documentIdsKey.split(","))
+      .then((rows) => {
+        if (!cancelled) {
+          setReusable(rows);
+        }
+      })
+      .catch((error: unknown) => {
+        const description = errorMessage(stableT, error);
+        toast.error(stableT("manageOffers.documentsLoadFailed"), { description });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, documentIdsKey, stableT]);
+
+  const addedCount = files.length + toReuse.length;
+  const remaining = documents.length - toRemove.length;
+  const overLimit = documents.length + addedCount > MAX_FILES;
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const incoming = Array.from(event.target.files ?? []);
+    const unsupported = incoming.filter((file) => !isSupportedDocumentFile(file));
+    if (unsupported.length > 0) {
+      toast.error(t("files.invalidFormat"), {
+        description: t("files.acceptedFormats", { formats: SUPPORTED_FORMAT_LABELS }),
+      });
+    }
+    setFiles((current) => [...current, ...incoming.filter((file) => isSupportedDocumentFile(file))]);
+    event.target.value = "";
+  };
+
+  const toggle = (setter: typeof setToRemove, id: string, checked: boolean) =>
+    setter((current) => (checked ? [...current, id] : current.filter((entry) => entry !== id)));
+
+  const run = async (action: "add" | "remove", task: () => Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await task();
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open so the selection is not lost.
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("manageOffers.title")}</DialogTitle>
+          <DialogDescription>
+            {t("manageOffers.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-3">
+          <ul className="divide-y rounded-lg border">
+            {documents.map((doc) => {
+              const checkboxId = `remove-${doc.id}`;
+              return (
+                <li key={doc.id} className="flex items-center gap-3 p-3">
+                  <Checkbox
+                    id={checkboxId}
+                    checked={toRemove.includes(doc.id)}
+                    onCheckedChange={(checked) => toggle(setToRemove, doc.id, checked === true)}
+                  />
+                  <label htmlFor={checkboxId} className="flex-1 min-w-0 truncate text-sm font-medium">
+                    {doc.file_name}
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+          {toRemove.length > 0 && remaining < 2 && (
+            <p className="text-sm text-destructive">{t("errors.minTwoOffers")}</p>
+          )}
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              disabled={pendingAction !== null || toRemove.length === 0 || remaining < 2}
+              onClick={() => void run("remove", () => onRemove(toRemove))}
+            >
+              {pendingAction === "remove" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("manageOffers.removeSelected", { count: toRemove.length })}
+            </Button>
+          </div>
+        </section>
+
+        <section className="space-y-3 border-t pt-4">
+          <h3 className="text-sm font-semibold">{t("manageOffers.addTitle")}</h3>
+          <Input
+            id="add-offers-upload"
+            type="file"
+            accept={DOCUMENT_ACCEPT_ATTRIBUTE}
+            multiple
+            onChange={handleFileUpload}
+            className="hidden"
+          />
+          <label
+            htmlFor="add-offers-upload"
+            className="flex items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border p-4 text-sm cursor-pointer hover:bg-muted/50 transition-colors"
+          >
+            <Upload className="h-4 w-4 text-muted-foreground" />
+            {t("manageOffers.upload")}
+          </label>
+          {files.length > 0 && (
+            <ul className="space-y-2">
+              {files.map((file, index) => (
+                <li
+                  key={`${file.name}-${index}`}
+                  className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-2 text-sm"
+                >
+                  <span className="flex min-w-0 items-center gap-2">
+                    <FileText className="h-4 w-4 shrink-0 text-primary" />
+                    <span className="truncate">{file.name}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFiles((current) => current.filter((_, idx) => idx !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {reusable.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t("manageOffers.reusable")}</p>
+              <ul className="max-h-48 divide-y overflow-y-auto rounded-lg border">
+                {reusable.map((doc) => {
+                  const checkboxId = `reuse-${doc.id}`;
+                  return (
+                    <li key={doc.id} className="flex items-center gap-3 p-3">
+                      <Checkbox
+                        id={checkboxId}
+                        checked={toReuse.includes(doc.id)}
+                        onCheckedChange={(checked) => toggle(setToReuse, doc.id, checked === true)}
+                      />
+                      <label htmlFor={checkboxId} className="flex-1 min-w-0 text-sm">
+                        <span className="block truncate font-medium">{doc.file_name}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {new Date(doc.created_at).toLocaleDateString(getLocale(language))}
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {overLimit && (
+            <p className="text-sm text-destructive">{t("manageOffers.maxOffers", { max: MAX_FILES })}</p>
+          )}
+          <div className="flex justify-end">
+            <Button
+              disabled={pendingAction !== null || addedCount === 0 || overLimit}
+              onClick={() => void run("add", () => onAdd({ files, existingDocumentIds: toReuse }))}
+            >
+              {pendingAction === "add" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("manageOffers.addSelected", { count: addedCount })}
+            </Button>
+          </div>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
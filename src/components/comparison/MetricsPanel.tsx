@@ -1,75 +1,45 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { DollarSign, FileText, Shield, TrendingDown, type LucideIcon } from "lucide-react";
-import type { ComparisonOffer } from "@/lib/comparison-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  calculateComparisonMetrics,
+  type ComparisonMetricKey,
+  type ComparisonOffer,
+  type PremiumBasis,
+} from "@/lib/comparison-utils";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
 import { SourceTooltip, cn } from "@/lib/utils";
 import type { SourceReference } from "@/types/comparison";
 
-type MetricKey = "offerCount" | "lowestPremium" | "highestCoverage" | "averagePremium";
+type MetricKey = ComparisonMetricKey;
 
-type MetricDefinition = {
-  key: MetricKey;
-  label: string;
-  value: string;
-  icon: LucideIcon;
-  color: string;
+const METRIC_APPEARANCE: Record<MetricKey, { icon: LucideIcon; color: string }> = {
+  offerCount: { icon: FileText, color: "text-primary" },
+  lowestPremium: { icon: TrendingDown, color: "text-success" },
+  highestCoverage: { icon: Shield, color: "text-blue-600" },
+  averagePremium: { icon: DollarSign, color: "text-primary" },
 };
 
 interface MetricsPanelProps {
   offers: ComparisonOffer[];
+  premiumBasis?: PremiumBasis;
+  currencyConverter?: CurrencyConverter | null;
   sourceReferences?: Partial<Record<MetricKey, SourceReference[] | SourceReference | null>>;
 }
 
-export function MetricsPanel({ offers, sourceReferences }: MetricsPanelProps) {
-  // Support both old and new unified format
-  const premiums = offers
-    .map(o => {
-      const unified = o.data?.unified;
-      if (unified && unified.total_premium_after_discounts !== 'missing') {
-        return unified.total_premium_after_discounts;
-      }
-      return o.data?.premium?.total;
-    })
-    .filter(p => p != null) as number[];
-  
-  const coverages = offers
-    .map(o => o.data?.coverage?.oc?.sum)
-    .filter(c => c != null) as number[];
-
-  const offerCount = offers.length;
-  const lowestPremium = premiums.length > 0 ? Math.min(...premiums) : 0;
-  const avgPremium = premiums.length > 0 ? premiums.reduce((a, b) => a + b, 0) / premiums.length : 0;
-  const highestCoverage = coverages.length > 0 ? Math.max(...coverages) : 0;
-
-  const metrics: MetricDefinition[] = [
-    {
-      key: "offerCount" as const,
-      label: "Liczba ofert",
-      value: offerCount.toString(),
-      icon: FileText,
-      color: "text-primary",
-    },
-    {
-      key: "lowestPremium" as const,
-      label: "Najniższa składka",
-      value: lowestPremium > 0 ? `${lowestPremium.toLocaleString('pl-PL')} PLN` : "Brak danych",
-      icon: TrendingDown,
-      color: "text-success",
-    },
-    {
-      key: "highestCoverage" as const,
-      label: "Najwyższa ochrona",
-      value: highestCoverage > 0 ? `${highestCoverage.toLocaleString('pl-PL')} PLN` : "Brak danych",
-      icon: Shield,
-      color: "text-blue-600",
-    },
-    {
-      key: "averagePremium" as const,
-      label: "Średnia składka",
-      value: avgPremium > 0 ? `${Math.round(avgPremium).toLocaleString('pl-PL')} PLN` : "Brak danych",
-      icon: DollarSign,
-      color: "text-primary",
-    },
-  ];
+export function MetricsPanel({
+  offers,
+  premiumBasis = "annual",
+  currencyConverter = null,
+  sourceReferences,
+}: MetricsPanelProps) {
+  const { language } = useLanguage();
+  const metrics = calculateComparisonMetrics(offers, premiumBasis, currencyConverter, language).map(
+    (metric) => ({
+      ...metric,
+      ...METRIC_APPEARANCE[metric.key],
+    }),
+  );
 
   const hasSourceReferences = Boolean(
     sourceReferences && typeof sourceReferences === "object" && Object.keys(sourceReferences).length > 0,
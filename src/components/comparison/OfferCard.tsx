@@ -17,6 +17,8 @@ import type { LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { ComparisonOffer } from "@/lib/comparison-utils";
 import { getPaymentDisplayInfo } from "@/lib/comparison-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getLocale } from "@/lib/i18n";
 
 interface OfferCardAnalysisSection {
   sources?: SourceReference[] | null;
@@ -59,6 +61,8 @@ export function OfferCard({
   onSelect,
   analysis,
 }: OfferCardProps) {
+  const { language, t } = useLanguage();
+  const locale = getLocale(language);
   // Support both old and new unified format
   const unified = offer.data?.unified;
   
@@ -70,7 +74,7 @@ export function OfferCard({
     
   const currency = offer.data?.premium?.currency || 'PLN';
   
-  const paymentInfo = getPaymentDisplayInfo(offer.data);
+  const paymentInfo = getPaymentDisplayInfo(offer.data, language);
   const unifiedRecord = unified as Record<string, unknown> | undefined;
   const baseContracts = Array.isArray(unifiedRecord?.base_contracts) ? unifiedRecord.base_contracts : [];
   const additionalContracts = Array.isArray(unifiedRecord?.additional_contracts) ? unifiedRecord.additional_contracts : [];
@@ -80,7 +84,7 @@ export function OfferCard({
     (offer.data?.coverage?.oc?.sum ?? offer.data?.coverage?.ac?.sum ?? null) as number | string | null;
   const coverageLabel = (() => {
     if (typeof rawCoverageSum === "number" && Number.isFinite(rawCoverageSum)) {
-      return `${rawCoverageSum.toLocaleString("pl-PL")} PLN`;
+      return `${rawCoverageSum.toLocaleString(locale)} PLN`;
     }
     if (typeof rawCoverageSum === "string" && rawCoverageSum.trim().length > 0) {
       return rawCoverageSum.trim();
@@ -106,32 +110,32 @@ export function OfferCard({
       <CardHeader className="space-y-4">
         <div className="flex items-start justify-between gap-4">
           <div className="space-y-1">
-            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Oferta</p>
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t("offer.title")}</p>
             <h3 className="text-lg font-semibold leading-tight text-foreground">{label}</h3>
           </div>
           <div className="flex flex-col gap-1.5 items-end">
             {badges.includes('lowest-price') && (
               <Badge variant="default" className="bg-success text-success-foreground gap-1">
                 <TrendingDown className="w-3 h-3" />
-                Najniższa cena
+                {t("offer.lowestPrice")}
               </Badge>
             )}
             {badges.includes('recommended') && (
               <Badge variant="default" className="bg-primary gap-1">
                 <Star className="w-3 h-3" />
-                Rekomendowana
+                {t("table.recommended")}
               </Badge>
             )}
             {badges.includes('highest-coverage') && (
               <Badge variant="default" className="bg-blue-600 gap-1">
                 <Shield className="w-3 h-3" />
-                Najlepszy zakres
+                {t("offer.bestCoverage")}
               </Badge>
             )}
             {badges.includes('warning') && (
               <Badge variant="default" className="bg-warning text-warning-foreground gap-1">
                 <AlertTriangle className="w-3 h-3" />
-                Uwaga
+                {t("offer.warning")}
               </Badge>
             )}
           </div>
@@ -145,7 +149,7 @@ export function OfferCard({
                 className="gap-1 text-xs font-medium uppercase tracking-wide text-muted-foreground"
               >
                 <Building2 className="w-3.5 h-3.5 text-primary" />
-                <span>Ubezpieczyciel</span>
+                <span>{t("offer.insurer")}</span>
                 <span className="font-semibold normal-case text-foreground">
                   {offer.insurer}
                 </span>
@@ -164,16 +168,16 @@ export function OfferCard({
       <CardContent className="space-y-4">
         <div className="py-4 bg-muted/50 rounded-lg space-y-2 text-center">
           <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-            Wysokość składki
+            {t("rows.premium")}
           </p>
           <SourceTooltip reference={analysis?.price?.sources}>
             <div className="text-4xl font-bold text-primary">
-              {premium ? `${premium.toLocaleString("pl-PL")} ${currency}` : "—"}
+              {premium ? `${premium.toLocaleString(locale)} ${currency}` : "—"}
             </div>
           </SourceTooltip>
           <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
             <CreditCard className="w-4 h-4 text-primary" />
-            <span>Płatność:</span>
+            <span>{t("offer.payment")}</span>
             <SourceTooltip reference={analysis?.payment?.sources ?? analysis?.price?.sources}>
               <span className="font-medium">
                 {paymentInfo.hasData ? paymentInfo.primaryLabel : "—"}
@@ -182,17 +186,17 @@ export function OfferCard({
           </div>
           {paymentInfo.secondaryLabels.length > 0 && (
             <div className="text-xs text-muted-foreground">
-              Dostępne opcje: {paymentInfo.secondaryLabels.join(", ")}
+              {t("offer.paymentOptions", { options: paymentInfo.secondaryLabels.join(", ") })}
             </div>
           )}
 
           {hasDiscounts && premiumBefore && premium && premiumBefore > premium && (
             <div className="text-xs text-muted-foreground">
               <span className="line-through">
-                {premiumBefore.toLocaleString("pl-PL")} {currency}
+                {premiumBefore.toLocaleString(locale)} {currency}
               </span>
               <span className="text-success ml-2">
-                oszczędzasz {(premiumBefore - premium).toLocaleString("pl-PL")} {currency}
+                {t("offer.savings", { amount: `${(premiumBefore - premium).toLocaleString(locale)} ${currency}` })}
               </span>
             </div>
           )}
@@ -202,7 +206,7 @@ export function OfferCard({
           {coverageLabel && (
             <div className="flex items-center gap-2 text-sm">
               <Shield className="w-4 h-4 text-primary" />
-              <span className="text-muted-foreground">Zakres podstawowy:</span>
+              <span className="text-muted-foreground">{t("offer.baseCoverage")}</span>
               <SourceTooltip reference={analysis?.coverage?.sources}>
                 <span className="font-medium">{coverageLabel}</span>
               </SourceTooltip>
@@ -212,7 +216,7 @@ export function OfferCard({
           {baseContracts.length > 0 && (
             <div className="flex items-center gap-2 text-sm">
               <Layers className="w-4 h-4 text-primary" />
-              <span className="text-muted-foreground">Umowy podstawowe:</span>
+              <span className="text-muted-foreground">{t("offer.baseContracts")}</span>
               <span className="font-medium">{baseContracts.length}</span>
             </div>
           )}
@@ -220,7 +224,7 @@ export function OfferCard({
           {additionalCount > 0 && (
             <div className="flex items-center gap-2 text-sm">
               <Layers className="w-4 h-4 text-primary" />
-              <span className="text-muted-foreground">Zakres dodatkowy:</span>
+              <span className="text-muted-foreground">{t("offer.additionalCoverage")}</span>
               <span className="font-medium">{additionalCount}</span>
             </div>
           )}
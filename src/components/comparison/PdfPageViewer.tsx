@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { Loader2 } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { coordinatesToRect, findSnippetRect, type HighlightRect, type PdfTextItemLike } from "@/lib/pdf-highlight";
+import type { SourceReference } from "@/types/comparison";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+type PdfPageViewerProps = {
+  url: string;
+  page: number;
+  highlight?: SourceReference | null;
+  onPageCountChange?: (pageCount: number) => void;
+  /** Receives the pdf.js error; the caller turns it into a message. */
+  onError?: (error: unknown) => void;
+};
+
+export function PdfPageViewer({ url, page, highlight, onPageCountChange, onError }: PdfPageViewerProps) {
+  const { t } = useLanguage();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const highlightRef = useRef<HTMLDivElement | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [highlightRect, setHighlightRect] = useState<HighlightRect | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const loadingTask = getDocument({ url });
+    setPdf(null);
+    setIsRendering(true);
+
+    loadingTask.promise
+      .then((loaded) => {
+        if (isCancelled) {
+          return;
+        }
+        setPdf(loaded);
+        onPageCountChange?.(loaded.numPages);
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setIsRendering(false);
+          onError?.(error);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      void loadingTask.destroy();
+    };
+  }, [url, onPageCountChange, onError]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!pdf || !canvas || !container) {
+      return;
+    }
+
+    let isCancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const renderPage = async () => {
+      setIsRendering(true);
+      setHighlightRect(null);
+
+      const pdfPage = await pdf.getPage(Math.min(Math.max(1, page), pdf.numPages));
+      const baseViewport = pdfPage.getViewport({ scale: 1 });
+      const scale = Math.max(container.clientWidth - 2, 320) / baseViewport.width;
+      const viewport = pdfPage.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      const context = canvas.getContext("2d");
+      if (!context || isCancelled) {
+        return;
+      }
+
+      renderTask = pdfPage.render({
+        canvasContext: context,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+      if (isCancelled) {
+        return;
+      }
+      setIsRendering(false);
+
+      if (!highlight || highlight.page !== pdfPage.pageNumber) {
+        return;
+      }
+
+      const pageSize = { width: baseViewport.width, height: baseViewport.height };
+      let rect = highlight.coordinates ? coordinatesToRect(highlight.coordinates, pageSize, scale) : null;
+      if (!rect && highlight.textSnippet) {
+        const textContent = await pdfPage.getTextContent();
+        const items = textContent.items.filter((item): item is PdfTextItemLike & typeof item => "str" in item);
+        rect = findSnippetRect(items, highlight.textSnippet, pageSize, scale);
+      }
+      if (!isCancelled) {
+        setHighlightRect(rect);
+      }
+    };
+
+    renderPage().catch((error: unknown) => {
+      if (isCancelled || (error instanceof Error && error.name === "RenderingCancelledException")) {
+        return;
+      }
+      setIsRendering(false);
+      onError?.(error);
+    });
+
+    return () => {
+      isCancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, highlight, onError]);
+
+  useEffect(() => {
+    if (highlightRect) {
+      highlightRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+    }
+  }, [highlightRect]);
+
+  return (
+    <div ref={containerRef} className="relative h-[70vh] w-full overflow-auto rounded-md border bg-muted/30">
+      {isRendering && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      )}
+      <div className="relative mx-auto w-fit">
+        <canvas ref={canvasRef} className="block" />
+        {highlightRect && (
+          <div
+            ref={highlightRef}
+            aria-label={t("source.highlight")}
+            className="pointer-events-none absolute rounded-sm border-2 border-amber-500 bg-amber-300/30"
+            style={{
+              left: highlightRect.left,
+              top: highlightRect.top,
+              width: highlightRect.width,
+              height: highlightRect.height,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
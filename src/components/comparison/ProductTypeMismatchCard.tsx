@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getLocale } from "@/lib/i18n";
+import { getProductTypeLabel, type ProductTypeMismatch } from "@/lib/product-type-mismatch";
+
+interface ProductTypeMismatchCardProps {
+  mismatch: ProductTypeMismatch;
+  onExclude: (documentIds: string[]) => Promise<void>;
+  onCompareAnyway: () => Promise<void>;
+}
+
+/**
+ * Shown while a comparison waits in `needs_review`: documents that do not match the dominant
+ * product type are preselected for exclusion.
+ */
+export function ProductTypeMismatchCard({ mismatch, onExclude, onCompareAnyway }: ProductTypeMismatchCardProps) {
+  const { language, t } = useLanguage();
+  const [selected, setSelected] = useState<string[]>(() =>
+    mismatch.documents.filter((doc) => !doc.matches_dominant).map((doc) => doc.document_id)
+  );
+  const [pendingAction, setPendingAction] = useState<"exclude" | "compare" | null>(null);
+  const remaining = mismatch.documents.length - selected.length;
+
+  const run = async (action: "exclude" | "compare", task: () => Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await task();
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          {t("mismatch.title")}
+        </CardTitle>
+        <CardDescription>
+          {t("mismatch.description", {
+            type: getProductTypeLabel(mismatch.dominant_type, language).toLocaleLowerCase(getLocale(language)),
+          })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y rounded-lg border">
+          {mismatch.documents.map((doc) => {
+            const checkboxId = `exclude-${doc.document_id}`;
+            return (
+              <li key={doc.document_id} className="flex items-center gap-3 p-3">
+                <Checkbox
+                  id={checkboxId}
+                  checked={selected.includes(doc.document_id)}
+                  onCheckedChange={(checked) =>
+                    setSelected((current) =>
+                      checked === true
+                        ? [...current, doc.document_id]
+                        : current.filter((id) => id !== doc.document_id)
+                    )
+                  }
+                />
+                <label htmlFor={checkboxId} className="flex-1 min-w-0 text-sm">
+                  <span className="block truncate font-medium">{doc.file_name ?? doc.document_id}</span>
+                  {doc.ai_type && doc.classifier_type && doc.ai_type !== doc.classifier_type && (
+                    <span className="block text-xs text-muted-foreground">
+                      {t("mismatch.detectedTypes", {
+                        ai: getProductTypeLabel(doc.ai_type, language),
+                        classifier: getProductTypeLabel(doc.classifier_type, language),
+                      })}
+                    </span>
+                  )}
+                </label>
+                <Badge variant={doc.matches_dominant ? "outline" : "destructive"}>
+                  {getProductTypeLabel(doc.product_type, language)}
+                </Badge>
+              </li>
+            );
+          })}
+        </ul>
+        {remaining < 2 && selected.length > 0 && (
+          <p className="text-sm text-destructive">{t("errors.minTwoOffers")}</p>
+        )}
+        <div className="flex flex-wrap justify-end gap-3">
+          <Button
+            variant="outline"
+            disabled={pendingAction !== null}
+            onClick={() => void run("compare", onCompareAnyway)}
+          >
+            {pendingAction === "compare" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("mismatch.compareAnyway")}
+          </Button>
+          <Button
+            disabled={pendingAction !== null || selected.length === 0 || remaining < 2}
+            onClick={() => void run("exclude", () => onExclude(selected))}
+          >
+            {pendingAction === "exclude" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("mismatch.excludeSelected", { count: selected.length })}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
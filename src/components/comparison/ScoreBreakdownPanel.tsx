@@ -0,0 +1,101 @@
+import { Scale } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { cn } from "@/lib/utils";
+import type { ComparisonOffer } from "@/lib/comparison-utils";
+import { getLocale } from "@/lib/i18n";
+import { SCORING_CRITERIA, type OfferScore } from "@/lib/offer-scoring";
+
+interface ScoreBreakdownPanelProps {
+  offers: ComparisonOffer[];
+  scores: OfferScore[];
+  /** Where the weights come from, e.g. "default" or "client Jan Kowalski", already translated. */
+  weightsSourceLabel: string;
+}
+
+/**
+ * Weighted score of every offer split into criteria, shown next to the AI verdict so the broker
+ * can justify a recommendation with numbers rather than the model's opinion alone.
+ */
+export function ScoreBreakdownPanel({ offers, scores, weightsSourceLabel }: ScoreBreakdownPanelProps) {
+  const { language, t } = useLanguage();
+
+  if (offers.length === 0 || scores.every((score) => score.total === null)) {
+    return null;
+  }
+
+  const totalWeight = scores[0].breakdown.reduce((sum, entry) => sum + entry.weight, 0);
+  const topTotal = Math.max(...scores.map((score) => score.total ?? -Infinity));
+  const formatPoints = (points: number) =>
+    points.toLocaleString(getLocale(language), { maximumFractionDigits: 1 });
+
+  return (
+    <Card className="shadow-elevated">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          {t("scoring.title")}
+        </CardTitle>
+        <CardDescription>{t("scoring.description", { source: weightsSourceLabel })}</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[180px]">{t("scoring.criterionHeader")}</TableHead>
+              {offers.map((offer) => (
+                <TableHead key={offer.id} className="min-w-[160px]">
+                  {offer.insurer ?? offer.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SCORING_CRITERIA.map((criterion, criterionIdx) => {
+              const weight = scores[0].breakdown[criterionIdx]?.weight ?? 0;
+              return (
+                <TableRow key={criterion.key} className={cn(weight === 0 && "text-muted-foreground")}>
+                  <TableCell className="font-medium">
+                    {t(`scoring.${criterion.key}`)}{" "}
+                    <span className="text-xs text-muted-foreground">
+                      ({totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0}%)
+                    </span>
+                  </TableCell>
+                  {scores.map((score) => {
+                    const entry = score.breakdown[criterionIdx];
+                    return (
+                      <TableCell key={score.offerId}>
+                        <div className="flex flex-col">
+                          <span>{entry.displayValue}</span>
+                          {weight > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {t("scoring.points", { points: formatPoints(entry.points) })}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-semibold">{t("scoring.total")}</TableCell>
+              {scores.map((score) => (
+                <TableCell
+                  key={score.offerId}
+                  className={cn("text-lg font-semibold", score.total === topTotal && "text-primary")}
+                >
+                  {score.total !== null ? formatPoints(score.total) : "—"}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import type { SourceReference } from "@/types/comparison";
 import { useDocumentViewer } from "@/contexts/DocumentViewerContext";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 interface SourceTooltipProps {
   reference?: SourceReference | SourceReference[] | null;
@@ -13,14 +14,9 @@ interface SourceTooltipProps {
   align?: ComponentProps<typeof TooltipContent>["align"];
 }
 
-const getAdditionalLabel = (count: number) => {
-  if (count === 1) return "dodatkowe źródło";
-  if (count > 1 && count < 5) return "dodatkowe źródła";
-  return "dodatkowych źródeł";
-};
-
 export function SourceTooltip({ reference, children, onOpen, side, align }: SourceTooltipProps) {
   const { openDocument } = useDocumentViewer();
+  const { t } = useLanguage();
 
   const references = useMemo(() => {
     if (!reference) {
@@ -53,20 +49,20 @@ export function SourceTooltip({ reference, children, onOpen, side, align }: Sour
       <TooltipContent side={side} align={align} className="max-w-xs space-y-3 p-4 text-left">
         <div className="space-y-2">
           <p className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
-            Strona {primary.page}
+            {t("source.page", { page: primary.page })}
           </p>
           <p className="text-sm leading-relaxed text-foreground whitespace-pre-line">
-            {snippet || "Brak podglądu fragmentu"}
+            {snippet || t("source.noSnippet")}
           </p>
-          <p className="text-[11px] text-muted-foreground">Dokument: {primary.documentId}</p>
+          <p className="text-[11px] text-muted-foreground">{t("source.document", { id: primary.documentId })}</p>
         </div>
         <Button type="button" size="sm" variant="outline" className="w-full" onClick={handleOpen}>
           <ExternalLink className="mr-2 h-4 w-4" />
-          Otwórz w dokumencie
+          {t("source.open")}
         </Button>
         {references.length > 1 && (
           <p className="text-center text-[11px] text-muted-foreground">
-            + {references.length - 1} {getAdditionalLabel(references.length - 1)}
+            {t("source.additional", { count: references.length - 1 })}
           </p>
         )}
       </TooltipContent>
@@ -0,0 +1,47 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { DEFAULT_LANGUAGE, createTranslator, isLanguage, type Language, type Translate } from "@/lib/i18n";
+
+const LANGUAGE_STORAGE_KEY = "language";
+
+export interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+}
+
+const readStoredLanguage = (): Language => {
+  if (typeof window === "undefined") {
+    return DEFAULT_LANGUAGE;
+  }
+  const stored = window.localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+};
+
+const LanguageContext = createContext<LanguageContextType>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => undefined,
+  t: createTranslator(DEFAULT_LANGUAGE),
+});
+
+/** Keeps the language picked by the user across visits; Polish until one is chosen. */
+export const LanguageProvider = ({ children }: { children: ReactNode }) => {
+  const [language, setLanguageState] = useState<Language>(readStoredLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    window.localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    setLanguageState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ language, setLanguage, t: createTranslator(language) }),
+    [language, setLanguage],
+  );
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export const useLanguage = () => useContext(LanguageContext);
@@ -26,6 +26,7 @@ if (typeof globalThis.localStorage === "undefined") {
 }
 
 const {
+  describeDocumentProgress,
   executeComparisonRun,
   validateFileSelection,
   validateStartConditions,
@@ -86,7 +87,7 @@ describe("validateFileSelection", () => {
     expect(result).toEqual({
       status: "error",
       message: "Nieprawidłowy format",
-      description: "Akceptowany format: PDF",
+      description: "Akceptowane formaty: PDF, DOCX, DOC, PNG, JPG, HEIC",
     });
   });
 
@@ -94,6 +95,15 @@ describe("validateFileSelection", () => {
     const result = validateFileSelection([], [createFile("ok.pdf"), createFile("ok2.pdf")]);
     expect(result).toEqual({ status: "success", added: 2 });
   });
+
+  it("accepts Word files and photos, including HEIC without a reported type", () => {
+    const result = validateFileSelection([], [
+      createFile("oferta.docx", 512, "application/vnd.openxmlformats-officedocument.wordprocessingml.document"),
+      createFile("skan.jpg", 512, "image/jpeg"),
+      createFile("IMG_0042.HEIC", 512, ""),
+    ]);
+    expect(result).toEqual({ status: "success", added: 3 });
+  });
 });
 
 describe("validateStartConditions", () => {
@@ -111,6 +121,11 @@ describe("validateStartConditions", () => {
     expect(outcome).toEqual({ status: "auth-required" });
   });
 
+  it("words the message in the requested language", () => {
+    const outcome = validateStartConditions("user-1", [createFile("a.pdf")], 0, "en");
+    expect(outcome).toEqual({ status: "validation-error", message: "Add at least 2 offers to compare" });
+  });
+
   it("returns null when ready", () => {
     const files = [createFile("a.pdf"), createFile("b.pdf")];
     const outcome = validateStartConditions("user-1", files);
@@ -152,6 +167,24 @@ describe("executeComparisonRun", () => {
     expect(stages).toEqual(["uploading_files", "creating_documents"]);
   });
 
+  it("returns processing when the job is still running in the background", async () => {
+    const runner = createRunner(async () => ({
+      comparisonId: "cmp-2",
+      documentIds: ["doc-1", "doc-2"],
+      detectedProductType: null,
+      isComplete: false,
+    }));
+
+    const result = await executeComparisonRun({
+      runner,
+      userId: "user-1",
+      files: [createFile("a.pdf"), createFile("b.pdf")],
+      controller: new AbortController(),
+    });
+
+    expect(result).toEqual({ status: "processing", comparisonId: "cmp-2" });
+  });
+
   it("returns aborted when controller is cancelled", async () => {
     const runner = createRunner(
       ({ signal }) =>
@@ -177,7 +210,7 @@ describe("executeComparisonRun", () => {
 
   it("maps service errors to error status", async () => {
     const runner = createRunner(async () => {
-      throw new ComparisonServiceError("Nie udało się utworzyć porównania.", "creating_comparison");
+      throw new ComparisonServiceError("errors.comparisonCreateFailed", "creating_comparison");
     });
 
     const controller = new AbortController();
@@ -194,3 +227,35 @@ describe("executeComparisonRun", () => {
     });
   });
 });
+
+describe("describeDocumentProgress", () => {
+  it("describes documents that have not started yet", () => {
+    expect(describeDocumentProgress({ status: "uploaded", stage: null })).toEqual({
+      label: "Oczekuje na przetwarzanie",
+      percent: 0,
+      state: "pending",
+    });
+  });
+
+  it("advances the percentage with each extraction sub-stage", () => {
+    const queued = describeDocumentProgress({ status: "processing", stage: "mineru_queued" });
+    const extracting = describeDocumentProgress({ status: "processing", stage: "ai_extraction" });
+    const building = describeDocumentProgress({ status: "processing", stage: "unified_build" });
+
+    expect(queued.state).toBe("active");
+    expect(extracting.label).toBe("Ekstrakcja danych AI");
+    expect(queued.percent).toBeLessThan(extracting.percent);
+    expect(extracting.percent).toBeLessThan(building.percent);
+    expect(building.percent).toBeLessThan(100);
+  });
+
+  it("reports terminal states regardless of the last sub-stage", () => {
+    expect(describeDocumentProgress({ status: "completed", stage: "unified_build" })).toMatchObject({
+      percent: 100,
+      state: "completed",
+    });
+    expect(describeDocumentProgress({ status: "failed", stage: "mineru_running" })).toMatchObject({
+      state: "failed",
+    });
+  });
+});
@@ -1,24 +1,58 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   comparisonService,
-  ComparisonServiceError,
+  DOCUMENT_PROCESSING_STAGES,
   type ComparisonStage,
+  type DocumentProcessingStage,
+  type DocumentProgress,
 } from "@/services/comparison-service";
+import { isSupportedDocumentFile, SUPPORTED_FORMAT_LABELS } from "@/lib/document-formats";
+import { createTranslator, DEFAULT_LANGUAGE, errorMessage, translate, type Language } from "@/lib/i18n";
 
 export const MAX_FILES = 8;
 const MIN_FILES = 2;
+const EMPTY_DOCUMENT_IDS: string[] = [];
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
-const ALLOWED_MIME_TYPES = new Set(["application/pdf"]);
-
-const STAGE_MESSAGES: Record<ComparisonStage, string> = {
-  uploading_files: "Przesyłanie plików...",
-  creating_documents: "Zapisywanie dokumentów...",
-  triggering_extraction: "Ekstrahowanie danych z dokumentów...",
-  waiting_for_extraction: "Czekam na ekstrakcję danych...",
-  creating_comparison: "Tworzenie porównania...",
-  comparing_offers: "Porównywanie ofert...",
-  generating_summary: "Generowanie podsumowania AI...",
-};
+
+export interface DocumentProgressDescription {
+  label: string;
+  percent: number;
+  state: "pending" | "active" | "completed" | "failed";
+}
+
+/**
+ * Maps a document's status and sub-stage to a label and an approximate completion percentage.
+ */
+export function describeDocumentProgress(
+  progress: Pick<DocumentProgress, "status" | "stage">,
+  language: Language = DEFAULT_LANGUAGE
+): DocumentProgressDescription {
+  if (progress.status === "completed") {
+    return { label: translate(language, "documentProgress.completed"), percent: 100, state: "completed" };
+  }
+
+  if (progress.status === "failed") {
+    return { label: translate(language, "documentProgress.failed"), percent: 100, state: "failed" };
+  }
+
+  if (!progress.stage) {
+    return {
+      label: translate(
+        language,
+        progress.status === "processing" ? "documentProgress.starting" : "documentProgress.waiting"
+      ),
+      percent: progress.status === "processing" ? 5 : 0,
+      state: progress.status === "processing" ? "active" : "pending",
+    };
+  }
+
+  const index = DOCUMENT_PROCESSING_STAGES.indexOf(progress.stage);
+  return {
+    label: translate(language, `documentStage.${progress.stage}`),
+    percent: Math.round(((index + 1) / (DOCUMENT_PROCESSING_STAGES.length + 1)) * 100),
+    state: "active",
+  };
+}
 
 export type AddFilesResult =
   | { status: "success"; added: number }
@@ -26,6 +60,8 @@ export type AddFilesResult =
 
 export type StartComparisonResult =
   | { status: "success"; comparisonId: string; detectedProductType: string | null }
+  | { status: "processing"; comparisonId: string }
+  | { status: "needs-review"; comparisonId: string }
   | { status: "validation-error"; message: string }
   | { status: "auth-required" }
   | { status: "error"; message: string }
@@ -33,30 +69,46 @@ export type StartComparisonResult =
 
 export interface UseComparisonFlowOptions {
   userId?: string;
+  clientId?: string | null;
+  /** Already uploaded documents picked in the document library. */
+  existingDocumentIds?: string[];
+  /** Language of `processingMessage` and of the messages returned by `addFiles` and `startComparison`. */
+  language?: Language;
   runner?: ComparisonFlowRunner;
 }
 
 export interface ComparisonFlowRunner {
   runComparisonFlow: (params: {
     userId: string;
+    clientId?: string | null;
     files: File[];
+    existingDocumentIds?: string[];
     onStageChange?: (stage: ComparisonStage) => void;
+    onDocumentProgress?: (progress: DocumentProgress[]) => void;
     signal?: AbortSignal;
-  }) => Promise<{ comparisonId: string; documentIds: string[]; detectedProductType: string | null }>;
+  }) => Promise<{
+    comparisonId: string;
+    documentIds: string[];
+    detectedProductType: string | null;
+    isComplete?: boolean;
+    needsReview?: boolean;
+  }>;
 }
 
 export function validateFileSelection(
   currentFiles: File[],
-  incoming: File[]
+  incoming: File[],
+  existingDocumentCount = 0,
+  language: Language = DEFAULT_LANGUAGE
 ): AddFilesResult {
   if (incoming.length === 0) {
     return { status: "success", added: 0 };
   }
 
-  if (currentFiles.length + incoming.length > MAX_FILES) {
+  if (existingDocumentCount + currentFiles.length + incoming.length > MAX_FILES) {
     return {
       status: "error",
-      message: `Maksymalnie ${MAX_FILES} plików`,
+      message: translate(language, "files.maxFiles", { max: MAX_FILES }),
     };
   }
 
@@ -64,17 +116,17 @@ export function validateFileSelection(
   if (oversized) {
     return {
       status: "error",
-      message: "Plik za duży",
-      description: `Maksymalny rozmiar: 10MB. Plik "${oversized.name}" jest za duży.`,
+      message: translate(language, "files.tooLarge"),
+      description: translate(language, "files.tooLargeDescription", { size: "10MB", name: oversized.name }),
     };
   }
 
-  const invalidType = incoming.find((file) => !ALLOWED_MIME_TYPES.has(file.type));
+  const invalidType = incoming.find((file) => !isSupportedDocumentFile(file));
   if (invalidType) {
     return {
       status: "error",
-      message: "Nieprawidłowy format",
-      description: "Akceptowany format: PDF",
+      message: translate(language, "files.invalidFormat"),
+      description: translate(language, "files.acceptedFormats", { formats: SUPPORTED_FORMAT_LABELS }),
     };
   }
 
@@ -83,12 +135,14 @@ export function validateFileSelection(
 
 export function validateStartConditions(
   userId: string | undefined,
-  files: File[]
+  files: File[],
+  existingDocumentCount = 0,
+  language: Language = DEFAULT_LANGUAGE
 ): StartComparisonResult | null {
-  if (files.length < MIN_FILES) {
+  if (existingDocumentCount + files.length < MIN_FILES) {
     return {
       status: "validation-error",
-      message: "Dodaj minimum 2 oferty do porównania",
+      message: translate(language, "files.minOffers", { min: MIN_FILES }),
     };
   }
 
@@ -102,24 +156,43 @@ export function validateStartConditions(
 export async function executeComparisonRun({
   runner,
   userId,
+  clientId = null,
   files,
+  existingDocumentIds = [],
   controller,
   onStageChange,
+  onDocumentProgress,
+  language = DEFAULT_LANGUAGE,
 }: {
   runner: ComparisonFlowRunner;
   userId: string;
+  clientId?: string | null;
   files: File[];
+  existingDocumentIds?: string[];
   controller: AbortController;
   onStageChange?: (stage: ComparisonStage) => void;
+  onDocumentProgress?: (progress: DocumentProgress[]) => void;
+  language?: Language;
 }): Promise<StartComparisonResult> {
   try {
     const result = await runner.runComparisonFlow({
       userId,
+      clientId,
       files,
+      existingDocumentIds,
       signal: controller.signal,
       onStageChange,
+      onDocumentProgress,
     });
 
+    if (result.isComplete === false) {
+      return { status: "processing", comparisonId: result.comparisonId };
+    }
+
+    if (result.needsReview) {
+      return { status: "needs-review", comparisonId: result.comparisonId };
+    }
+
     return {
       status: "success",
       comparisonId: result.comparisonId,
@@ -130,28 +203,24 @@ export async function executeComparisonRun({
       return { status: "aborted" };
     }
 
-    if (error instanceof ComparisonServiceError) {
-      return { status: "error", message: error.message };
-    }
-
-    if (error instanceof Error && error.message) {
-      return { status: "error", message: error.message };
-    }
-
     return {
       status: "error",
-      message: "Wystąpił nieoczekiwany błąd podczas przetwarzania",
+      message: errorMessage(createTranslator(language), error) ?? translate(language, "errors.unexpected"),
     };
   }
 }
 
 export function useComparisonFlow({
   userId,
+  clientId = null,
+  existingDocumentIds = EMPTY_DOCUMENT_IDS,
+  language = DEFAULT_LANGUAGE,
   runner = comparisonService,
 }: UseComparisonFlowOptions) {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processingMessage, setProcessingMessage] = useState("");
+  const [processingStage, setProcessingStage] = useState<ComparisonStage | null>(null);
+  const [documentProgress, setDocumentProgress] = useState<DocumentProgress[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const isMountedRef = useRef(true);
 
@@ -165,13 +234,13 @@ export function useComparisonFlow({
 
   const addFiles = useCallback(
     (incoming: File[]): AddFilesResult => {
-      const validation = validateFileSelection(files, incoming);
+      const validation = validateFileSelection(files, incoming, existingDocumentIds.length, language);
       if (validation.status === "success") {
         setFiles((prev) => [...prev, ...incoming]);
       }
       return validation;
     },
-    [files]
+    [existingDocumentIds.length, files, language]
   );
 
   const removeFile = useCallback((index: number) => {
@@ -184,12 +253,13 @@ export function useComparisonFlow({
     }
 
     setIsProcessing(false);
-    setProcessingMessage("");
+    setProcessingStage(null);
+    setDocumentProgress([]);
   }, []);
 
   const startComparison = useCallback(
     async (): Promise<StartComparisonResult> => {
-      const precheck = validateStartConditions(userId, files);
+      const precheck = validateStartConditions(userId, files, existingDocumentIds.length, language);
       if (precheck) {
         return precheck;
       }
@@ -200,21 +270,31 @@ export function useComparisonFlow({
 
       if (isMountedRef.current) {
         setIsProcessing(true);
-        setProcessingMessage(STAGE_MESSAGES.uploading_files);
+        setProcessingStage("uploading_files");
       }
 
       try {
         return await executeComparisonRun({
           runner,
           userId,
+          clientId,
           files,
+          existingDocumentIds,
           controller,
+          language,
           onStageChange: (stage) => {
             if (!isMountedRef.current) {
               return;
             }
 
-            setProcessingMessage(STAGE_MESSAGES[stage]);
+            setProcessingStage(stage);
+          },
+          onDocumentProgress: (progress) => {
+            if (!isMountedRef.current) {
+              return;
+            }
+
+            setDocumentProgress(progress);
           },
         });
       } finally {
@@ -224,20 +304,21 @@ export function useComparisonFlow({
         resetProcessingState();
       }
     },
-    [files, resetProcessingState, runner, userId]
+    [clientId, existingDocumentIds, files, language, resetProcessingState, runner, userId]
   );
 
-  const canSubmit = useMemo(() => files.length >= MIN_FILES && !isProcessing, [
-    files.length,
-    isProcessing,
-  ]);
+  const canSubmit = useMemo(
+    () => existingDocumentIds.length + files.length >= MIN_FILES && !isProcessing,
+    [existingDocumentIds.length, files.length, isProcessing]
+  );
 
   return {
     files,
     addFiles,
     removeFile,
     isProcessing,
-    processingMessage,
+    processingMessage: processingStage ? translate(language, `stage.${processingStage}`) : "",
+    documentProgress,
     canSubmit,
     startComparison,
   };
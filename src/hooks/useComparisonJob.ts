@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { comparisonService, type ComparisonJobRow } from "@/services/comparison-service";
+
+export interface UseComparisonJobOptions {
+  comparisonId?: string;
+  enabled?: boolean;
+  onCompleted?: () => void;
+  /** Called when the job's status cannot be loaded; the error carries a translatable message key. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Follows the server-side job of a comparison through Supabase Realtime so the page
+ * reflects progress made by the orchestrator, including runs started in another tab.
+ */
+export function useComparisonJob({
+  comparisonId,
+  enabled = true,
+  onCompleted,
+  onError,
+}: UseComparisonJobOptions) {
+  const [job, setJob] = useState<ComparisonJobRow | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const onCompletedRef = useRef(onCompleted);
+  const statusRef = useRef<string | null>(null);
+  const onErrorRef = useRef(onError);
+  onCompletedRef.current = onCompleted;
+  onErrorRef.current = onError;
+
+  const applyJob = useCallback((next: ComparisonJobRow | null) => {
+    const previousStatus = statusRef.current;
+    statusRef.current = next?.status ?? null;
+    setJob(next);
+
+    const isSettled = next?.status === "completed" || next?.status === "blocked";
+    if (isSettled && previousStatus !== next?.status) {
+      onCompletedRef.current?.();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!comparisonId || !enabled) {
+      return;
+    }
+
+    let isActive = true;
+
+    comparisonService
+      .getComparisonJob(comparisonId)
+      .then((initialJob) => {
+        if (isActive) {
+          applyJob(initialJob);
+        }
+      })
+      .catch((error) => {
+        if (isActive) {
+          onErrorRef.current?.(error);
+        }
+      });
+
+    const channel = supabase
+      .channel(`comparison-job-${comparisonId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "comparison_jobs",
+          filter: `comparison_id=eq.${comparisonId}`,
+        },
+        (payload) => {
+          if (isActive && payload.new && "id" in payload.new) {
+            applyJob(payload.new as ComparisonJobRow);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isActive = false;
+      void supabase.removeChannel(channel);
+    };
+  }, [applyJob, comparisonId, enabled]);
+
+  const retry = useCallback(async () => {
+    if (!comparisonId) {
+      return;
+    }
+
+    setIsRetrying(true);
+    try {
+      await comparisonService.startComparisonJob(comparisonId);
+    } finally {
+      setIsRetrying(false);
+    }
+  }, [comparisonId]);
+
+  return { job, retry, isRetrying };
+}
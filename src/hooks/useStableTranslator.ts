@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import type { Translate } from "@/lib/i18n";
+
+/**
+ * Translator for data-loading callbacks and effects: it reads the current language when called but
+ * keeps its identity, so switching the language does not fetch the data again.
+ */
+export const useStableTranslator = (): Translate => {
+  const { t } = useLanguage();
+  const latestRef = useRef(t);
+
+  useEffect(() => {
+    latestRef.current = t;
+  }, [t]);
+
+  return useCallback<Translate>((key, params) => latestRef.current(key, params), []);
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createTranslator, DEFAULT_LANGUAGE, errorMessage, translate, type Language } from "@/lib/i18n";
+import { DEFAULT_SUMMARY_STYLE, type SummaryStyle } from "@/lib/summary-styles";
+import { summaryStreamService } from "@/services/summary-stream-service";
+import type { ComparisonSummary } from "@/types/comparison";
+
+export interface UseSummaryStreamOptions {
+  comparisonId?: string;
+  onCompleted?: (summary: ComparisonSummary) => void;
+}
+
+/**
+ * Generates the AI summary of a comparison and exposes it while the model is still writing,
+ * so the page can render sections as they arrive instead of waiting for the whole answer.
+ */
+export function useSummaryStream({ comparisonId, onCompleted }: UseSummaryStreamOptions) {
+  const [partial, setPartial] = useState<ComparisonSummary | null>(null);
+  const [style, setStyle] = useState<SummaryStyle>(DEFAULT_SUMMARY_STYLE);
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const onCompletedRef = useRef(onCompleted);
+  onCompletedRef.current = onCompleted;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (
+    nextStyle: SummaryStyle = DEFAULT_SUMMARY_STYLE,
+    nextLanguage: Language = DEFAULT_LANGUAGE,
+  ) => {
+    if (!comparisonId) {
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setPartial(null);
+    setStyle(nextStyle);
+    setLanguage(nextLanguage);
+    setError(null);
+    setIsStreaming(true);
+
+    try {
+      const summary = await summaryStreamService.streamSummary(comparisonId, {
+        style: nextStyle,
+        language: nextLanguage,
+        signal: controller.signal,
+        onPartial: (next) => {
+          if (!controller.signal.aborted) {
+            setPartial(next);
+          }
+        },
+      });
+      if (!controller.signal.aborted) {
+        setPartial(summary);
+        onCompletedRef.current?.(summary);
+      }
+    } catch (streamError) {
+      if (!controller.signal.aborted) {
+        setError(
+          errorMessage(createTranslator(nextLanguage), streamError) ?? `${translate(nextLanguage, "summary.failed")}.`
+        );
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [comparisonId]);
+
+  return { partial, style, language, isStreaming, error, start };
+}
@@ -20,7 +20,9 @@ export type Database = {
           email: string | null
           full_name: string
           id: string
+          needs_profile: Json | null
           phone: string | null
+          scoring_weights: Json | null
           user_id: string
         }
         Insert: {
@@ -28,7 +30,9 @@ export type Database = {
           email?: string | null
           full_name: string
           id?: string
+          needs_profile?: Json | null
           phone?: string | null
+          scoring_weights?: Json | null
           user_id: string
         }
         Update: {
@@ -36,7 +40,9 @@ export type Database = {
           email?: string | null
           full_name?: string
           id?: string
+          needs_profile?: Json | null
           phone?: string | null
+          scoring_weights?: Json | null
           user_id?: string
         }
         Relationships: [
@@ -49,6 +55,144 @@ export type Database = {
           },
         ]
       }
+      comparison_jobs: {
+        Row: {
+          attempts: number
+          comparison_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          stage: string
+          stage_started_at: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          comparison_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          stage?: string
+          stage_started_at?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          comparison_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          stage?: string
+          stage_started_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comparison_jobs_comparison_id_fkey"
+            columns: ["comparison_id"]
+            isOneToOne: true
+            referencedRelation: "comparisons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comparison_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comparison_versions: {
+        Row: {
+          comparison_data: Json | null
+          comparison_id: string
+          comparison_model: string | null
+          comparison_prompt: string | null
+          comparison_usage: Json | null
+          created_at: string
+          document_ids: string[]
+          document_revisions: Json
+          id: string
+          summary_generated_at: string | null
+          summary_json: Json | null
+          summary_model: string | null
+          summary_prompt: string | null
+          summary_text: string | null
+          summary_usage: Json | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          comparison_data?: Json | null
+          comparison_id: string
+          comparison_model?: string | null
+          comparison_prompt?: string | null
+          comparison_usage?: Json | null
+          created_at?: string
+          document_ids?: string[]
+          document_revisions?: Json
+          id?: string
+          summary_generated_at?: string | null
+          summary_json?: Json | null
+          summary_model?: string | null
+          summary_prompt?: string | null
+          summary_text?: string | null
+          summary_usage?: Json | null
+          user_id: string
+          version: number
+        }
+        Update: {
+          comparison_data?: Json | null
+          comparison_id?: string
+          comparison_model?: string | null
+          comparison_prompt?: string | null
+          comparison_usage?: Json | null
+          created_at?: string
+          document_ids?: string[]
+          document_revisions?: Json
+          id?: string
+          summary_generated_at?: string | null
+          summary_json?: Json | null
+          summary_model?: string | null
+          summary_prompt?: string | null
+          summary_text?: string | null
+          summary_usage?: Json | null
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comparison_versions_comparison_id_fkey"
+            columns: ["comparison_id"]
+            isOneToOne: false
+            referencedRelation: "comparisons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comparison_versions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comparisons: {
         Row: {
           client_id: string | null
@@ -56,8 +200,11 @@ export type Database = {
           created_at: string
           document_ids: string[]
           id: string
+          needs_profile: Json | null
           product_type: string | null
+          product_type_mismatch: Json | null
           report_url: string | null
+          reporting_currency: string
           status: string
           summary_json: Json | null
           summary_text: string | null
@@ -69,8 +216,11 @@ export type Database = {
           created_at?: string
           document_ids?: string[]
           id?: string
+          needs_profile?: Json | null
           product_type?: string | null
+          product_type_mismatch?: Json | null
           report_url?: string | null
+          reporting_currency?: string
           status?: string
           summary_json?: Json | null
           summary_text?: string | null
@@ -82,8 +232,11 @@ export type Database = {
           created_at?: string
           document_ids?: string[]
           id?: string
+          needs_profile?: Json | null
           product_type?: string | null
+          product_type_mismatch?: Json | null
           report_url?: string | null
+          reporting_currency?: string
           status?: string
           summary_json?: Json | null
           summary_text?: string | null
@@ -109,6 +262,7 @@ export type Database = {
       documents: {
         Row: {
           client_id: string | null
+          content_hash: string | null
           created_at: string
           extracted_data: Json | null
           file_name: string
@@ -116,16 +270,20 @@ export type Database = {
           file_size: number | null
           id: string
           mime_type: string | null
+          ocr_attempts: Json | null
           ocr_extracted_at: string | null
           ocr_fallback_used: boolean
           ocr_provider: string | null
           ocr_text: string | null
           ocr_text_length: number | null
+          processing_stage: string | null
+          processing_stage_updated_at: string | null
           status: string
           user_id: string
         }
         Insert: {
           client_id?: string | null
+          content_hash?: string | null
           created_at?: string
           extracted_data?: Json | null
           file_name: string
@@ -133,16 +291,20 @@ export type Database = {
           file_size?: number | null
           id?: string
           mime_type?: string | null
+          ocr_attempts?: Json | null
           ocr_extracted_at?: string | null
           ocr_fallback_used?: boolean
           ocr_provider?: string | null
           ocr_text?: string | null
           ocr_text_length?: number | null
+          processing_stage?: string | null
+          processing_stage_updated_at?: string | null
           status?: string
           user_id: string
         }
         Update: {
           client_id?: string | null
+          content_hash?: string | null
           created_at?: string
           extracted_data?: Json | null
           file_name?: string
@@ -150,11 +312,14 @@ export type Database = {
           file_size?: number | null
           id?: string
           mime_type?: string | null
+          ocr_attempts?: Json | null
           ocr_extracted_at?: string | null
           ocr_fallback_used?: boolean
           ocr_provider?: string | null
           ocr_text?: string | null
           ocr_text_length?: number | null
+          processing_stage?: string | null
+          processing_stage_updated_at?: string | null
           status?: string
           user_id?: string
         }
@@ -175,6 +340,47 @@ export type Database = {
           },
         ]
       }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          rate_to_pln: number
+          source: string
+          updated_at: string
+          user_id: string
+          valid_on: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          rate_to_pln: number
+          source?: string
+          updated_at?: string
+          user_id: string
+          valid_on?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          rate_to_pln?: number
+          source?: string
+          updated_at?: string
+          user_id?: string
+          valid_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           company_name: string | null
@@ -204,7 +410,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      store_comparison_summary: {
+        Args: { p_comparison_id: string; p_summary: Json; p_summary_key: string }
+        Returns: undefined
+      }
+      store_comparison_version_summary: {
+        Args: { p_summary: Json; p_summary_key: string; p_version_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,66 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { formatAnalysisMessage, localizeComparisonAnalysis } from "./analysis-messages";
+import { createTranslator } from "./i18n";
+
+const pl = createTranslator("pl");
+const en = createTranslator("en");
+
+describe("formatAnalysisMessage", () => {
+  it("formats amounts, percentages and offer references in the UI language", () => {
+    const message = {
+      code: "more_expensive",
+      params: { amount: { value: 1250.5, currency: "PLN" }, percent: 20, offer: "Warta" },
+    };
+
+    expect(formatAnalysisMessage(message, pl, "pl")).toBe("Drożej o 1250,5 PLN (20%) niż Warta.");
+    expect(formatAnalysisMessage(message, en, "en")).toBe("1,250.5 PLN (20%) more expensive than Warta.");
+    expect(
+      formatAnalysisMessage({ code: "cheapest_offers", params: { offers: ["PZU", { offer_index: 2 }] } }, en, "en"),
+    ).toBe("Lowest annual premium: PZU, Offer 2.");
+  });
+
+  it("shortens long lists of names", () => {
+    const names = ["A", "B", "C", "D", "E", "F", "G"];
+
+    expect(formatAnalysisMessage({ code: "assistance_services", params: { names } }, pl, "pl")).toBe(
+      "Świadczenia assistance: A, B, C, D, E i 2 innych.",
+    );
+  });
+
+  it("skips codes the app does not know", () => {
+    expect(formatAnalysisMessage({ code: "something_new", params: {} }, pl, "pl")).toBeNull();
+  });
+});
+
+describe("localizeComparisonAnalysis", () => {
+  it("puts the translated findings before the model's commentary", () => {
+    const analysis = localizeComparisonAnalysis(
+      {
+        price_comparison: {
+          offers: [
+            {
+              offer_id: "doc-1",
+              messages: [{ code: "annual_premium", params: { amount: { value: 1200, currency: "PLN" } } }],
+              note: "Raty miesięczne podnoszą koszt.",
+            },
+            { offer_id: "doc-2", messages: null, note: null },
+          ],
+        },
+        key_highlight_messages: [{ code: "mixed_product_types", params: {} }],
+        key_highlights: ["PZU ma szerszą ochronę szpitalną."],
+        recommendation_messages: [{ code: "over_budget_offers", params: { offers: ["PZU"] } }],
+      },
+      en,
+      "en",
+    );
+
+    expect(analysis.price_comparison.offers[0].note).toBe("Annual premium: 1,200 PLN. Raty miesięczne podnoszą koszt.");
+    expect(analysis.price_comparison.offers[1].note).toBeNull();
+    expect(analysis.key_highlights).toEqual([
+      "The offers cover different types of insurance and are not fully comparable.",
+      "PZU ma szerszą ochronę szpitalną.",
+    ]);
+    expect(analysis.recommendations).toEqual(["Offers over the client's budget: PZU."]);
+  });
+});
@@ -0,0 +1,118 @@
+import { getLocale, isMessageKey, type Language, type Translate } from "@/lib/i18n";
+import type {
+  ComparisonAnalysis,
+  ComparisonAnalysisMessage,
+  ComparisonAnalysisSection,
+} from "@/types/comparison";
+
+/**
+ * The rule-based comparison stores its findings as message codes with parameters; this module
+ * turns them into text in the UI language. The model's commentary (`note`, `key_highlights`,
+ * `recommendations`) is kept as written and follows the translated findings.
+ */
+
+const MAX_LISTED_NAMES = 5;
+
+const ANALYSIS_SECTIONS = ["price_comparison", "coverage_comparison", "assistance_comparison", "exclusions_diff"] as const;
+
+const formatNumber = (value: number, language: Language) =>
+  new Intl.NumberFormat(getLocale(language), { maximumFractionDigits: 2 }).format(value);
+
+const formatParam = (value: unknown, t: Translate, language: Language): string => {
+  if (typeof value === "number") {
+    return formatNumber(value, language);
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const names = value.map((entry) => formatParam(entry, t, language)).filter((name) => name.length > 0);
+    return names.length > MAX_LISTED_NAMES
+      ? t("analysisMessage.andOthers", {
+          names: names.slice(0, MAX_LISTED_NAMES).join(", "),
+          count: names.length - MAX_LISTED_NAMES,
+        })
+      : names.join(", ");
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    // An offer without an insurer name, referred to by its position.
+    if (typeof record.offer_index === "number") {
+      return t("result.offerLabel", { index: record.offer_index });
+    }
+    if (typeof record.value === "number" && typeof record.currency === "string") {
+      return `${formatNumber(record.value, language)} ${record.currency}`;
+    }
+  }
+  return "";
+};
+
+/** Text of a finding; null for codes this version of the app does not know. */
+export const formatAnalysisMessage = (
+  message: ComparisonAnalysisMessage,
+  t: Translate,
+  language: Language,
+): string | null => {
+  const key = `analysisMessage.${message.code}`;
+  if (!isMessageKey(key)) {
+    return null;
+  }
+  const params = Object.fromEntries(
+    Object.entries(message.params).map(([name, value]) => [name, formatParam(value, t, language)]),
+  );
+  return t(key, params);
+};
+
+export const formatAnalysisMessages = (
+  messages: ComparisonAnalysisMessage[] | null | undefined,
+  t: Translate,
+  language: Language,
+): string[] =>
+  (messages ?? [])
+    .map((message) => formatAnalysisMessage(message, t, language))
+    .filter((text): text is string => !!text);
+
+const localizeSection = (
+  section: ComparisonAnalysisSection,
+  t: Translate,
+  language: Language,
+): ComparisonAnalysisSection => ({
+  ...section,
+  offers: section.offers?.map((offer) => {
+    const note = [...formatAnalysisMessages(offer.messages, t, language), offer.note]
+      .filter((text): text is string => !!text)
+      .join(" ");
+    return { ...offer, note: note.length > 0 ? note : null };
+  }),
+});
+
+/**
+ * The analysis with its findings written out in the UI language: each offer's `note` starts with
+ * its findings, and key highlights and recommendations start with the computed ones.
+ */
+export const localizeComparisonAnalysis = (
+  analysis: ComparisonAnalysis,
+  t: Translate,
+  language: Language,
+): ComparisonAnalysis => {
+  const localized: ComparisonAnalysis = {
+    ...analysis,
+    key_highlights: [
+      ...formatAnalysisMessages(analysis.key_highlight_messages, t, language),
+      ...(analysis.key_highlights ?? []),
+    ],
+    recommendations: [
+      ...formatAnalysisMessages(analysis.recommendation_messages, t, language),
+      ...(analysis.recommendations ?? []),
+    ],
+  };
+
+  for (const name of ANALYSIS_SECTIONS) {
+    const section = analysis[name];
+    if (section) {
+      localized[name] = localizeSection(section, t, language);
+    }
+  }
+
+  return localized;
+};
@@ -0,0 +1,209 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { buildComparisonSections } from "./buildComparisonSections";
+import { createCurrencyConverter } from "./exchange-rates";
+
+const citation = (page: number, textSnippet: string) => ({
+  documentId: "doc-1",
+  page,
+  textSnippet,
+  coordinates: { x: 72, y: 100 * page, width: 300, height: 14 },
+});
+
+const offer = {
+  id: "doc-1",
+  label: "Oferta A",
+  insurer: "Ubezpieczyciel A",
+  data: {
+    unified: {
+      total_premium_after_discounts: 189.5,
+      base_contracts: [
+        { name: "Śmierć ubezpieczonego", sum: 200000 },
+        { name: "Poważne zachorowanie", sum: 50000 },
+      ],
+      additional_contracts: [],
+      assistance: ["", { name: "Assistance medyczny" }],
+      exclusions: [{ name: "Sporty ekstremalne", description: "Sporty ekstremalne" }],
+      field_sources: {
+        total_premium_after_discounts: citation(2, "Składka miesięczna 189,50 zł"),
+        "base_contracts[1].sum": citation(1, "Poważne zachorowanie 50 000 zł"),
+        "assistance[1].name": citation(3, "Assistance medyczny"),
+        "exclusions[0]": citation(4, "Sporty ekstremalne"),
+      },
+    },
+  },
+};
+
+const findRow = (sections, rowId: string) =>
+  sections.flatMap((section) => section.rows).find((row) => row.id === rowId);
+
+describe("buildComparisonSections field citations", () => {
+  const sections = buildComparisonSections([offer], null);
+
+  it("cites the total premium from the extracted field source", () => {
+    expect(findRow(sections, "price.total").values[0].sourceReferences).toEqual([
+      citation(2, "Składka miesięczna 189,50 zł"),
+    ]);
+  });
+
+  it("aligns per-item citations with list items, skipping dropped entries", () => {
+    const contracts = findRow(sections, "coverage.basic.contracts").values[0];
+    expect(contracts.items).toHaveLength(2);
+    expect(contracts.itemSourceReferences).toEqual([null, [citation(1, "Poważne zachorowanie 50 000 zł")]]);
+
+    const additional = findRow(sections, "coverage.additional.items").values[0];
+    expect(additional.items).toEqual(["Assistance medyczny"]);
+    expect(additional.itemSourceReferences).toEqual([[citation(3, "Assistance medyczny")]]);
+
+    const exclusions = findRow(sections, "exclusions.items").values[0];
+    expect(exclusions.itemSourceReferences).toEqual([[citation(4, "Sporty ekstremalne")]]);
+  });
+
+  it("prefers AI analysis sources for the whole cell when present", () => {
+    const aiSource = { documentId: "doc-1", page: 7, textSnippet: "Analiza" };
+    const withAnalysis = buildComparisonSections([offer], {
+      coverage_comparison: { offers: [{ offer_id: "doc-1", sources: [aiSource] }] },
+    });
+
+    expect(findRow(withAnalysis, "coverage.basic.contracts").values[0].sourceReferences).toEqual([aiSource]);
+  });
+});
+
+describe("buildComparisonSections field confidence", () => {
+  const scored = {
+    ...offer,
+    data: {
+      ...offer.data,
+      unified: {
+        ...offer.data.unified,
+        field_confidence: {
+          total_premium_after_discounts: { score: 0.35, level: "low", origin: "ai", agreement: "not_found" },
+          "base_contracts[1].name": { score: 0.9, level: "high" },
+          "base_contracts[1].sum": { score: 0.6, level: "medium" },
+        },
+      },
+    },
+  };
+
+  it("attaches the weakest confidence of the fields behind each value", () => {
+    const sections = buildComparisonSections([scored], null);
+
+    expect(findRow(sections, "price.total").values[0].confidence).toEqual({ level: "low", score: 0.35 });
+    expect(findRow(sections, "coverage.basic.contracts").values[0].itemConfidence).toEqual([
+      null,
+      { level: "medium", score: 0.6 },
+    ]);
+  });
+
+  it("drops confidence for values corrected by hand", () => {
+    const corrected = {
+      ...scored,
+      data: {
+        ...scored.data,
+        manual_corrections: [
+          {
+            path: "unified.total_premium_after_discounts",
+            value: 199,
+            previous_value: 189.5,
+            original_value: 189.5,
+            edited_by: "user-1",
+            edited_at: "2026-10-01T10:00:00.000Z",
+          },
+        ],
+      },
+    };
+
+    expect(findRow(buildComparisonSections([corrected], null), "price.total").values[0].confidence).toBeNull();
+  });
+});
+
+describe("buildComparisonSections premium basis", () => {
+  const withPremium = (id: string, premium: number, cycle: string) => ({
+    id,
+    label: id,
+    insurer: id,
+    data: {
+      unified: {
+        total_premium_after_discounts: premium,
+        payment_schedule: { normalized_cycles: [cycle], raw_mentions: [] },
+      },
+    },
+  });
+  const offers = [withPremium("doc-1", 120, "monthly"), withPremium("doc-2", 1200, "annual")];
+
+  it("shows premiums and deltas on the selected basis", () => {
+    const annual = buildComparisonSections(offers, null);
+    const total = findRow(annual, "price.total").values[0];
+    expect(total.normalizedValue).toBe(1440);
+    expect(total.formattedValue).toContain("rocznie");
+    expect(total.formattedValue).toContain("W ofercie:");
+
+    const delta = findRow(annual, "price.delta");
+    expect(delta.label).toBe("Odchylenie od średniej (rocznie)");
+    expect(delta.values.map((cell) => cell.normalizedValue)).toEqual([120, -120]);
+
+    const monthly = buildComparisonSections(offers, null, null, { premiumBasis: "monthly" });
+    expect(findRow(monthly, "price.total").values[1].normalizedValue).toBe(100);
+    expect(findRow(monthly, "price.delta").values.map((cell) => cell.normalizedValue)).toEqual([10, -10]);
+  });
+
+  it("converts premiums to the reporting currency and leaves unconvertible ones out of deltas", () => {
+    const euro = withPremium("doc-3", 100, "monthly");
+    euro.data.unified.currency = "EUR";
+    const dollar = withPremium("doc-4", 500, "annual");
+    dollar.data.unified.currency = "USD";
+    const converter = createCurrencyConverter([{ currency: "EUR", rateToPln: 4.3 }]);
+
+    const sections = buildComparisonSections([...offers, euro, dollar], null, null, { currencyConverter: converter });
+    const total = findRow(sections, "price.total").values;
+    expect(total[2].normalizedValue).toBe(5160);
+    expect(total[2].formattedValue).toContain("kurs 4,3");
+    expect(total[3].formattedValue).toContain("Brak kursu USD");
+
+    const deltas = findRow(sections, "price.delta").values.map((cell) => cell.normalizedValue);
+    expect(deltas.slice(0, 3)).toEqual([-1160, -1400, 2560]);
+    expect(deltas[3]).toBeUndefined();
+  });
+});
+
+describe("buildComparisonSections product templates", () => {
+  const autoOffer = (id: string, productFields: Record<string, unknown>) => ({
+    id,
+    label: id,
+    insurer: id,
+    data: { product_template: "auto_insurance", product_fields: productFields, unified: {} },
+  });
+
+  it("adds the product rows after the price section", () => {
+    const sections = buildComparisonSections(
+      [
+        autoOffer("doc-1", { oc_sum: 5210000, ac_sum: 45000, assistance_towing_km: 200 }),
+        autoOffer("doc-2", { oc_sum: 5210000, ac_sum: 52000 }),
+      ],
+      null,
+      null,
+      { productType: "Ubezpieczenie komunikacyjne OC/AC" },
+    );
+
+    expect(sections.map((section) => section.id).slice(0, 2)).toEqual(["price", "product-auto_insurance"]);
+    expect(findRow(sections, "product.oc_sum").diffStatus).toBe("equal");
+    expect(findRow(sections, "product.ac_sum").values[1].editPath).toBe("product_fields.ac_sum");
+    expect(findRow(sections, "product.assistance_towing_km").values.map((value) => value.isMissing)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it("follows the comparison product type over the extraction template", () => {
+    const sections = buildComparisonSections([offer], null, null, { productType: "travel_insurance" });
+
+    expect(sections.find((section) => section.id === "product-travel_insurance")?.rows.map((row) => row.id)).toEqual([
+      "product.medical_costs_abroad",
+      "product.rescue_costs",
+      "product.baggage_sum",
+      "product.travel_nnw_sum",
+      "product.territorial_scope",
+    ]);
+    expect(buildComparisonSections([offer], null).some((section) => section.id.startsWith("product-"))).toBe(false);
+  });
+});
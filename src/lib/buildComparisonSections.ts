@@ -1,11 +1,23 @@
-import { getPremium, getPaymentDisplayInfo, type ComparisonOffer } from "@/lib/comparison-utils";
-import { formatValueWithUnit, normalizeCurrencyCode } from "@/lib/valueFormatters";
+import {
+  getNormalizedPremium,
+  getOfferCurrency,
+  getPaymentDisplayInfo,
+  type ComparisonOffer,
+  type PremiumBasis,
+} from "@/lib/comparison-utils";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import { createTranslator, DEFAULT_LANGUAGE, getLocale, translate, type Language, type Translate } from "@/lib/i18n";
+import { formatValueWithUnit, type FormatValueOptions } from "@/lib/valueFormatters";
+import { getLatestCorrection } from "@/lib/offer-corrections";
+import { resolveProductTemplate, type ProductTemplate } from "@/lib/product-templates";
 import type {
   ComparisonAnalysis,
   ComparisonAnalysisOffer,
   ComparisonAnalysisSection,
+  FieldConfidence,
   SourceReference,
 } from "@/types/comparison";
+import { getFieldConfidence, getFieldSourceReferences } from "@/types/comparison";
 
 export type HighlightTone = "best" | "warning" | "neutral" | undefined;
 
@@ -56,6 +68,16 @@ export interface ComparisonValueCell {
   aiMessages: string[];
   isMissing: boolean;
   sourceReferences?: SourceReference[] | null;
+  /** Per-item citations for list rows, aligned with `items`. */
+  itemSourceReferences?: Array<SourceReference[] | null>;
+  /** `extracted_data` path a manual correction of this cell is written to. */
+  editPath?: string | null;
+  /** Per-item correction paths for list rows, aligned with `items`. */
+  itemEditPaths?: Array<string | null>;
+  /** Extraction confidence of the value, null when unknown or manually corrected. */
+  confidence?: FieldConfidence | null;
+  /** Per-item extraction confidence for list rows, aligned with `items`. */
+  itemConfidence?: Array<FieldConfidence | null>;
 }
 
 export type ComparisonSectionRowType = "metric" | "list";
@@ -224,8 +246,8 @@ const getPriceMetrics = (analysis?: ComparisonAnalysisOffer) => {
   return { delta, percent };
 };
 
-const formatPercent = (value: number) => {
-  const formatted = value.toLocaleString("pl-PL", {
+const formatPercent = (value: number, locale: string) => {
+  const formatted = value.toLocaleString(locale, {
     minimumFractionDigits: 0,
     maximumFractionDigits: 1,
   });
@@ -281,35 +303,80 @@ const mergeSectionStatus = (
   return priority.indexOf(next) > priority.indexOf(current) ? next : current;
 };
 
-const getOfferCurrency = (offer: ComparisonOffer): string => {
-  const legacyCurrency = offer.data?.premium?.currency;
-  if (typeof legacyCurrency === "string" && legacyCurrency.trim().length > 0) {
-    return normalizeCurrencyCode(legacyCurrency);
-  }
-  return "PLN";
+interface ListItemEntry {
+  text: string | null;
+  references: SourceReference[] | null;
+  editPath?: string | null;
+  confidence?: FieldConfidence | null;
+}
+
+interface ListItems {
+  items: string[];
+  itemSourceReferences: Array<SourceReference[] | null>;
+  itemEditPaths: Array<string | null>;
+  itemConfidence: Array<FieldConfidence | null>;
+}
+
+type ConfidenceLookup = (paths: string[]) => FieldConfidence | null;
+
+const toListItems = (entries: ListItemEntry[]): ListItems => {
+  const kept = entries.filter(
+    (entry): entry is ListItemEntry & { text: string } => Boolean(entry.text && entry.text.trim().length > 0),
+  );
+  return {
+    items: kept.map((entry) => entry.text),
+    itemSourceReferences: kept.map((entry) => entry.references),
+    itemEditPaths: kept.map((entry) => entry.editPath ?? null),
+    itemConfidence: kept.map((entry) => entry.confidence ?? null),
+  };
 };
 
-const normalizeListItems = (items: unknown[]): string[] =>
-  items
-    .map((entry) => {
-      if (typeof entry === "string") {
-        const trimmed = entry.trim();
-        return trimmed.length > 0 ? trimmed : null;
-      }
-      if (entry && typeof entry === "object") {
-        const record = entry as Record<string, unknown>;
-        const candidates = ["name", "title", "coverage", "description"] as const;
-        for (const key of candidates) {
-          const value = record[key];
-          if (typeof value === "string" && value.trim().length > 0) {
-            return value.trim();
-          }
-        }
-        return "Brak opisu";
+const mergeItemReferences = (references: Array<SourceReference[] | null>): SourceReference[] | null => {
+  const merged = references.flatMap((entry) => entry ?? []);
+  return merged.length > 0 ? merged : null;
+};
+
+const getFieldSources = (offer: ComparisonOffer): unknown => offer.data?.unified?.field_sources ?? null;
+
+/** Confidence of unified fields; values a broker corrected by hand no longer count as uncertain. */
+const getConfidenceLookup = (offer: ComparisonOffer): ConfidenceLookup => (paths) =>
+  getFieldConfidence(
+    offer.data?.unified?.field_confidence ?? null,
+    paths.filter((path) => !getLatestCorrection(offer.data, `unified.${path}`)),
+  );
+
+const formatListItem = (entry: unknown, t: Translate): string | null => {
+  if (typeof entry === "string") {
+    const trimmed = entry.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  if (entry && typeof entry === "object") {
+    const record = entry as Record<string, unknown>;
+    const candidates = ["name", "title", "coverage", "description"] as const;
+    for (const key of candidates) {
+      const value = record[key];
+      if (typeof value === "string" && value.trim().length > 0) {
+        return value.trim();
       }
-      return null;
-    })
-    .filter((item): item is string => Boolean(item));
+    }
+    return t("item.noDescription");
+  }
+  return null;
+};
+
+const normalizeListItems = (
+  items: unknown[],
+  t: Translate,
+  referencesFor: (index: number) => SourceReference[] | null = () => null,
+  confidenceFor: (index: number) => FieldConfidence | null = () => null,
+): ListItems =>
+  toListItems(
+    items.map((entry, index) => ({
+      text: formatListItem(entry, t),
+      references: referencesFor(index),
+      confidence: confidenceFor(index),
+    })),
+  );
 
 const buildListSignature = (items: string[]): string | null => {
   if (items.length === 0) return null;
@@ -328,9 +395,9 @@ const getStringValue = (value: unknown): string | null => {
   return null;
 };
 
-const formatCurrencyLike = (value: unknown): string | null => {
+const formatCurrencyLike = (value: unknown, locale: string): string | null => {
   if (typeof value === "number" && Number.isFinite(value)) {
-    return `${value.toLocaleString("pl-PL")} PLN`;
+    return `${value.toLocaleString(locale)} PLN`;
   }
   if (typeof value === "string") {
     const trimmed = value.trim();
@@ -339,86 +406,102 @@ const formatCurrencyLike = (value: unknown): string | null => {
   return null;
 };
 
-const formatBaseContractItems = (contracts: unknown[]): string[] => {
+const formatBaseContractItems = (
+  contracts: unknown[],
+  t: Translate,
+  locale: string,
+  fieldSources: unknown = null,
+  confidenceFor: ConfidenceLookup = () => null,
+): ListItems => {
   if (!Array.isArray(contracts)) {
-    return [];
+    return { items: [], itemSourceReferences: [], itemEditPaths: [], itemConfidence: [] };
   }
 
-  return contracts
-    .map((contract, index) => {
+  return toListItems(
+    contracts.map((contract, index) => {
+      const paths = [`base_contracts[${index}].sum`, `base_contracts[${index}].name`, `base_contracts[${index}].premium`];
+      const references = getFieldSourceReferences(fieldSources, paths);
+      const confidence = confidenceFor(paths);
+
       if (!contract || typeof contract !== "object") {
         const text = getStringValue(contract);
-        return text ?? `Świadczenie ${index + 1}`;
+        return { text: text ?? t("item.benefit", { index: index + 1 }), references, confidence };
       }
+      const editPath = `unified.base_contracts[${index}].sum`;
 
       const record = contract as Record<string, unknown>;
-      const name = getStringValue(record.name) ?? getStringValue(record.title) ?? `Świadczenie ${index + 1}`;
-      const sum = formatCurrencyLike(record.sum);
+      const name = getStringValue(record.name) ?? getStringValue(record.title) ?? t("item.benefit", { index: index + 1 });
+      const sum = formatCurrencyLike(record.sum, locale);
       const variant = getStringValue(record.variant);
 
       const parts = [name];
       if (sum) {
-        parts.push(`suma: ${sum}`);
+        parts.push(t("item.sum", { value: sum }));
       }
       if (variant) {
-        parts.push(`wariant: ${variant}`);
+        parts.push(t("item.variant", { value: variant }));
       }
-      return parts.join(" • ");
-    })
-    .filter((item): item is string => Boolean(item && item.trim().length > 0));
+      return { text: parts.join(" • "), references, editPath, confidence };
+    }),
+  );
 };
 
 const formatAdditionalCoverageItems = (
   additionalContracts: unknown[],
   assistanceEntries: unknown[],
-): string[] => {
+  t: Translate,
+  locale: string,
+  fieldSources: unknown = null,
+  confidenceFor: ConfidenceLookup = () => null,
+): ListItems => {
   const additional = Array.isArray(additionalContracts) ? additionalContracts : [];
   const assistance = Array.isArray(assistanceEntries) ? assistanceEntries : [];
 
-  const formattedContracts = additional
-    .map((entry, index) => {
-      if (!entry || typeof entry !== "object") {
-        return getStringValue(entry);
-      }
-      const record = entry as Record<string, unknown>;
-      const name = getStringValue(record.name) ?? getStringValue(record.title) ?? `Dodatek ${index + 1}`;
-      const coverage = getStringValue(record.coverage) ?? getStringValue(record.description);
-      const premium = formatCurrencyLike(record.premium);
-      const parts = [name];
-      if (coverage) {
-        parts.push(coverage);
-      }
-      if (premium) {
-        parts.push(`składka: ${premium}`);
-      }
-      return parts.join(" • ");
-    })
-    .filter((item): item is string => Boolean(item && item.trim().length > 0));
-
-  const formattedAssistance = assistance
-    .map((entry, index) => {
-      if (typeof entry === "string") {
-        return entry.trim();
-      }
-      if (!entry || typeof entry !== "object") {
-        return null;
-      }
-      const record = entry as Record<string, unknown>;
-      const name = getStringValue(record.name) ?? `Usługa assistance ${index + 1}`;
-      const description = getStringValue(record.coverage) ?? getStringValue(record.description);
-      const limits = getStringValue(record.limits);
-      const parts = [name];
-      if (description) {
-        parts.push(description);
-      }
-      if (limits) {
-        parts.push(`limit: ${limits}`);
-      }
-      return parts.join(" • ");
-    })
-    .filter((item): item is string => Boolean(item && item.trim().length > 0));
+  const formattedContracts = additional.map((entry, index): ListItemEntry => {
+    const paths = [`additional_contracts[${index}].name`, `additional_contracts[${index}].premium`];
+    const references = getFieldSourceReferences(fieldSources, paths);
+    const confidence = confidenceFor(paths);
+    if (!entry || typeof entry !== "object") {
+      return { text: getStringValue(entry), references, confidence };
+    }
+    const record = entry as Record<string, unknown>;
+    const name = getStringValue(record.name) ?? getStringValue(record.title) ?? t("item.addon", { index: index + 1 });
+    const coverage = getStringValue(record.coverage) ?? getStringValue(record.description);
+    const premium = formatCurrencyLike(record.premium, locale);
+    const parts = [name];
+    if (coverage) {
+      parts.push(coverage);
+    }
+    if (premium) {
+      parts.push(t("item.premium", { value: premium }));
+    }
+    return { text: parts.join(" • "), references, confidence };
+  });
 
-  return [...formattedContracts, ...formattedAssistance];
+  const formattedAssistance = assistance.map((entry, index): ListItemEntry => {
+    const references = getFieldSourceReferences(fieldSources, [`assistance[${index}].name`]);
+    const confidence = confidenceFor([`assistance[${index}].name`]);
+    if (typeof entry === "string") {
+      return { text: entry.trim(), references, confidence };
+    }
+    if (!entry || typeof entry !== "object") {
+      return { text: null, references, confidence };
+    }
+    const record = entry as Record<string, unknown>;
+    const name = getStringValue(record.name) ?? t("item.assistance", { index: index + 1 });
+    const description = getStringValue(record.coverage) ?? getStringValue(record.description);
+    const limits = getStringValue(record.limits);
+    const parts = [name];
+    if (description) {
+      parts.push(description);
+    }
+    if (limits) {
+      parts.push(t("item.limit", { value: limits }));
+    }
+    return { text: parts.join(" • "), references, confidence };
+  });
+
+  return toListItems([...formattedContracts, ...formattedAssistance]);
 };
 
 const mapSourceMetadata = (
@@ -515,11 +598,74 @@ const transformRowSource = (
   };
 };
 
+export interface BuildComparisonSectionsOptions {
+  /** Payment cycle premiums and price deltas are normalized to. Defaults to annual. */
+  premiumBasis?: PremiumBasis;
+  /**
+   * Converts premiums to the comparison's reporting currency. Offers in a currency without a
+   * rate keep their own amounts but are left out of averages and deltas.
+   */
+  currencyConverter?: CurrencyConverter | null;
+  /** Comparison product type; selects the product-specific rows shown after the price section. */
+  productType?: string | null;
+  /** Language of row labels and cell captions. Defaults to Polish. */
+  language?: Language;
+}
+
+const buildProductTemplateRows = (
+  template: ProductTemplate,
+  offers: ComparisonOffer[],
+  currencies: string[],
+  language: Language,
+): ComparisonSectionRow[] =>
+  template.fields.map((field) => {
+    const row: ComparisonSectionRow = {
+      id: `product.${field.key}`,
+      label: translate(language, field.label),
+      type: "metric",
+      icon: field.kind === "amount" && !field.unit ? "price" : "coverage",
+      values: offers.map((offer, idx) => {
+        const rawValue = offer.data?.product_fields?.[field.key] ?? null;
+        const formatted = formatValueWithUnit(rawValue, {
+          language,
+          type: field.kind === "amount" && !field.unit ? "currency" : "number",
+          unit: field.unit ?? currencies[idx],
+        });
+        return {
+          offerId: offer.id,
+          formattedValue: formatted.displayValue ?? "—",
+          normalizedValue: formatted.normalizedValue ?? undefined,
+          rawValue,
+          tooltip: formatted.tooltip,
+          highlight: undefined,
+          aiMessages: [],
+          isMissing: formatted.displayValue === null,
+          // Manual corrections only accept amounts.
+          editPath: field.kind === "amount" ? `product_fields.${field.key}` : null,
+          sourceReferences: null,
+        } satisfies ComparisonValueCell;
+      }),
+      diffStatus: "missing",
+    };
+    row.diffStatus = calculateRowDiffStatus(row.values);
+    return row;
+  });
+
 export const buildComparisonSections = (
   offers: ComparisonOffer[],
   comparisonAnalysis: ComparisonAnalysis | null,
   sourceMetadata?: ComparisonSourceMetadata | null,
+  {
+    premiumBasis = "annual",
+    currencyConverter = null,
+    productType = null,
+    language = DEFAULT_LANGUAGE,
+  }: BuildComparisonSectionsOptions = {},
 ): ComparisonSection[] => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const format = (value: unknown, options: FormatValueOptions = {}) => formatValueWithUnit(value, { ...options, language });
+  const basisLabel = t(`premiumBasis.${premiumBasis}`);
   const metadataMap = mapSourceMetadata(sourceMetadata);
 
   const priceLookup = createAnalysisLookup(comparisonAnalysis?.price_comparison);
@@ -532,8 +678,19 @@ export const buildComparisonSections = (
   const assistanceAnalyses = offers.map((offer, idx) => getOfferAnalysis(assistanceLookup, offer, idx));
   const exclusionsAnalyses = offers.map((offer, idx) => getOfferAnalysis(exclusionsLookup, offer, idx));
 
-  const currencies = offers.map((offer) => getOfferCurrency(offer));
-  const paymentInfos = offers.map((offer) => getPaymentDisplayInfo(offer.data));
+  const currencies = offers.map((offer) => getOfferCurrency(offer.data));
+  const paymentInfos = offers.map((offer) => getPaymentDisplayInfo(offer.data, language));
+  const normalizedPremiums = offers.map((offer) => getNormalizedPremium(offer.data, currencyConverter));
+  const comparablePremiums = normalizedPremiums.map((premium) =>
+    premium && (!currencyConverter || premium.currency === currencyConverter.reportingCurrency)
+      ? premium[premiumBasis]
+      : null,
+  );
+  const basisPremiums = comparablePremiums
+    .filter((premium): premium is number => premium !== null);
+  const averageBasisPremium = basisPremiums.length >= 2
+    ? basisPremiums.reduce((sum, premium) => sum + premium, 0) / basisPremiums.length
+    : null;
 
   const sections: ComparisonSection[] = [];
 
@@ -544,53 +701,83 @@ export const buildComparisonSections = (
   const totalPremiumSource = metadataMap.get("price.total");
   const totalPremiumRow: ComparisonSectionRow = {
     id: "price.total",
-    label: "Wysokość składki",
+    label: t("rows.premium"),
     type: "metric",
     icon: "price",
-    analysisLabel: "Analiza AI",
-    aiFallbackMessage: "Brak komentarza AI",
+    analysisLabel: t("rows.aiAnalysis"),
+    aiFallbackMessage: t("rows.noAiComment"),
     values: offers.map((offer, idx) => {
-      const premium = getPremium(offer.data);
+      const normalizedPremium = normalizedPremiums[idx];
+      const premium = normalizedPremium?.[premiumBasis] ?? null;
       const sourceEntry = matchSourceEntry(totalPremiumSource, offer, idx);
+      const isConverted = normalizedPremium?.exchangeRate != null;
+      const premiumUnit = isConverted ? normalizedPremium.currency : sourceEntry?.unit ?? currencies[idx];
       const formatted = premium !== null
-        ? formatValueWithUnit(premium, {
+        ? format(premium, {
             type: "currency",
-            unit: sourceEntry?.unit ?? currencies[idx],
+            unit: premiumUnit,
             source: sourceEntry?.source ?? totalPremiumSource?.label ?? null,
-            normalization: sourceEntry?.normalization ?? currencies[idx],
+            normalization: isConverted ? premiumUnit : sourceEntry?.normalization ?? currencies[idx],
             note: sourceEntry?.note ?? null,
           })
         : {
             displayValue: null,
             normalizedValue: null,
             tooltip: sourceEntry?.source
-              ? `Źródło: ${sourceEntry.source}`
+              ? t("cell.source", { source: sourceEntry.source })
               : null,
             isNumeric: false,
             unit: sourceEntry?.unit,
           };
       const paymentInfo = paymentInfos[idx];
-      const paymentLine = paymentInfo.hasData
-        ? `Płatność: ${paymentInfo.primaryLabel}`
-        : "Płatność: —";
+      const paymentLine = t("cell.payment", { value: paymentInfo.hasData ? paymentInfo.primaryLabel : "—" });
       const detailsLine = paymentInfo.secondaryLabels.length > 0
-        ? `Opcje: ${paymentInfo.secondaryLabels.join(", ")}`
+        ? t("cell.paymentOptions", { value: paymentInfo.secondaryLabels.join(", ") })
         : null;
-      const valueLines = [formatted.displayValue ?? "—", paymentLine];
+      const valueLines = [
+        formatted.displayValue ? `${formatted.displayValue} ${basisLabel}` : "—",
+      ];
+      if (normalizedPremium && (normalizedPremium.amount !== premium || isConverted)) {
+        const stated = format(normalizedPremium.amount, { type: "currency", unit: currencies[idx] });
+        const rateNote = isConverted
+          ? ` (${t("cell.exchangeRate", {
+              rate: normalizedPremium.exchangeRate.toLocaleString(locale, { maximumFractionDigits: 4 }),
+            })})`
+          : "";
+        valueLines.push(
+          t("cell.statedInOffer", { value: `${stated.displayValue ?? normalizedPremium.amount}${rateNote}` }),
+        );
+      }
+      if (normalizedPremium && comparablePremiums[idx] === null && currencyConverter) {
+        valueLines.push(t("cell.missingRate", { currency: normalizedPremium.originalCurrency }));
+      }
+      valueLines.push(paymentLine);
       if (detailsLine) {
         valueLines.push(detailsLine);
       }
+      if (normalizedPremium?.isCycleAssumed) {
+        valueLines.push(
+          normalizedPremium.cycle
+            ? t("cell.estimateAmbiguousCycle")
+            : t("cell.estimateMissingCycle"),
+        );
+      }
       const highlight = priceAnalyses[idx]?.highlight as HighlightTone;
       return {
         offerId: offer.id,
         formattedValue: valueLines.join("\n"),
         normalizedValue: formatted.normalizedValue ?? undefined,
-        rawValue: premium,
+        rawValue: normalizedPremium?.amount ?? null,
         tooltip: formatted.tooltip,
         highlight,
         aiMessages: getAiMessages(priceAnalyses[idx]),
         isMissing: formatted.displayValue === null,
-        sourceReferences: priceAnalyses[idx]?.sources ?? null,
+        editPath: "unified.total_premium_after_discounts",
+        confidence: getConfidenceLookup(offer)(["total_premium_after_discounts"]),
+        sourceReferences:
+          getFieldSourceReferences(getFieldSources(offer), ["total_premium_after_discounts"]) ??
+          priceAnalyses[idx]?.sources ??
+          null,
       } satisfies ComparisonValueCell;
     }),
     diffStatus: "missing",
@@ -601,24 +788,37 @@ export const buildComparisonSections = (
   const deltaSource = metadataMap.get("price.delta");
   const deltaRow: ComparisonSectionRow = {
     id: "price.delta",
-    label: "Odchylenie od średniej",
+    label: t("rows.premiumDelta", { basis: basisLabel }),
     type: "metric",
     icon: "delta",
-    analysisLabel: "Komentarz AI",
-    aiFallbackMessage: "Brak komentarza AI",
+    analysisLabel: t("rows.aiComment"),
+    aiFallbackMessage: t("rows.noAiComment"),
     values: offers.map((offer, idx) => {
-      const metrics = getPriceMetrics(priceAnalyses[idx]);
+      // Deltas reported by the AI compare stated premiums; recompute them on the normalized
+      // basis whenever at least two offers have a comparable premium.
+      const basisPremium = comparablePremiums[idx];
+      const metrics = averageBasisPremium !== null
+        ? {
+            delta: basisPremium !== null ? Math.round((basisPremium - averageBasisPremium) * 100) / 100 : null,
+            percent: basisPremium !== null && averageBasisPremium > 0
+              ? ((basisPremium - averageBasisPremium) / averageBasisPremium) * 100
+              : null,
+          }
+        : getPriceMetrics(priceAnalyses[idx]);
       const sourceEntry = matchSourceEntry(deltaSource, offer, idx);
+      const deltaCurrency = averageBasisPremium !== null && currencyConverter
+        ? currencyConverter.reportingCurrency
+        : sourceEntry?.unit ?? currencies[idx];
 
       const parts: string[] = [];
       let normalized: number | null = null;
 
       if (metrics.delta !== null) {
-        const formattedDelta = formatValueWithUnit(metrics.delta, {
+        const formattedDelta = format(metrics.delta, {
           type: "currency",
-          unit: sourceEntry?.unit ?? currencies[idx],
+          unit: deltaCurrency,
           source: sourceEntry?.source ?? deltaSource?.label ?? null,
-          normalization: sourceEntry?.normalization ?? currencies[idx],
+          normalization: sourceEntry?.normalization ?? deltaCurrency,
           note: sourceEntry?.note ?? null,
         });
         if (formattedDelta.displayValue) {
@@ -628,7 +828,7 @@ export const buildComparisonSections = (
       }
 
       if (metrics.percent !== null) {
-        parts.push(formatPercent(metrics.percent));
+        parts.push(formatPercent(metrics.percent, locale));
         if (normalized === null) {
           normalized = metrics.percent;
         }
@@ -643,11 +843,11 @@ export const buildComparisonSections = (
         normalizedValue: normalized ?? undefined,
         rawValue: metrics,
         tooltip: sourceEntry?.source
-          ? formatValueWithUnit(metrics.delta, {
+          ? format(metrics.delta, {
               type: "currency",
-              unit: sourceEntry?.unit ?? currencies[idx],
+              unit: deltaCurrency,
               source: sourceEntry?.source ?? deltaSource?.label ?? null,
-              normalization: sourceEntry?.normalization ?? currencies[idx],
+              normalization: sourceEntry?.normalization ?? deltaCurrency,
               note: sourceEntry?.note ?? null,
             }).tooltip
           : null,
@@ -676,15 +876,21 @@ export const buildComparisonSections = (
 
   const baseContractsRow: ComparisonSectionRow = {
     id: "coverage.basic.contracts",
-    label: "Świadczenia podstawowe",
+    label: t("rows.baseContracts"),
     type: "list",
     icon: "coverage",
-    analysisLabel: "Analiza AI",
-    aiFallbackMessage: "Brak komentarza AI",
+    analysisLabel: t("rows.aiAnalysis"),
+    aiFallbackMessage: t("rows.noAiComment"),
     values: offers.map((offer, idx) => {
       const unifiedData = offer.data?.unified as Record<string, unknown> | undefined;
       const contracts = unifiedData?.base_contracts ?? [];
-      const items = formatBaseContractItems(contracts as unknown[]);
+      const { items, itemSourceReferences, itemEditPaths, itemConfidence } = formatBaseContractItems(
+        contracts as unknown[],
+        t,
+        locale,
+        getFieldSources(offer),
+        getConfidenceLookup(offer),
+      );
       const signature = buildListSignature(items);
       return {
         offerId: offer.id,
@@ -695,9 +901,12 @@ export const buildComparisonSections = (
         highlight: coverageAnalyses[idx]?.highlight as HighlightTone,
         aiMessages: getAiMessages(coverageAnalyses[idx]),
         items,
+        itemSourceReferences,
+        itemEditPaths,
+        itemConfidence,
         signature,
         isMissing: items.length === 0,
-        sourceReferences: coverageAnalyses[idx]?.sources ?? null,
+        sourceReferences: coverageAnalyses[idx]?.sources ?? mergeItemReferences(itemSourceReferences),
       } satisfies ComparisonValueCell;
     }),
     diffStatus: "missing",
@@ -708,14 +917,14 @@ export const buildComparisonSections = (
   const deductibleSource = metadataMap.get("coverage.deductible");
   const deductibleRow: ComparisonSectionRow = {
     id: "coverage.basic.deductible",
-    label: "Franszyza / udział własny",
+    label: t("rows.deductible"),
     type: "metric",
     icon: "percent",
     values: offers.map((offer, idx) => {
       const amount = offer.data?.deductible?.amount ?? null;
       const unit = offer.data?.deductible?.currency ?? currencies[idx];
       const sourceEntry = matchSourceEntry(deductibleSource, offer, idx);
-      const formatted = formatValueWithUnit(amount, {
+      const formatted = format(amount, {
         type: "currency",
         unit: sourceEntry?.unit ?? unit,
         source: sourceEntry?.source ?? deductibleSource?.label ?? null,
@@ -731,6 +940,7 @@ export const buildComparisonSections = (
         highlight: undefined,
         aiMessages: [],
         isMissing: formatted.displayValue === null,
+        editPath: "deductible.amount",
         sourceReferences: coverageAnalyses[idx]?.sources ?? null,
       } satisfies ComparisonValueCell;
     }),
@@ -741,18 +951,22 @@ export const buildComparisonSections = (
 
   const additionalCoverageRow: ComparisonSectionRow = {
     id: "coverage.additional.items",
-    label: "Zakres dodatkowy",
+    label: t("rows.additionalCoverage"),
     type: "list",
     icon: "assistance",
-    analysisLabel: "Analiza AI",
-    aiFallbackMessage: "Brak komentarza AI",
+    analysisLabel: t("rows.aiAnalysis"),
+    aiFallbackMessage: t("rows.noAiComment"),
     values: offers.map((offer, idx) => {
       const unifiedData = offer.data?.unified as Record<string, unknown> | undefined;
       const additionalContracts = unifiedData?.additional_contracts ?? [];
       const assistanceItems = unifiedData?.assistance ?? (offer.data as Record<string, unknown> | null)?.assistance ?? [];
-      const items = formatAdditionalCoverageItems(
+      const { items, itemSourceReferences, itemConfidence } = formatAdditionalCoverageItems(
         additionalContracts as unknown[],
         assistanceItems as unknown[],
+        t,
+        locale,
+        getFieldSources(offer),
+        getConfidenceLookup(offer),
       );
       const signature = buildListSignature(items);
       return {
@@ -764,10 +978,14 @@ export const buildComparisonSections = (
         highlight: assistanceAnalyses[idx]?.highlight as HighlightTone,
         aiMessages: getAiMessages(assistanceAnalyses[idx]),
         items,
+        itemSourceReferences,
+        itemConfidence,
         signature,
         isMissing: items.length === 0,
         sourceReferences:
-          assistanceAnalyses[idx]?.sources ?? coverageAnalyses[idx]?.sources ?? null,
+          assistanceAnalyses[idx]?.sources ??
+          coverageAnalyses[idx]?.sources ??
+          mergeItemReferences(itemSourceReferences),
       } satisfies ComparisonValueCell;
     }),
     diffStatus: "missing",
@@ -780,11 +998,11 @@ export const buildComparisonSections = (
   const exclusionsRows: ComparisonSectionRow[] = [];
   const exclusionsRow: ComparisonSectionRow = {
     id: "exclusions.items",
-    label: "Wyłączenia",
+    label: t("rows.exclusions"),
     type: "list",
     icon: "alert",
-    analysisLabel: "Analiza AI",
-    aiFallbackMessage: "Brak różnic wykrytych przez AI",
+    analysisLabel: t("rows.aiAnalysis"),
+    aiFallbackMessage: t("rows.noAiDifferences"),
     values: offers.map((offer, idx) => {
       const unifiedData = offer.data?.unified as Record<string, unknown> | undefined;
       const rawItems = Array.isArray(unifiedData?.exclusions)
@@ -792,7 +1010,15 @@ export const buildComparisonSections = (
         : Array.isArray((offer.data as Record<string, unknown> | null)?.exclusions)
           ? ((offer.data as Record<string, unknown>).exclusions as unknown[])
           : [];
-      const items = normalizeListItems(rawItems ?? []);
+      const hasUnifiedExclusions = Array.isArray(unifiedData?.exclusions);
+      const fieldSources = getFieldSources(offer);
+      const confidenceFor = getConfidenceLookup(offer);
+      const { items, itemSourceReferences, itemConfidence } = normalizeListItems(
+        rawItems ?? [],
+        t,
+        (index) => (hasUnifiedExclusions ? getFieldSourceReferences(fieldSources, [`exclusions[${index}]`]) : null),
+        (index) => (hasUnifiedExclusions ? confidenceFor([`exclusions[${index}]`]) : null),
+      );
       const signature = buildListSignature(items);
       const sourceEntry = matchSourceEntry(exclusionsSource, offer, idx);
       const highlight = exclusionsAnalyses[idx]?.highlight as HighlightTone;
@@ -802,7 +1028,7 @@ export const buildComparisonSections = (
         normalizedValue: undefined,
         rawValue: rawItems,
         tooltip: sourceEntry?.source
-          ? formatValueWithUnit(items.length, {
+          ? format(items.length, {
               type: "number",
               unit: undefined,
               source: sourceEntry.source ?? exclusionsSource?.label ?? null,
@@ -813,8 +1039,11 @@ export const buildComparisonSections = (
         highlight,
         aiMessages: getAiMessages(exclusionsAnalyses[idx]),
         items,
+        itemSourceReferences,
+        itemConfidence,
         signature,
         isMissing: items.length === 0,
+        sourceReferences: exclusionsAnalyses[idx]?.sources ?? mergeItemReferences(itemSourceReferences),
       } satisfies ComparisonValueCell;
     }),
     diffStatus: "missing",
@@ -863,7 +1092,7 @@ export const buildComparisonSections = (
 
   sections.push({
     id: "price",
-    title: "Cena i składki",
+    title: t("sections.price"),
     icon: "price",
     rows: priceRows,
     diffStatus: sectionStatus(priceRows),
@@ -871,9 +1100,23 @@ export const buildComparisonSections = (
     defaultExpanded: true,
   });
 
+  const productTemplate = resolveProductTemplate(productType, offers);
+  if (productTemplate) {
+    const productRows = buildProductTemplateRows(productTemplate, offers, currencies, language);
+    sections.push({
+      id: `product-${productTemplate.productType}`,
+      title: `${t(productTemplate.label)}: ${t(productTemplate.sectionTitle)}`,
+      icon: "coverage",
+      rows: productRows,
+      diffStatus: sectionStatus(productRows),
+      sources: [],
+      defaultExpanded: true,
+    });
+  }
+
   sections.push({
     id: "coverage-basic",
-    title: "Zakres podstawowy",
+    title: t("sections.basicCoverage"),
     icon: "coverage",
     rows: basicCoverageRows,
     diffStatus: sectionStatus(basicCoverageRows),
@@ -883,7 +1126,7 @@ export const buildComparisonSections = (
 
   sections.push({
     id: "coverage-additional",
-    title: "Zakres dodatkowy",
+    title: t("sections.additionalCoverage"),
     icon: "assistance",
     rows: additionalCoverageRows,
     diffStatus: sectionStatus(additionalCoverageRows),
@@ -893,7 +1136,7 @@ export const buildComparisonSections = (
 
   sections.push({
     id: "exclusions",
-    title: "Ograniczenia i wyłączenia",
+    title: t("sections.exclusions"),
     icon: "exclusions",
     rows: exclusionsRows,
     diffStatus: sectionStatus(exclusionsRows),
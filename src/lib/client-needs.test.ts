@@ -0,0 +1,99 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { evaluateHardRequirements, parseClientNeedsProfile, resolveClientNeeds } from "./client-needs";
+import { createCurrencyConverter } from "./exchange-rates";
+
+const createOffer = (unified: Record<string, unknown>) => ({
+  id: "doc-1",
+  label: "Oferta A",
+  insurer: "Ubezpieczyciel A",
+  data: { unified },
+});
+
+describe("parseClientNeedsProfile", () => {
+  it("keeps valid answers and drops the rest", () => {
+    expect(
+      parseClientNeedsProfile({
+        age: 42,
+        dependants: -1,
+        budget: { amount: 150, period: "monthly" },
+        must_have_coverages: [" Poważne zachorowanie ", "", "Poważne zachorowanie"],
+        risk_tolerance: "extreme",
+      }),
+    ).toEqual({
+      age: 42,
+      dependants: null,
+      budget: { amount: 150, period: "monthly", currency: "PLN" },
+      must_have_coverages: ["Poważne zachorowanie"],
+      risk_tolerance: null,
+      notes: null,
+    });
+  });
+
+  it("treats empty questionnaires as missing so the client profile applies", () => {
+    expect(parseClientNeedsProfile({ must_have_coverages: [] })).toBeNull();
+    expect(resolveClientNeeds({}, { age: 30 })?.age).toBe(30);
+    expect(resolveClientNeeds({ age: 50 }, { age: 30 })?.age).toBe(50);
+  });
+});
+
+describe("evaluateHardRequirements", () => {
+  const offer = createOffer({
+    total_premium_after_discounts: 180,
+    payment_schedule: { normalized_cycles: ["monthly"], raw_mentions: [] },
+    base_contracts: [{ name: "Śmierć ubezpieczonego" }],
+    additional_contracts: [{ name: "Poważne zachorowanie", coverage: "50 000 zł" }],
+    assistance: ["Assistance medyczny"],
+  });
+
+  it("flags offers above the budget and without must-have coverages", () => {
+    const violations = evaluateHardRequirements(offer, {
+      age: null,
+      dependants: null,
+      budget: { amount: 150, period: "monthly", currency: "PLN" },
+      must_have_coverages: ["poważne zachorowanie", "Pobyt w szpitalu"],
+      risk_tolerance: null,
+      notes: null,
+    });
+
+    expect(violations.map((violation) => violation.kind)).toEqual(["budget", "coverage"]);
+    expect(violations[1].message).toBe("Brak wymaganego zakresu: Pobyt w szpitalu");
+  });
+
+  it("words the violations in the requested language", () => {
+    const [violation] = evaluateHardRequirements(
+      offer,
+      {
+        age: null,
+        dependants: null,
+        budget: null,
+        must_have_coverages: ["Pobyt w szpitalu"],
+        risk_tolerance: null,
+        notes: null,
+      },
+      null,
+      "en",
+    );
+
+    expect(violation.message).toBe("Required cover missing: Pobyt w szpitalu");
+  });
+
+  it("compares budgets in other currencies through the converter", () => {
+    const profile = {
+      age: null,
+      dependants: null,
+      budget: { amount: 50, period: "monthly", currency: "EUR" },
+      must_have_coverages: [],
+      risk_tolerance: null,
+      notes: null,
+    };
+
+    expect(evaluateHardRequirements(offer, profile)).toEqual([]);
+    expect(evaluateHardRequirements(offer, profile, createCurrencyConverter([{ currency: "EUR", rateToPln: 4.3 }]))).toEqual(
+      [],
+    );
+    expect(
+      evaluateHardRequirements(offer, profile, createCurrencyConverter([{ currency: "EUR", rateToPln: 3 }]))[0]?.kind,
+    ).toBe("budget");
+  });
+});
@@ -0,0 +1,174 @@
+import { getNormalizedPremium, type ComparisonOffer, type PremiumBasis } from "@/lib/comparison-utils";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import { createTranslator, DEFAULT_LANGUAGE, getLocale, type Language } from "@/lib/i18n";
+import { formatCurrency, normalizeCurrencyCode } from "@/lib/valueFormatters";
+
+/**
+ * Needs questionnaire of a client, stored as JSON on `clients.needs_profile` and optionally
+ * overridden per comparison in `comparisons.needs_profile`. The same snake_case shape is read
+ * by the `compare-offers` and `generate-summary` functions, so keep the two in sync.
+ */
+
+export type RiskTolerance = "low" | "medium" | "high";
+
+export const RISK_TOLERANCES: RiskTolerance[] = ["low", "medium", "high"];
+
+export type ClientNeedsBudget = {
+  amount: number;
+  period: PremiumBasis;
+  currency: string;
+};
+
+export type ClientNeedsProfile = {
+  age: number | null;
+  dependants: number | null;
+  /** Hard requirement: offers above it are flagged. */
+  budget: ClientNeedsBudget | null;
+  /** Hard requirement: coverages every offer must include, matched by name. */
+  must_have_coverages: string[];
+  risk_tolerance: RiskTolerance | null;
+  notes: string | null;
+};
+
+export interface RequirementViolation {
+  kind: "budget" | "coverage";
+  message: string;
+}
+
+const toNonNegativeInteger = (value: unknown): number | null =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : null;
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+const parseBudget = (value: unknown): ClientNeedsBudget | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.amount !== "number" || !Number.isFinite(record.amount) || record.amount <= 0) {
+    return null;
+  }
+  return {
+    amount: record.amount,
+    period: record.period === "annual" ? "annual" : "monthly",
+    currency: normalizeCurrencyCode(typeof record.currency === "string" ? record.currency : null),
+  };
+};
+
+/** Reads a stored profile; returns null when nothing usable was filled in. */
+export const parseClientNeedsProfile = (value: unknown): ClientNeedsProfile | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const coverages = Array.isArray(record.must_have_coverages)
+    ? record.must_have_coverages.map(toText).filter((entry): entry is string => entry !== null)
+    : [];
+  const riskTolerance = record.risk_tolerance;
+
+  const profile: ClientNeedsProfile = {
+    age: toNonNegativeInteger(record.age),
+    dependants: toNonNegativeInteger(record.dependants),
+    budget: parseBudget(record.budget),
+    must_have_coverages: Array.from(new Set(coverages)),
+    risk_tolerance:
+      RISK_TOLERANCES.includes(riskTolerance as RiskTolerance) ? (riskTolerance as RiskTolerance) : null,
+    notes: toText(record.notes),
+  };
+
+  const isEmpty =
+    profile.age === null &&
+    profile.dependants === null &&
+    profile.budget === null &&
+    profile.must_have_coverages.length === 0 &&
+    profile.risk_tolerance === null &&
+    profile.notes === null;
+  return isEmpty ? null : profile;
+};
+
+/** The comparison's own profile wins over the one kept on the client. */
+export const resolveClientNeeds = (comparisonProfile: unknown, clientProfile: unknown): ClientNeedsProfile | null =>
+  parseClientNeedsProfile(comparisonProfile) ?? parseClientNeedsProfile(clientProfile);
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+const collectCoverageNames = (offer: ComparisonOffer): string[] => {
+  const unified = (offer.data?.unified ?? {}) as Record<string, unknown>;
+  const names: string[] = [];
+  const push = (value: unknown) => {
+    if (typeof value === "string" && value.trim().length > 0) {
+      names.push(normalizeName(value));
+    }
+  };
+  const collect = (entries: unknown, keys: string[]) => {
+    if (!Array.isArray(entries)) {
+      return;
+    }
+    entries.forEach((entry) => {
+      if (typeof entry === "string") {
+        push(entry);
+      } else if (entry && typeof entry === "object") {
+        keys.forEach((key) => push((entry as Record<string, unknown>)[key]));
+      }
+    });
+  };
+
+  collect(unified.base_contracts, ["name"]);
+  collect(unified.additional_contracts, ["name", "coverage"]);
+  collect(unified.assistance ?? offer.data?.assistance, ["name", "coverage"]);
+  return names;
+};
+
+/**
+ * Checks an offer against the hard requirements of the profile: the budget and the must-have
+ * coverages. Premiums in a currency that cannot be converted to the budget's are not judged.
+ */
+export const evaluateHardRequirements = (
+  offer: ComparisonOffer,
+  profile: ClientNeedsProfile | null,
+  converter: CurrencyConverter | null = null,
+  language: Language = DEFAULT_LANGUAGE,
+): RequirementViolation[] => {
+  if (!profile) {
+    return [];
+  }
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const violations: RequirementViolation[] = [];
+
+  if (profile.budget) {
+    const premium = getNormalizedPremium(offer.data, converter);
+    const budgetInPremiumCurrency =
+      premium && premium.currency === profile.budget.currency
+        ? profile.budget.amount
+        : premium && converter && premium.currency === converter.reportingCurrency
+          ? converter.convert(profile.budget.amount, profile.budget.currency)?.amount ?? null
+          : null;
+    if (premium && budgetInPremiumCurrency !== null) {
+      const value = premium[profile.budget.period];
+      if (value > budgetInPremiumCurrency) {
+        violations.push({
+          kind: "budget",
+          message: t("needs.budgetExceeded", {
+            premium: formatCurrency(value, premium.currency, locale),
+            basis: t(`premiumBasis.${profile.budget.period}`),
+            budget: formatCurrency(profile.budget.amount, profile.budget.currency, locale),
+          }),
+        });
+      }
+    }
+  }
+
+  if (profile.must_have_coverages.length > 0) {
+    const names = collectCoverageNames(offer);
+    profile.must_have_coverages.forEach((coverage) => {
+      const needle = normalizeName(coverage);
+      if (!names.some((name) => name.includes(needle))) {
+        violations.push({ kind: "coverage", message: t("needs.missingCoverage", { coverage }) });
+      }
+    });
+  }
+
+  return violations;
+};
@@ -0,0 +1,153 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { CitationRegistry, describeReportCell, renderComparisonReport } from "./comparison-report";
+import { encodePdfText, PdfWriter, transliterateUkrainian, wrapText } from "./pdf-writer";
+import { parseTrueType } from "./truetype";
+
+const decode = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+const loadFont = (fileName: string) =>
+  parseTrueType(new Uint8Array(readFileSync(new URL(`../assets/fonts/${fileName}`, import.meta.url))));
+const fonts = { regular: loadFont("DejaVuSans.ttf"), bold: loadFont("DejaVuSans-Bold.ttf") };
+const glyphHex = (text: string, font = fonts.regular) =>
+  [...text].map((char) => font.glyphForCodePoint(char.codePointAt(0)).toString(16).toUpperCase().padStart(4, "0")).join("");
+
+const offers = [
+  { id: "doc-1", label: "Oferta 1", insurer: "Warta", fileName: "warta.pdf", data: {}, calculationId: null, detectedProductType: null },
+  { id: "doc-2", label: "Oferta 2", insurer: "PZU", fileName: "pzu.pdf", data: {}, calculationId: null, detectedProductType: null },
+];
+
+const reference = { documentId: "doc-1", page: 3, textSnippet: "Składka roczna 1200 zł" };
+
+const sections = [
+  {
+    id: "price",
+    title: "Cena",
+    diffStatus: "different",
+    sources: [],
+    rows: [
+      {
+        id: "price.total",
+        label: "Składka łączna",
+        type: "metric",
+        diffStatus: "different",
+        values: [
+          { offerId: "doc-1", formattedValue: "1 200 PLN", rawValue: 1200, aiMessages: [], isMissing: false, highlight: "best", sourceReferences: [reference] },
+          { offerId: "doc-2", formattedValue: null, rawValue: null, aiMessages: [], isMissing: true },
+        ],
+      },
+    ],
+  },
+];
+
+describe("pdf-writer", () => {
+  it("maps Polish diacritics to the custom encoding and escapes delimiters", () => {
+    expect(encodePdfText("Zażółć (gęślą)")).toBe("Za\\231\\363\\212\\206 \\(g\\210\\216l\\202\\)");
+  });
+
+  it("romanizes Ukrainian text the standard fonts cannot render", () => {
+    expect(transliterateUkrainian("Юрій Згурський, Україна")).toBe("Yurii Zghurskyi, Ukraina");
+    expect(transliterateUkrainian("Сторінка 1 з 1")).toBe("Storinka 1 z 1");
+    expect(encodePdfText("п'ять")).toBe("piat");
+  });
+
+  it("writes Cyrillic as glyph ids of an embedded font with a ToUnicode map", () => {
+    const writer = new PdfWriter(undefined, undefined, fonts);
+    writer.text(40, 40, "Звіт");
+    const pdf = decode(writer.toBytes());
+
+    expect(glyphHex("Звіт")).not.toContain("0000");
+    expect(pdf).toContain(`<${glyphHex("Звіт")}> Tj`);
+    expect(pdf).toContain("/Subtype /Type0");
+    expect(pdf).toContain("/Encoding /Identity-H");
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+DejaVuSans /);
+    expect(pdf).toContain(`<${glyphHex("З")}> <0417>`);
+    expect(writer.measureText("Звіт", 10)).toBeGreaterThan(0);
+  });
+
+  it("wraps text to the requested width", () => {
+    const lines = wrapText("Najważniejsze różnice pomiędzy ofertami ubezpieczeniowymi", 120, 10);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("Najważniejsze różnice pomiędzy ofertami ubezpieczeniowymi");
+  });
+});
+
+describe("renderComparisonReport", () => {
+  it("produces a PDF with section rows, summary and numbered sources", () => {
+    const pdf = decode(
+      renderComparisonReport({
+        comparisonId: "cmp-1",
+        offers,
+        sections,
+        metrics: [{ key: "offerCount", label: "Liczba ofert", value: "2" }],
+        summary: {
+          recommended_offer: {
+            name: "Warta Komfort",
+            insurer: "Warta",
+            key_numbers: [{ label: "Składka", value: "1 200 PLN", sources: [reference] }],
+          },
+          reasons: ["Najniższa cena"],
+          risks: ["Wyższy udział własny"],
+          next_steps: ["Potwierdź zakres"],
+        },
+        generatedAt: new Date("2026-01-15T10:00:00Z"),
+      }),
+    );
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("/BaseFont /Helvetica-Bold");
+    expect(pdf).toContain("(1 200 PLN [1]) Tj");
+    expect(pdf).toContain("(Brak danych) Tj");
+    expect(pdf).toContain("(Warta Komfort) Tj");
+    expect(pdf).toContain("(Sk\\212adka: 1 200 PLN [1]) Tj");
+    expect(pdf).toContain("([1] warta.pdf, str. 3) Tj");
+    expect(pdf).toContain("(Strona 1 z 1) Tj");
+  });
+
+  it("starts new pages for long tables", () => {
+    const longSections = [
+      { ...sections[0], rows: Array.from({ length: 80 }, (_, index) => ({ ...sections[0].rows[0], id: `row-${index}` })) },
+    ];
+    const pdf = decode(
+      renderComparisonReport({ comparisonId: "cmp-1", offers, sections: longSections, metrics: [], summary: null }),
+    );
+
+    expect(pdf).toMatch(/\/Count [2-9]/);
+    expect(pdf).toContain("(Strona 2 z ");
+  });
+
+  it("labels the report in the requested language", () => {
+    const pdf = decode(
+      renderComparisonReport({ comparisonId: "cmp-1", offers, sections, metrics: [], summary: null, language: "en" }),
+    );
+
+    expect(pdf).toContain("(No data) Tj");
+    expect(pdf).toContain("(Page 1 of 1) Tj");
+  });
+
+  it("keeps Ukrainian labels in Cyrillic when fonts are embedded", () => {
+    const pdf = decode(
+      renderComparisonReport({ comparisonId: "cmp-1", offers, sections, metrics: [], summary: null, language: "uk", fonts }),
+    );
+
+    expect(pdf).toContain("/FontFile2");
+    expect(pdf).not.toContain("(Storinka");
+    expect(pdf).toContain(`<${glyphHex("Сторінка 1 з 1")}> Tj`);
+  });
+});
+
+describe("report helpers", () => {
+  it("deduplicates citations across cells", () => {
+    const registry = new CitationRegistry(offers);
+    expect(registry.register([reference])).toEqual([1]);
+    expect(registry.register([reference, { ...reference, page: 4 }])).toEqual([1, 2]);
+    expect(registry.list().map((citation) => citation.documentLabel)).toEqual(["warta.pdf", "warta.pdf"]);
+  });
+
+  it("renders list cells as bullet points", () => {
+    expect(describeReportCell({ isMissing: false, items: ["Kradzież", "Pożar"] })).toEqual(["• Kradzież", "• Pożar"]);
+    expect(describeReportCell(undefined)).toEqual(["Brak danych"]);
+  });
+});
@@ -0,0 +1,449 @@
+import type { ComparisonSection, ComparisonValueCell } from "@/lib/buildComparisonSections";
+import type { ComparisonMetric, ComparisonOffer } from "@/lib/comparison-utils";
+import { createTranslator, DEFAULT_LANGUAGE, getLocale, type Language, type Translate } from "@/lib/i18n";
+import { PdfWriter, type PdfColor, type PdfEmbeddedFonts, type PdfFont } from "@/lib/pdf-writer";
+import type { ComparisonSummary, SourceReference } from "@/types/comparison";
+
+export const REPORT_BRAND_NAME = "InsurCompare";
+
+export interface ComparisonReportInput {
+  comparisonId: string;
+  offers: ComparisonOffer[];
+  sections: ComparisonSection[];
+  metrics: ComparisonMetric[];
+  summary: ComparisonSummary | null;
+  fallbackSummaryText?: string | null;
+  productType?: string | null;
+  clientName?: string | null;
+  generatedAt?: Date;
+  /** Language of the report's own labels; the AI summary is expected to be in the same language. */
+  language?: Language;
+  /** Needed for languages the standard PDF fonts cannot render, see `loadReportFonts`. */
+  fonts?: PdfEmbeddedFonts | null;
+}
+
+export interface ReportCitation {
+  index: number;
+  reference: SourceReference;
+  documentLabel: string;
+}
+
+const PAGE_MARGIN = 40;
+const HEADER_HEIGHT = 56;
+const FOOTER_HEIGHT = 28;
+const LABEL_COLUMN_WIDTH = 130;
+const CELL_PADDING = 4;
+const SNIPPET_MAX_LENGTH = 220;
+
+const COLORS = {
+  primary: [0.02, 0.15, 0.44] as PdfColor,
+  primaryMuted: [0.9, 0.93, 0.98] as PdfColor,
+  text: [0.1, 0.1, 0.12] as PdfColor,
+  muted: [0.42, 0.45, 0.5] as PdfColor,
+  border: [0.85, 0.87, 0.9] as PdfColor,
+  best: [0.09, 0.64, 0.29] as PdfColor,
+  warning: [0.86, 0.15, 0.15] as PdfColor,
+  white: [1, 1, 1] as PdfColor,
+};
+
+const formatDate = (date: Date, language: Language): string =>
+  date.toLocaleDateString(getLocale(language), { year: "numeric", month: "long", day: "numeric" });
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value;
+
+const normalizeList = (list: string[] | null | undefined): string[] =>
+  (list ?? [])
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+/**
+ * Numbers source references in order of first appearance so the table and the summary
+ * can point to the same entries of the "Źródła" appendix.
+ */
+export class CitationRegistry {
+  private readonly citations: ReportCitation[] = [];
+  private readonly indexByKey = new Map<string, number>();
+
+  constructor(
+    private readonly offers: ComparisonOffer[],
+    private readonly t: Translate = createTranslator(),
+  ) {}
+
+  register(references: SourceReference[] | null | undefined): number[] {
+    if (!references || references.length === 0) {
+      return [];
+    }
+
+    const indices: number[] = [];
+    for (const reference of references) {
+      const key = `${reference.documentId}|${reference.page}|${reference.textSnippet}`;
+      let index = this.indexByKey.get(key);
+      if (index === undefined) {
+        index = this.citations.length + 1;
+        this.indexByKey.set(key, index);
+        this.citations.push({ index, reference, documentLabel: this.describeDocument(reference.documentId) });
+      }
+      if (!indices.includes(index)) {
+        indices.push(index);
+      }
+    }
+    return indices;
+  }
+
+  list(): ReportCitation[] {
+    return [...this.citations];
+  }
+
+  private describeDocument(documentId: string): string {
+    const offer = this.offers.find((candidate) => candidate.id === documentId);
+    if (!offer) {
+      return this.t("report.sourceDocument");
+    }
+    return offer.fileName ?? offer.insurer ?? offer.label;
+  }
+}
+
+export const formatCitationMarker = (indices: number[]): string =>
+  indices.length > 0 ? ` [${indices.join(", ")}]` : "";
+
+export const describeReportCell = (
+  cell: ComparisonValueCell | undefined,
+  t: Translate = createTranslator(),
+): string[] => {
+  if (!cell || cell.isMissing) {
+    return [t("report.noData")];
+  }
+  if (cell.items && cell.items.length > 0) {
+    return cell.items.map((item) => `• ${item}`);
+  }
+  return [cell.formattedValue ?? t("report.noData")];
+};
+
+const describeOffer = (offer: ComparisonOffer): string =>
+  offer.insurer ? `${offer.label} (${offer.insurer})` : offer.label;
+
+class ReportLayout {
+  readonly writer: PdfWriter;
+  readonly t: Translate;
+  private readonly title: string;
+  private cursor = 0;
+
+  constructor(
+    readonly language: Language,
+    fonts: PdfEmbeddedFonts | null,
+  ) {
+    this.writer = new PdfWriter(undefined, undefined, fonts);
+    this.t = createTranslator(language);
+    this.title = this.t("report.documentTitle");
+    this.startPage();
+  }
+
+  get contentWidth(): number {
+    return this.writer.width - PAGE_MARGIN * 2;
+  }
+
+  get y(): number {
+    return this.cursor;
+  }
+
+  advance(height: number): void {
+    this.cursor += height;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.cursor + height > this.writer.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+      this.startPage();
+    }
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(40);
+    this.advance(10);
+    this.writer.text(PAGE_MARGIN, this.cursor, text, { font: "bold", size: 13, color: COLORS.primary });
+    this.advance(18);
+    this.writer.line(PAGE_MARGIN, this.cursor, PAGE_MARGIN + this.contentWidth, this.cursor, COLORS.border);
+    this.advance(8);
+  }
+
+  paragraph(
+    text: string,
+    options: { font?: PdfFont; size?: number; color?: PdfColor; indent?: number; bullet?: string } = {},
+  ): void {
+    const { font = "regular", size = 9.5, color = COLORS.text, indent = 0, bullet } = options;
+    const bulletWidth = bullet ? this.writer.measureText(`${bullet} `, size, font) : 0;
+    const lines = this.writer.wrapText(text, this.contentWidth - indent - bulletWidth, size, font);
+    const lineHeight = size * 1.35;
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      if (bullet && index === 0) {
+        this.writer.text(PAGE_MARGIN + indent, this.cursor, bullet, { font, size, color });
+      }
+      this.writer.text(PAGE_MARGIN + indent + bulletWidth, this.cursor, line, { font, size, color });
+      this.advance(lineHeight);
+    });
+  }
+
+  finalize(generatedAt: Date): Uint8Array {
+    const total = this.writer.pageCount;
+    for (let index = 0; index < total; index += 1) {
+      this.writer.goToPage(index);
+      const footerY = this.writer.height - PAGE_MARGIN;
+      this.writer.line(PAGE_MARGIN, footerY - 6, PAGE_MARGIN + this.contentWidth, footerY - 6, COLORS.border);
+      const generatedLabel = this.t("report.generated", { date: formatDate(generatedAt, this.language) });
+      this.writer.text(PAGE_MARGIN, footerY, `${REPORT_BRAND_NAME} • ${generatedLabel}`, {
+        size: 7.5,
+        color: COLORS.muted,
+      });
+      const pageLabel = this.t("report.page", { page: index + 1, total });
+      this.writer.text(
+        PAGE_MARGIN + this.contentWidth - this.writer.measureText(pageLabel, 7.5),
+        footerY,
+        pageLabel,
+        { size: 7.5, color: COLORS.muted },
+      );
+    }
+    return this.writer.toBytes();
+  }
+
+  private startPage(): void {
+    this.writer.addPage();
+    this.writer.rect(0, 0, this.writer.width, HEADER_HEIGHT, COLORS.primary);
+    this.writer.text(PAGE_MARGIN, 18, REPORT_BRAND_NAME, { font: "bold", size: 16, color: COLORS.white });
+    const titleWidth = this.writer.measureText(this.title, 9);
+    this.writer.text(PAGE_MARGIN + this.contentWidth - titleWidth, 23, this.title, {
+      size: 9,
+      color: COLORS.white,
+    });
+    this.cursor = HEADER_HEIGHT + 20;
+  }
+}
+
+const renderMetrics = (layout: ReportLayout, metrics: ComparisonMetric[]) => {
+  if (metrics.length === 0) {
+    return;
+  }
+
+  const gap = 8;
+  const tileWidth = (layout.contentWidth - gap * (metrics.length - 1)) / metrics.length;
+  const tileHeight = 42;
+  layout.ensureSpace(tileHeight + 10);
+
+  metrics.forEach((metric, index) => {
+    const x = PAGE_MARGIN + index * (tileWidth + gap);
+    layout.writer.rect(x, layout.y, tileWidth, tileHeight, COLORS.primaryMuted);
+    layout.writer.text(x + 8, layout.y + 8, metric.label, { size: 7.5, color: COLORS.muted });
+    layout.writer.text(x + 8, layout.y + 21, metric.value, { font: "bold", size: 12, color: COLORS.primary });
+  });
+
+  layout.advance(tileHeight + 10);
+};
+
+const renderSectionTable = (
+  layout: ReportLayout,
+  section: ComparisonSection,
+  offers: ComparisonOffer[],
+  citations: CitationRegistry,
+) => {
+  if (section.rows.length === 0) {
+    return;
+  }
+
+  layout.heading(section.title);
+
+  const columnWidth = (layout.contentWidth - LABEL_COLUMN_WIDTH) / Math.max(offers.length, 1);
+  const fontSize = offers.length > 4 ? 7 : 8;
+  const lineHeight = fontSize * 1.3;
+  const columnX = (index: number) => PAGE_MARGIN + LABEL_COLUMN_WIDTH + index * columnWidth;
+
+  const renderHeaderRow = () => {
+    const headerLines = offers.map((offer) =>
+      layout.writer.wrapText(describeOffer(offer), columnWidth - CELL_PADDING * 2, fontSize, "bold"),
+    );
+    const height = Math.max(...headerLines.map((lines) => lines.length), 1) * lineHeight + CELL_PADDING * 2;
+    layout.ensureSpace(height);
+    layout.writer.rect(PAGE_MARGIN, layout.y, layout.contentWidth, height, COLORS.primaryMuted);
+    headerLines.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        layout.writer.text(columnX(index) + CELL_PADDING, layout.y + CELL_PADDING + lineIndex * lineHeight, line, {
+          font: "bold",
+          size: fontSize,
+          color: COLORS.primary,
+        });
+      });
+    });
+    layout.advance(height);
+  };
+
+  renderHeaderRow();
+
+  for (const row of section.rows) {
+    const labelLines = layout.writer.wrapText(row.label, LABEL_COLUMN_WIDTH - CELL_PADDING * 2, fontSize, "bold");
+    const cellLines = offers.map((offer) => {
+      const cell = row.values.find((value) => value.offerId === offer.id);
+      const marker = formatCitationMarker(citations.register(cell?.sourceReferences));
+      const lines = describeReportCell(cell, layout.t);
+      lines[lines.length - 1] = `${lines[lines.length - 1]}${marker}`;
+      return {
+        highlight: cell?.highlight,
+        lines: lines.flatMap((line) => layout.writer.wrapText(line, columnWidth - CELL_PADDING * 2, fontSize)),
+      };
+    });
+
+    const height =
+      Math.max(labelLines.length, ...cellLines.map((cell) => cell.lines.length)) * lineHeight + CELL_PADDING * 2;
+
+    if (layout.y + height > layout.writer.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+      layout.ensureSpace(height);
+      renderHeaderRow();
+    }
+
+    labelLines.forEach((line, index) => {
+      layout.writer.text(PAGE_MARGIN + CELL_PADDING, layout.y + CELL_PADDING + index * lineHeight, line, {
+        font: "bold",
+        size: fontSize,
+        color: COLORS.text,
+      });
+    });
+
+    cellLines.forEach((cell, index) => {
+      const color =
+        cell.highlight === "best" ? COLORS.best : cell.highlight === "warning" ? COLORS.warning : COLORS.text;
+      cell.lines.forEach((line, lineIndex) => {
+        layout.writer.text(columnX(index) + CELL_PADDING, layout.y + CELL_PADDING + lineIndex * lineHeight, line, {
+          font: cell.highlight === "best" ? "bold" : "regular",
+          size: fontSize,
+          color,
+        });
+      });
+    });
+
+    layout.advance(height);
+    layout.writer.line(PAGE_MARGIN, layout.y, PAGE_MARGIN + layout.contentWidth, layout.y, COLORS.border);
+  }
+
+  layout.advance(6);
+};
+
+const renderSummary = (
+  layout: ReportLayout,
+  summary: ComparisonSummary | null,
+  fallbackSummaryText: string | null | undefined,
+  citations: CitationRegistry,
+) => {
+  const recommended = summary?.recommended_offer ?? null;
+  const reasons = normalizeList(summary?.reasons);
+  const risks = normalizeList(summary?.risks);
+  const nextSteps = normalizeList(summary?.next_steps);
+  const fallback = typeof fallbackSummaryText === "string" ? fallbackSummaryText.trim() : "";
+
+  if (!recommended && reasons.length === 0 && risks.length === 0 && nextSteps.length === 0 && !fallback) {
+    return;
+  }
+
+  layout.heading(layout.t("report.recommendation"));
+
+  if (recommended) {
+    const title = recommended.name?.trim() || recommended.insurer?.trim();
+    if (title) {
+      layout.paragraph(title, { font: "bold", size: 12, color: COLORS.primary });
+    }
+    if (recommended.insurer && recommended.insurer.trim() !== title) {
+      layout.paragraph(layout.t("summary.insurer", { name: recommended.insurer.trim() }), { color: COLORS.muted });
+    }
+    if (recommended.summary) {
+      layout.advance(4);
+      layout.paragraph(recommended.summary);
+    }
+    const keyNumbers = recommended.key_numbers ?? [];
+    if (keyNumbers.length > 0) {
+      layout.advance(4);
+      keyNumbers.forEach((metric) => {
+        const marker = formatCitationMarker(citations.register(metric.sources));
+        layout.paragraph(`${metric.label}: ${metric.value}${marker}`, { bullet: "•", indent: 6 });
+      });
+    }
+  }
+
+  const renderList = (title: string, entries: string[], bullet: string) => {
+    if (entries.length === 0) {
+      return;
+    }
+    layout.advance(6);
+    layout.ensureSpace(30);
+    layout.paragraph(title, { font: "bold", size: 10 });
+    entries.forEach((entry) => layout.paragraph(entry, { bullet, indent: 6 }));
+  };
+
+  renderList(layout.t("report.keyArguments"), reasons, "•");
+  renderList(layout.t("report.watchOut"), risks, "!");
+  renderList(layout.t("report.nextSteps"), nextSteps, "–");
+
+  if (!recommended && reasons.length === 0 && fallback) {
+    layout.advance(4);
+    layout.paragraph(fallback);
+  }
+};
+
+const renderCitations = (layout: ReportLayout, citations: ReportCitation[]) => {
+  if (citations.length === 0) {
+    return;
+  }
+
+  layout.heading(layout.t("report.sources"));
+  citations.forEach((citation) => {
+    const page = layout.t("report.citationPage", { page: citation.reference.page });
+    layout.paragraph(`[${citation.index}] ${citation.documentLabel}, ${page}`, {
+      font: "bold",
+      size: 8.5,
+    });
+    if (citation.reference.textSnippet) {
+      layout.paragraph(`„${truncate(citation.reference.textSnippet, SNIPPET_MAX_LENGTH)}”`, {
+        size: 8,
+        color: COLORS.muted,
+        indent: 14,
+      });
+    }
+    layout.advance(2);
+  });
+};
+
+/**
+ * Renders the comparison (metrics, section tables, AI summary and cited sources)
+ * into a branded PDF document ready to be shared with the client.
+ */
+export function renderComparisonReport(input: ComparisonReportInput): Uint8Array {
+  const generatedAt = input.generatedAt ?? new Date();
+  const layout = new ReportLayout(input.language ?? DEFAULT_LANGUAGE, input.fonts ?? null);
+  const { t } = layout;
+  const citations = new CitationRegistry(input.offers, t);
+
+  layout.writer.text(PAGE_MARGIN, layout.y, t("report.heading"), {
+    font: "bold",
+    size: 18,
+    color: COLORS.text,
+  });
+  layout.advance(26);
+
+  const details = [
+    input.clientName ? t("report.client", { name: input.clientName }) : null,
+    input.productType ? t("report.productType", { type: input.productType }) : null,
+    t("report.date", { date: formatDate(generatedAt, layout.language) }),
+    t("report.comparisonId", { id: input.comparisonId }),
+  ].filter((entry): entry is string => Boolean(entry));
+  details.forEach((entry) => layout.paragraph(entry, { size: 9, color: COLORS.muted }));
+  layout.advance(10);
+
+  renderMetrics(layout, input.metrics);
+
+  for (const section of input.sections) {
+    renderSectionTable(layout, section, input.offers, citations);
+  }
+
+  renderSummary(layout, input.summary, input.fallbackSummaryText, citations);
+  renderCitations(layout, citations.list());
+
+  return layout.finalize(generatedAt);
+}
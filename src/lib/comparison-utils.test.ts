@@ -1,6 +1,13 @@
 // @ts-nocheck
 import { describe, expect, it } from "bun:test";
-import { analyzeBestOffers, extractCalculationId, type ComparisonOffer } from "./comparison-utils";
+import {
+  analyzeBestOffers,
+  calculateComparisonMetrics,
+  extractCalculationId,
+  getNormalizedPremium,
+  type ComparisonOffer,
+} from "./comparison-utils";
+import { createCurrencyConverter } from "./exchange-rates";
 import { toComparisonAnalysis } from "@/types/comparison";
 
 describe("analyzeBestOffers", () => {
@@ -108,6 +115,166 @@ describe("analyzeBestOffers", () => {
     expect(badges.get("doc-3")).toContain("recommended");
     expect(badges.get("doc-2")).toContain("warning");
   });
+
+  it("ranks premiums paid in different cycles on an annual basis", () => {
+    const monthly = createOffer("doc-1", 120);
+    monthly.data.unified.payment_schedule = { normalized_cycles: ["monthly"], raw_mentions: [] };
+    const annual = createOffer("doc-2", 1200);
+    annual.data.unified.payment_schedule = { normalized_cycles: ["annual"], raw_mentions: [] };
+
+    const { badges, bestOfferIndex } = analyzeBestOffers([monthly, annual], null);
+
+    expect(bestOfferIndex).toBe(1);
+    expect(badges.get("doc-2")).toContain("lowest-price");
+    expect(badges.get("doc-1")).not.toContain("lowest-price");
+  });
+
+  it("recommends the highest weighted score when the AI gives no recommendation", () => {
+    const offers = [createOffer("doc-1", 100), createOffer("doc-2", 200)];
+    const scores = [
+      { offerId: "doc-1", total: 40, breakdown: [] },
+      { offerId: "doc-2", total: 75, breakdown: [] },
+    ];
+
+    const { badges, bestOfferIndex } = analyzeBestOffers(offers, null, null, null, scores);
+
+    expect(bestOfferIndex).toBe(1);
+    expect(badges.get("doc-2")).toContain("recommended");
+    expect(badges.get("doc-1")).toContain("lowest-price");
+  });
+
+  it("ranks premiums in the reporting currency and skips offers without a rate", () => {
+    const euro = createOffer("doc-1", 100);
+    euro.data.unified.currency = "EUR";
+    const zloty = createOffer("doc-2", 400);
+    const dollar = createOffer("doc-3", 50);
+    dollar.data.unified.currency = "USD";
+    const converter = createCurrencyConverter([{ currency: "EUR", rateToPln: 4.3 }]);
+
+    const { badges } = analyzeBestOffers([euro, zloty, dollar], null, null, converter);
+
+    expect(badges.get("doc-2")).toContain("lowest-price");
+    expect(badges.get("doc-1")).not.toContain("lowest-price");
+    expect(badges.get("doc-3")).not.toContain("lowest-price");
+  });
+});
+
+describe("getNormalizedPremium", () => {
+  const unified = (premium: number, extra: Record<string, unknown> = {}) => ({
+    unified: { total_premium_after_discounts: premium, ...extra },
+  });
+
+  it("annualizes premiums using the detected payment cycle", () => {
+    expect(
+      getNormalizedPremium(unified(120, { payment_schedule: { normalized_cycles: ["monthly"], raw_mentions: [] } })),
+    ).toEqual({
+      amount: 120,
+      originalCurrency: "PLN",
+      currency: "PLN",
+      exchangeRate: null,
+      cycle: "monthly",
+      annual: 1440,
+      monthly: 120,
+      isCycleAssumed: false,
+    });
+    expect(
+      getNormalizedPremium(unified(300, { payment_schedule: { normalized_cycles: ["quarterly"], raw_mentions: [] } })),
+    ).toMatchObject({ annual: 1200, monthly: 100 });
+    expect(
+      getNormalizedPremium(unified(600, { payment_schedule: { normalized_cycles: ["semiannual"], raw_mentions: [] } })),
+    ).toMatchObject({ cycle: "semiannual", annual: 1200 });
+  });
+
+  it("spreads a single payment over the policy period", () => {
+    expect(
+      getNormalizedPremium(
+        unified(2400, {
+          payment_schedule: { normalized_cycles: ["single"], raw_mentions: [] },
+          duration: { start: "01.01.2026", end: "31.12.2027" },
+        }),
+      ),
+    ).toMatchObject({ cycle: "single", annual: 1200, monthly: 100, isCycleAssumed: false });
+  });
+
+  it("treats premiums without a stated cycle as annual and marks the guess", () => {
+    expect(getNormalizedPremium(unified(1200))).toEqual({
+      amount: 1200,
+      originalCurrency: "PLN",
+      currency: "PLN",
+      exchangeRate: null,
+      cycle: null,
+      annual: 1200,
+      monthly: 100,
+      isCycleAssumed: true,
+    });
+    expect(getNormalizedPremium({ unified: { total_premium_after_discounts: "missing" } })).toBeNull();
+  });
+
+  it("converts premiums to the reporting currency and keeps the stated amount", () => {
+    const converter = createCurrencyConverter([{ currency: "EUR", rateToPln: 4.3 }]);
+    expect(getNormalizedPremium(unified(100, { currency: "EUR" }), converter)).toMatchObject({
+      amount: 100,
+      originalCurrency: "EUR",
+      currency: "PLN",
+      exchangeRate: 4.3,
+      annual: 430,
+    });
+    expect(getNormalizedPremium(unified(100, { currency: "USD" }), converter)).toMatchObject({
+      currency: "USD",
+      exchangeRate: null,
+      annual: 100,
+    });
+  });
+});
+
+describe("calculateComparisonMetrics", () => {
+  it("reports premiums on the requested basis", () => {
+    const offers = [
+      { id: "a", label: "A", insurer: "A", data: { unified: { total_premium_after_discounts: 100, payment_schedule: { normalized_cycles: ["monthly"] } } } },
+      { id: "b", label: "B", insurer: "B", data: { unified: { total_premium_after_discounts: 1500, payment_schedule: { normalized_cycles: ["annual"] } } } },
+    ];
+
+    const monthly = calculateComparisonMetrics(offers, "monthly");
+    expect(monthly.find((metric) => metric.key === "lowestPremium")).toMatchObject({
+      label: "Najniższa składka (miesięcznie)",
+      value: "100 PLN",
+    });
+    expect(calculateComparisonMetrics(offers).find((metric) => metric.key === "averagePremium")?.value).toBe(
+      `${(1350).toLocaleString("pl-PL")} PLN`,
+    );
+  });
+
+  it("converts premiums and coverage to the reporting currency", () => {
+    const offers = [
+      { id: "a", label: "A", insurer: "A", data: { unified: { total_premium_after_discounts: 100, currency: "EUR" }, coverage: { oc: { sum: 10000 } } } },
+      { id: "b", label: "B", insurer: "B", data: { unified: { total_premium_after_discounts: 500 }, coverage: { oc: { sum: 20000 } } } },
+    ];
+    const converter = createCurrencyConverter([{ currency: "EUR", rateToPln: 4.3 }]);
+
+    const metrics = calculateComparisonMetrics(offers, "annual", converter);
+    expect(metrics.find((metric) => metric.key === "lowestPremium")?.value).toBe("430 PLN");
+    expect(metrics.find((metric) => metric.key === "averagePremium")?.value).toBe("465 PLN");
+    expect(metrics.find((metric) => metric.key === "highestCoverage")?.value).toBe(
+      `${(43000).toLocaleString("pl-PL")} PLN`,
+    );
+  });
+
+  it("reports no data for amounts in different currencies without exchange rates", () => {
+    const offers = [
+      { id: "a", label: "A", insurer: "A", data: { unified: { total_premium_after_discounts: 100, currency: "EUR" }, coverage: { oc: { sum: 10000 } } } },
+      { id: "b", label: "B", insurer: "B", data: { unified: { total_premium_after_discounts: 500 }, coverage: { oc: { sum: 20000 } } } },
+    ];
+
+    const metrics = calculateComparisonMetrics(offers);
+    expect(metrics.find((metric) => metric.key === "lowestPremium")?.value).toBe("Brak danych");
+    expect(metrics.find((metric) => metric.key === "averagePremium")?.value).toBe("Brak danych");
+    expect(metrics.find((metric) => metric.key === "highestCoverage")?.value).toBe("Brak danych");
+
+    const euroOnly = calculateComparisonMetrics([offers[0]]);
+    expect(euroOnly.find((metric) => metric.key === "highestCoverage")?.value).toBe(
+      `${(10000).toLocaleString("pl-PL")} EUR`,
+    );
+  });
 });
 
 describe("extractCalculationId", () => {
@@ -3,6 +3,24 @@ import type {
   ComparisonAnalysisOffer,
   ComparisonAnalysisSection,
 } from "@/types/comparison";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import { createTranslator, DEFAULT_LANGUAGE, getLocale, translate, type Language } from "@/lib/i18n";
+import type { OfferScore } from "@/lib/offer-scoring";
+import {
+  getNormalizedPremium,
+  getOfferCurrency,
+  getPaymentCycles,
+  type NormalizedPaymentCycle,
+  type NormalizedPremium,
+} from "../../supabase/functions/_shared/premium/mod.ts";
+
+export {
+  getNormalizedPremium,
+  getOfferCurrency,
+  getPremium,
+  type NormalizedPaymentCycle,
+  type NormalizedPremium,
+} from "../../supabase/functions/_shared/premium/mod.ts";
 
 export interface ExtractedOfferData {
   insurer?: string | null;
@@ -26,30 +44,31 @@ export interface ExtractedOfferData {
       normalized_cycles?: Array<string> | null;
       raw_mentions?: Array<string> | null;
     } | null;
+    base_contracts?: Array<{ name?: string; sum?: number | string | "missing" | null }> | null;
     assistance?: Array<string | { name?: string }> | null;
+    exclusions?: Array<unknown> | null;
+    waiting_periods?: Array<{ name?: string; days?: number | null }> | null;
     duration?: {
       start?: string | "missing" | null;
       end?: string | "missing" | null;
       variant?: string | null;
     } | null;
     discounts?: Array<unknown> | null;
+    currency?: string | null;
+    field_sources?: Record<string, unknown> | null;
+    field_confidence?: Record<string, unknown> | null;
   } | null;
   assistance?: Array<string | { name?: string }> | null;
   deductible?: {
     amount?: number | string | null;
     currency?: string | null;
   } | null;
+  /** Product type whose template drove the extraction, see `@/lib/product-templates`. */
+  product_template?: string | null;
+  product_fields?: Record<string, number | string | null> | null;
   [key: string]: unknown;
 }
 
-export type NormalizedPaymentCycle =
-  | "monthly"
-  | "annual"
-  | "quarterly"
-  | "semiannual"
-  | "single"
-  | "other";
-
 export interface PaymentDisplayInfo {
   normalizedCycles: NormalizedPaymentCycle[];
   primaryLabel: string;
@@ -132,124 +151,18 @@ const toNumber = (value: unknown): number | null => {
   return null;
 };
 
-const PAYMENT_LABELS: Record<Exclude<NormalizedPaymentCycle, "other">, string> = {
-  monthly: "miesięczna",
-  annual: "roczna",
-  quarterly: "kwartalna",
-  semiannual: "półroczna",
-  single: "jednorazowa",
-};
-
-const PAYMENT_REGEXES: Array<{ pattern: RegExp; cycle: Exclude<NormalizedPaymentCycle, "other"> }> = [
-  { pattern: /(miesi[aą]c|co\s+miesi[aą]c|monthly|12\s*rat)/i, cycle: "monthly" },
-  { pattern: /(roczn|co\s+rok|annual|yearly|12\s*miesi[aą]cy)/i, cycle: "annual" },
-  { pattern: /(kwarta|quarter)/i, cycle: "quarterly" },
-  { pattern: /(półroc|semi-?annual|co\s+pół\s+roku)/i, cycle: "semiannual" },
-  { pattern: /(jednoraz|z\s+góry|single\s+payment)/i, cycle: "single" },
-];
-
-const detectNormalizedPaymentCycle = (value: string): NormalizedPaymentCycle | null => {
-  for (const entry of PAYMENT_REGEXES) {
-    if (entry.pattern.test(value)) {
-      return entry.cycle;
-    }
-  }
-  return null;
-};
-
-const normalizePaymentLabel = (cycle: NormalizedPaymentCycle, fallback?: string): string => {
-  if (cycle !== "other") {
-    return PAYMENT_LABELS[cycle] ?? fallback ?? cycle;
-  }
-  return fallback ?? "inna";
-};
-
-const collectPotentialPaymentValues = (value: unknown): string[] => {
-  if (!value) {
-    return [];
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    return trimmed ? [trimmed] : [];
-  }
-  if (Array.isArray(value)) {
-    return value.flatMap((entry) => collectPotentialPaymentValues(entry));
-  }
-  if (typeof value === "object") {
-    const record = value as Record<string, unknown>;
-    const keysToInspect = [
-      "frequency",
-      "frequencies",
-      "cycle",
-      "cycles",
-      "option",
-      "options",
-      "label",
-      "name",
-      "type",
-      "billing_period",
-      "payment_frequency",
-      "paymentCycle",
-      "payment_schedule",
-      "plan",
-    ];
-    return keysToInspect.flatMap((key) => collectPotentialPaymentValues(record[key]));
-  }
-  return [];
-};
+const normalizePaymentLabel = (cycle: NormalizedPaymentCycle, language: Language): string =>
+  translate(language, `paymentCycle.${cycle}`);
 
 export const getPaymentDisplayInfo = (
   extractedData: ExtractedOfferData | null | undefined,
+  language: Language = DEFAULT_LANGUAGE,
 ): PaymentDisplayInfo => {
-  const normalizedSet = new Set<NormalizedPaymentCycle>();
-  const rawMentions = new Set<string>();
-
-  const considerValue = (input: string) => {
-    const cleaned = input.replace(/\s+/g, " ").trim();
-    if (!cleaned) {
-      return;
-    }
-    rawMentions.add(cleaned);
-    const detected = detectNormalizedPaymentCycle(cleaned.toLowerCase());
-    if (detected) {
-      normalizedSet.add(detected);
-    }
-  };
-
-  const unifiedSchedule = extractedData?.unified?.payment_schedule;
-  if (unifiedSchedule) {
-    if (Array.isArray(unifiedSchedule.normalized_cycles)) {
-      unifiedSchedule.normalized_cycles.forEach((cycle) => {
-        if (typeof cycle === "string" && cycle.trim().length > 0) {
-          const normalized = detectNormalizedPaymentCycle(cycle.toLowerCase()) ?? "other";
-          normalizedSet.add(normalized);
-        }
-      });
-    }
-    if (Array.isArray(unifiedSchedule.raw_mentions)) {
-      unifiedSchedule.raw_mentions
-        .filter((mention): mention is string => typeof mention === "string")
-        .forEach((mention) => considerValue(mention));
-    }
-  }
-
-  const fallbackCandidates: unknown[] = [
-    (extractedData as Record<string, unknown> | null)?.payment,
-    extractedData?.premium && (extractedData.premium as Record<string, unknown>).payment_frequency,
-    extractedData?.premium && (extractedData.premium as Record<string, unknown>).payment_schedule,
-    (extractedData as Record<string, unknown> | null)?.payment_schedule,
-  ];
-
-  fallbackCandidates.forEach((candidate) => {
-    collectPotentialPaymentValues(candidate).forEach((value) => considerValue(value));
-  });
-
-  const normalizedCycles = Array.from(normalizedSet);
-  const rawList = Array.from(rawMentions);
+  const { normalizedCycles, rawMentions: rawList } = getPaymentCycles(extractedData);
 
   const normalizedLabels = normalizedCycles
     .filter((cycle) => cycle !== "other")
-    .map((cycle) => normalizePaymentLabel(cycle as Exclude<NormalizedPaymentCycle, "other">));
+    .map((cycle) => normalizePaymentLabel(cycle, language));
 
   let primaryLabel = "—";
   let secondaryLabels: string[] = [];
@@ -257,12 +170,12 @@ export const getPaymentDisplayInfo = (
   if (normalizedLabels.length === 1 && rawList.length <= 1) {
     primaryLabel = normalizedLabels[0];
   } else if (normalizedLabels.length > 1) {
-    primaryLabel = "różne";
+    primaryLabel = translate(language, "paymentCycle.various");
     secondaryLabels = [...new Set(normalizedLabels)];
   } else if (rawList.length === 1) {
     primaryLabel = rawList[0];
   } else if (rawList.length > 1) {
-    primaryLabel = "różne";
+    primaryLabel = translate(language, "paymentCycle.various");
     secondaryLabels = [...new Set(rawList)];
   }
 
@@ -382,6 +295,8 @@ export function analyzeBestOffers(
   offers: ComparisonOffer[],
   comparisonData: ComparisonAnalysis | null,
   recommendedContext?: RecommendedOfferContext | null,
+  converter?: CurrencyConverter | null,
+  scores?: OfferScore[] | null,
 ): {
   badges: Map<string, OfferBadgeKey[]>;
   bestOfferIndex: number;
@@ -389,7 +304,8 @@ export function analyzeBestOffers(
   const badges = new Map<string, OfferBadgeKey[]>();
   let bestOfferIndex = resolveRecommendedOfferIndex(offers, recommendedContext);
 
-  const premiums = offers.map((offer) => getPremium(offer.data));
+  // Annualized so that offers paid in different cycles are ranked fairly.
+  const premiums = offers.map((offer) => getPremiumForBasis(offer.data, "annual", converter));
   const lowestPremium = premiums.reduce<number>((acc, premium) => {
     if (premium !== null && (acc === Infinity || premium < acc)) {
       return premium;
@@ -468,7 +384,17 @@ export function analyzeBestOffers(
   });
 
   if (bestOfferIndex === -1) {
-    bestOfferIndex = premiums.findIndex((premium) => premium !== null && premium === lowestPremium);
+    // Without an AI recommendation the weighted score decides, then the lowest premium.
+    if (scores && scores.length === offers.length) {
+      bestOfferIndex = scores.reduce(
+        (best, score, idx) =>
+          score.total !== null && (best === -1 || score.total > (scores[best].total ?? -Infinity)) ? idx : best,
+        -1,
+      );
+    }
+    if (bestOfferIndex === -1) {
+      bestOfferIndex = premiums.findIndex((premium) => premium !== null && premium === lowestPremium);
+    }
     if (bestOfferIndex >= 0) {
       const badgesForBest = badges.get(offers[bestOfferIndex].id) ?? [];
       badgesForBest.push("recommended");
@@ -503,26 +429,22 @@ export function extractCalculationId(extractedData: ExtractedOfferData | null |
   return undefined;
 }
 
+export type PremiumBasis = "annual" | "monthly";
+
 /**
- * Get premium from extracted data (supports both old and new format)
+ * Premium on `basis` for ranking and averages. With a `converter`, offers whose currency has
+ * no exchange rate yield null: they cannot be compared with the others.
  */
-export function getPremium(extractedData: ExtractedOfferData | null | undefined): number | null {
-  const unifiedPremium = extractedData?.unified?.total_premium_after_discounts;
-  if (unifiedPremium === "missing") {
+export function getPremiumForBasis(
+  extractedData: ExtractedOfferData | null | undefined,
+  basis: PremiumBasis,
+  converter?: CurrencyConverter | null,
+): number | null {
+  const normalized = getNormalizedPremium(extractedData, converter);
+  if (!normalized || (converter && normalized.currency !== converter.reportingCurrency)) {
     return null;
   }
-  const unifiedNumber = toNumber(unifiedPremium);
-  if (unifiedNumber !== null) {
-    return unifiedNumber;
-  }
-
-  const legacyPremium = extractedData?.premium?.total;
-  const legacyNumber = toNumber(legacyPremium);
-  if (legacyNumber !== null) {
-    return legacyNumber;
-  }
-
-  return null;
+  return normalized[basis];
 }
 
 /**
@@ -531,3 +453,100 @@ export function getPremium(extractedData: ExtractedOfferData | null | undefined)
 export function hasUnifiedFormat(extractedData: ExtractedOfferData | null | undefined): boolean {
   return Boolean(extractedData?.unified);
 }
+
+export type ComparisonMetricKey = "offerCount" | "lowestPremium" | "highestCoverage" | "averagePremium";
+
+export interface ComparisonMetric {
+  key: ComparisonMetricKey;
+  label: string;
+  value: string;
+}
+
+interface CurrencyAmount {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Brings offer amounts to one currency: with a `converter` amounts without an exchange rate are
+ * left out, without one the amounts are only usable when every offer is quoted in the same
+ * currency. Null when they cannot be compared.
+ */
+const toCommonCurrency = (
+  entries: CurrencyAmount[],
+  converter?: CurrencyConverter | null,
+): { amounts: number[]; currency: string } | null => {
+  if (converter) {
+    const amounts = entries
+      .map((entry) => converter.convert(entry.amount, entry.currency)?.amount ?? null)
+      .filter((amount): amount is number => amount !== null);
+    return { amounts, currency: converter.reportingCurrency };
+  }
+
+  const currencies = new Set(entries.map((entry) => entry.currency));
+  if (currencies.size > 1) {
+    return null;
+  }
+  return { amounts: entries.map((entry) => entry.amount), currency: entries[0]?.currency ?? "PLN" };
+};
+
+/**
+ * Headline figures shown above the comparison (metrics panel and PDF report). Premiums are
+ * normalized to `basis` so offers paid in different cycles are comparable; amounts in different
+ * currencies are converted with `converter`, and reported as missing when there is none.
+ */
+export function calculateComparisonMetrics(
+  offers: ComparisonOffer[],
+  basis: PremiumBasis = "annual",
+  converter?: CurrencyConverter | null,
+  language: Language = DEFAULT_LANGUAGE,
+): ComparisonMetric[] {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const premiums = toCommonCurrency(
+    offers
+      .map((offer) => getNormalizedPremium(offer.data))
+      .filter((premium): premium is NormalizedPremium => premium !== null)
+      .map((premium) => ({ amount: premium[basis], currency: premium.originalCurrency })),
+    converter,
+  );
+  const coverages = toCommonCurrency(
+    offers.flatMap((offer) => {
+      const sum = toNumber(offer.data?.coverage?.oc?.sum);
+      return sum === null ? [] : [{ amount: sum, currency: getOfferCurrency(offer.data) }];
+    }),
+    converter,
+  );
+
+  const premiumAmounts = premiums?.amounts ?? [];
+  const lowestPremium = premiumAmounts.length > 0 ? Math.min(...premiumAmounts) : 0;
+  const avgPremium =
+    premiumAmounts.length > 0 ? premiumAmounts.reduce((a, b) => a + b, 0) / premiumAmounts.length : 0;
+  const highestCoverage = coverages && coverages.amounts.length > 0 ? Math.max(...coverages.amounts) : 0;
+  const basisLabel = t(`premiumBasis.${basis}`);
+
+  return [
+    {
+      key: "offerCount",
+      label: t("metrics.offerCount"),
+      value: offers.length.toString(),
+    },
+    {
+      key: "lowestPremium",
+      label: t("metrics.lowestPremium", { basis: basisLabel }),
+      value: lowestPremium > 0 ? `${lowestPremium.toLocaleString(locale)} ${premiums.currency}` : t("metrics.noData"),
+    },
+    {
+      key: "highestCoverage",
+      label: t("metrics.highestCoverage"),
+      value:
+        highestCoverage > 0 ? `${highestCoverage.toLocaleString(locale)} ${coverages.currency}` : t("metrics.noData"),
+    },
+    {
+      key: "averagePremium",
+      label: t("metrics.averagePremium", { basis: basisLabel }),
+      value:
+        avgPremium > 0 ? `${Math.round(avgPremium).toLocaleString(locale)} ${premiums.currency}` : t("metrics.noData"),
+    },
+  ];
+}
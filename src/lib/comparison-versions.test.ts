@@ -0,0 +1,91 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { diffComparisonVersions, findPreviousVersion, parseDocumentRevisions } from "./comparison-versions";
+
+const revision = (id: string, hash: string, corrections = 0) => ({
+  document_id: id,
+  file_name: `${id}.pdf`,
+  extracted_at: null,
+  corrections_count: corrections,
+  data_hash: hash,
+});
+
+const version = (number: number, overrides = {}) => ({
+  id: `v${number}`,
+  version: number,
+  createdAt: "2026-10-18T10:00:00.000Z",
+  documentIds: ["a", "b"],
+  documentRevisions: [revision("a", "h-a"), revision("b", "h-b")],
+  comparisonData: { key_highlights: ["PZU ma niższą składkę"] },
+  comparisonModel: "google/gemini-2.5-flash",
+  comparisonPrompt: "prompt",
+  summaryJson: { recommended_offer: { name: "PZU" } },
+  summaryText: null,
+  summaryModel: "google/gemini-2.5-flash",
+  summaryPrompt: "summary prompt",
+  summaryGeneratedAt: null,
+  ...overrides,
+});
+
+describe("parseDocumentRevisions", () => {
+  it("skips entries without a document id", () => {
+    expect(parseDocumentRevisions([{ document_id: "a", data_hash: "h" }, { file_name: "x.pdf" }, null])).toEqual([
+      { document_id: "a", file_name: null, extracted_at: null, corrections_count: 0, data_hash: "h" },
+    ]);
+    expect(parseDocumentRevisions(null)).toEqual([]);
+  });
+});
+
+describe("diffComparisonVersions", () => {
+  it("reports nothing for identical runs", () => {
+    expect(diffComparisonVersions(version(1), version(2))).toEqual([]);
+  });
+
+  it("lists document, prompt and outcome changes", () => {
+    const changes = diffComparisonVersions(
+      version(1),
+      version(2, {
+        documentRevisions: [revision("a", "h-a2", 1), revision("c", "h-c")],
+        comparisonPrompt: "new prompt",
+        comparisonData: { key_highlights: ["Warta ma szerszy assistance"] },
+        summaryJson: { recommended_offer: { name: "Warta" } },
+      }),
+    );
+
+    expect(changes.map((change) => change.description)).toEqual([
+      "Poprawiono dane oferty a.pdf (poprawki: 1)",
+      "Dodano ofertę: c.pdf",
+      "Usunięto ofertę: b.pdf",
+      "Zmieniono instrukcje porównania ofert",
+      "Rekomendacja: PZU → Warta",
+      "Nowa różnica: Warta ma szerszy assistance",
+      "Usunięta różnica: PZU ma niższą składkę",
+    ]);
+  });
+
+  it("compares the computed highlights in the UI language", () => {
+    const changes = diffComparisonVersions(
+      version(1, { comparisonData: { key_highlight_messages: [{ code: "cheapest_offers", params: { offers: ["PZU"] } }] } }),
+      version(2, { comparisonData: { key_highlight_messages: [{ code: "cheapest_offers", params: { offers: ["Warta"] } }] } }),
+      "en",
+    );
+
+    expect(changes.map((change) => change.description)).toEqual([
+      "New difference: Lowest annual premium: Warta.",
+      "Removed difference: Lowest annual premium: PZU.",
+    ]);
+  });
+
+  it("ignores the summary of a run that has not finished yet", () => {
+    const changes = diffComparisonVersions(version(1), version(2, { summaryJson: null, summaryModel: null, summaryPrompt: null }));
+    expect(changes).toEqual([]);
+  });
+});
+
+describe("findPreviousVersion", () => {
+  it("returns the closest older run", () => {
+    const versions = [version(3), version(1), version(2)];
+    expect(findPreviousVersion(versions, versions[0])?.version).toBe(2);
+    expect(findPreviousVersion(versions, versions[1])).toBeNull();
+  });
+});
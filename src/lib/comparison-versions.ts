@@ -0,0 +1,194 @@
+import type { Json } from "@/integrations/supabase/types";
+import { formatAnalysisMessages } from "@/lib/analysis-messages";
+import { createTranslator, DEFAULT_LANGUAGE, type Language, type Translate } from "@/lib/i18n";
+import { DEFAULT_SUMMARY_STYLE, getStyledSummary } from "@/lib/summary-styles";
+import { parseAnalysisMessages } from "@/types/comparison";
+
+/**
+ * Each run of the comparison pipeline is stored in `comparison_versions`: compare-offers opens
+ * the version and generate-summary completes it with the summary.
+ */
+
+export type DocumentRevision = {
+  document_id: string;
+  file_name: string | null;
+  extracted_at: string | null;
+  corrections_count: number;
+  data_hash: string;
+};
+
+export interface ComparisonVersion {
+  id: string;
+  version: number;
+  createdAt: string;
+  documentIds: string[];
+  documentRevisions: DocumentRevision[];
+  comparisonData: Json | null;
+  comparisonModel: string | null;
+  comparisonPrompt: string | null;
+  summaryJson: Json | null;
+  summaryText: string | null;
+  summaryModel: string | null;
+  summaryPrompt: string | null;
+  summaryGeneratedAt: string | null;
+}
+
+export type VersionChangeKind = "documents" | "model" | "prompt" | "needs" | "recommendation" | "highlights";
+
+export interface VersionChange {
+  kind: VersionChangeKind;
+  description: string;
+}
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+export const parseDocumentRevisions = (value: unknown): DocumentRevision[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    const record = asRecord(entry);
+    const documentId = toText(record?.document_id);
+    if (!record || !documentId) {
+      return [];
+    }
+    return [
+      {
+        document_id: documentId,
+        file_name: toText(record.file_name),
+        extracted_at: toText(record.extracted_at),
+        corrections_count: typeof record.corrections_count === "number" ? record.corrections_count : 0,
+        data_hash: toText(record.data_hash) ?? "",
+      },
+    ];
+  });
+};
+
+const revisionLabel = (revision: DocumentRevision) => revision.file_name ?? revision.document_id;
+
+const recommendedOfferName = (summaryJson: Json | null): string | null => {
+  const recommended = asRecord(asRecord(getStyledSummary(summaryJson, DEFAULT_SUMMARY_STYLE))?.recommended_offer);
+  return toText(recommended?.name) ?? toText(recommended?.insurer);
+};
+
+const keyHighlights = (comparisonData: Json | null, t: Translate, language: Language): string[] => {
+  const record = asRecord(comparisonData);
+  const highlights = record?.key_highlights;
+  return [
+    ...formatAnalysisMessages(parseAnalysisMessages(record?.key_highlight_messages), t, language),
+    ...(Array.isArray(highlights) ? highlights.filter((entry): entry is string => typeof entry === "string") : []),
+  ];
+};
+
+const clientNeeds = (comparisonData: Json | null): string =>
+  JSON.stringify(asRecord(comparisonData)?.client_needs ?? null);
+
+const diffDocuments = (previous: ComparisonVersion, current: ComparisonVersion, t: Translate): VersionChange[] => {
+  const previousById = new Map(previous.documentRevisions.map((revision) => [revision.document_id, revision]));
+  const currentIds = new Set(current.documentRevisions.map((revision) => revision.document_id));
+  const changes: VersionChange[] = [];
+
+  for (const revision of current.documentRevisions) {
+    const before = previousById.get(revision.document_id);
+    if (!before) {
+      changes.push({ kind: "documents", description: t("versionChange.offerAdded", { name: revisionLabel(revision) }) });
+    } else if (before.data_hash !== revision.data_hash) {
+      const corrections = revision.corrections_count - before.corrections_count;
+      changes.push({
+        kind: "documents",
+        description:
+          corrections > 0
+            ? t("versionChange.offerCorrected", { name: revisionLabel(revision), count: corrections })
+            : t("versionChange.offerDataChanged", { name: revisionLabel(revision) }),
+      });
+    }
+  }
+
+  for (const revision of previous.documentRevisions) {
+    if (!currentIds.has(revision.document_id)) {
+      changes.push({ kind: "documents", description: t("versionChange.offerRemoved", { name: revisionLabel(revision) }) });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Lists what changed between two runs: the compared documents and their data, the model and
+ * prompts, the client's needs and the AI outcome (recommendation and key highlights).
+ */
+export const diffComparisonVersions = (
+  previous: ComparisonVersion,
+  current: ComparisonVersion,
+  language: Language = DEFAULT_LANGUAGE,
+): VersionChange[] => {
+  const t = createTranslator(language);
+  const changes = diffDocuments(previous, current, t);
+
+  if (previous.comparisonModel !== current.comparisonModel) {
+    changes.push({
+      kind: "model",
+      description: t("versionChange.comparisonModel", {
+        previous: previous.comparisonModel ?? t("versionChange.noModel"),
+        current: current.comparisonModel ?? t("versionChange.noModel"),
+      }),
+    });
+  }
+  if (previous.summaryModel !== current.summaryModel && previous.summaryModel && current.summaryModel) {
+    changes.push({
+      kind: "model",
+      description: t("versionChange.summaryModel", { previous: previous.summaryModel, current: current.summaryModel }),
+    });
+  }
+  if (previous.comparisonPrompt !== current.comparisonPrompt) {
+    changes.push({ kind: "prompt", description: t("versionChange.comparisonPrompt") });
+  }
+  if (previous.summaryPrompt !== current.summaryPrompt && previous.summaryPrompt && current.summaryPrompt) {
+    changes.push({ kind: "prompt", description: t("versionChange.summaryPrompt") });
+  }
+
+  if (clientNeeds(previous.comparisonData) !== clientNeeds(current.comparisonData)) {
+    changes.push({ kind: "needs", description: t("versionChange.needs") });
+  }
+
+  const previousRecommendation = recommendedOfferName(previous.summaryJson);
+  const currentRecommendation = recommendedOfferName(current.summaryJson);
+  if (previousRecommendation && currentRecommendation && previousRecommendation !== currentRecommendation) {
+    changes.push({
+      kind: "recommendation",
+      description: t("versionChange.recommendation", { previous: previousRecommendation, current: currentRecommendation }),
+    });
+  }
+
+  const previousHighlights = keyHighlights(previous.comparisonData, t, language);
+  const currentHighlights = keyHighlights(current.comparisonData, t, language);
+  for (const highlight of currentHighlights) {
+    if (!previousHighlights.includes(highlight)) {
+      changes.push({ kind: "highlights", description: t("versionChange.highlightAdded", { text: highlight }) });
+    }
+  }
+  for (const highlight of previousHighlights) {
+    if (!currentHighlights.includes(highlight)) {
+      changes.push({ kind: "highlights", description: t("versionChange.highlightRemoved", { text: highlight }) });
+    }
+  }
+
+  return changes;
+};
+
+/** The run a version is compared against: the closest older version, if any. */
+export const findPreviousVersion = (
+  versions: ComparisonVersion[],
+  current: ComparisonVersion,
+): ComparisonVersion | null =>
+  versions
+    .filter((version) => version.version < current.version)
+    .reduce<ComparisonVersion | null>(
+      (closest, version) => (!closest || version.version > closest.version ? version : closest),
+      null,
+    );
@@ -0,0 +1,20 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { hashFileContent } from "./content-hash";
+
+describe("hashFileContent", () => {
+  it("returns the hex SHA-256 of the content", async () => {
+    expect(await hashFileContent(new File(["abc"], "a.pdf"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+
+  it("ignores the file name", async () => {
+    const first = await hashFileContent(new File(["oferta"], "a.pdf"));
+    const renamed = await hashFileContent(new File(["oferta"], "b.pdf"));
+    const changed = await hashFileContent(new File(["oferta 2"], "a.pdf"));
+
+    expect(renamed).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+});
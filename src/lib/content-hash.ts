@@ -0,0 +1,10 @@
+/**
+ * Hex SHA-256 of a file's bytes, stored as `documents.content_hash` so an identical upload can
+ * reuse the existing document instead of being uploaded and extracted again.
+ */
+export async function hashFileContent(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
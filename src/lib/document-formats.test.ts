@@ -0,0 +1,26 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { detectDocumentFormat, resolveDocumentMimeType } from "./document-formats";
+
+describe("detectDocumentFormat", () => {
+  it("prefers the reported MIME type", () => {
+    expect(detectDocumentFormat({ name: "oferta", type: "application/pdf" })).toBe("pdf");
+    expect(detectDocumentFormat({ name: "zdjecie.bin", type: "image/jpeg" })).toBe("jpg");
+  });
+
+  it("falls back to the extension when the browser reports no type", () => {
+    expect(detectDocumentFormat({ name: "IMG_1234.HEIC", type: "" })).toBe("heic");
+    expect(detectDocumentFormat({ name: "oferta.docx", type: "" })).toBe("docx");
+  });
+
+  it("rejects unsupported files", () => {
+    expect(detectDocumentFormat({ name: "notatki.txt", type: "text/plain" })).toBeNull();
+  });
+});
+
+describe("resolveDocumentMimeType", () => {
+  it("returns the canonical MIME type of the detected format", () => {
+    expect(resolveDocumentMimeType({ name: "IMG_1234.heic", type: "" })).toBe("image/heic");
+    expect(resolveDocumentMimeType({ name: "scan.jpeg", type: "image/jpg" })).toBe("image/jpeg");
+  });
+});
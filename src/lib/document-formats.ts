@@ -0,0 +1,67 @@
+export type DocumentFormat = "pdf" | "docx" | "doc" | "png" | "jpg" | "heic";
+
+interface DocumentFormatDefinition {
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+}
+
+/**
+ * Offer formats accepted by the extraction pipeline. Keep in sync with
+ * `supabase/functions/extract-insurance-data/input-formats.ts`.
+ */
+export const DOCUMENT_FORMATS: Record<DocumentFormat, DocumentFormatDefinition> = {
+  pdf: { label: "PDF", mimeTypes: ["application/pdf"], extensions: [".pdf"] },
+  docx: {
+    label: "DOCX",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+  },
+  doc: { label: "DOC", mimeTypes: ["application/msword"], extensions: [".doc"] },
+  png: { label: "PNG", mimeTypes: ["image/png"], extensions: [".png"] },
+  jpg: { label: "JPG", mimeTypes: ["image/jpeg", "image/jpg"], extensions: [".jpg", ".jpeg"] },
+  heic: { label: "HEIC", mimeTypes: ["image/heic", "image/heif"], extensions: [".heic", ".heif"] },
+};
+
+const FORMAT_ENTRIES = Object.entries(DOCUMENT_FORMATS) as Array<[DocumentFormat, DocumentFormatDefinition]>;
+
+/** Value for the `accept` attribute of file inputs. */
+export const DOCUMENT_ACCEPT_ATTRIBUTE = FORMAT_ENTRIES.flatMap(([, definition]) => [
+  ...definition.extensions,
+  ...definition.mimeTypes,
+]).join(",");
+
+export const SUPPORTED_FORMAT_LABELS = FORMAT_ENTRIES.map(([, definition]) => definition.label).join(", ");
+
+const getExtension = (fileName: string): string => {
+  const lastDot = fileName.lastIndexOf(".");
+  return lastDot >= 0 ? fileName.slice(lastDot).toLowerCase() : "";
+};
+
+/**
+ * Detects the format by MIME type first and falls back to the extension, since browsers
+ * often report an empty type for HEIC photos and Word files.
+ */
+export function detectDocumentFormat(file: Pick<File, "name" | "type">): DocumentFormat | null {
+  const mimeType = file.type?.toLowerCase().trim();
+  if (mimeType) {
+    const byMime = FORMAT_ENTRIES.find(([, definition]) => definition.mimeTypes.includes(mimeType));
+    if (byMime) {
+      return byMime[0];
+    }
+  }
+
+  const extension = getExtension(file.name);
+  const byExtension = FORMAT_ENTRIES.find(([, definition]) => definition.extensions.includes(extension));
+  return byExtension ? byExtension[0] : null;
+}
+
+export function isSupportedDocumentFile(file: Pick<File, "name" | "type">): boolean {
+  return detectDocumentFormat(file) !== null;
+}
+
+/** Canonical MIME type stored on the document row, so the server never sees an empty type. */
+export function resolveDocumentMimeType(file: Pick<File, "name" | "type">): string | null {
+  const format = detectDocumentFormat(file);
+  return format ? DOCUMENT_FORMATS[format].mimeTypes[0] : file.type || null;
+}
@@ -0,0 +1,53 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { createCurrencyConverter, parseExchangeRateFile } from "./exchange-rates";
+
+describe("createCurrencyConverter", () => {
+  const rates = [
+    { currency: "EUR", rateToPln: 4.3 },
+    { currency: "USD", rateToPln: 4 },
+  ];
+
+  it("converts through PLN into the reporting currency", () => {
+    const toPln = createCurrencyConverter(rates);
+    expect(toPln.convert(100, "EUR")).toEqual({ amount: 430, rate: 4.3 });
+    expect(toPln.convert(100, "PLN")).toEqual({ amount: 100, rate: 1 });
+
+    const toEur = createCurrencyConverter(rates, "EUR");
+    expect(toEur.convert(430, "PLN")).toEqual({ amount: 100, rate: 1 / 4.3 });
+    expect(toEur.convert(43, "USD")?.amount).toBe(40);
+  });
+
+  it("returns null when a rate is missing", () => {
+    expect(createCurrencyConverter(rates).convert(100, "GBP")).toBeNull();
+    expect(createCurrencyConverter(rates, "CHF").convert(100, "PLN")).toBeNull();
+  });
+});
+
+describe("parseExchangeRateFile", () => {
+  it("reads semicolon separated files with a header and decimal commas", () => {
+    const { rates, errors } = parseExchangeRateFile("waluta;kurs;data\nEUR;4,3012;01.10.2026\nusd;3,95;2026-10-01\nPLN;1\n");
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { currency: "EUR", rateToPln: 4.3012, validOn: "2026-10-01" },
+      { currency: "USD", rateToPln: 3.95, validOn: "2026-10-01" },
+    ]);
+  });
+
+  it("reads JSON lists and maps", () => {
+    expect(parseExchangeRateFile('[{"code":"CHF","mid":"4.71","date":"2026-10-01"}]').rates).toEqual([
+      { currency: "CHF", rateToPln: 4.71, validOn: "2026-10-01" },
+    ]);
+    expect(parseExchangeRateFile('{"EUR": 4.3, "GBP": 5.1}').rates.map((rate) => rate.currency)).toEqual(["EUR", "GBP"]);
+  });
+
+  it("reports invalid rows and keeps the valid ones", () => {
+    const { rates, errors } = parseExchangeRateFile("EUR,4.3\nEURO,4.3\nGBP,-1");
+    expect(rates).toEqual([{ currency: "EUR", rateToPln: 4.3, validOn: null }]);
+    expect(errors).toHaveLength(2);
+    expect(parseExchangeRateFile("EUR,4.3\nEURO,4.3\nGBP,-1", "en").errors).toEqual([
+      "Line 2: invalid currency code “EURO”",
+      "Line 3: invalid rate for GBP",
+    ]);
+  });
+});
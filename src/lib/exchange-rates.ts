@@ -0,0 +1,145 @@
+import { createTranslator, DEFAULT_LANGUAGE, type Language, type Translate } from "@/lib/i18n";
+import { BASE_CURRENCY, type ExchangeRate } from "../../supabase/functions/_shared/premium/mod.ts";
+
+/**
+ * Exchange rates maintained by the broker (typed in or imported from a file). Conversion to the
+ * comparison's reporting currency lives in supabase/functions/_shared/premium, which the
+ * comparison engine uses too, so the result page and the server rank prices alike.
+ */
+
+export {
+  BASE_CURRENCY,
+  createCurrencyConverter,
+  type CurrencyConversion,
+  type CurrencyConverter,
+  type ExchangeRate,
+} from "../../supabase/functions/_shared/premium/mod.ts";
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export const isCurrencyCode = (value: string): boolean => CURRENCY_CODE_PATTERN.test(value);
+
+export interface ParsedExchangeRateFile {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+const parseRateValue = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const parsed = Number(value.trim().replace(/\s+/g, "").replace(",", "."));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseRateDate = (value: unknown): string | null => {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return trimmed;
+  }
+  const polish = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  return polish ? `${polish[3]}-${polish[2].padStart(2, "0")}-${polish[1].padStart(2, "0")}` : null;
+};
+
+const toRate = (
+  currencyValue: unknown,
+  rateValue: unknown,
+  dateValue: unknown,
+  label: string,
+  errors: string[],
+  t: Translate,
+): ExchangeRate | null => {
+  const currency = typeof currencyValue === "string" ? currencyValue.trim().toUpperCase() : "";
+  if (currency === BASE_CURRENCY) {
+    return null;
+  }
+  if (!isCurrencyCode(currency)) {
+    errors.push(t("rateFile.invalidCurrency", { label, currency: String(currencyValue ?? "") }));
+    return null;
+  }
+  const rateToPln = parseRateValue(rateValue);
+  if (rateToPln === null) {
+    errors.push(t("rateFile.invalidRate", { label, currency }));
+    return null;
+  }
+  return { currency, rateToPln, validOn: parseRateDate(dateValue) };
+};
+
+const parseJsonRates = (content: string, errors: string[], t: Translate): ExchangeRate[] => {
+  const parsed = JSON.parse(content) as unknown;
+
+  if (Array.isArray(parsed)) {
+    return parsed
+      .map((entry, index) => {
+        const record = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+        return toRate(
+          record.currency ?? record.code,
+          record.rate_to_pln ?? record.rateToPln ?? record.rate ?? record.mid,
+          record.valid_on ?? record.validOn ?? record.date,
+          t("rateFile.entry", { index: index + 1 }),
+          errors,
+          t,
+        );
+      })
+      .filter((rate): rate is ExchangeRate => rate !== null);
+  }
+
+  if (parsed && typeof parsed === "object") {
+    return Object.entries(parsed as Record<string, unknown>)
+      .map(([currency, rate]) => toRate(currency, rate, null, currency, errors, t))
+      .filter((rate): rate is ExchangeRate => rate !== null);
+  }
+
+  errors.push(t("rateFile.invalidJsonShape"));
+  return [];
+};
+
+/**
+ * Reads rates from a JSON file (`[{ currency, rate, date }]` or `{ "EUR": 4.3 }`) or from
+ * CSV-like text with `currency;rate;date` lines. Semicolon and tab separated files may use
+ * decimal commas; a header line is skipped. Later entries for the same currency win. Problems
+ * with single entries are reported in `language`.
+ */
+export const parseExchangeRateFile = (
+  content: string,
+  language: Language = DEFAULT_LANGUAGE,
+): ParsedExchangeRateFile => {
+  const t = createTranslator(language);
+  const errors: string[] = [];
+  const trimmed = content.trim();
+  let rates: ExchangeRate[] = [];
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      rates = parseJsonRates(trimmed, errors, t);
+    } catch {
+      return { rates: [], errors: [t("rateFile.invalidJson")] };
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).map((line) => line.trim());
+    lines.forEach((line, index) => {
+      if (!line || line.startsWith("#")) {
+        return;
+      }
+      const delimiter = line.includes(";") ? ";" : line.includes("\t") ? "\t" : ",";
+      const [currency, rate, date] = line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+      if (index === 0 && parseRateValue(rate) === null) {
+        return;
+      }
+      const parsed = toRate(currency, rate, date, t("rateFile.line", { index: index + 1 }), errors, t);
+      if (parsed) {
+        rates.push(parsed);
+      }
+    });
+  }
+
+  const byCurrency = new Map<string, ExchangeRate>();
+  rates.forEach((rate) => byCurrency.set(rate.currency, rate));
+  return { rates: Array.from(byCurrency.values()), errors };
+};
@@ -0,0 +1,39 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { createTranslator, errorMessage, isLanguage, translate } from "./i18n";
+import { en } from "./translations/en";
+import { pl } from "./translations/pl";
+import { uk } from "./translations/uk";
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+describe("translate", () => {
+  it("fills placeholders in the selected language", () => {
+    expect(translate("en", "jobProgress.retrying", { attempt: 2, max: 5 })).toBe(
+      "Retrying the stage (attempt 2 of 5)...",
+    );
+    expect(createTranslator("uk")("summary.insurer", { name: "PZU" })).toBe("Страховик: PZU");
+    expect(createTranslator()("premiumBasis.annual")).toBe("rocznie");
+  });
+
+  it("keeps the placeholders of the Polish messages in every translation", () => {
+    for (const key of Object.keys(pl)) {
+      expect({ key, en: placeholders(en[key]) }).toEqual({ key, en: placeholders(pl[key]) });
+      expect({ key, uk: placeholders(uk[key]) }).toEqual({ key, uk: placeholders(pl[key]) });
+    }
+  });
+
+  it("translates service errors that carry a message key and keeps other messages", () => {
+    const t = createTranslator("en");
+    const keyed = Object.assign(new Error("errors.invalidRate"), { params: { currency: "USD" } });
+
+    expect(errorMessage(t, keyed)).toBe("The USD rate must be a number greater than zero");
+    expect(errorMessage(t, new Error("JWT expired"))).toBe("JWT expired");
+    expect(errorMessage(t, "errors.invalidRate")).toBeUndefined();
+  });
+
+  it("recognises supported languages", () => {
+    expect(isLanguage("uk")).toBe(true);
+    expect(isLanguage("de")).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { en } from "@/lib/translations/en";
+import { pl, type MessageKey } from "@/lib/translations/pl";
+import { uk } from "@/lib/translations/uk";
+
+export type { MessageKey };
+
+/** Languages of the UI, the AI summary and the PDF report. */
+export const LANGUAGES = [
+  { value: "pl", label: "Polski", locale: "pl-PL" },
+  { value: "en", label: "English", locale: "en-GB" },
+  { value: "uk", label: "Українська", locale: "uk-UA" },
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]["value"];
+
+export const DEFAULT_LANGUAGE: Language = "pl";
+
+const DICTIONARIES: Record<Language, Record<MessageKey, string>> = { pl, en, uk };
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.value === value);
+
+export const getLocale = (language: Language): string =>
+  LANGUAGES.find((entry) => entry.value === language)?.locale ?? "pl-PL";
+
+/** Fills `{name}` placeholders; unknown placeholders are left as they are. */
+export const translate = (language: Language, key: MessageKey, params?: TranslationParams): string => {
+  const template = DICTIONARIES[language][key] ?? pl[key];
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+};
+
+export const createTranslator =
+  (language: Language = DEFAULT_LANGUAGE): Translate =>
+  (key, params) =>
+    translate(language, key, params);
+
+export const isMessageKey = (value: unknown): value is MessageKey =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(pl, value);
+
+/**
+ * Text of an error for the UI. Service errors carry a message key (and optional `params`), which
+ * is translated; other messages, e.g. ones returned by the server, are shown as they are.
+ */
+export const errorMessage = (t: Translate, error: unknown): string | undefined => {
+  if (!(error instanceof Error) || !error.message) {
+    return undefined;
+  }
+  if (!isMessageKey(error.message)) {
+    return error.message;
+  }
+  const params = (error as Error & { params?: TranslationParams }).params;
+  return t(error.message, params);
+};
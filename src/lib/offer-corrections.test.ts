@@ -0,0 +1,102 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import {
+  applyOfferCorrection,
+  getLatestCorrection,
+  parseCorrectionAmount,
+  readCorrectionPath,
+} from "./offer-corrections";
+
+const editor = { id: "user-1", email: "broker@example.com" };
+
+const extracted = {
+  insurer: "Ubezpieczyciel A",
+  unified: {
+    total_premium_after_discounts: "missing",
+    base_contracts: [{ name: "Śmierć", sum: 20000 }],
+    missing_fields: ["total_premium_after_discounts", "insured"],
+  },
+};
+
+describe("applyOfferCorrection", () => {
+  it("writes the value, clears the missing flag and records the audit entry", () => {
+    const next = applyOfferCorrection(
+      extracted,
+      { path: "unified.total_premium_after_discounts", value: 584.77 },
+      editor,
+      new Date("2026-10-18T09:00:00.000Z"),
+    );
+
+    expect(next.unified.total_premium_after_discounts).toBe(584.77);
+    expect(next.unified.missing_fields).toEqual(["insured"]);
+    expect(next.manual_corrections).toEqual([
+      {
+        path: "unified.total_premium_after_discounts",
+        value: 584.77,
+        previous_value: "missing",
+        original_value: "missing",
+        edited_by: "user-1",
+        edited_by_email: "broker@example.com",
+        edited_at: "2026-10-18T09:00:00.000Z",
+      },
+    ]);
+    expect(extracted.unified.total_premium_after_discounts).toBe("missing");
+  });
+
+  it("keeps the extracted value as original across repeated edits", () => {
+    const first = applyOfferCorrection(extracted, { path: "unified.base_contracts[0].sum", value: 200000 }, editor);
+    const second = applyOfferCorrection(first, { path: "unified.base_contracts[0].sum", value: 250000 }, editor);
+
+    expect(readCorrectionPath(second, "unified.base_contracts[0].sum")).toBe(250000);
+    expect(getLatestCorrection(second, "unified.base_contracts[0].sum")).toMatchObject({
+      value: 250000,
+      previous_value: 200000,
+      original_value: 20000,
+    });
+    expect(second.manual_corrections).toHaveLength(2);
+  });
+
+  it("creates missing containers along the path", () => {
+    const next = applyOfferCorrection({}, { path: "deductible.amount", value: 500 }, editor);
+
+    expect(next.deductible).toEqual({ amount: 500 });
+    expect(getLatestCorrection(next, "deductible.amount")?.original_value).toBeNull();
+  });
+});
+
+describe("parseCorrectionAmount", () => {
+  it("accepts Polish number formats", () => {
+    expect(parseCorrectionAmount("584,77 zł")).toBe(584.77);
+    expect(parseCorrectionAmount("1 234,56")).toBe(1234.56);
+    expect(parseCorrectionAmount("1.234,56 PLN")).toBe(1234.56);
+    expect(parseCorrectionAmount("200000")).toBe(200000);
+  });
+
+  it("accepts English number formats", () => {
+    expect(parseCorrectionAmount("1,234.56", "en")).toBe(1234.56);
+    expect(parseCorrectionAmount("1,234", "en")).toBe(1234);
+    expect(parseCorrectionAmount("584.77 PLN", "en")).toBe(584.77);
+    expect(parseCorrectionAmount("€1,250,000", "en")).toBe(1250000);
+  });
+
+  it("reads a lone separator in the style of the active language", () => {
+    expect(parseCorrectionAmount("1,234", "pl")).toBe(1.234);
+    expect(parseCorrectionAmount("1.234", "pl")).toBe(1234);
+    expect(parseCorrectionAmount("1.234", "en")).toBe(1.234);
+    expect(parseCorrectionAmount("1,5", "en")).toBe(1.5);
+    expect(parseCorrectionAmount("1\u00a0234,56 грн", "uk")).toBe(1234.56);
+  });
+
+  it("accepts both separator styles when they cannot be misread", () => {
+    expect(parseCorrectionAmount("1,234.56", "pl")).toBe(1234.56);
+    expect(parseCorrectionAmount("1.234,56", "en")).toBe(1234.56);
+    expect(parseCorrectionAmount("1,234,567", "pl")).toBe(1234567);
+  });
+
+  it("rejects text that is not an amount", () => {
+    expect(parseCorrectionAmount("1,23,456", "en")).toBeNull();
+    expect(parseCorrectionAmount("1.234,5.6")).toBeNull();
+    expect(parseCorrectionAmount("brak")).toBeNull();
+    expect(parseCorrectionAmount("")).toBeNull();
+  });
+});
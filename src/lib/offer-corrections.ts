@@ -0,0 +1,189 @@
+import { DEFAULT_LANGUAGE, getLocale, type Language } from "@/lib/i18n";
+
+/**
+ * Manual corrections of extracted offer data. A correction overwrites the value in
+ * `documents.extracted_data` (so the comparison pipeline reads it like any extracted value)
+ * and appends an entry to `extracted_data.manual_corrections`, which keeps the value the
+ * extraction produced, the editor and the time of every edit. Re-extracting the document
+ * reapplies the corrections (supabase/functions/extract-insurance-data/manual-corrections.ts).
+ */
+
+export const MANUAL_CORRECTIONS_KEY = "manual_corrections";
+
+export type CorrectionValue = number | string | null;
+
+export interface OfferFieldCorrection {
+  /** Path inside `extracted_data`, e.g. `unified.base_contracts[0].sum`. */
+  path: string;
+  value: CorrectionValue;
+  previous_value: unknown;
+  /** Value produced by the extraction, before any manual edit. */
+  original_value: unknown;
+  edited_by: string;
+  edited_by_email?: string | null;
+  edited_at: string;
+}
+
+export interface CorrectionEditor {
+  id: string;
+  email?: string | null;
+}
+
+type PathSegment = string | number;
+
+const parsePath = (path: string): PathSegment[] =>
+  path
+    .split(".")
+    .flatMap((part) => {
+      const segments: PathSegment[] = [];
+      const match = part.match(/^([^[\]]+)((?:\[\d+\])*)$/);
+      if (!match) {
+        throw new Error(`Invalid field path: ${path}`);
+      }
+      segments.push(match[1]);
+      for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+        segments.push(Number(index[1]));
+      }
+      return segments;
+    });
+
+export const readCorrectionPath = (data: unknown, path: string): unknown =>
+  parsePath(path).reduce<unknown>((current, segment) => {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+    return (current as Record<string | number, unknown>)[segment];
+  }, data);
+
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? {})) as T;
+
+const writePath = (root: Record<string, unknown>, path: string, value: CorrectionValue) => {
+  const segments = parsePath(path);
+  let current: Record<string | number, unknown> = root;
+
+  segments.slice(0, -1).forEach((segment, index) => {
+    const next = current[segment];
+    if (next === null || next === undefined || typeof next !== "object") {
+      current[segment] = typeof segments[index + 1] === "number" ? [] : {};
+    }
+    current = current[segment] as Record<string | number, unknown>;
+  });
+
+  current[segments[segments.length - 1]] = value;
+};
+
+export const getOfferCorrections = (extractedData: unknown): OfferFieldCorrection[] => {
+  if (!extractedData || typeof extractedData !== "object") {
+    return [];
+  }
+  const entries = (extractedData as Record<string, unknown>)[MANUAL_CORRECTIONS_KEY];
+  return Array.isArray(entries)
+    ? entries.filter(
+        (entry): entry is OfferFieldCorrection =>
+          Boolean(entry) && typeof entry === "object" && typeof (entry as OfferFieldCorrection).path === "string",
+      )
+    : [];
+};
+
+/** The most recent correction of `path`, or null when the value was never edited. */
+export const getLatestCorrection = (extractedData: unknown, path: string): OfferFieldCorrection | null => {
+  const matches = getOfferCorrections(extractedData).filter((entry) => entry.path === path);
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+};
+
+/**
+ * Returns a copy of `extractedData` with `value` written at `path` and the edit appended to
+ * the audit trail. Corrected unified fields are also dropped from `unified.missing_fields`.
+ */
+export const applyOfferCorrection = (
+  extractedData: unknown,
+  correction: { path: string; value: CorrectionValue },
+  editor: CorrectionEditor,
+  editedAt: Date = new Date(),
+): Record<string, unknown> => {
+  const next = cloneJson((extractedData ?? {}) as Record<string, unknown>);
+  const previousValue = readCorrectionPath(next, correction.path);
+  const earlier = getOfferCorrections(next).find((entry) => entry.path === correction.path);
+
+  writePath(next, correction.path, correction.value);
+
+  const unified = next.unified as Record<string, unknown> | undefined;
+  if (correction.path.startsWith("unified.") && unified && Array.isArray(unified.missing_fields)) {
+    const unifiedPath = correction.path.slice("unified.".length);
+    unified.missing_fields = (unified.missing_fields as unknown[]).filter((field) => field !== unifiedPath);
+  }
+
+  const entry: OfferFieldCorrection = {
+    path: correction.path,
+    value: correction.value,
+    previous_value: previousValue ?? null,
+    original_value: earlier ? earlier.original_value : previousValue ?? null,
+    edited_by: editor.id,
+    edited_by_email: editor.email ?? null,
+    edited_at: editedAt.toISOString(),
+  };
+  next[MANUAL_CORRECTIONS_KEY] = [...getOfferCorrections(next), entry];
+
+  return next;
+};
+
+// Currency codes and symbols a broker may type after (or before) the amount.
+const CURRENCY_AFFIX = /^\s*(?:zł|pln|eur|usd|gbp|chf|czk|uah|грн\.?|€|\$|£|₴)\s*|\s*(?:zł|pln|eur|usd|gbp|chf|czk|uah|грн\.?|€|\$|£|₴)\s*$/gi;
+
+const localeDecimalSeparator = (language: Language): string =>
+  new Intl.NumberFormat(getLocale(language)).formatToParts(1.5).find((part) => part.type === "decimal")?.value ?? ",";
+
+/**
+ * Decides which of "," and "." is the decimal separator of `amount`. Input using both, or one of
+ * them repeated, is unambiguous; a single separator is decimal in the language's own style, and
+ * in the other style only when it does not group exactly three digits ("1,5" but not "1,234").
+ */
+const resolveDecimalSeparator = (amount: string, language: Language): string => {
+  const lastComma = amount.lastIndexOf(",");
+  const lastDot = amount.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    return lastComma > lastDot ? "," : ".";
+  }
+
+  const localeSeparator = localeDecimalSeparator(language);
+  const separator = lastComma >= 0 ? "," : lastDot >= 0 ? "." : null;
+  if (!separator) {
+    return localeSeparator;
+  }
+
+  const other = separator === "," ? "." : ",";
+  if (amount.split(separator).length > 2) {
+    return other;
+  }
+  if (separator === localeSeparator) {
+    return separator;
+  }
+  return /^-?\d{1,3}[.,]\d{3}$/.test(amount) ? other : separator;
+};
+
+/**
+ * Parses an amount typed in the format of `language` ("1 234,56 zł", "1,234.56"); input in the
+ * other separator style is accepted when it cannot be misread. Returns null for anything else.
+ */
+export const parseCorrectionAmount = (input: string, language: Language = DEFAULT_LANGUAGE): number | null => {
+  // Spaces and apostrophes only ever group thousands.
+  const amount = input.replace(CURRENCY_AFFIX, "").replace(/[\s\u00a0\u202f']/g, "");
+  if (!/^-?\d[\d.,]*$/.test(amount)) {
+    return null;
+  }
+
+  const decimalSeparator = resolveDecimalSeparator(amount, language);
+  const groupSeparator = decimalSeparator === "," ? "." : ",";
+  const [integerPart, fraction, ...rest] = amount.split(decimalSeparator);
+  if (rest.length > 0 || (fraction !== undefined && !/^\d+$/.test(fraction))) {
+    return null;
+  }
+
+  const [leadingGroup, ...groups] = integerPart.split(groupSeparator);
+  if (!/^-?\d+$/.test(leadingGroup) || groups.some((group) => !/^\d{3}$/.test(group))) {
+    return null;
+  }
+
+  const parsed = Number(`${[leadingGroup, ...groups].join("")}${fraction !== undefined ? `.${fraction}` : ""}`);
+  return Number.isFinite(parsed) ? parsed : null;
+};
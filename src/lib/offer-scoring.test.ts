@@ -0,0 +1,85 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { DEFAULT_SCORING_WEIGHTS, parseScoringWeights, resolveScoringWeights, scoreOffers } from "./offer-scoring";
+
+const createOffer = (id: string, unified: Record<string, unknown>) => ({
+  id,
+  label: id,
+  insurer: id,
+  data: { unified },
+});
+
+describe("resolveScoringWeights", () => {
+  it("layers product type and client weights over the defaults", () => {
+    expect(resolveScoringWeights()).toEqual(DEFAULT_SCORING_WEIGHTS);
+    expect(resolveScoringWeights({ productType: "AUTO_INSURANCE" })).toMatchObject({ price: 45, waitingPeriods: 0 });
+    expect(
+      resolveScoringWeights({ productType: "auto_insurance", clientWeights: { price: 10, exclusions: -4 } }),
+    ).toMatchObject({ price: 10, exclusions: DEFAULT_SCORING_WEIGHTS.exclusions, waitingPeriods: 0 });
+  });
+
+  it("ignores malformed stored weights", () => {
+    expect(parseScoringWeights(["price"])).toBeNull();
+    expect(parseScoringWeights({ price: "10" })).toBeNull();
+  });
+});
+
+describe("scoreOffers", () => {
+  const cheap = createOffer("cheap", {
+    total_premium_after_discounts: 1000,
+    base_contracts: [{ sum: 100000 }],
+    assistance: ["Assistance medyczny"],
+    exclusions: [{ name: "Sporty" }, { name: "Alkohol" }],
+    discounts: [],
+    waiting_periods: [{ name: "Poważne zachorowanie – karencja 3 miesiące", days: 90 }],
+  });
+  const broad = createOffer("broad", {
+    total_premium_after_discounts: 1500,
+    base_contracts: [{ sum: 150000 }, { sum: 50000 }],
+    assistance: ["Assistance medyczny", "Infolinia"],
+    exclusions: [{ name: "Sporty" }],
+    discounts: ["Zniżka rodzinna"],
+    waiting_periods: [],
+  });
+
+  it("scores each criterion relative to the other offers", () => {
+    const [cheapScore, broadScore] = scoreOffers([cheap, broad]);
+
+    expect(cheapScore.breakdown.find((entry) => entry.criterion === "price")).toMatchObject({ score: 1, points: 35 });
+    expect(broadScore.breakdown.find((entry) => entry.criterion === "price")).toMatchObject({ score: 0, points: 0 });
+    expect(broadScore.breakdown.find((entry) => entry.criterion === "waitingPeriods")).toMatchObject({
+      displayValue: "Brak karencji",
+      score: 1,
+    });
+    expect(cheapScore.total).toBe(35);
+    expect(broadScore.total).toBe(65);
+  });
+
+  it("leaves out criteria no offer has data for", () => {
+    const [first, second] = scoreOffers(
+      [createOffer("a", { total_premium_after_discounts: 100 }), createOffer("b", { total_premium_after_discounts: 200 })],
+      { ...DEFAULT_SCORING_WEIGHTS },
+    );
+
+    expect(first.total).toBe(100);
+    expect(second.total).toBe(0);
+    expect(first.breakdown.find((entry) => entry.criterion === "exclusions")).toMatchObject({
+      weight: 0,
+      score: null,
+      displayValue: "Brak danych",
+    });
+  });
+
+  it("formats the criterion values in the requested language", () => {
+    const [, broadScore] = scoreOffers([cheap, broad], DEFAULT_SCORING_WEIGHTS, null, "en");
+
+    expect(broadScore.breakdown.find((entry) => entry.criterion === "waitingPeriods")?.displayValue).toBe(
+      "No waiting period",
+    );
+  });
+
+  it("follows the weights", () => {
+    const [cheapScore, broadScore] = scoreOffers([cheap, broad], { ...DEFAULT_SCORING_WEIGHTS, price: 100 });
+    expect(cheapScore.total).toBeGreaterThan(broadScore.total);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  getOfferCurrency,
+  getPremiumForBasis,
+  type ComparisonOffer,
+  type ExtractedOfferData,
+} from "@/lib/comparison-utils";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import { createTranslator, DEFAULT_LANGUAGE, getLocale, type Language } from "@/lib/i18n";
+import { formatCurrency } from "@/lib/valueFormatters";
+
+/**
+ * Transparent weighted scoring of offers. Every criterion is scored 0–1 relative to the other
+ * offers in the comparison (the best value gets 1, the worst 0) and weighted into a 0–100 total,
+ * so a broker can point at exactly which criteria made an offer come out on top.
+ */
+
+export type ScoringCriterion =
+  | "price"
+  | "sumInsured"
+  | "assistance"
+  | "exclusions"
+  | "discounts"
+  | "waitingPeriods";
+
+export type ScoringWeights = Record<ScoringCriterion, number>;
+
+/** The UI labels a criterion with the `scoring.<key>` message. */
+interface ScoringCriterionDefinition {
+  key: ScoringCriterion;
+  /** Whether a higher raw value is better for the client. */
+  higherIsBetter: boolean;
+}
+
+export const SCORING_CRITERIA: ScoringCriterionDefinition[] = [
+  { key: "price", higherIsBetter: false },
+  { key: "sumInsured", higherIsBetter: true },
+  { key: "assistance", higherIsBetter: true },
+  { key: "exclusions", higherIsBetter: false },
+  { key: "discounts", higherIsBetter: true },
+  { key: "waitingPeriods", higherIsBetter: false },
+];
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  price: 35,
+  sumInsured: 25,
+  assistance: 10,
+  exclusions: 15,
+  discounts: 5,
+  waitingPeriods: 10,
+};
+
+/** Adjustments keyed by the product types detected during extraction. */
+export const PRODUCT_TYPE_SCORING_WEIGHTS: Record<string, Partial<ScoringWeights>> = {
+  life_insurance: { sumInsured: 30, assistance: 5, waitingPeriods: 15 },
+  health_insurance: { sumInsured: 15, assistance: 20, waitingPeriods: 20 },
+  accident_insurance: { sumInsured: 30, waitingPeriods: 5 },
+  travel_insurance: { assistance: 20, waitingPeriods: 0 },
+  property_insurance: { exclusions: 25, waitingPeriods: 0 },
+  auto_insurance: { price: 45, assistance: 15, waitingPeriods: 0 },
+};
+
+export interface CriterionScore {
+  criterion: ScoringCriterion;
+  weight: number;
+  value: number | null;
+  displayValue: string;
+  /** 0–1 relative to the other offers; null when the offer has no value for the criterion. */
+  score: number | null;
+  /** Share of the 0–100 total earned by this criterion. */
+  points: number;
+}
+
+export interface OfferScore {
+  offerId: string;
+  /** 0–100, or null when no weighted criterion has data for any offer. */
+  total: number | null;
+  breakdown: CriterionScore[];
+}
+
+const isValidWeight = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/** Reads weights stored as JSON (e.g. `clients.scoring_weights`), dropping unknown or invalid keys. */
+export const parseScoringWeights = (value: unknown): Partial<ScoringWeights> | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const weights: Partial<ScoringWeights> = {};
+  SCORING_CRITERIA.forEach(({ key }) => {
+    if (isValidWeight(record[key])) {
+      weights[key] = record[key];
+    }
+  });
+  return Object.keys(weights).length > 0 ? weights : null;
+};
+
+/** Defaults, then the product type adjustments, then the client's own weights. */
+export const resolveScoringWeights = ({
+  productType,
+  clientWeights,
+}: {
+  productType?: string | null;
+  clientWeights?: Partial<ScoringWeights> | null;
+} = {}): ScoringWeights => {
+  const productWeights = productType ? PRODUCT_TYPE_SCORING_WEIGHTS[productType.trim().toLowerCase()] : undefined;
+  return {
+    ...DEFAULT_SCORING_WEIGHTS,
+    ...parseScoringWeights(productWeights),
+    ...parseScoringWeights(clientWeights),
+  };
+};
+
+const toAmount = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value.replace(/\s+/g, "").replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const countEntries = (value: unknown): number | null => (Array.isArray(value) ? value.length : null);
+
+const getSumInsured = (data: ExtractedOfferData | null | undefined): number | null => {
+  const sums = (data?.unified?.base_contracts ?? [])
+    .map((contract) => toAmount(contract?.sum))
+    .filter((sum): sum is number => sum !== null);
+  if (sums.length > 0) {
+    return sums.reduce((total, sum) => total + sum, 0);
+  }
+  return toAmount(data?.coverage?.oc?.sum);
+};
+
+const getLongestWaitingPeriod = (data: ExtractedOfferData | null | undefined): number | null => {
+  const periods = data?.unified?.waiting_periods;
+  if (!Array.isArray(periods)) {
+    return null;
+  }
+  return periods.reduce((longest, period) => Math.max(longest, toAmount(period?.days) ?? 0), 0);
+};
+
+const getCriterionValue = (
+  criterion: ScoringCriterion,
+  data: ExtractedOfferData | null | undefined,
+  converter: CurrencyConverter | null,
+): number | null => {
+  switch (criterion) {
+    case "price":
+      return getPremiumForBasis(data, "annual", converter);
+    case "sumInsured":
+      return getSumInsured(data);
+    case "assistance":
+      return countEntries(data?.unified?.assistance ?? data?.assistance);
+    case "exclusions":
+      return countEntries(data?.unified?.exclusions);
+    case "discounts":
+      return countEntries(data?.unified?.discounts);
+    case "waitingPeriods":
+      return getLongestWaitingPeriod(data);
+  }
+};
+
+const formatCriterionValue = (
+  criterion: ScoringCriterion,
+  value: number | null,
+  currency: string,
+  language: Language,
+): string => {
+  const t = createTranslator(language);
+  if (value === null) {
+    return t("scoring.noData");
+  }
+  switch (criterion) {
+    case "price":
+    case "sumInsured":
+      return formatCurrency(value, currency, getLocale(language));
+    case "waitingPeriods":
+      return value === 0 ? t("scoring.noWaitingPeriod") : t("scoring.days", { count: value });
+    default:
+      return value.toLocaleString(getLocale(language));
+  }
+};
+
+export const scoreOffers = (
+  offers: ComparisonOffer[],
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+  converter: CurrencyConverter | null = null,
+  language: Language = DEFAULT_LANGUAGE,
+): OfferScore[] => {
+  const criteria = SCORING_CRITERIA.map((definition) => {
+    const values = offers.map((offer) => getCriterionValue(definition.key, offer.data, converter));
+    const present = values.filter((value): value is number => value !== null);
+    return {
+      ...definition,
+      values,
+      min: present.length > 0 ? Math.min(...present) : null,
+      max: present.length > 0 ? Math.max(...present) : null,
+      // Criteria no offer has data for are left out instead of lowering everyone's total.
+      weight: present.length > 0 ? Math.max(0, weights[definition.key] ?? 0) : 0,
+    };
+  });
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  return offers.map((offer, idx) => {
+    const premiumCurrency = converter?.reportingCurrency ?? getOfferCurrency(offer.data);
+    const breakdown = criteria.map<CriterionScore>((criterion) => {
+      const value = criterion.values[idx];
+      let score: number | null = null;
+      if (value !== null && criterion.min !== null && criterion.max !== null) {
+        const range = criterion.max - criterion.min;
+        score = range === 0
+          ? 1
+          : criterion.higherIsBetter
+            ? (value - criterion.min) / range
+            : (criterion.max - value) / range;
+      }
+      const points = totalWeight > 0 ? ((score ?? 0) * criterion.weight * 100) / totalWeight : 0;
+      return {
+        criterion: criterion.key,
+        weight: criterion.weight,
+        value,
+        displayValue: formatCriterionValue(
+          criterion.key,
+          value,
+          criterion.key === "price" ? premiumCurrency : getOfferCurrency(offer.data),
+          language,
+        ),
+        score,
+        points: Math.round(points * 10) / 10,
+      };
+    });
+
+    return {
+      offerId: offer.id,
+      total: totalWeight > 0 ? Math.round(breakdown.reduce((sum, entry) => sum + entry.points, 0) * 10) / 10 : null,
+      breakdown,
+    };
+  });
+};
+
@@ -0,0 +1,31 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { parsePartialJson } from "./partial-json";
+
+describe("parsePartialJson", () => {
+  it("closes open strings, arrays and objects", () => {
+    expect(parsePartialJson('```json\n{"reasons": ["Najtańsza')).toEqual({ reasons: ["Najtańsza"] });
+    expect(parsePartialJson('{"reasons": ["A", "B"], "risks": [')).toEqual({ reasons: ["A", "B"], risks: [] });
+  });
+
+  it("drops keys that have no value yet", () => {
+    expect(parsePartialJson('{"reasons": ["A"], "ris')).toEqual({ reasons: ["A"] });
+    expect(parsePartialJson('{"reasons": ["A"], "risks"')).toEqual({ reasons: ["A"] });
+    expect(parsePartialJson('{"reasons": ["A"], "risks": ')).toEqual({ reasons: ["A"] });
+  });
+
+  it("drops half-written literals and escapes", () => {
+    expect(parsePartialJson('{"parse_error": fal')).toEqual({});
+    expect(parsePartialJson('{"amount": 12')).toEqual({ amount: 12 });
+    expect(parsePartialJson('{"text": "cudzysłów \\')).toEqual({ text: "cudzysłów " });
+    expect(parsePartialJson('{"text": "\\u00')).toEqual({ text: "" });
+  });
+
+  it("ignores text after the complete document", () => {
+    expect(parsePartialJson('{"reasons": ["A"]}\n```')).toEqual({ reasons: ["A"] });
+  });
+
+  it("returns null before any JSON arrives", () => {
+    expect(parsePartialJson("```js")).toBeNull();
+  });
+});
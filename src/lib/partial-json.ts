@@ -0,0 +1,100 @@
+type OpenContainer = { type: "{" | "["; expectKey: boolean };
+
+const CLOSERS = { "{": "}", "[": "]" } as const;
+
+const isCompleteLiteral = (token: string) => {
+  try {
+    JSON.parse(token);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses JSON that is still being written, e.g. a model answer arriving over a stream. Open
+ * strings, arrays and objects are closed; a trailing key without a value or a half-written
+ * literal is dropped. Text around the JSON (such as a ```json fence) is ignored. Returns null
+ * while nothing parseable has arrived yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return null;
+  }
+
+  let body = text.slice(start);
+  const stack: OpenContainer[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let stringStart = -1;
+  let danglingKeyStart = -1;
+
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (stringIsKey) {
+          danglingKeyStart = stringStart;
+        }
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = index;
+      stringIsKey = top?.type === "{" && top.expectKey;
+    } else if (char === "{" || char === "[") {
+      stack.push({ type: char, expectKey: char === "{" });
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      if (stack.length === 0) {
+        body = body.slice(0, index + 1);
+        break;
+      }
+    } else if (char === ":" && top) {
+      top.expectKey = false;
+      danglingKeyStart = -1;
+    } else if (char === "," && top?.type === "{") {
+      top.expectKey = true;
+    }
+  }
+
+  let repaired = body;
+  if (inString) {
+    if (stringIsKey) {
+      repaired = repaired.slice(0, stringStart);
+    } else {
+      repaired = repaired.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "") + '"';
+    }
+  } else if (danglingKeyStart !== -1) {
+    repaired = repaired.slice(0, danglingKeyStart);
+  }
+
+  repaired = repaired.trimEnd();
+  const tail = repaired.match(/[\w.+-]+$/);
+  if (tail && !isCompleteLiteral(tail[0])) {
+    repaired = repaired.slice(0, -tail[0].length).trimEnd();
+  }
+  repaired = repaired.replace(/"(?:[^"\\]|\\.)*"\s*:$/, "").trimEnd().replace(/,$/, "");
+
+  const closers = stack
+    .map((container) => CLOSERS[container.type])
+    .reverse()
+    .join("");
+
+  try {
+    return JSON.parse(repaired + closers);
+  } catch {
+    return null;
+  }
+}
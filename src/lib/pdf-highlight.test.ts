@@ -0,0 +1,63 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { coordinatesToRect, findSnippetRect } from "./pdf-highlight";
+
+const page = { width: 595, height: 842 };
+
+const textItem = (str: string, x: number, baseline: number, width: number, height = 10) => ({
+  str,
+  transform: [height, 0, 0, height, x, baseline],
+  width,
+  height,
+});
+
+describe("coordinatesToRect", () => {
+  it("scales top-left page coordinates and pads the box", () => {
+    expect(coordinatesToRect({ x: 72, y: 100, width: 200, height: 14 }, page, 2)).toEqual({
+      left: 142,
+      top: 198,
+      width: 404,
+      height: 32,
+    });
+  });
+
+  it("treats fractional coordinates as relative to the page size", () => {
+    expect(coordinatesToRect({ x: 0.5, y: 0.25, width: 0.1, height: 0.02 }, { width: 600, height: 800 }, 1)).toEqual({
+      left: 298,
+      top: 198,
+      width: 64,
+      height: 20,
+    });
+  });
+
+  it("ignores empty boxes", () => {
+    expect(coordinatesToRect({ x: 10, y: 10, width: 0, height: 5 }, page, 1)).toBeNull();
+  });
+});
+
+describe("findSnippetRect", () => {
+  const items = [
+    textItem("Zakres ochrony", 72, 760, 90),
+    textItem("Składka", 72, 700, 40),
+    textItem(" 584,", 112, 700, 25),
+    textItem("77 zł", 137, 700, 28),
+  ];
+
+  it("spans the text items that spell out the snippet regardless of how pdf.js split them", () => {
+    expect(findSnippetRect(items, "składka 584,77 zł", page, 1)).toEqual({
+      left: 70,
+      top: 842 - 700 - 10 - 2,
+      width: 93 + 4,
+      height: 14,
+    });
+  });
+
+  it("falls back to the first line of multi-line snippets", () => {
+    expect(findSnippetRect(items, "Zakres ochrony\nŚmierć ubezpieczonego", page, 1)).toMatchObject({ left: 70, width: 94 });
+  });
+
+  it("returns null when the snippet is not on the page", () => {
+    expect(findSnippetRect(items, "Assistance", page, 1)).toBeNull();
+    expect(findSnippetRect(items, "zł", page, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import type { SourceReferenceCoordinates } from "@/types/comparison";
+
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** The subset of a pdf.js `TextItem` needed to place a snippet on the page. */
+export interface PdfTextItemLike {
+  str: string;
+  /** Text matrix `[a, b, c, d, e, f]`; `e`/`f` are the baseline origin in PDF points (bottom-left origin). */
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+const HIGHLIGHT_PADDING = 2;
+const MIN_SNIPPET_MATCH_LENGTH = 4;
+
+const normalizeForMatch = (value: string) =>
+  value.toLowerCase().replace(/\u00a0/g, " ").replace(/\s+/g, "");
+
+const toPaddedRect = (x: number, y: number, width: number, height: number, scale: number): HighlightRect => ({
+  left: x * scale - HIGHLIGHT_PADDING,
+  top: y * scale - HIGHLIGHT_PADDING,
+  width: width * scale + HIGHLIGHT_PADDING * 2,
+  height: height * scale + HIGHLIGHT_PADDING * 2,
+});
+
+/**
+ * Converts citation coordinates (page units, top-left origin) to CSS pixels for a page
+ * rendered at `scale`. Parsers that report fractions of the page (all values ≤ 1) are scaled
+ * by the page size first.
+ */
+export const coordinatesToRect = (
+  coordinates: SourceReferenceCoordinates,
+  page: PageSize,
+  scale: number,
+): HighlightRect | null => {
+  const { x, y, width, height } = coordinates;
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const isRelative = [x, y, width, height].every((value) => value >= 0 && value <= 1);
+  const unitX = isRelative ? page.width : 1;
+  const unitY = isRelative ? page.height : 1;
+
+  return toPaddedRect(x * unitX, y * unitY, width * unitX, height * unitY, scale);
+};
+
+/**
+ * Finds the text items that spell out `snippet` (ignoring case and whitespace, which pdf.js
+ * splits unpredictably) and returns their union in CSS pixels. Long snippets fall back to
+ * their first line so a paragraph citation still lands on its opening words.
+ */
+export const findSnippetRect = (
+  items: PdfTextItemLike[],
+  snippet: string,
+  page: PageSize,
+  scale: number,
+): HighlightRect | null => {
+  const candidates = [snippet, snippet.split("\n")[0] ?? ""]
+    .map(normalizeForMatch)
+    .filter((candidate, index, all) => candidate.length >= MIN_SNIPPET_MATCH_LENGTH && all.indexOf(candidate) === index);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const offsets: number[] = [];
+  let combined = "";
+  items.forEach((item) => {
+    offsets.push(combined.length);
+    combined += normalizeForMatch(item.str);
+  });
+
+  for (const candidate of candidates) {
+    const start = combined.indexOf(candidate);
+    if (start === -1) {
+      continue;
+    }
+    const end = start + candidate.length;
+
+    const matched = items.filter((item, index) => {
+      const itemStart = offsets[index];
+      const itemEnd = itemStart + normalizeForMatch(item.str).length;
+      return itemEnd > start && itemStart < end;
+    });
+    if (matched.length === 0) {
+      continue;
+    }
+
+    const boxes = matched.map((item) => {
+      const [, , , , originX, baselineY] = item.transform;
+      const itemHeight = item.height || Math.abs(item.transform[3]) || 10;
+      return { x0: originX, x1: originX + item.width, y0: page.height - baselineY - itemHeight, y1: page.height - baselineY };
+    });
+
+    const left = Math.min(...boxes.map((box) => box.x0));
+    const top = Math.min(...boxes.map((box) => box.y0));
+    const right = Math.max(...boxes.map((box) => box.x1));
+    const bottom = Math.max(...boxes.map((box) => box.y1));
+
+    return toPaddedRect(left, top, right - left, bottom - top, scale);
+  }
+
+  return null;
+};
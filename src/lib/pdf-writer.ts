@@ -0,0 +1,530 @@
+/**
+ * Minimal PDF 1.4 writer used for client-facing reports.
+ *
+ * By default the standard Helvetica fonts are used so no font files have to be embedded.
+ * Polish diacritics are not part of WinAnsiEncoding, so they are mapped onto unused
+ * code points through a `/Differences` array that references the standard glyph names.
+ *
+ * Scripts the standard fonts cannot render (Cyrillic) need embedded TrueType fonts: text is
+ * then written as glyph ids through an Identity-H Type0 font, the font program is subset to the
+ * glyphs used and a ToUnicode map keeps the text searchable and copyable. Without embedded
+ * fonts, Ukrainian text is romanized using the official Ukrainian transliteration (2010).
+ */
+
+import type { TrueTypeFont } from "@/lib/truetype";
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+}
+
+/** TrueType fonts written instead of Helvetica, one per style. */
+export type PdfEmbeddedFonts = Record<PdfFont, TrueTypeFont>;
+
+export type MeasureText = (text: string, size: number, font: PdfFont) => number;
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+};
+
+const POLISH_GLYPHS: Array<[string, number, string]> = [
+  ["Ą", 0x81, "Aogonek"],
+  ["ą", 0x82, "aogonek"],
+  ["Ć", 0x83, "Cacute"],
+  ["ć", 0x86, "cacute"],
+  ["Ę", 0x87, "Eogonek"],
+  ["ę", 0x88, "eogonek"],
+  ["Ł", 0x89, "Lslash"],
+  ["ł", 0x8a, "lslash"],
+  ["Ń", 0x8b, "Nacute"],
+  ["ń", 0x8c, "nacute"],
+  ["Ś", 0x8d, "Sacute"],
+  ["ś", 0x8e, "sacute"],
+  ["Ź", 0x8f, "Zacute"],
+  ["ź", 0x90, "zacute"],
+  ["Ż", 0x98, "Zdotaccent"],
+  ["ż", 0x99, "zdotaccent"],
+];
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+const CHAR_CODES = new Map<string, number>([
+  ...POLISH_GLYPHS.map(([char, code]) => [char, code] as [string, number]),
+  ...Object.entries(WIN_ANSI_EXTRAS),
+]);
+
+const FONT_ENCODING = `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [ ${POLISH_GLYPHS.map(
+  ([, code, glyph]) => `${code} /${glyph}`,
+).join(" ")} ] >>`;
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, starting at the space character.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const UKRAINIAN_LATIN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "h", ґ: "g", д: "d", е: "e", є: "ie", ж: "zh", з: "z", и: "y", і: "i",
+  ї: "i", й: "i", к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u",
+  ф: "f", х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ь: "", ю: "iu", я: "ia",
+};
+
+// At the start of a word these letters keep their "y" glide.
+const UKRAINIAN_WORD_INITIAL: Record<string, string> = { є: "ye", ї: "yi", й: "y", ю: "yu", я: "ya" };
+
+const APOSTROPHES = new Set(["'", "ʼ", "’"]);
+
+export const transliterateUkrainian = (text: string): string => {
+  if (!/[\u0400-\u04ff]/u.test(text)) {
+    return text;
+  }
+
+  let result = "";
+  let previous = "";
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    if (APOSTROPHES.has(char) && UKRAINIAN_LATIN[previous.toLowerCase()] !== undefined) {
+      continue;
+    }
+
+    const isWordStart = !/\p{L}/u.test(previous);
+    let latin = isWordStart ? UKRAINIAN_WORD_INITIAL[lower] ?? UKRAINIAN_LATIN[lower] : UKRAINIAN_LATIN[lower];
+    if (latin === undefined) {
+      result += char;
+    } else {
+      // "зг" is written "zgh" so it is not read as "zh".
+      if (lower === "г" && previous.toLowerCase() === "з") {
+        latin = "gh";
+      }
+      result += char === lower ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+    }
+    previous = char;
+  }
+  return result;
+};
+
+const BOLD_WIDTH_FACTOR = 1.08;
+const DEFAULT_CHAR_WIDTH = 556;
+
+const toBaseCharacter = (char: string): string => {
+  const normalized = char.normalize("NFD").charAt(0);
+  if (char === "ł") return "l";
+  if (char === "Ł") return "L";
+  return normalized;
+};
+
+const charWidth = (char: string): number => {
+  const base = toBaseCharacter(char);
+  const code = base.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return HELVETICA_WIDTHS[code - 32];
+  }
+  return DEFAULT_CHAR_WIDTH;
+};
+
+export const measureText = (text: string, size: number, font: PdfFont = "regular"): number => {
+  let total = 0;
+  for (const char of transliterateUkrainian(text)) {
+    total += charWidth(char);
+  }
+  const factor = font === "bold" ? BOLD_WIDTH_FACTOR : 1;
+  return (total * factor * size) / 1000;
+};
+
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular",
+  measure: MeasureText = measureText,
+): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const words = paragraph.split(/\s+/).filter((word) => word.length > 0);
+    if (words.length === 0) {
+      lines.push("");
+      continue;
+    }
+
+    let current = "";
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate, size, font) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) {
+        lines.push(current);
+      }
+
+      // Break words that do not fit on a single line at all (e.g. long identifiers).
+      let remainder = word;
+      while (measure(remainder, size, font) > maxWidth && remainder.length > 1) {
+        let cut = remainder.length - 1;
+        while (cut > 1 && measure(remainder.slice(0, cut), size, font) > maxWidth) {
+          cut -= 1;
+        }
+        lines.push(remainder.slice(0, cut));
+        remainder = remainder.slice(cut);
+      }
+      current = remainder;
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+export const encodePdfText = (text: string): string => {
+  let encoded = "";
+  for (const char of transliterateUkrainian(text)) {
+    const mapped = CHAR_CODES.get(char);
+    let code = mapped ?? char.charCodeAt(0);
+
+    // pl-PL number formatting uses narrow no-break spaces as thousands separators.
+    if (mapped === undefined && /\s/u.test(char)) {
+      code = 0x20;
+    }
+
+    if (mapped === undefined && (code > 0xff || (code >= 0x80 && code < 0xa0))) {
+      const base = toBaseCharacter(char).charCodeAt(0);
+      code = base >= 32 && base <= 126 ? base : 0x3f;
+    }
+
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      encoded += `\\${String.fromCharCode(code)}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      encoded += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      encoded += String.fromCharCode(code);
+    }
+  }
+  return encoded;
+};
+
+/** Maps text onto glyph ids, falling back to the base letter and then to "?" for missing glyphs. */
+const toGlyphs = (font: TrueTypeFont, text: string): Array<[glyphId: number, codePoint: number]> => {
+  const glyphs: Array<[number, number]> = [];
+  for (const char of text) {
+    const candidates = [/\s/u.test(char) ? 0x20 : char.codePointAt(0) ?? 0x3f, toBaseCharacter(char).codePointAt(0) ?? 0x3f, 0x3f];
+    const codePoint = candidates.find((candidate) => font.glyphForCodePoint(candidate) !== 0) ?? 0x3f;
+    glyphs.push([font.glyphForCodePoint(codePoint), codePoint]);
+  }
+  return glyphs;
+};
+
+const toHex = (value: number): string => value.toString(16).toUpperCase().padStart(4, "0");
+
+const toUtf16Hex = (codePoint: number): string => {
+  if (codePoint <= 0xffff) {
+    return toHex(codePoint);
+  }
+  const offset = codePoint - 0x10000;
+  return toHex(0xd800 + (offset >> 10)) + toHex(0xdc00 + (offset & 0x3ff));
+};
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return result;
+};
+
+// Subset fonts are named with a six letter tag derived from their glyphs, e.g. "KQWBAE+DejaVuSans".
+const subsetTag = (glyphIds: number[], seed: string): string => {
+  let hash = 2166136261;
+  for (const value of [...Array.from(seed, (char) => char.charCodeAt(0)), ...glyphIds]) {
+    hash = Math.imul(hash ^ value, 16777619) >>> 0;
+  }
+  let tag = "";
+  for (let index = 0; index < 6; index += 1) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26);
+  }
+  return tag;
+};
+
+const buildToUnicodeCMap = (glyphs: Array<[number, number]>): string => {
+  const blocks: string[] = [];
+  for (let index = 0; index < glyphs.length; index += 100) {
+    const chunk = glyphs.slice(index, index + 100);
+    blocks.push(
+      `${chunk.length} beginbfchar\n${chunk
+        .map(([glyphId, codePoint]) => `<${toHex(glyphId)}> <${toUtf16Hex(codePoint)}>`)
+        .join("\n")}\nendbfchar`,
+    );
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CIDResource defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+};
+
+const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? rounded.toString() : rounded.toFixed(2);
+};
+
+const formatColor = ([r, g, b]: PdfColor): string =>
+  [r, g, b].map((channel) => formatNumber(Math.min(Math.max(channel, 0), 1))).join(" ");
+
+/**
+ * Collects drawing operations page by page and serializes them into a PDF file.
+ * Coordinates are expressed from the top-left corner of the page to keep layout code simple.
+ */
+export class PdfWriter {
+  private readonly pages: string[][] = [];
+  private currentIndex = -1;
+  /** Glyph id to code point, per embedded font, for the subset and the ToUnicode map. */
+  private readonly usedGlyphs: Record<PdfFont, Map<number, number>> = { regular: new Map(), bold: new Map() };
+
+  constructor(
+    readonly width: number = A4_WIDTH,
+    readonly height: number = A4_HEIGHT,
+    private readonly embeddedFonts: PdfEmbeddedFonts | null = null,
+  ) {}
+
+  /** Width of the text in points, measured with the font it will be written in. */
+  measureText(text: string, size: number, font: PdfFont = "regular"): number {
+    const embedded = this.embeddedFonts?.[font];
+    if (!embedded) {
+      return measureText(text, size, font);
+    }
+
+    let total = 0;
+    for (const [glyphId] of toGlyphs(embedded, text)) {
+      total += embedded.advanceWidth(glyphId);
+    }
+    return (total * size) / embedded.unitsPerEm;
+  }
+
+  wrapText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string[] {
+    return wrapText(text, maxWidth, size, font, (value, valueSize, valueFont) =>
+      this.measureText(value, valueSize, valueFont),
+    );
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.currentIndex = this.pages.length - 1;
+  }
+
+  /** Moves the drawing cursor back to an existing page (e.g. to print "page X of Y" footers). */
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`Page ${index} does not exist`);
+    }
+    this.currentIndex = index;
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const { font = "regular", size = 10, color = [0, 0, 0] } = options;
+    const baseline = this.height - y - size;
+    this.currentPage().push(
+      `BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${formatColor(color)} rg ${formatNumber(
+        x,
+      )} ${formatNumber(baseline)} Td ${this.encodeText(value, font)} Tj ET`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.currentPage().push(
+      `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(
+        width,
+      )} ${formatNumber(height)} re f`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth = 0.5): void {
+    this.currentPage().push(
+      `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(
+        this.height - y1,
+      )} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`,
+    );
+  }
+
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const objects: string[] = [];
+    const reserve = () => {
+      objects.push("");
+      return objects.length;
+    };
+    const define = (id: number, body: string) => {
+      objects[id - 1] = body;
+    };
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = (Object.keys(FONT_RESOURCES) as PdfFont[]).map((font) => {
+      const embedded = this.embeddedFonts?.[font];
+      if (embedded) {
+        return { font, id: this.defineEmbeddedFont(font, embedded, reserve, define) };
+      }
+
+      const id = reserve();
+      define(
+        id,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding ${FONT_ENCODING} >>`,
+      );
+      return { font, id };
+    });
+    const fontDictionary = fontIds
+      .map(({ font, id }) => `/${FONT_RESOURCES[font].name} ${id} 0 R`)
+      .join(" ");
+
+    const pageIds = this.pages.map((operations) => {
+      const content = operations.join("\n");
+      const contentId = reserve();
+      define(contentId, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      const pageId = reserve();
+      define(
+        pageId,
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(
+          this.height,
+        )}] /Resources << /Font << ${fontDictionary} >> >> /Contents ${contentId} 0 R >>`,
+      );
+      return pageId;
+    });
+
+    define(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    define(
+      pagesId,
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    );
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach((offset) => {
+      output += `${offset.toString().padStart(10, "0")} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character in the output is a single byte: content is escaped to 7-bit ASCII and
+    // embedded font programs are stored one byte per character.
+    const bytes = new Uint8Array(output.length);
+    for (let index = 0; index < output.length; index += 1) {
+      bytes[index] = output.charCodeAt(index) & 0xff;
+    }
+    return bytes;
+  }
+
+  private encodeText(value: string, font: PdfFont): string {
+    const embedded = this.embeddedFonts?.[font];
+    if (!embedded) {
+      return `(${encodePdfText(value)})`;
+    }
+
+    const glyphs = toGlyphs(embedded, value);
+    glyphs.forEach(([glyphId, codePoint]) => this.usedGlyphs[font].set(glyphId, codePoint));
+    return `<${glyphs.map(([glyphId]) => toHex(glyphId)).join("")}>`;
+  }
+
+  private defineEmbeddedFont(
+    font: PdfFont,
+    embedded: TrueTypeFont,
+    reserve: () => number,
+    define: (id: number, body: string) => void,
+  ): number {
+    const glyphs = [...this.usedGlyphs[font].entries()].sort(([a], [b]) => a - b);
+    const glyphIds = glyphs.map(([glyphId]) => glyphId);
+    const baseFont = `${subsetTag(glyphIds, embedded.postScriptName)}+${embedded.postScriptName}`;
+    const scale = 1000 / embedded.unitsPerEm;
+    const toPdfUnits = (value: number) => Math.round(value * scale);
+
+    const program = embedded.subset(glyphIds);
+    const programId = reserve();
+    define(
+      programId,
+      `<< /Length ${program.length} /Length1 ${program.length} >>\nstream\n${toBinaryString(program)}\nendstream`,
+    );
+
+    const descriptorId = reserve();
+    define(
+      descriptorId,
+      `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32 /FontBBox [${embedded.bbox
+        .map(toPdfUnits)
+        .join(" ")}] /ItalicAngle 0 /Ascent ${toPdfUnits(embedded.ascent)} /Descent ${toPdfUnits(
+        embedded.descent,
+      )} /CapHeight ${toPdfUnits(embedded.capHeight)} /StemV ${font === "bold" ? 120 : 80} /FontFile2 ${programId} 0 R >>`,
+    );
+
+    const widths = glyphs.map(([glyphId]) => `${glyphId} [${toPdfUnits(embedded.advanceWidth(glyphId))}]`).join(" ");
+    const cidFontId = reserve();
+    define(
+      cidFontId,
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptorId} 0 R /CIDToGIDMap /Identity /W [${widths}] >>`,
+    );
+
+    const toUnicode = buildToUnicodeCMap(glyphs);
+    const toUnicodeId = reserve();
+    define(toUnicodeId, `<< /Length ${toUnicode.length} >>\nstream\n${toUnicode}\nendstream`);
+
+    const id = reserve();
+    define(
+      id,
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`,
+    );
+    return id;
+  }
+
+  private currentPage(): string[] {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    return this.pages[this.currentIndex];
+  }
+}
@@ -0,0 +1,122 @@
+import type { ComparisonOffer } from "@/lib/comparison-utils";
+import type { MessageKey } from "@/lib/i18n";
+
+/**
+ * Product-type comparison templates. The extraction function asks the model for the same keys
+ * and stores them in `extracted_data.product_fields`; keep the keys in sync with
+ * supabase/functions/extract-insurance-data/product-templates.ts. Labels are message keys whose
+ * Polish text matches the labels the extraction prompt uses.
+ */
+
+export interface ProductTemplateField {
+  key: string;
+  label: MessageKey;
+  kind: "amount" | "text";
+  /** Unit shown instead of the offer currency, for amounts that are not money. */
+  unit?: string;
+}
+
+export interface ProductTemplate {
+  productType: string;
+  label: MessageKey;
+  /** Title of the product-specific section in the comparison table. */
+  sectionTitle: MessageKey;
+  fields: ProductTemplateField[];
+}
+
+export const PRODUCT_TEMPLATES: Record<string, ProductTemplate> = {
+  auto_insurance: {
+    productType: "auto_insurance",
+    label: "productTemplate.auto_insurance.label",
+    sectionTitle: "productTemplate.auto_insurance.section",
+    fields: [
+      { key: "oc_sum", label: "productField.auto_insurance.oc_sum", kind: "amount" },
+      { key: "ac_sum", label: "productField.auto_insurance.ac_sum", kind: "amount" },
+      { key: "ac_deductible", label: "productField.auto_insurance.ac_deductible", kind: "amount" },
+      { key: "nnw_sum", label: "productField.auto_insurance.nnw_sum", kind: "amount" },
+      { key: "assistance_towing_km", label: "productField.auto_insurance.assistance_towing_km", kind: "amount", unit: "km" },
+    ],
+  },
+  travel_insurance: {
+    productType: "travel_insurance",
+    label: "productTemplate.travel_insurance.label",
+    sectionTitle: "productTemplate.travel_insurance.section",
+    fields: [
+      { key: "medical_costs_abroad", label: "productField.travel_insurance.medical_costs_abroad", kind: "amount" },
+      { key: "rescue_costs", label: "productField.travel_insurance.rescue_costs", kind: "amount" },
+      { key: "baggage_sum", label: "productField.travel_insurance.baggage_sum", kind: "amount" },
+      { key: "travel_nnw_sum", label: "productField.travel_insurance.travel_nnw_sum", kind: "amount" },
+      { key: "territorial_scope", label: "productField.travel_insurance.territorial_scope", kind: "text" },
+    ],
+  },
+  property_insurance: {
+    productType: "property_insurance",
+    label: "productTemplate.property_insurance.label",
+    sectionTitle: "productTemplate.property_insurance.section",
+    fields: [
+      { key: "walls_sum", label: "productField.property_insurance.walls_sum", kind: "amount" },
+      { key: "contents_sum", label: "productField.property_insurance.contents_sum", kind: "amount" },
+      { key: "theft_sum", label: "productField.property_insurance.theft_sum", kind: "amount" },
+      { key: "civil_liability_sum", label: "productField.property_insurance.civil_liability_sum", kind: "amount" },
+      { key: "property_deductible", label: "productField.property_insurance.property_deductible", kind: "amount" },
+    ],
+  },
+  life_insurance: {
+    productType: "life_insurance",
+    label: "productTemplate.life_insurance.label",
+    sectionTitle: "productTemplate.life_insurance.section",
+    fields: [
+      { key: "death_sum", label: "productField.life_insurance.death_sum", kind: "amount" },
+      { key: "accidental_death_sum", label: "productField.life_insurance.accidental_death_sum", kind: "amount" },
+      { key: "critical_illness_sum", label: "productField.life_insurance.critical_illness_sum", kind: "amount" },
+    ],
+  },
+  health_insurance: {
+    productType: "health_insurance",
+    label: "productTemplate.health_insurance.label",
+    sectionTitle: "productTemplate.health_insurance.section",
+    fields: [
+      { key: "hospital_daily_benefit", label: "productField.health_insurance.hospital_daily_benefit", kind: "amount" },
+      { key: "surgery_sum", label: "productField.health_insurance.surgery_sum", kind: "amount" },
+      { key: "outpatient_scope", label: "productField.health_insurance.outpatient_scope", kind: "text" },
+    ],
+  },
+  accident_insurance: {
+    productType: "accident_insurance",
+    label: "productTemplate.accident_insurance.label",
+    sectionTitle: "productTemplate.accident_insurance.section",
+    fields: [
+      { key: "nnw_sum", label: "productField.accident_insurance.nnw_sum", kind: "amount" },
+      { key: "permanent_injury_per_percent", label: "productField.accident_insurance.permanent_injury_per_percent", kind: "amount" },
+      { key: "hospital_daily_benefit", label: "productField.accident_insurance.hospital_daily_benefit", kind: "amount" },
+    ],
+  },
+};
+
+export const getProductTemplate = (productType: string | null | undefined): ProductTemplate | null =>
+  productType ? PRODUCT_TEMPLATES[productType.trim().toLowerCase()] ?? null : null;
+
+/**
+ * Picks the template for a comparison. The AI may describe the product in free text, so when the
+ * comparison's product type is not a template key the template most offers were extracted with wins.
+ */
+export const resolveProductTemplate = (
+  productType: string | null | undefined,
+  offers: ComparisonOffer[],
+): ProductTemplate | null => {
+  const direct = getProductTemplate(productType);
+  if (direct) {
+    return direct;
+  }
+
+  const counts = new Map<string, number>();
+  offers.forEach((offer) => {
+    const template = getProductTemplate(offer.data?.product_template);
+    if (template) {
+      counts.set(template.productType, (counts.get(template.productType) ?? 0) + 1);
+    }
+  });
+
+  const [best] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return best ? PRODUCT_TEMPLATES[best[0]] : null;
+};
@@ -0,0 +1,81 @@
+import { DEFAULT_LANGUAGE, translate, type Language } from "@/lib/i18n";
+import { getProductTemplate } from "@/lib/product-templates";
+
+/**
+ * Mixed product types detected by the comparison-orchestrator before comparing offers, stored
+ * on `comparisons.product_type_mismatch`. While `pending` the comparison stays in `needs_review`.
+ */
+
+export type ProductTypeMismatchStatus = "pending" | "acknowledged" | "resolved";
+
+export type MismatchedDocument = {
+  document_id: string;
+  file_name: string | null;
+  product_type: string | null;
+  classifier_type: string | null;
+  ai_type: string | null;
+  matches_dominant: boolean;
+};
+
+export type ProductTypeMismatch = {
+  status: ProductTypeMismatchStatus;
+  detected_at: string | null;
+  dominant_type: string;
+  documents: MismatchedDocument[];
+  excluded_document_ids: string[];
+};
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+const parseDocument = (value: unknown): MismatchedDocument | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const documentId = toText(record.document_id);
+  if (!documentId) {
+    return null;
+  }
+  return {
+    document_id: documentId,
+    file_name: toText(record.file_name),
+    product_type: toText(record.product_type),
+    classifier_type: toText(record.classifier_type),
+    ai_type: toText(record.ai_type),
+    matches_dominant: record.matches_dominant !== false,
+  };
+};
+
+export const parseProductTypeMismatch = (value: unknown): ProductTypeMismatch | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const dominantType = toText(record.dominant_type);
+  if (!dominantType) {
+    return null;
+  }
+  const status = record.status;
+
+  return {
+    status: status === "acknowledged" || status === "resolved" ? status : "pending",
+    detected_at: toText(record.detected_at),
+    dominant_type: dominantType,
+    documents: Array.isArray(record.documents)
+      ? record.documents.map(parseDocument).filter((entry): entry is MismatchedDocument => entry !== null)
+      : [],
+    excluded_document_ids: Array.isArray(record.excluded_document_ids)
+      ? record.excluded_document_ids.filter((entry): entry is string => typeof entry === "string")
+      : [],
+  };
+};
+
+/** Name of a product type: the template's label, the type as detected, or "not recognised". */
+export const getProductTypeLabel = (productType: string | null, language: Language = DEFAULT_LANGUAGE): string => {
+  if (!productType) {
+    return translate(language, "productTemplate.unknown");
+  }
+  const template = getProductTemplate(productType);
+  return template ? translate(language, template.label) : productType;
+};
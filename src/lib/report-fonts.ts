@@ -0,0 +1,40 @@
+import boldFontUrl from "@/assets/fonts/DejaVuSans-Bold.ttf?url";
+import regularFontUrl from "@/assets/fonts/DejaVuSans.ttf?url";
+import type { Language } from "@/lib/i18n";
+import type { PdfEmbeddedFonts } from "@/lib/pdf-writer";
+import { parseTrueType, type TrueTypeFont } from "@/lib/truetype";
+
+// Helvetica covers Polish and English; Cyrillic needs a font embedded in the PDF.
+const EMBEDDED_FONT_LANGUAGES: ReadonlySet<Language> = new Set<Language>(["uk"]);
+
+let pendingFonts: Promise<PdfEmbeddedFonts> | null = null;
+
+const fetchFont = async (url: string): Promise<TrueTypeFont> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Font download failed: ${response.status}`);
+  }
+  return parseTrueType(new Uint8Array(await response.arrayBuffer()));
+};
+
+/**
+ * Loads the fonts a report in `language` has to embed, or null when the standard PDF fonts are
+ * enough. The fonts are downloaded once per session.
+ */
+export async function loadReportFonts(language: Language): Promise<PdfEmbeddedFonts | null> {
+  if (!EMBEDDED_FONT_LANGUAGES.has(language)) {
+    return null;
+  }
+
+  pendingFonts ??= Promise.all([fetchFont(regularFontUrl), fetchFont(boldFontUrl)]).then(([regular, bold]) => ({
+    regular,
+    bold,
+  }));
+
+  try {
+    return await pendingFonts;
+  } catch (error) {
+    pendingFonts = null;
+    throw error;
+  }
+}
@@ -1,3 +1,5 @@
+import type { MessageKey } from "@/lib/i18n";
+
 const URL_REGEX = /(https?:\/\/[^\s<]+)/gi;
 
 export interface TextSegment {
@@ -5,12 +7,12 @@ export interface TextSegment {
   value: string;
   url?: string;
   safe?: boolean;
-  reason?: string;
+  reason?: MessageKey;
 }
 
 interface LinkSafetyResult {
   safe: boolean;
-  reason?: string;
+  reason?: MessageKey;
 }
 
 const SUSPICIOUS_HOSTS = new Set(["localhost", "127.0.0.1"]);
@@ -26,18 +28,18 @@ export const evaluateLinkSafety = (rawUrl: string): LinkSafetyResult => {
   try {
     const url = new URL(rawUrl);
     if (url.protocol !== "https:") {
-      return { safe: false, reason: "Dozwolone są tylko bezpieczne adresy HTTPS." };
+      return { safe: false, reason: "link.httpsOnly" };
     }
     const host = url.hostname.toLowerCase();
     if (SUSPICIOUS_HOSTS.has(host) || isIpAddress(host)) {
-      return { safe: false, reason: "Adres prowadzi do niezaufanego hosta." };
+      return { safe: false, reason: "link.untrustedHost" };
     }
     if (host.includes("@") || host.includes("%")) {
-      return { safe: false, reason: "Adres wygląda na podejrzany." };
+      return { safe: false, reason: "link.suspicious" };
     }
     return { safe: true };
   } catch {
-    return { safe: false, reason: "Nieprawidłowy adres URL." };
+    return { safe: false, reason: "link.invalid" };
   }
 };
 
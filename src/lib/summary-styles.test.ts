@@ -0,0 +1,29 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { getStyledSummary } from "./summary-styles";
+
+describe("getStyledSummary", () => {
+  it("returns the summary stored for the style", () => {
+    const summaryJson = { client: { reasons: ["Tanio"] }, memo: { reasons: ["Szczegóły"] } };
+
+    expect(getStyledSummary(summaryJson, "memo")).toEqual({ reasons: ["Szczegóły"] });
+    expect(getStyledSummary(summaryJson, "sms")).toBeNull();
+  });
+
+  it("reads a summary stored before styles as the default style", () => {
+    const legacy = { recommended_offer: { name: "PZU" } };
+
+    expect(getStyledSummary(legacy, "client")).toEqual(legacy);
+    expect(getStyledSummary(legacy, "letter")).toBeNull();
+    expect(getStyledSummary(null, "client")).toBeNull();
+    expect(getStyledSummary(legacy, "client", "en")).toBeNull();
+  });
+
+  it("reads summaries in other languages", () => {
+    const summaryJson = { "client.en": { reasons: ["Cheapest"] }, "memo.uk": { reasons: ["Деталі"] } };
+
+    expect(getStyledSummary(summaryJson, "client", "en")).toEqual({ reasons: ["Cheapest"] });
+    expect(getStyledSummary(summaryJson, "memo", "uk")).toEqual({ reasons: ["Деталі"] });
+    expect(getStyledSummary(summaryJson, "client")).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import type { Json } from "@/integrations/supabase/types";
+import { DEFAULT_LANGUAGE, type Language } from "@/lib/i18n";
+
+/**
+ * Presets offered for the AI summary; the ids match supabase/functions/generate-summary/styles.ts.
+ * Labels and descriptions live in the translations under `summaryStyle.<id>`.
+ */
+export const SUMMARY_STYLES = ["client", "sms", "memo", "letter"] as const;
+
+export type SummaryStyle = (typeof SUMMARY_STYLES)[number];
+
+export const DEFAULT_SUMMARY_STYLE: SummaryStyle = "client";
+
+const STYLE_IDS: readonly string[] = SUMMARY_STYLES;
+
+export const isSummaryStyle = (value: unknown): value is SummaryStyle =>
+  typeof value === "string" && STYLE_IDS.includes(value);
+
+/** Polish summaries use the bare style key; other languages are stored as `<style>.<language>`. */
+const summaryStorageKey = (style: SummaryStyle, language: Language): string =>
+  language === DEFAULT_LANGUAGE ? style : `${style}.${language}`;
+
+/**
+ * Reads the summary of one style and language from `summary_json`. Summaries stored before styles
+ * existed are a single object and count as the default style in Polish.
+ */
+export const getStyledSummary = (
+  summaryJson: Json | null | undefined,
+  style: SummaryStyle,
+  language: Language = DEFAULT_LANGUAGE,
+): Json | null => {
+  if (!summaryJson || typeof summaryJson !== "object" || Array.isArray(summaryJson)) {
+    return null;
+  }
+
+  if (!Object.keys(summaryJson).some((key) => isSummaryStyle(key.split(".")[0]))) {
+    return style === DEFAULT_SUMMARY_STYLE && language === DEFAULT_LANGUAGE ? summaryJson : null;
+  }
+
+  return summaryJson[summaryStorageKey(style, language)] ?? null;
+};
@@ -0,0 +1,770 @@
+import type { MessageKey } from "./pl";
+
+export const en: Record<MessageKey, string> = {
+  "language.label": "Language",
+
+  "stage.uploading_files": "Uploading files...",
+  "stage.creating_documents": "Saving documents...",
+  "stage.triggering_extraction": "Extracting data from documents...",
+  "stage.waiting_for_extraction": "Waiting for data extraction...",
+  "stage.creating_comparison": "Creating the comparison...",
+  "stage.comparing_offers": "Comparing offers...",
+  "stage.generating_summary": "Generating the AI summary...",
+
+  "documentStage.mineru_queued": "Queued for OCR",
+  "documentStage.mineru_running": "Recognising text (OCR)",
+  "documentStage.archive_downloaded": "OCR results downloaded",
+  "documentStage.ai_extraction": "AI data extraction",
+  "documentStage.unified_build": "Building the offer structure",
+  "documentProgress.completed": "Done",
+  "documentProgress.failed": "Processing error",
+  "documentProgress.starting": "Starting processing",
+  "documentProgress.waiting": "Waiting to be processed",
+
+  "jobProgress.failedTitle": "Processing failed",
+  "jobProgress.runningTitle": "Comparison in progress",
+  "jobProgress.failedDescription": "The comparison could not be processed.",
+  "jobProgress.runningDescription": "Processing continues on the server. You can close this page and come back later.",
+  "jobProgress.retrying": "Retrying the stage (attempt {attempt} of {max})...",
+  "jobProgress.resume": "Resume processing",
+
+  "premiumBasis.annual": "per year",
+  "premiumBasis.monthly": "per month",
+
+  "metrics.offerCount": "Number of offers",
+  "metrics.lowestPremium": "Lowest premium ({basis})",
+  "metrics.highestCoverage": "Highest cover",
+  "metrics.averagePremium": "Average premium ({basis})",
+  "metrics.noData": "No data",
+
+  "sections.price": "Price and premiums",
+  "sections.basicCoverage": "Basic cover",
+  "sections.additionalCoverage": "Additional cover",
+  "sections.exclusions": "Limitations and exclusions",
+  "rows.premium": "Premium",
+  "rows.premiumShort": "Premium ({basis})",
+  "rows.premiumDelta": "Difference from the average ({basis})",
+  "rows.baseContracts": "Basic benefits",
+  "rows.deductible": "Deductible / excess",
+  "rows.additionalCoverage": "Additional cover",
+  "rows.exclusions": "Exclusions",
+  "rows.aiAnalysis": "AI analysis",
+  "rows.aiComment": "AI comment",
+  "rows.noAiComment": "No AI comment",
+  "rows.noAiDifferences": "No differences found by the AI",
+  "cell.source": "Source: {source}",
+  "cell.payment": "Payment: {value}",
+  "cell.paymentOptions": "Options: {value}",
+  "cell.statedInOffer": "In the offer: {value}",
+  "cell.exchangeRate": "rate {rate}",
+  "cell.missingRate": "No {currency} exchange rate – left out of the premium comparison",
+  "cell.estimateAmbiguousCycle": "Estimated conversion: the offer does not state the payment cycle clearly",
+  "cell.estimateMissingCycle": "Estimated conversion: no payment cycle, an annual premium was assumed",
+  "item.noDescription": "No description",
+  "item.benefit": "Benefit {index}",
+  "item.addon": "Add-on {index}",
+  "item.assistance": "Assistance service {index}",
+  "item.sum": "sum: {value}",
+  "item.variant": "variant: {value}",
+  "item.premium": "premium: {value}",
+  "item.limit": "limit: {value}",
+
+  "summaryStyle.label": "Summary style",
+  "summaryStyle.client.label": "For the client",
+  "summaryStyle.client.description": "Plain, friendly language, up to 150 words",
+  "summaryStyle.sms.label": "SMS",
+  "summaryStyle.sms.description": "Short message to the client, up to 300 characters",
+  "summaryStyle.memo.label": "Internal memo",
+  "summaryStyle.memo.description": "Detailed, technical note for the file",
+  "summaryStyle.letter.label": "Formal letter",
+  "summaryStyle.letter.description": "Official recommendation in the form of a letter",
+
+  "summary.title": "AI recommendation",
+  "summary.description": "Key guidance based on the analysis of the offers",
+  "summary.showJustifications": "Show justifications",
+  "summary.copy": "Copy",
+  "summary.generate": "Generate",
+  "summary.regenerate": "Regenerate",
+  "summary.empty": "No summary in the selected style yet.",
+  "summary.generating": "Generating the summary…",
+  "summary.recommendedOffer": "Recommended offer",
+  "summary.insurer": "Insurer: {name}",
+  "summary.reasons": "Reasons for the choice",
+  "summary.risks": "Risks",
+  "summary.nextSteps": "Recommendations",
+  "summary.keyNumbers": "Key figures",
+  "summary.descriptionLine": "Description: {text}",
+  "summary.recommendedLine": "Recommended offer: {name}",
+  "summary.sources": "Analysis sources",
+  "summary.source": "Source {order}",
+  "summary.showSource": "Show source {label}",
+  "summary.sourceOffer": "Offer: {label}",
+  "summary.sourcePage": "Page: {page}",
+  "summary.sourcePageShort": "p. {page}",
+  "summary.nothingToCopy": "Nothing to copy",
+  "summary.copyUnsupported": "Copying is not supported in this browser",
+  "summary.copied": "AI recommendation copied",
+  "summary.copyFailed": "Could not copy the content",
+  "summary.failed": "Could not generate the summary",
+  "summary.highlightsTitle": "Key differences",
+  "summary.highlightsDescription": "Calculated from the offer data",
+
+  "report.documentTitle": "Offer comparison report",
+  "report.heading": "Insurance offer comparison",
+  "report.client": "Client: {name}",
+  "report.productType": "Product type: {type}",
+  "report.date": "Report date: {date}",
+  "report.comparisonId": "Comparison ID: {id}",
+  "report.generated": "generated {date}",
+  "report.page": "Page {page} of {total}",
+  "report.recommendation": "Recommendation",
+  "report.keyArguments": "Key arguments",
+  "report.watchOut": "Watch out for",
+  "report.nextSteps": "Next steps",
+  "report.sources": "Sources",
+  "report.sourceDocument": "Source document",
+  "report.citationPage": "p. {page}",
+  "report.noData": "No data",
+
+  "result.loadFailed": "Could not load the comparison",
+  "result.unknownError": "Unknown error",
+  "result.ratesLoadFailed": "Could not load exchange rates",
+  "result.versionsLoadFailed": "Could not load comparison versions",
+  "result.resumeFailed": "Could not resume processing",
+  "result.previewFailed": "Could not load the preview.",
+  "result.downloadFailed": "Could not download the document.",
+  "result.previewNotFound": "No document found to preview.",
+  "result.documentsExcluded": "Documents excluded",
+  "result.documentsExcludedDescription": "The comparison is being prepared for the remaining offers.",
+  "result.excludeFailed": "Could not exclude the documents.",
+  "result.comparisonResumeFailed": "Could not resume the comparison.",
+  "result.offersAdded": "Offers added",
+  "result.offersAddedReading": "The new documents are being read, then the comparison will be recalculated.",
+  "result.offersAddedDescription": "The comparison and summary are being recalculated with the new offers.",
+  "result.addOffersFailed": "Could not add the offers.",
+  "result.offersRemoved": "Offers removed",
+  "result.offersRemovedDescription": "The comparison and summary are being recalculated without the removed offers.",
+  "result.removeOffersFailed": "Could not remove the offers.",
+  "result.rerunStarted": "Recalculation started",
+  "result.rerunStartedDescription": "A new version of the comparison will appear once the analysis finishes.",
+  "result.rerunFailed": "Could not recalculate the comparison.",
+  "result.reportReady": "The PDF report is ready",
+  "result.reportReadyDescription": "The report link is valid for 7 days.",
+  "result.reportFailed": "Could not generate the report.",
+  "result.correctionSaved": "Correction saved",
+  "result.correctionSavedDescription": "The comparison and summary are being recalculated with the new value.",
+  "result.correctionFailed": "Could not apply the correction.",
+  "result.currencyChangeFailed": "Could not change the comparison currency.",
+  "result.needsSaved": "Needs profile saved",
+  "result.needsSavedDescription": "The comparison and summary are being prepared again with the profile taken into account.",
+  "result.needsSaveFailed": "Could not save the needs profile.",
+  "result.offerSaved": "Offer saved!",
+  "result.offerSavedDescription": "Selected: {name}",
+  "result.previewUnavailable": "Document preview is unavailable",
+  "result.downloadNotStarted": "Could not start the download",
+  "result.fileName": "File: {name}",
+  "result.preview": "Preview",
+  "result.download": "Download",
+  "result.selected": "Selected",
+  "result.selectOffer": "Select offer",
+  "result.back": "Back to dashboard",
+  "result.exportPdf": "Export PDF",
+  "result.exportingPdf": "Generating report...",
+  "result.offerLabel": "Offer {index}",
+  "result.notReadyTitle": "No data",
+  "result.notReadyDescription": "The comparison is not ready yet",
+  "result.viewingVersion": "You are viewing version {version}",
+  "result.viewingVersionDescription": "The AI analysis comes from an earlier run. The offer data in the table is current.",
+  "result.premiumBasis": "Compare premiums:",
+  "result.annual": "Annually",
+  "result.monthly": "Monthly",
+  "result.reportingCurrency": "Reporting currency:",
+  "result.exchangeRates": "Exchange rates",
+  "result.clientNeeds": "Client needs",
+  "result.offers": "Offers",
+  "result.overviewTab": "Offer overview",
+  "result.detailsTab": "Detailed comparison",
+  "result.aiTab": "AI analysis",
+  "result.selectedOffer": "Selected offer: {label}",
+  "result.selectedInsurer": "Insurer: {name}",
+  "result.calculationId": "Calculation ID: {id}",
+  "result.confirmSelection": "Confirm selection",
+  "result.needsTitle": "Client needs in this comparison",
+  "result.needsOwnProfile": "This comparison has its own needs profile. Clearing it restores the profile saved for the client.",
+  "result.needsClientProfile": "Saving creates a profile for this comparison only, without changing the profile of client {name}.",
+  "result.needsNoClient": "The profile will be taken into account in the analysis and summary of this comparison.",
+  "result.needsSubmit": "Save and recalculate",
+
+  "errors.unexpected": "An unexpected error occurred during processing",
+  "errors.clientNameRequired": "Enter the client's full name",
+  "errors.invalidEmail": "Invalid email address",
+  "errors.invalidPhone": "Invalid phone number",
+  "errors.clientsLoadFailed": "Could not load the client list.",
+  "errors.clientNotFound": "Client not found.",
+  "errors.clientCreateFailed": "Could not add the client.",
+  "errors.clientUpdateFailed": "Could not save the client's changes.",
+  "errors.clientDeleteFailed": "Could not delete the client.",
+  "errors.negativeWeights": "Weights must be non-negative numbers",
+  "errors.weightsSaveFailed": "Could not save the offer scoring weights.",
+  "errors.clientHistoryFailed": "Could not load the client's history.",
+  "errors.duplicateOffers": "The selected files contain the same offer. Add at least two different offers.",
+  "errors.comparisonResultsFailed": "Could not load the comparison results.",
+  "errors.comparisonStartFailed": "Could not start processing the comparison.",
+  "errors.documentsLoadFailed": "Could not load the documents.",
+  "errors.selectOffersToAdd": "Select offers to add.",
+  "errors.offersAlreadyCompared": "These offers are already in the comparison.",
+  "errors.selectOffersToRemove": "Select offers to remove.",
+  "errors.minTwoOffers": "A comparison needs at least two offers.",
+  "errors.comparisonStatusFailed": "Could not check the comparison status.",
+  "errors.processingAborted": "Processing was cancelled.",
+  "errors.comparisonFailed": "Could not process the comparison.",
+  "errors.jobDocumentsFailed": "At least one offer document could not be processed.",
+  "errors.jobExtractionTimeout": "Processing the documents took too long.",
+  "errors.jobProductTypeMismatch": "The offers cover different types of insurance. Exclude the documents that do not match or confirm the comparison.",
+  "errors.jobSummaryFailed": "The AI summary could not be generated. The comparison results are available.",
+  "errors.filesReadFailed": "Could not read the files.",
+  "errors.uploadedDocumentsCheckFailed": "Could not check the uploaded documents.",
+  "errors.uploadFailed": "Could not upload the files. Please try again.",
+  "errors.documentsSaveFailed": "Could not save the documents.",
+  "errors.comparisonCreateFailed": "Could not create the comparison.",
+  "errors.comparisonLoadFailed": "Could not load the comparison.",
+  "errors.comparisonOffersUpdateFailed": "Could not update the comparison's offers.",
+  "errors.rerunFailedOffersRestored": "Could not recalculate the comparison. Its offers were not changed.",
+  "errors.rerunFailedOffersSaved": "The offers were saved, but the comparison could not be recalculated.",
+  "errors.versionsLoadFailed": "Could not load the comparison history.",
+  "errors.recalculationStartFailed": "Could not start the recalculation.",
+  "errors.libraryLoadFailed": "Could not load the document library.",
+  "errors.invalidDocumentPath": "Invalid document file path.",
+  "errors.documentLocationFailed": "Could not read the document's storage location.",
+  "errors.signedUrlFailed": "Could not generate a signed URL.",
+  "errors.downloadLinkFailed": "Could not prepare the document download link.",
+  "errors.previewLinkFailed": "Could not prepare the document preview.",
+  "errors.invalidCurrencyCode": "Invalid currency code: {currency}",
+  "errors.baseCurrencyRate": "PLN is the base currency and needs no rate",
+  "errors.invalidRate": "The {currency} rate must be a number greater than zero",
+  "errors.ratesLoadFailed": "Could not load the exchange rates.",
+  "errors.ratesSaveFailed": "Could not save the exchange rates.",
+  "errors.rateDeleteFailed": "Could not delete the rate.",
+  "errors.reportingCurrencyFailed": "Could not change the comparison currency.",
+  "errors.invalidAge": "Enter the client's age as a number from 0 to 120",
+  "errors.negativeDependants": "The number of dependants cannot be negative",
+  "errors.invalidBudget": "The budget must be an amount greater than zero",
+  "errors.clientNeedsSaveFailed": "Could not save the client's needs profile.",
+  "errors.comparisonNeedsSaveFailed": "Could not save the comparison's needs profile.",
+  "errors.needsSavedRefreshFailed": "The profile was saved, but the comparison could not be refreshed.",
+  "errors.correctionSaveFailed": "Could not save the correction.",
+  "errors.correctionSavedRefreshFailed": "The correction was saved, but the comparison could not be refreshed.",
+  "errors.selectDocumentsToExclude": "Select the documents to exclude.",
+  "errors.decisionSaveFailed": "Could not save the decision.",
+  "errors.decisionSavedResumeFailed": "The decision was saved, but the comparison could not be resumed.",
+  "errors.reportSaveFailed": "Could not save the PDF report.",
+  "errors.reportAttachFailed": "Could not attach the report to the comparison.",
+  "errors.reportUrlFailed": "Could not prepare the report link.",
+  "errors.summaryStartFailed": "Could not start generating the summary.",
+  "errors.summaryFailed": "Could not generate the summary.",
+  "errors.summaryInterrupted": "Receiving the summary was interrupted.",
+  "errors.summaryStreamEnded": "The summary stream ended before the result.",
+
+
+  "files.maxFiles": "At most {max} files",
+  "files.tooLarge": "File too large",
+  "files.tooLargeDescription": "Maximum size: {size}. The file \"{name}\" is too large.",
+  "files.invalidFormat": "Unsupported format",
+  "files.acceptedFormats": "Accepted formats: {formats}",
+  "files.minOffers": "Add at least {min} offers to compare",
+
+  "errors.clientSaveFailed": "Could not save the client.",
+
+
+  "paymentCycle.monthly": "monthly",
+  "paymentCycle.annual": "annual",
+  "paymentCycle.quarterly": "quarterly",
+  "paymentCycle.semiannual": "semi-annual",
+  "paymentCycle.single": "single payment",
+  "paymentCycle.other": "other",
+  "paymentCycle.various": "various",
+
+
+  "riskTolerance.low": "Low – full cover matters more than price",
+  "riskTolerance.medium": "Medium",
+  "riskTolerance.high": "High – accepts gaps in cover for a lower price",
+  "needs.budgetExceeded": "Premium of {premium} {basis} exceeds the budget of {budget}",
+  "needs.missingCoverage": "Required cover missing: {coverage}",
+
+
+  "scoring.price": "Annual premium",
+  "scoring.sumInsured": "Sums insured",
+  "scoring.assistance": "Assistance scope",
+  "scoring.exclusions": "Number of exclusions",
+  "scoring.discounts": "Discounts",
+  "scoring.waitingPeriods": "Longest waiting period",
+  "scoring.noData": "No data",
+  "scoring.noWaitingPeriod": "No waiting period",
+  "scoring.days": "{count} days",
+
+  "scoring.title": "Offer scores",
+  "scoring.description": "Each criterion compares the offers with one another: the best value earns the full weight, the weakest zero points. Weights: {source}.",
+  "scoring.criterionHeader": "Criterion (weight)",
+  "scoring.points": "{points} pts",
+  "scoring.total": "Score (0–100)",
+  "scoring.weightsTitle": "Offer scoring weights",
+  "scoring.weightsDescription": "Set what matters most to the client. Empty fields use the default weights for the product type.",
+  "scoring.restoreDefaults": "Restore defaults",
+  "scoring.saveWeights": "Save weights",
+
+
+  "versionChange.offerAdded": "Offer added: {name}",
+  "versionChange.offerCorrected": "Offer data corrected for {name} (corrections: {count})",
+  "versionChange.offerDataChanged": "Offer data changed for {name}",
+  "versionChange.offerRemoved": "Offer removed: {name}",
+  "versionChange.comparisonModel": "Comparison model: {previous} → {current}",
+  "versionChange.summaryModel": "Summary model: {previous} → {current}",
+  "versionChange.noModel": "none",
+  "versionChange.comparisonPrompt": "Offer comparison instructions changed",
+  "versionChange.summaryPrompt": "Summary instructions changed",
+  "versionChange.needs": "Client needs profile changed",
+  "versionChange.recommendation": "Recommendation: {previous} → {current}",
+  "versionChange.highlightAdded": "New difference: {text}",
+  "versionChange.highlightRemoved": "Removed difference: {text}",
+
+  "analysisMessage.premium_missing": "No premium in the offer data.",
+  "analysisMessage.annual_premium": "Annual premium: {amount}.",
+  "analysisMessage.cheapest": "Lowest premium.",
+  "analysisMessage.cheapest_in_currency": "Lowest premium among offers in {currency}.",
+  "analysisMessage.more_expensive": "{amount} ({percent}%) more expensive than {offer}.",
+  "analysisMessage.over_budget": "Exceeds the client's budget ({amount} per year).",
+  "analysisMessage.sums_missing": "No sums insured in the offer data.",
+  "analysisMessage.total_sum": "Total sum insured: {amount}.",
+  "analysisMessage.additional_contracts": "Additional contracts: {count}.",
+  "analysisMessage.missing_required": "Missing required coverages: {names}.",
+  "analysisMessage.assistance_none": "No assistance services.",
+  "analysisMessage.assistance_services": "Assistance services: {names}.",
+  "analysisMessage.assistance_missing": "Missing compared with the other offers: {names}.",
+  "analysisMessage.exclusions_no_data": "No data on exclusions.",
+  "analysisMessage.exclusions_count": "Number of exclusions: {count}.",
+  "analysisMessage.exclusions_unique": "Exclusions found only in this offer: {names}.",
+  "analysisMessage.cheapest_offers": "Lowest annual premium: {offers}.",
+  "analysisMessage.highest_sum_offers": "Highest total sum insured: {offers}.",
+  "analysisMessage.widest_assistance_offers": "Widest assistance package: {offers}.",
+  "analysisMessage.mixed_product_types": "The offers cover different types of insurance and are not fully comparable.",
+  "analysisMessage.over_budget_offers": "Offers over the client's budget: {offers}.",
+  "analysisMessage.missing_required_offers": "Offers without the required coverages: {offers}.",
+  "analysisMessage.andOthers": "{names} and {count} more",
+
+
+  "versions.title": "Comparison versions",
+  "versions.selected": "Version {version} from {date}",
+  "versions.model": " • model {model}",
+  "versions.empty": "The recalculation history appears after the first comparison.",
+  "versions.option": "Version {version} • {date}",
+  "versions.current": " (current)",
+  "versions.rerun": "Recalculate",
+  "versions.changesSince": "Changes since version {version}",
+  "versions.noChanges": "No changes found since the previous version.",
+
+
+  "rateFile.entry": "Entry {index}",
+  "rateFile.line": "Line {index}",
+  "rateFile.invalidCurrency": "{label}: invalid currency code “{currency}”",
+  "rateFile.invalidRate": "{label}: invalid rate for {currency}",
+  "rateFile.invalidJsonShape": "The JSON file must contain a list of rates or an object like {\"EUR\": 4.3}",
+  "rateFile.invalidJson": "Could not read the JSON file",
+
+
+  "productTemplate.auto_insurance.label": "Motor insurance",
+  "productTemplate.auto_insurance.section": "MTPL, comprehensive and PA",
+  "productField.auto_insurance.oc_sum": "MTPL guarantee sum",
+  "productField.auto_insurance.ac_sum": "Comprehensive sum insured",
+  "productField.auto_insurance.ac_deductible": "Comprehensive deductible",
+  "productField.auto_insurance.nnw_sum": "Driver and passenger PA sum",
+  "productField.auto_insurance.assistance_towing_km": "Towing (km)",
+  "productTemplate.travel_insurance.label": "Travel insurance",
+  "productTemplate.travel_insurance.section": "Cover while travelling",
+  "productField.travel_insurance.medical_costs_abroad": "Medical costs abroad",
+  "productField.travel_insurance.rescue_costs": "Rescue costs",
+  "productField.travel_insurance.baggage_sum": "Baggage",
+  "productField.travel_insurance.travel_nnw_sum": "Travel PA",
+  "productField.travel_insurance.territorial_scope": "Territorial scope",
+  "productTemplate.property_insurance.label": "Property insurance",
+  "productTemplate.property_insurance.section": "Building and contents",
+  "productField.property_insurance.walls_sum": "Building sum insured",
+  "productField.property_insurance.contents_sum": "Contents sum insured",
+  "productField.property_insurance.theft_sum": "Burglary",
+  "productField.property_insurance.civil_liability_sum": "Private liability",
+  "productField.property_insurance.property_deductible": "Deductible",
+  "productTemplate.life_insurance.label": "Life insurance",
+  "productTemplate.life_insurance.section": "Life sums insured",
+  "productField.life_insurance.death_sum": "Death benefit",
+  "productField.life_insurance.accidental_death_sum": "Accidental death",
+  "productField.life_insurance.critical_illness_sum": "Critical illness",
+  "productTemplate.health_insurance.label": "Health insurance",
+  "productTemplate.health_insurance.section": "Health benefits",
+  "productField.health_insurance.hospital_daily_benefit": "Hospital stay (per day)",
+  "productField.health_insurance.surgery_sum": "Surgery",
+  "productField.health_insurance.outpatient_scope": "Outpatient scope",
+  "productTemplate.accident_insurance.label": "Personal accident insurance",
+  "productTemplate.accident_insurance.section": "PA benefits",
+  "productField.accident_insurance.nnw_sum": "PA sum insured",
+  "productField.accident_insurance.permanent_injury_per_percent": "Benefit per 1% of permanent injury",
+  "productField.accident_insurance.hospital_daily_benefit": "Hospital stay (per day)",
+  "productTemplate.unknown": "Not recognised",
+
+
+  "documentStatus.uploaded": "Uploaded",
+  "documentStatus.processing": "Processing",
+  "documentStatus.completed": "Processed",
+  "documentStatus.failed": "Error",
+
+
+  "link.httpsOnly": "Only secure HTTPS addresses are allowed.",
+  "link.untrustedHost": "The address points to an untrusted host.",
+  "link.suspicious": "The address looks suspicious.",
+  "link.invalid": "Invalid URL.",
+  "link.unsafe": "Link marked as unsafe",
+
+  "cell.normalization": "Normalisation: {value}",
+
+
+  "needs.age": "Client's age",
+  "needs.dependants": "Dependants",
+  "needs.budget": "Premium budget (requirement)",
+  "needs.budgetPlaceholder": "e.g. 200",
+  "needs.budgetCurrency": "Budget currency",
+  "needs.budgetPeriod": "Budget period",
+  "needs.coverages": "Must-have cover (requirement, one per line)",
+  "needs.coveragesPlaceholder": "Critical illness\nHospital stay",
+  "needs.riskTolerance": "Risk tolerance",
+  "needs.riskToleranceNone": "Not specified",
+  "needs.notes": "Notes",
+  "needs.clear": "Clear profile",
+
+
+  "mismatch.title": "The offers cover different types of insurance",
+  "mismatch.description": "Most documents are {type}. Exclude the documents that do not fit or compare all offers despite the differences.",
+  "mismatch.detectedTypes": "AI: {ai} • classifier: {classifier}",
+  "mismatch.compareAnyway": "Compare anyway",
+  "mismatch.excludeSelected": "Exclude selected ({count}) and compare",
+
+
+  "scoring.weightsSource.client": "client {name}",
+  "scoring.weightsSource.product": "for {type}",
+  "scoring.weightsSource.default": "default",
+
+  "mismatch.acknowledgedTitle": "Offers for different types of insurance",
+  "mismatch.acknowledgedDescription": "The comparison includes products other than {type}. The results cover only what the offers have in common.",
+
+  "offer.paymentOptions": "Available options: {options}",
+
+  "rates.importSkipped": "Skipped {count} invalid entries",
+  "rates.importEmpty": "The file contains no rates to import",
+  "compare.libraryDocumentFallback": "Previously extracted data",
+
+
+  "manageOffers.title": "Offers in the comparison",
+  "manageOffers.description": "Only what changed is recalculated: offers that were already processed are not read again.",
+  "manageOffers.documentsLoadFailed": "Could not load the documents",
+  "manageOffers.removeSelected": "Remove selected ({count}) and recalculate",
+  "manageOffers.addTitle": "Add offers",
+  "manageOffers.upload": "Upload new offer files",
+  "manageOffers.reusable": "Previously processed documents",
+  "manageOffers.maxOffers": "A comparison can contain at most {max} offers.",
+  "manageOffers.addSelected": "Add ({count}) and recalculate",
+
+
+  "viewer.title": "Document preview",
+  "viewer.description": "Check the offer details directly in the uploaded document.",
+  "viewer.noDocument": "Select a document to preview it.",
+  "viewer.documentId": "Document ID:",
+  "viewer.unsupported": "Preview is not available for this file type.",
+  "viewer.unsupportedHint": "This file type cannot be previewed. Use the download option instead.",
+  "viewer.loadFailed": "Could not load the document preview.",
+  "viewer.renderFailed": "Could not display the document: {message}",
+  "viewer.unavailable": "The document preview is not available.",
+  "viewer.downloadDocument": "Download document",
+
+
+  "table.title": "Detailed comparison",
+  "table.finishEditing": "Finish editing",
+  "table.correctData": "Correct data",
+  "table.category": "Category",
+  "table.section": "Section",
+  "table.recommended": "Recommended",
+  "table.requirementsNotMet": "Does not meet the requirements",
+  "table.noAiAnalysis": "No AI analysis",
+  "table.itemSumInsured": "{label}: {item} (sum insured)",
+  "table.highlight.best": "AI recommendation",
+  "table.highlight.warning": "Warning",
+  "table.diff.equal": "No differences",
+  "table.diff.different": "Differences",
+  "table.diff.partial": "Incomplete data",
+  "table.diff.missing": "No data",
+
+  "offer.title": "Offer",
+  "offer.lowestPrice": "Lowest price",
+  "offer.bestCoverage": "Best coverage",
+  "offer.warning": "Caution",
+  "offer.insurer": "Insurer",
+  "offer.payment": "Payment:",
+  "offer.savings": "you save {amount}",
+  "offer.baseCoverage": "Base coverage:",
+  "offer.baseContracts": "Base contracts:",
+  "offer.additionalCoverage": "Additional coverage:",
+
+
+  "source.page": "Page {page}",
+  "source.noSnippet": "No excerpt preview",
+  "source.highlight": "Quoted passage",
+  "source.document": "Document: {id}",
+  "source.open": "Open in document",
+  "source.additional": "Additional sources: {count}",
+
+  "confidence.lowTitle": "Low extraction confidence ({score}). Check the value in the document before sending it to the client.",
+  "confidence.mediumTitle": "Medium extraction confidence ({score}).",
+  "confidence.low": "To verify",
+  "confidence.medium": "Check",
+
+
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+
+  "correction.noData": "no data",
+  "correction.invalidAmount": "Enter an amount, e.g. 584.77",
+  "correction.edit": "Correct: {label}",
+  "correction.originalValue": "Value in the document: {value}",
+  "correction.recalculationNotice": "After saving, the comparison and the summary will be recalculated.",
+  "correction.badge": "Corrected",
+  "correction.badgeTitle": "Corrected manually by {user}, {date}. Value in the document: {value}",
+
+
+  "clientPicker.label": "Client",
+  "clientPicker.loadFailed": "Could not load clients",
+  "clientPicker.loading": "Loading clients...",
+  "clientPicker.placeholder": "Select a client",
+  "clientPicker.none": "No client assigned",
+  "clientPicker.created": "Client added",
+
+  "clientForm.newTitle": "New client",
+  "clientForm.editTitle": "Edit client",
+  "clientForm.description": "Contact details let you assign comparisons and documents to the client.",
+  "clientForm.fullName": "Full name",
+  "clientForm.fullNamePlaceholder": "John Smith",
+  "clientForm.email": "Email",
+  "clientForm.emailPlaceholder": "john.smith@example.com",
+  "clientForm.phone": "Phone",
+  "clientForm.saveChanges": "Save changes",
+  "clientForm.create": "Add client",
+
+  "landing.features": "Features",
+  "landing.pricing": "Pricing",
+  "landing.about": "About us",
+  "landing.signIn": "Sign in",
+  "landing.getStarted": "Get started",
+  "landing.tagline": "A modern platform for comparing insurance offers, built for professionals.",
+  "landing.product": "Product",
+  "landing.integrations": "Integrations",
+  "landing.company": "Company",
+  "landing.contact": "Contact",
+  "landing.careers": "Careers",
+  "landing.legal": "Legal",
+  "landing.privacy": "Privacy policy",
+  "landing.terms": "Terms of service",
+  "landing.security": "Security",
+  "landing.copyright": "© {year} InsurCompare. All rights reserved.",
+  "landing.heroTitle": "Compare insurance offers in",
+  "landing.heroHighlight": "a minute",
+  "landing.heroDescription": "A platform for insurance agents and brokers. Automatic policy analysis, clear comparisons and professional reports for your clients.",
+  "landing.startFree": "Start for free",
+  "landing.demo": "See the demo",
+  "landing.fast": "Fast",
+  "landing.fastDescription": "OCR + AI in seconds",
+  "landing.accurate": "Accurate",
+  "landing.accurateDescription": "Smart field mapping",
+  "landing.secure": "Secure",
+  "landing.secureDescription": "GDPR & audit",
+  "landing.imageAlt": "InsurCompare dashboard preview",
+  "landing.trustedBy": "Already trusted by",
+  "landing.agents": "500+ agents",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+
+  "common.back": "Back",
+  "common.view": "View",
+  "common.total": "Total: {count}",
+
+  "compare.title": "New comparison",
+  "compare.subtitle": "Upload offers for analysis",
+  "compare.clientTitle": "Client information",
+  "compare.clientDescription": "Optional: assign the comparison to a client",
+  "compare.uploadTitle": "Upload offers",
+  "compare.uploadDescription": "Add 2 to {max} insurance offers: PDFs, Word documents or photos of offers",
+  "compare.dropzone": "Click to upload or drag offer files here",
+  "compare.dropzoneLimits": "{formats}, up to {max} files",
+  "compare.libraryDocuments": "From the document library ({count})",
+  "compare.progress": "Processing progress ({done}/{total})",
+  "compare.uploadedFiles": "Uploaded files ({count}/{max})",
+  "compare.processing": "Processing...",
+  "compare.start": "Start comparison",
+  "compare.tipLabel": "Tip:",
+  "compare.tipQuality": "The better the quality of the files you upload, the more accurate the comparison.",
+  "compare.tipFormats": "Native PDFs work best. Photos and scans should be sharp, well lit and cover the whole page of the offer.",
+  "compare.libraryLoadFailed": "Could not load documents from the library",
+  "compare.filesAdded": "Files added: {count}",
+  "compare.ready": "Comparison ready!",
+  "compare.detectedProductType": "Detected product type: {type}",
+  "compare.stillProcessing": "The comparison is still being processed",
+  "compare.stillProcessingDescription": "Processing continues in the background. The results will appear automatically.",
+  "compare.needsReviewDescription": "Check the documents and decide which of them to compare.",
+  "compare.authRequired": "You must be signed in",
+  "compare.processingFailed": "Processing error",
+
+  "dashboard.title": "Dashboard",
+  "dashboard.welcome": "Welcome back, Agent",
+  "dashboard.signOut": "Sign out",
+  "dashboard.loadFailed": "Failed to load data",
+  "dashboard.comparisonsThisMonth": "Comparisons this month",
+  "dashboard.comparisonsTotal": "All comparisons",
+  "dashboard.activeClients": "Active clients",
+  "dashboard.recentTitle": "Recent comparisons",
+  "dashboard.recentDescription": "Your latest insurance offer analyses",
+  "dashboard.empty": "You have no comparisons yet",
+  "dashboard.createFirst": "Create your first comparison",
+  "dashboard.clientsDescription": "Manage your client base",
+  "dashboard.viewClients": "View clients",
+  "dashboard.documentsTitle": "Document library",
+  "dashboard.documentsDescription": "Compare previously uploaded offers",
+  "dashboard.viewDocuments": "View documents",
+  "dashboard.ratesDescription": "Convert offers in foreign currencies",
+  "dashboard.manageRates": "Manage rates",
+  "dashboard.reportsTitle": "Reports",
+  "dashboard.reportsDescription": "Export and share comparisons",
+  "dashboard.browseReports": "Browse reports (coming soon)",
+
+  "comparisonStatus.completed": "Completed",
+  "comparisonStatus.failed": "Failed",
+  "comparisonStatus.needs_review": "Needs review",
+  "comparisonStatus.processing": "In progress",
+
+  "clients.title": "Clients",
+  "clients.newClient": "New client",
+  "clients.listTitle": "Client list",
+  "clients.listEmptyDescription": "Add your first client to assign comparisons to them",
+  "clients.searchPlaceholder": "Search by name, email or phone",
+  "clients.since": "Since {date}",
+  "clients.noMatches": "No clients match your search",
+  "clients.empty": "You have no clients yet",
+  "clients.loadFailed": "Failed to load clients",
+
+  "clientDetail.loadFailed": "Failed to load the client",
+  "clientDetail.changesSaved": "Changes saved",
+  "clientDetail.weightsSaved": "Offer scoring weights saved",
+  "clientDetail.weightsReset": "Default weights restored",
+  "clientDetail.weightsSaveFailed": "Could not save the weights",
+  "clientDetail.needsSaved": "Needs profile saved",
+  "clientDetail.needsCleared": "Needs profile cleared",
+  "clientDetail.needsSaveFailed": "Could not save the needs profile",
+  "clientDetail.deleted": "Client deleted",
+  "clientDetail.deleteFailed": "Could not delete the client",
+  "clientDetail.notFoundTitle": "Client not found",
+  "clientDetail.notFoundDescription": "The client may have been deleted",
+  "clientDetail.backToClients": "Back to the client list",
+  "clientDetail.edit": "Edit",
+  "clientDetail.delete": "Delete",
+  "clientDetail.historyTitle": "Comparison history",
+  "clientDetail.historyDescription": "Comparisons assigned to the client",
+  "clientDetail.comparisonFallback": "Offer comparison",
+  "clientDetail.offerCount": "{count} offers",
+  "clientDetail.noComparisons": "No comparisons for this client",
+  "clientDetail.documentsTitle": "Uploaded documents",
+  "clientDetail.documentsDescription": "Offers uploaded in the client's comparisons",
+  "clientDetail.noDocuments": "No documents for this client",
+  "clientDetail.needsTitle": "Needs profile",
+  "clientDetail.needsDescription": "The client's answers are taken into account in the analysis and summary of every comparison. Offers over budget or without the required coverage are flagged in the table.",
+  "clientDetail.saveNeeds": "Save profile",
+  "clientDetail.deleteTitle": "Delete client {name}?",
+  "clientDetail.deleteDescription": "Comparisons and documents are kept but will no longer be assigned to the client.",
+  "clientDetail.deleteConfirm": "Delete client",
+
+  "documents.title": "Document library",
+  "documents.subtitle": "Offers uploaded in all comparisons",
+  "documents.compareSelected": "Compare selected ({count})",
+  "documents.listTitle": "Documents",
+  "documents.listDescription": "Select processed offers to compare them without uploading and reading them again.",
+  "documents.searchPlaceholder": "Search by file name, insurer or product",
+  "documents.file": "File",
+  "documents.status": "Status",
+  "documents.insurer": "Insurer",
+  "documents.productType": "Insurance type",
+  "documents.ocr": "OCR",
+  "documents.added": "Added",
+  "documents.select": "Select {name}",
+  "documents.noMatches": "No documents match your search",
+  "documents.empty": "No documents have been uploaded yet",
+  "documents.loadFailed": "Failed to load documents",
+
+  "rates.title": "Exchange rates",
+  "rates.subtitle": "Rates used to convert offers in foreign currencies",
+  "rates.import": "Import from file",
+  "rates.formTitle": "Add or change a rate",
+  "rates.formDescription": "Enter the value of 1 unit of the currency in PLN (e.g. EUR = {example}). The import file may contain \"currency;rate;date\" lines or a JSON list.",
+  "rates.currency": "Currency",
+  "rates.rate": "Rate (PLN)",
+  "rates.validOn": "Rate date",
+  "rates.save": "Save rate",
+  "rates.savedTitle": "Saved rates",
+  "rates.savedEmptyDescription": "Without rates, offers in foreign currencies are left out of the premium ranking",
+  "rates.rateFrom": "Rate of {date}",
+  "rates.noDate": "No date",
+  "rates.sourceImport": "imported from file",
+  "rates.sourceManual": "entered manually",
+  "rates.delete": "Delete the {currency} rate",
+  "rates.empty": "You have no saved exchange rates yet",
+  "rates.loadFailed": "Failed to load exchange rates",
+  "rates.saved": "Rate saved",
+  "rates.saveFailed": "Could not save the rate",
+  "rates.imported": "Rates imported: {count}",
+  "rates.importFailed": "Importing rates failed",
+  "rates.deleteFailed": "Could not delete the rate",
+
+  "auth.backHome": "Back to home page",
+  "auth.title": "Welcome to InsurCompare",
+  "auth.description": "Sign in or create an account to get started",
+  "auth.loginFailed": "Sign-in failed",
+  "auth.loggedIn": "Signed in successfully",
+  "auth.signupFailed": "Sign-up failed",
+  "auth.accountCreated": "Account created!",
+  "auth.canSignIn": "You can now sign in",
+  "auth.error": "Error",
+  "auth.linkSent": "Link sent!",
+  "auth.checkInbox": "Check your email inbox",
+  "auth.passwordsMismatch": "The passwords do not match",
+  "auth.passwordChanged": "Password changed!",
+  "auth.setPasswordTitle": "Set a new password",
+  "auth.setPasswordDescription": "Enter a new password for your account",
+  "auth.newPassword": "New password",
+  "auth.confirmPassword": "Confirm password",
+  "auth.changingPassword": "Changing password...",
+  "auth.changePassword": "Change password",
+  "auth.resetTitle": "Reset password",
+  "auth.resetDescription": "We will email you a link to reset your password",
+  "auth.email": "Email",
+  "auth.sending": "Sending...",
+  "auth.sendLink": "Send link",
+  "auth.backToLogin": "Back to sign in",
+  "auth.loginTab": "Sign in",
+  "auth.signupTab": "Sign up",
+  "auth.password": "Password",
+  "auth.loggingIn": "Signing in...",
+  "auth.logIn": "Sign in",
+  "auth.forgotPassword": "Forgot your password?",
+  "auth.fullName": "Full name",
+  "auth.fullNamePlaceholder": "John Smith",
+  "auth.company": "Company name (optional)",
+  "auth.companyPlaceholder": "My Insurance Agency",
+  "auth.creatingAccount": "Creating account...",
+  "auth.createAccount": "Create account",
+  "auth.termsPrefix": "By signing up, you accept our",
+  "auth.terms": "Terms of Service",
+  "auth.and": "and",
+  "auth.privacy": "Privacy Policy",
+};
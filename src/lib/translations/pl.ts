@@ -0,0 +1,774 @@
+/**
+ * Polish messages, the source language of the app. Every other language must translate each key;
+ * `{name}` placeholders are filled in by `translate`.
+ */
+export const pl = {
+  "language.label": "Język",
+
+  "stage.uploading_files": "Przesyłanie plików...",
+  "stage.creating_documents": "Zapisywanie dokumentów...",
+  "stage.triggering_extraction": "Ekstrahowanie danych z dokumentów...",
+  "stage.waiting_for_extraction": "Czekam na ekstrakcję danych...",
+  "stage.creating_comparison": "Tworzenie porównania...",
+  "stage.comparing_offers": "Porównywanie ofert...",
+  "stage.generating_summary": "Generowanie podsumowania AI...",
+
+  "documentStage.mineru_queued": "W kolejce do OCR",
+  "documentStage.mineru_running": "Rozpoznawanie tekstu (OCR)",
+  "documentStage.archive_downloaded": "Pobrano wyniki OCR",
+  "documentStage.ai_extraction": "Ekstrakcja danych AI",
+  "documentStage.unified_build": "Budowanie struktury oferty",
+  "documentProgress.completed": "Gotowe",
+  "documentProgress.failed": "Błąd przetwarzania",
+  "documentProgress.starting": "Rozpoczynanie przetwarzania",
+  "documentProgress.waiting": "Oczekuje na przetwarzanie",
+
+  "jobProgress.failedTitle": "Przetwarzanie nie powiodło się",
+  "jobProgress.runningTitle": "Porównanie w toku",
+  "jobProgress.failedDescription": "Nie udało się przetworzyć porównania.",
+  "jobProgress.runningDescription": "Przetwarzanie trwa na serwerze. Możesz zamknąć tę stronę i wrócić później.",
+  "jobProgress.retrying": "Ponawiam etap (próba {attempt} z {max})...",
+  "jobProgress.resume": "Wznów przetwarzanie",
+
+  "premiumBasis.annual": "rocznie",
+  "premiumBasis.monthly": "miesięcznie",
+
+  "metrics.offerCount": "Liczba ofert",
+  "metrics.lowestPremium": "Najniższa składka ({basis})",
+  "metrics.highestCoverage": "Najwyższa ochrona",
+  "metrics.averagePremium": "Średnia składka ({basis})",
+  "metrics.noData": "Brak danych",
+
+  "sections.price": "Cena i składki",
+  "sections.basicCoverage": "Zakres podstawowy",
+  "sections.additionalCoverage": "Zakres dodatkowy",
+  "sections.exclusions": "Ograniczenia i wyłączenia",
+  "rows.premium": "Wysokość składki",
+  "rows.premiumShort": "Składka ({basis})",
+  "rows.premiumDelta": "Odchylenie od średniej ({basis})",
+  "rows.baseContracts": "Świadczenia podstawowe",
+  "rows.deductible": "Franszyza / udział własny",
+  "rows.additionalCoverage": "Zakres dodatkowy",
+  "rows.exclusions": "Wyłączenia",
+  "rows.aiAnalysis": "Analiza AI",
+  "rows.aiComment": "Komentarz AI",
+  "rows.noAiComment": "Brak komentarza AI",
+  "rows.noAiDifferences": "Brak różnic wykrytych przez AI",
+  "cell.source": "Źródło: {source}",
+  "cell.payment": "Płatność: {value}",
+  "cell.paymentOptions": "Opcje: {value}",
+  "cell.statedInOffer": "W ofercie: {value}",
+  "cell.exchangeRate": "kurs {rate}",
+  "cell.missingRate": "Brak kursu {currency} – pominięto w porównaniu składek",
+  "cell.estimateAmbiguousCycle": "Przeliczenie szacunkowe: oferta nie określa jednoznacznie cyklu płatności",
+  "cell.estimateMissingCycle": "Przeliczenie szacunkowe: brak cyklu płatności, przyjęto składkę roczną",
+  "item.noDescription": "Brak opisu",
+  "item.benefit": "Świadczenie {index}",
+  "item.addon": "Dodatek {index}",
+  "item.assistance": "Usługa assistance {index}",
+  "item.sum": "suma: {value}",
+  "item.variant": "wariant: {value}",
+  "item.premium": "składka: {value}",
+  "item.limit": "limit: {value}",
+
+  "summaryStyle.label": "Styl podsumowania",
+  "summaryStyle.client.label": "Dla klienta",
+  "summaryStyle.client.description": "Prosty, przyjazny język, do 150 słów",
+  "summaryStyle.sms.label": "SMS",
+  "summaryStyle.sms.description": "Krótka wiadomość do klienta, do 300 znaków",
+  "summaryStyle.memo.label": "Notatka wewnętrzna",
+  "summaryStyle.memo.description": "Szczegółowa, fachowa notatka do akt",
+  "summaryStyle.letter.label": "List formalny",
+  "summaryStyle.letter.description": "Oficjalna rekomendacja w formie listu",
+
+  "summary.title": "Rekomendacja AI",
+  "summary.description": "Najważniejsze wskazówki przygotowane na podstawie analizy ofert",
+  "summary.showJustifications": "Pokaż uzasadnienia",
+  "summary.copy": "Kopiuj",
+  "summary.generate": "Wygeneruj",
+  "summary.regenerate": "Wygeneruj ponownie",
+  "summary.empty": "Brak podsumowania w wybranym stylu.",
+  "summary.generating": "Generowanie podsumowania…",
+  "summary.recommendedOffer": "Rekomendowana oferta",
+  "summary.insurer": "Towarzystwo: {name}",
+  "summary.reasons": "Powody wyboru",
+  "summary.risks": "Ryzyka",
+  "summary.nextSteps": "Rekomendacje",
+  "summary.keyNumbers": "Kluczowe liczby",
+  "summary.descriptionLine": "Opis: {text}",
+  "summary.recommendedLine": "Rekomendowana oferta: {name}",
+  "summary.sources": "Źródła analizy",
+  "summary.source": "Źródło {order}",
+  "summary.showSource": "Pokaż źródło {label}",
+  "summary.sourceOffer": "Oferta: {label}",
+  "summary.sourcePage": "Strona: {page}",
+  "summary.sourcePageShort": "str. {page}",
+  "summary.nothingToCopy": "Brak treści do skopiowania",
+  "summary.copyUnsupported": "Kopiowanie nie jest wspierane w tej przeglądarce",
+  "summary.copied": "Skopiowano rekomendację AI",
+  "summary.copyFailed": "Nie udało się skopiować treści",
+  "summary.failed": "Nie udało się wygenerować podsumowania",
+  "summary.highlightsTitle": "Najważniejsze różnice",
+  "summary.highlightsDescription": "Wyliczone na podstawie danych z ofert",
+
+  "report.documentTitle": "Raport porównania ofert",
+  "report.heading": "Porównanie ofert ubezpieczeniowych",
+  "report.client": "Klient: {name}",
+  "report.productType": "Rodzaj produktu: {type}",
+  "report.date": "Data raportu: {date}",
+  "report.comparisonId": "Identyfikator porównania: {id}",
+  "report.generated": "wygenerowano {date}",
+  "report.page": "Strona {page} z {total}",
+  "report.recommendation": "Rekomendacja",
+  "report.keyArguments": "Kluczowe argumenty",
+  "report.watchOut": "Na co uważać",
+  "report.nextSteps": "Kolejne kroki",
+  "report.sources": "Źródła",
+  "report.sourceDocument": "Dokument źródłowy",
+  "report.citationPage": "str. {page}",
+  "report.noData": "Brak danych",
+
+  "result.loadFailed": "Błąd ładowania porównania",
+  "result.unknownError": "Nieznany błąd",
+  "result.ratesLoadFailed": "Nie udało się pobrać kursów walut",
+  "result.versionsLoadFailed": "Nie udało się pobrać wersji porównania",
+  "result.resumeFailed": "Nie udało się wznowić przetwarzania",
+  "result.previewFailed": "Nie udało się wczytać podglądu.",
+  "result.downloadFailed": "Nie udało się pobrać dokumentu.",
+  "result.previewNotFound": "Nie znaleziono dokumentu do podglądu.",
+  "result.documentsExcluded": "Wykluczono dokumenty",
+  "result.documentsExcludedDescription": "Porównanie jest przygotowywane dla pozostałych ofert.",
+  "result.excludeFailed": "Nie udało się wykluczyć dokumentów.",
+  "result.comparisonResumeFailed": "Nie udało się wznowić porównania.",
+  "result.offersAdded": "Dodano oferty",
+  "result.offersAddedReading": "Nowe dokumenty są odczytywane, po czym porównanie zostanie przeliczone.",
+  "result.offersAddedDescription": "Porównanie i podsumowanie są przeliczane z nowymi ofertami.",
+  "result.addOffersFailed": "Nie udało się dodać ofert.",
+  "result.offersRemoved": "Usunięto oferty",
+  "result.offersRemovedDescription": "Porównanie i podsumowanie są przeliczane bez usuniętych ofert.",
+  "result.removeOffersFailed": "Nie udało się usunąć ofert.",
+  "result.rerunStarted": "Przeliczanie rozpoczęte",
+  "result.rerunStartedDescription": "Nowa wersja porównania pojawi się po zakończeniu analizy.",
+  "result.rerunFailed": "Nie udało się przeliczyć porównania.",
+  "result.reportReady": "Raport PDF jest gotowy",
+  "result.reportReadyDescription": "Link do raportu jest ważny przez 7 dni.",
+  "result.reportFailed": "Nie udało się wygenerować raportu.",
+  "result.correctionSaved": "Zapisano poprawkę",
+  "result.correctionSavedDescription": "Porównanie i podsumowanie są przeliczane z nową wartością.",
+  "result.correctionFailed": "Nie udało się zastosować poprawki.",
+  "result.currencyChangeFailed": "Nie udało się zmienić waluty porównania.",
+  "result.needsSaved": "Zapisano profil potrzeb",
+  "result.needsSavedDescription": "Porównanie i podsumowanie są przygotowywane ponownie z uwzględnieniem profilu.",
+  "result.needsSaveFailed": "Nie udało się zapisać profilu potrzeb.",
+  "result.offerSaved": "Oferta została zapisana!",
+  "result.offerSavedDescription": "Wybrano: {name}",
+  "result.previewUnavailable": "Podgląd dokumentu jest niedostępny",
+  "result.downloadNotStarted": "Nie udało się rozpocząć pobierania",
+  "result.fileName": "Plik: {name}",
+  "result.preview": "Podgląd",
+  "result.download": "Pobierz",
+  "result.selected": "Wybrano",
+  "result.selectOffer": "Wybierz ofertę",
+  "result.back": "Powrót do panelu",
+  "result.exportPdf": "Eksportuj PDF",
+  "result.exportingPdf": "Generowanie raportu...",
+  "result.offerLabel": "Oferta {index}",
+  "result.notReadyTitle": "Brak danych",
+  "result.notReadyDescription": "Porównanie nie jest jeszcze gotowe",
+  "result.viewingVersion": "Przeglądasz wersję {version}",
+  "result.viewingVersionDescription": "Analiza AI pochodzi z wcześniejszego przeliczenia. Dane ofert w tabeli są aktualne.",
+  "result.premiumBasis": "Porównuj składki:",
+  "result.annual": "Rocznie",
+  "result.monthly": "Miesięcznie",
+  "result.reportingCurrency": "Waluta raportu:",
+  "result.exchangeRates": "Kursy walut",
+  "result.clientNeeds": "Potrzeby klienta",
+  "result.offers": "Oferty",
+  "result.overviewTab": "Przegląd ofert",
+  "result.detailsTab": "Szczegółowe porównanie",
+  "result.aiTab": "Analiza AI",
+  "result.selectedOffer": "Wybrana oferta: {label}",
+  "result.selectedInsurer": "Ubezpieczyciel: {name}",
+  "result.calculationId": "ID kalkulacji: {id}",
+  "result.confirmSelection": "Potwierdź wybór",
+  "result.needsTitle": "Potrzeby klienta w tym porównaniu",
+  "result.needsOwnProfile": "Porównanie ma własny profil potrzeb. Wyczyszczenie go przywróci profil zapisany u klienta.",
+  "result.needsClientProfile": "Zapis utworzy profil tylko dla tego porównania, bez zmian w profilu klienta {name}.",
+  "result.needsNoClient": "Profil zostanie uwzględniony w analizie i podsumowaniu tego porównania.",
+  "result.needsSubmit": "Zapisz i przelicz",
+
+  "errors.unexpected": "Wystąpił nieoczekiwany błąd podczas przetwarzania",
+  "errors.clientNameRequired": "Podaj imię i nazwisko klienta",
+  "errors.invalidEmail": "Nieprawidłowy adres e-mail",
+  "errors.invalidPhone": "Nieprawidłowy numer telefonu",
+  "errors.clientsLoadFailed": "Nie udało się pobrać listy klientów.",
+  "errors.clientNotFound": "Nie znaleziono klienta.",
+  "errors.clientCreateFailed": "Nie udało się dodać klienta.",
+  "errors.clientUpdateFailed": "Nie udało się zapisać zmian klienta.",
+  "errors.clientDeleteFailed": "Nie udało się usunąć klienta.",
+  "errors.negativeWeights": "Wagi muszą być liczbami nieujemnymi",
+  "errors.weightsSaveFailed": "Nie udało się zapisać wag oceny ofert.",
+  "errors.clientHistoryFailed": "Nie udało się pobrać historii klienta.",
+  "errors.duplicateOffers": "Wybrane pliki zawierają tę samą ofertę. Dodaj co najmniej dwie różne oferty.",
+  "errors.comparisonResultsFailed": "Nie udało się pobrać wyników porównania.",
+  "errors.comparisonStartFailed": "Nie udało się uruchomić przetwarzania porównania.",
+  "errors.documentsLoadFailed": "Nie udało się pobrać dokumentów.",
+  "errors.selectOffersToAdd": "Wybierz oferty do dodania.",
+  "errors.offersAlreadyCompared": "Te oferty są już w porównaniu.",
+  "errors.selectOffersToRemove": "Wybierz oferty do usunięcia.",
+  "errors.minTwoOffers": "Porównanie musi zawierać co najmniej dwie oferty.",
+  "errors.comparisonStatusFailed": "Nie udało się sprawdzić statusu porównania.",
+  "errors.processingAborted": "Przetwarzanie zostało przerwane.",
+  "errors.comparisonFailed": "Nie udało się przetworzyć porównania.",
+  "errors.jobDocumentsFailed": "Nie udało się przetworzyć co najmniej jednego dokumentu oferty.",
+  "errors.jobExtractionTimeout": "Przekroczono limit czasu przetwarzania dokumentów.",
+  "errors.jobProductTypeMismatch": "Oferty dotyczą różnych rodzajów ubezpieczeń. Wyklucz niepasujące dokumenty lub potwierdź porównanie.",
+  "errors.jobSummaryFailed": "Nie udało się wygenerować podsumowania AI. Wyniki porównania są dostępne.",
+  "errors.filesReadFailed": "Nie udało się odczytać plików.",
+  "errors.uploadedDocumentsCheckFailed": "Nie udało się sprawdzić przesłanych dokumentów.",
+  "errors.uploadFailed": "Nie udało się przesłać plików. Spróbuj ponownie.",
+  "errors.documentsSaveFailed": "Nie udało się zapisać dokumentów.",
+  "errors.comparisonCreateFailed": "Nie udało się utworzyć porównania.",
+  "errors.comparisonLoadFailed": "Nie udało się pobrać porównania.",
+  "errors.comparisonOffersUpdateFailed": "Nie udało się zaktualizować ofert porównania.",
+  "errors.rerunFailedOffersRestored": "Nie udało się przeliczyć porównania. Oferty porównania nie zostały zmienione.",
+  "errors.rerunFailedOffersSaved": "Oferty zostały zapisane, ale nie udało się przeliczyć porównania.",
+  "errors.versionsLoadFailed": "Nie udało się pobrać historii porównania.",
+  "errors.recalculationStartFailed": "Nie udało się uruchomić ponownego przeliczenia.",
+  "errors.libraryLoadFailed": "Nie udało się pobrać biblioteki dokumentów.",
+  "errors.invalidDocumentPath": "Niepoprawna ścieżka pliku dokumentu.",
+  "errors.documentLocationFailed": "Nie udało się odczytać lokalizacji dokumentu w magazynie.",
+  "errors.signedUrlFailed": "Nie udało się wygenerować podpisanego adresu URL.",
+  "errors.downloadLinkFailed": "Nie udało się przygotować linku do pobrania dokumentu.",
+  "errors.previewLinkFailed": "Nie udało się przygotować podglądu dokumentu.",
+  "errors.invalidCurrencyCode": "Niepoprawny kod waluty: {currency}",
+  "errors.baseCurrencyRate": "PLN jest walutą bazową i nie wymaga kursu",
+  "errors.invalidRate": "Kurs {currency} musi być liczbą większą od zera",
+  "errors.ratesLoadFailed": "Nie udało się pobrać kursów walut.",
+  "errors.ratesSaveFailed": "Nie udało się zapisać kursów walut.",
+  "errors.rateDeleteFailed": "Nie udało się usunąć kursu.",
+  "errors.reportingCurrencyFailed": "Nie udało się zmienić waluty porównania.",
+  "errors.invalidAge": "Podaj wiek klienta jako liczbę od 0 do 120",
+  "errors.negativeDependants": "Liczba osób na utrzymaniu nie może być ujemna",
+  "errors.invalidBudget": "Budżet musi być kwotą większą od zera",
+  "errors.clientNeedsSaveFailed": "Nie udało się zapisać profilu potrzeb klienta.",
+  "errors.comparisonNeedsSaveFailed": "Nie udało się zapisać profilu potrzeb porównania.",
+  "errors.needsSavedRefreshFailed": "Profil został zapisany, ale nie udało się odświeżyć porównania.",
+  "errors.correctionSaveFailed": "Nie udało się zapisać poprawki.",
+  "errors.correctionSavedRefreshFailed": "Poprawka została zapisana, ale nie udało się odświeżyć porównania.",
+  "errors.selectDocumentsToExclude": "Zaznacz dokumenty do wykluczenia.",
+  "errors.decisionSaveFailed": "Nie udało się zapisać decyzji.",
+  "errors.decisionSavedResumeFailed": "Decyzja została zapisana, ale nie udało się wznowić porównania.",
+  "errors.reportSaveFailed": "Nie udało się zapisać raportu PDF.",
+  "errors.reportAttachFailed": "Nie udało się powiązać raportu z porównaniem.",
+  "errors.reportUrlFailed": "Nie udało się przygotować linku do raportu.",
+  "errors.summaryStartFailed": "Nie udało się uruchomić generowania podsumowania.",
+  "errors.summaryFailed": "Nie udało się wygenerować podsumowania.",
+  "errors.summaryInterrupted": "Przerwano odbieranie podsumowania.",
+  "errors.summaryStreamEnded": "Strumień podsumowania zakończył się przed wynikiem.",
+
+
+  "files.maxFiles": "Maksymalnie {max} plików",
+  "files.tooLarge": "Plik za duży",
+  "files.tooLargeDescription": "Maksymalny rozmiar: {size}. Plik \"{name}\" jest za duży.",
+  "files.invalidFormat": "Nieprawidłowy format",
+  "files.acceptedFormats": "Akceptowane formaty: {formats}",
+  "files.minOffers": "Dodaj minimum {min} oferty do porównania",
+
+  "errors.clientSaveFailed": "Nie udało się zapisać klienta.",
+
+
+  "paymentCycle.monthly": "miesięczna",
+  "paymentCycle.annual": "roczna",
+  "paymentCycle.quarterly": "kwartalna",
+  "paymentCycle.semiannual": "półroczna",
+  "paymentCycle.single": "jednorazowa",
+  "paymentCycle.other": "inna",
+  "paymentCycle.various": "różne",
+
+
+  "riskTolerance.low": "Niska – pełna ochrona ważniejsza od ceny",
+  "riskTolerance.medium": "Średnia",
+  "riskTolerance.high": "Wysoka – akceptuje luki w ochronie za niższą cenę",
+  "needs.budgetExceeded": "Składka {premium} {basis} przekracza budżet {budget}",
+  "needs.missingCoverage": "Brak wymaganego zakresu: {coverage}",
+
+
+  "scoring.price": "Składka roczna",
+  "scoring.sumInsured": "Sumy ubezpieczenia",
+  "scoring.assistance": "Zakres assistance",
+  "scoring.exclusions": "Liczba wyłączeń",
+  "scoring.discounts": "Zniżki",
+  "scoring.waitingPeriods": "Najdłuższa karencja",
+  "scoring.noData": "Brak danych",
+  "scoring.noWaitingPeriod": "Brak karencji",
+  "scoring.days": "{count} dni",
+
+  "scoring.title": "Ocena punktowa ofert",
+  "scoring.description": "Każde kryterium porównuje oferty między sobą: najlepsza wartość otrzymuje pełną wagę, najsłabsza zero punktów. Wagi: {source}.",
+  "scoring.criterionHeader": "Kryterium (waga)",
+  "scoring.points": "{points} pkt",
+  "scoring.total": "Wynik (0–100)",
+  "scoring.weightsTitle": "Wagi oceny ofert",
+  "scoring.weightsDescription": "Określ, co jest dla klienta najważniejsze. Puste pola przyjmują wagi domyślne dla rodzaju produktu.",
+  "scoring.restoreDefaults": "Przywróć domyślne",
+  "scoring.saveWeights": "Zapisz wagi",
+
+
+  "versionChange.offerAdded": "Dodano ofertę: {name}",
+  "versionChange.offerCorrected": "Poprawiono dane oferty {name} (poprawki: {count})",
+  "versionChange.offerDataChanged": "Zmieniły się dane oferty {name}",
+  "versionChange.offerRemoved": "Usunięto ofertę: {name}",
+  "versionChange.comparisonModel": "Model porównania: {previous} → {current}",
+  "versionChange.summaryModel": "Model podsumowania: {previous} → {current}",
+  "versionChange.noModel": "brak",
+  "versionChange.comparisonPrompt": "Zmieniono instrukcje porównania ofert",
+  "versionChange.summaryPrompt": "Zmieniono instrukcje podsumowania",
+  "versionChange.needs": "Zmieniono profil potrzeb klienta",
+  "versionChange.recommendation": "Rekomendacja: {previous} → {current}",
+  "versionChange.highlightAdded": "Nowa różnica: {text}",
+  "versionChange.highlightRemoved": "Usunięta różnica: {text}",
+
+  "analysisMessage.premium_missing": "Brak składki w danych oferty.",
+  "analysisMessage.annual_premium": "Składka roczna: {amount}.",
+  "analysisMessage.cheapest": "Najniższa składka.",
+  "analysisMessage.cheapest_in_currency": "Najniższa składka wśród ofert w {currency}.",
+  "analysisMessage.more_expensive": "Drożej o {amount} ({percent}%) niż {offer}.",
+  "analysisMessage.over_budget": "Przekracza budżet klienta ({amount} rocznie).",
+  "analysisMessage.sums_missing": "Brak sum ubezpieczenia w danych oferty.",
+  "analysisMessage.total_sum": "Łączna suma ubezpieczenia: {amount}.",
+  "analysisMessage.additional_contracts": "Umowy dodatkowe: {count}.",
+  "analysisMessage.missing_required": "Brak wymaganych zakresów: {names}.",
+  "analysisMessage.assistance_none": "Brak świadczeń assistance.",
+  "analysisMessage.assistance_services": "Świadczenia assistance: {names}.",
+  "analysisMessage.assistance_missing": "Brak względem innych ofert: {names}.",
+  "analysisMessage.exclusions_no_data": "Brak danych o wyłączeniach.",
+  "analysisMessage.exclusions_count": "Liczba wyłączeń: {count}.",
+  "analysisMessage.exclusions_unique": "Wyłączenia występujące tylko w tej ofercie: {names}.",
+  "analysisMessage.cheapest_offers": "Najniższa składka roczna: {offers}.",
+  "analysisMessage.highest_sum_offers": "Najwyższa łączna suma ubezpieczenia: {offers}.",
+  "analysisMessage.widest_assistance_offers": "Najszerszy pakiet assistance: {offers}.",
+  "analysisMessage.mixed_product_types": "Oferty dotyczą różnych rodzajów ubezpieczeń i nie są w pełni porównywalne.",
+  "analysisMessage.over_budget_offers": "Oferty przekraczające budżet klienta: {offers}.",
+  "analysisMessage.missing_required_offers": "Oferty bez wymaganych zakresów: {offers}.",
+  "analysisMessage.andOthers": "{names} i {count} innych",
+
+
+  "versions.title": "Wersje porównania",
+  "versions.selected": "Wersja {version} z {date}",
+  "versions.model": " • model {model}",
+  "versions.empty": "Historia przeliczeń pojawi się po pierwszym porównaniu.",
+  "versions.option": "Wersja {version} • {date}",
+  "versions.current": " (aktualna)",
+  "versions.rerun": "Przelicz ponownie",
+  "versions.changesSince": "Zmiany względem wersji {version}",
+  "versions.noChanges": "Nie wykryto zmian względem poprzedniej wersji.",
+
+
+  "rateFile.entry": "Pozycja {index}",
+  "rateFile.line": "Wiersz {index}",
+  "rateFile.invalidCurrency": "{label}: niepoprawny kod waluty „{currency}”",
+  "rateFile.invalidRate": "{label}: niepoprawny kurs dla {currency}",
+  "rateFile.invalidJsonShape": "Plik JSON musi zawierać listę kursów lub obiekt {\"EUR\": 4.3}",
+  "rateFile.invalidJson": "Nie udało się odczytać pliku JSON",
+
+
+  "productTemplate.auto_insurance.label": "Ubezpieczenie komunikacyjne",
+  "productTemplate.auto_insurance.section": "OC, AC i NNW",
+  "productField.auto_insurance.oc_sum": "Suma gwarancyjna OC",
+  "productField.auto_insurance.ac_sum": "Suma ubezpieczenia AC",
+  "productField.auto_insurance.ac_deductible": "Udział własny AC",
+  "productField.auto_insurance.nnw_sum": "Suma NNW kierowcy i pasażerów",
+  "productField.auto_insurance.assistance_towing_km": "Holowanie (km)",
+  "productTemplate.travel_insurance.label": "Ubezpieczenie turystyczne",
+  "productTemplate.travel_insurance.section": "Ochrona w podróży",
+  "productField.travel_insurance.medical_costs_abroad": "Koszty leczenia za granicą",
+  "productField.travel_insurance.rescue_costs": "Koszty ratownictwa",
+  "productField.travel_insurance.baggage_sum": "Bagaż podróżny",
+  "productField.travel_insurance.travel_nnw_sum": "NNW w podróży",
+  "productField.travel_insurance.territorial_scope": "Zakres terytorialny",
+  "productTemplate.property_insurance.label": "Ubezpieczenie majątkowe",
+  "productTemplate.property_insurance.section": "Mury i ruchomości",
+  "productField.property_insurance.walls_sum": "Suma ubezpieczenia murów",
+  "productField.property_insurance.contents_sum": "Suma ubezpieczenia ruchomości",
+  "productField.property_insurance.theft_sum": "Kradzież z włamaniem",
+  "productField.property_insurance.civil_liability_sum": "OC w życiu prywatnym",
+  "productField.property_insurance.property_deductible": "Franszyza",
+  "productTemplate.life_insurance.label": "Ubezpieczenie na życie",
+  "productTemplate.life_insurance.section": "Sumy ubezpieczenia na życie",
+  "productField.life_insurance.death_sum": "Suma na wypadek śmierci",
+  "productField.life_insurance.accidental_death_sum": "Śmierć w wyniku NW",
+  "productField.life_insurance.critical_illness_sum": "Poważne zachorowanie",
+  "productTemplate.health_insurance.label": "Ubezpieczenie zdrowotne",
+  "productTemplate.health_insurance.section": "Świadczenia zdrowotne",
+  "productField.health_insurance.hospital_daily_benefit": "Pobyt w szpitalu (za dzień)",
+  "productField.health_insurance.surgery_sum": "Operacje chirurgiczne",
+  "productField.health_insurance.outpatient_scope": "Zakres ambulatoryjny",
+  "productTemplate.accident_insurance.label": "Ubezpieczenie NNW",
+  "productTemplate.accident_insurance.section": "Świadczenia NNW",
+  "productField.accident_insurance.nnw_sum": "Suma ubezpieczenia NNW",
+  "productField.accident_insurance.permanent_injury_per_percent": "Świadczenie za 1% uszczerbku",
+  "productField.accident_insurance.hospital_daily_benefit": "Pobyt w szpitalu (za dzień)",
+  "productTemplate.unknown": "Nie rozpoznano",
+
+
+  "documentStatus.uploaded": "Przesłany",
+  "documentStatus.processing": "Przetwarzanie",
+  "documentStatus.completed": "Przetworzony",
+  "documentStatus.failed": "Błąd",
+
+
+  "link.httpsOnly": "Dozwolone są tylko bezpieczne adresy HTTPS.",
+  "link.untrustedHost": "Adres prowadzi do niezaufanego hosta.",
+  "link.suspicious": "Adres wygląda na podejrzany.",
+  "link.invalid": "Nieprawidłowy adres URL.",
+  "link.unsafe": "Link oznaczony jako niebezpieczny",
+
+  "cell.normalization": "Normalizacja: {value}",
+
+
+  "needs.age": "Wiek klienta",
+  "needs.dependants": "Osoby na utrzymaniu",
+  "needs.budget": "Budżet na składkę (wymaganie)",
+  "needs.budgetPlaceholder": "np. 200",
+  "needs.budgetCurrency": "Waluta budżetu",
+  "needs.budgetPeriod": "Okres budżetu",
+  "needs.coverages": "Zakresy obowiązkowe (wymaganie, jeden w wierszu)",
+  "needs.coveragesPlaceholder": "Poważne zachorowanie\nPobyt w szpitalu",
+  "needs.riskTolerance": "Skłonność do ryzyka",
+  "needs.riskToleranceNone": "Nie określono",
+  "needs.notes": "Uwagi",
+  "needs.clear": "Wyczyść profil",
+
+
+  "mismatch.title": "Oferty dotyczą różnych rodzajów ubezpieczeń",
+  "mismatch.description": "Większość dokumentów to {type}. Wyklucz niepasujące dokumenty albo porównaj wszystkie oferty mimo różnic.",
+  "mismatch.detectedTypes": "AI: {ai} • klasyfikator: {classifier}",
+  "mismatch.compareAnyway": "Porównaj mimo to",
+  "mismatch.excludeSelected": "Wyklucz zaznaczone ({count}) i porównaj",
+
+
+  "scoring.weightsSource.client": "klienta {name}",
+  "scoring.weightsSource.product": "dla produktu {type}",
+  "scoring.weightsSource.default": "domyślne",
+
+  "mismatch.acknowledgedTitle": "Oferty różnych rodzajów ubezpieczeń",
+  "mismatch.acknowledgedDescription": "Porównanie obejmuje produkty inne niż {type}. Wyniki dotyczą tylko wspólnych elementów ofert.",
+
+  "offer.paymentOptions": "Dostępne opcje: {options}",
+
+  "rates.importSkipped": "Pominięto {count} niepoprawnych pozycji",
+  "rates.importEmpty": "Plik nie zawiera kursów do zaimportowania",
+  "compare.libraryDocumentFallback": "Dane odczytane wcześniej",
+
+
+  "manageOffers.title": "Oferty w porównaniu",
+  "manageOffers.description": "Przeliczane są tylko zmienione elementy: oferty już przetworzone nie są ponownie odczytywane.",
+  "manageOffers.documentsLoadFailed": "Nie udało się wczytać dokumentów",
+  "manageOffers.removeSelected": "Usuń zaznaczone ({count}) i przelicz",
+  "manageOffers.addTitle": "Dodaj oferty",
+  "manageOffers.upload": "Prześlij nowe pliki ofert",
+  "manageOffers.reusable": "Wcześniej przetworzone dokumenty",
+  "manageOffers.maxOffers": "Porównanie może zawierać maksymalnie {max} ofert.",
+  "manageOffers.addSelected": "Dodaj ({count}) i przelicz",
+
+
+  "viewer.title": "Podgląd dokumentu",
+  "viewer.description": "Sprawdź szczegóły oferty bezpośrednio w przesłanym dokumencie.",
+  "viewer.noDocument": "Wybierz dokument, aby wyświetlić jego podgląd.",
+  "viewer.documentId": "ID dokumentu:",
+  "viewer.unsupported": "Podgląd nie jest dostępny dla tego typu pliku.",
+  "viewer.unsupportedHint": "Ten typ pliku nie obsługuje podglądu. Skorzystaj z opcji pobierania.",
+  "viewer.loadFailed": "Nie udało się załadować podglądu dokumentu.",
+  "viewer.renderFailed": "Nie udało się wyświetlić dokumentu: {message}",
+  "viewer.unavailable": "Podgląd dokumentu nie jest dostępny.",
+  "viewer.downloadDocument": "Pobierz dokument",
+
+
+  "table.title": "Szczegółowe porównanie",
+  "table.finishEditing": "Zakończ edycję",
+  "table.correctData": "Popraw dane",
+  "table.category": "Kategoria",
+  "table.section": "Sekcja",
+  "table.recommended": "Rekomendowana",
+  "table.requirementsNotMet": "Nie spełnia wymagań",
+  "table.noAiAnalysis": "Brak analizy AI",
+  "table.itemSumInsured": "{label}: {item} (suma)",
+  "table.highlight.best": "Rekomendacja AI",
+  "table.highlight.warning": "Ostrzeżenie",
+  "table.diff.equal": "Brak różnic",
+  "table.diff.different": "Różnice",
+  "table.diff.partial": "Niepełne dane",
+  "table.diff.missing": "Brak danych",
+
+  "offer.title": "Oferta",
+  "offer.lowestPrice": "Najniższa cena",
+  "offer.bestCoverage": "Najlepszy zakres",
+  "offer.warning": "Uwaga",
+  "offer.insurer": "Ubezpieczyciel",
+  "offer.payment": "Płatność:",
+  "offer.savings": "oszczędzasz {amount}",
+  "offer.baseCoverage": "Zakres podstawowy:",
+  "offer.baseContracts": "Umowy podstawowe:",
+  "offer.additionalCoverage": "Zakres dodatkowy:",
+
+
+  "source.page": "Strona {page}",
+  "source.noSnippet": "Brak podglądu fragmentu",
+  "source.highlight": "Cytowany fragment",
+  "source.document": "Dokument: {id}",
+  "source.open": "Otwórz w dokumencie",
+  "source.additional": "Dodatkowe źródła: {count}",
+
+  "confidence.lowTitle": "Niska pewność odczytu ({score}). Sprawdź wartość w dokumencie przed wysłaniem klientowi.",
+  "confidence.mediumTitle": "Średnia pewność odczytu ({score}).",
+  "confidence.low": "Do weryfikacji",
+  "confidence.medium": "Sprawdź",
+
+
+  "common.cancel": "Anuluj",
+  "common.save": "Zapisz",
+
+  "correction.noData": "brak danych",
+  "correction.invalidAmount": "Podaj kwotę, np. 584,77",
+  "correction.edit": "Popraw: {label}",
+  "correction.originalValue": "Wartość z dokumentu: {value}",
+  "correction.recalculationNotice": "Po zapisaniu porównanie i podsumowanie zostaną przeliczone.",
+  "correction.badge": "Poprawione",
+  "correction.badgeTitle": "Poprawione ręcznie przez {user}, {date}. Wartość z dokumentu: {value}",
+
+
+  "clientPicker.label": "Klient",
+  "clientPicker.loadFailed": "Nie udało się wczytać klientów",
+  "clientPicker.loading": "Wczytywanie klientów...",
+  "clientPicker.placeholder": "Wybierz klienta",
+  "clientPicker.none": "Bez przypisanego klienta",
+  "clientPicker.created": "Dodano klienta",
+
+  "clientForm.newTitle": "Nowy klient",
+  "clientForm.editTitle": "Edytuj klienta",
+  "clientForm.description": "Dane kontaktowe pozwalają przypisywać porównania i dokumenty do klienta.",
+  "clientForm.fullName": "Imię i nazwisko",
+  "clientForm.fullNamePlaceholder": "Jan Kowalski",
+  "clientForm.email": "E-mail",
+  "clientForm.emailPlaceholder": "jan.kowalski@example.com",
+  "clientForm.phone": "Telefon",
+  "clientForm.saveChanges": "Zapisz zmiany",
+  "clientForm.create": "Dodaj klienta",
+
+  "landing.features": "Funkcje",
+  "landing.pricing": "Cennik",
+  "landing.about": "O nas",
+  "landing.signIn": "Zaloguj się",
+  "landing.getStarted": "Rozpocznij",
+  "landing.tagline": "Nowoczesna platforma do porównywania ofert ubezpieczeniowych dla profesjonalistów.",
+  "landing.product": "Produkt",
+  "landing.integrations": "Integracje",
+  "landing.company": "Firma",
+  "landing.contact": "Kontakt",
+  "landing.careers": "Kariera",
+  "landing.legal": "Prawne",
+  "landing.privacy": "Polityka prywatności",
+  "landing.terms": "Regulamin",
+  "landing.security": "Bezpieczeństwo",
+  "landing.copyright": "© {year} InsurCompare. Wszystkie prawa zastrzeżone.",
+  "landing.heroTitle": "Porównuj oferty ubezpieczeniowe w",
+  "landing.heroHighlight": "minutę",
+  "landing.heroDescription": "Platforma dla agentów i brokerów ubezpieczeniowych. Automatyczna analiza polis, czytelne porównania i profesjonalne raporty dla Twoich klientów.",
+  "landing.startFree": "Rozpocznij za darmo",
+  "landing.demo": "Zobacz demo",
+  "landing.fast": "Błyskawiczne",
+  "landing.fastDescription": "OCR + AI w sekundach",
+  "landing.accurate": "Dokładne",
+  "landing.accurateDescription": "Inteligentne mapowanie",
+  "landing.secure": "Bezpieczne",
+  "landing.secureDescription": "RODO & audyt",
+  "landing.imageAlt": "Podgląd panelu InsurCompare",
+  "landing.trustedBy": "Zaufało nam już",
+  "landing.agents": "500+ agentów",
+
+  "notFound.message": "Ups! Nie znaleziono strony",
+  "notFound.home": "Wróć na stronę główną",
+
+  "common.back": "Powrót",
+  "common.view": "Zobacz",
+  "common.total": "Łącznie: {count}",
+
+  "compare.title": "Nowe porównanie",
+  "compare.subtitle": "Prześlij oferty do analizy",
+  "compare.clientTitle": "Informacje o kliencie",
+  "compare.clientDescription": "Opcjonalnie: przypisz porównanie do klienta",
+  "compare.uploadTitle": "Prześlij oferty",
+  "compare.uploadDescription": "Dodaj od 2 do {max} ofert ubezpieczeniowych: PDF, dokumenty Word lub zdjęcia ofert",
+  "compare.dropzone": "Kliknij aby przesłać lub przeciągnij pliki ofert",
+  "compare.dropzoneLimits": "{formats}, maksymalnie {max} plików",
+  "compare.libraryDocuments": "Z biblioteki dokumentów ({count})",
+  "compare.progress": "Postęp przetwarzania ({done}/{total})",
+  "compare.uploadedFiles": "Przesłane pliki ({count}/{max})",
+  "compare.processing": "Przetwarzanie...",
+  "compare.start": "Rozpocznij porównanie",
+  "compare.tipLabel": "Wskazówka:",
+  "compare.tipQuality": "Im lepszej jakości pliki prześlesz, tym dokładniejsze będzie porównanie.",
+  "compare.tipFormats": "Natywne PDF-y działają najlepiej. Zdjęcia i skany powinny być ostre, dobrze oświetlone i obejmować całą stronę oferty.",
+  "compare.libraryLoadFailed": "Nie udało się wczytać dokumentów z biblioteki",
+  "compare.filesAdded": "Dodano pliki: {count}",
+  "compare.ready": "Porównanie gotowe!",
+  "compare.detectedProductType": "Wykryty typ produktu: {type}",
+  "compare.stillProcessing": "Porównanie jest nadal przetwarzane",
+  "compare.stillProcessingDescription": "Przetwarzanie trwa w tle. Wyniki pojawią się automatycznie.",
+  "compare.needsReviewDescription": "Sprawdź dokumenty i zdecyduj, które z nich porównać.",
+  "compare.authRequired": "Musisz być zalogowany",
+  "compare.processingFailed": "Błąd podczas przetwarzania",
+
+  "dashboard.title": "Dashboard",
+  "dashboard.welcome": "Witaj ponownie, Agencie",
+  "dashboard.signOut": "Wyloguj",
+  "dashboard.loadFailed": "Błąd ładowania danych",
+  "dashboard.comparisonsThisMonth": "Porównań w tym miesiącu",
+  "dashboard.comparisonsTotal": "Wszystkich porównań",
+  "dashboard.activeClients": "Aktywnych klientów",
+  "dashboard.recentTitle": "Ostatnie porównania",
+  "dashboard.recentDescription": "Twoje najnowsze analizy ofert ubezpieczeniowych",
+  "dashboard.empty": "Nie masz jeszcze żadnych porównań",
+  "dashboard.createFirst": "Utwórz pierwsze porównanie",
+  "dashboard.clientsDescription": "Zarządzaj bazą swoich klientów",
+  "dashboard.viewClients": "Zobacz klientów",
+  "dashboard.documentsTitle": "Biblioteka dokumentów",
+  "dashboard.documentsDescription": "Porównuj wcześniej przesłane oferty",
+  "dashboard.viewDocuments": "Zobacz dokumenty",
+  "dashboard.ratesDescription": "Przeliczaj oferty w obcych walutach",
+  "dashboard.manageRates": "Zarządzaj kursami",
+  "dashboard.reportsTitle": "Raporty",
+  "dashboard.reportsDescription": "Eksportuj i udostępniaj porównania",
+  "dashboard.browseReports": "Przeglądaj raporty (wkrótce)",
+
+  "comparisonStatus.completed": "Ukończone",
+  "comparisonStatus.failed": "Błąd",
+  "comparisonStatus.needs_review": "Do weryfikacji",
+  "comparisonStatus.processing": "W trakcie",
+
+  "clients.title": "Klienci",
+  "clients.newClient": "Nowy klient",
+  "clients.listTitle": "Lista klientów",
+  "clients.listEmptyDescription": "Dodaj pierwszego klienta, aby przypisywać mu porównania",
+  "clients.searchPlaceholder": "Szukaj po nazwisku, e-mailu lub telefonie",
+  "clients.since": "Od {date}",
+  "clients.noMatches": "Brak klientów pasujących do wyszukiwania",
+  "clients.empty": "Nie masz jeszcze żadnych klientów",
+  "clients.loadFailed": "Błąd ładowania klientów",
+
+  "clientDetail.loadFailed": "Błąd ładowania klienta",
+  "clientDetail.changesSaved": "Zapisano zmiany",
+  "clientDetail.weightsSaved": "Zapisano wagi oceny ofert",
+  "clientDetail.weightsReset": "Przywrócono wagi domyślne",
+  "clientDetail.weightsSaveFailed": "Nie udało się zapisać wag",
+  "clientDetail.needsSaved": "Zapisano profil potrzeb",
+  "clientDetail.needsCleared": "Wyczyszczono profil potrzeb",
+  "clientDetail.needsSaveFailed": "Nie udało się zapisać profilu potrzeb",
+  "clientDetail.deleted": "Usunięto klienta",
+  "clientDetail.deleteFailed": "Nie udało się usunąć klienta",
+  "clientDetail.notFoundTitle": "Nie znaleziono klienta",
+  "clientDetail.notFoundDescription": "Klient mógł zostać usunięty",
+  "clientDetail.backToClients": "Wróć do listy klientów",
+  "clientDetail.edit": "Edytuj",
+  "clientDetail.delete": "Usuń",
+  "clientDetail.historyTitle": "Historia porównań",
+  "clientDetail.historyDescription": "Porównania przypisane do klienta",
+  "clientDetail.comparisonFallback": "Porównanie ofert",
+  "clientDetail.offerCount": "{count} ofert",
+  "clientDetail.noComparisons": "Brak porównań dla tego klienta",
+  "clientDetail.documentsTitle": "Przesłane dokumenty",
+  "clientDetail.documentsDescription": "Oferty przesłane w porównaniach klienta",
+  "clientDetail.noDocuments": "Brak dokumentów dla tego klienta",
+  "clientDetail.needsTitle": "Profil potrzeb",
+  "clientDetail.needsDescription": "Odpowiedzi klienta są uwzględniane w analizie i podsumowaniu każdego porównania. Oferty przekraczające budżet lub bez zakresów obowiązkowych są oznaczane w tabeli.",
+  "clientDetail.saveNeeds": "Zapisz profil",
+  "clientDetail.deleteTitle": "Usunąć klienta {name}?",
+  "clientDetail.deleteDescription": "Porównania i dokumenty zostaną zachowane, ale nie będą już przypisane do klienta.",
+  "clientDetail.deleteConfirm": "Usuń klienta",
+
+  "documents.title": "Biblioteka dokumentów",
+  "documents.subtitle": "Oferty przesłane we wszystkich porównaniach",
+  "documents.compareSelected": "Porównaj zaznaczone ({count})",
+  "documents.listTitle": "Dokumenty",
+  "documents.listDescription": "Zaznacz przetworzone oferty, aby porównać je bez ponownego przesyłania i odczytywania.",
+  "documents.searchPlaceholder": "Szukaj po nazwie pliku, towarzystwie lub produkcie",
+  "documents.file": "Plik",
+  "documents.status": "Status",
+  "documents.insurer": "Towarzystwo",
+  "documents.productType": "Rodzaj ubezpieczenia",
+  "documents.ocr": "OCR",
+  "documents.added": "Dodano",
+  "documents.select": "Zaznacz {name}",
+  "documents.noMatches": "Brak dokumentów pasujących do wyszukiwania",
+  "documents.empty": "Nie przesłano jeszcze żadnych dokumentów",
+  "documents.loadFailed": "Błąd ładowania dokumentów",
+
+  "rates.title": "Kursy walut",
+  "rates.subtitle": "Kursy używane do przeliczania ofert w obcych walutach",
+  "rates.import": "Importuj z pliku",
+  "rates.formTitle": "Dodaj lub zmień kurs",
+  "rates.formDescription": "Podaj wartość 1 jednostki waluty w PLN (np. EUR = {example}). Plik importu może zawierać wiersze „waluta;kurs;data” lub listę JSON.",
+  "rates.currency": "Waluta",
+  "rates.rate": "Kurs (PLN)",
+  "rates.validOn": "Data kursu",
+  "rates.save": "Zapisz kurs",
+  "rates.savedTitle": "Zapisane kursy",
+  "rates.savedEmptyDescription": "Bez kursów oferty w obcych walutach nie są uwzględniane w rankingu składek",
+  "rates.rateFrom": "Kurs z {date}",
+  "rates.noDate": "Bez daty",
+  "rates.sourceImport": "import z pliku",
+  "rates.sourceManual": "wprowadzony ręcznie",
+  "rates.delete": "Usuń kurs {currency}",
+  "rates.empty": "Nie masz jeszcze zapisanych kursów walut",
+  "rates.loadFailed": "Błąd ładowania kursów walut",
+  "rates.saved": "Zapisano kurs",
+  "rates.saveFailed": "Nie udało się zapisać kursu",
+  "rates.imported": "Zaimportowano kursy: {count}",
+  "rates.importFailed": "Import kursów nie powiódł się",
+  "rates.deleteFailed": "Nie udało się usunąć kursu",
+
+  "auth.backHome": "Powrót do strony głównej",
+  "auth.title": "Witaj w InsurCompare",
+  "auth.description": "Zaloguj się lub utwórz konto aby rozpocząć",
+  "auth.loginFailed": "Błąd logowania",
+  "auth.loggedIn": "Zalogowano pomyślnie",
+  "auth.signupFailed": "Błąd rejestracji",
+  "auth.accountCreated": "Konto utworzone!",
+  "auth.canSignIn": "Możesz się teraz zalogować",
+  "auth.error": "Błąd",
+  "auth.linkSent": "Link wysłany!",
+  "auth.checkInbox": "Sprawdź swoją skrzynkę email",
+  "auth.passwordsMismatch": "Hasła nie są identyczne",
+  "auth.passwordChanged": "Hasło zmienione!",
+  "auth.setPasswordTitle": "Ustaw nowe hasło",
+  "auth.setPasswordDescription": "Wprowadź nowe hasło do swojego konta",
+  "auth.newPassword": "Nowe hasło",
+  "auth.confirmPassword": "Potwierdź hasło",
+  "auth.changingPassword": "Zmiana hasła...",
+  "auth.changePassword": "Zmień hasło",
+  "auth.resetTitle": "Resetuj hasło",
+  "auth.resetDescription": "Wyślemy Ci link do zresetowania hasła na email",
+  "auth.email": "Email",
+  "auth.sending": "Wysyłanie...",
+  "auth.sendLink": "Wyślij link",
+  "auth.backToLogin": "Powrót do logowania",
+  "auth.loginTab": "Logowanie",
+  "auth.signupTab": "Rejestracja",
+  "auth.password": "Hasło",
+  "auth.loggingIn": "Logowanie...",
+  "auth.logIn": "Zaloguj się",
+  "auth.forgotPassword": "Zapomniałeś hasła?",
+  "auth.fullName": "Imię i nazwisko",
+  "auth.fullNamePlaceholder": "Jan Kowalski",
+  "auth.company": "Nazwa firmy (opcjonalnie)",
+  "auth.companyPlaceholder": "Moja Agencja Ubezpieczeniowa",
+  "auth.creatingAccount": "Tworzenie konta...",
+  "auth.createAccount": "Utwórz konto",
+  "auth.termsPrefix": "Rejestrując się, akceptujesz nasz",
+  "auth.terms": "Regulamin",
+  "auth.and": "i",
+  "auth.privacy": "Politykę prywatności",
+};
+
+export type MessageKey = keyof typeof pl;
@@ -0,0 +1,770 @@
+import type { MessageKey } from "./pl";
+
+export const uk: Record<MessageKey, string> = {
+  "language.label": "Мова",
+
+  "stage.uploading_files": "Завантаження файлів...",
+  "stage.creating_documents": "Збереження документів...",
+  "stage.triggering_extraction": "Вилучення даних із документів...",
+  "stage.waiting_for_extraction": "Очікування вилучення даних...",
+  "stage.creating_comparison": "Створення порівняння...",
+  "stage.comparing_offers": "Порівняння пропозицій...",
+  "stage.generating_summary": "Створення підсумку ШІ...",
+
+  "documentStage.mineru_queued": "У черзі на OCR",
+  "documentStage.mineru_running": "Розпізнавання тексту (OCR)",
+  "documentStage.archive_downloaded": "Результати OCR отримано",
+  "documentStage.ai_extraction": "Вилучення даних ШІ",
+  "documentStage.unified_build": "Побудова структури пропозиції",
+  "documentProgress.completed": "Готово",
+  "documentProgress.failed": "Помилка обробки",
+  "documentProgress.starting": "Початок обробки",
+  "documentProgress.waiting": "Очікує на обробку",
+
+  "jobProgress.failedTitle": "Обробка не вдалася",
+  "jobProgress.runningTitle": "Порівняння триває",
+  "jobProgress.failedDescription": "Не вдалося обробити порівняння.",
+  "jobProgress.runningDescription": "Обробка триває на сервері. Ви можете закрити цю сторінку й повернутися пізніше.",
+  "jobProgress.retrying": "Повторюю етап (спроба {attempt} з {max})...",
+  "jobProgress.resume": "Відновити обробку",
+
+  "premiumBasis.annual": "на рік",
+  "premiumBasis.monthly": "на місяць",
+
+  "metrics.offerCount": "Кількість пропозицій",
+  "metrics.lowestPremium": "Найнижчий внесок ({basis})",
+  "metrics.highestCoverage": "Найвищий захист",
+  "metrics.averagePremium": "Середній внесок ({basis})",
+  "metrics.noData": "Немає даних",
+
+  "sections.price": "Ціна та внески",
+  "sections.basicCoverage": "Основне покриття",
+  "sections.additionalCoverage": "Додаткове покриття",
+  "sections.exclusions": "Обмеження та винятки",
+  "rows.premium": "Розмір внеску",
+  "rows.premiumShort": "Страховий внесок ({basis})",
+  "rows.premiumDelta": "Відхилення від середнього ({basis})",
+  "rows.baseContracts": "Основні виплати",
+  "rows.deductible": "Франшиза / власна участь",
+  "rows.additionalCoverage": "Додаткове покриття",
+  "rows.exclusions": "Винятки",
+  "rows.aiAnalysis": "Аналіз ШІ",
+  "rows.aiComment": "Коментар ШІ",
+  "rows.noAiComment": "Немає коментаря ШІ",
+  "rows.noAiDifferences": "ШІ не виявив відмінностей",
+  "cell.source": "Джерело: {source}",
+  "cell.payment": "Оплата: {value}",
+  "cell.paymentOptions": "Варіанти: {value}",
+  "cell.statedInOffer": "У пропозиції: {value}",
+  "cell.exchangeRate": "курс {rate}",
+  "cell.missingRate": "Немає курсу {currency} – не враховано в порівнянні внесків",
+  "cell.estimateAmbiguousCycle": "Орієнтовний перерахунок: пропозиція нечітко визначає періодичність оплати",
+  "cell.estimateMissingCycle": "Орієнтовний перерахунок: періодичність оплати не вказано, прийнято річний внесок",
+  "item.noDescription": "Немає опису",
+  "item.benefit": "Виплата {index}",
+  "item.addon": "Доповнення {index}",
+  "item.assistance": "Послуга асистансу {index}",
+  "item.sum": "сума: {value}",
+  "item.variant": "варіант: {value}",
+  "item.premium": "внесок: {value}",
+  "item.limit": "ліміт: {value}",
+
+  "summaryStyle.label": "Стиль підсумку",
+  "summaryStyle.client.label": "Для клієнта",
+  "summaryStyle.client.description": "Проста, дружня мова, до 150 слів",
+  "summaryStyle.sms.label": "SMS",
+  "summaryStyle.sms.description": "Коротке повідомлення клієнту, до 300 символів",
+  "summaryStyle.memo.label": "Внутрішня записка",
+  "summaryStyle.memo.description": "Детальна фахова записка до справи",
+  "summaryStyle.letter.label": "Офіційний лист",
+  "summaryStyle.letter.description": "Офіційна рекомендація у формі листа",
+
+  "summary.title": "Рекомендація ШІ",
+  "summary.description": "Основні поради, підготовлені на основі аналізу пропозицій",
+  "summary.showJustifications": "Показати обґрунтування",
+  "summary.copy": "Копіювати",
+  "summary.generate": "Створити",
+  "summary.regenerate": "Створити повторно",
+  "summary.empty": "Підсумку в цьому стилі ще немає.",
+  "summary.generating": "Створення підсумку…",
+  "summary.recommendedOffer": "Рекомендована пропозиція",
+  "summary.insurer": "Страховик: {name}",
+  "summary.reasons": "Причини вибору",
+  "summary.risks": "Ризики",
+  "summary.nextSteps": "Рекомендації",
+  "summary.keyNumbers": "Ключові показники",
+  "summary.descriptionLine": "Опис: {text}",
+  "summary.recommendedLine": "Рекомендована пропозиція: {name}",
+  "summary.sources": "Джерела аналізу",
+  "summary.source": "Джерело {order}",
+  "summary.showSource": "Показати джерело {label}",
+  "summary.sourceOffer": "Пропозиція: {label}",
+  "summary.sourcePage": "Сторінка: {page}",
+  "summary.sourcePageShort": "с. {page}",
+  "summary.nothingToCopy": "Немає що копіювати",
+  "summary.copyUnsupported": "Копіювання не підтримується в цьому браузері",
+  "summary.copied": "Рекомендацію ШІ скопійовано",
+  "summary.copyFailed": "Не вдалося скопіювати вміст",
+  "summary.failed": "Не вдалося створити підсумок",
+  "summary.highlightsTitle": "Основні відмінності",
+  "summary.highlightsDescription": "Розраховано на основі даних пропозицій",
+
+  "report.documentTitle": "Звіт порівняння пропозицій",
+  "report.heading": "Порівняння страхових пропозицій",
+  "report.client": "Клієнт: {name}",
+  "report.productType": "Вид продукту: {type}",
+  "report.date": "Дата звіту: {date}",
+  "report.comparisonId": "Ідентифікатор порівняння: {id}",
+  "report.generated": "створено {date}",
+  "report.page": "Сторінка {page} з {total}",
+  "report.recommendation": "Рекомендація",
+  "report.keyArguments": "Ключові аргументи",
+  "report.watchOut": "На що звернути увагу",
+  "report.nextSteps": "Наступні кроки",
+  "report.sources": "Джерела",
+  "report.sourceDocument": "Документ-джерело",
+  "report.citationPage": "с. {page}",
+  "report.noData": "Немає даних",
+
+  "result.loadFailed": "Помилка завантаження порівняння",
+  "result.unknownError": "Невідома помилка",
+  "result.ratesLoadFailed": "Не вдалося отримати курси валют",
+  "result.versionsLoadFailed": "Не вдалося отримати версії порівняння",
+  "result.resumeFailed": "Не вдалося відновити обробку",
+  "result.previewFailed": "Не вдалося завантажити попередній перегляд.",
+  "result.downloadFailed": "Не вдалося завантажити документ.",
+  "result.previewNotFound": "Не знайдено документа для перегляду.",
+  "result.documentsExcluded": "Документи виключено",
+  "result.documentsExcludedDescription": "Порівняння готується для решти пропозицій.",
+  "result.excludeFailed": "Не вдалося виключити документи.",
+  "result.comparisonResumeFailed": "Не вдалося відновити порівняння.",
+  "result.offersAdded": "Пропозиції додано",
+  "result.offersAddedReading": "Нові документи зчитуються, після чого порівняння буде перераховано.",
+  "result.offersAddedDescription": "Порівняння та підсумок перераховуються з новими пропозиціями.",
+  "result.addOffersFailed": "Не вдалося додати пропозиції.",
+  "result.offersRemoved": "Пропозиції видалено",
+  "result.offersRemovedDescription": "Порівняння та підсумок перераховуються без видалених пропозицій.",
+  "result.removeOffersFailed": "Не вдалося видалити пропозиції.",
+  "result.rerunStarted": "Перерахунок розпочато",
+  "result.rerunStartedDescription": "Нова версія порівняння з'явиться після завершення аналізу.",
+  "result.rerunFailed": "Не вдалося перерахувати порівняння.",
+  "result.reportReady": "Звіт PDF готовий",
+  "result.reportReadyDescription": "Посилання на звіт дійсне 7 днів.",
+  "result.reportFailed": "Не вдалося створити звіт.",
+  "result.correctionSaved": "Виправлення збережено",
+  "result.correctionSavedDescription": "Порівняння та підсумок перераховуються з новим значенням.",
+  "result.correctionFailed": "Не вдалося застосувати виправлення.",
+  "result.currencyChangeFailed": "Не вдалося змінити валюту порівняння.",
+  "result.needsSaved": "Профіль потреб збережено",
+  "result.needsSavedDescription": "Порівняння та підсумок готуються повторно з урахуванням профілю.",
+  "result.needsSaveFailed": "Не вдалося зберегти профіль потреб.",
+  "result.offerSaved": "Пропозицію збережено!",
+  "result.offerSavedDescription": "Обрано: {name}",
+  "result.previewUnavailable": "Попередній перегляд документа недоступний",
+  "result.downloadNotStarted": "Не вдалося почати завантаження",
+  "result.fileName": "Файл: {name}",
+  "result.preview": "Перегляд",
+  "result.download": "Завантажити",
+  "result.selected": "Обрано",
+  "result.selectOffer": "Обрати пропозицію",
+  "result.back": "Назад до панелі",
+  "result.exportPdf": "Експортувати PDF",
+  "result.exportingPdf": "Створення звіту...",
+  "result.offerLabel": "Пропозиція {index}",
+  "result.notReadyTitle": "Немає даних",
+  "result.notReadyDescription": "Порівняння ще не готове",
+  "result.viewingVersion": "Ви переглядаєте версію {version}",
+  "result.viewingVersionDescription": "Аналіз ШІ походить із попереднього перерахунку. Дані пропозицій у таблиці актуальні.",
+  "result.premiumBasis": "Порівнювати внески:",
+  "result.annual": "Щорічно",
+  "result.monthly": "Щомісяця",
+  "result.reportingCurrency": "Валюта звіту:",
+  "result.exchangeRates": "Курси валют",
+  "result.clientNeeds": "Потреби клієнта",
+  "result.offers": "Пропозиції",
+  "result.overviewTab": "Огляд пропозицій",
+  "result.detailsTab": "Детальне порівняння",
+  "result.aiTab": "Аналіз ШІ",
+  "result.selectedOffer": "Обрана пропозиція: {label}",
+  "result.selectedInsurer": "Страховик: {name}",
+  "result.calculationId": "ID розрахунку: {id}",
+  "result.confirmSelection": "Підтвердити вибір",
+  "result.needsTitle": "Потреби клієнта в цьому порівнянні",
+  "result.needsOwnProfile": "Порівняння має власний профіль потреб. Очищення відновить профіль, збережений у клієнта.",
+  "result.needsClientProfile": "Збереження створить профіль лише для цього порівняння, без змін у профілі клієнта {name}.",
+  "result.needsNoClient": "Профіль буде враховано в аналізі та підсумку цього порівняння.",
+  "result.needsSubmit": "Зберегти й перерахувати",
+
+  "errors.unexpected": "Під час обробки сталася неочікувана помилка",
+  "errors.clientNameRequired": "Вкажіть ім'я та прізвище клієнта",
+  "errors.invalidEmail": "Неправильна адреса електронної пошти",
+  "errors.invalidPhone": "Неправильний номер телефону",
+  "errors.clientsLoadFailed": "Не вдалося завантажити список клієнтів.",
+  "errors.clientNotFound": "Клієнта не знайдено.",
+  "errors.clientCreateFailed": "Не вдалося додати клієнта.",
+  "errors.clientUpdateFailed": "Не вдалося зберегти зміни клієнта.",
+  "errors.clientDeleteFailed": "Не вдалося видалити клієнта.",
+  "errors.negativeWeights": "Ваги мають бути невід'ємними числами",
+  "errors.weightsSaveFailed": "Не вдалося зберегти ваги оцінювання пропозицій.",
+  "errors.clientHistoryFailed": "Не вдалося завантажити історію клієнта.",
+  "errors.duplicateOffers": "Вибрані файли містять ту саму пропозицію. Додайте щонайменше дві різні пропозиції.",
+  "errors.comparisonResultsFailed": "Не вдалося завантажити результати порівняння.",
+  "errors.comparisonStartFailed": "Не вдалося запустити обробку порівняння.",
+  "errors.documentsLoadFailed": "Не вдалося завантажити документи.",
+  "errors.selectOffersToAdd": "Виберіть пропозиції для додавання.",
+  "errors.offersAlreadyCompared": "Ці пропозиції вже є в порівнянні.",
+  "errors.selectOffersToRemove": "Виберіть пропозиції для видалення.",
+  "errors.minTwoOffers": "Порівняння має містити щонайменше дві пропозиції.",
+  "errors.comparisonStatusFailed": "Не вдалося перевірити статус порівняння.",
+  "errors.processingAborted": "Обробку перервано.",
+  "errors.comparisonFailed": "Не вдалося обробити порівняння.",
+  "errors.jobDocumentsFailed": "Не вдалося обробити щонайменше один документ пропозиції.",
+  "errors.jobExtractionTimeout": "Перевищено час обробки документів.",
+  "errors.jobProductTypeMismatch": "Пропозиції стосуються різних видів страхування. Виключіть невідповідні документи або підтвердіть порівняння.",
+  "errors.jobSummaryFailed": "Не вдалося згенерувати підсумок ШІ. Результати порівняння доступні.",
+  "errors.filesReadFailed": "Не вдалося прочитати файли.",
+  "errors.uploadedDocumentsCheckFailed": "Не вдалося перевірити завантажені документи.",
+  "errors.uploadFailed": "Не вдалося завантажити файли. Спробуйте ще раз.",
+  "errors.documentsSaveFailed": "Не вдалося зберегти документи.",
+  "errors.comparisonCreateFailed": "Не вдалося створити порівняння.",
+  "errors.comparisonLoadFailed": "Не вдалося завантажити порівняння.",
+  "errors.comparisonOffersUpdateFailed": "Не вдалося оновити пропозиції порівняння.",
+  "errors.rerunFailedOffersRestored": "Не вдалося перерахувати порівняння. Пропозиції порівняння не змінено.",
+  "errors.rerunFailedOffersSaved": "Пропозиції збережено, але не вдалося перерахувати порівняння.",
+  "errors.versionsLoadFailed": "Не вдалося завантажити історію порівняння.",
+  "errors.recalculationStartFailed": "Не вдалося запустити повторний перерахунок.",
+  "errors.libraryLoadFailed": "Не вдалося завантажити бібліотеку документів.",
+  "errors.invalidDocumentPath": "Неправильний шлях до файлу документа.",
+  "errors.documentLocationFailed": "Не вдалося визначити розташування документа у сховищі.",
+  "errors.signedUrlFailed": "Не вдалося згенерувати підписане посилання.",
+  "errors.downloadLinkFailed": "Не вдалося підготувати посилання для завантаження документа.",
+  "errors.previewLinkFailed": "Не вдалося підготувати попередній перегляд документа.",
+  "errors.invalidCurrencyCode": "Неправильний код валюти: {currency}",
+  "errors.baseCurrencyRate": "PLN — базова валюта, курс для неї не потрібен",
+  "errors.invalidRate": "Курс {currency} має бути числом, більшим за нуль",
+  "errors.ratesLoadFailed": "Не вдалося завантажити курси валют.",
+  "errors.ratesSaveFailed": "Не вдалося зберегти курси валют.",
+  "errors.rateDeleteFailed": "Не вдалося видалити курс.",
+  "errors.reportingCurrencyFailed": "Не вдалося змінити валюту порівняння.",
+  "errors.invalidAge": "Вкажіть вік клієнта числом від 0 до 120",
+  "errors.negativeDependants": "Кількість утриманців не може бути від'ємною",
+  "errors.invalidBudget": "Бюджет має бути сумою, більшою за нуль",
+  "errors.clientNeedsSaveFailed": "Не вдалося зберегти профіль потреб клієнта.",
+  "errors.comparisonNeedsSaveFailed": "Не вдалося зберегти профіль потреб порівняння.",
+  "errors.needsSavedRefreshFailed": "Профіль збережено, але не вдалося оновити порівняння.",
+  "errors.correctionSaveFailed": "Не вдалося зберегти виправлення.",
+  "errors.correctionSavedRefreshFailed": "Виправлення збережено, але не вдалося оновити порівняння.",
+  "errors.selectDocumentsToExclude": "Позначте документи для виключення.",
+  "errors.decisionSaveFailed": "Не вдалося зберегти рішення.",
+  "errors.decisionSavedResumeFailed": "Рішення збережено, але не вдалося відновити порівняння.",
+  "errors.reportSaveFailed": "Не вдалося зберегти PDF-звіт.",
+  "errors.reportAttachFailed": "Не вдалося пов'язати звіт із порівнянням.",
+  "errors.reportUrlFailed": "Не вдалося підготувати посилання на звіт.",
+  "errors.summaryStartFailed": "Не вдалося запустити створення підсумку.",
+  "errors.summaryFailed": "Не вдалося створити підсумок.",
+  "errors.summaryInterrupted": "Отримання підсумку перервано.",
+  "errors.summaryStreamEnded": "Потік підсумку завершився до отримання результату.",
+
+
+  "files.maxFiles": "Максимум {max} файлів",
+  "files.tooLarge": "Файл завеликий",
+  "files.tooLargeDescription": "Максимальний розмір: {size}. Файл \"{name}\" завеликий.",
+  "files.invalidFormat": "Непідтримуваний формат",
+  "files.acceptedFormats": "Підтримувані формати: {formats}",
+  "files.minOffers": "Додайте щонайменше {min} пропозиції для порівняння",
+
+  "errors.clientSaveFailed": "Не вдалося зберегти клієнта.",
+
+
+  "paymentCycle.monthly": "щомісячна",
+  "paymentCycle.annual": "річна",
+  "paymentCycle.quarterly": "щоквартальна",
+  "paymentCycle.semiannual": "піврічна",
+  "paymentCycle.single": "одноразова",
+  "paymentCycle.other": "інша",
+  "paymentCycle.various": "різні",
+
+
+  "riskTolerance.low": "Низька – повний захист важливіший за ціну",
+  "riskTolerance.medium": "Середня",
+  "riskTolerance.high": "Висока – погоджується на прогалини в захисті заради нижчої ціни",
+  "needs.budgetExceeded": "Внесок {premium} {basis} перевищує бюджет {budget}",
+  "needs.missingCoverage": "Бракує обов'язкового покриття: {coverage}",
+
+
+  "scoring.price": "Річний внесок",
+  "scoring.sumInsured": "Страхові суми",
+  "scoring.assistance": "Обсяг асистансу",
+  "scoring.exclusions": "Кількість винятків",
+  "scoring.discounts": "Знижки",
+  "scoring.waitingPeriods": "Найдовший період очікування",
+  "scoring.noData": "Немає даних",
+  "scoring.noWaitingPeriod": "Без періоду очікування",
+  "scoring.days": "{count} дн.",
+
+  "scoring.title": "Бальна оцінка пропозицій",
+  "scoring.description": "Кожен критерій порівнює пропозиції між собою: найкраще значення отримує повну вагу, найслабше — нуль балів. Ваги: {source}.",
+  "scoring.criterionHeader": "Критерій (вага)",
+  "scoring.points": "{points} б.",
+  "scoring.total": "Результат (0–100)",
+  "scoring.weightsTitle": "Ваги оцінювання пропозицій",
+  "scoring.weightsDescription": "Визначте, що для клієнта найважливіше. Порожні поля отримують типові ваги для виду продукту.",
+  "scoring.restoreDefaults": "Відновити типові",
+  "scoring.saveWeights": "Зберегти ваги",
+
+
+  "versionChange.offerAdded": "Додано пропозицію: {name}",
+  "versionChange.offerCorrected": "Виправлено дані пропозиції {name} (виправлень: {count})",
+  "versionChange.offerDataChanged": "Змінилися дані пропозиції {name}",
+  "versionChange.offerRemoved": "Видалено пропозицію: {name}",
+  "versionChange.comparisonModel": "Модель порівняння: {previous} → {current}",
+  "versionChange.summaryModel": "Модель підсумку: {previous} → {current}",
+  "versionChange.noModel": "немає",
+  "versionChange.comparisonPrompt": "Змінено інструкції порівняння пропозицій",
+  "versionChange.summaryPrompt": "Змінено інструкції підсумку",
+  "versionChange.needs": "Змінено профіль потреб клієнта",
+  "versionChange.recommendation": "Рекомендація: {previous} → {current}",
+  "versionChange.highlightAdded": "Нова відмінність: {text}",
+  "versionChange.highlightRemoved": "Вилучена відмінність: {text}",
+
+  "analysisMessage.premium_missing": "У даних пропозиції немає страхового внеску.",
+  "analysisMessage.annual_premium": "Річний внесок: {amount}.",
+  "analysisMessage.cheapest": "Найнижчий внесок.",
+  "analysisMessage.cheapest_in_currency": "Найнижчий внесок серед пропозицій у {currency}.",
+  "analysisMessage.more_expensive": "Дорожче на {amount} ({percent}%), ніж {offer}.",
+  "analysisMessage.over_budget": "Перевищує бюджет клієнта ({amount} на рік).",
+  "analysisMessage.sums_missing": "У даних пропозиції немає страхових сум.",
+  "analysisMessage.total_sum": "Загальна страхова сума: {amount}.",
+  "analysisMessage.additional_contracts": "Додаткові договори: {count}.",
+  "analysisMessage.missing_required": "Відсутні обов'язкові покриття: {names}.",
+  "analysisMessage.assistance_none": "Немає послуг асистансу.",
+  "analysisMessage.assistance_services": "Послуги асистансу: {names}.",
+  "analysisMessage.assistance_missing": "Відсутні порівняно з іншими пропозиціями: {names}.",
+  "analysisMessage.exclusions_no_data": "Немає даних про винятки.",
+  "analysisMessage.exclusions_count": "Кількість винятків: {count}.",
+  "analysisMessage.exclusions_unique": "Винятки, що є лише в цій пропозиції: {names}.",
+  "analysisMessage.cheapest_offers": "Найнижчий річний внесок: {offers}.",
+  "analysisMessage.highest_sum_offers": "Найвища загальна страхова сума: {offers}.",
+  "analysisMessage.widest_assistance_offers": "Найширший пакет асистансу: {offers}.",
+  "analysisMessage.mixed_product_types": "Пропозиції стосуються різних видів страхування і не є повністю порівнянними.",
+  "analysisMessage.over_budget_offers": "Пропозиції, що перевищують бюджет клієнта: {offers}.",
+  "analysisMessage.missing_required_offers": "Пропозиції без обов'язкових покриттів: {offers}.",
+  "analysisMessage.andOthers": "{names} та ще {count}",
+
+
+  "versions.title": "Версії порівняння",
+  "versions.selected": "Версія {version} від {date}",
+  "versions.model": " • модель {model}",
+  "versions.empty": "Історія перерахунків з'явиться після першого порівняння.",
+  "versions.option": "Версія {version} • {date}",
+  "versions.current": " (поточна)",
+  "versions.rerun": "Перерахувати",
+  "versions.changesSince": "Зміни порівняно з версією {version}",
+  "versions.noChanges": "Змін порівняно з попередньою версією не виявлено.",
+
+
+  "rateFile.entry": "Запис {index}",
+  "rateFile.line": "Рядок {index}",
+  "rateFile.invalidCurrency": "{label}: неправильний код валюти «{currency}»",
+  "rateFile.invalidRate": "{label}: неправильний курс для {currency}",
+  "rateFile.invalidJsonShape": "Файл JSON має містити список курсів або об'єкт {\"EUR\": 4.3}",
+  "rateFile.invalidJson": "Не вдалося прочитати файл JSON",
+
+
+  "productTemplate.auto_insurance.label": "Автострахування",
+  "productTemplate.auto_insurance.section": "ОСЦПВ, автокаско та НВ",
+  "productField.auto_insurance.oc_sum": "Гарантійна сума ОСЦПВ",
+  "productField.auto_insurance.ac_sum": "Страхова сума автокаско",
+  "productField.auto_insurance.ac_deductible": "Франшиза автокаско",
+  "productField.auto_insurance.nnw_sum": "Сума НВ водія та пасажирів",
+  "productField.auto_insurance.assistance_towing_km": "Евакуація (км)",
+  "productTemplate.travel_insurance.label": "Туристичне страхування",
+  "productTemplate.travel_insurance.section": "Захист у подорожі",
+  "productField.travel_insurance.medical_costs_abroad": "Витрати на лікування за кордоном",
+  "productField.travel_insurance.rescue_costs": "Витрати на рятування",
+  "productField.travel_insurance.baggage_sum": "Багаж",
+  "productField.travel_insurance.travel_nnw_sum": "НВ у подорожі",
+  "productField.travel_insurance.territorial_scope": "Територія дії",
+  "productTemplate.property_insurance.label": "Страхування майна",
+  "productTemplate.property_insurance.section": "Будівля та рухоме майно",
+  "productField.property_insurance.walls_sum": "Страхова сума будівлі",
+  "productField.property_insurance.contents_sum": "Страхова сума рухомого майна",
+  "productField.property_insurance.theft_sum": "Крадіжка зі зломом",
+  "productField.property_insurance.civil_liability_sum": "Цивільна відповідальність у приватному житті",
+  "productField.property_insurance.property_deductible": "Франшиза",
+  "productTemplate.life_insurance.label": "Страхування життя",
+  "productTemplate.life_insurance.section": "Страхові суми на випадок смерті та хвороби",
+  "productField.life_insurance.death_sum": "Сума на випадок смерті",
+  "productField.life_insurance.accidental_death_sum": "Смерть унаслідок НВ",
+  "productField.life_insurance.critical_illness_sum": "Критичне захворювання",
+  "productTemplate.health_insurance.label": "Медичне страхування",
+  "productTemplate.health_insurance.section": "Медичні виплати",
+  "productField.health_insurance.hospital_daily_benefit": "Перебування в лікарні (за день)",
+  "productField.health_insurance.surgery_sum": "Хірургічні операції",
+  "productField.health_insurance.outpatient_scope": "Амбулаторний обсяг",
+  "productTemplate.accident_insurance.label": "Страхування від нещасних випадків",
+  "productTemplate.accident_insurance.section": "Виплати НВ",
+  "productField.accident_insurance.nnw_sum": "Страхова сума НВ",
+  "productField.accident_insurance.permanent_injury_per_percent": "Виплата за 1% ушкодження здоров'я",
+  "productField.accident_insurance.hospital_daily_benefit": "Перебування в лікарні (за день)",
+  "productTemplate.unknown": "Не розпізнано",
+
+
+  "documentStatus.uploaded": "Завантажено",
+  "documentStatus.processing": "Обробляється",
+  "documentStatus.completed": "Оброблено",
+  "documentStatus.failed": "Помилка",
+
+
+  "link.httpsOnly": "Дозволені лише захищені адреси HTTPS.",
+  "link.untrustedHost": "Адреса веде до недовіреного хоста.",
+  "link.suspicious": "Адреса виглядає підозрілою.",
+  "link.invalid": "Неправильна URL-адреса.",
+  "link.unsafe": "Посилання позначено як небезпечне",
+
+  "cell.normalization": "Нормалізація: {value}",
+
+
+  "needs.age": "Вік клієнта",
+  "needs.dependants": "Утриманці",
+  "needs.budget": "Бюджет на внесок (вимога)",
+  "needs.budgetPlaceholder": "напр. 200",
+  "needs.budgetCurrency": "Валюта бюджету",
+  "needs.budgetPeriod": "Період бюджету",
+  "needs.coverages": "Обов'язкові покриття (вимога, по одному в рядку)",
+  "needs.coveragesPlaceholder": "Критичне захворювання\nПеребування в лікарні",
+  "needs.riskTolerance": "Схильність до ризику",
+  "needs.riskToleranceNone": "Не вказано",
+  "needs.notes": "Примітки",
+  "needs.clear": "Очистити профіль",
+
+
+  "mismatch.title": "Пропозиції стосуються різних видів страхування",
+  "mismatch.description": "Більшість документів — {type}. Виключіть невідповідні документи або порівняйте всі пропозиції попри відмінності.",
+  "mismatch.detectedTypes": "ШІ: {ai} • класифікатор: {classifier}",
+  "mismatch.compareAnyway": "Порівняти попри це",
+  "mismatch.excludeSelected": "Виключити позначені ({count}) і порівняти",
+
+
+  "scoring.weightsSource.client": "клієнта {name}",
+  "scoring.weightsSource.product": "для продукту {type}",
+  "scoring.weightsSource.default": "типові",
+
+  "mismatch.acknowledgedTitle": "Пропозиції різних видів страхування",
+  "mismatch.acknowledgedDescription": "Порівняння містить продукти, відмінні від {type}. Результати стосуються лише спільних елементів пропозицій.",
+
+  "offer.paymentOptions": "Доступні варіанти: {options}",
+
+  "rates.importSkipped": "Пропущено {count} некоректних записів",
+  "rates.importEmpty": "Файл не містить курсів для імпорту",
+  "compare.libraryDocumentFallback": "Раніше зчитані дані",
+
+
+  "manageOffers.title": "Пропозиції в порівнянні",
+  "manageOffers.description": "Перераховуються лише змінені елементи: уже оброблені пропозиції не зчитуються повторно.",
+  "manageOffers.documentsLoadFailed": "Не вдалося завантажити документи",
+  "manageOffers.removeSelected": "Видалити позначені ({count}) і перерахувати",
+  "manageOffers.addTitle": "Додати пропозиції",
+  "manageOffers.upload": "Завантажити нові файли пропозицій",
+  "manageOffers.reusable": "Раніше оброблені документи",
+  "manageOffers.maxOffers": "Порівняння може містити щонайбільше {max} пропозицій.",
+  "manageOffers.addSelected": "Додати ({count}) і перерахувати",
+
+
+  "viewer.title": "Попередній перегляд документа",
+  "viewer.description": "Перевірте деталі пропозиції безпосередньо в завантаженому документі.",
+  "viewer.noDocument": "Виберіть документ, щоб переглянути його.",
+  "viewer.documentId": "ID документа:",
+  "viewer.unsupported": "Попередній перегляд недоступний для цього типу файлу.",
+  "viewer.unsupportedHint": "Цей тип файлу не підтримує попередній перегляд. Скористайтеся завантаженням.",
+  "viewer.loadFailed": "Не вдалося завантажити попередній перегляд документа.",
+  "viewer.renderFailed": "Не вдалося відобразити документ: {message}",
+  "viewer.unavailable": "Попередній перегляд документа недоступний.",
+  "viewer.downloadDocument": "Завантажити документ",
+
+
+  "table.title": "Детальне порівняння",
+  "table.finishEditing": "Завершити редагування",
+  "table.correctData": "Виправити дані",
+  "table.category": "Категорія",
+  "table.section": "Розділ",
+  "table.recommended": "Рекомендована",
+  "table.requirementsNotMet": "Не відповідає вимогам",
+  "table.noAiAnalysis": "Немає аналізу ШІ",
+  "table.itemSumInsured": "{label}: {item} (сума)",
+  "table.highlight.best": "Рекомендація ШІ",
+  "table.highlight.warning": "Попередження",
+  "table.diff.equal": "Без відмінностей",
+  "table.diff.different": "Відмінності",
+  "table.diff.partial": "Неповні дані",
+  "table.diff.missing": "Немає даних",
+
+  "offer.title": "Пропозиція",
+  "offer.lowestPrice": "Найнижча ціна",
+  "offer.bestCoverage": "Найкраще покриття",
+  "offer.warning": "Увага",
+  "offer.insurer": "Страховик",
+  "offer.payment": "Оплата:",
+  "offer.savings": "ви заощаджуєте {amount}",
+  "offer.baseCoverage": "Базове покриття:",
+  "offer.baseContracts": "Базові договори:",
+  "offer.additionalCoverage": "Додаткове покриття:",
+
+
+  "source.page": "Сторінка {page}",
+  "source.noSnippet": "Немає попереднього перегляду фрагмента",
+  "source.highlight": "Цитований фрагмент",
+  "source.document": "Документ: {id}",
+  "source.open": "Відкрити в документі",
+  "source.additional": "Додаткові джерела: {count}",
+
+  "confidence.lowTitle": "Низька впевненість зчитування ({score}). Перевірте значення в документі перед надсиланням клієнту.",
+  "confidence.mediumTitle": "Середня впевненість зчитування ({score}).",
+  "confidence.low": "Потребує перевірки",
+  "confidence.medium": "Перевірте",
+
+
+  "common.cancel": "Скасувати",
+  "common.save": "Зберегти",
+
+  "correction.noData": "немає даних",
+  "correction.invalidAmount": "Вкажіть суму, напр. 584,77",
+  "correction.edit": "Виправити: {label}",
+  "correction.originalValue": "Значення в документі: {value}",
+  "correction.recalculationNotice": "Після збереження порівняння та підсумок буде перераховано.",
+  "correction.badge": "Виправлено",
+  "correction.badgeTitle": "Виправлено вручну користувачем {user}, {date}. Значення в документі: {value}",
+
+
+  "clientPicker.label": "Клієнт",
+  "clientPicker.loadFailed": "Не вдалося завантажити клієнтів",
+  "clientPicker.loading": "Завантаження клієнтів...",
+  "clientPicker.placeholder": "Виберіть клієнта",
+  "clientPicker.none": "Без призначеного клієнта",
+  "clientPicker.created": "Клієнта додано",
+
+  "clientForm.newTitle": "Новий клієнт",
+  "clientForm.editTitle": "Редагувати клієнта",
+  "clientForm.description": "Контактні дані дозволяють призначати клієнту порівняння та документи.",
+  "clientForm.fullName": "Ім'я та прізвище",
+  "clientForm.fullNamePlaceholder": "Іван Петренко",
+  "clientForm.email": "Ел. пошта",
+  "clientForm.emailPlaceholder": "ivan.petrenko@example.com",
+  "clientForm.phone": "Телефон",
+  "clientForm.saveChanges": "Зберегти зміни",
+  "clientForm.create": "Додати клієнта",
+
+  "landing.features": "Функції",
+  "landing.pricing": "Ціни",
+  "landing.about": "Про нас",
+  "landing.signIn": "Увійти",
+  "landing.getStarted": "Почати",
+  "landing.tagline": "Сучасна платформа для порівняння страхових пропозицій для професіоналів.",
+  "landing.product": "Продукт",
+  "landing.integrations": "Інтеграції",
+  "landing.company": "Компанія",
+  "landing.contact": "Контакти",
+  "landing.careers": "Кар'єра",
+  "landing.legal": "Правова інформація",
+  "landing.privacy": "Політика конфіденційності",
+  "landing.terms": "Умови використання",
+  "landing.security": "Безпека",
+  "landing.copyright": "© {year} InsurCompare. Усі права захищені.",
+  "landing.heroTitle": "Порівнюйте страхові пропозиції за",
+  "landing.heroHighlight": "хвилину",
+  "landing.heroDescription": "Платформа для страхових агентів і брокерів. Автоматичний аналіз полісів, зрозумілі порівняння та професійні звіти для ваших клієнтів.",
+  "landing.startFree": "Почати безкоштовно",
+  "landing.demo": "Переглянути демо",
+  "landing.fast": "Миттєво",
+  "landing.fastDescription": "OCR + ШІ за секунди",
+  "landing.accurate": "Точно",
+  "landing.accurateDescription": "Розумне зіставлення",
+  "landing.secure": "Безпечно",
+  "landing.secureDescription": "GDPR і аудит",
+  "landing.imageAlt": "Попередній перегляд панелі InsurCompare",
+  "landing.trustedBy": "Нам уже довіряють",
+  "landing.agents": "500+ агентів",
+
+  "notFound.message": "Ой! Сторінку не знайдено",
+  "notFound.home": "Повернутися на головну",
+
+  "common.back": "Назад",
+  "common.view": "Переглянути",
+  "common.total": "Усього: {count}",
+
+  "compare.title": "Нове порівняння",
+  "compare.subtitle": "Завантажте пропозиції для аналізу",
+  "compare.clientTitle": "Інформація про клієнта",
+  "compare.clientDescription": "Необов'язково: призначте порівняння клієнту",
+  "compare.uploadTitle": "Завантажте пропозиції",
+  "compare.uploadDescription": "Додайте від 2 до {max} страхових пропозицій: PDF, документи Word або фото пропозицій",
+  "compare.dropzone": "Натисніть, щоб завантажити, або перетягніть файли пропозицій",
+  "compare.dropzoneLimits": "{formats}, максимум {max} файлів",
+  "compare.libraryDocuments": "З бібліотеки документів ({count})",
+  "compare.progress": "Хід обробки ({done}/{total})",
+  "compare.uploadedFiles": "Завантажені файли ({count}/{max})",
+  "compare.processing": "Обробка...",
+  "compare.start": "Почати порівняння",
+  "compare.tipLabel": "Порада:",
+  "compare.tipQuality": "Що якісніші файли ви завантажите, то точнішим буде порівняння.",
+  "compare.tipFormats": "Найкраще працюють оригінальні PDF. Фото та скани мають бути чіткими, добре освітленими й охоплювати всю сторінку пропозиції.",
+  "compare.libraryLoadFailed": "Не вдалося завантажити документи з бібліотеки",
+  "compare.filesAdded": "Додано файлів: {count}",
+  "compare.ready": "Порівняння готове!",
+  "compare.detectedProductType": "Виявлений тип продукту: {type}",
+  "compare.stillProcessing": "Порівняння ще обробляється",
+  "compare.stillProcessingDescription": "Обробка триває у фоновому режимі. Результати з'являться автоматично.",
+  "compare.needsReviewDescription": "Перевірте документи та вирішіть, які з них порівняти.",
+  "compare.authRequired": "Потрібно увійти в систему",
+  "compare.processingFailed": "Помилка під час обробки",
+
+  "dashboard.title": "Панель",
+  "dashboard.welcome": "З поверненням, агенте",
+  "dashboard.signOut": "Вийти",
+  "dashboard.loadFailed": "Помилка завантаження даних",
+  "dashboard.comparisonsThisMonth": "Порівнянь цього місяця",
+  "dashboard.comparisonsTotal": "Усього порівнянь",
+  "dashboard.activeClients": "Активних клієнтів",
+  "dashboard.recentTitle": "Останні порівняння",
+  "dashboard.recentDescription": "Ваші найновіші аналізи страхових пропозицій",
+  "dashboard.empty": "У вас ще немає порівнянь",
+  "dashboard.createFirst": "Створіть перше порівняння",
+  "dashboard.clientsDescription": "Керуйте базою своїх клієнтів",
+  "dashboard.viewClients": "Переглянути клієнтів",
+  "dashboard.documentsTitle": "Бібліотека документів",
+  "dashboard.documentsDescription": "Порівнюйте раніше завантажені пропозиції",
+  "dashboard.viewDocuments": "Переглянути документи",
+  "dashboard.ratesDescription": "Перераховуйте пропозиції в іноземних валютах",
+  "dashboard.manageRates": "Керувати курсами",
+  "dashboard.reportsTitle": "Звіти",
+  "dashboard.reportsDescription": "Експортуйте та діліться порівняннями",
+  "dashboard.browseReports": "Переглядати звіти (незабаром)",
+
+  "comparisonStatus.completed": "Завершено",
+  "comparisonStatus.failed": "Помилка",
+  "comparisonStatus.needs_review": "Потребує перевірки",
+  "comparisonStatus.processing": "Виконується",
+
+  "clients.title": "Клієнти",
+  "clients.newClient": "Новий клієнт",
+  "clients.listTitle": "Список клієнтів",
+  "clients.listEmptyDescription": "Додайте першого клієнта, щоб призначати йому порівняння",
+  "clients.searchPlaceholder": "Пошук за ім'ям, e-mail або телефоном",
+  "clients.since": "З {date}",
+  "clients.noMatches": "Немає клієнтів, що відповідають пошуку",
+  "clients.empty": "У вас ще немає клієнтів",
+  "clients.loadFailed": "Помилка завантаження клієнтів",
+
+  "clientDetail.loadFailed": "Помилка завантаження клієнта",
+  "clientDetail.changesSaved": "Зміни збережено",
+  "clientDetail.weightsSaved": "Ваги оцінювання пропозицій збережено",
+  "clientDetail.weightsReset": "Відновлено типові ваги",
+  "clientDetail.weightsSaveFailed": "Не вдалося зберегти ваги",
+  "clientDetail.needsSaved": "Профіль потреб збережено",
+  "clientDetail.needsCleared": "Профіль потреб очищено",
+  "clientDetail.needsSaveFailed": "Не вдалося зберегти профіль потреб",
+  "clientDetail.deleted": "Клієнта видалено",
+  "clientDetail.deleteFailed": "Не вдалося видалити клієнта",
+  "clientDetail.notFoundTitle": "Клієнта не знайдено",
+  "clientDetail.notFoundDescription": "Можливо, клієнта було видалено",
+  "clientDetail.backToClients": "Повернутися до списку клієнтів",
+  "clientDetail.edit": "Редагувати",
+  "clientDetail.delete": "Видалити",
+  "clientDetail.historyTitle": "Історія порівнянь",
+  "clientDetail.historyDescription": "Порівняння, призначені клієнту",
+  "clientDetail.comparisonFallback": "Порівняння пропозицій",
+  "clientDetail.offerCount": "пропозицій: {count}",
+  "clientDetail.noComparisons": "Немає порівнянь для цього клієнта",
+  "clientDetail.documentsTitle": "Завантажені документи",
+  "clientDetail.documentsDescription": "Пропозиції, завантажені в порівняннях клієнта",
+  "clientDetail.noDocuments": "Немає документів для цього клієнта",
+  "clientDetail.needsTitle": "Профіль потреб",
+  "clientDetail.needsDescription": "Відповіді клієнта враховуються в аналізі та підсумку кожного порівняння. Пропозиції понад бюджет або без обов'язкового покриття позначаються в таблиці.",
+  "clientDetail.saveNeeds": "Зберегти профіль",
+  "clientDetail.deleteTitle": "Видалити клієнта {name}?",
+  "clientDetail.deleteDescription": "Порівняння та документи буде збережено, але вони більше не будуть призначені клієнту.",
+  "clientDetail.deleteConfirm": "Видалити клієнта",
+
+  "documents.title": "Бібліотека документів",
+  "documents.subtitle": "Пропозиції, завантажені в усіх порівняннях",
+  "documents.compareSelected": "Порівняти вибрані ({count})",
+  "documents.listTitle": "Документи",
+  "documents.listDescription": "Позначте оброблені пропозиції, щоб порівняти їх без повторного завантаження та зчитування.",
+  "documents.searchPlaceholder": "Пошук за назвою файлу, страховиком або продуктом",
+  "documents.file": "Файл",
+  "documents.status": "Статус",
+  "documents.insurer": "Страховик",
+  "documents.productType": "Вид страхування",
+  "documents.ocr": "OCR",
+  "documents.added": "Додано",
+  "documents.select": "Позначити {name}",
+  "documents.noMatches": "Немає документів, що відповідають пошуку",
+  "documents.empty": "Ще не завантажено жодного документа",
+  "documents.loadFailed": "Помилка завантаження документів",
+
+  "rates.title": "Курси валют",
+  "rates.subtitle": "Курси для перерахунку пропозицій в іноземних валютах",
+  "rates.import": "Імпортувати з файлу",
+  "rates.formTitle": "Додати або змінити курс",
+  "rates.formDescription": "Вкажіть вартість 1 одиниці валюти в PLN (напр. EUR = {example}). Файл імпорту може містити рядки «валюта;курс;дата» або список JSON.",
+  "rates.currency": "Валюта",
+  "rates.rate": "Курс (PLN)",
+  "rates.validOn": "Дата курсу",
+  "rates.save": "Зберегти курс",
+  "rates.savedTitle": "Збережені курси",
+  "rates.savedEmptyDescription": "Без курсів пропозиції в іноземних валютах не враховуються в рейтингу внесків",
+  "rates.rateFrom": "Курс від {date}",
+  "rates.noDate": "Без дати",
+  "rates.sourceImport": "імпорт із файлу",
+  "rates.sourceManual": "введено вручну",
+  "rates.delete": "Видалити курс {currency}",
+  "rates.empty": "У вас ще немає збережених курсів валют",
+  "rates.loadFailed": "Помилка завантаження курсів валют",
+  "rates.saved": "Курс збережено",
+  "rates.saveFailed": "Не вдалося зберегти курс",
+  "rates.imported": "Імпортовано курсів: {count}",
+  "rates.importFailed": "Не вдалося імпортувати курси",
+  "rates.deleteFailed": "Не вдалося видалити курс",
+
+  "auth.backHome": "Повернутися на головну",
+  "auth.title": "Вітаємо в InsurCompare",
+  "auth.description": "Увійдіть або створіть обліковий запис, щоб почати",
+  "auth.loginFailed": "Помилка входу",
+  "auth.loggedIn": "Вхід виконано успішно",
+  "auth.signupFailed": "Помилка реєстрації",
+  "auth.accountCreated": "Обліковий запис створено!",
+  "auth.canSignIn": "Тепер ви можете увійти",
+  "auth.error": "Помилка",
+  "auth.linkSent": "Посилання надіслано!",
+  "auth.checkInbox": "Перевірте свою поштову скриньку",
+  "auth.passwordsMismatch": "Паролі не збігаються",
+  "auth.passwordChanged": "Пароль змінено!",
+  "auth.setPasswordTitle": "Встановіть новий пароль",
+  "auth.setPasswordDescription": "Введіть новий пароль до свого облікового запису",
+  "auth.newPassword": "Новий пароль",
+  "auth.confirmPassword": "Підтвердьте пароль",
+  "auth.changingPassword": "Зміна пароля...",
+  "auth.changePassword": "Змінити пароль",
+  "auth.resetTitle": "Скинути пароль",
+  "auth.resetDescription": "Ми надішлемо вам на e-mail посилання для скидання пароля",
+  "auth.email": "Email",
+  "auth.sending": "Надсилання...",
+  "auth.sendLink": "Надіслати посилання",
+  "auth.backToLogin": "Повернутися до входу",
+  "auth.loginTab": "Вхід",
+  "auth.signupTab": "Реєстрація",
+  "auth.password": "Пароль",
+  "auth.loggingIn": "Вхід...",
+  "auth.logIn": "Увійти",
+  "auth.forgotPassword": "Забули пароль?",
+  "auth.fullName": "Ім'я та прізвище",
+  "auth.fullNamePlaceholder": "Іван Петренко",
+  "auth.company": "Назва компанії (необов'язково)",
+  "auth.companyPlaceholder": "Моя страхова агенція",
+  "auth.creatingAccount": "Створення облікового запису...",
+  "auth.createAccount": "Створити обліковий запис",
+  "auth.termsPrefix": "Реєструючись, ви приймаєте наші",
+  "auth.terms": "Умови користування",
+  "auth.and": "та",
+  "auth.privacy": "Політику конфіденційності",
+};
@@ -0,0 +1,45 @@
+// @ts-nocheck
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { parseTrueType } from "./truetype";
+
+const bytes = new Uint8Array(readFileSync(new URL("../assets/fonts/DejaVuSans.ttf", import.meta.url)));
+const font = parseTrueType(bytes);
+
+const readTables = (file: Uint8Array) => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const tables = new Map<string, { offset: number; length: number }>();
+  for (let index = 0; index < view.getUint16(4); index += 1) {
+    const record = 12 + index * 16;
+    const tag = String.fromCharCode(...file.subarray(record, record + 4));
+    tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  return { view, tables };
+};
+
+describe("parseTrueType", () => {
+  it("reads metrics and maps Latin, Polish and Cyrillic letters to glyphs", () => {
+    expect(font.postScriptName).toBe("DejaVuSans");
+    expect(font.unitsPerEm).toBe(2048);
+    for (const char of "Aąłї Ґ") {
+      expect(font.glyphForCodePoint(char.codePointAt(0))).toBeGreaterThan(0);
+    }
+    expect(font.glyphForCodePoint(0xe000)).toBe(0);
+    expect(font.advanceWidth(font.glyphForCodePoint(0x20))).toBe(651);
+  });
+
+  it("keeps only the used glyphs and the glyph ids up to the last one", () => {
+    const used = [..."Звіт"].map((char) => font.glyphForCodePoint(char.codePointAt(0)));
+    const subset = font.subset(used);
+    const { view, tables } = readTables(subset);
+
+    expect(subset.length).toBeLessThan(bytes.length / 20);
+    expect([...tables.keys()]).not.toContain("cmap");
+    expect(view.getUint16(tables.get("maxp").offset + 4)).toBe(Math.max(...used) + 1);
+
+    const loca = tables.get("loca").offset;
+    const glyphLength = (glyphId: number) => view.getUint32(loca + (glyphId + 1) * 4) - view.getUint32(loca + glyphId * 4);
+    used.forEach((glyphId) => expect(glyphLength(glyphId)).toBeGreaterThan(0));
+    expect(glyphLength(font.glyphForCodePoint("A".codePointAt(0)))).toBe(0);
+  });
+});
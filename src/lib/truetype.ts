@@ -0,0 +1,332 @@
+/**
+ * Reads the parts of a TrueType font that PDF embedding needs: metrics, the Unicode cmap and
+ * glyph outlines. `subset` keeps glyph ids unchanged, empties every glyph that is not used and
+ * drops the glyphs after the last used one, so the embedded program stays small while text can
+ * still be written as raw glyph ids.
+ */
+
+export interface TrueTypeFont {
+  postScriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: [number, number, number, number];
+  numGlyphs: number;
+  /** Returns 0 (the .notdef glyph) when the font has no glyph for the code point. */
+  glyphForCodePoint(codePoint: number): number;
+  /** Advance width in font units. */
+  advanceWidth(glyphId: number): number;
+  subset(glyphIds: Iterable<number>): Uint8Array;
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// Tables a PDF viewer needs to rasterize a CIDFontType2 program; cmap is not used with Identity.
+const SUBSET_TABLES = ["cvt ", "fpgm", "glyf", "head", "hhea", "hmtx", "loca", "maxp", "prep"];
+
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+
+const readTables = (view: DataView): Map<string, TableRecord> => {
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let index = 0; index < numTables; index += 1) {
+    const record = 12 + index * 16;
+    tables.set(readTag(view, record), { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  return tables;
+};
+
+const readCmap = (view: DataView, cmap: TableRecord): Map<number, number> => {
+  const glyphs = new Map<number, number>();
+  const numSubtables = view.getUint16(cmap.offset + 2);
+  const subtables: Array<{ platform: number; encoding: number; offset: number }> = [];
+  for (let index = 0; index < numSubtables; index += 1) {
+    const record = cmap.offset + 4 + index * 8;
+    subtables.push({
+      platform: view.getUint16(record),
+      encoding: view.getUint16(record + 2),
+      offset: cmap.offset + view.getUint32(record + 4),
+    });
+  }
+
+  // Prefer the full-repertoire table (format 12), then the BMP one (format 4).
+  const full = subtables.find(({ platform, encoding }) => platform === 3 && encoding === 10);
+  const bmp = subtables.find(({ platform, encoding }) => (platform === 3 && encoding === 1) || platform === 0);
+  const subtable = full ?? bmp;
+  if (!subtable) {
+    throw new Error("Font has no Unicode cmap");
+  }
+
+  const format = view.getUint16(subtable.offset);
+  if (format === 12) {
+    const groups = view.getUint32(subtable.offset + 12);
+    for (let index = 0; index < groups; index += 1) {
+      const group = subtable.offset + 16 + index * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+      const startGlyph = view.getUint32(group + 8);
+      for (let codePoint = start; codePoint <= end; codePoint += 1) {
+        glyphs.set(codePoint, startGlyph + codePoint - start);
+      }
+    }
+    return glyphs;
+  }
+
+  if (format !== 4) {
+    throw new Error(`Unsupported cmap format ${format}`);
+  }
+
+  const segCount = view.getUint16(subtable.offset + 6) / 2;
+  const endCodes = subtable.offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  for (let segment = 0; segment < segCount; segment += 1) {
+    const start = view.getUint16(startCodes + segment * 2);
+    const end = view.getUint16(endCodes + segment * 2);
+    const delta = view.getInt16(idDeltas + segment * 2);
+    const rangeOffsetPosition = idRangeOffsets + segment * 2;
+    const rangeOffset = view.getUint16(rangeOffsetPosition);
+    for (let codePoint = start; codePoint <= end && codePoint !== 0xffff; codePoint += 1) {
+      let glyph = 0;
+      if (rangeOffset === 0) {
+        glyph = (codePoint + delta) & 0xffff;
+      } else {
+        const glyphPosition = rangeOffsetPosition + rangeOffset + (codePoint - start) * 2;
+        glyph = view.getUint16(glyphPosition);
+        if (glyph !== 0) {
+          glyph = (glyph + delta) & 0xffff;
+        }
+      }
+      if (glyph !== 0) {
+        glyphs.set(codePoint, glyph);
+      }
+    }
+  }
+  return glyphs;
+};
+
+const readPostScriptName = (view: DataView, name: TableRecord | undefined): string => {
+  if (!name) {
+    return "EmbeddedFont";
+  }
+
+  const count = view.getUint16(name.offset + 2);
+  const strings = name.offset + view.getUint16(name.offset + 4);
+  for (let index = 0; index < count; index += 1) {
+    const record = name.offset + 6 + index * 12;
+    const platform = view.getUint16(record);
+    if (view.getUint16(record + 6) !== 6) {
+      continue;
+    }
+    const length = view.getUint16(record + 8);
+    const start = strings + view.getUint16(record + 10);
+    let value = "";
+    if (platform === 1) {
+      for (let offset = 0; offset < length; offset += 1) value += String.fromCharCode(view.getUint8(start + offset));
+    } else {
+      for (let offset = 0; offset < length; offset += 2) value += String.fromCharCode(view.getUint16(start + offset));
+    }
+    if (value) {
+      return value.replace(/[^\x21-\x7e]|[()<>[\]{}/%#]/g, "");
+    }
+  }
+  return "EmbeddedFont";
+};
+
+const tableChecksum = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let sum = 0;
+  for (let offset = 0; offset < bytes.length; offset += 4) {
+    sum = (sum + view.getUint32(offset)) >>> 0;
+  }
+  return sum;
+};
+
+const padded = (length: number) => (length + 3) & ~3;
+
+/** Writes an sfnt file from whole tables; every table is padded to four bytes. */
+const buildFontFile = (tables: Map<string, Uint8Array>): Uint8Array => {
+  const tags = [...tables.keys()].sort();
+  const headerLength = 12 + tags.length * 16;
+  const totalLength = tags.reduce((total, tag) => total + padded(tables.get(tag)!.length), headerLength);
+  const output = new Uint8Array(totalLength);
+  const view = new DataView(output.buffer);
+
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = 2 ** entrySelector * 16;
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tags.length);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tags.length * 16 - searchRange);
+
+  let offset = headerLength;
+  let headOffset = -1;
+  tags.forEach((tag, index) => {
+    const data = tables.get(tag)!;
+    const table = new Uint8Array(padded(data.length));
+    table.set(data);
+    const record = 12 + index * 16;
+    for (let char = 0; char < 4; char += 1) view.setUint8(record + char, tag.charCodeAt(char));
+    view.setUint32(record + 4, tableChecksum(table));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.length);
+    output.set(table, offset);
+    if (tag === "head") headOffset = offset;
+    offset += table.length;
+  });
+
+  if (headOffset >= 0) {
+    view.setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(output)) >>> 0);
+  }
+  return output;
+};
+
+export function parseTrueType(bytes: Uint8Array): TrueTypeFont {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tables = readTables(view);
+  const table = (tag: string) => {
+    const record = tables.get(tag);
+    if (!record) {
+      throw new Error(`Font is missing the ${tag} table`);
+    }
+    return record;
+  };
+
+  const head = table("head");
+  const hhea = table("hhea");
+  const maxp = table("maxp");
+  const hmtx = table("hmtx");
+  const loca = table("loca");
+  const glyf = table("glyf");
+  const os2 = tables.get("OS/2");
+
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const bbox: [number, number, number, number] = [
+    view.getInt16(head.offset + 36),
+    view.getInt16(head.offset + 38),
+    view.getInt16(head.offset + 40),
+    view.getInt16(head.offset + 42),
+  ];
+  const longLoca = view.getInt16(head.offset + 50) === 1;
+  const ascent = view.getInt16(hhea.offset + 4);
+  const descent = view.getInt16(hhea.offset + 6);
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const numGlyphs = view.getUint16(maxp.offset + 4);
+  const capHeight =
+    os2 && view.getUint16(os2.offset) >= 2 && os2.length >= 90 ? view.getInt16(os2.offset + 88) : ascent;
+
+  const cmap = readCmap(view, table("cmap"));
+  const postScriptName = readPostScriptName(view, tables.get("name"));
+
+  const glyphOffset = (glyphId: number) =>
+    longLoca ? view.getUint32(loca.offset + glyphId * 4) : view.getUint16(loca.offset + glyphId * 2) * 2;
+
+  const componentsOf = (glyphId: number): number[] => {
+    const start = glyf.offset + glyphOffset(glyphId);
+    if (glyphOffset(glyphId + 1) === glyphOffset(glyphId) || view.getInt16(start) >= 0) {
+      return [];
+    }
+
+    const components: number[] = [];
+    let position = start + 10;
+    for (;;) {
+      const flags = view.getUint16(position);
+      components.push(view.getUint16(position + 2));
+      position += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) position += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) position += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) position += 8;
+      if (!(flags & MORE_COMPONENTS)) return components;
+    }
+  };
+
+  const copyTable = (record: TableRecord) => bytes.slice(record.offset, record.offset + record.length);
+
+  return {
+    postScriptName,
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight,
+    bbox,
+    numGlyphs,
+    glyphForCodePoint: (codePoint) => cmap.get(codePoint) ?? 0,
+    advanceWidth: (glyphId) => {
+      const metric = Math.min(glyphId, numberOfHMetrics - 1);
+      return view.getUint16(hmtx.offset + metric * 4);
+    },
+    subset(glyphIds) {
+      const keep = new Set<number>([0]);
+      const pending = [...glyphIds].filter((glyphId) => glyphId > 0 && glyphId < numGlyphs);
+      while (pending.length > 0) {
+        const glyphId = pending.pop()!;
+        if (keep.has(glyphId)) continue;
+        keep.add(glyphId);
+        pending.push(...componentsOf(glyphId));
+      }
+
+      const kept = [...keep].sort((a, b) => a - b);
+      const subsetGlyphs = kept[kept.length - 1] + 1;
+      const glyphData = kept.map((glyphId) =>
+        bytes.slice(glyf.offset + glyphOffset(glyphId), glyf.offset + glyphOffset(glyphId + 1)),
+      );
+      const newGlyf = new Uint8Array(glyphData.reduce((total, data) => total + padded(data.length), 0));
+      const newLoca = new Uint8Array((subsetGlyphs + 1) * 4);
+      const locaView = new DataView(newLoca.buffer);
+
+      let position = 0;
+      let next = 0;
+      for (let glyphId = 0; glyphId <= subsetGlyphs; glyphId += 1) {
+        locaView.setUint32(glyphId * 4, position);
+        if (kept[next] === glyphId) {
+          newGlyf.set(glyphData[next], position);
+          position += padded(glyphData[next].length);
+          next += 1;
+        }
+      }
+
+      const newHead = copyTable(head);
+      const headView = new DataView(newHead.buffer);
+      headView.setUint32(8, 0);
+      headView.setInt16(50, 1);
+
+      const subsetMetrics = Math.min(numberOfHMetrics, subsetGlyphs);
+      const newHmtx = bytes.slice(hmtx.offset, hmtx.offset + subsetMetrics * 4 + (subsetGlyphs - subsetMetrics) * 2);
+      const newHhea = copyTable(hhea);
+      new DataView(newHhea.buffer).setUint16(34, subsetMetrics);
+      const newMaxp = copyTable(maxp);
+      new DataView(newMaxp.buffer).setUint16(4, subsetGlyphs);
+
+      const subsetTables = new Map<string, Uint8Array>();
+      for (const tag of SUBSET_TABLES) {
+        const record = tables.get(tag);
+        if (record) subsetTables.set(tag, copyTable(record));
+      }
+      subsetTables.set("glyf", newGlyf);
+      subsetTables.set("loca", newLoca);
+      subsetTables.set("head", newHead);
+      subsetTables.set("hhea", newHhea);
+      subsetTables.set("hmtx", newHmtx);
+      subsetTables.set("maxp", newMaxp);
+      return buildFontFile(subsetTables);
+    },
+  };
+}
@@ -1,3 +1,6 @@
+import { DEFAULT_LANGUAGE, getLocale, translate, type Language } from "@/lib/i18n";
+import { normalizeCurrencyCode } from "../../supabase/functions/_shared/premium/mod.ts";
+
 const DEFAULT_LOCALE = "pl-PL";
 
 const toNumber = (value: unknown): number | null => {
@@ -12,19 +15,15 @@ const toNumber = (value: unknown): number | null => {
   return null;
 };
 
-export const normalizeCurrencyCode = (currency?: string | null): string => {
-  if (typeof currency !== "string") {
-    return "PLN";
-  }
-  const cleaned = currency.trim().toUpperCase();
-  return cleaned.length === 3 ? cleaned : "PLN";
-};
+export { normalizeCurrencyCode };
 
 export interface FormatValueOptions {
   type?: "currency" | "number";
   unit?: string | null;
   source?: string | null;
   normalization?: string | null;
+  /** Language of the tooltip captions; also picks the number locale unless `locale` is given. */
+  language?: Language;
   locale?: string;
   maximumFractionDigits?: number;
   minimumFractionDigits?: number;
@@ -40,16 +39,17 @@ export interface FormattedValueResult {
 }
 
 const buildTooltip = (
+  language: Language,
   source?: string | null,
   normalization?: string | null,
   note?: string | null,
 ): string | null => {
   const parts: string[] = [];
   if (source) {
-    parts.push(`Źródło: ${source}`);
+    parts.push(translate(language, "cell.source", { source }));
   }
   if (normalization) {
-    parts.push(`Normalizacja: ${normalization}`);
+    parts.push(translate(language, "cell.normalization", { value: normalization }));
   }
   if (note) {
     parts.push(note);
@@ -64,14 +64,15 @@ export const formatValueWithUnit = (
     unit,
     source,
     normalization,
-    locale = DEFAULT_LOCALE,
+    language = DEFAULT_LANGUAGE,
+    locale = getLocale(language),
     maximumFractionDigits,
     minimumFractionDigits,
     note,
   }: FormatValueOptions = {},
 ): FormattedValueResult => {
   const numericValue = toNumber(value);
-  const tooltip = buildTooltip(source, normalization, note);
+  const tooltip = buildTooltip(language, source, normalization, note);
 
   if (numericValue === null) {
     if (typeof value === "string" && value.trim().length > 0) {
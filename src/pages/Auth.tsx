@@ -10,6 +10,7 @@ import { ArrowLeft } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { useEffect } from "react";
 
 export default function Auth() {
@@ -19,6 +20,7 @@ export default function Auth() {
   const [showResetPassword, setShowResetPassword] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { t } = useLanguage();
 
   useEffect(() => {
     if (user) {
@@ -49,10 +51,10 @@ export default function Auth() {
     });
 
     if (error) {
-      toast.error("Błąd logowania", { description: error.message });
+      toast.error(t("auth.loginFailed"), { description: error.message });
       setIsLoading(false);
     } else {
-      toast.success("Zalogowano pomyślnie");
+      toast.success(t("auth.loggedIn"));
       navigate("/dashboard");
     }
   };
@@ -80,11 +82,11 @@ export default function Auth() {
     });
 
     if (error) {
-      toast.error("Błąd rejestracji", { description: error.message });
+      toast.error(t("auth.signupFailed"), { description: error.message });
       setIsLoading(false);
     } else {
-      toast.success("Konto utworzone!", { 
-        description: "Możesz się teraz zalogować" 
+      toast.success(t("auth.accountCreated"), {
+        description: t("auth.canSignIn"),
       });
       setIsLoading(false);
       
@@ -107,11 +109,11 @@ export default function Auth() {
     });
 
     if (error) {
-      toast.error("Błąd", { description: error.message });
+      toast.error(t("auth.error"), { description: error.message });
       setIsLoading(false);
     } else {
-      toast.success("Link wysłany!", { 
-        description: "Sprawdź swoją skrzynkę email" 
+      toast.success(t("auth.linkSent"), {
+        description: t("auth.checkInbox"),
       });
       setIsLoading(false);
       setShowForgotPassword(false);
@@ -127,7 +129,7 @@ export default function Auth() {
     const confirmPassword = (form.elements.namedItem("confirm-password") as HTMLInputElement).value;
 
     if (password !== confirmPassword) {
-      toast.error("Hasła nie są identyczne");
+      toast.error(t("auth.passwordsMismatch"));
       setIsLoading(false);
       return;
     }
@@ -137,11 +139,11 @@ export default function Auth() {
     });
 
     if (error) {
-      toast.error("Błąd", { description: error.message });
+      toast.error(t("auth.error"), { description: error.message });
       setIsLoading(false);
     } else {
-      toast.success("Hasło zmienione!", { 
-        description: "Możesz się teraz zalogować" 
+      toast.success(t("auth.passwordChanged"), {
+        description: t("auth.canSignIn"),
       });
       setIsLoading(false);
       setShowResetPassword(false);
@@ -155,7 +157,7 @@ export default function Auth() {
       <div className="container mx-auto px-4 py-6">
         <Link to="/" className="inline-flex items-center space-x-2 text-sm text-muted-foreground hover:text-foreground">
           <ArrowLeft className="h-4 w-4" />
-          <span>Powrót do strony głównej</span>
+          <span>{t("auth.backHome")}</span>
         </Link>
       </div>
 
@@ -167,9 +169,9 @@ export default function Auth() {
               <img src={logoIcon} alt="InsurCompare" className="h-12 w-12" />
             </div>
             <div>
-              <CardTitle className="text-2xl">Witaj w InsurCompare</CardTitle>
+              <CardTitle className="text-2xl">{t("auth.title")}</CardTitle>
               <CardDescription>
-                Zaloguj się lub utwórz konto aby rozpocząć
+                {t("auth.description")}
               </CardDescription>
             </div>
           </CardHeader>
@@ -177,13 +179,13 @@ export default function Auth() {
             {showResetPassword ? (
               <form onSubmit={handleResetPassword} className="space-y-4">
                 <div className="space-y-2">
-                  <h3 className="text-lg font-semibold">Ustaw nowe hasło</h3>
+                  <h3 className="text-lg font-semibold">{t("auth.setPasswordTitle")}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Wprowadź nowe hasło do swojego konta
+                    {t("auth.setPasswordDescription")}
                   </p>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="new-password">Nowe hasło</Label>
+                  <Label htmlFor="new-password">{t("auth.newPassword")}</Label>
                   <Input
                     id="new-password"
                     type="password"
@@ -193,7 +195,7 @@ export default function Auth() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="confirm-password">Potwierdź hasło</Label>
+                  <Label htmlFor="confirm-password">{t("auth.confirmPassword")}</Label>
                   <Input
                     id="confirm-password"
                     type="password"
@@ -203,19 +205,19 @@ export default function Auth() {
                   />
                 </div>
                 <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Zmiana hasła..." : "Zmień hasło"}
+                  {isLoading ? t("auth.changingPassword") : t("auth.changePassword")}
                 </Button>
               </form>
             ) : showForgotPassword ? (
               <form onSubmit={handleForgotPassword} className="space-y-4">
                 <div className="space-y-2">
-                  <h3 className="text-lg font-semibold">Resetuj hasło</h3>
+                  <h3 className="text-lg font-semibold">{t("auth.resetTitle")}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Wyślemy Ci link do zresetowania hasła na email
+                    {t("auth.resetDescription")}
                   </p>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="reset-email">Email</Label>
+                  <Label htmlFor="reset-email">{t("auth.email")}</Label>
                   <Input
                     id="reset-email"
                     type="email"
@@ -224,7 +226,7 @@ export default function Auth() {
                   />
                 </div>
                 <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Wysyłanie..." : "Wyślij link"}
+                  {isLoading ? t("auth.sending") : t("auth.sendLink")}
                 </Button>
                 <div className="text-center">
                   <button
@@ -232,22 +234,22 @@ export default function Auth() {
                     onClick={() => setShowForgotPassword(false)}
                     className="text-sm text-muted-foreground hover:text-foreground"
                   >
-                    Powrót do logowania
+                    {t("auth.backToLogin")}
                   </button>
                 </div>
               </form>
             ) : (
               <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
                 <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="login">Logowanie</TabsTrigger>
-                  <TabsTrigger value="signup">Rejestracja</TabsTrigger>
+                  <TabsTrigger value="login">{t("auth.loginTab")}</TabsTrigger>
+                  <TabsTrigger value="signup">{t("auth.signupTab")}</TabsTrigger>
                 </TabsList>
 
                 {/* Login Tab */}
                 <TabsContent value="login">
                   <form onSubmit={handleLogin} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="login-email">Email</Label>
+                      <Label htmlFor="login-email">{t("auth.email")}</Label>
                       <Input
                         id="login-email"
                         type="email"
@@ -256,7 +258,7 @@ export default function Auth() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="login-password">Hasło</Label>
+                      <Label htmlFor="login-password">{t("auth.password")}</Label>
                       <Input
                         id="login-password"
                         type="password"
@@ -265,7 +267,7 @@ export default function Auth() {
                       />
                     </div>
                     <Button type="submit" className="w-full" disabled={isLoading}>
-                      {isLoading ? "Logowanie..." : "Zaloguj się"}
+                      {isLoading ? t("auth.loggingIn") : t("auth.logIn")}
                     </Button>
                     <div className="text-center">
                       <button
@@ -273,7 +275,7 @@ export default function Auth() {
                         onClick={() => setShowForgotPassword(true)}
                         className="text-sm text-muted-foreground hover:text-foreground"
                       >
-                        Zapomniałeś hasła?
+                        {t("auth.forgotPassword")}
                       </button>
                     </div>
                   </form>
@@ -283,24 +285,24 @@ export default function Auth() {
                 <TabsContent value="signup">
                   <form onSubmit={handleSignup} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="signup-name">Imię i nazwisko</Label>
+                      <Label htmlFor="signup-name">{t("auth.fullName")}</Label>
                       <Input
                         id="signup-name"
                         type="text"
-                        placeholder="Jan Kowalski"
+                        placeholder={t("auth.fullNamePlaceholder")}
                         required
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="signup-company">Nazwa firmy (opcjonalnie)</Label>
+                      <Label htmlFor="signup-company">{t("auth.company")}</Label>
                       <Input
                         id="signup-company"
                         type="text"
-                        placeholder="Moja Agencja Ubezpieczeniowa"
+                        placeholder={t("auth.companyPlaceholder")}
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="signup-email">Email</Label>
+                      <Label htmlFor="signup-email">{t("auth.email")}</Label>
                       <Input
                         id="signup-email"
                         type="email"
@@ -309,7 +311,7 @@ export default function Auth() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="signup-password">Hasło</Label>
+                      <Label htmlFor="signup-password">{t("auth.password")}</Label>
                       <Input
                         id="signup-password"
                         type="password"
@@ -319,16 +321,16 @@ export default function Auth() {
                       />
                     </div>
                     <Button type="submit" className="w-full" disabled={isLoading}>
-                      {isLoading ? "Tworzenie konta..." : "Utwórz konto"}
+                      {isLoading ? t("auth.creatingAccount") : t("auth.createAccount")}
                     </Button>
                     <p className="text-xs text-center text-muted-foreground">
-                      Rejestrując się, akceptujesz nasz{" "}
+                      {t("auth.termsPrefix")}{" "}
                       <a href="/terms" className="underline hover:text-foreground">
-                        Regulamin
+                        {t("auth.terms")}
                       </a>{" "}
-                      i{" "}
+                      {t("auth.and")}{" "}
                       <a href="/privacy" className="underline hover:text-foreground">
-                        Politykę prywatności
+                        {t("auth.privacy")}
                       </a>
                     </p>
                   </form>
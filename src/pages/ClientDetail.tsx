@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, FileText, Loader2, Mail, Pencil, Phone, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClientFormDialog } from "@/components/clients/ClientFormDialog";
+import { NeedsProfileForm } from "@/components/clients/NeedsProfileForm";
+import { ScoringWeightsCard } from "@/components/clients/ScoringWeightsCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import {
+  clientService,
+  type ClientFormValues,
+  type ClientHistory,
+  type ClientRow,
+} from "@/services/client-service";
+import { needsProfileService } from "@/services/needs-profile-service";
+import { comparisonStatusMessageKey } from "@/services/comparison-service";
+import { DOCUMENT_STATUS_LABELS } from "@/services/document-library-service";
+import { parseClientNeedsProfile, type ClientNeedsProfile } from "@/lib/client-needs";
+import { errorMessage, getLocale } from "@/lib/i18n";
+import { getProductTypeLabel } from "@/lib/product-type-mismatch";
+import type { ScoringWeights } from "@/lib/offer-scoring";
+import type { Json } from "@/integrations/supabase/types";
+
+const formatFileSize = (size: number | null): string | null =>
+  typeof size === "number" && size > 0 ? `${(size / 1024 / 1024).toFixed(2)} MB` : null;
+
+export default function ClientDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [client, setClient] = useState<ClientRow | null>(null);
+  const [history, setHistory] = useState<ClientHistory>({ comparisons: [], documents: [] });
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadClient = useCallback(async () => {
+    if (!id) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [clientRecord, clientHistory] = await Promise.all([
+        clientService.getClient(id),
+        clientService.getClientHistory(id),
+      ]);
+      setClient(clientRecord);
+      setHistory(clientHistory);
+    } catch (error) {
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("clientDetail.loadFailed"), { description });
+      setClient(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, stableT]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    void loadClient();
+  }, [user, navigate, loadClient]);
+
+  const needsProfile = useMemo(() => parseClientNeedsProfile(client?.needs_profile), [client?.needs_profile]);
+
+  const handleUpdate = async (values: ClientFormValues) => {
+    if (!client) {
+      return;
+    }
+
+    const updated = await clientService.updateClient(client.id, values);
+    setClient(updated);
+    toast.success(t("clientDetail.changesSaved"));
+  };
+
+  const handleSaveWeights = async (weights: Partial<ScoringWeights> | null) => {
+    if (!client) {
+      return;
+    }
+
+    try {
+      setClient(await clientService.updateScoringWeights(client.id, weights));
+      toast.success(weights ? t("clientDetail.weightsSaved") : t("clientDetail.weightsReset"));
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("clientDetail.weightsSaveFailed"), { description });
+    }
+  };
+
+  const handleSaveNeeds = async (profile: ClientNeedsProfile | null) => {
+    if (!client) {
+      return;
+    }
+
+    try {
+      const saved = await needsProfileService.saveClientProfile(client.id, profile);
+      setClient({ ...client, needs_profile: saved as Json | null });
+      toast.success(saved ? t("clientDetail.needsSaved") : t("clientDetail.needsCleared"));
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("clientDetail.needsSaveFailed"), { description });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!client) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      await clientService.deleteClient(client.id);
+      toast.success(t("clientDetail.deleted"), { description: client.full_name });
+      navigate("/clients");
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("clientDetail.deleteFailed"), { description });
+    } finally {
+      setIsDeleting(false);
+      setIsDeleteOpen(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>{t("clientDetail.notFoundTitle")}</CardTitle>
+            <CardDescription>{t("clientDetail.notFoundDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/clients")}>{t("clientDetail.backToClients")}</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b border-border bg-background/95 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link to="/clients">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  {t("clients.title")}
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{client.full_name}</h1>
+                <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+                  {client.email && (
+                    <span className="inline-flex items-center gap-1">
+                      <Mail className="h-3 w-3" />
+                      {client.email}
+                    </span>
+                  )}
+                  {client.phone && (
+                    <span className="inline-flex items-center gap-1">
+                      <Phone className="h-3 w-3" />
+                      {client.phone}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={() => setIsEditOpen(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                {t("clientDetail.edit")}
+              </Button>
+              <Button variant="outline" onClick={() => setIsDeleteOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                {t("clientDetail.delete")}
+              </Button>
+              <Link to={`/compare?client=${client.id}`}>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t("compare.title")}
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 grid gap-6 lg:grid-cols-2">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>{t("clientDetail.historyTitle")}</CardTitle>
+            <CardDescription>{t("clientDetail.historyDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.comparisons.length > 0 ? (
+              <div className="space-y-3">
+                {history.comparisons.map((comparison) => (
+                  <div
+                    key={comparison.id}
+                    className="flex items-center justify-between p-3 rounded-lg border border-border"
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">{comparison.product_type
+                          ? getProductTypeLabel(comparison.product_type, language)
+                          : t("clientDetail.comparisonFallback")}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {new Date(comparison.created_at).toLocaleDateString(getLocale(language))} •{" "}
+                        {t("clientDetail.offerCount", { count: comparison.document_ids.length })} •{" "}
+                        {t(comparisonStatusMessageKey(comparison.status))}
+                      </p>
+                    </div>
+                    <Link to={`/comparison/${comparison.id}`}>
+                      <Button variant="outline" size="sm">
+                        {t("common.view")}
+                      </Button>
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground py-6 text-center">{t("clientDetail.noComparisons")}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>{t("clientDetail.documentsTitle")}</CardTitle>
+            <CardDescription>{t("clientDetail.documentsDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.documents.length > 0 ? (
+              <div className="space-y-3">
+                {history.documents.map((document) => (
+                  <div key={document.id} className="flex items-center space-x-3 p-3 rounded-lg border border-border">
+                    <FileText className="h-5 w-5 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{document.file_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          new Date(document.created_at).toLocaleDateString(getLocale(language)),
+                          formatFileSize(document.file_size),
+                          document.status in DOCUMENT_STATUS_LABELS
+                            ? t(DOCUMENT_STATUS_LABELS[document.status])
+                            : document.status,
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground py-6 text-center">{t("clientDetail.noDocuments")}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{t("clientDetail.needsTitle")}</CardTitle>
+            <CardDescription>{t("clientDetail.needsDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NeedsProfileForm profile={needsProfile} submitLabel={t("clientDetail.saveNeeds")} onSubmit={handleSaveNeeds} />
+          </CardContent>
+        </Card>
+
+        <ScoringWeightsCard client={client} onSave={handleSaveWeights} />
+      </div>
+
+      <ClientFormDialog open={isEditOpen} onOpenChange={setIsEditOpen} client={client} onSubmit={handleUpdate} />
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("clientDetail.deleteTitle", { name: client.full_name })}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("clientDetail.deleteDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isDeleting}
+              onClick={(event) => {
+                event.preventDefault();
+                void handleDelete();
+              }}
+            >
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("clientDetail.deleteConfirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
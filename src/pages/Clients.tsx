@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, Mail, Phone, Plus, Search, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ClientFormDialog } from "@/components/clients/ClientFormDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { errorMessage, getLocale } from "@/lib/i18n";
+import { clientService, type ClientFormValues, type ClientRow } from "@/services/client-service";
+
+export default function Clients() {
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [clients, setClients] = useState<ClientRow[]>([]);
+  const [query, setQuery] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadClients = useCallback(async () => {
+    if (!user?.id) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setClients(await clientService.listClients(user.id));
+    } catch (error) {
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("clients.loadFailed"), { description });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, stableT]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    void loadClients();
+  }, [user, navigate, loadClients]);
+
+  const filteredClients = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return clients;
+    }
+    return clients.filter((client) =>
+      [client.full_name, client.email, client.phone].some(
+        (field) => typeof field === "string" && field.toLowerCase().includes(normalized),
+      ),
+    );
+  }, [clients, query]);
+
+  const handleCreate = async (values: ClientFormValues) => {
+    if (!user?.id) {
+      return;
+    }
+
+    const created = await clientService.createClient(user.id, values);
+    toast.success(t("clientPicker.created"), { description: created.full_name });
+    navigate(`/clients/${created.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b border-border bg-background/95 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link to="/dashboard">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  {t("common.back")}
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{t("clients.title")}</h1>
+                <p className="text-sm text-muted-foreground">{t("dashboard.clientsDescription")}</p>
+              </div>
+            </div>
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t("clients.newClient")}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="shadow-md">
+          <CardHeader className="space-y-4">
+            <div>
+              <CardTitle>{t("clients.listTitle")}</CardTitle>
+              <CardDescription>
+                {clients.length > 0 ? t("common.total", { count: clients.length }) : t("clients.listEmptyDescription")}
+              </CardDescription>
+            </div>
+            <div className="relative max-w-sm">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder={t("clients.searchPlaceholder")}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : filteredClients.length > 0 ? (
+              <div className="space-y-3">
+                {filteredClients.map((client) => (
+                  <Link
+                    key={client.id}
+                    to={`/clients/${client.id}`}
+                    className="flex items-center justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex items-center space-x-4">
+                      <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+                        <Users className="h-5 w-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-foreground">{client.full_name}</p>
+                        <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+                          {client.email && (
+                            <span className="inline-flex items-center gap-1">
+                              <Mail className="h-3 w-3" />
+                              {client.email}
+                            </span>
+                          )}
+                          {client.phone && (
+                            <span className="inline-flex items-center gap-1">
+                              <Phone className="h-3 w-3" />
+                              {client.phone}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      {t("clients.since", { date: new Date(client.created_at).toLocaleDateString(getLocale(language)) })}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">
+                  {clients.length > 0 ? t("clients.noMatches") : t("clients.empty")}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ClientFormDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} onSubmit={handleCreate} />
+    </div>
+  );
+}
@@ -1,18 +1,33 @@
-import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
-import { ArrowLeft, Upload, X, FileText, Loader2 } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate, Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Upload, X, FileText, Library, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
 import { useComparisonFlow, MAX_FILES } from "@/hooks/useComparisonFlow";
+import { ClientPicker } from "@/components/clients/ClientPicker";
+import { DocumentProgressList } from "@/components/comparison/DocumentProgressList";
+import { DOCUMENT_ACCEPT_ATTRIBUTE, SUPPORTED_FORMAT_LABELS } from "@/lib/document-formats";
+import { errorMessage } from "@/lib/i18n";
+import { getProductTypeLabel } from "@/lib/product-type-mismatch";
+import { documentLibraryService, type LibraryDocument } from "@/services/document-library-service";
 import { toast } from "sonner";
 
 export default function Compare() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const [clientName, setClientName] = useState("");
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const [searchParams] = useSearchParams();
+  const [clientId, setClientId] = useState<string | null>(() => searchParams.get("client"));
+  // Offers picked in the document library are compared without uploading them again.
+  const [libraryDocumentIds, setLibraryDocumentIds] = useState<string[]>(() =>
+    (searchParams.get("documents") ?? "").split(",").filter((id) => id.length > 0)
+  );
+  const [libraryDocuments, setLibraryDocuments] = useState<LibraryDocument[]>([]);
 
   const {
     files,
@@ -20,9 +35,42 @@ export default function Compare() {
     removeFile,
     isProcessing,
     processingMessage,
+    documentProgress,
     startComparison,
     canSubmit,
-  } = useComparisonFlow({ userId: user?.id });
+  } = useComparisonFlow({
+    userId: user?.id,
+    clientId,
+    existingDocumentIds: libraryDocumentIds,
+    language,
+  });
+
+  const hasLibraryDocuments = libraryDocumentIds.length > 0;
+  useEffect(() => {
+    if (!user?.id || !hasLibraryDocuments) return;
+
+    let cancelled = false;
+    documentLibraryService
+      .listDocuments(user.id)
+      .then((rows) => {
+        if (!cancelled) {
+          setLibraryDocuments(rows);
+        }
+      })
+      .catch((error: unknown) => {
+        const description = errorMessage(stableT, error);
+        toast.error(stableT("compare.libraryLoadFailed"), { description });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, hasLibraryDocuments, stableT]);
+
+  const selectedLibraryDocuments = useMemo(
+    () => libraryDocuments.filter((document) => libraryDocumentIds.includes(document.id)),
+    [libraryDocuments, libraryDocumentIds]
+  );
 
   useEffect(() => {
     if (!user) {
@@ -36,7 +84,7 @@ export default function Compare() {
 
     if (result.status === "success") {
       if (result.added > 0) {
-        toast.success(`Dodano ${result.added} plik(ów)`);
+        toast.success(t("compare.filesAdded", { count: result.added }));
       }
     } else {
       toast.error(result.message, {
@@ -53,35 +101,51 @@ export default function Compare() {
     const result = await startComparison();
 
     if (result.status === "success") {
-      toast.success("Porównanie gotowe!", {
+      toast.success(t("compare.ready"), {
         description: result.detectedProductType
-          ? `Wykryty typ produktu: ${result.detectedProductType}`
+          ? t("compare.detectedProductType", { type: getProductTypeLabel(result.detectedProductType, language) })
           : undefined,
       });
       navigate(`/comparison/${result.comparisonId}`);
       return;
     }
 
+    if (result.status === "processing") {
+      toast.info(t("compare.stillProcessing"), {
+        description: t("compare.stillProcessingDescription"),
+      });
+      navigate(`/comparison/${result.comparisonId}`);
+      return;
+    }
+
+    if (result.status === "needs-review") {
+      toast.warning(t("mismatch.title"), {
+        description: t("compare.needsReviewDescription"),
+      });
+      navigate(`/comparison/${result.comparisonId}`);
+      return;
+    }
+
     if (result.status === "validation-error") {
       toast.error(result.message);
       return;
     }
 
     if (result.status === "auth-required") {
-      toast.error("Musisz być zalogowany");
+      toast.error(t("compare.authRequired"));
       navigate("/auth");
       return;
     }
 
     if (result.status === "error") {
-      toast.error("Błąd podczas przetwarzania", {
+      toast.error(t("compare.processingFailed"), {
         description: result.message,
       });
       return;
     }
 
     if (result.status === "aborted") {
-      toast.error("Przetwarzanie zostało przerwane");
+      toast.error(t("errors.processingAborted"));
       return;
     }
   };
@@ -94,12 +158,12 @@ export default function Compare() {
             <Link to="/dashboard">
               <Button variant="ghost" size="sm">
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Powrót
+                {t("common.back")}
               </Button>
             </Link>
             <div>
-              <h1 className="text-2xl font-bold text-foreground">Nowe porównanie</h1>
-              <p className="text-sm text-muted-foreground">Prześlij oferty do analizy</p>
+              <h1 className="text-2xl font-bold text-foreground">{t("compare.title")}</h1>
+              <p className="text-sm text-muted-foreground">{t("compare.subtitle")}</p>
             </div>
           </div>
         </div>
@@ -110,27 +174,24 @@ export default function Compare() {
           <form onSubmit={handleSubmit} className="space-y-8">
             <Card className="shadow-md">
               <CardHeader>
-                <CardTitle>Informacje o kliencie</CardTitle>
-                <CardDescription>Opcjonalnie: przypisz porównanie do klienta</CardDescription>
+                <CardTitle>{t("compare.clientTitle")}</CardTitle>
+                <CardDescription>{t("compare.clientDescription")}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="client-name">Imię i nazwisko klienta</Label>
-                  <Input
-                    id="client-name"
-                    placeholder="Jan Kowalski"
-                    value={clientName}
-                    onChange={(e) => setClientName(e.target.value)}
-                  />
-                </div>
+                <ClientPicker
+                  userId={user?.id}
+                  value={clientId}
+                  onChange={setClientId}
+                  disabled={isProcessing}
+                />
               </CardContent>
             </Card>
 
             <Card className="shadow-md">
               <CardHeader>
-                <CardTitle>Prześlij oferty</CardTitle>
+                <CardTitle>{t("compare.uploadTitle")}</CardTitle>
                 <CardDescription>
-                  Dodaj od 2 do {MAX_FILES} ofert ubezpieczeniowych w formacie PDF
+                  {t("compare.uploadDescription", { max: MAX_FILES })}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -138,7 +199,7 @@ export default function Compare() {
                   <Input
                     id="file-upload"
                     type="file"
-                    accept=".pdf"
+                    accept={DOCUMENT_ACCEPT_ATTRIBUTE}
                     multiple
                     onChange={handleFileUpload}
                     className="hidden"
@@ -149,18 +210,68 @@ export default function Compare() {
                   >
                     <Upload className="h-12 w-12 text-muted-foreground mb-4" />
                     <p className="text-sm font-medium text-foreground mb-1">
-                      Kliknij aby przesłać lub przeciągnij pliki PDF
+                      {t("compare.dropzone")}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      Wyłącznie PDF, maksymalnie {MAX_FILES} plików
+                      {t("compare.dropzoneLimits", { formats: SUPPORTED_FORMAT_LABELS, max: MAX_FILES })}
                     </p>
                   </label>
                 </div>
 
-                {files.length > 0 && (
+                {selectedLibraryDocuments.length > 0 && documentProgress.length === 0 && (
                   <div className="space-y-3">
                     <p className="text-sm font-medium text-foreground">
-                      Przesłane pliki ({files.length}/{MAX_FILES})
+                      {t("compare.libraryDocuments", { count: selectedLibraryDocuments.length })}
+                    </p>
+                    {selectedLibraryDocuments.map((document) => (
+                      <div
+                        key={document.id}
+                        className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <Library className="h-5 w-5 text-primary" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{document.fileName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {[
+                                document.insurer,
+                                document.productType && getProductTypeLabel(document.productType, language),
+                              ]
+                                .filter(Boolean)
+                                .join(" • ") || t("compare.libraryDocumentFallback")}
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={isProcessing}
+                          onClick={() =>
+                            setLibraryDocumentIds((current) => current.filter((id) => id !== document.id))
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {documentProgress.length > 0 ? (
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium text-foreground">
+                      {t("compare.progress", {
+                        done: documentProgress.filter((item) => item.status === "completed").length,
+                        total: documentProgress.length,
+                      })}
+                    </p>
+                    <DocumentProgressList items={documentProgress} />
+                  </div>
+                ) : files.length > 0 && (
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium text-foreground">
+                      {t("compare.uploadedFiles", { count: files.length, max: MAX_FILES })}
                     </p>
                     {files.map((file, index) => (
                       <div
@@ -194,17 +305,17 @@ export default function Compare() {
             <div className="flex justify-end space-x-4">
               <Link to="/dashboard">
                 <Button type="button" variant="outline">
-                  Anuluj
+                  {t("common.cancel")}
                 </Button>
               </Link>
               <Button type="submit" disabled={!canSubmit} size="lg">
                 {isProcessing ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    {processingMessage || "Przetwarzanie..."}
+                    {processingMessage || t("compare.processing")}
                   </>
                 ) : (
-                  "Rozpocznij porównanie"
+                  t("compare.start")
                 )}
               </Button>
             </div>
@@ -218,13 +329,9 @@ export default function Compare() {
                 </div>
                 <div className="space-y-2 text-sm text-muted-foreground">
                   <p>
-                    <strong className="text-foreground">Wskazówka:</strong> Im lepszej jakości
-                    pliki prześlesz, tym dokładniejsze będzie porównanie.
-                  </p>
-                  <p>
-                    Natywne PDF-y działają najlepiej. Skany powinny być czytelne i w dobrej
-                    rozdzielczości.
+                    <strong className="text-foreground">{t("compare.tipLabel")}</strong> {t("compare.tipQuality")}
                   </p>
+                  <p>{t("compare.tipFormats")}</p>
                 </div>
               </div>
             </CardContent>
@@ -1,14 +1,18 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useDocumentViewer } from "@/contexts/DocumentViewerContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import {
   ArrowLeft,
-  ArrowRight,
   CheckCircle,
   Download,
   Eye,
@@ -18,20 +22,43 @@ import {
   ListChecks,
   CheckCircle2,
   AlertTriangle,
+  UserCheck,
+  FilePlus,
 } from "lucide-react";
 import { toast } from "sonner";
 import { OfferCard, type OfferCardAction } from "@/components/comparison/OfferCard";
 import { MetricsPanel } from "@/components/comparison/MetricsPanel";
-import { ComparisonTable } from "@/components/comparison/ComparisonTable";
-import { SourceTooltip } from "@/components/comparison/SourceTooltip";
+import { ComparisonTable, type ComparisonValueCorrection } from "@/components/comparison/ComparisonTable";
 import { DocumentViewerDialog } from "@/components/comparison/DocumentViewerDialog";
+import { ComparisonJobProgress } from "@/components/comparison/ComparisonJobProgress";
+import { ScoreBreakdownPanel } from "@/components/comparison/ScoreBreakdownPanel";
+import { NeedsProfileForm } from "@/components/clients/NeedsProfileForm";
+import { ProductTypeMismatchCard } from "@/components/comparison/ProductTypeMismatchCard";
+import { ComparisonVersionsPanel } from "@/components/comparison/ComparisonVersionsPanel";
+import { ManageOffersDialog } from "@/components/comparison/ManageOffersDialog";
+import { AiSummaryPanel } from "@/components/comparison/AiSummaryPanel";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useComparisonJob } from "@/hooks/useComparisonJob";
+import { useSummaryStream } from "@/hooks/useSummaryStream";
+import { DEFAULT_LANGUAGE, errorMessage, getLocale, type Translate } from "@/lib/i18n";
+import { DEFAULT_SUMMARY_STYLE, getStyledSummary, type SummaryStyle } from "@/lib/summary-styles";
 import {
   analyzeBestOffers,
+  calculateComparisonMetrics,
   extractCalculationId,
   createAnalysisLookup,
   findOfferAnalysis,
+  getOfferCurrency,
   type ComparisonOffer,
   type ExtractedOfferData,
+  type PremiumBasis,
   type RecommendedOfferContext,
 } from "@/lib/comparison-utils";
 import {
@@ -41,10 +68,37 @@ import {
   type ComparisonSourceMetadataEntry,
   type ComparisonSourceMetadataRow,
 } from "@/lib/buildComparisonSections";
-import type { Database } from "@/integrations/supabase/types";
+import type { Database, Json } from "@/integrations/supabase/types";
 import { toComparisonAnalysis, type SourceReference } from "@/types/comparison";
+import { localizeComparisonAnalysis } from "@/lib/analysis-messages";
 import { getSignedDownloadUrl, getSignedPreviewUrl } from "@/services/document-service";
 import { SignedUrlCache } from "@/services/signed-url-cache";
+import { reportService } from "@/services/report-service";
+import { offerCorrectionService } from "@/services/offer-correction-service";
+import { exchangeRateService, toExchangeRate } from "@/services/exchange-rate-service";
+import { BASE_CURRENCY, createCurrencyConverter, type ExchangeRate } from "@/lib/exchange-rates";
+import {
+  PRODUCT_TYPE_SCORING_WEIGHTS,
+  parseScoringWeights,
+  resolveScoringWeights,
+  scoreOffers,
+} from "@/lib/offer-scoring";
+import { clientService, type ClientRow } from "@/services/client-service";
+import { needsProfileService } from "@/services/needs-profile-service";
+import { productTypeReviewService } from "@/services/product-type-review-service";
+import { comparisonService } from "@/services/comparison-service";
+import { comparisonVersionService } from "@/services/comparison-version-service";
+import type { ComparisonVersion } from "@/lib/comparison-versions";
+import { getProductTypeLabel, parseProductTypeMismatch } from "@/lib/product-type-mismatch";
+import {
+  evaluateHardRequirements,
+  parseClientNeedsProfile,
+  resolveClientNeeds,
+  type ClientNeedsProfile,
+  type RequirementViolation,
+} from "@/lib/client-needs";
+import { renderComparisonReport } from "@/lib/comparison-report";
+import { loadReportFonts } from "@/lib/report-fonts";
 
 type ComparisonRow = Database["public"]["Tables"]["comparisons"]["Row"];
 type DocumentRow = Database["public"]["Tables"]["documents"]["Row"];
@@ -114,7 +168,7 @@ const parseSourceReferenceValue = (value: unknown): SourceReference | null => {
   const pageNumber = clampPageNumber(toNullableNumber(pageCandidate) ?? 1);
   const snippetCandidate =
     record.textSnippet ?? record.text_snippet ?? record.snippet ?? record.text ?? record.content;
-  const textSnippet = toNullableString(snippetCandidate) ?? "Fragment źródła niedostępny";
+  const textSnippet = toNullableString(snippetCandidate) ?? "";
   const coordinates = parseCoordinates(record.coordinates ?? record.bounding_box ?? record.bounds);
 
   if (!documentIdRaw) {
@@ -283,19 +337,43 @@ const detectProductType = (data: ExtractedOfferData | null): string | null => {
   return null;
 };
 
-const openInNewTab = (url: string | null | undefined): boolean => {
-  if (!url || typeof window === "undefined") {
+/**
+ * Opens an empty tab while the click is still a user gesture, so the signed URL fetched afterwards
+ * is not caught by the popup blocker. Returns null when the browser blocked the tab anyway.
+ */
+const openPendingTab = (): Window | null => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  const tab = window.open("", "_blank");
+  if (tab) {
+    tab.opener = null;
+  }
+  return tab;
+};
+
+const showInTab = (tab: Window | null, url: string | null | undefined): boolean => {
+  if (!tab || !url) {
+    tab?.close();
     return false;
   }
 
-  const newWindow = window.open(url, "_blank", "noopener,noreferrer");
-  return !!newWindow;
+  tab.location.href = url;
+  return true;
 };
 
-const mapDocumentsToOffers = (documents: DocumentRow[]): ComparisonOffer[] => {
+// Only a blocked tab sends the current page to the file instead.
+const downloadInTab = (tab: Window | null, url: string) => {
+  if (!showInTab(tab, url)) {
+    window.location.href = url;
+  }
+};
+
+const mapDocumentsToOffers = (documents: DocumentRow[], t: Translate): ComparisonOffer[] => {
   return documents.map((doc, idx) => {
     const extracted = (doc.extracted_data ?? null) as ExtractedOfferData | null;
-    const label = `Oferta ${idx + 1}`;
+    const label = t("result.offerLabel", { index: idx + 1 });
     const insurer = normalizeString(extracted?.insurer);
     const calculationId = extractCalculationId(extracted);
     return {
@@ -313,11 +391,22 @@ const mapDocumentsToOffers = (documents: DocumentRow[]): ComparisonOffer[] => {
 export default function ComparisonResult() {
   const { id } = useParams();
   const { user } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [comparison, setComparison] = useState<ComparisonRow | null>(null);
   const [documents, setDocuments] = useState<DocumentRow[]>([]);
   const [selectedOfferId, setSelectedOfferId] = useState<string | null>(null);
+  const [isExportingReport, setIsExportingReport] = useState(false);
+  const [versions, setVersions] = useState<ComparisonVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [premiumBasis, setPremiumBasis] = useState<PremiumBasis>("annual");
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [client, setClient] = useState<ClientRow | null>(null);
+  const [isNeedsDialogOpen, setIsNeedsDialogOpen] = useState(false);
+  const [isOffersDialogOpen, setIsOffersDialogOpen] = useState(false);
   const [viewerState, setViewerState] = useState({
     isOpen: false,
     documentId: null as string | null,
@@ -354,13 +443,13 @@ export default function ComparisonResult() {
       setComparison(compData);
       setDocuments(docsData ?? []);
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Nieznany błąd";
-      toast.error("Błąd ładowania porównania", { description: message });
+      const message = errorMessage(stableT, error) ?? stableT("result.unknownError");
+      toast.error(stableT("result.loadFailed"), { description: message });
       navigate("/dashboard");
     } finally {
       setLoading(false);
     }
-  }, [id, navigate]);
+  }, [id, navigate, stableT]);
 
   useEffect(() => {
     if (!user) {
@@ -371,6 +460,143 @@ export default function ComparisonResult() {
     void loadComparison();
   }, [user, navigate, loadComparison]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    exchangeRateService
+      .listRates(user.id)
+      .then((rows) => {
+        if (!cancelled) {
+          setExchangeRates(rows.map(toExchangeRate));
+        }
+      })
+      .catch((error: unknown) => {
+        const description = errorMessage(stableT, error);
+        toast.error(stableT("result.ratesLoadFailed"), { description });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, stableT]);
+
+  // Reload the history whenever a run finishes and the comparison status changes.
+  const comparisonStatus = comparison?.status ?? null;
+  useEffect(() => {
+    if (!id || !comparisonStatus) return;
+
+    let cancelled = false;
+    comparisonVersionService
+      .listVersions(id)
+      .then((rows) => {
+        if (!cancelled) {
+          setVersions(rows);
+          setSelectedVersionId(null);
+        }
+      })
+      .catch((error: unknown) => {
+        const description = errorMessage(stableT, error);
+        toast.error(stableT("result.versionsLoadFailed"), { description });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, comparisonStatus, stableT]);
+
+  const clientId = comparison?.client_id ?? null;
+  useEffect(() => {
+    if (!clientId) {
+      setClient(null);
+      return;
+    }
+
+    let cancelled = false;
+    clientService
+      .getClient(clientId)
+      .then((record) => {
+        if (!cancelled) {
+          setClient(record);
+        }
+      })
+      .catch(() => {
+        // Scoring falls back to the product type weights without the client record.
+        if (!cancelled) {
+          setClient(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  // compare-offers marks the comparison completed before the summary stage has run.
+  const isSummaryPending =
+    comparison?.status === "completed" &&
+    !comparison.summary_text &&
+    !getStyledSummary(comparison.summary_json, DEFAULT_SUMMARY_STYLE);
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>(DEFAULT_SUMMARY_STYLE);
+  const [isJobSettled, setIsJobSettled] = useState(false);
+
+  const {
+    job: comparisonJob,
+    retry: retryComparisonJob,
+    isRetrying: isRetryingComparisonJob,
+  } = useComparisonJob({
+    comparisonId: id,
+    enabled: comparison?.status === "processing" || comparison?.status === "failed" || isSummaryPending,
+    onCompleted: () => {
+      void loadComparison().then(() => setIsJobSettled(true));
+    },
+    onError: (error) => {
+      toast.error(errorMessage(t, error) ?? t("errors.comparisonStatusFailed"));
+    },
+  });
+
+  const {
+    partial: streamedSummary,
+    style: streamedStyle,
+    language: streamedLanguage,
+    isStreaming: isStreamingSummary,
+    error: summaryStreamError,
+    start: startSummaryStream,
+  } = useSummaryStream({
+    comparisonId: id,
+    onCompleted: () => {
+      void loadComparison();
+    },
+  });
+
+  // Stream the summary only when the job is done and still left none behind, so the page never
+  // generates it a second time alongside the orchestrator. A job whose summary stage failed for
+  // good leaves the comparison completed, so the page tries once more itself.
+  const isSummaryJobOver = isJobSettled || comparisonJob?.status === "failed";
+  const hasAutoStartedSummaryRef = useRef(false);
+  useEffect(() => {
+    if (!isSummaryPending || !isSummaryJobOver || hasAutoStartedSummaryRef.current) {
+      return;
+    }
+    hasAutoStartedSummaryRef.current = true;
+    void startSummaryStream();
+  }, [isSummaryPending, isSummaryJobOver, startSummaryStream]);
+
+  const isJobGeneratingSummary =
+    isSummaryPending &&
+    comparisonJob?.stage === "generating_summary" &&
+    comparisonJob.status !== "completed" &&
+    comparisonJob.status !== "failed";
+
+  const handleRetryComparisonJob = useCallback(async () => {
+    try {
+      await retryComparisonJob();
+    } catch (error: unknown) {
+      const message = errorMessage(t, error) ?? t("result.unknownError");
+      toast.error(t("result.resumeFailed"), { description: message });
+    }
+  }, [retryComparisonJob, t]);
+
   // Memoized data that doesn't depend on comparison data
   const documentById = useMemo(() => {
     const map = new Map<string, DocumentRow>();
@@ -380,7 +606,7 @@ export default function ComparisonResult() {
     return map;
   }, [documents]);
 
-  const offers = useMemo<ComparisonOffer[]>(() => mapDocumentsToOffers(documents), [documents]);
+  const offers = useMemo<ComparisonOffer[]>(() => mapDocumentsToOffers(documents, t), [documents, t]);
 
   const fetchPreviewUrl = useCallback(
     (document: DocumentRow) => signedUrlCache.getPreviewUrl(document.file_path),
@@ -396,7 +622,7 @@ export default function ComparisonResult() {
     (offer: ComparisonOffer, isSelected: boolean): OfferCardAction[] => {
       const notifyUnavailable = (message: string) => {
         toast.info(message, {
-          description: offer.fileName ? `Plik: ${offer.fileName}` : undefined,
+          description: offer.fileName ? t("result.fileName", { name: offer.fileName }) : undefined,
         });
       };
 
@@ -404,45 +630,44 @@ export default function ComparisonResult() {
 
       const previewHandler = () => {
         if (!document) {
-          notifyUnavailable("Podgląd dokumentu jest niedostępny");
+          notifyUnavailable(t("result.previewUnavailable"));
           return;
         }
 
+        const tab = openPendingTab();
         void fetchPreviewUrl(document)
           .then((url) => {
-            if (!openInNewTab(url)) {
-              notifyUnavailable("Podgląd dokumentu jest niedostępny");
+            if (!showInTab(tab, url)) {
+              notifyUnavailable(t("result.previewUnavailable"));
             }
           })
           .catch((error) => {
-            const description = error instanceof Error ? error.message : undefined;
-            toast.error("Nie udało się wczytać podglądu.", { description });
+            tab?.close();
+            const description = errorMessage(t, error);
+            toast.error(t("result.previewFailed"), { description });
           });
       };
 
       const downloadHandler = () => {
         if (!document) {
-          notifyUnavailable("Nie udało się rozpocząć pobierania");
+          notifyUnavailable(t("result.downloadNotStarted"));
           return;
         }
 
+        const tab = openPendingTab();
         void fetchDownloadUrl(document)
-          .then((url) => {
-            const newTab = window.open(url, "_blank", "noopener");
-            if (!newTab) {
-              window.location.href = url;
-            }
-          })
+          .then((url) => downloadInTab(tab, url))
           .catch((error) => {
-            const description = error instanceof Error ? error.message : undefined;
-            toast.error("Nie udało się pobrać dokumentu.", { description });
+            tab?.close();
+            const description = errorMessage(t, error);
+            toast.error(t("result.downloadFailed"), { description });
           });
       };
 
       return [
         {
           key: "preview",
-          label: "Podgląd",
+          label: t("result.preview"),
           icon: Eye,
           variant: "outline",
           disabled: !document,
@@ -450,7 +675,7 @@ export default function ComparisonResult() {
         },
         {
           key: "download",
-          label: "Pobierz",
+          label: t("result.download"),
           icon: Download,
           variant: "outline",
           disabled: !document,
@@ -458,7 +683,7 @@ export default function ComparisonResult() {
         },
         {
           key: "select",
-          label: isSelected ? "Wybrano" : "Wybierz ofertę",
+          label: isSelected ? t("result.selected") : t("result.selectOffer"),
           icon: CheckCircle,
           variant: isSelected ? "default" : "secondary",
           active: isSelected,
@@ -468,16 +693,35 @@ export default function ComparisonResult() {
         },
       ];
     },
-    [documentById, fetchDownloadUrl, fetchPreviewUrl, setSelectedOfferId]
+    [documentById, fetchDownloadUrl, fetchPreviewUrl, setSelectedOfferId, t]
   );
 
-  // All memoized computations that depend on comparison data
-  const comparisonAnalysis = useMemo(
+  // An older version replaces the AI results on screen; documents always show their current data.
+  const viewedVersion = useMemo(
     () =>
-      comparison
-        ? toComparisonAnalysis(comparison.comparison_data, comparison.summary_text)
+      selectedVersionId && selectedVersionId !== versions[0]?.id
+        ? versions.find((version) => version.id === selectedVersionId) ?? null
         : null,
-    [comparison]
+    [versions, selectedVersionId]
+  );
+
+  // All memoized computations that depend on comparison data
+  const comparisonAnalysis = useMemo(
+    () => {
+      const analysis = viewedVersion
+        ? toComparisonAnalysis(
+            viewedVersion.comparisonData,
+            getStyledSummary(viewedVersion.summaryJson, DEFAULT_SUMMARY_STYLE) ?? viewedVersion.summaryText
+          )
+        : comparison
+          ? toComparisonAnalysis(
+              comparison.comparison_data,
+              getStyledSummary(comparison.summary_json, DEFAULT_SUMMARY_STYLE) ?? comparison.summary_text
+            )
+          : null;
+      return analysis ? localizeComparisonAnalysis(analysis, t, language) : null;
+    },
+    [comparison, viewedVersion, t, language]
   );
 
   const sourceMetadata = useMemo<ComparisonSourceMetadata | null>(() => {
@@ -500,22 +744,6 @@ export default function ComparisonResult() {
     return extractMetricsSourceReferences(summarySources as Record<string, unknown>);
   }, [comparisonAnalysis]);
 
-  const hasStructuredSummary = useMemo(() => {
-    const summary = comparisonAnalysis?.summary;
-    if (!summary) {
-      return false;
-    }
-
-    const recommendedOffer = summary.recommended_offer;
-    const hasRecommendedOffer = Boolean(recommendedOffer);
-    const hasKeyNumbers = (recommendedOffer?.key_numbers?.length ?? 0) > 0;
-    const hasReasons = (summary.reasons?.length ?? 0) > 0;
-    const hasRisks = (summary.risks?.length ?? 0) > 0;
-    const hasNextSteps = (summary.next_steps?.length ?? 0) > 0;
-
-    return hasRecommendedOffer || hasKeyNumbers || hasReasons || hasRisks || hasNextSteps;
-  }, [comparisonAnalysis]);
-
   const recommendedContext = useMemo<RecommendedOfferContext | null>(() => {
     const recommended = comparisonAnalysis?.summary?.recommended_offer;
     if (!recommended || typeof recommended !== "object") {
@@ -534,14 +762,65 @@ export default function ComparisonResult() {
     } satisfies RecommendedOfferContext;
   }, [comparisonAnalysis]);
 
+  const reportingCurrency = comparison?.reporting_currency ?? BASE_CURRENCY;
+  const currencyConverter = useMemo(
+    () => createCurrencyConverter(exchangeRates, reportingCurrency),
+    [exchangeRates, reportingCurrency]
+  );
+  const currencyOptions = useMemo(() => {
+    const codes = new Set<string>([BASE_CURRENCY, reportingCurrency]);
+    exchangeRates.forEach((rate) => codes.add(rate.currency));
+    offers.forEach((offer) => codes.add(getOfferCurrency(offer.data)));
+    return Array.from(codes).sort();
+  }, [exchangeRates, offers, reportingCurrency]);
+
+  const productType = comparison?.product_type ?? null;
+  const clientWeights = useMemo(() => parseScoringWeights(client?.scoring_weights), [client]);
+  const offerScores = useMemo(
+    () => scoreOffers(offers, resolveScoringWeights({ productType, clientWeights }), currencyConverter, language),
+    [offers, productType, clientWeights, currencyConverter, language]
+  );
+  const weightsSourceLabel = clientWeights && client
+    ? t("scoring.weightsSource.client", { name: client.full_name })
+    : productType && PRODUCT_TYPE_SCORING_WEIGHTS[productType.trim().toLowerCase()]
+      ? t("scoring.weightsSource.product", { type: getProductTypeLabel(productType, language) })
+      : t("scoring.weightsSource.default");
+
+  const productTypeMismatch = useMemo(
+    () => parseProductTypeMismatch(comparison?.product_type_mismatch),
+    [comparison?.product_type_mismatch]
+  );
+
+  const comparisonNeeds = useMemo(
+    () => parseClientNeedsProfile(comparison?.needs_profile),
+    [comparison?.needs_profile]
+  );
+  const needsProfile = useMemo(
+    () => resolveClientNeeds(comparisonNeeds, client?.needs_profile),
+    [comparisonNeeds, client?.needs_profile]
+  );
+  const requirementViolations = useMemo(
+    () =>
+      Object.fromEntries(
+        offers.map((offer) => [offer.id, evaluateHardRequirements(offer, needsProfile, currencyConverter, language)])
+      ) as Record<string, RequirementViolation[]>,
+    [offers, needsProfile, currencyConverter, language]
+  );
+
   const { badges, bestOfferIndex } = useMemo(
-    () => analyzeBestOffers(offers, comparisonAnalysis, recommendedContext),
-    [offers, comparisonAnalysis, recommendedContext]
+    () => analyzeBestOffers(offers, comparisonAnalysis, recommendedContext, currencyConverter, offerScores),
+    [offers, comparisonAnalysis, recommendedContext, currencyConverter, offerScores]
   );
 
   const sections = useMemo<ComparisonSection[]>(
-    () => buildComparisonSections(offers, comparisonAnalysis, sourceMetadata),
-    [offers, comparisonAnalysis, sourceMetadata]
+    () =>
+      buildComparisonSections(offers, comparisonAnalysis, sourceMetadata, {
+        premiumBasis,
+        currencyConverter,
+        productType,
+        language,
+      }),
+    [offers, comparisonAnalysis, sourceMetadata, premiumBasis, currencyConverter, productType, language]
   );
 
   const {
@@ -576,7 +855,7 @@ export default function ComparisonResult() {
 
     const document = documents.find((doc) => doc.id === activeReference.documentId);
     if (!document) {
-      toast.error("Nie znaleziono dokumentu do podglądu.");
+      toast.error(stableT("result.previewNotFound"));
       clear();
       return;
     }
@@ -586,24 +865,23 @@ export default function ComparisonResult() {
       documentId: document.id,
       page: clampPageNumber(activeReference.page),
     });
-  }, [activeReference, documents, clear]);
+  }, [activeReference, documents, clear, stableT]);
 
   const handleDownloadDocument = useCallback(
     async (document: DocumentRow) => {
+      const tab = openPendingTab();
       try {
         const signedUrl = await fetchDownloadUrl(document);
-        const newTab = window.open(signedUrl, "_blank", "noopener");
-        if (!newTab) {
-          window.location.href = signedUrl;
-        }
+        downloadInTab(tab, signedUrl);
       } catch (error) {
-        const description = error instanceof Error ? error.message : undefined;
-        toast.error("Nie udało się pobrać dokumentu.", {
+        tab?.close();
+        const description = errorMessage(t, error);
+        toast.error(t("result.downloadFailed"), {
           description,
         });
       }
     },
-    [fetchDownloadUrl],
+    [fetchDownloadUrl, t],
   );
 
   const handleViewerOpenChange = useCallback(
@@ -621,38 +899,117 @@ export default function ComparisonResult() {
   }, []);
 
   const summaryData = comparisonAnalysis?.summary ?? null;
-  const recommendedOffer = summaryData?.recommended_offer ?? null;
-  const keyNumbers = recommendedOffer?.key_numbers ?? [];
-  const recommendedOfferFromList = bestOfferIndex >= 0 ? offers[bestOfferIndex] ?? null : null;
-  const recommendationPoints = useMemo(() => {
-    const points: string[] = [];
-    const addList = (list?: string[] | null) => {
-      if (!list) return;
-      list.forEach((entry) => {
-        if (typeof entry === "string") {
-          const normalized = entry.trim();
-          if (
-            normalized.length > 0 &&
-            !points.some((point) => point.toLowerCase() === normalized.toLowerCase())
-          ) {
-            points.push(normalized);
-          }
-        }
+  // Differences found by the rule-based comparison, independent of the summary style.
+  const analysisHighlights = useMemo(() => {
+    const entries = [...(comparisonAnalysis?.key_highlights ?? []), ...(comparisonAnalysis?.recommendations ?? [])]
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+    return Array.from(new Set(entries)).slice(0, 5);
+  }, [comparisonAnalysis]);
+
+  const handleExcludeDocuments = async (excludedIds: string[]) => {
+    if (!comparison || !productTypeMismatch) return;
+
+    try {
+      const result = await productTypeReviewService.excludeDocuments(
+        comparison.id,
+        comparison.document_ids,
+        productTypeMismatch,
+        excludedIds
+      );
+      setDocuments((current) => current.filter((doc) => result.documentIds.includes(doc.id)));
+      setComparison((current) =>
+        current
+          ? {
+              ...current,
+              document_ids: result.documentIds,
+              product_type_mismatch: result.mismatch as Json,
+              status: "processing",
+            }
+          : current
+      );
+      toast.success(t("result.documentsExcluded"), {
+        description: t("result.documentsExcludedDescription"),
       });
-    };
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.excludeFailed"), { description });
+    }
+  };
+
+  const handleCompareAnyway = async () => {
+    if (!comparison || !productTypeMismatch) return;
+
+    try {
+      const acknowledged = await productTypeReviewService.compareAnyway(comparison.id, productTypeMismatch);
+      setComparison((current) =>
+        current ? { ...current, product_type_mismatch: acknowledged as Json, status: "processing" } : current
+      );
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.comparisonResumeFailed"), { description });
+    }
+  };
+
+  const handleAddOffers = async ({ files, existingDocumentIds }: { files: File[]; existingDocumentIds: string[] }) => {
+    if (!user || !comparison) return;
+
+    try {
+      const { rerunFrom } = await comparisonService.addDocuments({
+        comparisonId: comparison.id,
+        userId: user.id,
+        clientId: comparison.client_id,
+        files,
+        existingDocumentIds,
+      });
+      toast.success(t("result.offersAdded"), {
+        description:
+          rerunFrom === "triggering_extraction"
+            ? t("result.offersAddedReading")
+            : t("result.offersAddedDescription"),
+      });
+      void loadComparison();
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.addOffersFailed"), { description });
+      throw error;
+    }
+  };
+
+  const handleRemoveOffers = async (documentIds: string[]) => {
+    if (!comparison) return;
+
+    try {
+      await comparisonService.removeDocuments(comparison.id, documentIds);
+      toast.success(t("result.offersRemoved"), {
+        description: t("result.offersRemovedDescription"),
+      });
+      void loadComparison();
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.removeOffersFailed"), { description });
+      throw error;
+    }
+  };
+
+  const handleRerun = async () => {
+    if (!comparison) return;
+
+    setIsRerunning(true);
+    try {
+      await comparisonVersionService.rerun(comparison.id);
+      setComparison((current) => (current ? { ...current, status: "processing" } : current));
+      toast.success(t("result.rerunStarted"), {
+        description: t("result.rerunStartedDescription"),
+      });
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.rerunFailed"), { description });
+    } finally {
+      setIsRerunning(false);
+    }
+  };
 
-    addList(summaryData?.reasons ?? null);
-    const keyHighlights = Array.isArray(comparisonAnalysis?.key_highlights)
-      ? (comparisonAnalysis?.key_highlights as string[])
-      : null;
-    addList(keyHighlights);
-    const recommendationsList = Array.isArray(comparisonAnalysis?.recommendations)
-      ? (comparisonAnalysis?.recommendations as string[])
-      : null;
-    addList(recommendationsList);
-
-    return points.slice(0, 5);
-  }, [summaryData, comparisonAnalysis]);
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -661,17 +1018,47 @@ export default function ComparisonResult() {
     );
   }
 
+  if (comparison?.status === "needs_review" && productTypeMismatch?.status === "pending") {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center px-4">
+        <ProductTypeMismatchCard
+          mismatch={productTypeMismatch}
+          onExclude={handleExcludeDocuments}
+          onCompareAnyway={handleCompareAnyway}
+        />
+      </div>
+    );
+  }
+
+  if (
+    comparison &&
+    !comparisonAnalysis &&
+    comparisonJob &&
+    comparisonJob.status !== "completed" &&
+    comparisonJob.status !== "blocked"
+  ) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center px-4">
+        <ComparisonJobProgress
+          job={comparisonJob}
+          isRetrying={isRetryingComparisonJob}
+          onRetry={() => void handleRetryComparisonJob()}
+        />
+      </div>
+    );
+  }
+
   if (!comparison || !comparisonAnalysis) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
         <Card className="max-w-md">
           <CardHeader>
-            <CardTitle>Brak danych</CardTitle>
-            <CardDescription>Porównanie nie jest jeszcze gotowe</CardDescription>
+            <CardTitle>{t("result.notReadyTitle")}</CardTitle>
+            <CardDescription>{t("result.notReadyDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <Button onClick={() => navigate("/dashboard")}>
-              Wróć do panelu
+              {t("result.back")}
             </Button>
           </CardContent>
         </Card>
@@ -679,29 +1066,126 @@ export default function ComparisonResult() {
     );
   }
 
-  const recommendedOfferTitle = (() => {
-    if (typeof recommendedOffer?.name === "string" && recommendedOffer.name.trim().length > 0) {
-      return recommendedOffer.name;
+  // The AI tab shows the summary of the selected style in the UI language, preferring the one
+  // being streamed. Only the Polish default style falls back to the legacy summary_text.
+  const isDefaultSummary = summaryStyle === DEFAULT_SUMMARY_STYLE && language === DEFAULT_LANGUAGE;
+  const storedStyledSummary = isDefaultSummary
+    ? summaryData
+    : toComparisonAnalysis(
+        null,
+        getStyledSummary(viewedVersion ? viewedVersion.summaryJson : comparison.summary_json, summaryStyle, language)
+      )?.summary ?? null;
+  const isStreamedSummaryShown = streamedStyle === summaryStyle && streamedLanguage === language;
+  const displayedSummary =
+    !viewedVersion && streamedSummary && isStreamedSummaryShown ? streamedSummary : storedStyledSummary;
+  const displayedSummaryText =
+    displayedSummary?.fallback_text ??
+    displayedSummary?.raw_text ??
+    (isDefaultSummary
+      ? viewedVersion
+        ? viewedVersion.summaryText
+        : comparison.summary_text
+      : null);
+
+  const handleExportReport = async () => {
+    if (!user || !comparison) return;
+
+    setIsExportingReport(true);
+    const tab = openPendingTab();
+    try {
+      const fonts = await loadReportFonts(language);
+      const content = renderComparisonReport({
+        comparisonId: comparison.id,
+        offers,
+        sections,
+        metrics: calculateComparisonMetrics(offers, premiumBasis, currencyConverter, language),
+        summary: displayedSummary,
+        fallbackSummaryText: displayedSummaryText,
+        productType: comparison.product_type,
+        language,
+        fonts,
+      });
+      const { reportPath, signedUrl } = await reportService.exportComparisonReport({
+        userId: user.id,
+        comparisonId: comparison.id,
+        content,
+      });
+      setComparison((current) => (current ? { ...current, report_url: reportPath } : current));
+      toast.success(t("result.reportReady"), {
+        description: t("result.reportReadyDescription"),
+      });
+      downloadInTab(tab, signedUrl);
+    } catch (error) {
+      tab?.close();
+      const description = errorMessage(t, error);
+      toast.error(t("result.reportFailed"), { description });
+    } finally {
+      setIsExportingReport(false);
     }
-    if (recommendedOfferFromList?.label) {
-      return recommendedOfferFromList.label;
+  };
+
+  const handleCorrectValue = async ({ offerId, path, value }: ComparisonValueCorrection) => {
+    if (!user || !comparison) return;
+
+    try {
+      const extractedData = await offerCorrectionService.saveCorrection({
+        documentId: offerId,
+        comparisonId: comparison.id,
+        path,
+        value,
+        editor: { id: user.id, email: user.email },
+      });
+      setDocuments((current) =>
+        current.map((doc) => (doc.id === offerId ? { ...doc, extracted_data: extractedData as Json } : doc)),
+      );
+      setComparison((current) => (current ? { ...current, status: "processing" } : current));
+      toast.success(t("result.correctionSaved"), {
+        description: t("result.correctionSavedDescription"),
+      });
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.correctionFailed"), { description });
+      void loadComparison();
+      throw error;
     }
-    if (typeof recommendedOffer?.insurer === "string" && recommendedOffer.insurer.trim().length > 0) {
-      return recommendedOffer.insurer;
+  };
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    if (!comparison || currency === reportingCurrency) return;
+
+    try {
+      await exchangeRateService.setReportingCurrency(comparison.id, currency);
+      setComparison((current) => (current ? { ...current, reporting_currency: currency } : current));
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.currencyChangeFailed"), { description });
     }
-    return recommendedOfferFromList?.insurer ?? null;
-  })();
-  const recommendedOfferInsurer = recommendedOfferFromList?.insurer ?? recommendedOffer?.insurer ?? null;
-  const fallbackSummaryText =
-    summaryData?.fallback_text ??
-    summaryData?.raw_text ??
-    (typeof comparison.summary_text === "string" ? comparison.summary_text : null);
+  };
+
+  const handleSaveComparisonNeeds = async (profile: ClientNeedsProfile | null) => {
+    if (!comparison) return;
+
+    try {
+      const saved = await needsProfileService.saveComparisonProfile(comparison.id, profile);
+      setComparison((current) =>
+        current ? { ...current, needs_profile: saved as Json | null, status: "processing" } : current
+      );
+      setIsNeedsDialogOpen(false);
+      toast.success(t("result.needsSaved"), {
+        description: t("result.needsSavedDescription"),
+      });
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("result.needsSaveFailed"), { description });
+      void loadComparison();
+    }
+  };
 
   const handleConfirmSelection = () => {
     if (!selectedOffer) return;
     localStorage.setItem(`comparison_${id}_selected`, selectedOfferId!);
-    toast.success("Oferta została zapisana!", {
-      description: `Wybrano: ${selectedOffer.insurer ?? selectedOffer.label}`
+    toast.success(t("result.offerSaved"), {
+      description: t("result.offerSavedDescription", { name: selectedOffer.insurer ?? selectedOffer.label })
     });
   };
 
@@ -713,34 +1197,131 @@ export default function ComparisonResult() {
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <Link to="/dashboard" className="flex items-center space-x-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
             <ArrowLeft className="h-4 w-4" />
-            <span>Powrót do panelu</span>
+            <span>{t("result.back")}</span>
           </Link>
-          <Button variant="outline" disabled>
-            <Download className="h-4 w-4 mr-2" />
-            Eksportuj PDF (wkrótce)
-          </Button>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            <Button
+              variant="outline"
+              disabled={isExportingReport || offers.length === 0}
+              onClick={() => {
+                void handleExportReport();
+              }}
+            >
+              {isExportingReport ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              {isExportingReport ? t("result.exportingPdf") : t("result.exportPdf")}
+            </Button>
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8 space-y-6">
+        {productTypeMismatch?.status === "acknowledged" && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{t("mismatch.acknowledgedTitle")}</AlertTitle>
+            <AlertDescription>
+              {t("mismatch.acknowledgedDescription", {
+                type: getProductTypeLabel(productTypeMismatch.dominant_type, language).toLocaleLowerCase(
+                  getLocale(language)
+                ),
+              })}
+            </AlertDescription>
+          </Alert>
+        )}
+        <ComparisonVersionsPanel
+          versions={versions}
+          selectedVersionId={selectedVersionId}
+          onSelectVersion={setSelectedVersionId}
+          onRerun={() => void handleRerun()}
+          isRerunning={isRerunning || comparison.status === "processing"}
+        />
+        {viewedVersion && (
+          <Alert>
+            <AlertTitle>{t("result.viewingVersion", { version: viewedVersion.version })}</AlertTitle>
+            <AlertDescription>
+              {t("result.viewingVersionDescription")}
+            </AlertDescription>
+          </Alert>
+        )}
         {/* Metrics Panel */}
-        <MetricsPanel offers={offers} sourceReferences={metricsSourceReferences} />
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <span className="text-sm text-muted-foreground">{t("result.premiumBasis")}</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={premiumBasis}
+            onValueChange={(value) => {
+              if (value === "annual" || value === "monthly") {
+                setPremiumBasis(value);
+              }
+            }}
+          >
+            <ToggleGroupItem value="annual">{t("result.annual")}</ToggleGroupItem>
+            <ToggleGroupItem value="monthly">{t("result.monthly")}</ToggleGroupItem>
+          </ToggleGroup>
+          <span className="text-sm text-muted-foreground ml-4">{t("result.reportingCurrency")}</span>
+          <Select
+            value={reportingCurrency}
+            onValueChange={(value) => {
+              void handleReportingCurrencyChange(value);
+            }}
+          >
+            <SelectTrigger className="h-9 w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencyOptions.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="link" size="sm" asChild>
+            <Link to="/exchange-rates">{t("result.exchangeRates")}</Link>
+          </Button>
+          <Button variant="outline" size="sm" className="ml-4" onClick={() => setIsNeedsDialogOpen(true)}>
+            <UserCheck className="h-4 w-4 mr-2" />
+            {t("result.clientNeeds")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={comparison.status === "processing"}
+            onClick={() => setIsOffersDialogOpen(true)}
+          >
+            <FilePlus className="h-4 w-4 mr-2" />
+            {t("result.offers")}
+          </Button>
+        </div>
+        <MetricsPanel
+          offers={offers}
+          premiumBasis={premiumBasis}
+          currencyConverter={currencyConverter}
+          sourceReferences={metricsSourceReferences}
+        />
 
         {/* Tabbed Interface */}
         <Tabs defaultValue="overview" className="space-y-6">
           <TabsList className="w-full">
             <TabsTrigger value="overview" className="gap-2">
               <BarChart3 className="w-4 h-4" />
-              Przegląd ofert
+              {t("result.overviewTab")}
             </TabsTrigger>
             <TabsTrigger value="details" className="gap-2">
               <ListChecks className="w-4 h-4" />
-              Szczegółowe porównanie
+              {t("result.detailsTab")}
             </TabsTrigger>
             <TabsTrigger value="ai" className="gap-2">
               <Sparkles className="w-4 h-4" />
-              Analiza AI
+              {t("result.aiTab")}
             </TabsTrigger>
           </TabsList>
 
@@ -788,136 +1369,54 @@ export default function ComparisonResult() {
               offers={offers}
               bestOfferIndex={bestOfferIndex}
               sections={sections}
+              premiumBasis={premiumBasis}
+              currencyConverter={currencyConverter}
+              requirementViolations={requirementViolations}
+              onCorrectValue={handleCorrectValue}
             />
           </TabsContent>
 
           {/* Tab 3: AI Analysis */}
           <TabsContent value="ai" className="space-y-6">
-            {(hasStructuredSummary || fallbackSummaryText) && (
+            <AiSummaryPanel
+              summaryData={displayedSummary}
+              fallbackSummaryText={displayedSummaryText}
+              offers={offers}
+              sourcesMap={displayedSummary?.sources_map}
+              isStreaming={isStreamingSummary || (isJobGeneratingSummary && isDefaultSummary)}
+              summaryStyle={summaryStyle}
+              onSummaryStyleChange={setSummaryStyle}
+              onRegenerate={viewedVersion ? undefined : () => void startSummaryStream(summaryStyle, language)}
+            />
+
+            {summaryStreamError && !isStreamingSummary && isStreamedSummaryShown && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{t("summary.failed")}</AlertTitle>
+                <AlertDescription>{summaryStreamError}</AlertDescription>
+              </Alert>
+            )}
+
+            {analysisHighlights.length > 0 && (
               <Card className="shadow-elevated">
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Sparkles className="w-5 h-5 text-primary" />
-                    Rekomendacja i uzasadnienie
-                  </CardTitle>
-                  <CardDescription>
-                    Werdykt AI oraz najważniejsze różnice pomiędzy analizowanymi ofertami
-                  </CardDescription>
+                  <CardTitle className="text-base">{t("summary.highlightsTitle")}</CardTitle>
+                  <CardDescription>{t("summary.highlightsDescription")}</CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-6">
-                  {recommendedOffer && (
-                    <div className="rounded-xl border border-primary/20 bg-primary/5 p-5 shadow-sm">
-                      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                        Rekomendowana oferta
-                      </p>
-                      {recommendedOfferTitle && (
-                        <p className="mt-1 text-2xl font-semibold text-primary">
-                          {recommendedOfferTitle}
-                        </p>
-                      )}
-                      {recommendedOfferInsurer && (
-                        <p className="text-sm text-muted-foreground">
-                          Towarzystwo: {recommendedOfferInsurer}
-                        </p>
-                      )}
-                      {recommendedOffer.summary && (
-                        <p className="mt-4 text-sm leading-relaxed text-foreground/80">
-                          {recommendedOffer.summary}
-                        </p>
-                      )}
-                      {keyNumbers.length > 0 && (
-                        <dl className="mt-4 grid gap-3 sm:grid-cols-2">
-                          {keyNumbers.map((metric, idx) => (
-                            <div
-                              key={idx}
-                              className="rounded-lg bg-background/80 px-3 py-2 shadow-sm"
-                            >
-                              <dt className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                                {metric.label}
-                              </dt>
-                              <SourceTooltip reference={metric.sources}>
-                                <dd className="text-lg font-semibold text-foreground">
-                                  {metric.value}
-                                </dd>
-                              </SourceTooltip>
-                            </div>
-                          ))}
-                        </dl>
-                      )}
-                    </div>
-                  )}
-
-                  {recommendationPoints.length > 0 && (
-                    <div>
-                      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                        Kluczowe argumenty
-                      </h3>
-                      <ul className="mt-3 space-y-2">
-                        {recommendationPoints.map((point, idx) => (
-                          <li
-                            key={idx}
-                            className="flex items-start gap-2 rounded-lg bg-muted/40 p-3"
-                          >
-                            <CheckCircle2 className="mt-1 h-4 w-4 text-emerald-500" />
-                            <span className="text-sm leading-relaxed text-foreground">
-                              {point}
-                            </span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {summaryData?.risks && summaryData.risks.length > 0 && (
-                    <div>
-                      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                        Na co uważać
-                      </h3>
-                      <ul className="mt-3 space-y-2">
-                        {summaryData.risks.map((risk, idx) => (
-                          <li
-                            key={idx}
-                            className="flex items-start gap-2 rounded-lg border border-destructive/20 bg-destructive/5 p-3"
-                          >
-                            <AlertTriangle className="mt-1 h-4 w-4 text-destructive" />
-                            <span className="text-sm leading-relaxed text-foreground">
-                              {risk}
-                            </span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {summaryData?.next_steps && summaryData.next_steps.length > 0 && (
-                    <div>
-                      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                        Kolejne kroki
-                      </h3>
-                      <ul className="mt-3 space-y-2">
-                        {summaryData.next_steps.map((step, idx) => (
-                          <li
-                            key={idx}
-                            className="flex items-start gap-2 rounded-lg bg-primary/5 p-3"
-                          >
-                            <ArrowRight className="mt-1 h-4 w-4 text-primary" />
-                            <span className="text-sm leading-relaxed text-foreground">
-                              {step}
-                            </span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {fallbackSummaryText && (
-                    <div className="rounded-lg bg-muted/50 p-4 text-sm text-muted-foreground whitespace-pre-line">
-                      {fallbackSummaryText}
-                    </div>
-                  )}
+                <CardContent>
+                  <ul className="space-y-2">
+                    {analysisHighlights.map((point, idx) => (
+                      <li key={idx} className="flex items-start gap-2 rounded-lg bg-muted/40 p-3">
+                        <CheckCircle2 className="mt-1 h-4 w-4 text-emerald-500" />
+                        <span className="text-sm leading-relaxed text-foreground">{point}</span>
+                      </li>
+                    ))}
+                  </ul>
                 </CardContent>
               </Card>
             )}
+
+            <ScoreBreakdownPanel offers={offers} scores={offerScores} weightsSourceLabel={weightsSourceLabel} />
           </TabsContent>
         </Tabs>
       </div>
@@ -929,22 +1428,22 @@ export default function ComparisonResult() {
             <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
               <div className="flex-1 min-w-0">
                 <p className="font-semibold text-lg truncate">
-                  Wybrana oferta: {selectedOffer.label}
+                  {t("result.selectedOffer", { label: selectedOffer.label })}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {selectedOffer.insurer && `Ubezpieczyciel: ${selectedOffer.insurer}`}
+                  {selectedOffer.insurer && t("result.selectedInsurer", { name: selectedOffer.insurer })}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {selectedOffer.calculationId && `ID kalkulacji: ${selectedOffer.calculationId}`}
-                  {selectedOffer.data?.premium?.total && ` • ${selectedOffer.data.premium.total.toLocaleString('pl-PL')} ${selectedOffer.data.premium.currency || 'PLN'}`}
+                  {selectedOffer.calculationId && t("result.calculationId", { id: selectedOffer.calculationId })}
+                  {selectedOffer.data?.premium?.total && ` • ${selectedOffer.data.premium.total.toLocaleString(getLocale(language))} ${selectedOffer.data.premium.currency || 'PLN'}`}
                 </p>
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" onClick={() => setSelectedOfferId(null)}>
-                  Anuluj
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={handleConfirmSelection}>
-                  Potwierdź wybór
+                  {t("result.confirmSelection")}
                 </Button>
               </div>
             </div>
@@ -952,10 +1451,38 @@ export default function ComparisonResult() {
         </div>
       )}
     </div>
+    <Dialog open={isNeedsDialogOpen} onOpenChange={setIsNeedsDialogOpen}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{t("result.needsTitle")}</DialogTitle>
+          <DialogDescription>
+            {comparisonNeeds
+              ? t("result.needsOwnProfile")
+              : client
+                ? t("result.needsClientProfile", { name: client.full_name })
+                : t("result.needsNoClient")}
+          </DialogDescription>
+        </DialogHeader>
+        <NeedsProfileForm
+          profile={needsProfile}
+          submitLabel={t("result.needsSubmit")}
+          onSubmit={handleSaveComparisonNeeds}
+        />
+      </DialogContent>
+    </Dialog>
+    <ManageOffersDialog
+      open={isOffersDialogOpen}
+      onOpenChange={setIsOffersDialogOpen}
+      userId={user?.id}
+      documents={documents}
+      onAdd={handleAddOffers}
+      onRemove={handleRemoveOffers}
+    />
     <DocumentViewerDialog
       isOpen={viewerState.isOpen}
       document={currentViewerDocument}
       page={viewerState.page}
+      highlight={activeReference}
       onOpenChange={handleViewerOpenChange}
       onPageChange={handleViewerPageChange}
       fetchPreviewUrl={fetchPreviewUrl}
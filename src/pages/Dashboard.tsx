@@ -6,14 +6,22 @@ import { Plus, FileText, Users, TrendingUp, LogOut, Loader2 } from "lucide-react
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { errorMessage, getLocale } from "@/lib/i18n";
+import { getProductTypeLabel } from "@/lib/product-type-mismatch";
+import { comparisonStatusMessageKey } from "@/services/comparison-service";
 import { toast } from "sonner";
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [comparisons, setComparisons] = useState<
-    Database["public"]["Tables"]["comparisons"]["Row"][]
+    Array<Database["public"]["Tables"]["comparisons"]["Row"] & { clients: { full_name: string } | null }>
   >([]);
   const [stats, setStats] = useState({
     thisMonth: 0,
@@ -31,7 +39,7 @@ export default function Dashboard() {
     try {
       const { data: compData, error: compError } = await supabase
         .from("comparisons")
-        .select("*")
+        .select("*, clients(full_name)")
         .eq("user_id", user?.id)
         .order("created_at", { ascending: false })
         .limit(10);
@@ -58,12 +66,12 @@ export default function Dashboard() {
         clients: clientsCount || 0,
       });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Nieznany błąd";
-      toast.error("Błąd ładowania danych", { description: message });
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("dashboard.loadFailed"), { description });
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, stableT]);
 
   useEffect(() => {
     if (!user) {
@@ -84,16 +92,17 @@ export default function Dashboard() {
 
   const recentComparisons = comparisons.slice(0, 5).map((c) => ({
     id: c.id,
-    client: "Klient",
-    product: c.product_type || "OC/AC",
-    date: new Date(c.created_at).toLocaleDateString("pl-PL"),
-    status: c.status === "completed" ? "Ukończone" : "W trakcie",
+    client: c.clients?.full_name ?? t("clientPicker.none"),
+    product: getProductTypeLabel(c.product_type, language),
+    date: new Date(c.created_at).toLocaleDateString(getLocale(language)),
+    isCompleted: c.status === "completed",
+    status: t(comparisonStatusMessageKey(c.status)),
   }));
 
   const statsData = [
-    { label: "Porównań w tym miesiącu", value: stats.thisMonth.toString(), icon: TrendingUp },
-    { label: "Wszystkich porównań", value: stats.total.toString(), icon: FileText },
-    { label: "Aktywnych klientów", value: stats.clients.toString(), icon: Users },
+    { label: t("dashboard.comparisonsThisMonth"), value: stats.thisMonth.toString(), icon: TrendingUp },
+    { label: t("dashboard.comparisonsTotal"), value: stats.total.toString(), icon: FileText },
+    { label: t("dashboard.activeClients"), value: stats.clients.toString(), icon: Users },
   ];
 
   return (
@@ -103,18 +112,19 @@ export default function Dashboard() {
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-bold text-foreground">Dashboard</h1>
-              <p className="text-sm text-muted-foreground">Witaj ponownie, Agencie</p>
+              <h1 className="text-2xl font-bold text-foreground">{t("dashboard.title")}</h1>
+              <p className="text-sm text-muted-foreground">{t("dashboard.welcome")}</p>
             </div>
             <div className="flex items-center space-x-3">
+              <LanguageSwitcher />
               <Button variant="outline" onClick={signOut}>
                 <LogOut className="h-4 w-4 mr-2" />
-                Wyloguj
+                {t("dashboard.signOut")}
               </Button>
               <Link to="/compare">
                 <Button size="lg" className="shadow-md">
                   <Plus className="mr-2 h-4 w-4" />
-                  Nowe porównanie
+                  {t("compare.title")}
                 </Button>
               </Link>
             </div>
@@ -143,9 +153,9 @@ export default function Dashboard() {
         {/* Recent Comparisons */}
         <Card className="shadow-md">
           <CardHeader>
-            <CardTitle>Ostatnie porównania</CardTitle>
+            <CardTitle>{t("dashboard.recentTitle")}</CardTitle>
             <CardDescription>
-              Twoje najnowsze analizy ofert ubezpieczeniowych
+              {t("dashboard.recentDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -172,7 +182,7 @@ export default function Dashboard() {
                         <p className="text-sm text-muted-foreground">{comparison.date}</p>
                         <div className="mt-1">
                           <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${
-                            comparison.status === "Ukończone"
+                            comparison.isCompleted
                               ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
                               : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400"
                           }`}>
@@ -182,7 +192,7 @@ export default function Dashboard() {
                       </div>
                       <Link to={`/comparison/${comparison.id}`}>
                         <Button variant="outline" size="sm">
-                          Zobacz
+                          {t("common.view")}
                         </Button>
                       </Link>
                     </div>
@@ -192,11 +202,11 @@ export default function Dashboard() {
             ) : (
               <div className="text-center py-12">
                 <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">Nie masz jeszcze żadnych porównań</p>
+                <p className="text-muted-foreground">{t("dashboard.empty")}</p>
                 <Link to="/compare">
                   <Button className="mt-4">
                     <Plus className="mr-2 h-4 w-4" />
-                    Utwórz pierwsze porównanie
+                    {t("dashboard.createFirst")}
                   </Button>
                 </Link>
               </div>
@@ -205,27 +215,57 @@ export default function Dashboard() {
         </Card>
 
         {/* Quick Actions */}
-        <div className="grid gap-6 md:grid-cols-2">
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           <Card className="shadow-md hover:shadow-lg transition-shadow cursor-pointer">
             <CardHeader>
-              <CardTitle>Klienci</CardTitle>
-              <CardDescription>Zarządzaj bazą swoich klientów</CardDescription>
+              <CardTitle>{t("clients.title")}</CardTitle>
+              <CardDescription>{t("dashboard.clientsDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
-              <Button variant="outline" className="w-full" disabled>
-                Zobacz klientów (wkrótce)
-              </Button>
+              <Link to="/clients">
+                <Button variant="outline" className="w-full">
+                  {t("dashboard.viewClients")}
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md hover:shadow-lg transition-shadow cursor-pointer">
+            <CardHeader>
+              <CardTitle>{t("dashboard.documentsTitle")}</CardTitle>
+              <CardDescription>{t("dashboard.documentsDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/documents">
+                <Button variant="outline" className="w-full">
+                  {t("dashboard.viewDocuments")}
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md hover:shadow-lg transition-shadow cursor-pointer">
+            <CardHeader>
+              <CardTitle>{t("rates.title")}</CardTitle>
+              <CardDescription>{t("dashboard.ratesDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/exchange-rates">
+                <Button variant="outline" className="w-full">
+                  {t("dashboard.manageRates")}
+                </Button>
+              </Link>
             </CardContent>
           </Card>
 
           <Card className="shadow-md hover:shadow-lg transition-shadow cursor-pointer">
             <CardHeader>
-              <CardTitle>Raporty</CardTitle>
-              <CardDescription>Eksportuj i udostępniaj porównania</CardDescription>
+              <CardTitle>{t("dashboard.reportsTitle")}</CardTitle>
+              <CardDescription>{t("dashboard.reportsDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
               <Button variant="outline" className="w-full" disabled>
-                Przeglądaj raporty (wkrótce)
+                {t("dashboard.browseReports")}
               </Button>
             </CardContent>
           </Card>
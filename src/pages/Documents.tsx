@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, FileText, GitCompare, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { MAX_FILES } from "@/hooks/useComparisonFlow";
+import { errorMessage, getLocale } from "@/lib/i18n";
+import { getProductTypeLabel } from "@/lib/product-type-mismatch";
+import {
+  DOCUMENT_STATUS_LABELS,
+  documentLibraryService,
+  type LibraryDocument,
+} from "@/services/document-library-service";
+
+export default function Documents() {
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const loadDocuments = useCallback(async () => {
+    if (!user?.id) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setDocuments(await documentLibraryService.listDocuments(user.id));
+    } catch (error) {
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("documents.loadFailed"), { description });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, stableT]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    void loadDocuments();
+  }, [user, navigate, loadDocuments]);
+
+  const filteredDocuments = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return documents;
+    }
+    return documents.filter((document) =>
+      [
+        document.fileName,
+        document.insurer,
+        document.productType && getProductTypeLabel(document.productType, language),
+      ].some((field) => typeof field === "string" && field.toLowerCase().includes(normalized)),
+    );
+  }, [documents, query, language]);
+
+  const toggleDocument = (documentId: string, checked: boolean) =>
+    setSelected((current) =>
+      checked ? [...current, documentId] : current.filter((id) => id !== documentId),
+    );
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b border-border bg-background/95 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link to="/dashboard">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  {t("common.back")}
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{t("documents.title")}</h1>
+                <p className="text-sm text-muted-foreground">{t("documents.subtitle")}</p>
+              </div>
+            </div>
+            <Button
+              disabled={selected.length < 2 || selected.length > MAX_FILES}
+              onClick={() => navigate(`/compare?documents=${selected.join(",")}`)}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t("documents.compareSelected", { count: selected.length })}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="shadow-md">
+          <CardHeader className="space-y-4">
+            <div>
+              <CardTitle>{t("documents.listTitle")}</CardTitle>
+              <CardDescription>{t("documents.listDescription")}</CardDescription>
+            </div>
+            <div className="relative max-w-sm">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder={t("documents.searchPlaceholder")}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : filteredDocuments.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{t("documents.file")}</TableHead>
+                    <TableHead>{t("documents.status")}</TableHead>
+                    <TableHead>{t("documents.insurer")}</TableHead>
+                    <TableHead>{t("documents.productType")}</TableHead>
+                    <TableHead>{t("documents.ocr")}</TableHead>
+                    <TableHead>{t("documents.added")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDocuments.map((document) => (
+                    <TableRow key={document.id}>
+                      <TableCell>
+                        <Checkbox
+                          aria-label={t("documents.select", { name: document.fileName })}
+                          disabled={document.status !== "completed"}
+                          checked={selected.includes(document.id)}
+                          onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <span className="inline-flex items-center gap-2 font-medium">
+                          <FileText className="h-4 w-4 shrink-0 text-primary" />
+                          {document.fileName}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={document.status === "failed" ? "destructive" : "outline"}>
+                          {document.status in DOCUMENT_STATUS_LABELS
+                            ? t(DOCUMENT_STATUS_LABELS[document.status])
+                            : document.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{document.insurer ?? "—"}</TableCell>
+                      <TableCell>
+                        {document.productType ? getProductTypeLabel(document.productType, language) : "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{document.ocrProvider ?? "—"}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(document.createdAt).toLocaleDateString(getLocale(language))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-12">
+                <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">
+                  {documents.length > 0 ? t("documents.noMatches") : t("documents.empty")}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useRef, useState, type ChangeEvent, type FormEvent } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Coins, Loader2, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useStableTranslator } from "@/hooks/useStableTranslator";
+import { parseExchangeRateFile } from "@/lib/exchange-rates";
+import { errorMessage, getLocale, type Language } from "@/lib/i18n";
+import { exchangeRateService, type ExchangeRateRow } from "@/services/exchange-rate-service";
+
+const formatRate = (value: number, language: Language) =>
+  value.toLocaleString(getLocale(language), { maximumFractionDigits: 6 });
+
+export default function ExchangeRates() {
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+  const stableT = useStableTranslator();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [currency, setCurrency] = useState("");
+  const [rateValue, setRateValue] = useState("");
+  const [validOn, setValidOn] = useState("");
+
+  const loadRates = useCallback(async () => {
+    if (!user?.id) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setRates(await exchangeRateService.listRates(user.id));
+    } catch (error) {
+      const description = errorMessage(stableT, error);
+      toast.error(stableT("rates.loadFailed"), { description });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, stableT]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    void loadRates();
+  }, [user, navigate, loadRates]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!user?.id) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await exchangeRateService.saveRates(
+        user.id,
+        [{ currency, rateToPln: Number(rateValue.replace(",", ".")), validOn: validOn || null }],
+        "manual",
+      );
+      toast.success(t("rates.saved"), { description: currency.trim().toUpperCase() });
+      setCurrency("");
+      setRateValue("");
+      setValidOn("");
+      await loadRates();
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("rates.saveFailed"), { description });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !user?.id) {
+      return;
+    }
+
+    const { rates: parsedRates, errors } = parseExchangeRateFile(await file.text(), language);
+    if (errors.length > 0) {
+      toast.warning(t("rates.importSkipped", { count: errors.length }), { description: errors.slice(0, 3).join("\n") });
+    }
+    if (parsedRates.length === 0) {
+      toast.error(t("rates.importEmpty"));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await exchangeRateService.saveRates(user.id, parsedRates, "import");
+      toast.success(t("rates.imported", { count: parsedRates.length }), { description: file.name });
+      await loadRates();
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("rates.importFailed"), { description });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRateRow) => {
+    try {
+      await exchangeRateService.deleteRate(rate.id);
+      setRates((current) => current.filter((entry) => entry.id !== rate.id));
+    } catch (error) {
+      const description = errorMessage(t, error);
+      toast.error(t("rates.deleteFailed"), { description });
+    }
+  };
+
+  const handleEdit = (rate: ExchangeRateRow) => {
+    setCurrency(rate.currency);
+    setRateValue(String(rate.rate_to_pln));
+    setValidOn(rate.valid_on ?? "");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b border-border bg-background/95 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link to="/dashboard">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  {t("common.back")}
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{t("rates.title")}</h1>
+                <p className="text-sm text-muted-foreground">{t("rates.subtitle")}</p>
+              </div>
+            </div>
+            <Button variant="outline" disabled={saving} onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {t("rates.import")}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(event) => {
+                void handleImport(event);
+              }}
+            />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>{t("rates.formTitle")}</CardTitle>
+            <CardDescription>{t("rates.formDescription", { example: formatRate(4.3, language) })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 md:grid-cols-4 md:items-end" onSubmit={(event) => void handleSubmit(event)}>
+              <div className="space-y-2">
+                <Label htmlFor="rate-currency">{t("rates.currency")}</Label>
+                <Input
+                  id="rate-currency"
+                  placeholder="EUR"
+                  maxLength={3}
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-value">{t("rates.rate")}</Label>
+                <Input
+                  id="rate-value"
+                  inputMode="decimal"
+                  placeholder={formatRate(4.3, language)}
+                  value={rateValue}
+                  onChange={(e) => setRateValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-valid-on">{t("rates.validOn")}</Label>
+                <Input id="rate-valid-on" type="date" value={validOn} onChange={(e) => setValidOn(e.target.value)} />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t("rates.save")}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>{t("rates.savedTitle")}</CardTitle>
+            <CardDescription>
+              {rates.length > 0 ? t("common.total", { count: rates.length }) : t("rates.savedEmptyDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : rates.length > 0 ? (
+              <div className="space-y-3">
+                {rates.map((rate) => (
+                  <div
+                    key={rate.id}
+                    className="flex items-center justify-between p-4 rounded-lg border border-border"
+                  >
+                    <button
+                      type="button"
+                      className="flex items-center space-x-4 text-left"
+                      onClick={() => handleEdit(rate)}
+                    >
+                      <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+                        <Coins className="h-5 w-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-foreground">
+                          1 {rate.currency} = {formatRate(Number(rate.rate_to_pln), language)} PLN
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {rate.valid_on
+                            ? t("rates.rateFrom", { date: new Date(rate.valid_on).toLocaleDateString(getLocale(language)) })
+                            : t("rates.noDate")}
+                          {" · "}
+                          {rate.source === "import" ? t("rates.sourceImport") : t("rates.sourceManual")}
+                        </p>
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={t("rates.delete", { currency: rate.currency })}
+                      onClick={() => {
+                        void handleDelete(rate);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Coins className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">{t("rates.empty")}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  ClientService,
+  ClientServiceError,
+  validateClientForm,
+  type ClientBackend,
+} from "./client-service";
+
+const createClientRow = (overrides = {}) => ({
+  id: "client-1",
+  user_id: "user-1",
+  full_name: "Jan Kowalski",
+  email: null,
+  phone: null,
+  created_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+class StubClientBackend implements ClientBackend {
+  inserted: any[] = [];
+  updated: Array<{ id: string; payload: any }> = [];
+  deleted: string[] = [];
+
+  constructor(private readonly failing = false) {}
+
+  async listClients() {
+    if (this.failing) throw new Error("db down");
+    return [createClientRow()];
+  }
+
+  async getClient(id: string) {
+    if (this.failing) throw new Error("db down");
+    return createClientRow({ id });
+  }
+
+  async insertClient(payload: any) {
+    if (this.failing) throw new Error("db down");
+    this.inserted.push(payload);
+    return createClientRow(payload);
+  }
+
+  async updateClient(id: string, payload: any) {
+    if (this.failing) throw new Error("db down");
+    this.updated.push({ id, payload });
+    return createClientRow({ id, ...payload });
+  }
+
+  async deleteClient(id: string) {
+    if (this.failing) throw new Error("db down");
+    this.deleted.push(id);
+  }
+
+  async listComparisons() {
+    if (this.failing) throw new Error("db down");
+    return [{ id: "cmp-1", product_type: "OC/AC", status: "completed", created_at: "", document_ids: ["doc-1"], report_url: null }];
+  }
+
+  async listDocuments() {
+    if (this.failing) throw new Error("db down");
+    return [{ id: "doc-1", file_name: "oferta.pdf", file_path: "user-1/oferta.pdf", file_size: 10, status: "completed", created_at: "" }];
+  }
+}
+
+describe("validateClientForm", () => {
+  it("trims values and converts empty optional fields to null", () => {
+    expect(validateClientForm({ fullName: "  Anna Nowak ", email: " ", phone: " +48 600 100 200 " })).toEqual({
+      status: "success",
+      value: { full_name: "Anna Nowak", email: null, phone: "+48 600 100 200" },
+    });
+  });
+
+  it("rejects missing names and malformed contact data", () => {
+    expect(validateClientForm({ fullName: " " })).toEqual({
+      status: "error",
+      message: "errors.clientNameRequired",
+    });
+    expect(validateClientForm({ fullName: "Anna", email: "anna@" })).toEqual({
+      status: "error",
+      message: "errors.invalidEmail",
+    });
+    expect(validateClientForm({ fullName: "Anna", phone: "abc" })).toEqual({
+      status: "error",
+      message: "errors.invalidPhone",
+    });
+  });
+});
+
+describe("ClientService", () => {
+  it("creates clients owned by the current user", async () => {
+    const backend = new StubClientBackend();
+    const service = new ClientService(backend);
+
+    const created = await service.createClient("user-1", { fullName: "Anna Nowak", email: "anna@example.com" });
+
+    expect(backend.inserted).toEqual([
+      { user_id: "user-1", full_name: "Anna Nowak", email: "anna@example.com", phone: null },
+    ]);
+    expect(created.full_name).toBe("Anna Nowak");
+  });
+
+  it("does not call the backend for invalid form values", async () => {
+    const backend = new StubClientBackend();
+    const service = new ClientService(backend);
+
+    await expect(service.updateClient("client-1", { fullName: "" })).rejects.toBeInstanceOf(ClientServiceError);
+    expect(backend.updated).toHaveLength(0);
+  });
+
+  it("loads comparisons and documents as the client history", async () => {
+    const service = new ClientService(new StubClientBackend());
+
+    const history = await service.getClientHistory("client-1");
+
+    expect(history.comparisons.map((comparison) => comparison.id)).toEqual(["cmp-1"]);
+    expect(history.documents.map((document) => document.file_name)).toEqual(["oferta.pdf"]);
+  });
+
+  it("stores only valid scoring weights and rejects negative ones", async () => {
+    const backend = new StubClientBackend();
+    const service = new ClientService(backend);
+
+    await service.updateScoringWeights("client-1", { price: 50, waitingPeriods: 0, unknown: 3 });
+    await service.updateScoringWeights("client-1", null);
+    await expect(service.updateScoringWeights("client-1", { price: -1 })).rejects.toBeInstanceOf(ClientServiceError);
+
+    expect(backend.updated).toEqual([
+      { id: "client-1", payload: { scoring_weights: { price: 50, waitingPeriods: 0 } } },
+      { id: "client-1", payload: { scoring_weights: null } },
+    ]);
+  });
+
+  it("wraps backend failures in ClientServiceError", async () => {
+    const service = new ClientService(new StubClientBackend(true));
+
+    await expect(service.listClients("user-1")).rejects.toMatchObject({
+      name: "ClientServiceError",
+      message: "errors.clientsLoadFailed",
+    });
+    await expect(service.deleteClient("client-1")).rejects.toMatchObject({
+      message: "errors.clientDeleteFailed",
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { MessageKey } from "@/lib/i18n";
+import { parseScoringWeights, type ScoringWeights } from "@/lib/offer-scoring";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ClientRow = Database["public"]["Tables"]["clients"]["Row"];
+type ClientInsert = Database["public"]["Tables"]["clients"]["Insert"];
+type ClientUpdate = Database["public"]["Tables"]["clients"]["Update"];
+type ComparisonRow = Database["public"]["Tables"]["comparisons"]["Row"];
+type DocumentRow = Database["public"]["Tables"]["documents"]["Row"];
+
+export type ClientComparisonSummary = Pick<
+  ComparisonRow,
+  "id" | "product_type" | "status" | "created_at" | "document_ids" | "report_url"
+>;
+
+export type ClientDocumentSummary = Pick<
+  DocumentRow,
+  "id" | "file_name" | "file_path" | "file_size" | "status" | "created_at"
+>;
+
+export interface ClientFormValues {
+  fullName: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface ClientHistory {
+  comparisons: ClientComparisonSummary[];
+  documents: ClientDocumentSummary[];
+}
+
+export class ClientServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "ClientServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface ClientBackend {
+  listClients(userId: string): Promise<ClientRow[]>;
+  getClient(id: string): Promise<ClientRow>;
+  insertClient(payload: ClientInsert): Promise<ClientRow>;
+  updateClient(id: string, payload: ClientUpdate): Promise<ClientRow>;
+  deleteClient(id: string): Promise<void>;
+  listComparisons(clientId: string): Promise<ClientComparisonSummary[]>;
+  listDocuments(clientId: string): Promise<ClientDocumentSummary[]>;
+}
+
+export function createSupabaseClientBackend(client: SupabaseClient<Database>): ClientBackend {
+  return {
+    async listClients(userId) {
+      const { data, error } = await client
+        .from("clients")
+        .select("*")
+        .eq("user_id", userId)
+        .order("full_name", { ascending: true });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load clients");
+      }
+
+      return data;
+    },
+
+    async getClient(id) {
+      const { data, error } = await client.from("clients").select("*").eq("id", id).single();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the client");
+      }
+
+      return data;
+    },
+
+    async insertClient(payload) {
+      const { data, error } = await client.from("clients").insert(payload).select().single();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to create the client");
+      }
+
+      return data;
+    },
+
+    async updateClient(id, payload) {
+      const { data, error } = await client
+        .from("clients")
+        .update(payload)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to update the client");
+      }
+
+      return data;
+    },
+
+    async deleteClient(id) {
+      const { error } = await client.from("clients").delete().eq("id", id);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to delete the client");
+      }
+    },
+
+    async listComparisons(clientId) {
+      const { data, error } = await client
+        .from("comparisons")
+        .select("id, product_type, status, created_at, document_ids, report_url")
+        .eq("client_id", clientId)
+        .order("created_at", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the client's comparisons");
+      }
+
+      return data;
+    },
+
+    async listDocuments(clientId) {
+      const { data, error } = await client
+        .from("documents")
+        .select("id, file_name, file_path, file_size, status, created_at")
+        .eq("client_id", clientId)
+        .order("created_at", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the client's documents");
+      }
+
+      return data;
+    },
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s-]{6,20}$/;
+
+const normalizeOptional = (value: string | null | undefined): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+/**
+ * Trims the form values and returns either the normalized payload or the message key of the error.
+ */
+export function validateClientForm(
+  values: ClientFormValues,
+):
+  | { status: "success"; value: { full_name: string; email: string | null; phone: string | null } }
+  | { status: "error"; message: MessageKey } {
+  const fullName = values.fullName?.trim() ?? "";
+  if (fullName.length < 2) {
+    return { status: "error", message: "errors.clientNameRequired" };
+  }
+
+  const email = normalizeOptional(values.email);
+  if (email && !EMAIL_PATTERN.test(email)) {
+    return { status: "error", message: "errors.invalidEmail" };
+  }
+
+  const phone = normalizeOptional(values.phone);
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    return { status: "error", message: "errors.invalidPhone" };
+  }
+
+  return { status: "success", value: { full_name: fullName, email, phone } };
+}
+
+export class ClientService {
+  constructor(private readonly backend: ClientBackend) {}
+
+  async listClients(userId: string): Promise<ClientRow[]> {
+    try {
+      return await this.backend.listClients(userId);
+    } catch (error) {
+      throw new ClientServiceError("errors.clientsLoadFailed", error);
+    }
+  }
+
+  async getClient(id: string): Promise<ClientRow> {
+    try {
+      return await this.backend.getClient(id);
+    } catch (error) {
+      throw new ClientServiceError("errors.clientNotFound", error);
+    }
+  }
+
+  async createClient(userId: string, values: ClientFormValues): Promise<ClientRow> {
+    const validation = validateClientForm(values);
+    if (validation.status === "error") {
+      throw new ClientServiceError(validation.message);
+    }
+
+    try {
+      return await this.backend.insertClient({ user_id: userId, ...validation.value });
+    } catch (error) {
+      throw new ClientServiceError("errors.clientCreateFailed", error);
+    }
+  }
+
+  async updateClient(id: string, values: ClientFormValues): Promise<ClientRow> {
+    const validation = validateClientForm(values);
+    if (validation.status === "error") {
+      throw new ClientServiceError(validation.message);
+    }
+
+    try {
+      return await this.backend.updateClient(id, validation.value);
+    } catch (error) {
+      throw new ClientServiceError("errors.clientUpdateFailed", error);
+    }
+  }
+
+  /**
+   * Comparisons and documents are kept: the foreign keys are `ON DELETE SET NULL`,
+   * so the history simply becomes unassigned.
+   */
+  async deleteClient(id: string): Promise<void> {
+    try {
+      await this.backend.deleteClient(id);
+    } catch (error) {
+      throw new ClientServiceError("errors.clientDeleteFailed", error);
+    }
+  }
+
+  /** Stores the client's scoring weights; null restores the product type defaults. */
+  async updateScoringWeights(id: string, weights: Partial<ScoringWeights> | null): Promise<ClientRow> {
+    if (weights && Object.values(weights).some((weight) => !Number.isFinite(weight) || weight < 0)) {
+      throw new ClientServiceError("errors.negativeWeights");
+    }
+    const normalized = weights ? parseScoringWeights(weights) : null;
+
+    try {
+      return await this.backend.updateClient(id, { scoring_weights: normalized as Json | null });
+    } catch (error) {
+      throw new ClientServiceError("errors.weightsSaveFailed", error);
+    }
+  }
+
+  async getClientHistory(clientId: string): Promise<ClientHistory> {
+    try {
+      const [comparisons, documents] = await Promise.all([
+        this.backend.listComparisons(clientId),
+        this.backend.listDocuments(clientId),
+      ]);
+      return { comparisons, documents };
+    } catch (error) {
+      throw new ClientServiceError("errors.clientHistoryFailed", error);
+    }
+  }
+}
+
+export const clientService = new ClientService(createSupabaseClientBackend(supabase));
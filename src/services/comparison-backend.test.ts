@@ -7,6 +7,12 @@ import { createSupabaseComparisonBackend } from "./comparison-service";
 
 type UploadRecord = { bucket: string; objectKey: string; fileName: string };
 type InvocationRecord = { name: string; payload: Record<string, unknown> };
+type ChannelRecord = {
+  name: string;
+  listeners: Array<{ filter: Record<string, string>; callback: (payload: unknown) => void }>;
+  subscribed: boolean;
+  removed: boolean;
+};
 
 type SupabaseStubOptions = {
   uploadError?: string;
@@ -20,10 +26,31 @@ type SupabaseStubOptions = {
 function createSupabaseStub(options: SupabaseStubOptions = {}) {
   const uploads: UploadRecord[] = [];
   const invocations: InvocationRecord[] = [];
+  const channels: ChannelRecord[] = [];
   let insertedDocumentsPayload: unknown[] = [];
   let insertedComparisonPayload: Record<string, unknown> | null = null;
 
   const client: SupabaseClient<Database> = {
+    channel(name: string) {
+      const record: ChannelRecord = { name, listeners: [], subscribed: false, removed: false };
+      channels.push(record);
+      const channel = {
+        on(_type: string, filter: Record<string, string>, callback: (payload: unknown) => void) {
+          record.listeners.push({ filter, callback });
+          return channel;
+        },
+        subscribe() {
+          record.subscribed = true;
+          return channel;
+        },
+        record,
+      };
+      return channel as any;
+    },
+    async removeChannel(channel: { record: ChannelRecord }) {
+      channel.record.removed = true;
+      return "ok";
+    },
     storage: {
       from(bucket: string) {
         return {
@@ -156,7 +183,7 @@ function createSupabaseStub(options: SupabaseStubOptions = {}) {
     },
   } as SupabaseClient<Database>;
 
-  return { client, uploads, invocations, insertedDocumentsPayload, insertedComparisonPayload };
+  return { client, uploads, invocations, channels, insertedDocumentsPayload, insertedComparisonPayload };
 }
 
 describe("createSupabaseComparisonBackend", () => {
@@ -202,6 +229,44 @@ describe("createSupabaseComparisonBackend", () => {
     expect(fetchedComparison.product_type).toBe("OC/AC");
   });
 
+  it("subscribes to documents, the comparison and its job on one channel", async () => {
+    const { client, channels } = createSupabaseStub();
+    const backend = createSupabaseComparisonBackend(client);
+    const received: string[] = [];
+
+    const unsubscribe = backend.subscribeToProgress(
+      { comparisonId: "comparison-1", documentIds: ["doc-0", "doc-1"] },
+      {
+        onDocument: (doc) => received.push(`document:${doc.id}:${doc.processing_stage}`),
+        onComparison: (comparison) => received.push(`comparison:${comparison.status}`),
+        onJob: (job) => received.push(`job:${job.stage}`),
+      }
+    );
+
+    expect(channels).toHaveLength(1);
+    const [channel] = channels;
+    expect(channel.subscribed).toBe(true);
+    expect(channel.listeners.map(({ filter }) => `${filter.table}:${filter.filter}`)).toEqual([
+      "documents:id=in.(doc-0,doc-1)",
+      "comparisons:id=eq.comparison-1",
+      "comparison_jobs:comparison_id=eq.comparison-1",
+    ]);
+
+    channel.listeners[0].callback({ new: { id: "doc-0", status: "processing", processing_stage: "ai_extraction" } });
+    channel.listeners[1].callback({ new: { id: "comparison-1", status: "failed" } });
+    channel.listeners[2].callback({ new: { id: "job-1", stage: "comparing_offers" } });
+    channel.listeners[2].callback({ new: {} });
+
+    expect(received).toEqual([
+      "document:doc-0:ai_extraction",
+      "comparison:failed",
+      "job:comparing_offers",
+    ]);
+
+    unsubscribe();
+    expect(channel.removed).toBe(true);
+  });
+
   it("throws descriptive errors when supabase responses contain errors", async () => {
     const { client } = createSupabaseStub({
       uploadError: "upload failed",
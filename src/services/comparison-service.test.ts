@@ -1,6 +1,6 @@
 // @ts-nocheck
 import { describe, expect, it } from "bun:test";
-import type { ComparisonBackend, ComparisonStage } from "./comparison-service";
+import type { ComparisonBackend, ComparisonStage, DocumentProgress } from "./comparison-service";
 import type { Database } from "@/integrations/supabase/types";
 
 type Json = Database["public"]["Tables"]["comparisons"]["Row"]["comparison_data"];
@@ -34,15 +34,65 @@ const {
   ComparisonService,
   ComparisonServiceError,
 } = await import("./comparison-service");
+const { hashFileContent } = await import("@/lib/content-hash");
 
-const createFile = (name: string) => new File(["dummy"], name, { type: "application/pdf" });
+const createFile = (name: string, content = `dummy ${name}`) =>
+  new File([content], name, { type: "application/pdf" });
+
+const createJob = (stage: string, status: string, overrides: Record<string, unknown> = {}) => ({
+  id: "job-1",
+  user_id: "user-1",
+  comparison_id: "comparison-123",
+  stage,
+  status,
+  attempts: 0,
+  max_attempts: 3,
+  last_error: null,
+  stage_started_at: new Date().toISOString(),
+  next_attempt_at: new Date().toISOString(),
+  locked_until: null,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+type ProgressEvent =
+  | { type: "job"; row: ReturnType<typeof createJob> }
+  | { type: "document"; row: { id: string; status: string; processing_stage: string | null } }
+  | { type: "comparison"; row: { id: string; status: string } };
+
+const jobEvent = (stage: string, status: string, overrides?: Record<string, unknown>): ProgressEvent => ({
+  type: "job",
+  row: createJob(stage, status, overrides),
+});
+
+const documentEvent = (id: string, status: string, stage: string | null = null): ProgressEvent => ({
+  type: "document",
+  row: { id, status, processing_stage: stage },
+});
+
+const SUCCESSFUL_RUN: ProgressEvent[] = [
+  jobEvent("waiting_for_extraction", "running"),
+  documentEvent("doc-0", "processing", "mineru_running"),
+  documentEvent("doc-1", "processing", "ai_extraction"),
+  documentEvent("doc-0", "completed"),
+  documentEvent("doc-1", "completed"),
+  jobEvent("comparing_offers", "running"),
+  jobEvent("generating_summary", "running"),
+  jobEvent("done", "completed"),
+];
 
 class StubBackend implements ComparisonBackend {
   uploads: Array<{ bucket: string; objectKey: string; file: File }> = [];
   insertedDocuments: Array<{ user_id: string; file_name: string; file_path: string } & Record<string, unknown>> = [];
   fetchCount = 0;
+  subscriptions = 0;
+  unsubscriptions = 0;
   invokedFunctions: Array<{ name: string; payload: Record<string, unknown> }> = [];
-  private comparisonRecord: {
+  comparisonUpdates: Array<{ id: string; patch: Record<string, unknown> }> = [];
+  documentStatuses: Record<string, string> = {};
+  libraryDocuments: Array<Record<string, unknown>> = [];
+  comparisonRecord: {
     id: string;
     status: string;
     document_ids: string[];
@@ -55,7 +105,7 @@ class StubBackend implements ComparisonBackend {
     summary_text: string;
   } | null = null;
 
-  constructor(private readonly succeedPollingAt: number) {}
+  constructor(private readonly events: ProgressEvent[] = SUCCESSFUL_RUN) {}
 
   async uploadToStorage(params: { bucket: string; objectKey: string; file: File }) {
     this.uploads.push(params);
@@ -84,11 +134,56 @@ class StubBackend implements ComparisonBackend {
 
   async fetchDocuments(ids: string[]) {
     this.fetchCount += 1;
-    if (this.fetchCount < this.succeedPollingAt) {
-      return ids.map((id) => ({ id, status: "processing" }));
-    }
+    return ids.map((id) => ({ id, status: this.documentStatuses[id] ?? "uploaded", processing_stage: null }));
+  }
 
-    return ids.map((id) => ({ id, status: "completed" }));
+  async getDocuments(ids: string[]) {
+    return this.libraryDocuments.filter((doc) => ids.includes(doc.id));
+  }
+
+  async findDocumentsByHash(_userId: string, hashes: string[]) {
+    return this.libraryDocuments.filter((doc) => hashes.includes(doc.content_hash));
+  }
+
+  async listExtractedDocuments() {
+    return [
+      { id: "doc-0", file_name: "a.pdf", client_id: null, created_at: "2026-10-18T10:00:00.000Z" },
+      { id: "doc-lib", file_name: "library.pdf", client_id: null, created_at: "2026-10-17T10:00:00.000Z" },
+    ];
+  }
+
+  async updateComparison(id: string, patch: Record<string, unknown>) {
+    this.comparisonUpdates.push({ id, patch });
+  }
+
+  async fetchComparisonJob() {
+    return createJob("triggering_extraction", "queued");
+  }
+
+  subscribeToProgress(_params: unknown, handlers: any) {
+    this.subscriptions += 1;
+    let active = true;
+
+    void (async () => {
+      for (const event of this.events) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (!active) {
+          return;
+        }
+        if (event.type === "job") {
+          handlers.onJob(event.row);
+        } else if (event.type === "document") {
+          handlers.onDocument(event.row);
+        } else {
+          handlers.onComparison(event.row);
+        }
+      }
+    })();
+
+    return () => {
+      active = false;
+      this.unsubscriptions += 1;
+    };
   }
 
   async createComparison(payload: any) {
@@ -126,11 +221,8 @@ class StubBackend implements ComparisonBackend {
 
 describe("ComparisonService", () => {
   it("runs the happy path and reports stages", async () => {
-    const backend = new StubBackend(2);
-    const service = new ComparisonService(backend, {
-      maxPollAttempts: 5,
-      pollIntervalMs: 0,
-    });
+    const backend = new StubBackend();
+    const service = new ComparisonService(backend);
     const stages: ComparisonStage[] = [];
 
     const fileA = createFile("Oferta #1.pdf");
@@ -146,14 +238,16 @@ describe("ComparisonService", () => {
       comparisonId: "comparison-123",
       documentIds: ["doc-0", "doc-1"],
       detectedProductType: "OC/AC",
+      isComplete: true,
+      needsReview: false,
     });
 
     expect(stages).toEqual([
       "uploading_files",
       "creating_documents",
+      "creating_comparison",
       "triggering_extraction",
       "waiting_for_extraction",
-      "creating_comparison",
       "comparing_offers",
       "generating_summary",
     ]);
@@ -168,13 +262,151 @@ describe("ComparisonService", () => {
       expect(doc.file_path.startsWith("insurance-documents/")).toBe(false);
     });
     expect(backend.invokedFunctions).toEqual([
-      { name: "extract-insurance-data", payload: { document_id: "doc-0" } },
-      { name: "extract-insurance-data", payload: { document_id: "doc-1" } },
-      { name: "compare-offers", payload: { comparison_id: "comparison-123" } },
-      { name: "generate-summary", payload: { comparison_id: "comparison-123" } },
+      { name: "comparison-orchestrator", payload: { comparison_id: "comparison-123" } },
+    ]);
+    expect(backend.subscriptions).toBe(1);
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  it("reports per-document progress from realtime updates", async () => {
+    const backend = new StubBackend();
+    const service = new ComparisonService(backend);
+    const progressSnapshots: DocumentProgress[][] = [];
+
+    await service.runComparisonFlow({
+      userId: "user-1",
+      files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+      onDocumentProgress: (progress) => progressSnapshots.push(progress),
+    });
+
+    expect(progressSnapshots[0]).toEqual([
+      { documentId: "doc-0", fileName: "Oferta #1.pdf", status: "uploaded", stage: null },
+      { documentId: "doc-1", fileName: "Oferta #2.pdf", status: "uploaded", stage: null },
+    ]);
+    expect(progressSnapshots.map((snapshot) => snapshot.map((item) => item.stage ?? item.status))).toEqual([
+      ["uploaded", "uploaded"],
+      ["mineru_running", "uploaded"],
+      ["mineru_running", "ai_extraction"],
+      ["completed", "ai_extraction"],
+      ["completed", "completed"],
     ]);
   });
 
+  it("surfaces the job error when the server-side pipeline fails", async () => {
+    const backend = new StubBackend([
+      jobEvent("triggering_extraction", "running"),
+      jobEvent("comparing_offers", "failed", { last_error: "documents_failed", attempts: 3 }),
+    ]);
+    const service = new ComparisonService(backend);
+
+    await expect(
+      service.runComparisonFlow({
+        userId: "user-1",
+        files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+      })
+    ).rejects.toMatchObject({
+      name: "ComparisonServiceError",
+      message: "errors.jobDocumentsFailed",
+      stage: "comparing_offers",
+    });
+  });
+
+  it("reports unexpected job failures with a generic message", async () => {
+    const backend = new StubBackend([
+      jobEvent("comparing_offers", "failed", { last_error: "stage_failed", attempts: 3 }),
+    ]);
+    const service = new ComparisonService(backend);
+
+    await expect(
+      service.runComparisonFlow({
+        userId: "user-1",
+        files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+      })
+    ).rejects.toMatchObject({ message: "errors.comparisonFailed", stage: "comparing_offers" });
+  });
+
+  it("rejects when the comparison is marked as failed", async () => {
+    const backend = new StubBackend([
+      jobEvent("comparing_offers", "running"),
+      { type: "comparison", row: { id: "comparison-123", status: "failed" } },
+    ]);
+    const service = new ComparisonService(backend);
+
+    await expect(
+      service.runComparisonFlow({
+        userId: "user-1",
+        files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+      })
+    ).rejects.toMatchObject({ stage: "comparing_offers" });
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  it("settles when the job is blocked for a product type review", async () => {
+    const backend = new StubBackend([
+      jobEvent("waiting_for_extraction", "running"),
+      jobEvent("comparing_offers", "blocked", { last_error: "product_type_mismatch" }),
+    ]);
+    const getComparison = backend.getComparison.bind(backend);
+    backend.getComparison = async () => ({ ...(await getComparison()), status: "needs_review" });
+    const service = new ComparisonService(backend);
+
+    const result = await service.runComparisonFlow({
+      userId: "user-1",
+      files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+    });
+
+    expect(result).toMatchObject({ isComplete: true, needsReview: true });
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  it("settles when only the summary failed after the comparison completed", async () => {
+    const backend = new StubBackend([
+      jobEvent("comparing_offers", "running"),
+      jobEvent("generating_summary", "failed", { last_error: "summary_failed" }),
+    ]);
+    const service = new ComparisonService(backend);
+
+    const result = await service.runComparisonFlow({
+      userId: "user-1",
+      files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+    });
+
+    expect(result).toMatchObject({ isComplete: true });
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  it("hands over to the background job when the progress timeout elapses", async () => {
+    const backend = new StubBackend([jobEvent("waiting_for_extraction", "running")]);
+    const service = new ComparisonService(backend, { progressTimeoutMs: 20 });
+
+    const result = await service.runComparisonFlow({
+      userId: "user-1",
+      files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+    });
+
+    expect(result).toEqual({
+      comparisonId: "comparison-123",
+      documentIds: ["doc-0", "doc-1"],
+      detectedProductType: null,
+      isComplete: false,
+    });
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  it("assigns documents and the comparison to the selected client", async () => {
+    const backend = new StubBackend();
+    const service = new ComparisonService(backend);
+
+    await service.runComparisonFlow({
+      userId: "user-1",
+      clientId: "client-42",
+      files: [createFile("Oferta #1.pdf"), createFile("Oferta #2.pdf")],
+    });
+
+    expect(backend.insertedDocuments.map((doc) => doc.client_id)).toEqual(["client-42", "client-42"]);
+    expect((await backend.getComparison()).client_id).toBe("client-42");
+  });
+
   it("wraps backend failures in ComparisonServiceError", async () => {
     const failingBackend: ComparisonBackend = {
       async uploadToStorage() {
@@ -189,12 +421,21 @@ describe("ComparisonService", () => {
       async fetchDocuments() {
         throw new Error("should not be called");
       },
+      async findDocumentsByHash() {
+        return [];
+      },
       async createComparison() {
         throw new Error("should not be called");
       },
       async getComparison() {
         throw new Error("should not be called");
       },
+      async fetchComparisonJob() {
+        throw new Error("should not be called");
+      },
+      subscribeToProgress() {
+        throw new Error("should not be called");
+      },
     };
     const service = new ComparisonService(failingBackend);
 
@@ -206,12 +447,9 @@ describe("ComparisonService", () => {
     ).rejects.toBeInstanceOf(ComparisonServiceError);
   });
 
-  it("aborts polling when the signal is triggered", async () => {
-    const backend = new StubBackend(10);
-    const service = new ComparisonService(backend, {
-      maxPollAttempts: 5,
-      pollIntervalMs: 0,
-    });
+  it("stops following progress when the signal is triggered", async () => {
+    const backend = new StubBackend([jobEvent("waiting_for_extraction", "running")]);
+    const service = new ComparisonService(backend);
     const controller = new AbortController();
 
     const promise = service.runComparisonFlow({
@@ -228,5 +466,158 @@ describe("ComparisonService", () => {
     await expect(promise).rejects.toMatchObject({
       stage: "waiting_for_extraction",
     });
+    expect(backend.unsubscriptions).toBe(1);
+  });
+
+  describe("reusing documents", () => {
+    const libraryDocument = (id: string, contentHash: string, status = "completed") => ({
+      id,
+      status,
+      processing_stage: null,
+      file_name: `${id}.pdf`,
+      file_path: `user-1/${id}.pdf`,
+      content_hash: contentHash,
+      created_at: "2026-10-11T10:00:00.000Z",
+    });
+
+    it("skips uploading files whose content is already in the library", async () => {
+      const backend = new StubBackend();
+      const known = createFile("Oferta PZU.pdf", "same pdf");
+      backend.libraryDocuments = [
+        libraryDocument("doc-old-failed", await hashFileContent(known), "failed"),
+        libraryDocument("doc-old", await hashFileContent(known)),
+      ];
+      const service = new ComparisonService(backend);
+
+      const result = await service.runComparisonFlow({
+        userId: "user-1",
+        files: [known, createFile("Oferta Warta.pdf")],
+      });
+
+      expect(result.documentIds).toEqual(["doc-old", "doc-0"]);
+      expect(backend.uploads.map(({ file }) => file.name)).toEqual(["Oferta Warta.pdf"]);
+      expect(backend.insertedDocuments[0].content_hash).toBe(await hashFileContent(createFile("Oferta Warta.pdf")));
+    });
+
+    it("starts a comparison from library documents", async () => {
+      const backend = new StubBackend();
+      backend.libraryDocuments = [libraryDocument("doc-a", "hash-a"), libraryDocument("doc-b", "hash-b")];
+      const service = new ComparisonService(backend);
+
+      const result = await service.runComparisonFlow({
+        userId: "user-1",
+        files: [],
+        existingDocumentIds: ["doc-a", "doc-b"],
+      });
+
+      expect(result.documentIds).toEqual(["doc-a", "doc-b"]);
+      expect(backend.uploads).toHaveLength(0);
+    });
+
+    it("rejects a comparison of identical files", async () => {
+      const backend = new StubBackend();
+      const service = new ComparisonService(backend);
+
+      await expect(
+        service.runComparisonFlow({
+          userId: "user-1",
+          files: [createFile("a.pdf", "same"), createFile("b.pdf", "same")],
+        })
+      ).rejects.toBeInstanceOf(ComparisonServiceError);
+      expect(backend.uploads).toHaveLength(1);
+    });
+  });
+
+  describe("changing the offers of an existing comparison", () => {
+    const existingComparison = (documentIds: string[]) => {
+      const backend = new StubBackend();
+      backend.comparisonRecord = {
+        id: "comparison-123",
+        status: "completed",
+        document_ids: documentIds,
+        user_id: "user-1",
+        product_type: "OC/AC",
+        client_id: null,
+        comparison_data: null,
+        created_at: new Date().toISOString(),
+        report_url: "",
+        summary_text: "",
+      };
+      return backend;
+    };
+
+    it("uploads new files and re-runs the job from extraction", async () => {
+      const backend = existingComparison(["doc-a", "doc-b"]);
+      const service = new ComparisonService(backend);
+
+      const result = await service.addDocuments({
+        comparisonId: "comparison-123",
+        userId: "user-1",
+        files: [createFile("Nowa oferta.pdf")],
+      });
+
+      expect(result).toEqual({ documentIds: ["doc-a", "doc-b", "doc-0"], rerunFrom: "triggering_extraction" });
+      expect(backend.uploads).toHaveLength(1);
+      expect(backend.comparisonUpdates[0].patch).toEqual({
+        document_ids: ["doc-a", "doc-b", "doc-0"],
+        product_type_mismatch: null,
+      });
+      expect(backend.invokedFunctions).toEqual([
+        {
+          name: "comparison-orchestrator",
+          payload: { comparison_id: "comparison-123", rerun_from: "triggering_extraction" },
+        },
+      ]);
+    });
+
+    it("reuses extracted documents without another extraction", async () => {
+      const backend = existingComparison(["doc-a", "doc-b"]);
+      backend.documentStatuses = { "doc-lib": "completed" };
+      const service = new ComparisonService(backend);
+
+      const reusable = await service.listReusableDocuments("user-1", ["doc-0"]);
+      const result = await service.addDocuments({
+        comparisonId: "comparison-123",
+        userId: "user-1",
+        existingDocumentIds: reusable.map((doc) => doc.id),
+      });
+
+      expect(reusable.map((doc) => doc.id)).toEqual(["doc-lib"]);
+      expect(result.rerunFrom).toBe("comparing_offers");
+      expect(backend.uploads).toHaveLength(0);
+    });
+
+    it("restores the previous offers when the re-run is refused", async () => {
+      const backend = existingComparison(["doc-a", "doc-b", "doc-c"]);
+      backend.invokeFunction = async () => {
+        throw Object.assign(new Error("A comparison run is already in progress"), { status: 409 });
+      };
+      const service = new ComparisonService(backend);
+
+      await expect(service.removeDocuments("comparison-123", ["doc-c"])).rejects.toMatchObject({
+        name: "ComparisonServiceError",
+        stage: "comparing_offers",
+      });
+      expect(backend.comparisonUpdates.map((update) => update.patch)).toEqual([
+        { document_ids: ["doc-a", "doc-b"] },
+        { document_ids: ["doc-a", "doc-b", "doc-c"] },
+      ]);
+    });
+
+    it("drops documents but keeps at least two offers", async () => {
+      const backend = existingComparison(["doc-a", "doc-b", "doc-c"]);
+      const service = new ComparisonService(backend);
+
+      const result = await service.removeDocuments("comparison-123", ["doc-c"]);
+
+      expect(result).toEqual({ documentIds: ["doc-a", "doc-b"], rerunFrom: "comparing_offers" });
+      expect(backend.comparisonUpdates[0].patch).toEqual({ document_ids: ["doc-a", "doc-b"] });
+
+      backend.comparisonRecord.document_ids = ["doc-a", "doc-b"];
+      await expect(service.removeDocuments("comparison-123", ["doc-b"])).rejects.toBeInstanceOf(
+        ComparisonServiceError
+      );
+      expect(backend.invokedFunctions).toHaveLength(1);
+    });
   });
 });
@@ -1,5 +1,8 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
+import { hashFileContent } from "@/lib/content-hash";
+import { resolveDocumentMimeType } from "@/lib/document-formats";
+import type { MessageKey } from "@/lib/i18n";
 import { sanitizeFileName } from "@/lib/sanitizeFileName";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
@@ -12,16 +15,55 @@ export type ComparisonStage =
   | "comparing_offers"
   | "generating_summary";
 
+/** Sub-stages reported by `extract-insurance-data` while a document is processing. */
+export type DocumentProcessingStage =
+  | "mineru_queued"
+  | "mineru_running"
+  | "archive_downloaded"
+  | "ai_extraction"
+  | "unified_build";
+
+export interface DocumentProgress {
+  documentId: string;
+  fileName: string;
+  status: string;
+  stage: DocumentProcessingStage | null;
+}
+
 export interface ComparisonServiceOptions {
-  maxPollAttempts?: number;
-  pollIntervalMs?: number;
+  /** How long the browser follows the server-side job before handing over to the background. */
+  progressTimeoutMs?: number;
 }
 
 const DEFAULT_OPTIONS: Required<ComparisonServiceOptions> = {
-  maxPollAttempts: 45,
-  pollIntervalMs: 2_000,
+  progressTimeoutMs: 180_000,
+};
+
+export const COMPARISON_ORCHESTRATOR_FUNCTION = "comparison-orchestrator";
+
+// Codes the orchestrator keeps in `comparison_jobs.last_error`, see JobErrorCode in
+// supabase/functions/comparison-orchestrator/state-machine.ts.
+const JOB_ERROR_MESSAGES: Record<string, MessageKey> = {
+  documents_failed: "errors.jobDocumentsFailed",
+  extraction_timeout: "errors.jobExtractionTimeout",
+  product_type_mismatch: "errors.jobProductTypeMismatch",
+  summary_failed: "errors.jobSummaryFailed",
 };
 
+/** Message key for the error of a failed or blocked job; unexpected failures get a generic one. */
+export const jobErrorMessageKey = (lastError: string | null | undefined): MessageKey =>
+  (lastError ? JOB_ERROR_MESSAGES[lastError] : undefined) ?? "errors.comparisonFailed";
+
+const COMPARISON_STATUS_LABELS: Record<string, MessageKey> = {
+  completed: "comparisonStatus.completed",
+  failed: "comparisonStatus.failed",
+  needs_review: "comparisonStatus.needs_review",
+};
+
+/** Message key for `comparisons.status`; statuses still being worked on read as in progress. */
+export const comparisonStatusMessageKey = (status: string): MessageKey =>
+  COMPARISON_STATUS_LABELS[status] ?? "comparisonStatus.processing";
+
 export class ComparisonServiceError extends Error {
   readonly stage: ComparisonStage;
   cause?: unknown;
@@ -40,18 +82,96 @@ type DocumentInsert = Database["public"]["Tables"]["documents"]["Insert"];
 type DocumentRow = Database["public"]["Tables"]["documents"]["Row"];
 type ComparisonInsert = Database["public"]["Tables"]["comparisons"]["Insert"];
 type ComparisonRow = Database["public"]["Tables"]["comparisons"]["Row"];
+type ComparisonUpdate = Database["public"]["Tables"]["comparisons"]["Update"];
+export type ComparisonJobRow = Database["public"]["Tables"]["comparison_jobs"]["Row"];
 
-type DocumentStatusRecord = Pick<DocumentRow, "id" | "status">;
+type DocumentStatusRecord = Pick<DocumentRow, "id" | "status" | "processing_stage">;
+export type ReusableDocument = Pick<DocumentRow, "id" | "file_name" | "client_id" | "created_at">;
+
+export interface ComparisonProgressHandlers {
+  onDocument(document: DocumentStatusRecord): void;
+  onComparison(comparison: Pick<ComparisonRow, "id" | "status">): void;
+  onJob(job: ComparisonJobRow): void;
+}
 
 type UploadResult = {
   storageKey: string;
   file: File;
+  contentHash: string;
+};
+
+type HashedFile = {
+  file: File;
+  contentHash: string;
 };
 
+type RunFlowResult = {
+  comparisonId: string;
+  documentIds: string[];
+  detectedProductType: string | null;
+  /** False when the client stopped observing before the server-side job finished. */
+  isComplete: boolean;
+  /** The offers cover different product types and the broker has to review them first. */
+  needsReview?: boolean;
+};
+
+const JOB_STAGES: ComparisonStage[] = [
+  "triggering_extraction",
+  "waiting_for_extraction",
+  "comparing_offers",
+  "generating_summary",
+];
+
+export const isJobStage = (stage: string): stage is ComparisonStage =>
+  (JOB_STAGES as string[]).includes(stage);
+
+export const DOCUMENT_PROCESSING_STAGES: DocumentProcessingStage[] = [
+  "mineru_queued",
+  "mineru_running",
+  "archive_downloaded",
+  "ai_extraction",
+  "unified_build",
+];
+
+const isDocumentProcessingStage = (stage: string | null | undefined): stage is DocumentProcessingStage =>
+  typeof stage === "string" && (DOCUMENT_PROCESSING_STAGES as string[]).includes(stage);
+
+function toDocumentProgress(record: DocumentStatusRecord, fileName: string): DocumentProgress {
+  return {
+    documentId: record.id,
+    fileName,
+    status: record.status,
+    stage: isDocumentProcessingStage(record.processing_stage) ? record.processing_stage : null,
+  };
+}
+
+/** Stages a finished comparison can be re-run from after its documents changed. */
+export type ComparisonRerunStage = "triggering_extraction" | "comparing_offers";
+
+type ComparisonDocumentsChange = {
+  documentIds: string[];
+  rerunFrom: ComparisonRerunStage;
+};
+
+type AddDocumentsParams = {
+  comparisonId: string;
+  userId: string;
+  clientId?: string | null;
+  files?: File[];
+  /** Documents uploaded earlier; extracted ones are reused without another extraction. */
+  existingDocumentIds?: string[];
+};
+
+const MIN_COMPARED_DOCUMENTS = 2;
+
 type RunFlowParams = {
   userId: string;
+  clientId?: string | null;
   files: File[];
+  /** Documents picked from the library; they are compared without uploading them again. */
+  existingDocumentIds?: string[];
   onStageChange?: (stage: ComparisonStage) => void;
+  onDocumentProgress?: (progress: DocumentProgress[]) => void;
   signal?: AbortSignal;
 };
 
@@ -64,8 +184,20 @@ export interface ComparisonBackend {
   insertDocuments(payload: DocumentInsert[]): Promise<DocumentRow[]>;
   invokeFunction(name: string, payload: Record<string, unknown>): Promise<void>;
   fetchDocuments(ids: string[]): Promise<DocumentStatusRecord[]>;
+  getDocuments(ids: string[]): Promise<DocumentRow[]>;
+  /** The user's documents whose files have one of the given content hashes. */
+  findDocumentsByHash(userId: string, contentHashes: string[]): Promise<DocumentRow[]>;
+  /** The user's documents with completed extraction, newest first. */
+  listExtractedDocuments(userId: string): Promise<ReusableDocument[]>;
   createComparison(payload: ComparisonInsert): Promise<ComparisonRow>;
   getComparison(id: string): Promise<ComparisonRow>;
+  updateComparison(id: string, patch: ComparisonUpdate): Promise<void>;
+  fetchComparisonJob(comparisonId: string): Promise<ComparisonJobRow | null>;
+  /** Streams row changes of the comparison, its documents and its job; returns an unsubscribe function. */
+  subscribeToProgress(
+    params: { comparisonId: string; documentIds: string[] },
+    handlers: ComparisonProgressHandlers
+  ): () => void;
 }
 
 const STORAGE_BUCKET = "insurance-documents";
@@ -80,7 +212,7 @@ export function createSupabaseComparisonBackend(
         .upload(objectKey, file, { upsert: false });
 
       if (error || !data) {
-        throw new Error(error?.message ?? "Nie udało się przesłać pliku");
+        throw new Error(error?.message ?? "Failed to upload the file");
       }
 
       return { path: data.path };
@@ -93,7 +225,7 @@ export function createSupabaseComparisonBackend(
         .select();
 
       if (error || !data) {
-        throw new Error(error?.message ?? "Nie udało się utworzyć dokumentów");
+        throw new Error(error?.message ?? "Failed to create the documents");
       }
 
       return data;
@@ -105,18 +237,58 @@ export function createSupabaseComparisonBackend(
       });
 
       if (error) {
-        throw new Error(error.message ?? `Błąd funkcji ${name}`);
+        throw new Error(error.message ?? `Function ${name} failed`);
       }
     },
 
     async fetchDocuments(ids) {
       const { data, error } = await client
         .from("documents")
-        .select("id, status")
+        .select("id, status, processing_stage")
         .in("id", ids);
 
       if (error || !data) {
-        throw new Error(error?.message ?? "Nie udało się pobrać dokumentów");
+        throw new Error(error?.message ?? "Failed to load the documents");
+      }
+
+      return data;
+    },
+
+    async getDocuments(ids) {
+      const { data, error } = await client.from("documents").select("*").in("id", ids);
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the documents");
+      }
+
+      return data;
+    },
+
+    async findDocumentsByHash(userId, contentHashes) {
+      const { data, error } = await client
+        .from("documents")
+        .select("*")
+        .eq("user_id", userId)
+        .in("content_hash", contentHashes)
+        .order("created_at", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to look up uploaded documents");
+      }
+
+      return data;
+    },
+
+    async listExtractedDocuments(userId) {
+      const { data, error } = await client
+        .from("documents")
+        .select("id, file_name, client_id, created_at")
+        .eq("user_id", userId)
+        .eq("status", "completed")
+        .order("created_at", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the documents");
       }
 
       return data;
@@ -130,7 +302,7 @@ export function createSupabaseComparisonBackend(
         .single();
 
       if (error || !data) {
-        throw new Error(error?.message ?? "Nie udało się utworzyć porównania");
+        throw new Error(error?.message ?? "Failed to create the comparison");
       }
 
       return data;
@@ -143,11 +315,77 @@ export function createSupabaseComparisonBackend(
         .single();
 
       if (error || !data) {
-        throw new Error(error?.message ?? "Nie udało się pobrać porównania");
+        throw new Error(error?.message ?? "Failed to load the comparison");
       }
 
       return data;
     },
+
+    async updateComparison(id, patch) {
+      const { error } = await client.from("comparisons").update(patch).eq("id", id);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to update the comparison");
+      }
+    },
+
+    async fetchComparisonJob(comparisonId) {
+      const { data, error } = await client
+        .from("comparison_jobs")
+        .select("*")
+        .eq("comparison_id", comparisonId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to load the comparison job");
+      }
+
+      return data;
+    },
+
+    subscribeToProgress({ comparisonId, documentIds }, handlers) {
+      const channel = client
+        .channel(`comparison-progress-${comparisonId}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "UPDATE",
+            schema: "public",
+            table: "documents",
+            filter: `id=in.(${documentIds.join(",")})`,
+          },
+          (payload) => handlers.onDocument(payload.new as DocumentStatusRecord)
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "UPDATE",
+            schema: "public",
+            table: "comparisons",
+            filter: `id=eq.${comparisonId}`,
+          },
+          (payload) => handlers.onComparison(payload.new as ComparisonRow)
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "comparison_jobs",
+            filter: `comparison_id=eq.${comparisonId}`,
+          },
+          (payload) => {
+            if (payload.new && "id" in payload.new) {
+              handlers.onJob(payload.new as ComparisonJobRow);
+            }
+          }
+        )
+        .subscribe();
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
   };
 }
 
@@ -161,57 +399,63 @@ export class ComparisonService {
     this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
+  /**
+   * Uploads the files and registers the comparison, then hands the pipeline over to the
+   * `comparison-orchestrator` job. The remaining stages run server-side, so closing the
+   * tab no longer leaves the comparison stuck; this method only observes the job.
+   */
   async runComparisonFlow({
     userId,
+    clientId = null,
     files,
+    existingDocumentIds = [],
     onStageChange,
+    onDocumentProgress,
     signal,
-  }: RunFlowParams): Promise<{
-    comparisonId: string;
-    documentIds: string[];
-    detectedProductType: string | null;
-  }> {
+  }: RunFlowParams): Promise<RunFlowResult> {
     this.ensureNotAborted(signal, "uploading_files");
     onStageChange?.("uploading_files");
-    const uploadedFiles = await this.uploadFiles(userId, files);
+    const stored = await this.storeFiles(userId, clientId, files, { signal, onStageChange });
+    const picked = existingDocumentIds.length > 0 ? await this.loadDocuments(existingDocumentIds) : [];
 
-    this.ensureNotAborted(signal, "creating_documents");
-    onStageChange?.("creating_documents");
-    const documents = await this.createDocumentRecords(userId, uploadedFiles);
-
-    this.ensureNotAborted(signal, "triggering_extraction");
-    onStageChange?.("triggering_extraction");
-    await this.triggerExtraction(documents.map((doc) => doc.id));
-
-    this.ensureNotAborted(signal, "waiting_for_extraction");
-    onStageChange?.("waiting_for_extraction");
-    await this.waitForExtraction(documents.map((doc) => doc.id), signal);
+    const documents = [...picked, ...stored].filter(
+      (doc, index, all) => all.findIndex((other) => other.id === doc.id) === index
+    );
+    if (documents.length < MIN_COMPARED_DOCUMENTS) {
+      throw new ComparisonServiceError(
+        "errors.duplicateOffers",
+        "creating_documents"
+      );
+    }
+    const documentIds = documents.map((doc) => doc.id);
 
     this.ensureNotAborted(signal, "creating_comparison");
     onStageChange?.("creating_comparison");
     const comparison = await this.createComparison({
       userId,
-      documentIds: documents.map((doc) => doc.id),
+      clientId,
+      documentIds,
     });
 
-    this.ensureNotAborted(signal, "comparing_offers");
-    onStageChange?.("comparing_offers");
-    await this.backend.invokeFunction("compare-offers", {
-      comparison_id: comparison.id,
-    });
+    await this.startComparisonJob(comparison.id);
 
-    this.ensureNotAborted(signal, "generating_summary");
-    onStageChange?.("generating_summary");
-    await this.backend.invokeFunction("generate-summary", {
-      comparison_id: comparison.id,
+    const isComplete = await this.followProgress({
+      comparisonId: comparison.id,
+      documents,
+      onStageChange,
+      onDocumentProgress,
+      signal,
     });
+    if (!isComplete) {
+      return { comparisonId: comparison.id, documentIds, detectedProductType: null, isComplete };
+    }
 
     let finalComparison: ComparisonRow;
     try {
       finalComparison = await this.backend.getComparison(comparison.id);
     } catch (error) {
       throw new ComparisonServiceError(
-        "Nie udało się pobrać wyników porównania.",
+        "errors.comparisonResultsFailed",
         "generating_summary",
         error
       );
@@ -219,132 +463,387 @@ export class ComparisonService {
 
     return {
       comparisonId: comparison.id,
-      documentIds: documents.map((d) => d.id),
+      documentIds,
       detectedProductType: finalComparison.product_type ?? null,
+      isComplete,
+      needsReview: finalComparison.status === "needs_review",
     };
   }
 
-  private async uploadFiles(userId: string, files: File[]): Promise<UploadResult[]> {
+  /**
+   * Enqueues the server-side job for a comparison. Calling it for a failed job resumes
+   * the pipeline from the stage that failed.
+   */
+  async startComparisonJob(comparisonId: string): Promise<void> {
     try {
-      const uploads = files.map(async (file) => {
-        const storageKey = this.buildStorageKey(userId, file.name);
-        await this.backend.uploadToStorage({
-          bucket: STORAGE_BUCKET,
-          objectKey: storageKey,
-          file,
-        });
-
-        return { storageKey, file };
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
       });
-
-      return await Promise.all(uploads);
     } catch (error) {
       throw new ComparisonServiceError(
-        "Nie udało się przesłać plików. Spróbuj ponownie.",
-        "uploading_files",
+        "errors.comparisonStartFailed",
+        "triggering_extraction",
         error
       );
     }
   }
 
-  private async createDocumentRecords(
-    userId: string,
-    uploadedFiles: UploadResult[]
-  ): Promise<DocumentRow[]> {
-    const payload: DocumentInsert[] = uploadedFiles.map(({ file, storageKey }) => ({
-      user_id: userId,
-      file_name: file.name,
-      file_path: storageKey,
-      file_size: file.size,
-      mime_type: file.type,
-      status: "uploaded",
-    }));
+  /** Already extracted documents that can be added to the comparison without uploading them again. */
+  async listReusableDocuments(userId: string, comparisonDocumentIds: string[]): Promise<ReusableDocument[]> {
+    try {
+      const documents = await this.backend.listExtractedDocuments(userId);
+      return documents.filter((doc) => !comparisonDocumentIds.includes(doc.id));
+    } catch (error) {
+      throw new ComparisonServiceError("errors.documentsLoadFailed", "creating_documents", error);
+    }
+  }
+
+  /**
+   * Appends offers to an existing comparison. New files are uploaded and extracted; documents
+   * that already have extracted data are reused, so the job re-runs only the stages it needs.
+   */
+  async addDocuments({
+    comparisonId,
+    userId,
+    clientId = null,
+    files = [],
+    existingDocumentIds = [],
+  }: AddDocumentsParams): Promise<ComparisonDocumentsChange> {
+    const comparison = await this.loadComparison(comparisonId);
+    const reused = existingDocumentIds.filter((id) => !comparison.document_ids.includes(id));
+    if (files.length === 0 && reused.length === 0) {
+      throw new ComparisonServiceError("errors.selectOffersToAdd", "uploading_files");
+    }
 
+    const stored = files.length > 0 ? await this.storeFiles(userId, clientId, files) : [];
+    const addedIds = [...reused, ...stored.map((doc) => doc.id)].filter(
+      (id, index, all) => !comparison.document_ids.includes(id) && all.indexOf(id) === index
+    );
+    if (addedIds.length === 0) {
+      throw new ComparisonServiceError("errors.offersAlreadyCompared", "creating_documents");
+    }
+
+    let statuses: DocumentStatusRecord[] = [];
     try {
-      return await this.backend.insertDocuments(payload);
+      statuses = await this.backend.fetchDocuments(addedIds);
     } catch (error) {
+      throw new ComparisonServiceError("errors.documentsLoadFailed", "creating_documents", error);
+    }
+    const needsExtraction = statuses.some((doc) => doc.status !== "completed");
+    const documentIds = [...comparison.document_ids, ...addedIds];
+
+    // New offers may change the product type mix, so the check runs again.
+    const rerunFrom: ComparisonRerunStage = needsExtraction ? "triggering_extraction" : "comparing_offers";
+    await this.changeDocuments(
+      comparisonId,
+      { document_ids: documentIds, product_type_mismatch: null },
+      { document_ids: comparison.document_ids, product_type_mismatch: comparison.product_type_mismatch ?? null },
+      rerunFrom
+    );
+
+    return { documentIds, rerunFrom };
+  }
+
+  /**
+   * Drops offers from a comparison and re-runs the analysis on the remaining ones. The
+   * documents themselves are kept and can be added back later.
+   */
+  async removeDocuments(comparisonId: string, removedIds: string[]): Promise<ComparisonDocumentsChange> {
+    const comparison = await this.loadComparison(comparisonId);
+    const documentIds = comparison.document_ids.filter((id) => !removedIds.includes(id));
+    if (documentIds.length === comparison.document_ids.length) {
+      throw new ComparisonServiceError("errors.selectOffersToRemove", "creating_comparison");
+    }
+    if (documentIds.length < MIN_COMPARED_DOCUMENTS) {
       throw new ComparisonServiceError(
-        "Nie udało się zapisać dokumentów.",
-        "creating_documents",
-        error
+        "errors.minTwoOffers",
+        "creating_comparison"
       );
     }
+
+    await this.changeDocuments(
+      comparisonId,
+      { document_ids: documentIds },
+      { document_ids: comparison.document_ids },
+      "comparing_offers"
+    );
+
+    return { documentIds, rerunFrom: "comparing_offers" };
   }
 
-  private async triggerExtraction(documentIds: string[]): Promise<void> {
+  async getComparisonJob(comparisonId: string): Promise<ComparisonJobRow | null> {
     try {
-      await Promise.all(
-        documentIds.map((documentId) =>
-          this.backend.invokeFunction("extract-insurance-data", {
-            document_id: documentId,
-          })
-        )
-      );
+      return await this.backend.fetchComparisonJob(comparisonId);
     } catch (error) {
       throw new ComparisonServiceError(
-        "Nie udało się zainicjować ekstrakcji danych.",
-        "triggering_extraction",
+        "errors.comparisonStatusFailed",
+        "creating_comparison",
         error
       );
     }
   }
 
-  private async waitForExtraction(
-    documentIds: string[],
-    signal?: AbortSignal
-  ): Promise<void> {
-    let attempts = 0;
+  /**
+   * Follows the job over Supabase Realtime until it completes. Resolves `false` when
+   * `progressTimeoutMs` elapses first; the comparison keeps processing in the background.
+   */
+  private followProgress({
+    comparisonId,
+    documents,
+    onStageChange,
+    onDocumentProgress,
+    signal,
+  }: {
+    comparisonId: string;
+    documents: DocumentRow[];
+    onStageChange?: (stage: ComparisonStage) => void;
+    onDocumentProgress?: (progress: DocumentProgress[]) => void;
+    signal?: AbortSignal;
+  }): Promise<boolean> {
+    const documentIds = documents.map((doc) => doc.id);
+    const progress = new Map<string, DocumentProgress>(
+      documents.map((doc) => [doc.id, toDocumentProgress(doc, doc.file_name)])
+    );
+    let lastStage: ComparisonStage = "creating_comparison";
+
+    this.ensureNotAborted(signal, lastStage);
+    onDocumentProgress?.(Array.from(progress.values()));
 
-    while (attempts < this.options.maxPollAttempts) {
-      this.ensureNotAborted(signal, "waiting_for_extraction");
+    return new Promise<boolean>((resolve, reject) => {
+      let settled = false;
+      let unsubscribe: (() => void) | null = null;
 
-      try {
-        const statuses = await this.backend.fetchDocuments(documentIds);
-        const allCompleted = statuses.every((doc) => doc.status === "completed");
-        const anyFailed = statuses.some((doc) => doc.status === "failed");
+      const finish = (settle: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", handleAbort);
+        unsubscribe?.();
+        settle();
+      };
+
+      const fail = (message: string, cause?: unknown) =>
+        finish(() => reject(new ComparisonServiceError(message, lastStage, cause)));
+
+      const handleAbort = () => fail("errors.processingAborted", signal?.reason);
 
-        if (allCompleted) {
+      const timeoutId = setTimeout(() => finish(() => resolve(false)), this.options.progressTimeoutMs);
+
+      const handleDocument = (record: DocumentStatusRecord) => {
+        const current = progress.get(record.id);
+        if (settled || !current) {
           return;
         }
 
-        if (anyFailed) {
-          const failedCount = statuses.filter((doc) => doc.status === "failed").length;
-          throw new ComparisonServiceError(
-            `Nie udało się przetworzyć ${failedCount} dokumentu(ów).`,
-            "waiting_for_extraction"
-          );
+        const next = toDocumentProgress(record, current.fileName);
+        if (next.status === current.status && next.stage === current.stage) {
+          return;
         }
-      } catch (error) {
-        if (error instanceof ComparisonServiceError) {
-          throw error;
+
+        progress.set(record.id, next);
+        onDocumentProgress?.(Array.from(progress.values()));
+      };
+
+      const handleJob = (job: ComparisonJobRow) => {
+        if (settled) {
+          return;
+        }
+
+        if (isJobStage(job.stage) && job.stage !== lastStage) {
+          lastStage = job.stage;
+          onStageChange?.(job.stage);
+        }
+
+        // A blocked job is settled too: the comparison waits for a product type review. So is a
+        // job whose summary failed, as compare-offers already completed the comparison.
+        const isSummaryFailure = job.status === "failed" && job.last_error === "summary_failed";
+        if (job.status === "completed" || job.status === "blocked" || isSummaryFailure) {
+          finish(() => resolve(true));
+        } else if (job.status === "failed") {
+          fail(jobErrorMessageKey(job.last_error));
         }
+      };
 
-        throw new ComparisonServiceError(
-          "Nie udało się sprawdzić statusu ekstrakcji.",
-          "waiting_for_extraction",
-          error
-        );
+      const handleComparison = (comparison: Pick<ComparisonRow, "id" | "status">) => {
+        if (comparison.status === "failed") {
+          fail("errors.comparisonFailed");
+        }
+      };
+
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
+      unsubscribe = this.backend.subscribeToProgress(
+        { comparisonId, documentIds },
+        { onDocument: handleDocument, onComparison: handleComparison, onJob: handleJob }
+      );
+      if (settled) {
+        unsubscribe();
       }
 
-      attempts += 1;
-      await this.delay(this.options.pollIntervalMs);
-    }
+      // Snapshot after subscribing so changes made before the channel opened are not missed.
+      Promise.all([
+        this.backend.fetchDocuments(documentIds),
+        this.backend.fetchComparisonJob(comparisonId),
+      ])
+        .then(([statuses, job]) => {
+          statuses.forEach(handleDocument);
+          if (job) {
+            handleJob(job);
+          }
+        })
+        .catch((error) => fail("errors.comparisonStatusFailed", error));
+    });
+  }
 
-    throw new ComparisonServiceError(
-      "Przekroczono limit czasu ekstrakcji. Spróbuj z mniejszymi plikami lub ponownie później.",
-      "waiting_for_extraction"
+  /**
+   * Registers the files as documents, one per distinct content. Files already in the user's
+   * library reuse that document and skip the upload; an extracted one also skips extraction.
+   */
+  private async storeFiles(
+    userId: string,
+    clientId: string | null,
+    files: File[],
+    { signal, onStageChange }: { signal?: AbortSignal; onStageChange?: (stage: ComparisonStage) => void } = {}
+  ): Promise<DocumentRow[]> {
+    const hashedFiles = await this.hashFiles(files);
+    const distinctFiles = hashedFiles.filter(
+      (entry, index) => hashedFiles.findIndex((other) => other.contentHash === entry.contentHash) === index
     );
+    const known = await this.findKnownDocuments(
+      userId,
+      distinctFiles.map((entry) => entry.contentHash)
+    );
+    const uploadedFiles = await this.uploadFiles(
+      userId,
+      distinctFiles.filter((entry) => !known.has(entry.contentHash))
+    );
+
+    this.ensureNotAborted(signal, "creating_documents");
+    onStageChange?.("creating_documents");
+    const created = uploadedFiles.length > 0
+      ? await this.createDocumentRecords(userId, clientId, uploadedFiles)
+      : [];
+    created.forEach((doc, index) => known.set(uploadedFiles[index].contentHash, doc));
+
+    return distinctFiles.flatMap((entry) => {
+      const doc = known.get(entry.contentHash);
+      return doc ? [doc] : [];
+    });
+  }
+
+  private async hashFiles(files: File[]): Promise<HashedFile[]> {
+    try {
+      return await Promise.all(
+        files.map(async (file) => ({ file, contentHash: await hashFileContent(file) }))
+      );
+    } catch (error) {
+      throw new ComparisonServiceError("errors.filesReadFailed", "uploading_files", error);
+    }
+  }
+
+  /** Existing documents by content hash, preferring ones whose extraction already completed. */
+  private async findKnownDocuments(userId: string, contentHashes: string[]): Promise<Map<string, DocumentRow>> {
+    const known = new Map<string, DocumentRow>();
+    if (contentHashes.length === 0) {
+      return known;
+    }
+
+    let rows: DocumentRow[];
+    try {
+      rows = await this.backend.findDocumentsByHash(userId, contentHashes);
+    } catch (error) {
+      throw new ComparisonServiceError(
+        "errors.uploadedDocumentsCheckFailed",
+        "uploading_files",
+        error
+      );
+    }
+
+    for (const row of rows) {
+      if (!row.content_hash) {
+        continue;
+      }
+      const current = known.get(row.content_hash);
+      if (!current || (current.status !== "completed" && row.status === "completed")) {
+        known.set(row.content_hash, row);
+      }
+    }
+
+    return known;
+  }
+
+  private async loadDocuments(documentIds: string[]): Promise<DocumentRow[]> {
+    try {
+      return await this.backend.getDocuments(documentIds);
+    } catch (error) {
+      throw new ComparisonServiceError("errors.documentsLoadFailed", "creating_documents", error);
+    }
+  }
+
+  private async uploadFiles(userId: string, files: HashedFile[]): Promise<UploadResult[]> {
+    try {
+      const uploads = files.map(async ({ file, contentHash }) => {
+        const storageKey = this.buildStorageKey(userId, file.name);
+        await this.backend.uploadToStorage({
+          bucket: STORAGE_BUCKET,
+          objectKey: storageKey,
+          file,
+        });
+
+        return { storageKey, file, contentHash };
+      });
+
+      return await Promise.all(uploads);
+    } catch (error) {
+      throw new ComparisonServiceError(
+        "errors.uploadFailed",
+        "uploading_files",
+        error
+      );
+    }
+  }
+
+  private async createDocumentRecords(
+    userId: string,
+    clientId: string | null,
+    uploadedFiles: UploadResult[]
+  ): Promise<DocumentRow[]> {
+    const payload: DocumentInsert[] = uploadedFiles.map(({ file, storageKey, contentHash }) => ({
+      user_id: userId,
+      client_id: clientId,
+      content_hash: contentHash,
+      file_name: file.name,
+      file_path: storageKey,
+      file_size: file.size,
+      mime_type: resolveDocumentMimeType(file),
+      status: "uploaded",
+    }));
+
+    try {
+      return await this.backend.insertDocuments(payload);
+    } catch (error) {
+      throw new ComparisonServiceError(
+        "errors.documentsSaveFailed",
+        "creating_documents",
+        error
+      );
+    }
   }
 
   private async createComparison({
     userId,
+    clientId,
     documentIds,
   }: {
     userId: string;
+    clientId: string | null;
     documentIds: string[];
   }): Promise<ComparisonRow> {
     const payload: ComparisonInsert = {
       user_id: userId,
+      client_id: clientId,
       document_ids: documentIds,
       status: "processing",
     };
@@ -353,13 +852,78 @@ export class ComparisonService {
       return await this.backend.createComparison(payload);
     } catch (error) {
       throw new ComparisonServiceError(
-        "Nie udało się utworzyć porównania.",
+        "errors.comparisonCreateFailed",
         "creating_comparison",
         error
       );
     }
   }
 
+  private async loadComparison(comparisonId: string): Promise<ComparisonRow> {
+    try {
+      return await this.backend.getComparison(comparisonId);
+    } catch (error) {
+      throw new ComparisonServiceError("errors.comparisonLoadFailed", "creating_comparison", error);
+    }
+  }
+
+  private async updateDocumentIds(comparisonId: string, patch: ComparisonUpdate) {
+    try {
+      await this.backend.updateComparison(comparisonId, patch);
+    } catch (error) {
+      throw new ComparisonServiceError(
+        "errors.comparisonOffersUpdateFailed",
+        "creating_comparison",
+        error
+      );
+    }
+  }
+
+  /**
+   * Saves the new offer list and re-runs the job. When the re-run is refused (a run already in
+   * progress answers 409) or fails, the previous offers are written back so the comparison still
+   * matches its results.
+   */
+  private async changeDocuments(
+    comparisonId: string,
+    patch: ComparisonUpdate,
+    previous: ComparisonUpdate,
+    rerunFrom: ComparisonRerunStage
+  ) {
+    await this.updateDocumentIds(comparisonId, patch);
+
+    try {
+      await this.rerunComparisonJob(comparisonId, rerunFrom);
+    } catch (rerunError) {
+      try {
+        await this.backend.updateComparison(comparisonId, previous);
+      } catch {
+        // The new offers stay saved; the error already says the comparison was not recalculated.
+        throw rerunError;
+      }
+      throw new ComparisonServiceError(
+        "errors.rerunFailedOffersRestored",
+        rerunFrom,
+        rerunError instanceof ComparisonServiceError ? rerunError.cause : rerunError
+      );
+    }
+  }
+
+  private async rerunComparisonJob(comparisonId: string, rerunFrom: ComparisonRerunStage) {
+    try {
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
+        rerun_from: rerunFrom,
+      });
+    } catch (error) {
+      throw new ComparisonServiceError(
+        "errors.rerunFailedOffersSaved",
+        rerunFrom,
+        error
+      );
+    }
+  }
+
   private buildStorageKey(userId: string, fileName: string): string {
     const safeName = sanitizeFileName(fileName);
     const unique = typeof crypto !== "undefined" && "randomUUID" in crypto
@@ -371,20 +935,12 @@ export class ComparisonService {
   private ensureNotAborted(signal: AbortSignal | undefined, stage: ComparisonStage) {
     if (signal?.aborted) {
       throw new ComparisonServiceError(
-        "Przetwarzanie zostało przerwane.",
+        "errors.processingAborted",
         stage,
         signal.reason
       );
     }
   }
-
-  private async delay(ms: number) {
-    if (ms <= 0) {
-      return;
-    }
-
-    await new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
 
 export const comparisonService = new ComparisonService(
@@ -0,0 +1,76 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  ComparisonVersionService,
+  ComparisonVersionServiceError,
+  type ComparisonVersionBackend,
+} from "./comparison-version-service";
+
+class StubComparisonVersionBackend implements ComparisonVersionBackend {
+  rows: Array<Record<string, unknown>> = [];
+  invocations: Array<{ name: string; payload: Record<string, unknown> }> = [];
+  failInvoke = false;
+
+  async listVersions(comparisonId: string) {
+    return this.rows.filter((row) => row.comparison_id === comparisonId);
+  }
+
+  async invokeFunction(name: string, payload: Record<string, unknown>) {
+    if (this.failInvoke) {
+      throw new Error("network");
+    }
+    this.invocations.push({ name, payload });
+  }
+}
+
+describe("ComparisonVersionService", () => {
+  it("maps stored versions and their document revisions", async () => {
+    const backend = new StubComparisonVersionBackend();
+    backend.rows = [
+      {
+        id: "v-2",
+        comparison_id: "cmp-1",
+        version: 2,
+        created_at: "2026-10-18T12:00:00.000Z",
+        document_ids: ["doc-1"],
+        document_revisions: [{ document_id: "doc-1", file_name: "a.pdf", corrections_count: 1, data_hash: "h" }],
+        comparison_data: { key_highlights: [] },
+        comparison_model: "google/gemini-2.5-flash",
+        comparison_prompt: "prompt",
+        summary_json: null,
+        summary_text: null,
+        summary_model: null,
+        summary_prompt: null,
+        summary_generated_at: null,
+      },
+    ];
+    const service = new ComparisonVersionService(backend);
+
+    const [version] = await service.listVersions("cmp-1");
+
+    expect(version).toMatchObject({ id: "v-2", version: 2, comparisonModel: "google/gemini-2.5-flash" });
+    expect(version.documentRevisions).toEqual([
+      { document_id: "doc-1", file_name: "a.pdf", extracted_at: null, corrections_count: 1, data_hash: "h" },
+    ]);
+  });
+
+  it("re-runs the comparison from comparing offers", async () => {
+    const backend = new StubComparisonVersionBackend();
+    const service = new ComparisonVersionService(backend);
+
+    await service.rerun("cmp-1");
+
+    expect(backend.invocations).toEqual([
+      { name: "comparison-orchestrator", payload: { comparison_id: "cmp-1", rerun_from: "comparing_offers" } },
+    ]);
+  });
+
+  it("wraps orchestrator failures", async () => {
+    const backend = new StubComparisonVersionBackend();
+    backend.failInvoke = true;
+    const service = new ComparisonVersionService(backend);
+
+    await expect(service.rerun("cmp-1")).rejects.toBeInstanceOf(ComparisonVersionServiceError);
+  });
+});
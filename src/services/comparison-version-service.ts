@@ -0,0 +1,104 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { parseDocumentRevisions, type ComparisonVersion } from "@/lib/comparison-versions";
+import { COMPARISON_ORCHESTRATOR_FUNCTION } from "@/services/comparison-service";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ComparisonVersionRow = Database["public"]["Tables"]["comparison_versions"]["Row"];
+
+export class ComparisonVersionServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "ComparisonVersionServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface ComparisonVersionBackend {
+  listVersions(comparisonId: string): Promise<ComparisonVersionRow[]>;
+  invokeFunction(name: string, payload: Record<string, unknown>): Promise<void>;
+}
+
+export function createSupabaseComparisonVersionBackend(
+  client: SupabaseClient<Database>
+): ComparisonVersionBackend {
+  return {
+    async listVersions(comparisonId) {
+      const { data, error } = await client
+        .from("comparison_versions")
+        .select("*")
+        .eq("comparison_id", comparisonId)
+        .order("version", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the comparison versions");
+      }
+
+      return data;
+    },
+
+    async invokeFunction(name, payload) {
+      const { error } = await client.functions.invoke(name, {
+        body: payload,
+      });
+
+      if (error) {
+        throw new Error(error.message ?? `Function ${name} failed`);
+      }
+    },
+  };
+}
+
+export const toComparisonVersion = (row: ComparisonVersionRow): ComparisonVersion => ({
+  id: row.id,
+  version: row.version,
+  createdAt: row.created_at,
+  documentIds: row.document_ids,
+  documentRevisions: parseDocumentRevisions(row.document_revisions),
+  comparisonData: row.comparison_data,
+  comparisonModel: row.comparison_model,
+  comparisonPrompt: row.comparison_prompt,
+  summaryJson: row.summary_json,
+  summaryText: row.summary_text,
+  summaryModel: row.summary_model,
+  summaryPrompt: row.summary_prompt,
+  summaryGeneratedAt: row.summary_generated_at,
+});
+
+/**
+ * History of a comparison's runs. The comparison row keeps the latest result; every run is
+ * also stored as a version by the compare-offers and generate-summary functions.
+ */
+export class ComparisonVersionService {
+  constructor(private readonly backend: ComparisonVersionBackend) {}
+
+  /** Versions of the comparison, newest first. */
+  async listVersions(comparisonId: string): Promise<ComparisonVersion[]> {
+    try {
+      const rows = await this.backend.listVersions(comparisonId);
+      return rows.map(toComparisonVersion);
+    } catch (error) {
+      throw new ComparisonVersionServiceError("errors.versionsLoadFailed", error);
+    }
+  }
+
+  /** Runs the comparison and summary again on the current documents, producing a new version. */
+  async rerun(comparisonId: string): Promise<void> {
+    try {
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
+        rerun_from: "comparing_offers",
+      });
+    } catch (error) {
+      throw new ComparisonVersionServiceError("errors.recalculationStartFailed", error);
+    }
+  }
+}
+
+export const comparisonVersionService = new ComparisonVersionService(
+  createSupabaseComparisonVersionBackend(supabase)
+);
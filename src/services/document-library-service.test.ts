@@ -0,0 +1,52 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  DocumentLibraryService,
+  DocumentLibraryServiceError,
+  type DocumentLibraryBackend,
+} from "./document-library-service";
+
+class StubDocumentLibraryBackend implements DocumentLibraryBackend {
+  constructor(private readonly rows: Array<Record<string, unknown>> | Error) {}
+
+  async listDocuments() {
+    if (this.rows instanceof Error) {
+      throw this.rows;
+    }
+    return this.rows;
+  }
+}
+
+const row = (overrides: Record<string, unknown>) => ({
+  id: "doc-1",
+  file_name: "oferta.pdf",
+  status: "completed",
+  client_id: null,
+  created_at: "2026-10-18T10:00:00.000Z",
+  ocr_provider: "mineru",
+  extracted_data: null,
+  ...overrides,
+});
+
+describe("DocumentLibraryService", () => {
+  it("reads the insurer and product type from the extracted data", async () => {
+    const service = new DocumentLibraryService(
+      new StubDocumentLibraryBackend([
+        row({ extracted_data: { insurer: " PZU ", product_template: "travel_insurance", product_type: "Podróże" } }),
+        row({ id: "doc-2", status: "processing", extracted_data: { product_type: "OC/AC" } }),
+      ])
+    );
+
+    const [travel, pending] = await service.listDocuments("user-1");
+
+    expect(travel).toMatchObject({ insurer: "PZU", productType: "travel_insurance", ocrProvider: "mineru" });
+    expect(pending).toMatchObject({ id: "doc-2", status: "processing", insurer: null, productType: "OC/AC" });
+  });
+
+  it("wraps backend failures", async () => {
+    const service = new DocumentLibraryService(new StubDocumentLibraryBackend(new Error("boom")));
+
+    await expect(service.listDocuments("user-1")).rejects.toBeInstanceOf(DocumentLibraryServiceError);
+  });
+});
@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { MessageKey } from "@/lib/i18n";
+import { getProductTemplate } from "@/lib/product-templates";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type DocumentRow = Database["public"]["Tables"]["documents"]["Row"];
+
+export type LibraryDocumentRow = Pick<
+  DocumentRow,
+  "id" | "file_name" | "status" | "client_id" | "created_at" | "ocr_provider" | "extracted_data"
+>;
+
+export interface LibraryDocument {
+  id: string;
+  fileName: string;
+  status: string;
+  clientId: string | null;
+  createdAt: string;
+  ocrProvider: string | null;
+  insurer: string | null;
+  /** Template key when the document was extracted with one, otherwise the type the AI described. */
+  productType: string | null;
+}
+
+export const DOCUMENT_STATUS_LABELS: Record<string, MessageKey> = {
+  uploaded: "documentStatus.uploaded",
+  processing: "documentStatus.processing",
+  completed: "documentStatus.completed",
+  failed: "documentStatus.failed",
+};
+
+export class DocumentLibraryServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "DocumentLibraryServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface DocumentLibraryBackend {
+  listDocuments(userId: string): Promise<LibraryDocumentRow[]>;
+}
+
+export function createSupabaseDocumentLibraryBackend(
+  client: SupabaseClient<Database>
+): DocumentLibraryBackend {
+  return {
+    async listDocuments(userId) {
+      const { data, error } = await client
+        .from("documents")
+        .select("id, file_name, status, client_id, created_at, ocr_provider, extracted_data")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the documents");
+      }
+
+      return data;
+    },
+  };
+}
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+export const toLibraryDocument = (row: LibraryDocumentRow): LibraryDocument => {
+  const extracted =
+    row.extracted_data && typeof row.extracted_data === "object" && !Array.isArray(row.extracted_data)
+      ? (row.extracted_data as Record<string, unknown>)
+      : {};
+  const templateKey = toText(extracted.product_template);
+
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    status: row.status,
+    clientId: row.client_id,
+    createdAt: row.created_at,
+    ocrProvider: row.ocr_provider,
+    insurer: toText(extracted.insurer),
+    productType: (templateKey ? getProductTemplate(templateKey)?.productType : null) ?? toText(extracted.product_type),
+  };
+};
+
+/** Every document the broker has uploaded, newest first, for reuse in new comparisons. */
+export class DocumentLibraryService {
+  constructor(private readonly backend: DocumentLibraryBackend) {}
+
+  async listDocuments(userId: string): Promise<LibraryDocument[]> {
+    try {
+      const rows = await this.backend.listDocuments(userId);
+      return rows.map(toLibraryDocument);
+    } catch (error) {
+      throw new DocumentLibraryServiceError("errors.libraryLoadFailed", error);
+    }
+  }
+}
+
+export const documentLibraryService = new DocumentLibraryService(
+  createSupabaseDocumentLibraryBackend(supabase)
+);
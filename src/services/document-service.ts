@@ -14,18 +14,18 @@ export class DocumentServiceError extends Error {
 
 export const normalizeDocumentStorageKey = (filePath: string): string => {
   if (!filePath || typeof filePath !== "string") {
-    throw new DocumentServiceError("Niepoprawna ścieżka pliku dokumentu.");
+    throw new DocumentServiceError("errors.invalidDocumentPath");
   }
 
   const trimmed = filePath.trim();
   if (!trimmed) {
-    throw new DocumentServiceError("Niepoprawna ścieżka pliku dokumentu.");
+    throw new DocumentServiceError("errors.invalidDocumentPath");
   }
 
   if (trimmed.startsWith(LEGACY_BUCKET_PREFIX)) {
     const normalized = trimmed.slice(LEGACY_BUCKET_PREFIX.length);
     if (!normalized) {
-      throw new DocumentServiceError("Nie udało się odczytać lokalizacji dokumentu w magazynie.");
+      throw new DocumentServiceError("errors.documentLocationFailed");
     }
     return normalized;
   }
@@ -44,7 +44,7 @@ const createSignedUrl = async (
     .createSignedUrl(objectPath, expiresIn);
 
   if (error || !data?.signedUrl) {
-    throw new DocumentServiceError("Nie udało się wygenerować podpisanego adresu URL.", error);
+    throw new DocumentServiceError("errors.signedUrlFailed", error);
   }
 
   return data.signedUrl;
@@ -60,7 +60,7 @@ export const getSignedDownloadUrl = async (
     if (error instanceof DocumentServiceError) {
       throw error;
     }
-    throw new DocumentServiceError("Nie udało się przygotować linku do pobrania dokumentu.", error);
+    throw new DocumentServiceError("errors.downloadLinkFailed", error);
   }
 };
 
@@ -74,7 +74,7 @@ export const getSignedPreviewUrl = async (
     if (error instanceof DocumentServiceError) {
       throw error;
     }
-    throw new DocumentServiceError("Nie udało się przygotować podglądu dokumentu.", error);
+    throw new DocumentServiceError("errors.previewLinkFailed", error);
   }
 };
 
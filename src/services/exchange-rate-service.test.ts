@@ -0,0 +1,67 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import { ExchangeRateService, ExchangeRateServiceError, type ExchangeRateBackend } from "./exchange-rate-service";
+
+class StubExchangeRateBackend implements ExchangeRateBackend {
+  upserted: any[][] = [];
+  reportingCurrencies: Array<{ comparisonId: string; currency: string }> = [];
+
+  constructor(private readonly failing = false) {}
+
+  async listRates() {
+    if (this.failing) throw new Error("db down");
+    return [];
+  }
+
+  async upsertRates(payload: any[]) {
+    if (this.failing) throw new Error("db down");
+    this.upserted.push(payload);
+    return payload.map((row, index) => ({ id: `rate-${index}`, created_at: "", updated_at: "", valid_on: "2026-10-18", ...row }));
+  }
+
+  async deleteRate() {
+    if (this.failing) throw new Error("db down");
+  }
+
+  async updateReportingCurrency(comparisonId: string, currency: string) {
+    if (this.failing) throw new Error("db down");
+    this.reportingCurrencies.push({ comparisonId, currency });
+  }
+}
+
+describe("ExchangeRateService", () => {
+  it("upserts normalized rates with their source", async () => {
+    const backend = new StubExchangeRateBackend();
+    const service = new ExchangeRateService(backend);
+
+    await service.saveRates("user-1", [{ currency: " eur ", rateToPln: 4.3, validOn: "2026-10-01" }], "import");
+
+    expect(backend.upserted).toEqual([
+      [{ user_id: "user-1", currency: "EUR", rate_to_pln: 4.3, source: "import", valid_on: "2026-10-01" }],
+    ]);
+  });
+
+  it("rejects the whole batch when a rate is invalid", async () => {
+    const backend = new StubExchangeRateBackend();
+    const service = new ExchangeRateService(backend);
+
+    await expect(
+      service.saveRates("user-1", [{ currency: "EUR", rateToPln: 4.3 }, { currency: "USD", rateToPln: 0 }], "manual"),
+    ).rejects.toMatchObject({ message: "errors.invalidRate", params: { currency: "USD" } });
+    await expect(service.saveRates("user-1", [{ currency: "PLN", rateToPln: 1 }], "manual")).rejects.toBeInstanceOf(
+      ExchangeRateServiceError,
+    );
+    expect(backend.upserted).toHaveLength(0);
+  });
+
+  it("stores the reporting currency of a comparison and wraps backend errors", async () => {
+    const backend = new StubExchangeRateBackend();
+    await new ExchangeRateService(backend).setReportingCurrency("cmp-1", "eur");
+    expect(backend.reportingCurrencies).toEqual([{ comparisonId: "cmp-1", currency: "EUR" }]);
+
+    await expect(new ExchangeRateService(new StubExchangeRateBackend(true)).listRates("user-1")).rejects.toThrow(
+      "errors.ratesLoadFailed",
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { BASE_CURRENCY, isCurrencyCode, type ExchangeRate } from "@/lib/exchange-rates";
+import type { MessageKey, TranslationParams } from "@/lib/i18n";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ExchangeRateRow = Database["public"]["Tables"]["exchange_rates"]["Row"];
+type ExchangeRateInsert = Database["public"]["Tables"]["exchange_rates"]["Insert"];
+
+export type ExchangeRateSource = "manual" | "import";
+
+export class ExchangeRateServiceError extends Error {
+  cause?: unknown;
+  params?: TranslationParams;
+
+  constructor(message: string, cause?: unknown, params?: TranslationParams) {
+    super(message);
+    this.name = "ExchangeRateServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+    if (params !== undefined) {
+      this.params = params;
+    }
+  }
+}
+
+export interface ExchangeRateBackend {
+  listRates(userId: string): Promise<ExchangeRateRow[]>;
+  upsertRates(payload: ExchangeRateInsert[]): Promise<ExchangeRateRow[]>;
+  deleteRate(id: string): Promise<void>;
+  updateReportingCurrency(comparisonId: string, currency: string): Promise<void>;
+}
+
+export function createSupabaseExchangeRateBackend(client: SupabaseClient<Database>): ExchangeRateBackend {
+  return {
+    async listRates(userId) {
+      const { data, error } = await client
+        .from("exchange_rates")
+        .select("*")
+        .eq("user_id", userId)
+        .order("currency", { ascending: true });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load exchange rates");
+      }
+
+      return data;
+    },
+
+    async upsertRates(payload) {
+      const { data, error } = await client
+        .from("exchange_rates")
+        .upsert(payload, { onConflict: "user_id,currency" })
+        .select();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to save exchange rates");
+      }
+
+      return data;
+    },
+
+    async deleteRate(id) {
+      const { error } = await client.from("exchange_rates").delete().eq("id", id);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to delete the rate");
+      }
+    },
+
+    async updateReportingCurrency(comparisonId, currency) {
+      const { error } = await client
+        .from("comparisons")
+        .update({ reporting_currency: currency })
+        .eq("id", comparisonId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to change the reporting currency");
+      }
+    },
+  };
+}
+
+export const toExchangeRate = (row: ExchangeRateRow): ExchangeRate => ({
+  currency: row.currency,
+  rateToPln: Number(row.rate_to_pln),
+  validOn: row.valid_on,
+});
+
+interface RateProblem {
+  message: MessageKey;
+  params?: TranslationParams;
+}
+
+const validateRate = (rate: ExchangeRate): RateProblem | null => {
+  if (!isCurrencyCode(rate.currency)) {
+    return { message: "errors.invalidCurrencyCode", params: { currency: rate.currency } };
+  }
+  if (rate.currency === BASE_CURRENCY) {
+    return { message: "errors.baseCurrencyRate" };
+  }
+  if (!Number.isFinite(rate.rateToPln) || rate.rateToPln <= 0) {
+    return { message: "errors.invalidRate", params: { currency: rate.currency } };
+  }
+  return null;
+};
+
+export class ExchangeRateService {
+  constructor(private readonly backend: ExchangeRateBackend) {}
+
+  async listRates(userId: string): Promise<ExchangeRateRow[]> {
+    try {
+      return await this.backend.listRates(userId);
+    } catch (error) {
+      throw new ExchangeRateServiceError("errors.ratesLoadFailed", error);
+    }
+  }
+
+  /**
+   * Stores rates for the user, replacing earlier rates of the same currencies. The whole batch
+   * is rejected when any rate is invalid so a broken import never leaves a partial table.
+   */
+  async saveRates(userId: string, rates: ExchangeRate[], source: ExchangeRateSource): Promise<ExchangeRateRow[]> {
+    const normalized = rates.map((rate) => ({ ...rate, currency: rate.currency.trim().toUpperCase() }));
+    const invalid = normalized.map(validateRate).find((problem): problem is RateProblem => problem !== null);
+    if (invalid) {
+      throw new ExchangeRateServiceError(invalid.message, undefined, invalid.params);
+    }
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.backend.upsertRates(
+        normalized.map((rate) => ({
+          user_id: userId,
+          currency: rate.currency,
+          rate_to_pln: rate.rateToPln,
+          source,
+          ...(rate.validOn ? { valid_on: rate.validOn } : {}),
+        })),
+      );
+    } catch (error) {
+      throw new ExchangeRateServiceError("errors.ratesSaveFailed", error);
+    }
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    try {
+      await this.backend.deleteRate(id);
+    } catch (error) {
+      throw new ExchangeRateServiceError("errors.rateDeleteFailed", error);
+    }
+  }
+
+  async setReportingCurrency(comparisonId: string, currency: string): Promise<void> {
+    const normalized = currency.trim().toUpperCase();
+    if (!isCurrencyCode(normalized)) {
+      throw new ExchangeRateServiceError(`Niepoprawny kod waluty: ${currency}`);
+    }
+
+    try {
+      await this.backend.updateReportingCurrency(comparisonId, normalized);
+    } catch (error) {
+      throw new ExchangeRateServiceError("errors.reportingCurrencyFailed", error);
+    }
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService(createSupabaseExchangeRateBackend(supabase));
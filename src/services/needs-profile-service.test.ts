@@ -0,0 +1,72 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import { NeedsProfileService, NeedsProfileServiceError, type NeedsProfileBackend } from "./needs-profile-service";
+
+class StubNeedsProfileBackend implements NeedsProfileBackend {
+  clientProfiles: Array<{ clientId: string; profile: unknown }> = [];
+  comparisonProfiles: Array<{ comparisonId: string; profile: unknown }> = [];
+  invocations: Array<{ name: string; payload: Record<string, unknown> }> = [];
+
+  constructor(private readonly failingInvoke = false) {}
+
+  async updateClientProfile(clientId: string, profile: unknown) {
+    this.clientProfiles.push({ clientId, profile });
+  }
+
+  async updateComparisonProfile(comparisonId: string, profile: unknown) {
+    this.comparisonProfiles.push({ comparisonId, profile });
+  }
+
+  async invokeFunction(name: string, payload: Record<string, unknown>) {
+    if (this.failingInvoke) throw new Error("function down");
+    this.invocations.push({ name, payload });
+  }
+}
+
+const profile = {
+  age: 35,
+  dependants: 2,
+  budget: { amount: 200, period: "monthly", currency: "PLN" },
+  must_have_coverages: ["Poważne zachorowanie"],
+  risk_tolerance: "low",
+  notes: null,
+};
+
+describe("NeedsProfileService", () => {
+  it("stores the client profile and clears empty questionnaires", async () => {
+    const backend = new StubNeedsProfileBackend();
+    const service = new NeedsProfileService(backend);
+
+    await service.saveClientProfile("client-1", profile);
+    await service.saveClientProfile("client-1", { ...profile, age: null, dependants: null, budget: null, must_have_coverages: [], risk_tolerance: null });
+
+    expect(backend.clientProfiles).toEqual([
+      { clientId: "client-1", profile },
+      { clientId: "client-1", profile: null },
+    ]);
+    expect(backend.invocations).toEqual([]);
+  });
+
+  it("re-runs the comparison after saving its own profile", async () => {
+    const backend = new StubNeedsProfileBackend();
+
+    await new NeedsProfileService(backend).saveComparisonProfile("cmp-1", profile);
+
+    expect(backend.comparisonProfiles).toEqual([{ comparisonId: "cmp-1", profile }]);
+    expect(backend.invocations).toEqual([
+      { name: "comparison-orchestrator", payload: { comparison_id: "cmp-1", rerun_from: "comparing_offers" } },
+    ]);
+  });
+
+  it("rejects invalid answers and reports a failed re-run", async () => {
+    const service = new NeedsProfileService(new StubNeedsProfileBackend(true));
+
+    await expect(service.saveClientProfile("client-1", { ...profile, age: 200 })).rejects.toBeInstanceOf(
+      NeedsProfileServiceError,
+    );
+    await expect(service.saveComparisonProfile("cmp-1", profile)).rejects.toThrow(
+      "errors.needsSavedRefreshFailed",
+    );
+  });
+});
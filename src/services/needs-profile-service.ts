@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { parseClientNeedsProfile, type ClientNeedsProfile } from "@/lib/client-needs";
+import { COMPARISON_ORCHESTRATOR_FUNCTION } from "@/services/comparison-service";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export class NeedsProfileServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "NeedsProfileServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface NeedsProfileBackend {
+  updateClientProfile(clientId: string, profile: Json | null): Promise<void>;
+  updateComparisonProfile(comparisonId: string, profile: Json | null): Promise<void>;
+  invokeFunction(name: string, payload: Record<string, unknown>): Promise<void>;
+}
+
+export function createSupabaseNeedsProfileBackend(client: SupabaseClient<Database>): NeedsProfileBackend {
+  return {
+    async updateClientProfile(clientId, profile) {
+      const { error } = await client.from("clients").update({ needs_profile: profile }).eq("id", clientId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to save the needs profile");
+      }
+    },
+
+    async updateComparisonProfile(comparisonId, profile) {
+      const { error } = await client.from("comparisons").update({ needs_profile: profile }).eq("id", comparisonId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to save the needs profile");
+      }
+    },
+
+    async invokeFunction(name, payload) {
+      const { error } = await client.functions.invoke(name, {
+        body: payload,
+      });
+
+      if (error) {
+        throw new Error(error.message ?? `Function ${name} failed`);
+      }
+    },
+  };
+}
+
+const validateProfile = (profile: ClientNeedsProfile | null): ClientNeedsProfile | null => {
+  if (!profile) {
+    return null;
+  }
+  if (profile.age !== null && (!Number.isInteger(profile.age) || profile.age < 0 || profile.age > 120)) {
+    throw new NeedsProfileServiceError("errors.invalidAge");
+  }
+  if (profile.dependants !== null && (!Number.isInteger(profile.dependants) || profile.dependants < 0)) {
+    throw new NeedsProfileServiceError("errors.negativeDependants");
+  }
+  if (profile.budget && !(profile.budget.amount > 0)) {
+    throw new NeedsProfileServiceError("errors.invalidBudget");
+  }
+  return parseClientNeedsProfile(profile);
+};
+
+export class NeedsProfileService {
+  constructor(private readonly backend: NeedsProfileBackend) {}
+
+  async saveClientProfile(clientId: string, profile: ClientNeedsProfile | null): Promise<ClientNeedsProfile | null> {
+    const normalized = validateProfile(profile);
+
+    try {
+      await this.backend.updateClientProfile(clientId, normalized as Json | null);
+    } catch (error) {
+      throw new NeedsProfileServiceError("errors.clientNeedsSaveFailed", error);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Stores a profile for a single comparison and re-runs its analysis and summary, which are
+   * written with the profile in the prompts. Null falls back to the client's profile.
+   */
+  async saveComparisonProfile(
+    comparisonId: string,
+    profile: ClientNeedsProfile | null,
+  ): Promise<ClientNeedsProfile | null> {
+    const normalized = validateProfile(profile);
+
+    try {
+      await this.backend.updateComparisonProfile(comparisonId, normalized as Json | null);
+    } catch (error) {
+      throw new NeedsProfileServiceError("errors.comparisonNeedsSaveFailed", error);
+    }
+
+    try {
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
+        rerun_from: "comparing_offers",
+      });
+    } catch (error) {
+      throw new NeedsProfileServiceError(
+        "errors.needsSavedRefreshFailed",
+        error,
+      );
+    }
+
+    return normalized;
+  }
+}
+
+export const needsProfileService = new NeedsProfileService(createSupabaseNeedsProfileBackend(supabase));
@@ -0,0 +1,76 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  OfferCorrectionService,
+  OfferCorrectionServiceError,
+  type OfferCorrectionBackend,
+} from "./offer-correction-service";
+
+class StubCorrectionBackend implements OfferCorrectionBackend {
+  stored: Record<string, unknown>;
+  invocations: Array<{ name: string; payload: Record<string, unknown> }> = [];
+
+  constructor(initial: Record<string, unknown>, private readonly failAt?: "update" | "invoke") {
+    this.stored = initial;
+  }
+
+  async fetchExtractedData() {
+    return this.stored;
+  }
+
+  async updateExtractedData(_documentId: string, extractedData: Record<string, unknown>) {
+    if (this.failAt === "update") {
+      throw new Error("update failed");
+    }
+    this.stored = extractedData;
+  }
+
+  async invokeFunction(name: string, payload: Record<string, unknown>) {
+    if (this.failAt === "invoke") {
+      throw new Error("function down");
+    }
+    this.invocations.push({ name, payload });
+  }
+}
+
+const params = {
+  documentId: "doc-1",
+  comparisonId: "cmp-1",
+  path: "unified.total_premium_after_discounts",
+  value: 584.77,
+  editor: { id: "user-1" },
+};
+
+describe("OfferCorrectionService", () => {
+  it("stores the correction and re-runs the comparison from the compare stage", async () => {
+    const backend = new StubCorrectionBackend({ unified: { total_premium_after_discounts: "missing" } });
+
+    const result = await new OfferCorrectionService(backend).saveCorrection(params);
+
+    expect(backend.stored.unified.total_premium_after_discounts).toBe(584.77);
+    expect(result.manual_corrections).toHaveLength(1);
+    expect(backend.invocations).toEqual([
+      { name: "comparison-orchestrator", payload: { comparison_id: "cmp-1", rerun_from: "comparing_offers" } },
+    ]);
+  });
+
+  it("does not re-run the comparison when saving fails", async () => {
+    const backend = new StubCorrectionBackend({}, "update");
+
+    await expect(new OfferCorrectionService(backend).saveCorrection(params)).rejects.toThrow(
+      "errors.correctionSaveFailed",
+    );
+    expect(backend.invocations).toHaveLength(0);
+  });
+
+  it("reports a saved correction whose re-run could not be started", async () => {
+    const backend = new StubCorrectionBackend({}, "invoke");
+
+    const error = await new OfferCorrectionService(backend).saveCorrection(params).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(OfferCorrectionServiceError);
+    expect(error.message).toBe("errors.correctionSavedRefreshFailed");
+    expect(backend.stored.unified.total_premium_after_discounts).toBe(584.77);
+  });
+});
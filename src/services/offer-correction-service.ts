@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  applyOfferCorrection,
+  type CorrectionEditor,
+  type CorrectionValue,
+} from "@/lib/offer-corrections";
+import { COMPARISON_ORCHESTRATOR_FUNCTION } from "@/services/comparison-service";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export class OfferCorrectionServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "OfferCorrectionServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface OfferCorrectionBackend {
+  fetchExtractedData(documentId: string): Promise<unknown>;
+  updateExtractedData(documentId: string, extractedData: Record<string, unknown>): Promise<void>;
+  invokeFunction(name: string, payload: Record<string, unknown>): Promise<void>;
+}
+
+export function createSupabaseOfferCorrectionBackend(
+  client: SupabaseClient<Database>
+): OfferCorrectionBackend {
+  return {
+    async fetchExtractedData(documentId) {
+      const { data, error } = await client
+        .from("documents")
+        .select("extracted_data")
+        .eq("id", documentId)
+        .single();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to load the offer data");
+      }
+
+      return data.extracted_data;
+    },
+
+    async updateExtractedData(documentId, extractedData) {
+      const { error } = await client
+        .from("documents")
+        .update({ extracted_data: extractedData as Json })
+        .eq("id", documentId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to save the correction");
+      }
+    },
+
+    async invokeFunction(name, payload) {
+      const { error } = await client.functions.invoke(name, {
+        body: payload,
+      });
+
+      if (error) {
+        throw new Error(error.message ?? `Function ${name} failed`);
+      }
+    },
+  };
+}
+
+type SaveCorrectionParams = {
+  documentId: string;
+  comparisonId: string;
+  path: string;
+  value: CorrectionValue;
+  editor: CorrectionEditor;
+};
+
+export class OfferCorrectionService {
+  constructor(private readonly backend: OfferCorrectionBackend) {}
+
+  /**
+   * Writes the corrected value into `documents.extracted_data` (re-read first so concurrent
+   * edits of other fields are kept) and re-runs the comparison and summary for `comparisonId`.
+   */
+  async saveCorrection({
+    documentId,
+    comparisonId,
+    path,
+    value,
+    editor,
+  }: SaveCorrectionParams): Promise<Record<string, unknown>> {
+    let extractedData: Record<string, unknown>;
+    try {
+      const current = await this.backend.fetchExtractedData(documentId);
+      extractedData = applyOfferCorrection(current, { path, value }, editor);
+      await this.backend.updateExtractedData(documentId, extractedData);
+    } catch (error) {
+      throw new OfferCorrectionServiceError("errors.correctionSaveFailed", error);
+    }
+
+    try {
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
+        rerun_from: "comparing_offers",
+      });
+    } catch (error) {
+      throw new OfferCorrectionServiceError(
+        "errors.correctionSavedRefreshFailed",
+        error
+      );
+    }
+
+    return extractedData;
+  }
+}
+
+export const offerCorrectionService = new OfferCorrectionService(
+  createSupabaseOfferCorrectionBackend(supabase)
+);
@@ -0,0 +1,73 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  ProductTypeReviewService,
+  ProductTypeReviewServiceError,
+  type ProductTypeReviewBackend,
+} from "./product-type-review-service";
+
+class StubProductTypeReviewBackend implements ProductTypeReviewBackend {
+  updates: Array<{ comparisonId: string; patch: Record<string, unknown> }> = [];
+  invocations: Array<{ name: string; payload: Record<string, unknown> }> = [];
+
+  async updateComparison(comparisonId: string, patch: Record<string, unknown>) {
+    this.updates.push({ comparisonId, patch });
+  }
+
+  async invokeFunction(name: string, payload: Record<string, unknown>) {
+    this.invocations.push({ name, payload });
+  }
+}
+
+const mismatch = {
+  status: "pending",
+  detected_at: "2026-10-18T10:00:00.000Z",
+  dominant_type: "life_insurance",
+  documents: [
+    { document_id: "doc-1", file_name: "a.pdf", product_type: "life_insurance", matches_dominant: true },
+    { document_id: "doc-2", file_name: "b.pdf", product_type: "life_insurance", matches_dominant: true },
+    { document_id: "doc-3", file_name: "c.pdf", product_type: "travel_insurance", matches_dominant: false },
+  ],
+  excluded_document_ids: [],
+};
+
+describe("ProductTypeReviewService", () => {
+  it("drops excluded documents from the comparison and resumes it", async () => {
+    const backend = new StubProductTypeReviewBackend();
+    const service = new ProductTypeReviewService(backend);
+
+    const result = await service.excludeDocuments("cmp-1", ["doc-1", "doc-2", "doc-3"], mismatch, ["doc-3"]);
+
+    expect(result.documentIds).toEqual(["doc-1", "doc-2"]);
+    expect(backend.updates[0].patch.document_ids).toEqual(["doc-1", "doc-2"]);
+    expect(backend.updates[0].patch.product_type_mismatch).toMatchObject({
+      status: "resolved",
+      excluded_document_ids: ["doc-3"],
+    });
+    expect(backend.invocations).toEqual([
+      { name: "comparison-orchestrator", payload: { comparison_id: "cmp-1", rerun_from: "comparing_offers" } },
+    ]);
+  });
+
+  it("keeps at least two offers in the comparison", async () => {
+    const backend = new StubProductTypeReviewBackend();
+    const service = new ProductTypeReviewService(backend);
+
+    await expect(
+      service.excludeDocuments("cmp-1", ["doc-1", "doc-3"], mismatch, ["doc-3"]),
+    ).rejects.toBeInstanceOf(ProductTypeReviewServiceError);
+    expect(backend.updates).toHaveLength(0);
+  });
+
+  it("records the decision to compare mixed product types", async () => {
+    const backend = new StubProductTypeReviewBackend();
+    const service = new ProductTypeReviewService(backend);
+
+    const acknowledged = await service.compareAnyway("cmp-1", mismatch);
+
+    expect(acknowledged.status).toBe("acknowledged");
+    expect(backend.updates[0].patch).toEqual({ product_type_mismatch: acknowledged });
+    expect(backend.invocations).toHaveLength(1);
+  });
+});
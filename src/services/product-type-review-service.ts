@@ -0,0 +1,120 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { ProductTypeMismatch } from "@/lib/product-type-mismatch";
+import { COMPARISON_ORCHESTRATOR_FUNCTION } from "@/services/comparison-service";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type ComparisonUpdate = Database["public"]["Tables"]["comparisons"]["Update"];
+
+export class ProductTypeReviewServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "ProductTypeReviewServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface ProductTypeReviewBackend {
+  updateComparison(comparisonId: string, patch: ComparisonUpdate): Promise<void>;
+  invokeFunction(name: string, payload: Record<string, unknown>): Promise<void>;
+}
+
+export function createSupabaseProductTypeReviewBackend(
+  client: SupabaseClient<Database>
+): ProductTypeReviewBackend {
+  return {
+    async updateComparison(comparisonId, patch) {
+      const { error } = await client.from("comparisons").update(patch).eq("id", comparisonId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to update the comparison");
+      }
+    },
+
+    async invokeFunction(name, payload) {
+      const { error } = await client.functions.invoke(name, {
+        body: payload,
+      });
+
+      if (error) {
+        throw new Error(error.message ?? `Function ${name} failed`);
+      }
+    },
+  };
+}
+
+const MIN_COMPARED_DOCUMENTS = 2;
+
+/**
+ * Resolves a comparison held in `needs_review` because its offers cover different product
+ * types. Both decisions are recorded on the mismatch and resume the job from comparing offers.
+ */
+export class ProductTypeReviewService {
+  constructor(private readonly backend: ProductTypeReviewBackend) {}
+
+  async excludeDocuments(
+    comparisonId: string,
+    documentIds: string[],
+    mismatch: ProductTypeMismatch,
+    excludedIds: string[],
+  ): Promise<{ documentIds: string[]; mismatch: ProductTypeMismatch }> {
+    const remaining = documentIds.filter((id) => !excludedIds.includes(id));
+    if (excludedIds.length === 0) {
+      throw new ProductTypeReviewServiceError("errors.selectDocumentsToExclude");
+    }
+    if (remaining.length < MIN_COMPARED_DOCUMENTS) {
+      throw new ProductTypeReviewServiceError("errors.minTwoOffers");
+    }
+
+    const resolved: ProductTypeMismatch = {
+      ...mismatch,
+      status: "resolved",
+      excluded_document_ids: Array.from(new Set([...mismatch.excluded_document_ids, ...excludedIds])),
+    };
+    await this.update(comparisonId, {
+      document_ids: remaining,
+      product_type_mismatch: resolved as Json,
+    });
+    await this.rerun(comparisonId);
+
+    return { documentIds: remaining, mismatch: resolved };
+  }
+
+  async compareAnyway(comparisonId: string, mismatch: ProductTypeMismatch): Promise<ProductTypeMismatch> {
+    const acknowledged: ProductTypeMismatch = { ...mismatch, status: "acknowledged" };
+    await this.update(comparisonId, { product_type_mismatch: acknowledged as Json });
+    await this.rerun(comparisonId);
+
+    return acknowledged;
+  }
+
+  private async update(comparisonId: string, patch: ComparisonUpdate) {
+    try {
+      await this.backend.updateComparison(comparisonId, patch);
+    } catch (error) {
+      throw new ProductTypeReviewServiceError("errors.decisionSaveFailed", error);
+    }
+  }
+
+  private async rerun(comparisonId: string) {
+    try {
+      await this.backend.invokeFunction(COMPARISON_ORCHESTRATOR_FUNCTION, {
+        comparison_id: comparisonId,
+        rerun_from: "comparing_offers",
+      });
+    } catch (error) {
+      throw new ProductTypeReviewServiceError(
+        "errors.decisionSavedResumeFailed",
+        error,
+      );
+    }
+  }
+}
+
+export const productTypeReviewService = new ProductTypeReviewService(
+  createSupabaseProductTypeReviewBackend(supabase)
+);
@@ -0,0 +1,97 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  DEFAULT_REPORT_LINK_EXPIRATION_SECONDS,
+  REPORTS_BUCKET,
+  ReportService,
+  ReportServiceError,
+  buildReportStorageKey,
+  type ReportBackend,
+} from "./report-service";
+
+class StubReportBackend implements ReportBackend {
+  uploads: Array<{ bucket: string; objectKey: string; size: number; type: string }> = [];
+  reportUrls: Array<{ comparisonId: string; reportPath: string }> = [];
+  signedUrlRequests: Array<{ bucket: string; objectKey: string; expiresIn: number }> = [];
+
+  constructor(private readonly failAt?: "upload" | "update" | "sign") {}
+
+  async uploadReport({ bucket, objectKey, content }) {
+    if (this.failAt === "upload") {
+      throw new Error("storage down");
+    }
+    this.uploads.push({ bucket, objectKey, size: content.size, type: content.type });
+    return { path: objectKey };
+  }
+
+  async updateReportUrl(comparisonId: string, reportPath: string) {
+    if (this.failAt === "update") {
+      throw new Error("update failed");
+    }
+    this.reportUrls.push({ comparisonId, reportPath });
+  }
+
+  async createSignedUrl(params: { bucket: string; objectKey: string; expiresIn: number }) {
+    if (this.failAt === "sign") {
+      throw new Error("sign failed");
+    }
+    this.signedUrlRequests.push(params);
+    return `https://example.com/${params.bucket}/${params.objectKey}`;
+  }
+}
+
+const content = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+
+describe("ReportService", () => {
+  it("uploads the report to the user folder and links it from the comparison", async () => {
+    const backend = new StubReportBackend();
+    const service = new ReportService(backend);
+
+    const result = await service.exportComparisonReport({
+      userId: "user-1",
+      comparisonId: "cmp-1",
+      content,
+    });
+
+    expect(buildReportStorageKey("user-1", "cmp-1")).toBe("user-1/reports/cmp-1.pdf");
+    expect(backend.uploads).toEqual([
+      { bucket: REPORTS_BUCKET, objectKey: "user-1/reports/cmp-1.pdf", size: 4, type: "application/pdf" },
+    ]);
+    expect(backend.reportUrls).toEqual([{ comparisonId: "cmp-1", reportPath: "user-1/reports/cmp-1.pdf" }]);
+    expect(backend.signedUrlRequests[0].expiresIn).toBe(DEFAULT_REPORT_LINK_EXPIRATION_SECONDS);
+    expect(result).toEqual({
+      reportPath: "user-1/reports/cmp-1.pdf",
+      signedUrl: `https://example.com/${REPORTS_BUCKET}/user-1/reports/cmp-1.pdf`,
+    });
+  });
+
+  it("does not touch the comparison when the upload fails", async () => {
+    const backend = new StubReportBackend("upload");
+    const service = new ReportService(backend);
+
+    const promise = service.exportComparisonReport({ userId: "user-1", comparisonId: "cmp-1", content });
+
+    await expect(promise).rejects.toBeInstanceOf(ReportServiceError);
+    await expect(promise).rejects.toMatchObject({ message: "errors.reportSaveFailed" });
+    expect(backend.reportUrls).toHaveLength(0);
+  });
+
+  it("wraps backend failures in ReportServiceError", async () => {
+    const updateFailure = new ReportService(new StubReportBackend("update")).exportComparisonReport({
+      userId: "user-1",
+      comparisonId: "cmp-1",
+      content,
+    });
+    await expect(updateFailure).rejects.toMatchObject({
+      name: "ReportServiceError",
+      message: "errors.reportAttachFailed",
+    });
+
+    const signFailure = new ReportService(new StubReportBackend("sign")).getReportUrl("user-1/reports/cmp-1.pdf");
+    await expect(signFailure).rejects.toMatchObject({
+      name: "ReportServiceError",
+      message: "errors.reportUrlFailed",
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const REPORTS_BUCKET = "insurance-documents";
+export const DEFAULT_REPORT_LINK_EXPIRATION_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const REPORT_MIME_TYPE = "application/pdf";
+
+export class ReportServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "ReportServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface ReportBackend {
+  uploadReport(params: { bucket: string; objectKey: string; content: Blob }): Promise<{ path: string }>;
+  updateReportUrl(comparisonId: string, reportPath: string): Promise<void>;
+  createSignedUrl(params: { bucket: string; objectKey: string; expiresIn: number }): Promise<string>;
+}
+
+export function createSupabaseReportBackend(client: SupabaseClient<Database>): ReportBackend {
+  return {
+    async uploadReport({ bucket, objectKey, content }) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .upload(objectKey, content, { upsert: true, contentType: REPORT_MIME_TYPE });
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Failed to upload the report");
+      }
+
+      return { path: data.path };
+    },
+
+    async updateReportUrl(comparisonId, reportPath) {
+      const { error } = await client
+        .from("comparisons")
+        .update({ report_url: reportPath })
+        .eq("id", comparisonId);
+
+      if (error) {
+        throw new Error(error.message ?? "Failed to update the comparison");
+      }
+    },
+
+    async createSignedUrl({ bucket, objectKey, expiresIn }) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .createSignedUrl(objectKey, expiresIn);
+
+      if (error || !data?.signedUrl) {
+        throw new Error(error?.message ?? "Failed to sign the report URL");
+      }
+
+      return data.signedUrl;
+    },
+  };
+}
+
+/**
+ * Reports live next to the user's documents (the bucket policies scope access by the first
+ * folder segment), one file per comparison so a re-export replaces the previous version.
+ */
+export const buildReportStorageKey = (userId: string, comparisonId: string): string =>
+  `${userId}/reports/${comparisonId}.pdf`;
+
+type ExportReportParams = {
+  userId: string;
+  comparisonId: string;
+  content: Uint8Array;
+};
+
+export class ReportService {
+  constructor(private readonly backend: ReportBackend) {}
+
+  /**
+   * Stores the rendered report and links it from `comparisons.report_url`.
+   * The column keeps the storage key (not a signed URL) because signed URLs expire.
+   */
+  async exportComparisonReport({
+    userId,
+    comparisonId,
+    content,
+  }: ExportReportParams): Promise<{ reportPath: string; signedUrl: string }> {
+    const objectKey = buildReportStorageKey(userId, comparisonId);
+
+    let reportPath: string;
+    try {
+      const uploaded = await this.backend.uploadReport({
+        bucket: REPORTS_BUCKET,
+        objectKey,
+        content: new Blob([content], { type: REPORT_MIME_TYPE }),
+      });
+      reportPath = uploaded.path;
+    } catch (error) {
+      throw new ReportServiceError("errors.reportSaveFailed", error);
+    }
+
+    try {
+      await this.backend.updateReportUrl(comparisonId, reportPath);
+    } catch (error) {
+      throw new ReportServiceError("errors.reportAttachFailed", error);
+    }
+
+    const signedUrl = await this.getReportUrl(reportPath);
+    return { reportPath, signedUrl };
+  }
+
+  async getReportUrl(
+    reportPath: string,
+    expiresIn: number = DEFAULT_REPORT_LINK_EXPIRATION_SECONDS,
+  ): Promise<string> {
+    try {
+      return await this.backend.createSignedUrl({
+        bucket: REPORTS_BUCKET,
+        objectKey: reportPath,
+        expiresIn,
+      });
+    } catch (error) {
+      throw new ReportServiceError("errors.reportUrlFailed", error);
+    }
+  }
+}
+
+export const reportService = new ReportService(createSupabaseReportBackend(supabase));
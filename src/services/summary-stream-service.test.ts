@@ -0,0 +1,95 @@
+// @ts-nocheck
+import "@/test/setup";
+import { describe, expect, it } from "bun:test";
+import {
+  SummaryStreamService,
+  SummaryStreamServiceError,
+  type SummaryStreamBackend,
+} from "./summary-stream-service";
+
+const sse = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+class StubSummaryStreamBackend implements SummaryStreamBackend {
+  chunks: string[] = [];
+  invocations: Array<{ name: string; payload: Record<string, unknown> }> = [];
+  failOpen = false;
+
+  async openStream(name: string, payload: Record<string, unknown>) {
+    if (this.failOpen) {
+      throw new Error("network");
+    }
+    this.invocations.push({ name, payload });
+    const encoder = new TextEncoder();
+    const chunks = this.chunks;
+    return new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+  }
+}
+
+describe("SummaryStreamService", () => {
+  it("reports the summary while it is written and resolves with the stored one", async () => {
+    const backend = new StubSummaryStreamBackend();
+    const stream = [
+      sse("delta", { text: '```json\n{"reasons": ["Najniższa skł' }),
+      sse("delta", { text: 'adka"], "risks": ["Karencja 6 mies' }),
+      sse("delta", { text: 'ięcy"]}\n```' }),
+      sse("done", { summary: { reasons: ["Najniższa składka"], risks: ["Karencja 6 miesięcy"], parse_error: false } }),
+    ].join("");
+    // Split mid-event to exercise the incremental parser.
+    backend.chunks = [stream.slice(0, 37), stream.slice(37)];
+    const service = new SummaryStreamService(backend);
+    const partials = [];
+
+    const summary = await service.streamSummary("cmp-1", { onPartial: (partial) => partials.push(partial) });
+
+    expect(backend.invocations).toEqual([
+      { name: "generate-summary", payload: { comparison_id: "cmp-1", stream: true, style: "client", language: "pl" } },
+    ]);
+    expect(partials.map((partial) => partial.reasons)).toEqual([
+      ["Najniższa skł"],
+      ["Najniższa składka"],
+      ["Najniższa składka"],
+    ]);
+    expect(partials[1].risks).toEqual(["Karencja 6 mies"]);
+    expect(summary).toMatchObject({ reasons: ["Najniższa składka"], risks: ["Karencja 6 miesięcy"] });
+  });
+
+  it("asks for the selected summary style and language", async () => {
+    const backend = new StubSummaryStreamBackend();
+    backend.chunks = [sse("done", { summary: { fallback_text: "Polecam PZU." } })];
+    const service = new SummaryStreamService(backend);
+
+    await service.streamSummary("cmp-1", { style: "sms", language: "uk" });
+
+    expect(backend.invocations[0].payload.style).toBe("sms");
+    expect(backend.invocations[0].payload.language).toBe("uk");
+  });
+
+  it("surfaces errors sent by the function", async () => {
+    const backend = new StubSummaryStreamBackend();
+    backend.chunks = [sse("error", { error: "AI API error: 402" })];
+    const service = new SummaryStreamService(backend);
+
+    await expect(service.streamSummary("cmp-1")).rejects.toThrow("AI API error: 402");
+  });
+
+  it("fails when the stream ends without a result", async () => {
+    const backend = new StubSummaryStreamBackend();
+    backend.chunks = [sse("delta", { text: "{" })];
+    const service = new SummaryStreamService(backend);
+
+    await expect(service.streamSummary("cmp-1")).rejects.toBeInstanceOf(SummaryStreamServiceError);
+  });
+
+  it("wraps failures to open the stream", async () => {
+    const backend = new StubSummaryStreamBackend();
+    backend.failOpen = true;
+    const service = new SummaryStreamService(backend);
+
+    await expect(service.streamSummary("cmp-1")).rejects.toBeInstanceOf(SummaryStreamServiceError);
+  });
+});
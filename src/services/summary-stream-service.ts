@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { parsePartialJson } from "@/lib/partial-json";
+import { DEFAULT_LANGUAGE, type Language } from "@/lib/i18n";
+import { createSseParser } from "@/lib/sse";
+import { DEFAULT_SUMMARY_STYLE, type SummaryStyle } from "@/lib/summary-styles";
+import { toComparisonAnalysis, type ComparisonSummary } from "@/types/comparison";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const GENERATE_SUMMARY_FUNCTION = "generate-summary";
+
+export class SummaryStreamServiceError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "SummaryStreamServiceError";
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+export interface SummaryStreamBackend {
+  openStream(
+    name: string,
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>>;
+}
+
+export function createSupabaseSummaryStreamBackend(client: SupabaseClient<Database>): SummaryStreamBackend {
+  return {
+    async openStream(name, payload, signal) {
+      // functions-js hands back the raw Response for text/event-stream bodies.
+      const { data, error } = await client.functions.invoke(name, {
+        body: payload,
+        signal,
+      });
+
+      if (error) {
+        throw new Error(error.message ?? `Function ${name} failed`);
+      }
+
+      if (!(data instanceof Response) || !data.body) {
+        throw new Error(`Function ${name} did not return a stream`);
+      }
+
+      return data.body;
+    },
+  };
+}
+
+export interface StreamSummaryOptions {
+  style?: SummaryStyle;
+  language?: Language;
+  /** Called with the summary as far as the model has written it. */
+  onPartial?: (summary: ComparisonSummary) => void;
+  signal?: AbortSignal;
+}
+
+const toSummary = (value: unknown): ComparisonSummary | null =>
+  toComparisonAnalysis(null, value)?.summary ?? null;
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === "AbortError";
+
+/**
+ * Generates the AI summary of a comparison over server-sent events. The function persists the
+ * final summary itself; the stream only lets the page show it while it is being written.
+ */
+export class SummaryStreamService {
+  constructor(private readonly backend: SummaryStreamBackend) {}
+
+  /** Resolves with the summary stored on the comparison once the stream completes. */
+  async streamSummary(comparisonId: string, options: StreamSummaryOptions = {}): Promise<ComparisonSummary> {
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await this.backend.openStream(
+        GENERATE_SUMMARY_FUNCTION,
+        {
+          comparison_id: comparisonId,
+          stream: true,
+          style: options.style ?? DEFAULT_SUMMARY_STYLE,
+          language: options.language ?? DEFAULT_LANGUAGE,
+        },
+        options.signal
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new SummaryStreamServiceError("errors.summaryStartFailed", error);
+    }
+
+    const parser = createSseParser();
+    const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+    let text = "";
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        const events = done ? parser.flush() : parser.push(value);
+
+        for (const event of events) {
+          const payload = JSON.parse(event.data) as Record<string, unknown>;
+
+          if (event.event === "delta" && typeof payload.text === "string") {
+            text += payload.text;
+            const partial = toSummary(parsePartialJson(text));
+            if (partial) {
+              options.onPartial?.(partial);
+            }
+          } else if (event.event === "done") {
+            return toSummary(payload.summary) ?? {};
+          } else if (event.event === "error") {
+            throw new SummaryStreamServiceError(
+              typeof payload.error === "string" ? payload.error : "errors.summaryFailed"
+            );
+          }
+        }
+
+        if (done) {
+          break;
+        }
+      }
+    } catch (error) {
+      if (error instanceof SummaryStreamServiceError || isAbortError(error)) {
+        throw error;
+      }
+      throw new SummaryStreamServiceError("errors.summaryInterrupted", error);
+    } finally {
+      void reader.cancel().catch(() => undefined);
+    }
+
+    throw new SummaryStreamServiceError("errors.summaryStreamEnded");
+  }
+}
+
+export const summaryStreamService = new SummaryStreamService(createSupabaseSummaryStreamBackend(supabase));
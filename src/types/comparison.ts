@@ -92,6 +92,62 @@ const parseSourceReferences = (value: unknown): SourceReference[] | null => {
   return single ? [single] : null;
 };
 
+/**
+ * Reads citations stored by the extraction builder in `unified.field_sources`, keyed by
+ * field paths such as `base_contracts[0].sum`. References are returned in the order of `paths`.
+ */
+export const getFieldSourceReferences = (fieldSources: unknown, paths: string[]): SourceReference[] | null => {
+  if (!fieldSources || typeof fieldSources !== "object" || Array.isArray(fieldSources)) {
+    return null;
+  }
+
+  const record = fieldSources as Record<string, unknown>;
+  const references = paths
+    .map((path) => parseSingleSourceReference(record[path]))
+    .filter((entry): entry is SourceReference => entry !== null);
+
+  return references.length > 0 ? references : null;
+};
+
+export type FieldConfidenceLevel = "high" | "medium" | "low";
+
+export interface FieldConfidence {
+  level: FieldConfidenceLevel;
+  score: number;
+}
+
+const parseFieldConfidence = (value: unknown): FieldConfidence | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const score = toNumber(record.score);
+  const level = record.level;
+  if (score === null || (level !== "high" && level !== "medium" && level !== "low")) {
+    return null;
+  }
+  return { level, score };
+};
+
+/**
+ * Reads per-field confidence stored by the extraction builder in `unified.field_confidence`,
+ * keyed like `field_sources`. Returns the weakest entry among `paths`, so a cell showing
+ * several fields is only as trustworthy as its least certain value.
+ */
+export const getFieldConfidence = (fieldConfidence: unknown, paths: string[]): FieldConfidence | null => {
+  if (!fieldConfidence || typeof fieldConfidence !== "object" || Array.isArray(fieldConfidence)) {
+    return null;
+  }
+
+  const record = fieldConfidence as Record<string, unknown>;
+  return paths
+    .map((path) => parseFieldConfidence(record[path]))
+    .reduce<FieldConfidence | null>(
+      (weakest, entry) => (entry && (!weakest || entry.score < weakest.score) ? entry : weakest),
+      null,
+    );
+};
+
 export type ComparisonHighlight = "best" | "warning" | "neutral";
 
 export interface SourceReferenceCoordinates {
@@ -108,10 +164,20 @@ export interface SourceReference {
   coordinates?: SourceReferenceCoordinates;
 }
 
+/**
+ * A finding of the rule-based comparison (supabase/functions/compare-offers/engine.ts): a code with
+ * parameters, translated by src/lib/analysis-messages.ts.
+ */
+export interface ComparisonAnalysisMessage {
+  code: string;
+  params: Record<string, unknown>;
+}
+
 export interface ComparisonAnalysisOffer {
   offer_id?: string | number | null;
   calculation_id?: string | number | null;
   highlight?: ComparisonHighlight | string | null;
+  messages?: ComparisonAnalysisMessage[] | null;
   note?: string | null;
   insurer?: string | null;
   value?: JsonValue;
@@ -151,6 +217,8 @@ export interface ComparisonAnalysis extends Record<string, unknown> {
   coverage_comparison?: ComparisonAnalysisSection | null;
   assistance_comparison?: ComparisonAnalysisSection | null;
   exclusions_diff?: ComparisonAnalysisSection | null;
+  key_highlight_messages?: ComparisonAnalysisMessage[] | null;
+  recommendation_messages?: ComparisonAnalysisMessage[] | null;
   key_highlights?: string[] | null;
   recommendations?: string[] | null;
   summary?: ComparisonSummary | null;
@@ -158,6 +226,24 @@ export interface ComparisonAnalysis extends Record<string, unknown> {
   parse_error?: boolean | null;
 }
 
+export const parseAnalysisMessages = (value: unknown): ComparisonAnalysisMessage[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const messages = value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || typeof (entry as Record<string, unknown>).code !== "string") {
+      return [];
+    }
+    const record = entry as Record<string, unknown>;
+    const params =
+      record.params && typeof record.params === "object" && !Array.isArray(record.params)
+        ? (record.params as Record<string, unknown>)
+        : {};
+    return [{ code: record.code as string, params }];
+  });
+  return messages.length > 0 ? messages : null;
+};
+
 export function toComparisonAnalysis(
   input: Json | null,
   summaryInput?: unknown,
@@ -208,6 +294,7 @@ export function toComparisonAnalysis(
             calculation_id: offerRecord.calculation_id as ComparisonAnalysisOffer["calculation_id"],
             highlight: typeof highlight === "string" ? highlight : null,
             insurer: typeof offerRecord.insurer === "string" ? offerRecord.insurer : null,
+            messages: parseAnalysisMessages(offerRecord.messages),
             note: typeof offerRecord.note === "string" ? offerRecord.note : null,
             value: offerRecord.value as JsonValue,
             sources,
@@ -233,6 +320,16 @@ export function toComparisonAnalysis(
       analysis.assistance_comparison = assistanceSection;
     }
 
+    const keyHighlightMessages = parseAnalysisMessages(asRecord.key_highlight_messages);
+    if (keyHighlightMessages) {
+      analysis.key_highlight_messages = keyHighlightMessages;
+    }
+
+    const recommendationMessages = parseAnalysisMessages(asRecord.recommendation_messages);
+    if (recommendationMessages) {
+      analysis.recommendation_messages = recommendationMessages;
+    }
+
     const keyHighlights = parseStringArray(asRecord.key_highlights);
     if (keyHighlights) {
       analysis.key_highlights = keyHighlights;
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "bun:test";
+
+import { chatCompletion, completeJson, computeBackoffMs, LlmGatewayError, streamChatCompletion } from "./client.ts";
+import type { LlmProviderConfig } from "./providers.ts";
+
+const config: LlmProviderConfig = {
+  provider: "lovable",
+  baseUrl: "https://ai.gateway.lovable.dev/v1",
+  apiKey: "key",
+  model: "google/gemini-2.5-flash",
+};
+
+const completion = (content: string, usage = { prompt_tokens: 1000, completion_tokens: 200 }) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }], usage }), { status: 200 });
+
+const createFetch = (responses: Array<Response | Error>) => {
+  const requests: Array<{ url: string; body: any }> = [];
+  const fetchImpl = async (url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(String(init.body)) });
+    const next = responses.shift();
+    if (!next) throw new Error("unexpected request");
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return { fetch: fetchImpl as unknown as typeof fetch, requests };
+};
+
+const numberSchema = {
+  safeParse(value: any) {
+    return typeof value?.total === "number"
+      ? { success: true as const, data: value as { total: number } }
+      : { success: false as const, error: { message: "total: Expected number" } };
+  },
+};
+
+describe("computeBackoffMs", () => {
+  it("doubles the delay per attempt up to the cap", () => {
+    expect(computeBackoffMs(0, null, { baseDelayMs: 500 })).toBe(500);
+    expect(computeBackoffMs(2, null, { baseDelayMs: 500 })).toBe(2000);
+    expect(computeBackoffMs(10, null, { baseDelayMs: 500, maxDelayMs: 8000 })).toBe(8000);
+  });
+
+  it("prefers Retry-After in seconds or as a date", () => {
+    expect(computeBackoffMs(0, "3")).toBe(3000);
+    expect(computeBackoffMs(0, "Sun, 18 Oct 2026 12:00:05 GMT", { now: Date.parse("2026-10-18T12:00:00Z") })).toBe(5000);
+  });
+});
+
+describe("chatCompletion", () => {
+  it("retries 429 and 5xx responses and reports usage", async () => {
+    const { fetch, requests } = createFetch([
+      new Response("rate limited", { status: 429, headers: { "Retry-After": "1" } }),
+      new Response("bad gateway", { status: 502 }),
+      completion("hello"),
+    ]);
+    const delays: number[] = [];
+
+    const result = await chatCompletion(
+      config,
+      { messages: [{ role: "user", content: "hi" }] },
+      { fetch, sleep: async (ms) => void delays.push(ms), baseDelayMs: 100 },
+    );
+
+    expect(result.content).toBe("hello");
+    expect(result.attempts).toBe(3);
+    expect(delays).toEqual([1000, 200]);
+    expect(requests[0].url).toBe("https://ai.gateway.lovable.dev/v1/chat/completions");
+    expect(requests[0].body.model).toBe("google/gemini-2.5-flash");
+    expect(result.usage).toEqual({ prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200, cost_usd: 0.0008 });
+  });
+
+  it("does not retry client errors", async () => {
+    const { fetch, requests } = createFetch([new Response("payment required", { status: 402 })]);
+
+    const error = await chatCompletion(config, { messages: [] }, { fetch, sleep: async () => {} }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LlmGatewayError);
+    expect(error.status).toBe(402);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { fetch, requests } = createFetch([new Error("reset"), new Response("down", { status: 503 })]);
+
+    const error = await chatCompletion(config, { messages: [] }, { fetch, sleep: async () => {}, maxRetries: 1 }).catch((e) => e);
+
+    expect(error.message).toBe("AI API error: 503 - down");
+    expect(requests).toHaveLength(2);
+  });
+});
+
+const streamOf = (chunks: string[]) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    { status: 200, headers: { "Content-Type": "text/event-stream" } },
+  );
+
+describe("streamChatCompletion", () => {
+  it("reports text deltas as they arrive and the usage sent at the end", async () => {
+    const { fetch, requests } = createFetch([
+      new Response("busy", { status: 503 }),
+      streamOf([
+        'data: {"choices":[{"delta":{"content":"{\\"reasons\\": ["}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"\\"Tanio\\"]}"}}]}\n\ndata: {"choices":[],',
+        '"usage":{"prompt_tokens":1000,"completion_tokens":200}}\n\ndata: [DONE]\n\n',
+      ]),
+    ]);
+    const deltas: string[] = [];
+
+    const result = await streamChatCompletion(
+      config,
+      { messages: [{ role: "user", content: "hi" }] },
+      (text) => deltas.push(text),
+      { fetch, sleep: async () => {} },
+    );
+
+    expect(deltas).toEqual(['{"reasons": [', '"Tanio"]}']);
+    expect(result.content).toBe('{"reasons": ["Tanio"]}');
+    expect(result.usage.total_tokens).toBe(1200);
+    expect(requests[1].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+});
+
+describe("completeJson", () => {
+  it("re-prompts with the validation error until the answer fits the schema", async () => {
+    const { fetch, requests } = createFetch([
+      completion("Oto wynik: {total"),
+      completion('```json\n{"total": "1200"}\n```'),
+      completion('{"total": 1200}'),
+    ]);
+
+    const result = await completeJson(
+      config,
+      { messages: [{ role: "user", content: "policz" }], schema: numberSchema },
+      { fetch, sleep: async () => {} },
+    );
+
+    expect(result).toMatchObject({ ok: true, data: { total: 1200 }, repairs: 2 });
+    expect(result.usage.total_tokens).toBe(3600);
+    const lastMessages = requests[2].body.messages;
+    expect(lastMessages).toHaveLength(5);
+    expect(lastMessages[3]).toEqual({ role: "assistant", content: '```json\n{"total": "1200"}\n```' });
+    expect(lastMessages[4].content).toContain("total: Expected number");
+  });
+
+  it("returns the last answer when repairs run out", async () => {
+    const { fetch } = createFetch([completion("nie wiem"), completion("nadal nie wiem")]);
+
+    const result = await completeJson(
+      config,
+      { messages: [], schema: numberSchema, maxRepairs: 1 },
+      { fetch, sleep: async () => {} },
+    );
+
+    expect(result).toMatchObject({ ok: false, content: "nadal nie wiem", repairs: 1 });
+  });
+});
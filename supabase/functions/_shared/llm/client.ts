@@ -0,0 +1,292 @@
+import { buildRepairPrompt, parseJsonContent, type JsonSchema } from "./json.ts";
+import type { LlmProvider, LlmProviderConfig } from "./providers.ts";
+import { createSseParser } from "./sse.ts";
+import { addLlmUsage, EMPTY_USAGE, toLlmUsage, type LlmUsage } from "./usage.ts";
+
+export type LlmContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentBlock[];
+};
+
+export type ChatCompletionRequest = {
+  messages: LlmMessage[];
+  tools?: unknown[];
+  tool_choice?: unknown;
+};
+
+export type ChatCompletionOptions = {
+  /** Extra attempts after a 429, a 5xx or a network failure. */
+  maxRetries?: number;
+  /** Per attempt. */
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type ChatCompletionResult = {
+  provider: LlmProvider;
+  model: string;
+  content: string;
+  message: any;
+  raw: any;
+  usage: LlmUsage;
+  attempts: number;
+};
+
+export type JsonCompletionResult<T> =
+  | { ok: true; data: T; content: string; model: string; usage: LlmUsage; repairs: number }
+  | { ok: false; error: string; content: string; model: string; usage: LlmUsage; repairs: number };
+
+export class LlmGatewayError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = "LlmGatewayError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/** Honours Retry-After (seconds or HTTP date), otherwise doubles the delay on every attempt. */
+export function computeBackoffMs(
+  attempt: number,
+  retryAfter: string | null,
+  options: { baseDelayMs?: number; maxDelayMs?: number; now?: number } = {},
+): number {
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return Math.min(seconds * 1000, maxDelayMs);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(date - (options.now ?? Date.now()), 0), maxDelayMs);
+    }
+  }
+
+  return Math.min((options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt, maxDelayMs);
+}
+
+/**
+ * Posts the request, retrying 429, 5xx and network failures. The returned response is ok; the
+ * caller reads its body and must call `done` to clear the timeout.
+ */
+async function sendWithRetry(
+  config: LlmProviderConfig,
+  body: Record<string, unknown>,
+  options: ChatCompletionOptions,
+): Promise<{ response: Response; attempts: number; done: () => void }> {
+  const fetchImpl = options.fetch ?? fetch;
+  const sleep = options.sleep ?? defaultSleep;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const done = () => clearTimeout(timeoutId);
+    let response: Response;
+
+    try {
+      response = await fetchImpl(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        signal: controller.signal,
+        body: JSON.stringify({ model: config.model, ...body }),
+      });
+    } catch (error) {
+      done();
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new LlmGatewayError("AI processing timeout - file may be too large or complex");
+      }
+      if (attempt < maxRetries) {
+        console.warn(`LLM request failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying`, {
+          provider: config.provider,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(computeBackoffMs(attempt, null, options));
+        continue;
+      }
+      throw new LlmGatewayError(`AI API request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (response.ok) {
+      return { response, attempts: attempt + 1, done };
+    }
+
+    const errorText = await response.text();
+    done();
+
+    if (isRetryableStatus(response.status) && attempt < maxRetries) {
+      const delay = computeBackoffMs(attempt, response.headers.get("Retry-After"), options);
+      console.warn(`LLM error ${response.status} (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    throw new LlmGatewayError(`AI API error: ${response.status} - ${errorText}`, response.status);
+  }
+}
+
+const logUsage = (config: LlmProviderConfig, usage: LlmUsage) =>
+  console.log("LLM usage", { provider: config.provider, model: config.model, ...usage });
+
+/** OpenAI-compatible chat completion with retry/backoff on 429, 5xx and network errors. */
+export async function chatCompletion(
+  config: LlmProviderConfig,
+  request: ChatCompletionRequest,
+  options: ChatCompletionOptions = {},
+): Promise<ChatCompletionResult> {
+  const { response, attempts, done } = await sendWithRetry(config, request, options);
+
+  let raw: any;
+  try {
+    raw = await response.json();
+  } finally {
+    done();
+  }
+
+  const message = raw?.choices?.[0]?.message ?? null;
+  const usage = toLlmUsage(config.model, raw?.usage);
+  logUsage(config, usage);
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    content: typeof message?.content === "string" ? message.content : "",
+    message,
+    raw,
+    usage,
+    attempts,
+  };
+}
+
+/**
+ * Streams the completion, calling `onDelta` with every text fragment as it arrives. Retries only
+ * happen before the first byte; the resolved result holds the whole text like chatCompletion.
+ */
+export async function streamChatCompletion(
+  config: LlmProviderConfig,
+  request: ChatCompletionRequest,
+  onDelta: (text: string) => void,
+  options: ChatCompletionOptions = {},
+): Promise<ChatCompletionResult> {
+  const { response, attempts, done } = await sendWithRetry(
+    config,
+    { ...request, stream: true, stream_options: { include_usage: true } },
+    options,
+  );
+
+  let content = "";
+  let rawUsage: unknown = null;
+
+  try {
+    if (!response.body) {
+      throw new LlmGatewayError("AI API returned an empty stream");
+    }
+
+    const parser = createSseParser();
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+    for (;;) {
+      const { value, done: finished } = await reader.read();
+      const events = finished ? parser.flush() : parser.push(value);
+
+      for (const event of events) {
+        if (event.data === "[DONE]") {
+          continue;
+        }
+        const chunk = JSON.parse(event.data);
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === "string" && delta.length > 0) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk?.usage) {
+          rawUsage = chunk.usage;
+        }
+      }
+
+      if (finished) {
+        break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new LlmGatewayError("AI processing timeout - file may be too large or complex");
+    }
+    throw error;
+  } finally {
+    done();
+  }
+
+  const usage = toLlmUsage(config.model, rawUsage);
+  logUsage(config, usage);
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    content,
+    message: { role: "assistant", content },
+    raw: null,
+    usage,
+    attempts,
+  };
+}
+
+/**
+ * Asks for a JSON answer and validates it against `schema`. When the answer does not parse or
+ * validate, the model is shown its answer and the error and asked again, up to `maxRepairs` times.
+ * HTTP failures still throw; only the last unusable answer is returned with `ok: false`.
+ */
+export async function completeJson<T>(
+  config: LlmProviderConfig,
+  request: ChatCompletionRequest & { schema: JsonSchema<T>; maxRepairs?: number },
+  options: ChatCompletionOptions = {},
+): Promise<JsonCompletionResult<T>> {
+  const { schema, maxRepairs = 2, ...chatRequest } = request;
+  let messages = chatRequest.messages;
+  let usage = EMPTY_USAGE;
+
+  for (let repairs = 0; ; repairs++) {
+    const result = await chatCompletion(config, { ...chatRequest, messages }, options);
+    usage = addLlmUsage(usage, result.usage);
+    const parsed = parseJsonContent(result.content, schema);
+
+    if (parsed.ok) {
+      return { ok: true, data: parsed.data, content: result.content, model: result.model, usage, repairs };
+    }
+
+    if (repairs >= maxRepairs) {
+      console.error("LLM JSON answer still invalid after re-prompting", { repairs, error: parsed.error });
+      return { ok: false, error: parsed.error, content: result.content, model: result.model, usage, repairs };
+    }
+
+    console.warn(`LLM JSON answer invalid, re-prompting (${repairs + 1}/${maxRepairs})`, { error: parsed.error });
+    messages = [
+      ...messages,
+      { role: "assistant", content: result.content },
+      { role: "user", content: buildRepairPrompt(parsed.error) },
+    ];
+  }
+}
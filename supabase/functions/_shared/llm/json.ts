@@ -0,0 +1,42 @@
+/** Minimal structural match for zod schemas, so this module does not pin a zod import. */
+export type JsonSchema<T> = {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { message: string } };
+};
+
+export type JsonParseResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string };
+
+/** Strips a ```json fence (or any fence) around the model output. */
+export function extractJsonText(content: string): string {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/```json\n?([\s\S]*?)\n?```/) || trimmed.match(/```\n?([\s\S]*?)\n?```/);
+  return (fenced ? fenced[1] : trimmed).trim();
+}
+
+export function parseJsonContent<T>(content: string, schema: JsonSchema<T>): JsonParseResult<T> {
+  const jsonText = extractJsonText(content);
+  if (jsonText.length === 0) {
+    return { ok: false, error: "Odpowiedź jest pusta." };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { ok: false, error: `Niepoprawny JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const validation = schema.safeParse(parsed);
+  if (!validation.success) {
+    return { ok: false, error: `JSON nie pasuje do wymaganego formatu: ${validation.error.message}` };
+  }
+
+  return { ok: true, data: validation.data };
+}
+
+/** Follow-up message asking the model to fix its previous answer. */
+export const buildRepairPrompt = (error: string) =>
+  `Twoja poprzednia odpowiedź była niepoprawna. ${error}\nPopraw ją i zwróć TYLKO poprawny JSON w wymaganym formacie, bez dodatkowego tekstu.`;
@@ -0,0 +1,18 @@
+export {
+  chatCompletion,
+  completeJson,
+  computeBackoffMs,
+  isRetryableStatus,
+  LlmGatewayError,
+  streamChatCompletion,
+  type ChatCompletionOptions,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+  type JsonCompletionResult,
+  type LlmContentBlock,
+  type LlmMessage,
+} from "./client.ts";
+export { buildRepairPrompt, extractJsonText, parseJsonContent, type JsonSchema } from "./json.ts";
+export { createSseParser, type SseEvent } from "./sse.ts";
+export { resolveLlmProvider, type LlmProvider, type LlmProviderConfig } from "./providers.ts";
+export { addLlmUsage, EMPTY_USAGE, MODEL_PRICING, toLlmUsage, type LlmUsage } from "./usage.ts";
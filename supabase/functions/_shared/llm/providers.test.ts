@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+
+import { resolveLlmProvider } from "./providers.ts";
+import { addLlmUsage, toLlmUsage } from "./usage.ts";
+
+const envOf = (values: Record<string, string>) => (name: string) => values[name];
+
+describe("resolveLlmProvider", () => {
+  it("defaults to the Lovable gateway with the function's model", () => {
+    expect(resolveLlmProvider(envOf({ LOVABLE_API_KEY: "key" }), { defaultModel: "google/gemini-2.5-pro" })).toEqual({
+      provider: "lovable",
+      baseUrl: "https://ai.gateway.lovable.dev/v1",
+      apiKey: "key",
+      model: "google/gemini-2.5-pro",
+    });
+  });
+
+  it("reads OpenAI-compatible and local overrides", () => {
+    expect(
+      resolveLlmProvider(envOf({ LLM_PROVIDER: "openai", OPENAI_API_KEY: "sk", LLM_MODEL: "gpt-4o" }), {
+        defaultModel: "google/gemini-2.5-flash",
+      }),
+    ).toMatchObject({ provider: "openai", baseUrl: "https://api.openai.com/v1", model: "gpt-4o" });
+    expect(resolveLlmProvider(envOf({ LLM_PROVIDER: "local", LLM_BASE_URL: "http://llm:8000/v1/" }))).toEqual({
+      provider: "local",
+      baseUrl: "http://llm:8000/v1",
+      apiKey: null,
+      model: "llama3.1",
+    });
+  });
+
+  it("rejects unknown providers and missing keys", () => {
+    expect(() => resolveLlmProvider(envOf({ LLM_PROVIDER: "acme" }))).toThrow("Unsupported LLM_PROVIDER: acme");
+    expect(() => resolveLlmProvider(envOf({ LLM_PROVIDER: "openai" }))).toThrow("OPENAI_API_KEY is not configured");
+  });
+});
+
+describe("toLlmUsage", () => {
+  it("leaves the cost empty for unpriced models and keeps it empty when summed", () => {
+    const local = toLlmUsage("llama3.1", { prompt_tokens: 10, completion_tokens: 5 });
+    const priced = toLlmUsage("gpt-4o-mini", { prompt_tokens: 1_000_000, completion_tokens: 0 });
+
+    expect(local).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost_usd: null });
+    expect(priced.cost_usd).toBe(0.15);
+    expect(addLlmUsage(priced, local).cost_usd).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+export type LlmProvider = "lovable" | "openai" | "local";
+
+export type LlmProviderConfig = {
+  provider: LlmProvider;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+};
+
+type EnvReader = (name: string) => string | undefined;
+
+const PROVIDER_DEFAULTS: Record<LlmProvider, { baseUrl: string; apiKeyEnv: string; model: string }> = {
+  lovable: {
+    baseUrl: "https://ai.gateway.lovable.dev/v1",
+    apiKeyEnv: "LOVABLE_API_KEY",
+    model: "google/gemini-2.5-flash",
+  },
+  openai: {
+    baseUrl: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    model: "gpt-4o-mini",
+  },
+  // Any OpenAI-compatible server, e.g. Ollama or vLLM running next to the functions.
+  local: {
+    baseUrl: "http://localhost:11434/v1",
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    model: "llama3.1",
+  },
+};
+
+const isLlmProvider = (value: string): value is LlmProvider => value in PROVIDER_DEFAULTS;
+
+const readEnv = (env: EnvReader, name: string) => {
+  const value = env(name)?.trim();
+  return value ? value : null;
+};
+
+/**
+ * Picks the chat completion provider from LLM_PROVIDER (default: lovable). LLM_BASE_URL and
+ * LLM_MODEL override the provider defaults; `defaultModel` lets a function keep its own model
+ * when LLM_MODEL is not set.
+ */
+export function resolveLlmProvider(env: EnvReader, options: { defaultModel?: string } = {}): LlmProviderConfig {
+  const requested = readEnv(env, "LLM_PROVIDER")?.toLowerCase() ?? "lovable";
+  if (!isLlmProvider(requested)) {
+    throw new Error(`Unsupported LLM_PROVIDER: ${requested}`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[requested];
+  const apiKey = readEnv(env, defaults.apiKeyEnv);
+  if (!apiKey && requested !== "local") {
+    throw new Error(`${defaults.apiKeyEnv} is not configured`);
+  }
+
+  return {
+    provider: requested,
+    baseUrl: (readEnv(env, "LLM_BASE_URL") ?? defaults.baseUrl).replace(/\/+$/, ""),
+    apiKey,
+    model: readEnv(env, "LLM_MODEL") ?? (requested === "lovable" ? options.defaultModel : undefined) ?? defaults.model,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "bun:test";
+
+import { createSseParser } from "./sse.ts";
+
+describe("createSseParser", () => {
+  it("joins events split across chunks and line endings", () => {
+    const parser = createSseParser();
+
+    expect(parser.push("event: delta\r\nda")).toEqual([]);
+    expect(parser.push('ta: {"text":"a"}\r')).toEqual([]);
+    expect(parser.push("\n\r\n: keep-alive\n\ndata: one\ndata: two\n\n")).toEqual([
+      { event: "delta", data: '{"text":"a"}' },
+      { event: "message", data: "one\ntwo" },
+    ]);
+  });
+
+  it("flushes an unterminated final event", () => {
+    const parser = createSseParser();
+    parser.push("event: done\n");
+    parser.push("data: {}");
+
+    expect(parser.flush()).toEqual([{ event: "done", data: "{}" }]);
+  });
+});
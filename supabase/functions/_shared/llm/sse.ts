@@ -0,0 +1,64 @@
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Chunks may split lines anywhere; complete
+ * events are returned as soon as their terminating blank line arrives.
+ */
+export function createSseParser() {
+  let buffer = "";
+  let eventName = "message";
+  let dataLines: string[] = [];
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === "") {
+      if (dataLines.length > 0) {
+        events.push({ event: eventName, data: dataLines.join("\n") });
+      }
+      eventName = "message";
+      dataLines = [];
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  };
+
+  return {
+    push(chunk: string): SseEvent[] {
+      const events: SseEvent[] = [];
+      buffer += chunk;
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+        processLine(line, events);
+        newline = buffer.search(/\r?\n/);
+      }
+      return events;
+    },
+
+    /** Emits an event left open when the stream ends without a final blank line. */
+    flush(): SseEvent[] {
+      const events: SseEvent[] = [];
+      if (buffer.length > 0) {
+        processLine(buffer, events);
+        buffer = "";
+      }
+      processLine("", events);
+      return events;
+    },
+  };
+}
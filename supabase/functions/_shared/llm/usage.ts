@@ -0,0 +1,57 @@
+export type LlmUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Null when the model has no entry in MODEL_PRICING (e.g. local models). */
+  cost_usd: number | null;
+};
+
+/** USD per million prompt / completion tokens. */
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  "google/gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+  "google/gemini-2.5-flash-lite": { prompt: 0.1, completion: 0.4 },
+  "google/gemini-2.5-pro": { prompt: 1.25, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+};
+
+const toTokenCount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+
+const roundCost = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const EMPTY_USAGE: LlmUsage = {
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  cost_usd: 0,
+};
+
+/** Reads the OpenAI-style `usage` block of a chat completion and prices it for `model`. */
+export function toLlmUsage(model: string, rawUsage: unknown): LlmUsage {
+  const record = rawUsage && typeof rawUsage === "object" ? (rawUsage as Record<string, unknown>) : {};
+  const promptTokens = toTokenCount(record.prompt_tokens);
+  const completionTokens = toTokenCount(record.completion_tokens);
+  const totalTokens = toTokenCount(record.total_tokens) || promptTokens + completionTokens;
+  const pricing = MODEL_PRICING[model];
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: totalTokens,
+    cost_usd: pricing
+      ? roundCost((promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000)
+      : null,
+  };
+}
+
+/** Adds up usage across retries and re-prompts; the cost stays null once any part is unpriced. */
+export function addLlmUsage(left: LlmUsage, right: LlmUsage): LlmUsage {
+  return {
+    prompt_tokens: left.prompt_tokens + right.prompt_tokens,
+    completion_tokens: left.completion_tokens + right.completion_tokens,
+    total_tokens: left.total_tokens + right.total_tokens,
+    cost_usd:
+      left.cost_usd === null || right.cost_usd === null ? null : roundCost(left.cost_usd + right.cost_usd),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Conversion of offer amounts to the comparison's reporting currency with the broker's exchange
+ * rates. Rates are expressed NBP-style: the value of one unit of a currency in PLN, so PLN itself
+ * always has rate 1.
+ */
+
+export const BASE_CURRENCY = "PLN";
+
+export interface ExchangeRate {
+  currency: string;
+  rateToPln: number;
+  validOn?: string | null;
+}
+
+export interface CurrencyConversion {
+  amount: number;
+  /** Units of the reporting currency per one unit of the source currency. */
+  rate: number;
+}
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  /** Returns null when either currency has no rate in the table. */
+  convert(amount: number, fromCurrency: string): CurrencyConversion | null;
+}
+
+/** Three-letter code of `currency`; anything else is taken for PLN. */
+export const normalizeCurrencyCode = (currency?: string | null): string => {
+  if (typeof currency !== "string") {
+    return BASE_CURRENCY;
+  }
+  const cleaned = currency.trim().toUpperCase();
+  return cleaned.length === 3 ? cleaned : BASE_CURRENCY;
+};
+
+export const createCurrencyConverter = (
+  rates: ExchangeRate[],
+  reportingCurrency: string = BASE_CURRENCY,
+): CurrencyConverter => {
+  const ratesToPln = new Map<string, number>([[BASE_CURRENCY, 1]]);
+  rates.forEach((rate) => {
+    if (rate.currency !== BASE_CURRENCY && rate.rateToPln > 0) {
+      ratesToPln.set(rate.currency.toUpperCase(), rate.rateToPln);
+    }
+  });
+
+  return {
+    reportingCurrency,
+    convert(amount, fromCurrency) {
+      const from = fromCurrency.toUpperCase();
+      if (from === reportingCurrency) {
+        return { amount, rate: 1 };
+      }
+      const fromRate = ratesToPln.get(from);
+      const toRate = ratesToPln.get(reportingCurrency);
+      if (fromRate === undefined || toRate === undefined) {
+        return null;
+      }
+      const rate = fromRate / toRate;
+      return { amount: Math.round(amount * rate * 100) / 100, rate };
+    },
+  };
+};
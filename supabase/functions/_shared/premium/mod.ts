@@ -0,0 +1,19 @@
+export {
+  BASE_CURRENCY,
+  createCurrencyConverter,
+  normalizeCurrencyCode,
+  type CurrencyConversion,
+  type CurrencyConverter,
+  type ExchangeRate,
+} from "./currency.ts";
+export {
+  getNormalizedPremium,
+  getOfferCurrency,
+  getPaymentCycles,
+  getPremium,
+  type NormalizedPaymentCycle,
+  type NormalizedPremium,
+  type PaymentCycles,
+  type PremiumCycle,
+  type PremiumSource,
+} from "./normalize.ts";
@@ -0,0 +1,296 @@
+import { normalizeCurrencyCode, type CurrencyConverter } from "./currency.ts";
+
+/**
+ * Premium normalization shared by the result page (src/lib/comparison-utils.ts) and the
+ * comparison engine (compare-offers/engine.ts), so badges, metrics and the server ranking read
+ * the same payment cycle, policy period and currency from `extracted_data`.
+ */
+
+export type NormalizedPaymentCycle =
+  | "monthly"
+  | "annual"
+  | "quarterly"
+  | "semiannual"
+  | "single"
+  | "other";
+
+export type PremiumCycle = Exclude<NormalizedPaymentCycle, "other">;
+
+/** The parts of `documents.extracted_data` the normalization reads. */
+export interface PremiumSource {
+  premium?: {
+    total?: unknown;
+    currency?: string | null;
+    [key: string]: unknown;
+  } | null;
+  unified?: {
+    total_premium_after_discounts?: unknown;
+    payment_schedule?: {
+      normalized_cycles?: unknown[] | null;
+      raw_mentions?: unknown[] | null;
+    } | null;
+    duration?: {
+      start?: unknown;
+      end?: unknown;
+    } | null;
+    currency?: string | null;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface PaymentCycles {
+  normalizedCycles: NormalizedPaymentCycle[];
+  rawMentions: string[];
+}
+
+export interface NormalizedPremium {
+  /** Premium as stated in the offer, in `originalCurrency`. */
+  amount: number;
+  originalCurrency: string;
+  /** Currency of `annual` and `monthly`: the reporting currency, or the original one when no rate is known. */
+  currency: string;
+  /** Rate applied to reach the reporting currency; null when nothing was converted. */
+  exchangeRate: number | null;
+  /** Cycle the stated amount is paid in; null when the offer does not say. */
+  cycle: PremiumCycle | null;
+  annual: number;
+  monthly: number;
+  /**
+   * True when the cycle had to be guessed: no cycle stated (treated as annual), several
+   * cycles mentioned (the first one is used) or a single payment without a policy period.
+   */
+  isCycleAssumed: boolean;
+}
+
+const PAYMENT_CYCLES: ReadonlySet<string> = new Set<PremiumCycle>([
+  "monthly",
+  "annual",
+  "quarterly",
+  "semiannual",
+  "single",
+]);
+
+const PAYMENT_REGEXES: Array<{ pattern: RegExp; cycle: PremiumCycle }> = [
+  { pattern: /(miesi[aą]c|co\s+miesi[aą]c|monthly|12\s*rat)/i, cycle: "monthly" },
+  { pattern: /(roczn|co\s+rok|annual|yearly|12\s*miesi[aą]cy)/i, cycle: "annual" },
+  { pattern: /(kwarta|quarter)/i, cycle: "quarterly" },
+  { pattern: /(półroc|semi-?annual|co\s+pół\s+roku)/i, cycle: "semiannual" },
+  { pattern: /(jednoraz|z\s+góry|single\s+payment)/i, cycle: "single" },
+];
+
+const PAYMENTS_PER_YEAR: Record<Exclude<PremiumCycle, "single">, number> = {
+  monthly: 12,
+  quarterly: 4,
+  semiannual: 2,
+  annual: 1,
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const detectNormalizedPaymentCycle = (value: string): NormalizedPaymentCycle | null => {
+  for (const entry of PAYMENT_REGEXES) {
+    if (entry.pattern.test(value)) {
+      return entry.cycle;
+    }
+  }
+  return null;
+};
+
+const collectPotentialPaymentValues = (value: unknown): string[] => {
+  if (!value) {
+    return [];
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed ? [trimmed] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => collectPotentialPaymentValues(entry));
+  }
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keysToInspect = [
+      "frequency",
+      "frequencies",
+      "cycle",
+      "cycles",
+      "option",
+      "options",
+      "label",
+      "name",
+      "type",
+      "billing_period",
+      "payment_frequency",
+      "paymentCycle",
+      "payment_schedule",
+      "plan",
+    ];
+    return keysToInspect.flatMap((key) => collectPotentialPaymentValues(record[key]));
+  }
+  return [];
+};
+
+/** Payment cycles the offer mentions, from the unified schedule and older top-level fields. */
+export const getPaymentCycles = (extractedData: PremiumSource | null | undefined): PaymentCycles => {
+  const normalizedSet = new Set<NormalizedPaymentCycle>();
+  const rawMentions = new Set<string>();
+
+  const considerValue = (input: string) => {
+    const cleaned = input.replace(/\s+/g, " ").trim();
+    if (!cleaned) {
+      return;
+    }
+    rawMentions.add(cleaned);
+    const detected = detectNormalizedPaymentCycle(cleaned.toLowerCase());
+    if (detected) {
+      normalizedSet.add(detected);
+    }
+  };
+
+  const unifiedSchedule = extractedData?.unified?.payment_schedule;
+  if (unifiedSchedule) {
+    if (Array.isArray(unifiedSchedule.normalized_cycles)) {
+      unifiedSchedule.normalized_cycles.forEach((cycle) => {
+        if (typeof cycle === "string" && cycle.trim().length > 0) {
+          const key = cycle.trim().toLowerCase();
+          const normalized = PAYMENT_CYCLES.has(key)
+            ? (key as PremiumCycle)
+            : detectNormalizedPaymentCycle(key) ?? "other";
+          normalizedSet.add(normalized);
+        }
+      });
+    }
+    if (Array.isArray(unifiedSchedule.raw_mentions)) {
+      unifiedSchedule.raw_mentions
+        .filter((mention): mention is string => typeof mention === "string")
+        .forEach((mention) => considerValue(mention));
+    }
+  }
+
+  const fallbackCandidates: unknown[] = [
+    extractedData?.payment,
+    extractedData?.premium?.payment_frequency,
+    extractedData?.premium?.payment_schedule,
+    extractedData?.payment_schedule,
+  ];
+
+  fallbackCandidates.forEach((candidate) => {
+    collectPotentialPaymentValues(candidate).forEach((value) => considerValue(value));
+  });
+
+  return { normalizedCycles: Array.from(normalizedSet), rawMentions: Array.from(rawMentions) };
+};
+
+/**
+ * Get premium from extracted data (supports both old and new format)
+ */
+export function getPremium(extractedData: PremiumSource | null | undefined): number | null {
+  const unifiedPremium = extractedData?.unified?.total_premium_after_discounts;
+  if (unifiedPremium === "missing") {
+    return null;
+  }
+  const unifiedNumber = toNumber(unifiedPremium);
+  if (unifiedNumber !== null) {
+    return unifiedNumber;
+  }
+
+  const legacyPremium = extractedData?.premium?.total;
+  const legacyNumber = toNumber(legacyPremium);
+  if (legacyNumber !== null) {
+    return legacyNumber;
+  }
+
+  return null;
+}
+
+/** Currency the offer amounts are quoted in; offers without one are assumed to be in PLN. */
+export function getOfferCurrency(extractedData: PremiumSource | null | undefined): string {
+  const unifiedCurrency = extractedData?.unified?.currency;
+  if (typeof unifiedCurrency === "string" && unifiedCurrency.trim().length > 0) {
+    return normalizeCurrencyCode(unifiedCurrency);
+  }
+  return normalizeCurrencyCode(extractedData?.premium?.currency);
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const parsePolicyDate = (value: unknown): Date | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const polish = value.trim().match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  const parsed = polish
+    ? new Date(Date.UTC(Number(polish[3]), Number(polish[2]) - 1, Number(polish[1])))
+    : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/** Length of the policy period in months, used to spread a single payment over a year. */
+const getPolicyMonths = (extractedData: PremiumSource | null | undefined): number | null => {
+  const start = parsePolicyDate(extractedData?.unified?.duration?.start);
+  const end = parsePolicyDate(extractedData?.unified?.duration?.end);
+  if (!start || !end) {
+    return null;
+  }
+  const months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    (end.getUTCMonth() - start.getUTCMonth()) +
+    (end.getUTCDate() - start.getUTCDate()) / 30;
+  return months >= 1 ? Math.round(months) : null;
+};
+
+/**
+ * Converts the offer premium to annual and monthly equivalents based on the detected payment
+ * cycle, so that a monthly 120 zł offer is compared with an annual one as 1 440 zł a year.
+ * With a `converter` the equivalents are also converted to its reporting currency.
+ */
+export function getNormalizedPremium(
+  extractedData: PremiumSource | null | undefined,
+  converter?: CurrencyConverter | null,
+): NormalizedPremium | null {
+  const amount = getPremium(extractedData);
+  if (amount === null) {
+    return null;
+  }
+
+  const cycles = getPaymentCycles(extractedData).normalizedCycles.filter(
+    (cycle): cycle is PremiumCycle => cycle !== "other",
+  );
+  const cycle = cycles[0] ?? null;
+  let isCycleAssumed = cycles.length !== 1;
+  let annual = amount;
+
+  if (cycle === "single") {
+    const months = getPolicyMonths(extractedData);
+    if (months !== null) {
+      annual = (amount * 12) / months;
+    } else {
+      isCycleAssumed = true;
+    }
+  } else if (cycle) {
+    annual = amount * PAYMENTS_PER_YEAR[cycle];
+  }
+
+  const originalCurrency = getOfferCurrency(extractedData);
+  const conversion = converter ? converter.convert(annual, originalCurrency) : null;
+
+  return {
+    amount,
+    originalCurrency,
+    currency: conversion && converter ? converter.reportingCurrency : originalCurrency,
+    exchangeRate: conversion && conversion.rate !== 1 ? conversion.rate : null,
+    cycle,
+    annual: roundCurrency(conversion ? conversion.amount : annual),
+    monthly: roundCurrency((conversion ? conversion.amount : annual) / 12),
+    isCycleAssumed,
+  };
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "bun:test";
+
+import { createCurrencyConverter } from "../_shared/premium/mod.ts";
+import { applyNarrative, buildComparisonAnalysis, type EngineOffer } from "./engine.ts";
+
+const createOffer = (documentId: string, insurer: string, unified: Record<string, unknown>): EngineOffer => ({
+  documentId,
+  insurer,
+  extractedData: { insurer, unified: { offer_id: `calc-${documentId}`, currency: "PLN", ...unified } },
+});
+
+const offers = [
+  createOffer("doc-1", "PZU", {
+    total_premium_after_discounts: 100,
+    payment_schedule: { normalized_cycles: ["monthly"], raw_mentions: [] },
+    base_contracts: [{ name: "Śmierć ubezpieczonego", sum: 100000 }],
+    additional_contracts: [{ name: "Pobyt w szpitalu" }],
+    assistance: [{ name: "Assistance medyczny" }, { name: "Infolinia" }],
+    exclusions: [{ name: "Sporty ekstremalne" }],
+  }),
+  createOffer("doc-2", "Warta", {
+    total_premium_after_discounts: 1000,
+    payment_schedule: { normalized_cycles: ["annual"], raw_mentions: [] },
+    base_contracts: [{ name: "Śmierć ubezpieczonego", sum: 200000 }],
+    additional_contracts: [],
+    assistance: [{ name: "Infolinia" }],
+    exclusions: [{ name: "Sporty ekstremalne" }, { name: "Działania wojenne" }],
+  }),
+];
+
+describe("buildComparisonAnalysis", () => {
+  it("ranks premiums after converting them to a yearly amount", () => {
+    const [pzu, warta] = buildComparisonAnalysis(offers).price_comparison.offers;
+
+    expect(warta).toMatchObject({ offer_id: "doc-2", calculation_id: "calc-doc-2", highlight: "best", value: 1000 });
+    expect(pzu).toMatchObject({ offer_id: "doc-1", highlight: "neutral", value: 1200 });
+    expect(pzu.messages).toContainEqual({
+      code: "more_expensive",
+      params: { amount: { value: 200, currency: "PLN" }, percent: 20, offer: "Warta" },
+    });
+  });
+
+  it("compares coverage sums, assistance and exclusions", () => {
+    const analysis = buildComparisonAnalysis(offers);
+
+    expect(analysis.coverage_comparison.offers.map((offer) => offer.highlight)).toEqual(["neutral", "best"]);
+    expect(analysis.assistance_comparison.offers.map((offer) => offer.highlight)).toEqual(["best", "neutral"]);
+    expect(analysis.assistance_comparison.offers[1].messages).toContainEqual({
+      code: "assistance_missing",
+      params: { names: ["Assistance medyczny"] },
+    });
+    expect(analysis.exclusions_diff.offers[0]).toMatchObject({ highlight: "best", value: 1 });
+    expect(analysis.exclusions_diff.offers[1].messages).toContainEqual({
+      code: "exclusions_unique",
+      params: { names: ["Działania wojenne"] },
+    });
+    expect(analysis.key_highlight_messages).toEqual([
+      { code: "cheapest_offers", params: { offers: ["Warta"] } },
+      { code: "highest_sum_offers", params: { offers: ["Warta"] } },
+      { code: "widest_assistance_offers", params: { offers: ["PZU"] } },
+    ]);
+    expect(analysis.key_highlights).toEqual([]);
+  });
+
+  it("flags offers over budget or without required coverages", () => {
+    const analysis = buildComparisonAnalysis(offers, {
+      needs: {
+        budget: { amount: 80, period: "monthly", currency: "PLN" },
+        must_have_coverages: ["pobyt w szpitalu"],
+      },
+    });
+
+    expect(analysis.price_comparison.offers[0]).toMatchObject({ highlight: "warning" });
+    expect(analysis.price_comparison.offers[0].messages).toContainEqual({
+      code: "over_budget",
+      params: { amount: { value: 960, currency: "PLN" } },
+    });
+    expect(analysis.coverage_comparison.offers[1].messages).toContainEqual({
+      code: "missing_required",
+      params: { names: ["pobyt w szpitalu"] },
+    });
+    expect(analysis.recommendation_messages).toEqual([
+      { code: "over_budget_offers", params: { offers: ["PZU", "Warta"] } },
+      { code: "missing_required_offers", params: { offers: ["Warta"] } },
+    ]);
+  });
+
+  it("does not rank amounts quoted in different currencies against each other", () => {
+    const [pln, eur] = buildComparisonAnalysis([
+      offers[0],
+      createOffer("doc-3", "Allianz", { currency: "EUR", total_premium_after_discounts: 300 }),
+    ]).price_comparison.offers;
+
+    expect(pln.highlight).toBe("best");
+    expect(eur).toMatchObject({
+      highlight: "best",
+      messages: [
+        { code: "annual_premium", params: { amount: { value: 300, currency: "EUR" } } },
+        { code: "cheapest_in_currency", params: { currency: "EUR" } },
+      ],
+    });
+  });
+
+  it("ranks amounts in the reporting currency with the comparison's exchange rates", () => {
+    const converter = createCurrencyConverter([{ currency: "EUR", rateToPln: 4 }]);
+    const analysis = buildComparisonAnalysis(
+      [
+        offers[0],
+        createOffer("doc-3", "Allianz", {
+          currency: "EUR",
+          total_premium_after_discounts: 250,
+          base_contracts: [{ name: "Śmierć ubezpieczonego", sum: 60000 }],
+        }),
+        createOffer("doc-4", "Generali", { currency: "USD", total_premium_after_discounts: 100 }),
+      ],
+      { converter, needs: { budget: { amount: 200, period: "annual", currency: "EUR" } } },
+    );
+    const [pln, eur, usd] = analysis.price_comparison.offers;
+
+    expect(pln).toMatchObject({ highlight: "warning", value: 1200 });
+    expect(pln.messages).toContainEqual({ code: "over_budget", params: { amount: { value: 800, currency: "PLN" } } });
+    expect(eur).toMatchObject({ highlight: "warning", value: 1000 });
+    expect(eur.messages).toContainEqual({ code: "annual_premium", params: { amount: { value: 1000, currency: "PLN" } } });
+    expect(usd).toMatchObject({
+      highlight: "best",
+      messages: [
+        { code: "annual_premium", params: { amount: { value: 100, currency: "USD" } } },
+        { code: "cheapest_in_currency", params: { currency: "USD" } },
+      ],
+    });
+    expect(analysis.coverage_comparison.offers.map((offer) => offer.highlight)).toEqual(["neutral", "best", "warning"]);
+  });
+
+  it("spreads a single payment over the policy period like the result page", () => {
+    const [single, annual] = buildComparisonAnalysis([
+      createOffer("doc-5", "Uniqa", {
+        total_premium_after_discounts: 2400,
+        payment_schedule: { normalized_cycles: ["single"], raw_mentions: [] },
+        duration: { start: "01.01.2026", end: "31.12.2027" },
+      }),
+      offers[1],
+    ]).price_comparison.offers;
+
+    expect(single).toMatchObject({ highlight: "neutral", value: 1200 });
+    expect(annual).toMatchObject({ highlight: "best", value: 1000 });
+  });
+
+  it("warns when an offer has no premium", () => {
+    const [missing] = buildComparisonAnalysis([createOffer("doc-4", "Generali", {}), offers[1]]).price_comparison.offers;
+
+    expect(missing).toMatchObject({ highlight: "warning", value: null, messages: [{ code: "premium_missing" }] });
+  });
+
+  it("refers to offers without an insurer by their position", () => {
+    const unnamed: EngineOffer = { ...offers[1], insurer: null, extractedData: { unified: offers[1].extractedData.unified } };
+    const analysis = buildComparisonAnalysis([offers[0], unnamed]);
+
+    expect(analysis.price_comparison.offers[1].insurer).toBeNull();
+    expect(analysis.key_highlight_messages[0]).toEqual({ code: "cheapest_offers", params: { offers: [{ offer_index: 2 }] } });
+  });
+});
+
+describe("applyNarrative", () => {
+  it("appends model notes without changing computed highlights", () => {
+    const analysis = buildComparisonAnalysis(offers);
+
+    const result = applyNarrative(analysis, {
+      key_highlights: ["PZU ma szerszą ochronę szpitalną.", " PZU ma szerszą ochronę szpitalną. "],
+      recommendations: ["Rozważ PZU przy częstych pobytach w szpitalu."],
+      notes: [{ section: "price_comparison", offer_id: "doc-1", note: "Raty miesięczne podnoszą koszt." }],
+    });
+
+    expect(result.key_highlights).toEqual(["PZU ma szerszą ochronę szpitalną."]);
+    expect(result.key_highlight_messages).toBe(analysis.key_highlight_messages);
+    expect(result.recommendations).toEqual(["Rozważ PZU przy częstych pobytach w szpitalu."]);
+    expect(result.price_comparison.offers[0].note).toBe("Raty miesięczne podnoszą koszt.");
+    expect(result.price_comparison.offers[0].messages).toEqual(analysis.price_comparison.offers[0].messages);
+    expect(result.price_comparison.offers[0].highlight).toBe("neutral");
+    expect(result.price_comparison.offers[1]).toBe(analysis.price_comparison.offers[1]);
+  });
+});
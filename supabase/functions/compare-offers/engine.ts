@@ -0,0 +1,453 @@
+// Rule-based comparison over the unified offer built by extract-insurance-data. The result has
+// the same shape as ComparisonAnalysis in src/types/comparison.ts; the LLM only adds narrative
+// notes on top of it (see applyNarrative), so the comparison still works when the model is down.
+// Premiums are normalized and converted with the same code the result page uses (_shared/premium).
+// Findings are returned as message codes with parameters, which the browser translates
+// (src/lib/analysis-messages.ts), so the stored comparison does not depend on the UI language.
+
+import {
+  getNormalizedPremium,
+  getOfferCurrency,
+  type CurrencyConverter,
+} from "../_shared/premium/mod.ts";
+
+export type AnalysisHighlight = "best" | "warning" | "neutral";
+
+export type AnalysisSection = "price_comparison" | "coverage_comparison" | "assistance_comparison" | "exclusions_diff";
+
+export const ANALYSIS_SECTIONS: AnalysisSection[] = [
+  "price_comparison",
+  "coverage_comparison",
+  "assistance_comparison",
+  "exclusions_diff",
+];
+
+/** An amount in the reporting currency, or in the offer's own one when it has no exchange rate. */
+export type Amount = { value: number; currency: string };
+
+/** An offer without an insurer name is referred to by its position ("Offer 2"). */
+export type OfferRef = string | { offer_index: number };
+
+export type AnalysisMessageParam = string | number | Amount | OfferRef | OfferRef[] | string[];
+
+export type AnalysisMessageCode =
+  | "premium_missing"
+  | "annual_premium"
+  | "cheapest"
+  | "cheapest_in_currency"
+  | "more_expensive"
+  | "over_budget"
+  | "sums_missing"
+  | "total_sum"
+  | "additional_contracts"
+  | "missing_required"
+  | "assistance_none"
+  | "assistance_services"
+  | "assistance_missing"
+  | "exclusions_no_data"
+  | "exclusions_count"
+  | "exclusions_unique"
+  | "cheapest_offers"
+  | "highest_sum_offers"
+  | "widest_assistance_offers"
+  | "mixed_product_types"
+  | "over_budget_offers"
+  | "missing_required_offers";
+
+export type AnalysisMessage = { code: AnalysisMessageCode; params?: Record<string, AnalysisMessageParam> };
+
+export type AnalysisOffer = {
+  /** Document id, which is how the result page keys its offers. */
+  offer_id: string;
+  calculation_id: string | null;
+  insurer: string | null;
+  highlight: AnalysisHighlight;
+  value: number | null;
+  messages: AnalysisMessage[];
+  /** The model's commentary, in the language of the prompt. */
+  note: string | null;
+};
+
+export type ComparisonAnalysis = Record<AnalysisSection, { offers: AnalysisOffer[] }> & {
+  key_highlight_messages: AnalysisMessage[];
+  recommendation_messages: AnalysisMessage[];
+  /** The model's commentary, in the language of the prompt. */
+  key_highlights: string[];
+  recommendations: string[];
+};
+
+export type EngineOffer = {
+  documentId: string;
+  insurer: string | null;
+  extractedData: Record<string, any>;
+};
+
+// Same shape as the relevant fields of ClientNeedsProfile in src/lib/client-needs.ts.
+export type EngineNeeds = {
+  budget?: { amount: number; period: "monthly" | "annual"; currency: string } | null;
+  must_have_coverages?: string[];
+};
+
+export type EngineOptions = {
+  needs?: EngineNeeds | null;
+  /** The broker chose to compare offers of different product types. */
+  mixedProductTypes?: boolean;
+  /** Converts amounts to the comparison's reporting currency; amounts without a rate keep their own. */
+  converter?: CurrencyConverter | null;
+};
+
+export type Narrative = {
+  key_highlights?: string[];
+  recommendations?: string[];
+  notes?: Array<{ section: AnalysisSection; offer_id: string; note: string }>;
+};
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+const uniqueNames = (values: unknown[]): string[] => {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const name = toText(value);
+    if (name && !seen.has(normalizeName(name))) {
+      seen.set(normalizeName(name), name);
+    }
+  }
+  return Array.from(seen.values());
+};
+
+/** Older documents have no `unified` block; their top-level AI fields use the same names. */
+const getUnified = (offer: EngineOffer): Record<string, any> =>
+  offer.extractedData?.unified && typeof offer.extractedData.unified === "object"
+    ? offer.extractedData.unified
+    : offer.extractedData ?? {};
+
+type OfferFacts = {
+  offer: EngineOffer;
+  name: string | null;
+  label: OfferRef;
+  calculationId: string | null;
+  annualPremium: Amount | null;
+  totalSum: Amount | null;
+  coverageNames: string[];
+  additionalContracts: number;
+  assistanceNames: string[];
+  exclusionNames: string[];
+};
+
+const toReportingAmount = (value: number, currency: string, converter?: CurrencyConverter | null): Amount => {
+  const conversion = converter?.convert(value, currency) ?? null;
+  return conversion && converter
+    ? { value: conversion.amount, currency: converter.reportingCurrency }
+    : { value, currency };
+};
+
+const collectFacts = (offer: EngineOffer, index: number, converter?: CurrencyConverter | null): OfferFacts => {
+  const unified = getUnified(offer);
+  const premium = getNormalizedPremium({ ...offer.extractedData, unified }, converter);
+
+  const baseContracts = asArray(unified.base_contracts);
+  const additionalContracts = asArray(unified.additional_contracts);
+  const plans = asArray(unified.insured).flatMap((insured) => asArray(insured?.plans));
+  const sums = [...baseContracts, ...plans]
+    .map((entry) => toNumber(entry?.sum))
+    .filter((sum): sum is number => sum !== null && sum > 0);
+
+  const name = offer.insurer ?? toText(offer.extractedData?.insurer);
+
+  return {
+    offer,
+    name,
+    label: name ?? { offer_index: index + 1 },
+    calculationId: toText(unified.offer_id) ?? toText(offer.extractedData?.calculation_id),
+    annualPremium: premium ? { value: premium.annual, currency: premium.currency } : null,
+    totalSum:
+      sums.length > 0
+        ? toReportingAmount(
+            sums.reduce((total, sum) => total + sum, 0),
+            getOfferCurrency({ ...offer.extractedData, unified }),
+            converter,
+          )
+        : null,
+    coverageNames: uniqueNames([
+      ...baseContracts.map((entry) => entry?.name),
+      ...additionalContracts.map((entry) => entry?.name),
+      ...plans.map((entry) => entry?.type),
+    ]),
+    additionalContracts: additionalContracts.length,
+    assistanceNames: uniqueNames(asArray(unified.assistance).map((entry) => entry?.name)),
+    exclusionNames: uniqueNames(asArray(unified.exclusions).map((entry) => entry?.name)),
+  };
+};
+
+const toAnalysisOffer = (
+  facts: OfferFacts,
+  highlight: AnalysisHighlight,
+  value: number | null,
+  messages: Array<AnalysisMessage | null>,
+): AnalysisOffer => ({
+  offer_id: facts.offer.documentId,
+  calculation_id: facts.calculationId,
+  insurer: facts.name,
+  highlight,
+  value,
+  messages: messages.filter((message): message is AnalysisMessage => message !== null),
+  note: null,
+});
+
+/**
+ * Index of the extreme amount among offers in `currency`. With exchange rates every amount is in
+ * the reporting currency; amounts left in a currency without a rate are not comparable.
+ */
+const findExtreme = (
+  facts: OfferFacts[],
+  pick: (entry: OfferFacts) => Amount | null,
+  currency: string,
+  direction: "min" | "max",
+): number => {
+  let found = -1;
+  facts.forEach((entry, index) => {
+    const amount = pick(entry);
+    if (amount === null || amount.currency !== currency) {
+      return;
+    }
+    const current = found === -1 ? null : pick(facts[found]);
+    if (current === null || (direction === "min" ? amount.value < current.value : amount.value > current.value)) {
+      found = index;
+    }
+  });
+  return found;
+};
+
+const budgetPerYear = (options: EngineOptions): Amount | null => {
+  const budget = options.needs?.budget;
+  if (!budget) {
+    return null;
+  }
+  return toReportingAmount(
+    budget.period === "monthly" ? budget.amount * 12 : budget.amount,
+    (budget.currency || "PLN").toUpperCase(),
+    options.converter,
+  );
+};
+
+const missingMustHaves = (facts: OfferFacts, needs: EngineOptions["needs"]): string[] => {
+  const haystack = [...facts.coverageNames, ...facts.assistanceNames].map(normalizeName);
+  return (needs?.must_have_coverages ?? []).filter((required) => {
+    const needle = normalizeName(required);
+    return needle.length > 0 && !haystack.some((name) => name.includes(needle));
+  });
+};
+
+const comparePrices = (facts: OfferFacts[], options: EngineOptions) => {
+  const currencies = new Set(
+    facts.map((entry) => entry.annualPremium?.currency).filter((currency): currency is string => !!currency),
+  );
+  const budget = budgetPerYear(options);
+  const overBudget: OfferRef[] = [];
+
+  const offers = facts.map((entry) => {
+    const premium = entry.annualPremium;
+    if (premium === null) {
+      return toAnalysisOffer(entry, "warning", null, [{ code: "premium_missing" }]);
+    }
+
+    const cheapestIndex = findExtreme(facts, (item) => item.annualPremium, premium.currency, "min");
+    const cheapest = facts[cheapestIndex];
+    const isCheapest = cheapest === entry;
+    const difference = premium.value - cheapest.annualPremium!.value;
+    const exceedsBudget = budget !== null && budget.currency === premium.currency && premium.value > budget.value;
+    if (exceedsBudget) {
+      overBudget.push(entry.label);
+    }
+
+    return toAnalysisOffer(entry, exceedsBudget ? "warning" : isCheapest ? "best" : "neutral", premium.value, [
+      { code: "annual_premium", params: { amount: premium } },
+      isCheapest
+        ? currencies.size > 1
+          ? { code: "cheapest_in_currency", params: { currency: premium.currency } }
+          : { code: "cheapest" }
+        : {
+            code: "more_expensive",
+            params: {
+              amount: { value: difference, currency: premium.currency },
+              percent: Math.round((difference / cheapest.annualPremium!.value) * 100),
+              offer: cheapest.label,
+            },
+          },
+      exceedsBudget ? { code: "over_budget", params: { amount: budget } } : null,
+    ]);
+  });
+
+  return { offers, overBudget };
+};
+
+const compareCoverage = (facts: OfferFacts[], options: EngineOptions) => {
+  const failingRequirements: OfferRef[] = [];
+
+  const offers = facts.map((entry) => {
+    const highestIndex = entry.totalSum
+      ? findExtreme(facts, (item) => item.totalSum, entry.totalSum.currency, "max")
+      : -1;
+    const missing = missingMustHaves(entry, options.needs);
+    if (missing.length > 0) {
+      failingRequirements.push(entry.label);
+    }
+
+    const highlight: AnalysisHighlight =
+      missing.length > 0 || entry.totalSum === null
+        ? "warning"
+        : facts[highestIndex] === entry
+          ? "best"
+          : "neutral";
+
+    return toAnalysisOffer(entry, highlight, entry.totalSum?.value ?? null, [
+      entry.totalSum === null ? { code: "sums_missing" } : { code: "total_sum", params: { amount: entry.totalSum } },
+      entry.additionalContracts > 0
+        ? { code: "additional_contracts", params: { count: entry.additionalContracts } }
+        : null,
+      missing.length > 0 ? { code: "missing_required", params: { names: missing } } : null,
+    ]);
+  });
+
+  return { offers, failingRequirements };
+};
+
+const compareAssistance = (facts: OfferFacts[]) => {
+  const mostServices = Math.max(...facts.map((entry) => entry.assistanceNames.length));
+
+  return facts.map((entry) => {
+    const own = new Set(entry.assistanceNames.map(normalizeName));
+    const missing = uniqueNames(
+      facts
+        .filter((other) => other !== entry)
+        .flatMap((other) => other.assistanceNames)
+        .filter((name) => !own.has(normalizeName(name))),
+    );
+    const count = entry.assistanceNames.length;
+
+    const highlight: AnalysisHighlight =
+      count === 0 && mostServices > 0 ? "warning" : count > 0 && count === mostServices ? "best" : "neutral";
+
+    return toAnalysisOffer(entry, highlight, count, [
+      count === 0
+        ? { code: "assistance_none" }
+        : { code: "assistance_services", params: { names: entry.assistanceNames } },
+      missing.length > 0 ? { code: "assistance_missing", params: { names: missing } } : null,
+    ]);
+  });
+};
+
+const compareExclusions = (facts: OfferFacts[]) => {
+  const counts = facts.map((entry) => entry.exclusionNames.length);
+  const fewest = Math.min(...counts);
+  const most = Math.max(...counts);
+
+  return facts.map((entry) => {
+    const others = new Set(
+      facts.filter((other) => other !== entry).flatMap((other) => other.exclusionNames.map(normalizeName)),
+    );
+    const unique = entry.exclusionNames.filter((name) => !others.has(normalizeName(name)));
+    const count = entry.exclusionNames.length;
+
+    const highlight: AnalysisHighlight =
+      unique.length > 0 ? "warning" : count === fewest && fewest < most ? "best" : "neutral";
+
+    return toAnalysisOffer(entry, highlight, count, [
+      most === 0 ? { code: "exclusions_no_data" } : { code: "exclusions_count", params: { count } },
+      unique.length > 0 ? { code: "exclusions_unique", params: { names: unique } } : null,
+    ]);
+  });
+};
+
+const labelsOf = (facts: OfferFacts[], section: AnalysisOffer[], highlight: AnalysisHighlight): OfferRef[] =>
+  section.flatMap((offer, index) => (offer.highlight === highlight ? [facts[index].label] : []));
+
+/** Compares offers without the LLM: price ranking, coverage sums, assistance and exclusion differences. */
+export function buildComparisonAnalysis(offers: EngineOffer[], options: EngineOptions = {}): ComparisonAnalysis {
+  const facts = offers.map((offer, index) => collectFacts(offer, index, options.converter));
+  const price = comparePrices(facts, options);
+  const coverage = compareCoverage(facts, options);
+  const assistance = compareAssistance(facts);
+  const exclusions = compareExclusions(facts);
+
+  const keyHighlights: AnalysisMessage[] = [];
+  const cheapest = labelsOf(facts, price.offers, "best");
+  if (cheapest.length > 0) {
+    keyHighlights.push({ code: "cheapest_offers", params: { offers: cheapest } });
+  }
+  const widestCoverage = labelsOf(facts, coverage.offers, "best");
+  if (widestCoverage.length > 0) {
+    keyHighlights.push({ code: "highest_sum_offers", params: { offers: widestCoverage } });
+  }
+  const widestAssistance = labelsOf(facts, assistance, "best");
+  if (widestAssistance.length > 0 && widestAssistance.length < offers.length) {
+    keyHighlights.push({ code: "widest_assistance_offers", params: { offers: widestAssistance } });
+  }
+  if (options.mixedProductTypes) {
+    keyHighlights.push({ code: "mixed_product_types" });
+  }
+
+  const recommendations: AnalysisMessage[] = [];
+  if (price.overBudget.length > 0) {
+    recommendations.push({ code: "over_budget_offers", params: { offers: price.overBudget } });
+  }
+  if (coverage.failingRequirements.length > 0) {
+    recommendations.push({ code: "missing_required_offers", params: { offers: coverage.failingRequirements } });
+  }
+
+  return {
+    price_comparison: { offers: price.offers },
+    coverage_comparison: { offers: coverage.offers },
+    assistance_comparison: { offers: assistance },
+    exclusions_diff: { offers: exclusions },
+    key_highlight_messages: keyHighlights,
+    recommendation_messages: recommendations,
+    key_highlights: [],
+    recommendations: [],
+  };
+}
+
+const mergeTexts = (base: string[], extra: string[] | undefined) => {
+  const merged = [...base];
+  for (const entry of extra ?? []) {
+    const text = entry.trim();
+    if (text.length > 0 && !merged.includes(text)) {
+      merged.push(text);
+    }
+  }
+  return merged;
+};
+
+/** Adds the model's commentary to the computed analysis; highlights, values and messages stay as computed. */
+export function applyNarrative(analysis: ComparisonAnalysis, narrative: Narrative): ComparisonAnalysis {
+  const result: ComparisonAnalysis = {
+    ...analysis,
+    key_highlights: mergeTexts(analysis.key_highlights, narrative.key_highlights),
+    recommendations: mergeTexts(analysis.recommendations, narrative.recommendations),
+  };
+
+  for (const section of ANALYSIS_SECTIONS) {
+    result[section] = {
+      offers: analysis[section].offers.map((offer) => {
+        const extra = (narrative.notes ?? [])
+          .filter((entry) => entry.section === section && entry.offer_id === offer.offer_id)
+          .map((entry) => entry.note.trim())
+          .filter((note) => note.length > 0);
+        if (extra.length === 0) {
+          return offer;
+        }
+        return { ...offer, note: [offer.note, ...extra].filter(Boolean).join(" ") };
+      }),
+    };
+  }
+
+  return result;
+}
@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { completeJson, resolveLlmProvider, type LlmUsage } from "../_shared/llm/mod.ts";
+import { BASE_CURRENCY, createCurrencyConverter } from "../_shared/premium/mod.ts";
+import { applyNarrative, buildComparisonAnalysis } from "./engine.ts";
+import { buildDocumentRevisions, nextVersionNumber } from "./versions.ts";
 
 const allowedOrigins = (Deno.env.get("CORS_ALLOWED_ORIGINS") || "")
   .split(",")
@@ -35,10 +39,61 @@ const createCorsHeaders = (origin: string | null) => {
   } as const;
 };
 
+// Default model on the Lovable gateway; LLM_PROVIDER / LLM_MODEL can override it.
+const COMPARISON_MODEL = 'google/gemini-2.5-flash';
+
 const comparisonSchema = z.object({
   comparison_id: z.string().min(1, "comparison_id is required"),
 });
 
+// Same shape as ClientNeedsProfile in src/lib/client-needs.ts.
+const needsProfileSchema = z.object({
+  age: z.number().int().min(0).nullable().optional(),
+  dependants: z.number().int().min(0).nullable().optional(),
+  budget: z
+    .object({
+      amount: z.number().positive(),
+      period: z.enum(["monthly", "annual"]),
+      currency: z.string().min(1).default("PLN"),
+    })
+    .nullable()
+    .optional(),
+  must_have_coverages: z.array(z.string()).default([]),
+  risk_tolerance: z.enum(["low", "medium", "high"]).nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+type NeedsProfile = z.infer<typeof needsProfileSchema>;
+
+const parseNeedsProfile = (value: unknown): NeedsProfile | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const parsed = needsProfileSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("compare-offers: ignoring invalid needs profile", parsed.error.flatten().fieldErrors);
+    return null;
+  }
+
+  return parsed.data;
+};
+
+// Commentary the model may add on top of the computed analysis (see applyNarrative).
+const narrativeSchema = z.object({
+  key_highlights: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
+  notes: z
+    .array(
+      z.object({
+        section: z.enum(["price_comparison", "coverage_comparison", "assistance_comparison", "exclusions_diff"]),
+        offer_id: z.string(),
+        note: z.string(),
+      }),
+    )
+    .default([]),
+});
+
 serve(async (req) => {
   const origin = req.headers.get("Origin");
   const corsHeaders = createCorsHeaders(origin);
@@ -104,7 +159,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
 
     const supabase = createClient(supabaseUrl, supabaseKey, {
       global: {
@@ -115,14 +169,16 @@ serve(async (req) => {
     });
 
     const accessToken = authHeader.replace(/^Bearer\s+/i, '').trim();
+    // The comparison-orchestrator worker calls this function with the service role key.
+    const isServiceRoleCall = accessToken.length > 0 && accessToken === supabaseKey;
     const {
       data: { user },
       error: userError,
-    } = accessToken
+    } = accessToken && !isServiceRoleCall
       ? await supabase.auth.getUser(accessToken)
       : { data: { user: null }, error: null } as const;
 
-    if (userError || !user) {
+    if (!isServiceRoleCall && (userError || !user)) {
       console.warn("compare-offers: user authentication failed", {
         hasError: !!userError,
       });
@@ -146,7 +202,9 @@ serve(async (req) => {
       throw new Error('Comparison not found');
     }
 
-    if (comparison.user_id !== user.id) {
+    const ownerId = isServiceRoleCall ? comparison.user_id : user.id;
+
+    if (comparison.user_id !== ownerId) {
       return new Response(
         JSON.stringify({ error: "Forbidden" }),
         {
@@ -166,7 +224,7 @@ serve(async (req) => {
       throw new Error('Documents not found');
     }
 
-    const unauthorizedDocument = documents.find((doc) => doc.user_id !== user.id);
+    const unauthorizedDocument = documents.find((doc) => doc.user_id !== ownerId);
 
     if (unauthorizedDocument) {
       return new Response(
@@ -199,83 +257,136 @@ serve(async (req) => {
       .sort((a, b) => b[1] - a[1])
       .map(([type]) => type)[0] ?? null;
 
-    // Prepare data for AI comparison
-    const offersData = documentsWithData.map((doc, idx) => ({
-      offer_id: idx + 1,
+    // The comparison's own needs profile wins over the one kept on the client.
+    let needsProfile = parseNeedsProfile(comparison.needs_profile);
+
+    if (!needsProfile && comparison.client_id) {
+      const { data: client, error: clientError } = await supabase
+        .from('clients')
+        .select('needs_profile')
+        .eq('id', comparison.client_id)
+        .maybeSingle();
+
+      if (clientError) {
+        console.warn('compare-offers: failed to load client needs profile', { message: clientError.message });
+      }
+
+      needsProfile = parseNeedsProfile(client?.needs_profile);
+    }
+
+    // The broker chose to compare offers of different product types despite the warning.
+    const mixedProductTypes = comparison.product_type_mismatch?.status === 'acknowledged';
+    const mixedProductTypesInstruction = mixedProductTypes
+      ? 'Oferty dotyczą różnych rodzajów ubezpieczeń. Komentuj tylko kategorie wspólne dla wszystkich ofert.'
+      : '';
+
+    // Prices are ranked in the reporting currency with the broker's rates, as on the result page.
+    const { data: exchangeRates, error: ratesError } = await supabase
+      .from('exchange_rates')
+      .select('currency, rate_to_pln, valid_on')
+      .eq('user_id', comparison.user_id);
+
+    if (ratesError) {
+      console.warn('compare-offers: failed to load exchange rates', { message: ratesError.message });
+    }
+
+    const converter = createCurrencyConverter(
+      (exchangeRates ?? []).map((rate) => ({
+        currency: rate.currency,
+        rateToPln: Number(rate.rate_to_pln),
+        validOn: rate.valid_on,
+      })),
+      comparison.reporting_currency ?? BASE_CURRENCY,
+    );
+
+    const analysis = buildComparisonAnalysis(
+      documentsWithData.map((doc) => ({
+        documentId: doc.id,
+        insurer: doc.extracted_data?.insurer ?? null,
+        extractedData: doc.extracted_data
+      })),
+      { needs: needsProfile, mixedProductTypes, converter }
+    );
+
+    // Prepare data for the narrative
+    const offersData = documentsWithData.map((doc) => ({
+      offer_id: doc.id,
       insurer: doc.extracted_data.insurer,
-      data: doc.extracted_data,
-      diagnostics: doc.extracted_data?.diagnostics || null
+      data: doc.extracted_data.unified ?? doc.extracted_data
     }));
 
-    // Call Lovable AI to compare offers
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `Jesteś ekspertem od porównywania ofert ubezpieczeniowych.
-            Porównaj dostarczone oferty i zwróć szczegółową analizę w formacie JSON:
+    const systemPrompt = `Jesteś ekspertem od porównywania ofert ubezpieczeniowych.
+            Otrzymujesz oferty oraz analizę porównawczą wyliczoną regułowo (składki roczne, sumy
+            ubezpieczenia, assistance, wyłączenia). Wnioski analizy są zapisane jako kody z parametrami
+            (pola messages) i broker już je widzi, więc ich nie powtarzaj. Nie zmieniaj liczb ani ocen
+            z analizy, dodaj tylko komentarz w formacie JSON:
             {
-              "coverage_comparison": {
-                "category": "nazwa kategorii",
-                "offers": [{
-                  "offer_id": 1,
-                  "insurer": "nazwa",
-                  "value": "wartość",
-                  "highlight": "best" | "warning" | "neutral",
-                  "note": "opcjonalna notatka"
-                }]
-              },
-              "price_comparison": { podobna struktura },
-              "exclusions_diff": { lista różnic w wyłączeniach },
-              "assistance_comparison": { porównanie świadczeń assistance },
-              "key_highlights": ["najważniejsze różnice"],
-              "recommendations": ["zalecenia dla klienta"]
+              "key_highlights": ["najważniejsze różnice, których analiza nie wymienia"],
+              "recommendations": ["zalecenia dla klienta"],
+              "notes": [{
+                "section": "price_comparison" | "coverage_comparison" | "assistance_comparison" | "exclusions_diff",
+                "offer_id": "offer_id oferty z danych wejściowych",
+                "note": "krótka notatka do tej oferty w danej kategorii"
+              }]
             }
 
-            Zwróć TYLKO JSON bez dodatkowego tekstu.`
+            Jeśli podano profil potrzeb klienta, zalecenia dopasuj do wieku, osób na utrzymaniu
+            i skłonności do ryzyka klienta.
+            ${mixedProductTypesInstruction}
+
+            Zwróć TYLKO JSON bez dodatkowego tekstu.`;
+
+    // The computed analysis is complete on its own, so a failed model call only loses the commentary.
+    let comparisonData: Record<string, unknown> = { ...analysis };
+    let narrativeModel: string | null = null;
+    let narrativeUsage: LlmUsage | null = null;
+
+    try {
+      const llm = resolveLlmProvider((name) => Deno.env.get(name), { defaultModel: COMPARISON_MODEL });
+      const aiResult = await completeJson(llm, {
+        schema: narrativeSchema,
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt
           },
           {
             role: 'user',
-            content: `Porównaj te oferty ubezpieczeniowe:\n\n${JSON.stringify(offersData, null, 2)}`
+            content: `Oferty:\n\n${JSON.stringify(offersData, null, 2)}\n\nAnaliza:\n${JSON.stringify(analysis, null, 2)}${
+              needsProfile
+                ? `\n\nProfil potrzeb klienta:\n${JSON.stringify(needsProfile, null, 2)}`
+                : ''
+            }`
           }
         ]
-      }),
-    });
+      });
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      throw new Error(`AI API error: ${aiResponse.status} - ${errorText}`);
+      narrativeModel = aiResult.model;
+      narrativeUsage = aiResult.usage;
+      if (aiResult.ok) {
+        comparisonData = { ...applyNarrative(analysis, aiResult.data) };
+      } else {
+        comparisonData.narrative_error = aiResult.error;
+      }
+    } catch (narrativeError) {
+      const message = narrativeError instanceof Error ? narrativeError.message : String(narrativeError);
+      console.error('compare-offers: narrative failed, keeping the computed analysis', { message });
+      comparisonData.narrative_error = message;
     }
 
-    const aiData = await aiResponse.json();
-    const comparisonText = aiData.choices[0].message.content;
+    // generate-summary reads the profile from here, so both prompts see the same answers.
+    comparisonData.client_needs = needsProfile;
 
-    // Parse JSON from AI response
-    let comparisonData;
-    try {
-      const jsonMatch = comparisonText.match(/```json\n?([\s\S]*?)\n?```/) ||
-                       comparisonText.match(/```\n?([\s\S]*?)\n?```/);
-      const jsonText = jsonMatch ? jsonMatch[1] : comparisonText;
-      comparisonData = JSON.parse(jsonText.trim());
-    } catch (parseError) {
-      console.error('Failed to parse AI comparison as JSON');
-      comparisonData = { raw_text: comparisonText, parse_error: true };
-    }
-
-    // Update comparison with results
+    // Update comparison with results. Summaries of every style and language describe the previous
+    // run, so they are cleared and generate-summary writes them again for this version.
     const { error: updateError } = await supabase
       .from('comparisons')
       .update({
         comparison_data: comparisonData,
         status: 'completed',
-        product_type: aggregatedProductType
+        product_type: aggregatedProductType,
+        summary_json: null,
+        summary_text: null
       })
       .eq('id', comparison_id);
 
@@ -283,6 +394,37 @@ serve(async (req) => {
       throw new Error(`Failed to update comparison: ${updateError.message}`);
     }
 
+    // Keep this run as a new version; generate-summary completes it with the summary.
+    const { data: latestVersion, error: latestVersionError } = await supabase
+      .from('comparison_versions')
+      .select('version')
+      .eq('comparison_id', comparison_id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestVersionError) {
+      throw new Error(`Failed to read comparison versions: ${latestVersionError.message}`);
+    }
+
+    const { error: versionError } = await supabase
+      .from('comparison_versions')
+      .insert({
+        comparison_id,
+        user_id: comparison.user_id,
+        version: nextVersionNumber(latestVersion),
+        document_ids: documentsWithData.map((doc) => doc.id),
+        document_revisions: await buildDocumentRevisions(documentsWithData),
+        comparison_data: comparisonData,
+        comparison_model: narrativeModel,
+        comparison_prompt: systemPrompt,
+        comparison_usage: narrativeUsage,
+      });
+
+    if (versionError) {
+      throw new Error(`Failed to store comparison version: ${versionError.message}`);
+    }
+
     console.log('Comparison completed successfully:', comparison_id);
 
     return new Response(
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+
+import { buildDocumentRevisions, hashExtractedData, nextVersionNumber } from "./versions.ts";
+
+describe("hashExtractedData", () => {
+  it("ignores key order but not values", async () => {
+    const first = await hashExtractedData({ insurer: "PZU", premium: { total: 1200 } });
+    const reordered = await hashExtractedData({ premium: { total: 1200 }, insurer: "PZU" });
+    const changed = await hashExtractedData({ insurer: "PZU", premium: { total: 1250 } });
+
+    expect(reordered).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+});
+
+describe("buildDocumentRevisions", () => {
+  it("records corrections and the extraction timestamp per document", async () => {
+    const [revision] = await buildDocumentRevisions([
+      {
+        id: "doc-1",
+        file_name: "oferta.pdf",
+        ocr_extracted_at: "2026-10-18T10:00:00.000Z",
+        extracted_data: { insurer: "PZU", manual_corrections: [{ path: "premium.total" }] },
+      },
+    ]);
+
+    expect(revision).toMatchObject({
+      document_id: "doc-1",
+      file_name: "oferta.pdf",
+      extracted_at: "2026-10-18T10:00:00.000Z",
+      corrections_count: 1,
+    });
+    expect(revision.data_hash).toHaveLength(64);
+  });
+});
+
+describe("nextVersionNumber", () => {
+  it("starts at one and increments the latest version", () => {
+    expect(nextVersionNumber(null)).toBe(1);
+    expect(nextVersionNumber({ version: 3 })).toBe(4);
+  });
+});
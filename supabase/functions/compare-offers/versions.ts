@@ -0,0 +1,62 @@
+// Same shape as DocumentRevision in src/lib/comparison-versions.ts.
+export type DocumentRevision = {
+  document_id: string;
+  file_name: string | null;
+  extracted_at: string | null;
+  corrections_count: number;
+  data_hash: string;
+};
+
+type VersionedDocument = {
+  id: string;
+  file_name?: string | null;
+  ocr_extracted_at?: string | null;
+  processing_stage_updated_at?: string | null;
+  extracted_data?: unknown;
+};
+
+// Keys are sorted so the hash only changes when the extracted values do.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashExtractedData = async (value: unknown): Promise<string> => {
+  const bytes = new TextEncoder().encode(stableStringify(value));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const countCorrections = (extractedData: unknown): number => {
+  if (!extractedData || typeof extractedData !== "object") {
+    return 0;
+  }
+  const corrections = (extractedData as Record<string, unknown>).manual_corrections;
+  return Array.isArray(corrections) ? corrections.length : 0;
+};
+
+export const buildDocumentRevisions = (documents: VersionedDocument[]): Promise<DocumentRevision[]> =>
+  Promise.all(
+    documents.map(async (doc) => ({
+      document_id: doc.id,
+      file_name: doc.file_name ?? null,
+      extracted_at: doc.ocr_extracted_at ?? doc.processing_stage_updated_at ?? null,
+      corrections_count: countCorrections(doc.extracted_data),
+      data_hash: await hashExtractedData(doc.extracted_data),
+    })),
+  );
+
+export const nextVersionNumber = (latest: { version: number } | null | undefined): number =>
+  (latest?.version ?? 0) + 1;
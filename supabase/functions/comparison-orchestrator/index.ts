@@ -0,0 +1,735 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  EXTRACTABLE_DOCUMENT_STATUSES,
+  JobStageError,
+  RUNNABLE_STATUSES,
+  evaluateExtraction,
+  failsComparison,
+  planContinuation,
+  planRerun,
+  planStageBlocked,
+  planStageFailure,
+  planStageSuccess,
+  selectDocumentsToExtract,
+  selectSweepJobs,
+  type ComparisonJob,
+  type JobUpdate,
+} from "./state-machine.ts";
+import { detectProductTypeMismatch, type DocumentProductTypeSnapshot } from "./product-types.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const allowedOrigins = (Deno.env.get("CORS_ALLOWED_ORIGINS") || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter((origin) => origin.length > 0);
+
+const isOriginAllowed = (origin: string | null) => {
+  if (allowedOrigins.length === 0) {
+    return true;
+  }
+
+  if (!origin) {
+    return true;
+  }
+
+  return allowedOrigins.includes(origin);
+};
+
+const createCorsHeaders = (origin: string | null) => {
+  const allowOrigin =
+    allowedOrigins.length === 0
+      ? "*"
+      : origin && allowedOrigins.includes(origin)
+        ? origin
+        : "null";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  } as const;
+};
+
+const requestSchema = z.union([
+  z.object({
+    comparison_id: z.string().min(1, "comparison_id is required"),
+    // Re-runs a finished comparison after its inputs changed, e.g. a manual correction.
+    // Offers added to the comparison start from extraction; extracted documents are skipped there.
+    rerun_from: z.enum(["triggering_extraction", "comparing_offers"]).optional(),
+  }),
+  z.object({ job_id: z.string().min(1, "job_id is required") }),
+  z.object({ mode: z.literal("sweep") }),
+]);
+
+// Time budget of a single worker invocation; unfinished jobs are handed over to a fresh invocation.
+const WORKER_BUDGET_MS = 120_000;
+// Part of a continuation's budget it may spend waiting out a retry backoff before running the job.
+const MAX_CONTINUATION_WAIT_MS = WORKER_BUDGET_MS / 2;
+const LEASE_MS = 60_000;
+const EXTRACTION_POLL_INTERVAL_MS = 3_000;
+const EXTRACTION_TIMEOUT_MS = 10 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 5;
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+interface WorkerContext {
+  supabase: SupabaseAdmin;
+  supabaseUrl: string;
+  serviceKey: string;
+}
+
+type StageOutcome = "advance" | "wait" | "blocked";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const runInBackground = (task: Promise<unknown>) => {
+  const guarded = task.catch((error) => {
+    console.error("comparison-orchestrator: background task failed", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  if (typeof EdgeRuntime !== "undefined" && EdgeRuntime?.waitUntil) {
+    EdgeRuntime.waitUntil(guarded);
+    return;
+  }
+
+  void guarded;
+};
+
+async function invokePipelineFunction(
+  ctx: WorkerContext,
+  name: string,
+  payload: Record<string, unknown>,
+): Promise<void> {
+  const response = await fetch(`${ctx.supabaseUrl}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ctx.serviceKey}`,
+      apikey: ctx.serviceKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${name} failed: ${response.status} - ${errorText.slice(0, 500)}`);
+  }
+}
+
+async function updateJob(ctx: WorkerContext, jobId: string, update: JobUpdate): Promise<ComparisonJob> {
+  const { data, error } = await ctx.supabase
+    .from("comparison_jobs")
+    .update(update)
+    .eq("id", jobId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update comparison job: ${error?.message ?? "no rows"}`);
+  }
+
+  return data as ComparisonJob;
+}
+
+/**
+ * Takes the lease on a job so concurrent invocations (user retries, sweeps, hand-overs)
+ * never run the same stage twice. Returns null when another worker holds the job.
+ */
+async function claimJob(ctx: WorkerContext, jobId: string): Promise<ComparisonJob | null> {
+  const now = new Date();
+  const { data, error } = await ctx.supabase
+    .from("comparison_jobs")
+    .update({
+      status: "running",
+      locked_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", RUNNABLE_STATUSES)
+    .lte("next_attempt_at", now.toISOString())
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim comparison job: ${error.message}`);
+  }
+
+  return (data as ComparisonJob | null) ?? null;
+}
+
+async function loadComparisonDocuments(ctx: WorkerContext, comparisonId: string) {
+  const { data: comparison, error: comparisonError } = await ctx.supabase
+    .from("comparisons")
+    .select("id, document_ids")
+    .eq("id", comparisonId)
+    .single();
+
+  if (comparisonError || !comparison) {
+    throw new Error("Comparison not found");
+  }
+
+  const documentIds = (comparison.document_ids ?? []) as string[];
+  const { data: documents, error: documentsError } = await ctx.supabase
+    .from("documents")
+    .select("id, status")
+    .in("id", documentIds);
+
+  if (documentsError || !documents) {
+    throw new Error(`Failed to load documents: ${documentsError?.message ?? "unknown error"}`);
+  }
+
+  return { documentIds, documents: documents as Array<{ id: string; status: string }> };
+}
+
+/**
+ * Moves the documents to 'processing' before their extraction is started. The conditional update
+ * is the claim: a document another worker claimed in the meantime is not returned.
+ */
+async function claimDocumentsForExtraction(ctx: WorkerContext, documentIds: string[]): Promise<string[]> {
+  if (documentIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await ctx.supabase
+    .from("documents")
+    .update({
+      status: "processing",
+      processing_stage: null,
+      processing_stage_updated_at: new Date().toISOString(),
+    })
+    .in("id", documentIds)
+    .in("status", EXTRACTABLE_DOCUMENT_STATUSES)
+    .select("id");
+
+  if (error || !data) {
+    throw new Error(`Failed to claim documents for extraction: ${error?.message ?? "unknown error"}`);
+  }
+
+  return (data as Array<{ id: string }>).map((doc) => doc.id);
+}
+
+// A call that never reached the extraction leaves nobody to settle the claimed document.
+async function releaseDocumentClaim(ctx: WorkerContext, documentId: string) {
+  const { error } = await ctx.supabase
+    .from("documents")
+    .update({ status: "failed" })
+    .eq("id", documentId)
+    .eq("status", "processing");
+
+  if (error) {
+    console.error("comparison-orchestrator: failed to release document claim", {
+      documentId,
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * Holds the comparison in 'needs_review' when its documents cover different product types,
+ * unless the broker has already chosen to compare them anyway.
+ */
+async function checkProductTypes(ctx: WorkerContext, comparisonId: string): Promise<boolean> {
+  const { data: comparison, error: comparisonError } = await ctx.supabase
+    .from("comparisons")
+    .select("id, document_ids, product_type_mismatch")
+    .eq("id", comparisonId)
+    .single();
+
+  if (comparisonError || !comparison) {
+    throw new Error("Comparison not found");
+  }
+
+  if ((comparison.product_type_mismatch as { status?: string } | null)?.status === "acknowledged") {
+    return true;
+  }
+
+  const { data: documents, error: documentsError } = await ctx.supabase
+    .from("documents")
+    .select("id, file_name, extracted_data")
+    .in("id", (comparison.document_ids ?? []) as string[]);
+
+  if (documentsError || !documents) {
+    throw new Error(`Failed to load documents: ${documentsError?.message ?? "unknown error"}`);
+  }
+
+  const mismatch = detectProductTypeMismatch(documents as DocumentProductTypeSnapshot[]);
+  if (!mismatch) {
+    return true;
+  }
+
+  console.warn("comparison-orchestrator: product type mismatch", {
+    comparisonId,
+    dominantType: mismatch.dominant_type,
+  });
+
+  const { error } = await ctx.supabase
+    .from("comparisons")
+    .update({
+      status: "needs_review",
+      product_type_mismatch: {
+        ...mismatch,
+        status: "pending",
+        detected_at: new Date().toISOString(),
+        excluded_document_ids: [],
+      },
+    })
+    .eq("id", comparisonId);
+
+  if (error) {
+    throw new Error(`Failed to record product type mismatch: ${error.message}`);
+  }
+
+  return false;
+}
+
+async function executeStage(ctx: WorkerContext, job: ComparisonJob): Promise<StageOutcome> {
+  switch (job.stage) {
+    case "triggering_extraction": {
+      const { documentIds, documents } = await loadComparisonDocuments(ctx, job.comparison_id);
+      const toExtract = await claimDocumentsForExtraction(
+        ctx,
+        selectDocumentsToExtract(documentIds, documents),
+      );
+
+      // Extractions outlive this stage: extract-insurance-data records progress and failures on the
+      // document itself and waiting_for_extraction polls them, so the calls are not awaited here.
+      for (const documentId of toExtract) {
+        runInBackground(
+          invokePipelineFunction(ctx, "extract-insurance-data", { document_id: documentId }).catch((error) => {
+            console.warn("comparison-orchestrator: extraction invocation failed", {
+              jobId: job.id,
+              documentId,
+              message: error instanceof Error ? error.message : String(error),
+            });
+            return releaseDocumentClaim(ctx, documentId);
+          }),
+        );
+      }
+      return "advance";
+    }
+
+    case "waiting_for_extraction": {
+      const { documentIds, documents } = await loadComparisonDocuments(ctx, job.comparison_id);
+      const extraction = evaluateExtraction(documentIds, documents);
+
+      if (extraction.state === "ready") {
+        return "advance";
+      }
+
+      if (extraction.state === "failed") {
+        throw new JobStageError(
+          "documents_failed",
+          `Extraction failed for ${extraction.failedIds.length} document(s)`,
+        );
+      }
+
+      if (Date.now() - new Date(job.stage_started_at).getTime() > EXTRACTION_TIMEOUT_MS) {
+        throw new JobStageError("extraction_timeout", "Extraction timed out");
+      }
+
+      return "wait";
+    }
+
+    case "comparing_offers":
+      if (!(await checkProductTypes(ctx, job.comparison_id))) {
+        return "blocked";
+      }
+      await invokePipelineFunction(ctx, "compare-offers", { comparison_id: job.comparison_id });
+      return "advance";
+
+    case "generating_summary":
+      await invokePipelineFunction(ctx, "generate-summary", { comparison_id: job.comparison_id });
+      return "advance";
+
+    default:
+      return "advance";
+  }
+}
+
+async function markComparisonFailed(ctx: WorkerContext, comparisonId: string) {
+  const { error } = await ctx.supabase
+    .from("comparisons")
+    .update({ status: "failed" })
+    .eq("id", comparisonId);
+
+  if (error) {
+    console.error("comparison-orchestrator: failed to mark comparison as failed", {
+      comparisonId,
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * Hands an unfinished job over to a fresh invocation so long pipelines are not bound
+ * by the wall-clock limit of a single edge function run.
+ */
+async function scheduleContinuation(ctx: WorkerContext, jobId: string) {
+  try {
+    await invokePipelineFunction(ctx, "comparison-orchestrator", { job_id: jobId });
+  } catch (error) {
+    // The scheduled sweep (pg_cron, every minute) picks the job up once the lease expires.
+    console.warn("comparison-orchestrator: continuation failed", {
+      jobId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+async function runJob(ctx: WorkerContext, jobId: string, budgetMs = WORKER_BUDGET_MS): Promise<void> {
+  let job = await claimJob(ctx, jobId);
+  if (!job) {
+    console.log("comparison-orchestrator: job not runnable or already claimed", { jobId });
+    return;
+  }
+
+  const deadline = Date.now() + budgetMs;
+  console.log("comparison-orchestrator: running job", { jobId, stage: job.stage });
+
+  while (job.status === "running" && job.stage !== "done") {
+    if (Date.now() >= deadline) {
+      await updateJob(ctx, job.id, { locked_until: null });
+      await scheduleContinuation(ctx, job.id);
+      return;
+    }
+
+    try {
+      const outcome = await executeStage(ctx, job);
+
+      if (outcome === "blocked") {
+        // Parked at its stage; excluding documents or confirming the mismatch re-runs it with
+        // rerun_from, which restarts settled jobs.
+        await updateJob(ctx, job.id, planStageBlocked("product_type_mismatch"));
+        console.log("comparison-orchestrator: job waiting for product type review", { jobId });
+        return;
+      }
+
+      if (outcome === "wait") {
+        await sleep(EXTRACTION_POLL_INTERVAL_MS);
+        job = await updateJob(ctx, job.id, {
+          locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+        });
+        continue;
+      }
+
+      job = await updateJob(ctx, job.id, {
+        ...planStageSuccess(job, new Date()),
+        locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+      });
+      console.log("comparison-orchestrator: stage completed", { jobId, stage: job.stage });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("comparison-orchestrator: stage failed", { jobId, stage: job.stage, message });
+
+      job = await updateJob(ctx, job.id, planStageFailure(job, error, new Date()));
+
+      if (job.status === "failed") {
+        // After compare-offers the comparison already has its results; the job keeps the failure.
+        if (failsComparison(job.stage)) {
+          await markComparisonFailed(ctx, job.comparison_id);
+        }
+        return;
+      }
+
+      // Wait out the backoff in-process when it fits the budget, otherwise hand over; the
+      // continuation waits out the rest before claiming the job (see continueJob).
+      const retryAt = new Date(job.next_attempt_at).getTime();
+      if (retryAt >= deadline) {
+        await updateJob(ctx, job.id, { locked_until: null });
+        await scheduleContinuation(ctx, job.id);
+        return;
+      }
+
+      await sleep(Math.max(retryAt - Date.now(), 0));
+      job = await updateJob(ctx, job.id, {
+        status: "running",
+        locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+      });
+    }
+  }
+
+  if (job.stage === "done") {
+    await updateJob(ctx, job.id, { status: "completed", locked_until: null });
+    console.log("comparison-orchestrator: job completed", { jobId });
+  }
+}
+
+/** Entry point of a hand-over: waits out a pending retry backoff, then runs the job. */
+async function continueJob(ctx: WorkerContext, jobId: string): Promise<void> {
+  const { data, error } = await ctx.supabase
+    .from("comparison_jobs")
+    .select("status, next_attempt_at")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load comparison job: ${error.message}`);
+  }
+
+  if (!data) {
+    console.log("comparison-orchestrator: continued job not found", { jobId });
+    return;
+  }
+
+  const plan = planContinuation(
+    data as Pick<ComparisonJob, "status" | "next_attempt_at">,
+    new Date(),
+    MAX_CONTINUATION_WAIT_MS,
+  );
+  if (plan.waitMs > 0) {
+    await sleep(plan.waitMs);
+  }
+
+  if (plan.handOver) {
+    await scheduleContinuation(ctx, jobId);
+    return;
+  }
+
+  await runJob(ctx, jobId, WORKER_BUDGET_MS - plan.waitMs);
+}
+
+async function sweepJobs(ctx: WorkerContext): Promise<string[]> {
+  const now = new Date();
+  const { data, error } = await ctx.supabase
+    .from("comparison_jobs")
+    .select("*")
+    .in("status", RUNNABLE_STATUSES)
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(SWEEP_BATCH_SIZE * 4);
+
+  if (error || !data) {
+    throw new Error(`Failed to load pending jobs: ${error?.message ?? "unknown error"}`);
+  }
+
+  const runnable = selectSweepJobs(data as ComparisonJob[], now, SWEEP_BATCH_SIZE);
+
+  for (const jobId of runnable) {
+    runInBackground(runJob(ctx, jobId));
+  }
+
+  return runnable;
+}
+
+serve(async (req) => {
+  const origin = req.headers.get("Origin");
+  const corsHeaders = createCorsHeaders(origin);
+
+  if (!isOriginAllowed(origin)) {
+    return new Response(
+      JSON.stringify({ error: "Origin not allowed" }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+
+    if (!authHeader || authHeader.trim().length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Missing Authorization header" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    let parsedBody: unknown;
+
+    try {
+      parsedBody = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "Invalid JSON payload" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const validation = requestSchema.safeParse(parsedBody);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request payload",
+          details: validation.error.flatten().fieldErrors,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const ctx: WorkerContext = { supabase, supabaseUrl, serviceKey: supabaseKey };
+
+    const accessToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+    const isServiceRoleCall = accessToken.length > 0 && accessToken === supabaseKey;
+    const body = validation.data;
+
+    // Worker entry points (continuations and scheduled sweeps) are reserved for the service role.
+    if ("job_id" in body || "mode" in body) {
+      if (!isServiceRoleCall) {
+        return new Response(
+          JSON.stringify({ error: "Forbidden" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      if ("job_id" in body) {
+        runInBackground(continueJob(ctx, body.job_id));
+        return new Response(
+          JSON.stringify({ success: true, job_id: body.job_id }),
+          { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const started = await sweepJobs(ctx);
+      return new Response(
+        JSON.stringify({ success: true, started }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const {
+      data: { user },
+      error: userError,
+    } = accessToken && !isServiceRoleCall
+      ? await supabase.auth.getUser(accessToken)
+      : { data: { user: null }, error: null } as const;
+
+    if (userError || !user) {
+      console.warn("comparison-orchestrator: user authentication failed", {
+        hasError: !!userError,
+      });
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const { comparison_id, rerun_from } = body;
+    console.log("Orchestrating comparison:", comparison_id);
+
+    const { data: comparison, error: compError } = await supabase
+      .from("comparisons")
+      .select("id, user_id")
+      .eq("id", comparison_id)
+      .single();
+
+    if (compError || !comparison) {
+      throw new Error("Comparison not found");
+    }
+
+    if (comparison.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "Forbidden" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const { data: existingJob, error: existingJobError } = await supabase
+      .from("comparison_jobs")
+      .select("*")
+      .eq("comparison_id", comparison_id)
+      .maybeSingle();
+
+    if (existingJobError) {
+      throw new Error(`Failed to load comparison job: ${existingJobError.message}`);
+    }
+
+    let job = existingJob as ComparisonJob | null;
+    const nowIso = new Date().toISOString();
+
+    if (!job) {
+      const { data: createdJob, error: createError } = await supabase
+        .from("comparison_jobs")
+        .insert({ comparison_id, user_id: user.id, ...(rerun_from ? { stage: rerun_from } : {}) })
+        .select()
+        .single();
+
+      if (createError || !createdJob) {
+        throw new Error(`Failed to create comparison job: ${createError?.message ?? "unknown error"}`);
+      }
+
+      job = createdJob as ComparisonJob;
+
+      if (rerun_from) {
+        await supabase.from("comparisons").update({ status: "processing" }).eq("id", comparison_id);
+      }
+    } else if (rerun_from) {
+      const plan = planRerun(job, rerun_from, new Date());
+
+      if (plan.kind === "conflict") {
+        return new Response(
+          JSON.stringify({ error: "Comparison is already past this stage; retry once it completes", job }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      if (plan.kind === "restart") {
+        job = await updateJob(ctx, job.id, plan.update);
+        await supabase.from("comparisons").update({ status: "processing" }).eq("id", comparison_id);
+      }
+    } else if (job.status === "failed") {
+      // Re-enqueueing a failed job resumes it from the stage that failed with a fresh retry budget.
+      job = await updateJob(ctx, job.id, {
+        status: "queued",
+        attempts: 0,
+        last_error: null,
+        stage_started_at: nowIso,
+        next_attempt_at: nowIso,
+      });
+
+      if (failsComparison(job.stage)) {
+        await supabase.from("comparisons").update({ status: "processing" }).eq("id", comparison_id);
+      }
+    }
+
+    if (job.status !== "completed") {
+      runInBackground(runJob(ctx, job.id));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, job }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in comparison-orchestrator:", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
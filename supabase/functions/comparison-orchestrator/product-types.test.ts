@@ -0,0 +1,60 @@
+import { describe, expect, it } from "bun:test";
+
+import { canonicalizeProductType, detectProductTypeMismatch, resolveDocumentProductType } from "./product-types.ts";
+
+const doc = (id: string, extractedData: unknown) => ({ id, file_name: `${id}.pdf`, extracted_data: extractedData });
+
+const withPredictions = (ai: string | null, segmentation: string | null) => ({
+  product_type: ai,
+  product_type_predictions: {
+    ai,
+    heuristic: { segmentation: segmentation ? { predictedType: segmentation } : null, unified_builder: null },
+  },
+});
+
+describe("canonicalizeProductType", () => {
+  it("maps classifier keys and free-text AI labels onto the same types", () => {
+    expect(canonicalizeProductType("travel_insurance")).toBe("travel_insurance");
+    expect(canonicalizeProductType("Ubezpieczenie turystyczne")).toBe("travel_insurance");
+    expect(canonicalizeProductType("OC/AC")).toBe("auto_insurance");
+    expect(canonicalizeProductType("Polisa")).toBeNull();
+  });
+});
+
+describe("resolveDocumentProductType", () => {
+  it("prefers a recognised AI answer over the keyword classifier", () => {
+    expect(resolveDocumentProductType(withPredictions("Ubezpieczenie na życie", "health_insurance"))).toEqual({
+      productType: "life_insurance",
+      classifierType: "health_insurance",
+      aiType: "life_insurance",
+    });
+    expect(resolveDocumentProductType(withPredictions("Polisa", "health_insurance")).productType).toBe(
+      "health_insurance",
+    );
+  });
+});
+
+describe("detectProductTypeMismatch", () => {
+  it("returns null when all known types agree", () => {
+    expect(
+      detectProductTypeMismatch([
+        doc("a", withPredictions("travel_insurance", null)),
+        doc("b", withPredictions(null, "travel_insurance")),
+        doc("c", withPredictions(null, null)),
+      ]),
+    ).toBeNull();
+  });
+
+  it("flags documents that differ from the dominant type", () => {
+    const mismatch = detectProductTypeMismatch([
+      doc("a", withPredictions("life_insurance", "life_insurance")),
+      doc("b", withPredictions("Ubezpieczenie turystyczne", null)),
+      doc("c", withPredictions(null, "life_insurance")),
+    ]);
+
+    expect(mismatch?.dominant_type).toBe("life_insurance");
+    expect(mismatch?.documents.filter((entry) => !entry.matches_dominant).map((entry) => entry.document_id)).toEqual([
+      "b",
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+// Detects comparisons whose documents cover different insurance products
+
+export interface DocumentProductTypeSnapshot {
+  id: string;
+  file_name: string | null;
+  extracted_data: unknown;
+}
+
+export interface DocumentProductType {
+  document_id: string;
+  file_name: string | null;
+  /** AI result when it maps to a known type, otherwise the keyword classifier's. */
+  product_type: string | null;
+  classifier_type: string | null;
+  ai_type: string | null;
+  matches_dominant: boolean;
+}
+
+export interface ProductTypeMismatch {
+  dominant_type: string;
+  documents: DocumentProductType[];
+}
+
+export type ProductTypeMismatchStatus = "pending" | "acknowledged" | "resolved";
+
+// Same keys as PRODUCT_TYPE_KEYWORDS in extract-insurance-data/classifier.ts. The AI returns free
+// text such as "Ubezpieczenie turystyczne", so it is mapped onto them by keyword.
+const PRODUCT_TYPE_ALIASES: Record<string, string[]> = {
+  life_insurance: ["life", "na życie", "życiow"],
+  health_insurance: ["health", "zdrowot", "medycz"],
+  accident_insurance: ["accident", "nnw", "następstw", "wypadk"],
+  travel_insurance: ["travel", "podróż", "turystycz"],
+  property_insurance: ["property", "majątk", "mieszkani", "dom", "nieruchomoś"],
+  auto_insurance: ["auto", "komunikacyjn", "samoch", "pojazd", "oc/ac"],
+};
+
+export function canonicalizeProductType(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  if (normalized in PRODUCT_TYPE_ALIASES) {
+    return normalized;
+  }
+
+  const match = Object.entries(PRODUCT_TYPE_ALIASES).find(([, aliases]) =>
+    aliases.some((alias) => normalized.includes(alias))
+  );
+  return match?.[0] ?? null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+export function resolveDocumentProductType(extractedData: unknown) {
+  const data = asRecord(extractedData);
+  const predictions = asRecord(data?.product_type_predictions);
+  const heuristic = asRecord(predictions?.heuristic);
+  const classifierType =
+    canonicalizeProductType(asRecord(heuristic?.segmentation)?.predictedType) ??
+    canonicalizeProductType(asRecord(heuristic?.unified_builder)?.predictedType);
+  const aiType = canonicalizeProductType(predictions?.ai ?? data?.product_type);
+
+  return { productType: aiType ?? classifierType, classifierType, aiType };
+}
+
+/**
+ * Returns the mismatch when the documents resolve to more than one product type. Documents whose
+ * type is unknown do not count as a mismatch on their own.
+ */
+export function detectProductTypeMismatch(documents: DocumentProductTypeSnapshot[]): ProductTypeMismatch | null {
+  const resolved = documents.map((doc) => ({ doc, ...resolveDocumentProductType(doc.extracted_data) }));
+
+  const counts = new Map<string, number>();
+  resolved.forEach(({ productType }) => {
+    if (productType) {
+      counts.set(productType, (counts.get(productType) ?? 0) + 1);
+    }
+  });
+
+  if (counts.size < 2) {
+    return null;
+  }
+
+  // Ties go to the type of the earlier document, i.e. the order the broker added them in.
+  const dominantType = Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+
+  return {
+    dominant_type: dominantType,
+    documents: resolved.map(({ doc, productType, classifierType, aiType }) => ({
+      document_id: doc.id,
+      file_name: doc.file_name,
+      product_type: productType,
+      classifier_type: classifierType,
+      ai_type: aiType,
+      matches_dominant: productType === null || productType === dominantType,
+    })),
+  };
+}
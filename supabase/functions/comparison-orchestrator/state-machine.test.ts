@@ -0,0 +1,305 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  JobStageError,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  computeRetryDelayMs,
+  evaluateExtraction,
+  failsComparison,
+  isJobRunnable,
+  nextStage,
+  planContinuation,
+  planRerun,
+  planStageBlocked,
+  planStageFailure,
+  planStageSuccess,
+  selectDocumentsToExtract,
+  selectSweepJobs,
+} from "./state-machine.ts";
+
+const now = new Date("2026-10-18T10:00:00.000Z");
+
+describe("nextStage", () => {
+  it("walks the pipeline in order and stays on done", () => {
+    expect(nextStage("triggering_extraction")).toBe("waiting_for_extraction");
+    expect(nextStage("waiting_for_extraction")).toBe("comparing_offers");
+    expect(nextStage("comparing_offers")).toBe("generating_summary");
+    expect(nextStage("generating_summary")).toBe("done");
+    expect(nextStage("done")).toBe("done");
+  });
+});
+
+describe("computeRetryDelayMs", () => {
+  it("backs off exponentially up to the cap", () => {
+    expect(computeRetryDelayMs(1)).toBe(RETRY_BASE_DELAY_MS);
+    expect(computeRetryDelayMs(2)).toBe(RETRY_BASE_DELAY_MS * 2);
+    expect(computeRetryDelayMs(3)).toBe(RETRY_BASE_DELAY_MS * 4);
+    expect(computeRetryDelayMs(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe("selectDocumentsToExtract", () => {
+  it("starts uploaded and failed documents only", () => {
+    expect(
+      selectDocumentsToExtract(["a", "b", "c", "d", "e"], [
+        { id: "a", status: "uploaded" },
+        { id: "b", status: "processing" },
+        { id: "c", status: "completed" },
+        { id: "d", status: "failed" },
+      ]),
+    ).toEqual(["a", "d"]);
+  });
+});
+
+describe("evaluateExtraction", () => {
+  it("is ready once every document completed", () => {
+    expect(
+      evaluateExtraction(["a", "b"], [
+        { id: "a", status: "completed" },
+        { id: "b", status: "completed" },
+      ]),
+    ).toEqual({ state: "ready" });
+  });
+
+  it("reports pending and missing documents", () => {
+    expect(
+      evaluateExtraction(["a", "b", "c"], [
+        { id: "a", status: "completed" },
+        { id: "b", status: "processing" },
+      ]),
+    ).toEqual({ state: "pending", pendingIds: ["b", "c"] });
+  });
+
+  it("fails as soon as any document failed", () => {
+    expect(
+      evaluateExtraction(["a", "b"], [
+        { id: "a", status: "processing" },
+        { id: "b", status: "failed" },
+      ]),
+    ).toEqual({ state: "failed", failedIds: ["b"] });
+  });
+});
+
+describe("isJobRunnable", () => {
+  it("requires a runnable status, a due attempt and no active lease", () => {
+    const due = { status: "queued" as const, next_attempt_at: now.toISOString(), locked_until: null };
+
+    expect(isJobRunnable(due, now)).toBe(true);
+    expect(isJobRunnable({ ...due, status: "completed" }, now)).toBe(false);
+    expect(isJobRunnable({ ...due, next_attempt_at: "2026-10-18T10:01:00.000Z" }, now)).toBe(false);
+    expect(isJobRunnable({ ...due, status: "running", locked_until: "2026-10-18T10:00:30.000Z" }, now)).toBe(false);
+    expect(isJobRunnable({ ...due, status: "running", locked_until: "2026-10-18T09:59:00.000Z" }, now)).toBe(true);
+  });
+});
+
+describe("selectSweepJobs", () => {
+  const job = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    status: "queued" as const,
+    next_attempt_at: "2026-10-18T09:50:00.000Z",
+    locked_until: null,
+    ...overrides,
+  });
+
+  it("reclaims running jobs whose lease expired", () => {
+    const jobs = [
+      job("abandoned", { status: "running", locked_until: "2026-10-18T09:55:00.000Z" }),
+      job("leased", { status: "running", locked_until: "2026-10-18T10:00:30.000Z" }),
+      job("finished", { status: "completed" }),
+    ];
+
+    expect(selectSweepJobs(jobs, now, 5)).toEqual(["abandoned"]);
+  });
+
+  it("resumes the oldest due jobs first up to the batch size", () => {
+    const jobs = [
+      job("later", { next_attempt_at: "2026-10-18T09:58:00.000Z" }),
+      job("backoff", { status: "retrying", next_attempt_at: "2026-10-18T10:05:00.000Z" }),
+      job("oldest", { next_attempt_at: "2026-10-18T09:00:00.000Z" }),
+      job("middle", { status: "retrying", next_attempt_at: "2026-10-18T09:30:00.000Z" }),
+    ];
+
+    expect(selectSweepJobs(jobs, now, 2)).toEqual(["oldest", "middle"]);
+  });
+});
+
+describe("planContinuation", () => {
+  const inMs = (ms: number) => new Date(now.getTime() + ms).toISOString();
+
+  it("waits out the rest of a retry backoff before running the job", () => {
+    expect(planContinuation({ status: "retrying", next_attempt_at: inMs(8_000) }, now, 60_000)).toEqual({
+      waitMs: 8_000,
+      handOver: false,
+    });
+    expect(planContinuation({ status: "queued", next_attempt_at: inMs(-1_000) }, now, 60_000)).toEqual({
+      waitMs: 0,
+      handOver: false,
+    });
+  });
+
+  it("hands the job over again when the backoff outlasts the wait", () => {
+    expect(planContinuation({ status: "retrying", next_attempt_at: inMs(90_000) }, now, 60_000)).toEqual({
+      waitMs: 60_000,
+      handOver: true,
+    });
+  });
+
+  it("does not wait for settled jobs", () => {
+    expect(planContinuation({ status: "completed", next_attempt_at: inMs(90_000) }, now, 60_000)).toEqual({
+      waitMs: 0,
+      handOver: false,
+    });
+  });
+});
+
+describe("planStageSuccess", () => {
+  it("advances the stage and resets the retry budget", () => {
+    expect(planStageSuccess({ stage: "comparing_offers" }, now)).toEqual({
+      stage: "generating_summary",
+      status: "running",
+      attempts: 0,
+      last_error: null,
+      stage_started_at: now.toISOString(),
+    });
+  });
+
+  it("completes the job after the last stage", () => {
+    expect(planStageSuccess({ stage: "generating_summary" }, now)).toMatchObject({
+      stage: "done",
+      status: "completed",
+    });
+  });
+});
+
+describe("planStageFailure", () => {
+  it("schedules a retry with backoff while attempts remain", () => {
+    const update = planStageFailure(
+      { stage: "comparing_offers", attempts: 1, max_attempts: 3 },
+      new Error("compare-offers failed: 502"),
+      now,
+    );
+
+    expect(update).toEqual({
+      stage: "comparing_offers",
+      status: "retrying",
+      attempts: 2,
+      last_error: "stage_failed",
+      stage_started_at: now.toISOString(),
+      next_attempt_at: new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2).toISOString(),
+    });
+  });
+
+  it("re-triggers extraction when waiting for it failed", () => {
+    const update = planStageFailure(
+      { stage: "waiting_for_extraction", attempts: 0, max_attempts: 3 },
+      new Error("timeout"),
+      now,
+    );
+
+    expect(update.stage).toBe("triggering_extraction");
+  });
+
+  it("fails the job once the retry budget is exhausted", () => {
+    expect(
+      planStageFailure({ stage: "comparing_offers", attempts: 2, max_attempts: 3 }, "boom", now),
+    ).toEqual({
+      status: "failed",
+      attempts: 3,
+      last_error: "stage_failed",
+      locked_until: null,
+    });
+  });
+
+  it("records a summary that could not be generated without failing the comparison", () => {
+    expect(
+      planStageFailure({ stage: "generating_summary", attempts: 2, max_attempts: 3 }, "boom", now),
+    ).toEqual({
+      status: "failed",
+      attempts: 3,
+      last_error: "summary_failed",
+      locked_until: null,
+    });
+  });
+
+  it("records the code of a known failure instead of its message", () => {
+    const update = planStageFailure(
+      { stage: "waiting_for_extraction", attempts: 2, max_attempts: 3 },
+      new JobStageError("documents_failed", "Extraction failed for 1 document(s)"),
+      now,
+    );
+
+    expect(update.last_error).toBe("documents_failed");
+  });
+});
+
+describe("failsComparison", () => {
+  it("fails the comparison only for stages before its results are saved", () => {
+    expect(failsComparison("waiting_for_extraction")).toBe(true);
+    expect(failsComparison("comparing_offers")).toBe(true);
+    expect(failsComparison("generating_summary")).toBe(false);
+  });
+});
+
+describe("planStageBlocked", () => {
+  it("settles the job as blocked without finishing its stage", () => {
+    const update = planStageBlocked("product_type_mismatch");
+
+    expect(update).toEqual({
+      status: "blocked",
+      last_error: "product_type_mismatch",
+      locked_until: null,
+    });
+    expect(update.stage).toBeUndefined();
+    expect(isJobRunnable({ status: "blocked", next_attempt_at: now.toISOString(), locked_until: null }, now)).toBe(false);
+  });
+});
+
+describe("planRerun", () => {
+  it("rewinds finished jobs to the requested stage with a fresh retry budget", () => {
+    for (const status of ["completed", "failed"] as const) {
+      expect(planRerun({ stage: status === "completed" ? "done" : "generating_summary", status }, "comparing_offers", now)).toEqual({
+        kind: "restart",
+        update: {
+          stage: "comparing_offers",
+          status: "queued",
+          attempts: 0,
+          last_error: null,
+          stage_started_at: now.toISOString(),
+          next_attempt_at: now.toISOString(),
+          locked_until: null,
+        },
+      });
+    }
+  });
+
+  it("resumes a job blocked by a product type review from the comparison", () => {
+    const plan = planRerun({ stage: "comparing_offers", status: "blocked" }, "comparing_offers", now);
+    expect(plan.kind).toBe("restart");
+    expect(plan.kind === "restart" && plan.update.status).toBe("queued");
+  });
+
+  it("rewinds a finished job to extraction when offers were added", () => {
+    const plan = planRerun({ stage: "done", status: "completed" }, "triggering_extraction", now);
+    expect(plan.kind).toBe("restart");
+    expect(plan.kind === "restart" && plan.update.stage).toBe("triggering_extraction");
+  });
+
+  it("leaves active jobs alone when they have not reached the stage yet", () => {
+    expect(planRerun({ stage: "waiting_for_extraction", status: "running" }, "comparing_offers", now)).toEqual({
+      kind: "covered",
+    });
+    expect(planRerun({ stage: "comparing_offers", status: "retrying" }, "comparing_offers", now)).toEqual({
+      kind: "covered",
+    });
+  });
+
+  it("reports a conflict for active jobs running or past the stage", () => {
+    expect(planRerun({ stage: "generating_summary", status: "running" }, "comparing_offers", now)).toEqual({
+      kind: "conflict",
+    });
+    expect(planRerun({ stage: "comparing_offers", status: "running" }, "comparing_offers", now)).toEqual({
+      kind: "conflict",
+    });
+  });
+});
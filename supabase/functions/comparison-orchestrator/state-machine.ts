@@ -0,0 +1,283 @@
+export type JobStage =
+  | "triggering_extraction"
+  | "waiting_for_extraction"
+  | "comparing_offers"
+  | "generating_summary"
+  | "done";
+
+export type JobStatus = "queued" | "running" | "retrying" | "completed" | "blocked" | "failed";
+
+export interface ComparisonJob {
+  id: string;
+  user_id: string;
+  comparison_id: string;
+  stage: JobStage;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  stage_started_at: string;
+  next_attempt_at: string;
+  locked_until: string | null;
+}
+
+export type JobUpdate = Partial<
+  Pick<
+    ComparisonJob,
+    "stage" | "status" | "attempts" | "last_error" | "stage_started_at" | "next_attempt_at" | "locked_until"
+  >
+>;
+
+export interface DocumentStatusSnapshot {
+  id: string;
+  status: string;
+}
+
+export type ExtractionState =
+  | { state: "ready" }
+  | { state: "pending"; pendingIds: string[] }
+  | { state: "failed"; failedIds: string[] };
+
+/**
+ * Codes kept in `comparison_jobs.last_error`; the browser translates them (JOB_ERROR_MESSAGES in
+ * src/services/comparison-service.ts). Details of unexpected failures only go to the logs.
+ */
+export type JobErrorCode =
+  | "documents_failed"
+  | "extraction_timeout"
+  | "product_type_mismatch"
+  | "stage_failed"
+  | "summary_failed";
+
+export class JobStageError extends Error {
+  readonly code: JobErrorCode;
+
+  constructor(code: JobErrorCode, message: string) {
+    super(message);
+    this.name = "JobStageError";
+    this.code = code;
+  }
+}
+
+export const toJobErrorCode = (error: unknown): JobErrorCode =>
+  error instanceof JobStageError ? error.code : "stage_failed";
+
+export const RUNNABLE_STATUSES: JobStatus[] = ["queued", "running", "retrying"];
+
+const STAGE_ORDER: JobStage[] = [
+  "triggering_extraction",
+  "waiting_for_extraction",
+  "comparing_offers",
+  "generating_summary",
+  "done",
+];
+
+// A failed stage is retried from the stage that produces its inputs.
+const RETRY_FROM: Record<JobStage, JobStage> = {
+  triggering_extraction: "triggering_extraction",
+  waiting_for_extraction: "triggering_extraction",
+  comparing_offers: "comparing_offers",
+  generating_summary: "generating_summary",
+  done: "done",
+};
+
+export const RETRY_BASE_DELAY_MS = 5_000;
+export const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export function nextStage(stage: JobStage): JobStage {
+  const index = STAGE_ORDER.indexOf(stage);
+  return index >= 0 && index < STAGE_ORDER.length - 1 ? STAGE_ORDER[index + 1] : "done";
+}
+
+/**
+ * Whether failing at `stage` leaves the comparison without results. compare-offers saves the
+ * comparison as completed, so later stages only add to it (the AI summary).
+ */
+export function failsComparison(stage: JobStage): boolean {
+  return STAGE_ORDER.indexOf(stage) <= STAGE_ORDER.indexOf("comparing_offers");
+}
+
+export function computeRetryDelayMs(attempt: number): number {
+  const exponent = Math.max(attempt - 1, 0);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+// Documents in any other status are either extracted already or held by a running extraction.
+export const EXTRACTABLE_DOCUMENT_STATUSES = ["uploaded", "failed"];
+
+/**
+ * Picks the documents the extraction stage should (re)start. Documents still processing are left
+ * to the extraction that owns them, so resumed or handed-over jobs never extract a document twice.
+ */
+export function selectDocumentsToExtract(
+  documentIds: string[],
+  documents: DocumentStatusSnapshot[],
+): string[] {
+  const statusById = new Map(documents.map((doc) => [doc.id, doc.status]));
+  return documentIds.filter((id) => EXTRACTABLE_DOCUMENT_STATUSES.includes(statusById.get(id) ?? ""));
+}
+
+export function evaluateExtraction(
+  documentIds: string[],
+  documents: DocumentStatusSnapshot[],
+): ExtractionState {
+  const statusById = new Map(documents.map((doc) => [doc.id, doc.status]));
+  const failedIds = documentIds.filter((id) => statusById.get(id) === "failed");
+  if (failedIds.length > 0) {
+    return { state: "failed", failedIds };
+  }
+
+  const pendingIds = documentIds.filter((id) => statusById.get(id) !== "completed");
+  if (pendingIds.length > 0) {
+    return { state: "pending", pendingIds };
+  }
+
+  return { state: "ready" };
+}
+
+export function isJobRunnable(job: Pick<ComparisonJob, "status" | "next_attempt_at" | "locked_until">, now: Date): boolean {
+  if (!RUNNABLE_STATUSES.includes(job.status)) {
+    return false;
+  }
+
+  if (new Date(job.next_attempt_at).getTime() > now.getTime()) {
+    return false;
+  }
+
+  return !job.locked_until || new Date(job.locked_until).getTime() <= now.getTime();
+}
+
+export interface ContinuationPlan {
+  waitMs: number;
+  /** The backoff outlasts `maxWaitMs`: wait that long, then hand the job over once more. */
+  handOver: boolean;
+}
+
+/**
+ * How a continuation starts a job it was handed: a job handed over during a retry backoff cannot
+ * be claimed before `next_attempt_at`, so the continuation waits out the rest of it first.
+ */
+export function planContinuation(
+  job: Pick<ComparisonJob, "status" | "next_attempt_at">,
+  now: Date,
+  maxWaitMs: number,
+): ContinuationPlan {
+  if (!RUNNABLE_STATUSES.includes(job.status)) {
+    return { waitMs: 0, handOver: false };
+  }
+
+  const remainingMs = Math.max(new Date(job.next_attempt_at).getTime() - now.getTime(), 0);
+  return remainingMs > maxWaitMs
+    ? { waitMs: maxWaitMs, handOver: true }
+    : { waitMs: remainingMs, handOver: false };
+}
+
+/**
+ * Picks the jobs a sweep should resume: due jobs nobody holds, including jobs still marked
+ * running whose worker stopped renewing the lease. Oldest attempts go first.
+ */
+export function selectSweepJobs<T extends Pick<ComparisonJob, "id" | "status" | "next_attempt_at" | "locked_until">>(
+  jobs: T[],
+  now: Date,
+  limit: number,
+): string[] {
+  return jobs
+    .filter((job) => isJobRunnable(job, now))
+    .sort((a, b) => new Date(a.next_attempt_at).getTime() - new Date(b.next_attempt_at).getTime())
+    .slice(0, limit)
+    .map((job) => job.id);
+}
+
+export function planStageSuccess(job: Pick<ComparisonJob, "stage">, now: Date): JobUpdate {
+  const stage = nextStage(job.stage);
+  return {
+    stage,
+    status: stage === "done" ? "completed" : "running",
+    attempts: 0,
+    last_error: null,
+    stage_started_at: now.toISOString(),
+  };
+}
+
+/**
+ * Parks a job at its stage until the broker resolves what blocks it (a product type mismatch).
+ * Unlike a completed job, the stage is left unfinished so a re-run knows where to resume.
+ */
+export function planStageBlocked(reason: JobErrorCode): JobUpdate {
+  return {
+    status: "blocked",
+    last_error: reason,
+    locked_until: null,
+  };
+}
+
+/**
+ * Records a failed attempt: the stage is rescheduled with exponential backoff until
+ * `max_attempts` is reached, after which the job fails for good. Its comparison fails with it
+ * only when the stage comes before its results (see failsComparison); a summary that could not
+ * be generated is recorded as `summary_failed`.
+ */
+export function planStageFailure(
+  job: Pick<ComparisonJob, "stage" | "attempts" | "max_attempts">,
+  error: unknown,
+  now: Date,
+): JobUpdate {
+  const attempts = job.attempts + 1;
+  const code = toJobErrorCode(error);
+
+  if (attempts >= job.max_attempts) {
+    return {
+      status: "failed",
+      attempts,
+      last_error: failsComparison(job.stage) ? code : "summary_failed",
+      locked_until: null,
+    };
+  }
+
+  return {
+    stage: RETRY_FROM[job.stage],
+    status: "retrying",
+    attempts,
+    last_error: code,
+    stage_started_at: now.toISOString(),
+    next_attempt_at: new Date(now.getTime() + computeRetryDelayMs(attempts)).toISOString(),
+  };
+}
+
+export type RerunPlan =
+  | { kind: "restart"; update: JobUpdate }
+  | { kind: "covered" }
+  | { kind: "conflict" };
+
+/**
+ * Decides how to re-run a comparison from `fromStage` after its inputs changed (e.g. a manual
+ * correction of extracted data). Finished jobs are rewound; active jobs that have not reached
+ * the stage pick the change up on their own, while active jobs past it cannot be rewound
+ * without racing the worker holding the lease.
+ */
+export function planRerun(
+  job: Pick<ComparisonJob, "stage" | "status">,
+  fromStage: JobStage,
+  now: Date,
+): RerunPlan {
+  if (job.status === "completed" || job.status === "blocked" || job.status === "failed") {
+    return {
+      kind: "restart",
+      update: {
+        stage: fromStage,
+        status: "queued",
+        attempts: 0,
+        last_error: null,
+        stage_started_at: now.toISOString(),
+        next_attempt_at: now.toISOString(),
+        locked_until: null,
+      },
+    };
+  }
+
+  // A running stage may already have read the old inputs.
+  const current = STAGE_ORDER.indexOf(job.stage);
+  const target = STAGE_ORDER.indexOf(fromStage);
+  const notStartedYet = current < target || (current === target && job.status !== "running");
+  return notStartedYet ? { kind: "covered" } : { kind: "conflict" };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "bun:test";
+
+import { createCitationLocator } from "./citations.ts";
+import type { MineruPage } from "./mineru-client.ts";
+import { buildUnifiedOffer } from "./unified-builder.ts";
+
+const box = (y: number) => ({ x: 72, y, width: 400, height: 14 });
+
+const pages: MineruPage[] = [
+  {
+    pageNumber: 1,
+    text: "",
+    blocks: [
+      { type: "title", text: "Oferta ubezpieczenia na życie", boundingBox: box(60) },
+      { type: "text", text: "Ochrona na wypadek śmierci\nSuma ubezpieczenia: 200 000,00 zł", boundingBox: box(120) },
+      { type: "text", text: "Składka za ochronę na wypadek śmierci: 89,50 zł", boundingBox: box(150) },
+    ],
+  },
+  {
+    pageNumber: 2,
+    text: "",
+    blocks: [
+      {
+        type: "list",
+        text: "",
+        children: [
+          { type: "text", text: "Łączna składka miesięczna do zapłaty: 1.234,56 zł", boundingBox: box(300) },
+          { type: "text", text: "Wyłączenia: ubezpieczyciel nie obejmuje ochroną sportów wysokiego ryzyka.", boundingBox: box(340) },
+        ],
+      },
+    ],
+  },
+  { pageNumber: 3, text: "Aneks bez układu: zniżka rodzinna 10%" },
+];
+
+describe("createCitationLocator", () => {
+  const locator = createCitationLocator("doc-1", pages);
+
+  it("matches numbers across Polish thousand and decimal separators", () => {
+    expect(locator.locateNumber(200000)).toEqual({
+      documentId: "doc-1",
+      page: 1,
+      textSnippet: "Suma ubezpieczenia: 200 000,00 zł",
+      coordinates: box(120),
+    });
+    expect(locator.locateNumber(1234.56)).toMatchObject({ page: 2, coordinates: box(300) });
+    expect(locator.locateNumber(89.5)).toMatchObject({ page: 1, coordinates: box(150) });
+  });
+
+  it("does not match a number inside a longer one", () => {
+    expect(locator.locateNumber(200)).toBeNull();
+    expect(locator.locateNumber(34.56)).toBeNull();
+  });
+
+  it("uses hint words to choose between blocks with the same value", () => {
+    const ambiguous = createCitationLocator("doc-1", [
+      {
+        pageNumber: 1,
+        text: "",
+        blocks: [
+          { type: "text", text: "Poważne zachorowanie 50 000 zł" },
+          { type: "text", text: "Trwały uszczerbek na zdrowiu 50 000 zł" },
+        ],
+      },
+    ]);
+
+    expect(ambiguous.locateNumber(50000, ["uszczerbek"])?.textSnippet).toBe("Trwały uszczerbek na zdrowiu 50 000 zł");
+  });
+
+  it("finds text by substring or word overlap and falls back to page-level citations", () => {
+    expect(locator.locateText("sportów wysokiego ryzyka")).toMatchObject({ page: 2, coordinates: box(340) });
+    expect(locator.locateText("Ochrona śmierci")).toMatchObject({ page: 1, textSnippet: "Ochrona na wypadek śmierci" });
+    expect(locator.locateText("zniżka rodzinna")).toEqual({
+      documentId: "doc-1",
+      page: 3,
+      textSnippet: "Aneks bez układu: zniżka rodzinna 10%",
+    });
+    expect(locator.locateText("assistance samochodowy")).toBeNull();
+    expect(locator.locateText("missing")).toBeNull();
+  });
+});
+
+describe("buildUnifiedOffer field sources", () => {
+  const aiData = {
+    base_contracts: [{ name: "Ochrona na wypadek śmierci", sum: 200000, premium: 89.5 }],
+    total_premium_after_discounts: 1234.56,
+    exclusions: ["sporty wysokiego ryzyka"],
+  };
+
+  it("cites extracted values by their missing_fields-style path", () => {
+    const { offer } = buildUnifiedOffer([], { documentId: "doc-1", fileName: "oferta.pdf", pages }, aiData);
+
+    expect(offer.field_sources["total_premium_after_discounts"]).toMatchObject({ page: 2, coordinates: box(300) });
+    expect(offer.field_sources["base_contracts[0].sum"]).toMatchObject({ page: 1, coordinates: box(120) });
+    expect(offer.field_sources["base_contracts[0].premium"]).toMatchObject({ page: 1, coordinates: box(150) });
+    expect(offer.field_sources["exclusions[0]"]).toMatchObject({ page: 2, coordinates: box(340) });
+  });
+
+  it("leaves field sources empty without parsed pages", () => {
+    const { offer } = buildUnifiedOffer([], { documentId: "doc-1", fileName: "oferta.pdf" }, aiData);
+
+    expect(offer.field_sources).toEqual({});
+  });
+});
@@ -0,0 +1,178 @@
+import type { MineruBlock, MineruBoundingBox, MineruPage } from './mineru-client.ts';
+
+/** Where a single extracted value was read from. Mirrors `SourceReference` in src/types/comparison.ts. */
+export interface FieldSource {
+  documentId: string;
+  page: number;
+  textSnippet: string;
+  /** Block box in page units with a top-left origin, as reported by the parser. */
+  coordinates?: MineruBoundingBox;
+}
+
+interface CitationCandidate {
+  page: number;
+  text: string;
+  normalized: string;
+  numeric: string;
+  coordinates?: MineruBoundingBox;
+}
+
+export interface CitationLocator {
+  locateNumber(value: number, hints?: Array<string | null | undefined>): FieldSource | null;
+  locateText(value: string, hints?: Array<string | null | undefined>): FieldSource | null;
+}
+
+const MAX_SNIPPET_LENGTH = 200;
+const MIN_TOKEN_OVERLAP = 0.6;
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().replace(/\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Collapses the number formats seen in Polish offers ("1 234,56", "1.234,56") to "1234.56". */
+const normalizeNumbers = (value: string) =>
+  normalizeText(value)
+    .replace(/(\d)[ .](?=\d{3}(?!\d))/g, '$1')
+    .replace(/(\d),(\d)/g, '$1.$2');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const numberPattern = (value: number): RegExp => {
+  const fixed = Math.abs(value).toFixed(2).replace(/\.?0+$/, '');
+  const suffix = fixed.includes('.') ? '0*' : '(?:\\.0+)?';
+  return new RegExp(`(?<![\\d.])${escapeRegExp(fixed)}${suffix}(?![\\d]|\\.\\d)`);
+};
+
+// Polish inflects heavily, so hint words are compared by their first five letters.
+const hintStems = (hints: Array<string | null | undefined>): string[] =>
+  Array.from(new Set(
+    hints
+      .filter((hint): hint is string => typeof hint === 'string' && hint !== 'missing')
+      .flatMap((hint) => normalizeText(hint).split(/[^\p{L}\p{N}]+/u))
+      .filter((token) => token.length >= 3)
+      .map((token) => token.slice(0, 5)),
+  ));
+
+const hintScore = (candidate: CitationCandidate, stems: string[]) =>
+  stems.length === 0 ? 0 : stems.filter((stem) => candidate.normalized.includes(stem)).length / stems.length;
+
+const snippetFor = (candidate: CitationCandidate, matches: (line: string) => boolean) => {
+  const line = candidate.text.split('\n').map((entry) => entry.trim()).find((entry) => entry.length > 0 && matches(entry));
+  const snippet = (line ?? candidate.text).replace(/\s+/g, ' ').trim();
+  return snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : snippet;
+};
+
+const flattenBlocks = (blocks: MineruBlock[]): MineruBlock[] =>
+  blocks.flatMap((block) => [block, ...(block.children ? flattenBlocks(block.children) : [])]);
+
+const buildCandidates = (pages: MineruPage[]): CitationCandidate[] =>
+  pages.flatMap((page) => {
+    const blocks = flattenBlocks(page.blocks ?? []).filter((block) => typeof block.text === 'string' && block.text.trim());
+    const entries = blocks.length > 0
+      ? blocks.map((block) => ({ text: block.text as string, coordinates: block.boundingBox }))
+      : page.text.trim()
+        ? [{ text: page.text, coordinates: undefined }]
+        : [];
+
+    return entries.map(({ text, coordinates }) => ({
+      page: page.pageNumber,
+      text,
+      normalized: normalizeText(text),
+      numeric: normalizeNumbers(text),
+      ...(coordinates ? { coordinates } : {}),
+    }));
+  });
+
+/**
+ * Finds the parsed block an extracted value most likely came from. Numbers are matched in
+ * their normalized form, text by substring or word overlap; hint words (field labels, the
+ * contract name) break ties between several blocks containing the same value.
+ */
+export function createCitationLocator(documentId: string, pages: MineruPage[]): CitationLocator {
+  const candidates = buildCandidates(pages);
+
+  const toSource = (candidate: CitationCandidate, snippet: string): FieldSource => ({
+    documentId,
+    page: candidate.page,
+    textSnippet: snippet,
+    ...(candidate.coordinates ? { coordinates: candidate.coordinates } : {}),
+  });
+
+  const pickBest = (scored: Array<{ candidate: CitationCandidate; score: number }>) =>
+    scored.reduce<{ candidate: CitationCandidate; score: number } | null>(
+      (best, entry) => (entry.score > (best?.score ?? 0) ? entry : best),
+      null,
+    );
+
+  return {
+    locateNumber(value, hints = []) {
+      if (!Number.isFinite(value)) {
+        return null;
+      }
+
+      const pattern = numberPattern(value);
+      const stems = hintStems(hints);
+      const best = pickBest(
+        candidates
+          .filter((candidate) => pattern.test(candidate.numeric))
+          .map((candidate) => ({ candidate, score: 1 + hintScore(candidate, stems) })),
+      );
+
+      return best ? toSource(best.candidate, snippetFor(best.candidate, (line) => pattern.test(normalizeNumbers(line)))) : null;
+    },
+
+    locateText(value, hints = []) {
+      const needle = normalizeText(value).slice(0, 80);
+      if (needle.length < 3 || needle === 'missing') {
+        return null;
+      }
+
+      const tokens = needle.split(/[^\p{L}\p{N}]+/u).filter((token) => token.length >= 4);
+      const stems = hintStems(hints);
+
+      const best = pickBest(candidates.map((candidate) => {
+        if (candidate.normalized.includes(needle)) {
+          return { candidate, score: 2 + hintScore(candidate, stems) };
+        }
+        if (tokens.length === 0) {
+          return { candidate, score: 0 };
+        }
+        const overlap = tokens.filter((token) => candidate.normalized.includes(token)).length / tokens.length;
+        return { candidate, score: overlap >= MIN_TOKEN_OVERLAP ? overlap + hintScore(candidate, stems) / 2 : 0 };
+      }));
+
+      if (!best) {
+        return null;
+      }
+
+      const firstToken = tokens[0] ?? needle;
+      return toSource(best.candidate, snippetFor(best.candidate, (line) => {
+        const normalizedLine = normalizeText(line);
+        return normalizedLine.includes(needle) || normalizedLine.includes(firstToken);
+      }));
+    },
+  };
+}
+
+/**
+ * Whether `text` mentions `value`, using the same number normalization and word overlap as the
+ * locator. Lets callers check a value against arbitrary text such as a classified section.
+ */
+export function mentionsValue(text: string, value: number | string): boolean {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && numberPattern(value).test(normalizeNumbers(text));
+  }
+
+  const needle = normalizeText(value).slice(0, 80);
+  if (needle.length < 3 || needle === 'missing') {
+    return false;
+  }
+
+  const haystack = normalizeText(text);
+  if (haystack.includes(needle)) {
+    return true;
+  }
+
+  const tokens = needle.split(/[^\p{L}\p{N}]+/u).filter((token) => token.length >= 4);
+  return tokens.length > 0 &&
+    tokens.filter((token) => haystack.includes(token)).length / tokens.length >= MIN_TOKEN_OVERLAP;
+}
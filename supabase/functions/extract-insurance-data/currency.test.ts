@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+
+import type { ParsedSection } from "./classifier.ts";
+import { detectOfferCurrency, normalizeCurrencyValue } from "./currency.ts";
+
+const section = (type: ParsedSection["type"], content: string): ParsedSection => ({
+  type,
+  content,
+  keywords: [],
+  confidence: 0.5,
+  pageRange: null,
+  snippet: content.slice(0, 40),
+});
+
+describe("normalizeCurrencyValue", () => {
+  it("maps codes, names and symbols to ISO codes", () => {
+    expect(normalizeCurrencyValue("eur")).toBe("EUR");
+    expect(normalizeCurrencyValue("zł")).toBe("PLN");
+    expect(normalizeCurrencyValue("euro")).toBe("EUR");
+    expect(normalizeCurrencyValue("€")).toBe("EUR");
+    expect(normalizeCurrencyValue("waluta")).toBeNull();
+    expect(normalizeCurrencyValue(null)).toBeNull();
+  });
+});
+
+describe("detectOfferCurrency", () => {
+  it("prefers the currency reported by the model", () => {
+    expect(detectOfferCurrency([section("premium", "Składka: 120 zł")], { premium: { currency: "EUR" } })).toEqual({
+      code: "EUR",
+      source: "ai",
+    });
+  });
+
+  it("reads the currency from premium sections before the rest of the document", () => {
+    const sections = [
+      section("base_contract", "Koszty leczenia do 100 000 zł, bagaż 2 000 zł"),
+      section("premium", "Składka łączna: 45,00 EUR"),
+    ];
+    expect(detectOfferCurrency(sections, {})).toEqual({ code: "EUR", source: "text" });
+  });
+
+  it("does not mistake words containing currency letters for currencies", () => {
+    expect(detectOfferCurrency([section("unknown", "Europejska karta ubezpieczenia zdrowotnego")], {})).toEqual({
+      code: "PLN",
+      source: "default",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Currency detection for extracted offers
+
+import type { ParsedSection } from './classifier.ts';
+
+/** `ai` when the model reported it, `text` when read from section text, `default` when assumed. */
+export type CurrencySource = 'ai' | 'text' | 'default';
+
+export interface DetectedCurrency {
+  code: string;
+  source: CurrencySource;
+}
+
+export const DEFAULT_CURRENCY = 'PLN';
+
+// Letters around codes are excluded explicitly because `\b` does not treat "ł" as a word character.
+const CURRENCY_PATTERNS: Array<{ code: string; pattern: RegExp }> = [
+  { code: 'PLN', pattern: /(?<!\p{L})(?:pln|zł|złotych|złote|zlotych)(?!\p{L})/giu },
+  { code: 'EUR', pattern: /(?<!\p{L})(?:eur|euro)(?!\p{L})|€/giu },
+  { code: 'USD', pattern: /(?<!\p{L})usd(?!\p{L})|\$/giu },
+  { code: 'GBP', pattern: /(?<!\p{L})gbp(?!\p{L})|£/giu },
+  { code: 'CHF', pattern: /(?<!\p{L})chf(?!\p{L})/giu },
+  { code: 'CZK', pattern: /(?<!\p{L})(?:czk|kč)(?!\p{L})/giu }
+];
+
+const countMentions = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const { code, pattern } of CURRENCY_PATTERNS) {
+    const matches = text.match(pattern);
+    if (matches && matches.length > 0) {
+      counts.set(code, (counts.get(code) ?? 0) + matches.length);
+    }
+  }
+  return counts;
+};
+
+/** Maps a reported currency ("EUR", "euro", "zł") to its ISO 4217 code. */
+export function normalizeCurrencyValue(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^[A-Za-z]{3}$/.test(trimmed)) {
+    return trimmed.toUpperCase();
+  }
+
+  const counts = countMentions(trimmed);
+  return counts.size === 1 ? Array.from(counts.keys())[0] : null;
+}
+
+const mostMentioned = (texts: string[]): string | null => {
+  const totals = new Map<string, number>();
+  for (const text of texts) {
+    countMentions(text).forEach((count, code) => totals.set(code, (totals.get(code) ?? 0) + count));
+  }
+
+  let best: { code: string; count: number } | null = null;
+  for (const [code, count] of totals) {
+    if (!best || count > best.count) {
+      best = { code, count };
+    }
+  }
+  return best?.code ?? null;
+};
+
+/**
+ * Resolves the currency premiums are quoted in: the model's answer first, then the currency
+ * mentioned most often in premium sections, then in the whole document. Offers without any
+ * currency mention are assumed to be in PLN.
+ */
+export function detectOfferCurrency(sections: ParsedSection[], aiData: any): DetectedCurrency {
+  const reported = [aiData?.currency, aiData?.premium?.currency]
+    .map(normalizeCurrencyValue)
+    .find((code): code is string => code !== null);
+  if (reported) {
+    return { code: reported, source: 'ai' };
+  }
+
+  const fromPremiums = mostMentioned(
+    sections.filter(section => section.type === 'premium').map(section => section.content)
+  );
+  const fromText = fromPremiums ?? mostMentioned(sections.map(section => section.content));
+  if (fromText) {
+    return { code: fromText, source: 'text' };
+  }
+
+  return { code: DEFAULT_CURRENCY, source: 'default' };
+}
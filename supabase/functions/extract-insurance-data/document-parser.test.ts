@@ -0,0 +1,215 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  DocumentParser,
+  ParseRequest,
+  ParserChainError,
+  ParserName,
+  normalizeParseResult,
+  parseParserChainConfig,
+  runParserChain,
+} from "./document-parser.ts";
+import {
+  ConvertApiParser,
+  createDocumentParsers,
+  FixtureParser,
+  MineruParser,
+  RecordingParser,
+} from "./parser-providers.ts";
+
+const request: ParseRequest = {
+  documentId: "doc-1",
+  fileName: "oferta.pdf",
+  format: "pdf",
+  sourceUrl: "https://storage.example.com/object/sign/oferta.pdf?token=abc",
+  enableOcr: true,
+};
+
+const longText = "Suma ubezpieczenia 200 000 zł. ".repeat(10);
+
+function stubParser(
+  name: ParserName,
+  behaviour: { text?: string; error?: Error; formats?: string[] },
+): DocumentParser & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    supports: (format) => !behaviour.formats || behaviour.formats.includes(format),
+    async parse() {
+      this.calls += 1;
+      if (behaviour.error) {
+        throw behaviour.error;
+      }
+      return normalizeParseResult(name, {
+        pages: [{ pageNumber: 1, text: behaviour.text ?? "" }],
+        text: "",
+        structureSummary: null,
+      });
+    },
+  };
+}
+
+describe("parseParserChainConfig", () => {
+  it("keeps known providers in order and drops unknown or duplicate names", () => {
+    expect(parseParserChainConfig(" PDF-TEXT, mineru,ocr-magic, mineru ")).toEqual(["pdf-text", "mineru"]);
+  });
+
+  it("falls back to the default chain for empty or unusable values", () => {
+    expect(parseParserChainConfig(undefined)).toEqual(["pdf-text", "mineru", "convertapi"]);
+    expect(parseParserChainConfig("nope", ["fixture"])).toEqual(["fixture"]);
+  });
+});
+
+describe("runParserChain", () => {
+  it("returns the first sufficient result and does not call later parsers", async () => {
+    const first = stubParser("mineru", { text: longText });
+    const second = stubParser("convertapi", { text: longText });
+
+    const outcome = await runParserChain([first, second], request);
+
+    expect(outcome.result.provider).toBe("mineru");
+    expect(outcome.fallbackUsed).toBe(false);
+    expect(second.calls).toBe(0);
+    expect(outcome.attempts).toEqual([
+      expect.objectContaining({ provider: "mineru", status: "succeeded", textLength: longText.trim().length }),
+    ]);
+  });
+
+  it("falls through failures and short results, recording every attempt", async () => {
+    const outcome = await runParserChain(
+      [
+        stubParser("pdf-text", { text: "za mało" }),
+        stubParser("mineru", { error: new Error("MinerU timeout") }),
+        stubParser("convertapi", { text: longText }),
+      ],
+      request,
+    );
+
+    expect(outcome.result.provider).toBe("convertapi");
+    expect(outcome.fallbackUsed).toBe(true);
+    expect(outcome.attempts.map((attempt) => attempt.status)).toEqual(["insufficient", "failed", "succeeded"]);
+    expect(outcome.attempts[1].error).toBe("MinerU timeout");
+  });
+
+  it("moves on when a provider flags its own output as incomplete", async () => {
+    const scanned: DocumentParser = {
+      name: "pdf-text",
+      supports: () => true,
+      parse: async () => ({
+        ...normalizeParseResult("pdf-text", { pages: [{ pageNumber: 1, text: longText }], text: "", structureSummary: null }),
+        lowTextReason: "scanned pages: 2, 3",
+      }),
+    };
+
+    const outcome = await runParserChain([scanned, stubParser("mineru", { text: longText })], request);
+
+    expect(outcome.result.provider).toBe("mineru");
+    expect(outcome.attempts[0]).toMatchObject({ status: "insufficient", reason: "scanned pages: 2, 3" });
+  });
+
+  it("keeps the longest insufficient result when nothing reaches the threshold", async () => {
+    const outcome = await runParserChain(
+      [stubParser("mineru", { text: "krótki" }), stubParser("convertapi", { text: "nieco dłuższy tekst" })],
+      request,
+    );
+
+    expect(outcome.result.provider).toBe("convertapi");
+    expect(outcome.result.text).toBe("nieco dłuższy tekst");
+  });
+
+  it("skips parsers that do not support the format", async () => {
+    const outcome = await runParserChain(
+      [stubParser("pdf-text", { text: longText, formats: ["pdf"] }), stubParser("mineru", { text: longText })],
+      { ...request, format: "jpg" },
+    );
+
+    expect(outcome.result.provider).toBe("mineru");
+    expect(outcome.fallbackUsed).toBe(false);
+    expect(outcome.attempts[0]).toMatchObject({ provider: "pdf-text", status: "skipped" });
+  });
+
+  it("rethrows the last provider error when every parser fails", async () => {
+    const error = new Error("ConvertAPI 500");
+
+    await expect(
+      runParserChain([stubParser("mineru", { error: new Error("boom") }), stubParser("convertapi", { error })], request),
+    ).rejects.toBe(error);
+  });
+
+  it("reports when no parser supports the format", async () => {
+    await expect(
+      runParserChain([stubParser("pdf-text", { text: longText, formats: ["pdf"] })], { ...request, format: "heic" }),
+    ).rejects.toBeInstanceOf(ParserChainError);
+  });
+});
+
+describe("parser providers", () => {
+  it("MinerU parser forwards OCR and progress options to the client", async () => {
+    const calls: Array<Record<string, unknown>> = [];
+    const parser = new MineruParser({
+      async analyzeDocument(options) {
+        calls.push(options as unknown as Record<string, unknown>);
+        await options.onProgress?.("task_running");
+        return { pages: [{ pageNumber: 1, text: "  Oferta \n" }], text: "", structureSummary: null };
+      },
+    });
+    const stages: string[] = [];
+
+    const result = await parser.parse({ ...request, format: "png", enableOcr: false, onProgress: (stage) => { stages.push(stage); } });
+
+    expect(calls[0]).toMatchObject({ signedUrl: request.sourceUrl, documentId: "doc-1", enableOcr: true });
+    expect(stages).toEqual(["task_running"]);
+    expect(result).toMatchObject({ provider: "mineru", text: "Oferta" });
+  });
+
+  it("ConvertAPI parser downloads the text file and splits pages on form feeds", async () => {
+    const requests: string[] = [];
+    const fetchStub = (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requests.push(url);
+      if (url.startsWith("https://v2.convertapi.com/")) {
+        return new Response(JSON.stringify({ Files: [{ Url: "https://files.example.com/out.txt" }] }));
+      }
+      return new Response("Strona pierwsza\fStrona druga\f");
+    }) as typeof fetch;
+
+    const result = await new ConvertApiParser("secret", fetchStub).parse({ ...request, format: "docx" });
+
+    expect(requests[0]).toBe("https://v2.convertapi.com/convert/docx/to/txt?Secret=secret");
+    expect(result.pages.map((page) => page.text)).toEqual(["Strona pierwsza", "Strona druga"]);
+    expect(new ConvertApiParser("secret").supports("jpg")).toBe(false);
+  });
+
+  it("fixture parser serves recorded results by document id, then file name", async () => {
+    const fixtures: Record<string, string> = {
+      "oferta.pdf": JSON.stringify({ pages: [{ pageNumber: 1, text: "Nagrana oferta" }], structureSummary: null }),
+    };
+    const parser = new FixtureParser(async (key) => fixtures[key] ?? null);
+
+    const result = await parser.parse(request);
+
+    expect(result).toMatchObject({ provider: "fixture", text: "Nagrana oferta" });
+    await expect(parser.parse({ ...request, fileName: "inna.pdf" })).rejects.toThrow("No parser fixture recorded");
+  });
+
+  it("recording parser stores live results in the fixture format", async () => {
+    const written: Record<string, string> = {};
+    const recorder = new RecordingParser(stubParser("mineru", { text: longText }), async (key, contents) => {
+      written[key] = contents;
+    });
+
+    await recorder.parse(request);
+    const replayed = await new FixtureParser(async (key) => written[key] ?? null).parse(request);
+
+    expect(recorder.name).toBe("mineru");
+    expect(replayed.text).toBe(longText.trim());
+  });
+
+  it("creates only the providers whose credentials are configured", () => {
+    const env: Record<string, string> = { CONVERTAPI_SECRET: "secret" };
+    const parsers = createDocumentParsers(["pdf-text", "mineru", "convertapi"], (key) => env[key]);
+
+    expect(parsers.map((parser) => parser.name)).toEqual(["pdf-text", "convertapi"]);
+    expect(() => createDocumentParsers(["mineru"], () => undefined)).toThrow("No document parsers available");
+  });
+});
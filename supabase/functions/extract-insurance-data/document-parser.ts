@@ -0,0 +1,179 @@
+import type {
+  MineruPage,
+  MineruProgressStage,
+  MineruStructuralSummary,
+} from './mineru-client.ts';
+import { sanitizePlainText } from './mineru-client.ts';
+import type { InputFormat } from './input-formats.ts';
+
+export type ParserName = 'pdf-text' | 'mineru' | 'convertapi' | 'fixture';
+
+export const PARSER_NAMES: ParserName[] = ['pdf-text', 'mineru', 'convertapi', 'fixture'];
+
+/** The local text layer goes first; MinerU only runs for scans and low-text results. */
+export const DEFAULT_PARSER_CHAIN: ParserName[] = ['pdf-text', 'mineru', 'convertapi'];
+
+/** Below this many characters a result is treated as insufficient and the next parser is tried. */
+export const DEFAULT_MIN_TEXT_LENGTH = 100;
+
+export interface ParseRequest {
+  documentId: string;
+  fileName: string;
+  format: InputFormat;
+  /** Signed URL of the original upload. */
+  sourceUrl: string;
+  enableOcr: boolean;
+  onProgress?: (stage: MineruProgressStage) => void | Promise<void>;
+}
+
+export interface ParseResult {
+  provider: ParserName;
+  pages: MineruPage[];
+  text: string;
+  structureSummary: MineruStructuralSummary | null;
+  /** Set by providers that can tell their own output is incomplete, e.g. scanned pages. */
+  lowTextReason?: string;
+  /** Pages that had no text layer, when the provider can tell. */
+  scannedPages?: number[];
+}
+
+/**
+ * A provider that turns an uploaded offer into page text (and, when available, layout blocks).
+ * Providers are composed into a fallback chain by `runParserChain`.
+ */
+export interface DocumentParser {
+  readonly name: ParserName;
+  supports(format: InputFormat): boolean;
+  parse(request: ParseRequest): Promise<ParseResult>;
+}
+
+export type ParserAttemptStatus = 'succeeded' | 'insufficient' | 'failed' | 'skipped';
+
+export interface ParserAttempt {
+  provider: ParserName;
+  status: ParserAttemptStatus;
+  durationMs: number;
+  textLength?: number;
+  reason?: string;
+  error?: string;
+}
+
+export interface ParserChainResult {
+  result: ParseResult;
+  attempts: ParserAttempt[];
+  /** True when the accepted result did not come from the first applicable parser. */
+  fallbackUsed: boolean;
+}
+
+export class ParserChainError extends Error {
+  constructor(message: string, readonly attempts: ParserAttempt[]) {
+    super(message);
+    this.name = 'ParserChainError';
+  }
+}
+
+/**
+ * Parses a comma-separated provider list such as `pdf-text,mineru,convertapi`.
+ * Unknown names are ignored; an empty result falls back to the default chain.
+ */
+export function parseParserChainConfig(
+  value: string | null | undefined,
+  fallback: ParserName[] = DEFAULT_PARSER_CHAIN,
+): ParserName[] {
+  if (!value || value.trim().length === 0) {
+    return [...fallback];
+  }
+
+  const names = value
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry): entry is ParserName => (PARSER_NAMES as string[]).includes(entry));
+
+  const unique = Array.from(new Set(names));
+  return unique.length > 0 ? unique : [...fallback];
+}
+
+/** Normalizes provider output so downstream segmentation sees the same shape regardless of source. */
+export function normalizeParseResult(provider: ParserName, raw: Omit<ParseResult, 'provider'>): ParseResult {
+  const pages = raw.pages.map((page) => ({
+    ...page,
+    text: typeof page.text === 'string' ? sanitizePlainText(page.text) : '',
+  }));
+  const documentText = typeof raw.text === 'string' ? sanitizePlainText(raw.text) : '';
+  const pagesText = sanitizePlainText(pages.map((page) => page.text).filter(Boolean).join('\n\n'));
+
+  return {
+    provider,
+    pages,
+    text: documentText || pagesText,
+    structureSummary: raw.structureSummary ?? null,
+    ...(raw.lowTextReason ? { lowTextReason: raw.lowTextReason } : {}),
+    ...(raw.scannedPages?.length ? { scannedPages: raw.scannedPages } : {}),
+  };
+}
+
+/**
+ * Tries each applicable parser in order. A result shorter than `minTextLength`, or one its
+ * provider flagged with `lowTextReason`, is kept as a candidate while the remaining parsers run; the longest candidate wins if none is sufficient.
+ * When every parser fails, the last error is rethrown so provider-specific handling still applies.
+ */
+export async function runParserChain(
+  parsers: DocumentParser[],
+  request: ParseRequest,
+  { minTextLength = DEFAULT_MIN_TEXT_LENGTH }: { minTextLength?: number } = {},
+): Promise<ParserChainResult> {
+  const attempts: ParserAttempt[] = [];
+  let bestCandidate: ParseResult | null = null;
+  let firstApplicable: ParserName | null = null;
+  let lastError: unknown = null;
+
+  for (const parser of parsers) {
+    if (!parser.supports(request.format)) {
+      attempts.push({ provider: parser.name, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    firstApplicable ??= parser.name;
+    const startedAt = Date.now();
+
+    try {
+      const result = await parser.parse(request);
+      const textLength = result.text.length;
+
+      if (textLength >= minTextLength && !result.lowTextReason) {
+        attempts.push({ provider: parser.name, status: 'succeeded', durationMs: Date.now() - startedAt, textLength });
+        return { result, attempts, fallbackUsed: parser.name !== firstApplicable };
+      }
+
+      attempts.push({
+        provider: parser.name,
+        status: 'insufficient',
+        durationMs: Date.now() - startedAt,
+        textLength,
+        reason: result.lowTextReason ?? `text shorter than ${minTextLength} characters`,
+      });
+      if (!bestCandidate || textLength > bestCandidate.text.length) {
+        bestCandidate = result;
+      }
+    } catch (error) {
+      lastError = error;
+      attempts.push({
+        provider: parser.name,
+        status: 'failed',
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (bestCandidate) {
+    return { result: bestCandidate, attempts, fallbackUsed: bestCandidate.provider !== firstApplicable };
+  }
+
+  if (lastError) {
+    console.error('❌ All document parsers failed', { document_id: request.documentId, attempts });
+    throw lastError;
+  }
+
+  throw new ParserChainError(`No configured parser supports ${request.format} documents`, attempts);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+
+import type { ParsedSection } from "./classifier.ts";
+import { scoreFieldConfidence } from "./field-confidence.ts";
+import { buildUnifiedOffer } from "./unified-builder.ts";
+
+const section = (type: ParsedSection["type"], content: string, confidence: number): ParsedSection => ({
+  type,
+  content,
+  keywords: [],
+  confidence,
+  pageRange: { start: 1, end: 1 },
+  snippet: content.slice(0, 40),
+});
+
+const sections: ParsedSection[] = [
+  section("premium", "Łączna składka miesięczna do zapłaty: 1.234,56 zł", 0.5),
+  section("base_contract", "Ochrona na wypadek śmierci\nSuma ubezpieczenia: 200 000,00 zł", 0.4),
+  section("discount", "Zniżka: 10% za płatność roczną", 0.3),
+];
+
+describe("scoreFieldConfidence", () => {
+  it("rates AI values printed in a section of the expected type as high", () => {
+    expect(scoreFieldConfidence({ value: 1234.56, origin: "ai", sectionTypes: ["premium"] }, sections)).toEqual({
+      score: 0.88,
+      level: "high",
+      origin: "ai",
+      section_confidence: 0.5,
+      agreement: "confirmed",
+    });
+  });
+
+  it("lowers values found only outside the expected sections", () => {
+    const result = scoreFieldConfidence({ value: 200000, origin: "ai", sectionTypes: ["premium"] }, sections);
+    expect(result.agreement).toBe("other_section");
+    expect(result.level).toBe("medium");
+  });
+
+  it("flags AI values that no section mentions", () => {
+    const result = scoreFieldConfidence({ value: 999.99, origin: "ai", sectionTypes: ["duration"] }, sections);
+    expect(result).toMatchObject({ level: "low", agreement: "not_found", section_confidence: null });
+  });
+
+  it("stays neutral when there is no section text to compare with", () => {
+    const result = scoreFieldConfidence({ value: 1234.56, origin: "ai", sectionTypes: ["premium"] }, []);
+    expect(result).toMatchObject({ score: 0.5, level: "medium", agreement: "no_sections" });
+  });
+});
+
+describe("buildUnifiedOffer field confidence", () => {
+  it("scores every extracted value and marks regex-derived list items", () => {
+    const { offer } = buildUnifiedOffer(
+      sections,
+      { documentId: "doc-1", fileName: "oferta.pdf" },
+      {
+        total_premium_after_discounts: 1234.56,
+        base_contracts: [{ name: "Ochrona na wypadek śmierci", sum: 200000, premium: 480 }],
+      },
+    );
+
+    expect(offer.field_confidence["total_premium_after_discounts"].level).toBe("high");
+    expect(offer.field_confidence["base_contracts[0].sum"].agreement).toBe("confirmed");
+    expect(offer.field_confidence["base_contracts[0].premium"]).toMatchObject({ level: "low", agreement: "not_found" });
+    expect(offer.field_confidence["discounts[0]"].origin).toBe("regex");
+    expect(offer.field_confidence["total_premium_before_discounts"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+// Per-field confidence scoring for unified offers
+
+import { mentionsValue } from './citations.ts';
+import type { ParsedSection, SectionType } from './classifier.ts';
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+/** `ai` values come from the model response, `regex` values were read from section text directly. */
+export type FieldOrigin = 'ai' | 'regex';
+
+/**
+ * How the parsed sections relate to the value: found in a section of the expected type,
+ * found only in some other section, not found anywhere, or no section text to check against.
+ */
+export type SectionAgreement = 'confirmed' | 'other_section' | 'not_found' | 'no_sections';
+
+export interface FieldConfidence {
+  score: number;
+  level: ConfidenceLevel;
+  origin: FieldOrigin;
+  /** Highest classifier confidence among sections of the expected type, null when there are none. */
+  section_confidence: number | null;
+  agreement: SectionAgreement;
+}
+
+export interface FieldConfidenceInput {
+  value: number | string;
+  origin: FieldOrigin;
+  /** Section types the value is expected to be printed in. */
+  sectionTypes: SectionType[];
+}
+
+const ORIGIN_BASE: Record<FieldOrigin, number> = {
+  ai: 0.5,
+  regex: 0.45,
+};
+
+const AGREEMENT_ADJUSTMENT: Record<SectionAgreement, number> = {
+  confirmed: 0.25,
+  other_section: 0.1,
+  not_found: -0.15,
+  no_sections: 0,
+};
+
+const SECTION_CONFIDENCE_WEIGHT = 0.25;
+
+export const confidenceLevelFor = (score: number): ConfidenceLevel => {
+  if (score >= 0.75) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+};
+
+/**
+ * Scores a single extracted value. An AI value that no parsed section mentions is the
+ * typical hallucination and ends up `low`; a value printed in a well classified section
+ * of the expected type ends up `high`.
+ */
+export function scoreFieldConfidence(input: FieldConfidenceInput, sections: ParsedSection[]): FieldConfidence {
+  const withText = sections.filter(section => section.content.trim().length > 0);
+  const relevant = withText.filter(section => input.sectionTypes.includes(section.type));
+
+  const sectionConfidence = relevant.length > 0
+    ? Math.max(...relevant.map(section => section.confidence))
+    : null;
+
+  let agreement: SectionAgreement;
+  if (withText.length === 0) {
+    agreement = 'no_sections';
+  } else if (relevant.some(section => mentionsValue(section.content, input.value))) {
+    agreement = 'confirmed';
+  } else if (withText.some(section => mentionsValue(section.content, input.value))) {
+    agreement = 'other_section';
+  } else {
+    agreement = 'not_found';
+  }
+
+  const rawScore = ORIGIN_BASE[input.origin] +
+    SECTION_CONFIDENCE_WEIGHT * Math.min(Math.max(sectionConfidence ?? 0, 0), 1) +
+    AGREEMENT_ADJUSTMENT[agreement];
+  const score = Math.round(Math.min(Math.max(rawScore, 0), 1) * 100) / 100;
+
+  return {
+    score,
+    level: confidenceLevelFor(score),
+    origin: input.origin,
+    section_confidence: sectionConfidence,
+    agreement
+  };
+}
@@ -1,12 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  addLlmUsage,
+  chatCompletion,
+  EMPTY_USAGE,
+  resolveLlmProvider,
+  type LlmContentBlock,
+  type LlmProviderConfig,
+} from "../_shared/llm/mod.ts";
 import {
   convertMineruPagesToSections,
-  MineruClient,
   MineruClientError,
   MineruHttpError,
   MineruPage,
+  MineruProgressStage,
   MineruStructuralSummary,
   MineruStructuralSummaryPage,
   sanitizePlainText
@@ -19,8 +27,29 @@ import {
 } from './classifier.ts';
 import { buildUnifiedOffer, UnifiedOfferBuildResult } from './unified-builder.ts';
 import { ensureRowsUpdated } from './update-utils.ts';
-
-type LovableContentBlock = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+import { reapplyManualCorrections } from './manual-corrections.ts';
+import { detectInputFormat } from './input-formats.ts';
+import { parseParserChainConfig, runParserChain } from './document-parser.ts';
+import { createDocumentParsers } from './parser-providers.ts';
+import {
+  buildProductFieldsSchema,
+  buildProductTemplateInstructions,
+  getProductTemplate,
+  normalizeProductFields
+} from './product-templates.ts';
+
+type DocumentProcessingStage =
+  | 'mineru_queued'
+  | 'mineru_running'
+  | 'archive_downloaded'
+  | 'ai_extraction'
+  | 'unified_build';
+
+const MINERU_PROGRESS_STAGES: Record<MineruProgressStage, DocumentProcessingStage> = {
+  task_queued: 'mineru_queued',
+  task_running: 'mineru_running',
+  archive_downloaded: 'archive_downloaded',
+};
 
 const allowedOrigins = (Deno.env.get("CORS_ALLOWED_ORIGINS") || "")
   .split(",")
@@ -77,106 +106,50 @@ Format danych:
 
 Oznacz brakujące wartości jako null (nie jako "missing" ani undefined).`;
 
-interface AiRetryDecision {
-  shouldRetry: boolean;
-  updatedContent?: LovableContentBlock[];
-}
+const EXTRACTION_MODEL = 'google/gemini-2.5-flash';
 
-async function callLovableWithRetry(
-  lovableApiKey: string,
+async function callExtractionModel(
+  llm: LlmProviderConfig,
   schemaParameters: any,
-  initialContent: LovableContentBlock[],
-  options: {
-    timeoutMs?: number;
-    maxRetries?: number;
-    onRetry?: (errorText: string, attempt: number) => Promise<AiRetryDecision> | AiRetryDecision;
-  } = {}
+  content: LlmContentBlock[],
+  options: { timeoutMs?: number; maxRetries?: number } = {}
 ) {
-  const controller = new AbortController();
-  const timeoutMs = options.timeoutMs ?? 120000;
-  const maxRetries = options.maxRetries ?? 0;
-  const onRetry = options.onRetry;
-
-  let content = initialContent;
-  let attempt = 0;
-  let aiResponse: Response | undefined;
-
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  while (attempt <= maxRetries) {
-    try {
-      console.log(`✅ Lovable call attempt ${attempt + 1}/${maxRetries + 1}`);
-      aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${lovableApiKey}`,
-          'Content-Type': 'application/json',
+  const result = await chatCompletion(
+    llm,
+    {
+      messages: [
+        {
+          role: 'system',
+          content: LOVABLE_SYSTEM_PROMPT
         },
-        signal: controller.signal,
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [
-            {
-              role: 'system',
-              content: LOVABLE_SYSTEM_PROMPT
-            },
-            {
-              role: 'user',
-              content
-            }
-          ],
-          tools: [
-            {
-              type: "function",
-              function: {
-                name: "extract_insurance_data",
-                description: "Extract structured data from insurance policy document in unified format",
-                parameters: schemaParameters
-              }
-            }
-          ],
-          tool_choice: {
-            type: 'function',
-            function: { name: 'extract_insurance_data' }
+        {
+          role: 'user',
+          content
+        }
+      ],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "extract_insurance_data",
+            description: "Extract structured data from insurance policy document in unified format",
+            parameters: schemaParameters
           }
-        }),
-      });
-
-      console.log('✅ Lovable response status:', aiResponse.status);
-
-      if (aiResponse.ok) {
-        break;
-      }
-
-      const errorText = await aiResponse.text();
-      console.error(`❌ Lovable error (attempt ${attempt + 1}):`, errorText);
-
-      if (attempt < maxRetries && onRetry) {
-        const decision = await onRetry(errorText, attempt);
-        if (decision.shouldRetry) {
-          content = decision.updatedContent ?? content;
-          attempt++;
-          continue;
         }
+      ],
+      tool_choice: {
+        type: 'function',
+        function: { name: 'extract_insurance_data' }
       }
-
-      throw new Error(`AI API error: ${aiResponse.status} - ${errorText}`);
-    } catch (error: any) {
-      clearTimeout(timeoutId);
-      if (error.name === 'AbortError') {
-        throw new Error('AI processing timeout - file may be too large or complex');
-      }
-      throw error;
+    },
+    {
+      timeoutMs: options.timeoutMs ?? 120000,
+      maxRetries: options.maxRetries ?? 0
     }
-  }
-
-  clearTimeout(timeoutId);
-
-  if (!aiResponse || !aiResponse.ok) {
-    throw new Error('Failed after all retry attempts');
-  }
+  );
 
-  return aiResponse.json();
+  console.log(`✅ AI extraction response after ${result.attempts} attempt(s)`);
+  return result;
 }
 
 function parseAiExtractionResponse(aiData: any) {
@@ -394,7 +367,7 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
+    const llm = resolveLlmProvider((name) => Deno.env.get(name), { defaultModel: EXTRACTION_MODEL });
     console.log('✅ Step 4: Env vars loaded');
 
     supabase = createClient(supabaseUrl, supabaseKey, {
@@ -407,14 +380,16 @@ serve(async (req) => {
     console.log('✅ Step 5: Supabase client created');
 
     const accessToken = authHeader.replace(/^Bearer\s+/i, '').trim();
+    // The comparison-orchestrator worker calls this function with the service role key.
+    const isServiceRoleCall = accessToken.length > 0 && accessToken === supabaseKey;
     const {
       data: { user },
       error: userError
-    } = accessToken
+    } = accessToken && !isServiceRoleCall
       ? await supabase.auth.getUser(accessToken)
       : { data: { user: null }, error: null } as const;
 
-    if (userError || !user) {
+    if (!isServiceRoleCall && (userError || !user)) {
       console.warn('extract-insurance-data: user authentication failed', {
         hasError: !!userError
       });
@@ -439,7 +414,7 @@ serve(async (req) => {
       throw new Error('Document not found');
     }
 
-    if (document.user_id !== user.id) {
+    if (!isServiceRoleCall && document.user_id !== user.id) {
       return new Response(
         JSON.stringify({ error: 'Forbidden' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -451,11 +426,13 @@ serve(async (req) => {
       file_path: document.file_path
     });
 
-    const mimeType = document.mime_type ?? 'application/pdf';
-    if (mimeType !== 'application/pdf') {
-      console.warn(`❌ Unsupported MIME type requested: ${mimeType}`);
+    // Legacy rows without a MIME type were always PDFs.
+    const inputFormat = detectInputFormat(document.mime_type, document.file_name)
+      ?? (document.mime_type ? null : 'pdf');
+    if (!inputFormat) {
+      console.warn(`❌ Unsupported document format requested: ${document.mime_type ?? document.file_name}`);
       return new Response(
-        JSON.stringify({ error: 'Only PDF documents are supported' }),
+        JSON.stringify({ error: 'Supported formats: PDF, DOCX, DOC, PNG, JPG, HEIC' }),
         { status: 415, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -466,7 +443,7 @@ serve(async (req) => {
       error: processingUpdateError,
     } = await supabase
       .from('documents')
-      .update({ status: 'processing' })
+      .update({ status: 'processing', processing_stage: null, processing_stage_updated_at: new Date().toISOString() })
       .eq('id', document_id)
       .select('id');
 
@@ -480,7 +457,19 @@ serve(async (req) => {
 
     console.log('✅ Step 9: Status updated to processing');
 
-    // Generate signed URL for MinerU extraction
+    // Progress is best-effort: the browser follows it over Realtime, extraction must not fail on it.
+    const recordProcessingStage = async (stage: DocumentProcessingStage) => {
+      const { error: stageError } = await supabase
+        .from('documents')
+        .update({ processing_stage: stage, processing_stage_updated_at: new Date().toISOString() })
+        .eq('id', document_id);
+
+      if (stageError) {
+        console.warn('⚠️ Failed to record processing stage', { document_id, stage, message: stageError.message });
+      }
+    };
+
+    // Generate signed URL for document parsing
     const { data: signedUrlData, error: signedUrlError } = await supabase.storage
       .from('insurance-documents')
       .createSignedUrl(document.file_path, 60 * 15);
@@ -490,159 +479,58 @@ serve(async (req) => {
     }
 
     const signedUrl = signedUrlData.signedUrl;
-    console.log('✅ Step 9: Signed URL generated for MinerU task');
+    console.log('✅ Step 9: Signed URL generated for document parsing');
 
-    console.log('✅ Step 10: Using MinerU for asynchronous document extraction...');
-
-    const mineruApiKey = Deno.env.get('MINERU_API_KEY');
-    if (!mineruApiKey) {
-      throw new Error('MINERU_API_KEY is not configured');
-    }
+    const parserNames = parseParserChainConfig(Deno.env.get('DOCUMENT_PARSERS'));
+    console.log('✅ Step 10: Parsing document with provider chain:', parserNames.join(' → '));
 
     const mineruEnableOcrEnv = Deno.env.get('MINERU_ENABLE_OCR');
     const mineruEnableOcr = mineruEnableOcrEnv
       ? !['false', '0', 'off', 'no'].includes(mineruEnableOcrEnv.trim().toLowerCase())
       : true;
 
-    const mineruClient = new MineruClient({
-      apiKey: mineruApiKey,
-      baseUrl: Deno.env.get('MINERU_API_URL') ?? undefined,
-      organizationId: Deno.env.get('MINERU_ORG_ID') ?? undefined
+    const parsers = createDocumentParsers(parserNames, (key) => Deno.env.get(key));
+    const {
+      result: parseResult,
+      attempts: parserAttempts,
+      fallbackUsed: ocrFallbackUsed,
+    } = await runParserChain(parsers, {
+      documentId: document_id,
+      fileName: document.file_name,
+      format: inputFormat,
+      sourceUrl: signedUrl,
+      enableOcr: mineruEnableOcr,
+      onProgress: (stage) => recordProcessingStage(MINERU_PROGRESS_STAGES[stage]),
     });
 
-    let mineruPages: MineruPage[] = [];
-    let mineruText = '';
-    let mineruStructureSummary: MineruStructuralSummary | null = null;
+    const mineruPages: MineruPage[] = parseResult.pages;
+    const mineruText = parseResult.text;
+    const mineruStructureSummary: MineruStructuralSummary | null = parseResult.structureSummary;
+    const ocrProvider = parseResult.provider;
 
-    try {
-      const analysis = await mineruClient.analyzeDocument({
-        signedUrl,
-        documentId: document_id,
-        enableOcr: mineruEnableOcr,
-        enableTable: true,
-        enableFormula: true,
-      });
-
-      const sanitizedPages = analysis.pages.map((page) => ({
-        ...page,
-        text: typeof page.text === 'string' ? sanitizePlainText(page.text) : '',
-      }));
-      const sanitizedDocumentText = typeof analysis.text === 'string' ? sanitizePlainText(analysis.text) : '';
-      const fallbackDocumentText = sanitizePlainText(
-        sanitizedPages.map((page) => page.text).filter(Boolean).join('\n\n'),
-      );
-
-      mineruPages = sanitizedPages;
-      mineruText = sanitizedDocumentText || fallbackDocumentText;
-      mineruStructureSummary = analysis.structureSummary;
-
-      if (!mineruText) {
-        console.warn('⚠️ MinerU: sanitized document text is empty', {
-          document_id,
-          pages: mineruPages.length,
-        });
-      }
-
-      console.log('✅ MinerU extraction complete:', {
+    if (!mineruText) {
+      console.warn('⚠️ Parser returned empty document text', {
+        document_id,
+        provider: ocrProvider,
         pages: mineruPages.length,
-        totalTextLength: mineruText.length,
-        structureSummary: mineruStructureSummary ? {
-          confidence: mineruStructureSummary.confidence,
-          pageCount: mineruStructureSummary.pages.length
-        } : null,
-        sampleText: mineruText.substring(0, 200)
       });
-    } catch (mineruError) {
-      if (mineruError instanceof MineruClientError) {
-        const context = mineruError.context ?? {};
-        const status = mineruError instanceof MineruHttpError
-          ? mineruError.status
-          : context.status;
-        const endpoint = mineruError instanceof MineruHttpError
-          ? mineruError.endpoint
-          : context.endpoint;
-        const hint = mineruError instanceof MineruHttpError
-          ? mineruError.hint
-          : context.hint;
-
-        console.error('❌ MinerU extraction failed', {
-          message: mineruError.message,
-          code: mineruError.code,
-          status,
-          endpoint,
-          requestId: context.requestId,
-          hint,
-        });
-        throw mineruError;
-      }
-
-      const message = mineruError instanceof Error ? mineruError.message : String(mineruError);
-      console.error('❌ MinerU extraction failed', { message });
-      throw new Error(`MinerU extraction failed: ${message}`);
     }
 
+    console.log('✅ Document parsing complete:', {
+      provider: ocrProvider,
+      attempts: parserAttempts,
+      pages: mineruPages.length,
+      scannedPages: parseResult.scannedPages ?? [],
+      totalTextLength: mineruText.length,
+      structureSummary: mineruStructureSummary ? {
+        confidence: mineruStructureSummary.confidence,
+        pageCount: mineruStructureSummary.pages.length
+      } : null,
+      sampleText: mineruText.substring(0, 200)
+    });
+
     // Save raw OCR text to database
     console.log('💾 Saving OCR text to database...');
-    const ocrTextLength = mineruText.length;
-    let ocrProvider = 'mineru';
-    let ocrFallbackUsed = false;
-    
-    // Check if we need ConvertAPI fallback for very short or empty text
-    if (ocrTextLength < 100 && mineruPages.length > 0) {
-      console.warn('⚠️ MinerU text too short, trying ConvertAPI fallback...', {
-        mineruTextLength: ocrTextLength,
-        pagesCount: mineruPages.length
-      });
-      
-      try {
-        const convertApiKey = Deno.env.get('CONVERTAPI_SECRET');
-        if (convertApiKey) {
-          const convertResponse = await fetch(
-            `https://v2.convertapi.com/convert/pdf/to/txt?Secret=${convertApiKey}`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                Parameters: [
-                  { Name: 'File', Value: signedUrl },
-                  { Name: 'OCR', Value: 'true' },
-                  { Name: 'OCRLanguages', Value: 'pol' }
-                ]
-              }),
-              signal: AbortSignal.timeout(60000)
-            }
-          );
-          
-          if (convertResponse.ok) {
-            const convertData = await convertResponse.json();
-            if (convertData.Files?.[0]?.Url) {
-              const txtFileUrl = convertData.Files[0].Url;
-              const txtResponse = await fetch(txtFileUrl);
-              const convertApiText = await txtResponse.text();
-              
-              if (convertApiText.length > mineruText.length) {
-                mineruText = sanitizePlainText(convertApiText);
-                ocrProvider = 'convertapi';
-                ocrFallbackUsed = true;
-                
-                console.log('✅ ConvertAPI fallback successful:', {
-                  convertApiTextLength: mineruText.length,
-                  improvement: mineruText.length - ocrTextLength
-                });
-              }
-            }
-          } else {
-            console.warn('⚠️ ConvertAPI returned error status:', convertResponse.status);
-          }
-        } else {
-          console.warn('⚠️ CONVERTAPI_SECRET not configured, skipping fallback');
-        }
-      } catch (convertError) {
-        console.error('❌ ConvertAPI fallback failed:', {
-          error: convertError instanceof Error ? convertError.message : String(convertError)
-        });
-      }
-    }
 
     await supabase
       .from('documents')
@@ -651,6 +539,7 @@ serve(async (req) => {
         ocr_text_length: mineruText.length,
         ocr_provider: ocrProvider,
         ocr_fallback_used: ocrFallbackUsed,
+        ocr_attempts: parserAttempts,
         ocr_extracted_at: new Date().toISOString()
       })
       .eq('id', document_id);
@@ -675,6 +564,8 @@ serve(async (req) => {
       mineruText,
     );
     const segmentationProductHeuristic = inferProductTypeFromText(mineruText, 'segmentation');
+    // The template is picked before the AI call, so only the keyword heuristic is available here.
+    const productTemplate = getProductTemplate(segmentationProductHeuristic?.predictedType);
     const textConfidence = calculateExtractionConfidence(sections);
 
     console.log('✅ Segmentation result:', {
@@ -719,6 +610,10 @@ serve(async (req) => {
             type: "string",
             description: "Type of insurance product"
           },
+          currency: {
+            type: "string",
+            description: "ISO 4217 code of the currency the premiums and sums are quoted in, e.g. PLN or EUR"
+          },
           insured: {
             type: "array",
             description: "List of insured persons with their plans",
@@ -914,9 +809,17 @@ serve(async (req) => {
       }
     };
 
-    console.log('✅ Step 15: Preparing Lovable AI Gateway payload...');
+    if (productTemplate) {
+      console.log(`📋 Using product template: ${productTemplate.productType}`);
+      (extractionSchema.parameters.properties as Record<string, unknown>).product_fields =
+        buildProductFieldsSchema(productTemplate);
+    }
+
+    console.log('✅ Step 15: Preparing AI extraction payload...');
+    await recordProcessingStage('ai_extraction');
 
     let extractedData: any = {};
+    let llmUsage = EMPTY_USAGE;
 
     const pagesPerSegment = mineruPages.length > 6 ? 4 : 3;
     const segmentsCount = Math.max(1, Math.ceil(mineruPages.length / pagesPerSegment));
@@ -965,7 +868,7 @@ serve(async (req) => {
           return `Strona ${page.pageNumber}: ${page.blockCount} bloków, nagłówki: ${headings}`;
         }) ?? [];
 
-      const segmentContent: LovableContentBlock[] = [
+      const segmentContent: LlmContentBlock[] = [
         {
           type: 'text',
           text: `Segment ${segmentIndex + 1}/${segmentsCount}. Strony ${segmentPageStart}-${segmentPageEnd}. Tekst:\n\n${safeSegmentText}`
@@ -976,6 +879,13 @@ serve(async (req) => {
         }
       ];
 
+      if (productTemplate) {
+        segmentContent.push({
+          type: 'text',
+          text: buildProductTemplateInstructions(productTemplate)
+        });
+      }
+
       if (structuralSummary.length > 0) {
         segmentContent.push({
           type: 'text',
@@ -997,8 +907,8 @@ serve(async (req) => {
 
       console.log(`📝 Segment ${segmentIndex + 1}/${segmentsCount} długość tekstu: ${safeSegmentText.length}`);
 
-      const aiSegmentData = await callLovableWithRetry(
-        lovableApiKey,
+      const aiSegmentResult = await callExtractionModel(
+        llm,
         extractionSchema.parameters,
         segmentContent,
         {
@@ -1007,7 +917,8 @@ serve(async (req) => {
         }
       );
 
-      const parsedSegmentData = parseAiExtractionResponse(aiSegmentData);
+      llmUsage = addLlmUsage(llmUsage, aiSegmentResult.usage);
+      const parsedSegmentData = parseAiExtractionResponse(aiSegmentResult.raw);
       
       console.log(`✅ Segment ${segmentIndex + 1} AI extraction:`, {
         hasInsurer: !!parsedSegmentData?.insurer,
@@ -1020,13 +931,15 @@ serve(async (req) => {
     }
 
       console.log('✅ Step 20: Building unified offer structure...');
+      await recordProcessingStage('unified_build');
 
       const unifiedOfferResult = buildUnifiedOffer(
         sections,
         {
           documentId: document_id,
           fileName: document.file_name,
-          calculationId: extractedData?.calculation_id || extractedData?.calculationId
+          calculationId: extractedData?.calculation_id || extractedData?.calculationId,
+          pages: mineruPages
         },
         extractedData
       );
@@ -1093,11 +1006,17 @@ serve(async (req) => {
         console.warn('⚠️ Product type not detected by AI ani heurystyki');
       }
 
+      // Amounts stay in the offer currency; conversion to the reporting currency happens at
+      // comparison time with the broker's exchange-rate table.
       const currencyNormalization = {
-        status: 'pending',
+        status: unifiedOffer.currency_source === 'default' ? 'assumed' : 'detected',
+        currency: unifiedOffer.currency,
+        source: unifiedOffer.currency_source,
         normalized_fields: [],
-        available: false,
-        notes: 'awaiting normalization pipeline'
+        available: true,
+        notes: unifiedOffer.currency_source === 'default'
+          ? `no currency found in the document, assuming ${unifiedOffer.currency}`
+          : `amounts quoted in ${unifiedOffer.currency}`
       };
 
       const mineruDiagnostics = mineruStructureSummary
@@ -1129,6 +1048,8 @@ serve(async (req) => {
         })),
         text_confidence: textConfidence,
         segments_processed: segmentsCount,
+        llm_model: llm.model,
+        llm_usage: llmUsage,
         product_type_predictions: {
           ai: aiProductType,
           heuristic: heuristicPredictions,
@@ -1177,6 +1098,13 @@ serve(async (req) => {
       finalData.unified = unifiedOffer;
       finalData.diagnostics = diagnostics;
 
+      if (productTemplate) {
+        finalData.product_template = productTemplate.productType;
+        finalData.product_fields = normalizeProductFields(extractedData?.product_fields, productTemplate);
+      } else {
+        delete finalData.product_fields;
+      }
+
       const normalizedProductType = normalizeProductTypeValue(finalData.product_type);
       finalData.product_type = normalizedProductType;
 
@@ -1246,6 +1174,9 @@ serve(async (req) => {
       const dataQualityScore = calculateDataQualityScore(unifiedOffer);
       finalData.data_quality_score = dataQualityScore;
 
+      // Re-extraction (job retries, reprocessing a reused document) keeps the broker's corrections.
+      reapplyManualCorrections(finalData, document.extracted_data);
+
       if (dataQualityScore < 0.5) {
         console.error('🚨 LOW DATA QUALITY ALERT', {
           document_id,
@@ -1265,7 +1196,9 @@ serve(async (req) => {
       .from('documents')
       .update({
         extracted_data: finalData,
-        status: 'completed'
+        status: 'completed',
+        processing_stage: null,
+        processing_stage_updated_at: new Date().toISOString()
       })
       .eq('id', document_id)
       .select('id');
@@ -1324,6 +1257,7 @@ serve(async (req) => {
           .from('documents')
           .update({
             status: 'failed',
+            processing_stage: null,
             extracted_data: {
               error: errorMessage,
               failed_at: new Date().toISOString(),
@@ -1370,6 +1304,7 @@ serve(async (req) => {
             .from('documents')
             .update({
               status: 'failed',
+              processing_stage: null,
               extracted_data: {
                 ...(docStatus.extracted_data && typeof docStatus.extracted_data === 'object'
                   ? docStatus.extracted_data
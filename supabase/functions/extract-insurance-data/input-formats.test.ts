@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  ConvertApiConverter,
+  DocumentConverter,
+  InputConversionError,
+  detectInputFormat,
+  getTextFallbackSource,
+  prepareMineruSource,
+  requiresOcr,
+} from "./input-formats.ts";
+
+describe("detectInputFormat", () => {
+  it("detects formats by MIME type and falls back to the extension", () => {
+    expect(detectInputFormat("application/pdf", "offer")).toBe("pdf");
+    expect(detectInputFormat("image/jpeg", "photo.bin")).toBe("jpg");
+    expect(detectInputFormat("", "IMG_0042.HEIC")).toBe("heic");
+    expect(detectInputFormat(null, "oferta.docx")).toBe("docx");
+    expect(detectInputFormat("text/plain", "notes.txt")).toBeNull();
+  });
+
+  it("forces OCR and disables the text fallback for photos", () => {
+    expect(requiresOcr("jpg")).toBe(true);
+    expect(requiresOcr("pdf")).toBe(false);
+    expect(getTextFallbackSource("docx")).toBe("docx");
+    expect(getTextFallbackSource("png")).toBeNull();
+  });
+});
+
+describe("prepareMineruSource", () => {
+  const signedUrl = "https://storage.example.com/object/sign/offer?token=abc";
+
+  it("passes formats MinerU reads natively straight through", async () => {
+    const source = await prepareMineruSource({
+      signedUrl,
+      format: "docx",
+      fileName: "oferta.docx",
+      converters: [],
+    });
+
+    expect(source).toEqual({ url: signedUrl, format: "docx", convertedBy: null });
+  });
+
+  it("converts unsupported formats with the first capable converter", async () => {
+    const calls: string[] = [];
+    const converters: DocumentConverter[] = [
+      {
+        name: "noop",
+        canConvert: () => false,
+        convert: async () => {
+          throw new Error("should not be called");
+        },
+      },
+      {
+        name: "stub",
+        canConvert: (format) => format === "heic",
+        convert: async ({ sourceUrl }) => {
+          calls.push(sourceUrl);
+          return { url: "https://cdn.example.com/photo.jpg", format: "jpg" };
+        },
+      },
+    ];
+
+    const source = await prepareMineruSource({ signedUrl, format: "heic", fileName: "IMG.heic", converters });
+
+    expect(source).toEqual({ url: "https://cdn.example.com/photo.jpg", format: "jpg", convertedBy: "stub" });
+    expect(calls).toEqual([signedUrl]);
+  });
+
+  it("fails clearly when no converter is configured", async () => {
+    await expect(
+      prepareMineruSource({ signedUrl, format: "heic", fileName: "IMG.heic", converters: [] }),
+    ).rejects.toBeInstanceOf(InputConversionError);
+  });
+});
+
+describe("ConvertApiConverter", () => {
+  it("converts HEIC photos to JPG and returns the stored file URL", async () => {
+    const requests: Array<{ url: string; body: unknown }> = [];
+    const fetchStub: typeof fetch = async (input, init) => {
+      requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+      return new Response(JSON.stringify({ Files: [{ Url: "https://v2.convertapi.com/d/photo.jpg" }] }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    };
+
+    const converter = new ConvertApiConverter("secret", fetchStub);
+    const result = await converter.convert({
+      sourceUrl: "https://storage.example.com/photo.heic",
+      format: "heic",
+      fileName: "photo.heic",
+    });
+
+    expect(converter.canConvert("heic")).toBe(true);
+    expect(converter.canConvert("pdf")).toBe(false);
+    expect(result).toEqual({ url: "https://v2.convertapi.com/d/photo.jpg", format: "jpg" });
+    expect(requests[0].url).toBe("https://v2.convertapi.com/convert/heic/to/jpg?Secret=secret");
+    expect(requests[0].body).toMatchObject({
+      Parameters: expect.arrayContaining([{ Name: "File", Value: "https://storage.example.com/photo.heic" }]),
+    });
+  });
+
+  it("surfaces ConvertAPI errors", async () => {
+    const fetchStub: typeof fetch = async () => new Response("bad file", { status: 400 });
+    const converter = new ConvertApiConverter("secret", fetchStub);
+
+    await expect(
+      converter.convert({ sourceUrl: "https://storage.example.com/photo.heic", format: "heic", fileName: "photo.heic" }),
+    ).rejects.toThrow("ConvertAPI heic→jpg failed: 400");
+  });
+});
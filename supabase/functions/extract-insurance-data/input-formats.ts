@@ -0,0 +1,202 @@
+export type InputFormat = 'pdf' | 'docx' | 'doc' | 'png' | 'jpg' | 'heic';
+
+interface InputFormatDefinition {
+  mimeTypes: string[];
+  extensions: string[];
+  /** MinerU accepts the format as-is. */
+  mineruNative: boolean;
+  /** Photos and scans always go through OCR. */
+  requiresOcr: boolean;
+  /** ConvertAPI source format for the plain-text fallback; null when the fallback is not applicable. */
+  textFallbackSource: string | null;
+}
+
+// Keep in sync with src/lib/document-formats.ts.
+const INPUT_FORMATS: Record<InputFormat, InputFormatDefinition> = {
+  pdf: {
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    mineruNative: true,
+    requiresOcr: false,
+    textFallbackSource: 'pdf',
+  },
+  docx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+    mineruNative: true,
+    requiresOcr: false,
+    textFallbackSource: 'docx',
+  },
+  doc: {
+    mimeTypes: ['application/msword'],
+    extensions: ['.doc'],
+    mineruNative: true,
+    requiresOcr: false,
+    textFallbackSource: 'doc',
+  },
+  png: {
+    mimeTypes: ['image/png'],
+    extensions: ['.png'],
+    mineruNative: true,
+    requiresOcr: true,
+    textFallbackSource: null,
+  },
+  jpg: {
+    mimeTypes: ['image/jpeg', 'image/jpg'],
+    extensions: ['.jpg', '.jpeg'],
+    mineruNative: true,
+    requiresOcr: true,
+    textFallbackSource: null,
+  },
+  heic: {
+    mimeTypes: ['image/heic', 'image/heif'],
+    extensions: ['.heic', '.heif'],
+    mineruNative: false,
+    requiresOcr: true,
+    textFallbackSource: null,
+  },
+};
+
+const FORMAT_ENTRIES = Object.entries(INPUT_FORMATS) as Array<[InputFormat, InputFormatDefinition]>;
+
+export function detectInputFormat(mimeType: string | null | undefined, fileName: string): InputFormat | null {
+  const normalizedMime = mimeType?.toLowerCase().trim();
+  if (normalizedMime) {
+    const byMime = FORMAT_ENTRIES.find(([, definition]) => definition.mimeTypes.includes(normalizedMime));
+    if (byMime) {
+      return byMime[0];
+    }
+  }
+
+  const lastDot = fileName.lastIndexOf('.');
+  const extension = lastDot >= 0 ? fileName.slice(lastDot).toLowerCase() : '';
+  const byExtension = FORMAT_ENTRIES.find(([, definition]) => definition.extensions.includes(extension));
+  return byExtension ? byExtension[0] : null;
+}
+
+export function requiresOcr(format: InputFormat): boolean {
+  return INPUT_FORMATS[format].requiresOcr;
+}
+
+export function getTextFallbackSource(format: InputFormat): string | null {
+  return INPUT_FORMATS[format].textFallbackSource;
+}
+
+export interface ConvertedInput {
+  url: string;
+  format: InputFormat;
+}
+
+/**
+ * Turns an input MinerU cannot read into one it can. Converters are tried in order,
+ * so additional providers can be registered without touching the extraction flow.
+ */
+export interface DocumentConverter {
+  readonly name: string;
+  canConvert(format: InputFormat): boolean;
+  convert(params: { sourceUrl: string; format: InputFormat; fileName: string }): Promise<ConvertedInput>;
+}
+
+export class InputConversionError extends Error {
+  constructor(message: string, readonly format: InputFormat) {
+    super(message);
+    this.name = 'InputConversionError';
+  }
+}
+
+const CONVERTAPI_TARGETS: Partial<Record<InputFormat, InputFormat>> = {
+  heic: 'jpg',
+};
+
+export class ConvertApiConverter implements DocumentConverter {
+  readonly name = 'convertapi';
+
+  constructor(
+    private readonly secret: string,
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly timeoutMs = 60_000,
+  ) {}
+
+  canConvert(format: InputFormat): boolean {
+    return format in CONVERTAPI_TARGETS;
+  }
+
+  async convert({ sourceUrl, format }: { sourceUrl: string; format: InputFormat; fileName: string }): Promise<ConvertedInput> {
+    const target = CONVERTAPI_TARGETS[format];
+    if (!target) {
+      throw new InputConversionError(`ConvertAPI cannot convert ${format}`, format);
+    }
+
+    const response = await this.fetchImpl(
+      `https://v2.convertapi.com/convert/${format}/to/${target}?Secret=${this.secret}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          Parameters: [
+            { Name: 'File', Value: sourceUrl },
+            { Name: 'StoreFile', Value: true },
+          ],
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new InputConversionError(
+        `ConvertAPI ${format}→${target} failed: ${response.status} - ${errorText.slice(0, 300)}`,
+        format,
+      );
+    }
+
+    const data = await response.json();
+    const url = data?.Files?.[0]?.Url;
+    if (typeof url !== 'string' || url.length === 0) {
+      throw new InputConversionError(`ConvertAPI ${format}→${target} returned no file`, format);
+    }
+
+    return { url, format: target };
+  }
+}
+
+export interface MineruSource {
+  url: string;
+  format: InputFormat;
+  convertedBy: string | null;
+}
+
+/**
+ * Resolves the URL handed to MinerU: native formats pass through, others go through
+ * the first converter that supports them.
+ */
+export async function prepareMineruSource({
+  signedUrl,
+  format,
+  fileName,
+  converters,
+}: {
+  signedUrl: string;
+  format: InputFormat;
+  fileName: string;
+  converters: DocumentConverter[];
+}): Promise<MineruSource> {
+  if (INPUT_FORMATS[format].mineruNative) {
+    return { url: signedUrl, format, convertedBy: null };
+  }
+
+  const converter = converters.find((candidate) => candidate.canConvert(format));
+  if (!converter) {
+    throw new InputConversionError(`No converter configured for ${format} files`, format);
+  }
+
+  const converted = await converter.convert({ sourceUrl: signedUrl, format, fileName });
+  if (!INPUT_FORMATS[converted.format].mineruNative) {
+    throw new InputConversionError(
+      `${converter.name} produced ${converted.format}, which MinerU cannot read`,
+      format,
+    );
+  }
+
+  return { url: converted.url, format: converted.format, convertedBy: converter.name };
+}
@@ -1,4 +1,7 @@
 import { assertEquals, assertExists } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { runParserChain } from "./document-parser.ts";
+import { FixtureParser, readFixtureFromDirectory } from "./parser-providers.ts";
+import { convertMineruPagesToSections } from "./mineru-client.ts";
 
 /**
  * Integration test for extract-insurance-data edge function
@@ -10,13 +13,47 @@ import { assertEquals, assertExists } from "https://deno.land/std@0.168.0/testin
  * 4. Unified offer structure building
  * 5. Data validation and quality checks
  * 
- * To run: deno test --allow-net --allow-env supabase/functions/extract-insurance-data/integration.test.ts
+ * To run: deno test --allow-net --allow-env --allow-read supabase/functions/extract-insurance-data/integration.test.ts
+ *
+ * OCR providers are pluggable. Serve the function with `DOCUMENT_PARSERS=fixture` and
+ * `DOCUMENT_PARSER_FIXTURES_DIR=<dir>` to replay recorded parser output (`<document_id>.json`
+ * or `<file_name>.json`) instead of calling MinerU/ConvertAPI. Set `DOCUMENT_PARSER_RECORD_DIR`
+ * while running against live providers to capture new fixtures.
  */
 
+const FIXTURES_DIR = new URL("./fixtures", import.meta.url).pathname;
+
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "http://localhost:54321";
 const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
 const TEST_DOCUMENT_ID = Deno.env.get("TEST_DOCUMENT_ID"); // User must provide a real test document ID
 
+Deno.test({
+  name: "Extract insurance data - recorded parser output segments into sections offline",
+  async fn() {
+    const parser = new FixtureParser(readFixtureFromDirectory(FIXTURES_DIR));
+
+    const { result, attempts } = await runParserChain([parser], {
+      documentId: "00000000-0000-0000-0000-000000000000",
+      fileName: "sample-offer",
+      format: "pdf",
+      sourceUrl: "fixture://sample-offer",
+      enableOcr: false,
+    });
+
+    assertEquals(result.provider, "fixture");
+    assertEquals(attempts.map((attempt) => attempt.status), ["succeeded"]);
+    assertEquals(result.pages.length, 2);
+
+    const { sections } = convertMineruPagesToSections(result.pages, result.text);
+    assertEquals(sections.length > 0, true, "Recorded pages should produce sections");
+    assertEquals(
+      sections.some((section) => section.content.includes("189,00 zł")),
+      true,
+      "Premium line should survive segmentation"
+    );
+  }
+});
+
 Deno.test({
   name: "Extract insurance data - should return valid unified structure",
   ignore: !TEST_DOCUMENT_ID, // Skip if no test document provided
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+
+import { reapplyManualCorrections } from "./manual-corrections.ts";
+
+const correction = (path: string, value: unknown, original: unknown) => ({
+  path,
+  value,
+  previous_value: original,
+  original_value: original,
+  edited_by: "user-1",
+  edited_by_email: "broker@example.com",
+  edited_at: "2026-10-18T10:00:00.000Z",
+});
+
+describe("reapplyManualCorrections", () => {
+  it("writes the latest corrected values over a fresh extraction and keeps the audit trail", () => {
+    const trail = [
+      correction("unified.total_premium_after_discounts", 1100, 1000),
+      correction("unified.total_premium_after_discounts", 1200, 1000),
+      correction("unified.base_contracts[0].sum", 50000, null),
+    ];
+    const fresh = {
+      insurer: "Acme",
+      unified: {
+        total_premium_after_discounts: 990,
+        base_contracts: [],
+        missing_fields: ["base_contracts[0].sum", "duration"],
+      },
+    };
+
+    const result = reapplyManualCorrections(fresh, { manual_corrections: trail });
+
+    expect(result.unified).toEqual({
+      total_premium_after_discounts: 1200,
+      base_contracts: [{ sum: 50000 }],
+      missing_fields: ["duration"],
+    });
+    expect(result.manual_corrections).toEqual(trail);
+    expect(result.insurer).toBe("Acme");
+  });
+
+  it("leaves the extraction untouched when nothing was corrected", () => {
+    const fresh = { unified: { total_premium_after_discounts: 990 } };
+
+    expect(reapplyManualCorrections(fresh, { unified: { total_premium_after_discounts: 1000 } })).toEqual({
+      unified: { total_premium_after_discounts: 990 },
+    });
+    expect(reapplyManualCorrections(fresh, null)).toEqual(fresh);
+  });
+
+  it("skips corrections with an invalid path", () => {
+    const originalWarn = console.warn;
+    console.warn = () => {};
+
+    try {
+      const result = reapplyManualCorrections(
+        { insurer: "Acme" },
+        { manual_corrections: [correction("bad..path", 1, null), correction("insurer", "Acme Life", "Acme")] },
+      );
+
+      expect(result.insurer).toBe("Acme Life");
+      expect(result.manual_corrections).toHaveLength(2);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+});
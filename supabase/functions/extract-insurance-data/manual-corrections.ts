@@ -0,0 +1,97 @@
+// Manual corrections survive re-extraction
+
+// Same key, path syntax and entry shape as src/lib/offer-corrections.ts, which writes the corrections.
+export const MANUAL_CORRECTIONS_KEY = 'manual_corrections';
+
+interface StoredCorrection {
+  path: string;
+  value: unknown;
+}
+
+type PathSegment = string | number;
+
+const parsePath = (path: string): PathSegment[] | null => {
+  const segments: PathSegment[] = [];
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]+)((?:\[\d+\])*)$/);
+    if (!match) {
+      return null;
+    }
+    segments.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+};
+
+const writePath = (root: Record<string, unknown>, segments: PathSegment[], value: unknown) => {
+  let current: Record<string | number, unknown> = root;
+
+  segments.slice(0, -1).forEach((segment, index) => {
+    const next = current[segment];
+    if (next === null || next === undefined || typeof next !== 'object') {
+      current[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+    }
+    current = current[segment] as Record<string | number, unknown>;
+  });
+
+  current[segments[segments.length - 1]] = value;
+};
+
+const readCorrections = (extractedData: unknown): StoredCorrection[] => {
+  if (!extractedData || typeof extractedData !== 'object') {
+    return [];
+  }
+  const entries = (extractedData as Record<string, unknown>)[MANUAL_CORRECTIONS_KEY];
+  return Array.isArray(entries)
+    ? entries.filter(
+        (entry): entry is StoredCorrection =>
+          Boolean(entry) && typeof entry === 'object' && typeof (entry as StoredCorrection).path === 'string',
+      )
+    : [];
+};
+
+/**
+ * Carries the broker's corrections from the previously stored `extracted_data` over to a fresh
+ * extraction: the audit trail is kept as it was and the latest corrected value of every path is
+ * written over the newly extracted one, so retries and reprocessing never undo an edit.
+ */
+export function reapplyManualCorrections(
+  finalData: Record<string, unknown>,
+  previousData: unknown,
+): Record<string, unknown> {
+  const corrections = readCorrections(previousData);
+  if (corrections.length === 0) {
+    return finalData;
+  }
+
+  const latestByPath = new Map<string, unknown>();
+  for (const entry of corrections) {
+    latestByPath.set(entry.path, entry.value ?? null);
+  }
+
+  for (const [path, value] of latestByPath) {
+    const segments = parsePath(path);
+    if (!segments) {
+      console.warn('Skipping manual correction with an invalid path', { path });
+      continue;
+    }
+    writePath(finalData, segments, value);
+  }
+
+  const unified = finalData.unified as Record<string, unknown> | undefined;
+  if (unified && Array.isArray(unified.missing_fields)) {
+    const correctedUnifiedPaths = new Set(
+      [...latestByPath.keys()]
+        .filter((path) => path.startsWith('unified.'))
+        .map((path) => path.slice('unified.'.length)),
+    );
+    unified.missing_fields = (unified.missing_fields as unknown[]).filter(
+      (field) => typeof field !== 'string' || !correctedUnifiedPaths.has(field),
+    );
+  }
+
+  finalData[MANUAL_CORRECTIONS_KEY] = corrections;
+  return finalData;
+}
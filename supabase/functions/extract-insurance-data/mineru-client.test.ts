@@ -542,6 +542,38 @@ describe("MineruClient analyzeDocument", () => {
     await expect(client.analyzeDocument(defaultOptions)).rejects.toMatchObject({ code: "MINERU_ARCHIVE_ERROR" });
   });
 
+  it("reports task progress through onProgress", async () => {
+    const zipLoader = async () => ({
+      loadAsync: async () => ({ files: {} }),
+    });
+
+    const { fetchStub } = createFetchSequence([
+      async () => mineruOk({ task_id: "task-progress", state: "pending" }),
+      async () => mineruOk({ task_id: "task-progress", state: "running" }),
+      async () => mineruOk({ task_id: "task-progress", state: "running" }),
+      async () => mineruOk({ task_id: "task-progress", state: "done", full_zip_url: "https://cdn.example.com/progress.zip" }),
+      async () => new Response(new Uint8Array([1, 2, 3]), {
+        status: 200,
+        headers: { "Content-Type": "application/zip" },
+      }),
+    ]);
+
+    const client = new MineruClient({ apiKey: "test-key", fetchImpl: fetchStub, zipLoader });
+    const stages: string[] = [];
+
+    await expect(
+      client.analyzeDocument({
+        ...defaultOptions,
+        pollIntervalMs: 0,
+        onProgress: (stage) => {
+          stages.push(stage);
+        },
+      }),
+    ).rejects.toMatchObject({ code: "MINERU_ARCHIVE_ERROR" });
+
+    expect(stages).toEqual(["task_queued", "task_running", "archive_downloaded"]);
+  });
+
   it("skips metadata JSON files when parsing the archive", async () => {
     const realPayload = {
       document: {
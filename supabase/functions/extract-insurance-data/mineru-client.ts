@@ -51,6 +51,8 @@ export interface MineruStructuralSummary {
   pages: MineruStructuralSummaryPage[];
 }
 
+export type MineruProgressStage = 'task_queued' | 'task_running' | 'archive_downloaded';
+
 export interface MineruAnalyzeDocumentOptions {
   signedUrl: string;
   documentId?: string;
@@ -60,6 +62,8 @@ export interface MineruAnalyzeDocumentOptions {
   enableOcr?: boolean;
   enableTable?: boolean;
   enableFormula?: boolean;
+  /** Invoked as the MinerU task advances; failures in the callback never abort the analysis. */
+  onProgress?: (stage: MineruProgressStage) => void | Promise<void>;
 }
 
 export interface MineruAnalyzeDocumentResult {
@@ -153,6 +157,7 @@ interface MineruApiResponse<T> {
 
 const SUCCESSFUL_TASK_STATES = new Set<string>(['succeeded', 'completed', 'success', 'done']);
 const FAILURE_TASK_STATES = new Set<string>(['failed', 'error', 'cancelled', 'canceled', 'timeout']);
+const RUNNING_TASK_STATES = new Set<string>(['running', 'processing']);
 
 type JSZipArchiveFile = {
   name: string;
@@ -743,6 +748,7 @@ export class MineruClient {
       enableOcr,
       enableTable,
       enableFormula,
+      onProgress,
     } = options;
     const trimmedSignedUrl = typeof signedUrl === 'string' ? signedUrl.trim() : '';
 
@@ -769,6 +775,24 @@ export class MineruClient {
 
     let currentTaskId: string | undefined;
     let lastRequestId: string | undefined;
+    const reportedStages = new Set<MineruProgressStage>();
+
+    const reportProgress = async (stage: MineruProgressStage) => {
+      if (!onProgress || reportedStages.has(stage)) {
+        return;
+      }
+      reportedStages.add(stage);
+
+      try {
+        await onProgress(stage);
+      } catch (error) {
+        logError('analyzeDocument.progressCallbackFailed', {
+          ...logContext,
+          stage,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
 
     logInfo('analyzeDocument.start', logContext);
 
@@ -829,9 +853,11 @@ export class MineruClient {
         hasArchiveUrl: Boolean(initialZipUrl),
       });
 
+      await reportProgress(RUNNING_TASK_STATES.has(initialStatus) ? 'task_running' : 'task_queued');
+
       if (!initialTaskId) {
         if (initialZipUrl && SUCCESSFUL_TASK_STATES.has(initialStatus)) {
-          const { analysis, requestId } = await this.downloadAndParseArchive(initialZipUrl);
+          const { analysis, requestId } = await this.downloadAndParseArchive(initialZipUrl, reportProgress);
           lastRequestId = requestId;
           const durationMs = Date.now() - operationStart;
           logInfo('analyzeDocument.success', {
@@ -858,7 +884,7 @@ export class MineruClient {
       }
 
       if (initialZipUrl && SUCCESSFUL_TASK_STATES.has(initialStatus)) {
-        const { analysis, requestId } = await this.downloadAndParseArchive(initialZipUrl);
+        const { analysis, requestId } = await this.downloadAndParseArchive(initialZipUrl, reportProgress);
         lastRequestId = requestId;
         const durationMs = Date.now() - operationStart;
         logInfo('analyzeDocument.success', {
@@ -881,6 +907,7 @@ export class MineruClient {
           pollIntervalMs,
           timeoutMs: pollTimeoutMs,
           organizationId: effectiveOrganizationId,
+          onProgress: reportProgress,
         });
         lastRequestId = pollResult.response.requestId;
       } catch (error) {
@@ -914,7 +941,7 @@ export class MineruClient {
         });
       }
 
-      const { analysis, requestId: archiveRequestId } = await this.downloadAndParseArchive(fullZipUrl);
+      const { analysis, requestId: archiveRequestId } = await this.downloadAndParseArchive(fullZipUrl, reportProgress);
       lastRequestId = archiveRequestId;
 
       const durationMs = Date.now() - operationStart;
@@ -946,7 +973,12 @@ export class MineruClient {
 
   private async pollExtractTask(
     taskId: string,
-    options: { pollIntervalMs?: number; timeoutMs?: number; organizationId?: string } = {},
+    options: {
+      pollIntervalMs?: number;
+      timeoutMs?: number;
+      organizationId?: string;
+      onProgress?: (stage: MineruProgressStage) => Promise<void>;
+    } = {},
   ): Promise<{
     payload: MineruExtractTaskPayload;
     response: MineruHttpResponse<MineruApiResponse<MineruExtractTaskPayload>>;
@@ -969,6 +1001,10 @@ export class MineruClient {
         return { payload, response };
       }
 
+      if (RUNNING_TASK_STATES.has(status)) {
+        await options.onProgress?.('task_running');
+      }
+
       if (FAILURE_TASK_STATES.has(status)) {
         const errorMessage = extractTaskErrorMessage(payload);
         throw new MineruClientError({
@@ -998,13 +1034,17 @@ export class MineruClient {
     }
   }
 
-  private async downloadAndParseArchive(fullZipUrl: string): Promise<{
+  private async downloadAndParseArchive(
+    fullZipUrl: string,
+    onProgress?: (stage: MineruProgressStage) => Promise<void>,
+  ): Promise<{
     analysis: MineruAnalyzeDocumentResult;
     requestId: string;
   }> {
     const archiveResponse = await this.http.requestArrayBuffer(fullZipUrl, {
       includeAuthHeader: false,
     });
+    await onProgress?.('archive_downloaded');
 
     try {
       const JSZip = await this.loadZipModule();
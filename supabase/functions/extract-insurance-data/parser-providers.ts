@@ -0,0 +1,362 @@
+import { MineruClient, MineruClientError, MineruHttpError, MineruPage } from './mineru-client.ts';
+import {
+  ConvertApiConverter,
+  DocumentConverter,
+  getTextFallbackSource,
+  InputFormat,
+  prepareMineruSource,
+  requiresOcr,
+} from './input-formats.ts';
+import {
+  DocumentParser,
+  normalizeParseResult,
+  ParseRequest,
+  ParseResult,
+  ParserName,
+} from './document-parser.ts';
+import { extractPdfTextLayer, isLikelyScannedPage, PdfTextPage } from './pdf-text-extractor.ts';
+
+export class MineruParser implements DocumentParser {
+  readonly name = 'mineru';
+
+  constructor(
+    private readonly client: Pick<MineruClient, 'analyzeDocument'>,
+    private readonly converters: DocumentConverter[] = [],
+  ) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async parse(request: ParseRequest): Promise<ParseResult> {
+    const source = await prepareMineruSource({
+      signedUrl: request.sourceUrl,
+      format: request.format,
+      fileName: request.fileName,
+      converters: this.converters,
+    });
+
+    if (source.convertedBy) {
+      console.log('✅ Input converted for MinerU', {
+        from: request.format,
+        to: source.format,
+        converter: source.convertedBy,
+      });
+    }
+
+    try {
+      const analysis = await this.client.analyzeDocument({
+        signedUrl: source.url,
+        documentId: request.documentId,
+        enableOcr: request.enableOcr || requiresOcr(request.format),
+        enableTable: true,
+        enableFormula: true,
+        onProgress: request.onProgress,
+      });
+
+      return normalizeParseResult('mineru', analysis);
+    } catch (error) {
+      if (error instanceof MineruClientError) {
+        const context = error.context ?? {};
+        console.error('❌ MinerU extraction failed', {
+          message: error.message,
+          code: error.code,
+          status: error instanceof MineruHttpError ? error.status : context.status,
+          endpoint: error instanceof MineruHttpError ? error.endpoint : context.endpoint,
+          requestId: context.requestId,
+          hint: error instanceof MineruHttpError ? error.hint : context.hint,
+        });
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ MinerU extraction failed', { message });
+      throw new Error(`MinerU extraction failed: ${message}`);
+    }
+  }
+}
+
+/** Plain-text conversion through ConvertAPI with Polish OCR; pages are split on form feeds. */
+export class ConvertApiParser implements DocumentParser {
+  readonly name = 'convertapi';
+
+  constructor(
+    private readonly secret: string,
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly timeoutMs = 60_000,
+  ) {}
+
+  supports(format: InputFormat): boolean {
+    return getTextFallbackSource(format) !== null;
+  }
+
+  async parse(request: ParseRequest): Promise<ParseResult> {
+    const source = getTextFallbackSource(request.format);
+    if (!source) {
+      throw new Error(`ConvertAPI cannot extract text from ${request.format} files`);
+    }
+
+    const response = await this.fetchImpl(
+      `https://v2.convertapi.com/convert/${source}/to/txt?Secret=${this.secret}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          Parameters: [
+            { Name: 'File', Value: request.sourceUrl },
+            { Name: 'OCR', Value: 'true' },
+            { Name: 'OCRLanguages', Value: 'pol' },
+          ],
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ConvertAPI text extraction failed: ${response.status} - ${errorText.slice(0, 300)}`);
+    }
+
+    const data = await response.json();
+    const fileUrl = data?.Files?.[0]?.Url;
+    if (typeof fileUrl !== 'string' || fileUrl.length === 0) {
+      throw new Error('ConvertAPI text extraction returned no file');
+    }
+
+    const textResponse = await this.fetchImpl(fileUrl, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!textResponse.ok) {
+      throw new Error(`ConvertAPI text download failed: ${textResponse.status}`);
+    }
+
+    const text = await textResponse.text();
+    const pages: MineruPage[] = text
+      .split('\f')
+      .map((pageText, index) => ({ pageNumber: index + 1, text: pageText }))
+      .filter((page) => page.text.trim().length > 0);
+
+    return normalizeParseResult('convertapi', { pages, text, structureSummary: null });
+  }
+}
+
+const toMineruPage = (page: PdfTextPage): MineruPage => ({
+  pageNumber: page.pageNumber,
+  text: page.text,
+  width: page.width,
+  height: page.height,
+  blocks: page.blocks.map((block, index) => ({
+    id: `p${page.pageNumber}-b${index + 1}`,
+    type: block.type,
+    text: block.text,
+    ...(block.headingLevel ? { headingLevel: block.headingLevel } : {}),
+    boundingBox: block.boundingBox,
+    metadata: { source: 'pdf-text', fontSize: block.fontSize },
+  })),
+});
+
+/**
+ * Reads the embedded text layer of digital PDFs locally, without calling any external service.
+ * Output mirrors MinerU pages and blocks (with bounding boxes), so downstream code cannot tell
+ * the providers apart. Any page without a text layer is listed and flagged, so the chain moves on
+ * to OCR instead of silently dropping the scanned pages.
+ */
+export class PdfTextParser implements DocumentParser {
+  readonly name = 'pdf-text';
+
+  constructor(
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly timeoutMs = 30_000,
+  ) {}
+
+  supports(format: InputFormat): boolean {
+    return format === 'pdf';
+  }
+
+  async parse(request: ParseRequest): Promise<ParseResult> {
+    const response = await this.fetchImpl(request.sourceUrl, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`PDF download failed: ${response.status}`);
+    }
+
+    const layer = await extractPdfTextLayer(new Uint8Array(await response.arrayBuffer()));
+    const scannedPages = layer.pages.filter(isLikelyScannedPage).map((page) => page.pageNumber);
+
+    if (scannedPages.length > 0) {
+      console.log('ℹ️ PDF text layer: pages without text', { document_id: request.documentId, pages: scannedPages });
+    }
+
+    return normalizeParseResult('pdf-text', {
+      pages: layer.pages.map(toMineruPage),
+      text: '',
+      structureSummary: {
+        pages: layer.pages.map((page) => ({
+          pageNumber: page.pageNumber,
+          blockCount: page.blocks.length,
+          headings: page.blocks.filter((block) => block.type === 'title').map((block) => block.text),
+        })),
+      },
+      scannedPages,
+      lowTextReason: scannedPages.length > 0 ? `scanned pages: ${scannedPages.join(', ')}` : undefined,
+    });
+  }
+}
+
+export type FixtureReader = (key: string) => Promise<string | null>;
+
+/** A parse result captured from a real provider run, stored as `<key>.json`. */
+export type ParserFixture = Omit<ParseResult, 'provider'> & { provider?: ParserName };
+
+export const fixtureKeysFor = (request: Pick<ParseRequest, 'documentId' | 'fileName'>): string[] =>
+  [request.documentId, request.fileName].filter((key) => key.length > 0);
+
+/**
+ * Serves recorded parse results instead of calling OCR providers, so the pipeline can run
+ * offline in tests and local development. Fixtures are looked up by document id, then file name.
+ */
+export class FixtureParser implements DocumentParser {
+  readonly name = 'fixture';
+
+  constructor(private readonly readFixture: FixtureReader) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async parse(request: ParseRequest): Promise<ParseResult> {
+    for (const key of fixtureKeysFor(request)) {
+      const raw = await this.readFixture(key);
+      if (raw === null) {
+        continue;
+      }
+
+      const fixture = JSON.parse(raw) as ParserFixture;
+      return normalizeParseResult('fixture', {
+        pages: Array.isArray(fixture.pages) ? fixture.pages : [],
+        text: fixture.text ?? '',
+        structureSummary: fixture.structureSummary ?? null,
+      });
+    }
+
+    throw new Error(`No parser fixture recorded for document ${request.documentId} (${request.fileName})`);
+  }
+}
+
+export type FixtureWriter = (key: string, contents: string) => Promise<void>;
+
+/** Wraps a live parser and stores each successful result as a fixture for `FixtureParser`. */
+export class RecordingParser implements DocumentParser {
+  constructor(
+    private readonly inner: DocumentParser,
+    private readonly writeFixture: FixtureWriter,
+  ) {}
+
+  get name(): ParserName {
+    return this.inner.name;
+  }
+
+  supports(format: InputFormat): boolean {
+    return this.inner.supports(format);
+  }
+
+  async parse(request: ParseRequest): Promise<ParseResult> {
+    const result = await this.inner.parse(request);
+    const fixture: ParserFixture = { ...result };
+
+    try {
+      await this.writeFixture(request.documentId, JSON.stringify(fixture, null, 2));
+    } catch (error) {
+      console.warn('⚠️ Failed to record parser fixture', {
+        document_id: request.documentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return result;
+  }
+}
+
+const fixturePath = (directory: string, key: string) =>
+  `${directory.replace(/\/+$/, '')}/${encodeURIComponent(key)}.json`;
+
+export const readFixtureFromDirectory = (directory: string): FixtureReader => async (key) => {
+  try {
+    return await Deno.readTextFile(fixturePath(directory, key));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const writeFixtureToDirectory = (directory: string): FixtureWriter => async (key, contents) => {
+  await Deno.mkdir(directory, { recursive: true });
+  await Deno.writeTextFile(fixturePath(directory, key), contents);
+};
+
+type EnvReader = (key: string) => string | undefined;
+
+/**
+ * Instantiates the configured providers in order. Providers whose credentials are missing are
+ * left out with a warning; `DOCUMENT_PARSER_RECORD_DIR` wraps live providers in a recorder.
+ */
+export function createDocumentParsers(names: ParserName[], env: EnvReader): DocumentParser[] {
+  const convertApiSecret = env('CONVERTAPI_SECRET');
+  const recordDirectory = env('DOCUMENT_PARSER_RECORD_DIR');
+  const parsers: DocumentParser[] = [];
+
+  for (const name of names) {
+    let parser: DocumentParser | null = null;
+
+    switch (name) {
+      case 'pdf-text':
+        parser = new PdfTextParser();
+        break;
+      case 'mineru': {
+        const apiKey = env('MINERU_API_KEY');
+        if (!apiKey) {
+          console.warn('⚠️ MINERU_API_KEY is not configured, skipping MinerU parser');
+          break;
+        }
+        parser = new MineruParser(
+          new MineruClient({
+            apiKey,
+            baseUrl: env('MINERU_API_URL'),
+            organizationId: env('MINERU_ORG_ID'),
+          }),
+          convertApiSecret ? [new ConvertApiConverter(convertApiSecret)] : [],
+        );
+        break;
+      }
+      case 'convertapi':
+        if (!convertApiSecret) {
+          console.warn('⚠️ CONVERTAPI_SECRET not configured, skipping ConvertAPI parser');
+          break;
+        }
+        parser = new ConvertApiParser(convertApiSecret);
+        break;
+      case 'fixture': {
+        const fixturesDirectory = env('DOCUMENT_PARSER_FIXTURES_DIR');
+        if (!fixturesDirectory) {
+          console.warn('⚠️ DOCUMENT_PARSER_FIXTURES_DIR is not configured, skipping fixture parser');
+          break;
+        }
+        parser = new FixtureParser(readFixtureFromDirectory(fixturesDirectory));
+        break;
+      }
+    }
+
+    if (!parser) {
+      continue;
+    }
+
+    parsers.push(recordDirectory && name !== 'fixture'
+      ? new RecordingParser(parser, writeFixtureToDirectory(recordDirectory))
+      : parser);
+  }
+
+  if (parsers.length === 0) {
+    throw new Error(`No document parsers available for DOCUMENT_PARSERS=${names.join(',')}`);
+  }
+
+  return parsers;
+}
@@ -0,0 +1,247 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  assembleLines,
+  extractPdfTextLayer,
+  groupLinesIntoBlocks,
+  PdfTextExtractionError,
+  PdfTextLine,
+} from "./pdf-text-extractor.ts";
+import { PdfTextParser } from "./parser-providers.ts";
+
+const encoder = new TextEncoder();
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([encoder.encode(text)]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Assembles a PDF from object bodies; objects are numbered from 1 in the order given. */
+function buildPdf(objects: Array<string | { dict: string; stream: Uint8Array }>): Uint8Array {
+  const parts: Uint8Array[] = [encoder.encode("%PDF-1.7\n")];
+  objects.forEach((object, index) => {
+    if (typeof object === "string") {
+      parts.push(encoder.encode(`${index + 1} 0 obj\n${object}\nendobj\n`));
+      return;
+    }
+    parts.push(encoder.encode(`${index + 1} 0 obj\n<< ${object.dict} /Length ${object.stream.length} >>\nstream\n`));
+    parts.push(object.stream);
+    parts.push(encoder.encode("\nendstream\nendobj\n"));
+  });
+  parts.push(encoder.encode("trailer\n<< /Root 1 0 R >>\n%%EOF\n"));
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const HELVETICA = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding << /Type /Encoding /Differences [128 /aogonek /lslash] >> >>";
+
+describe("extractPdfTextLayer", () => {
+  it("reads text from uncompressed and Flate-compressed pages in page-tree order", async () => {
+    const firstPage = encoder.encode(
+      "BT /F1 12 Tf 72 720 Td (Oferta ubezpieczenia) Tj 0 -20 Td [(Sk\\201adka) -300 (1 200 z\\201)] TJ ET",
+    );
+    const secondPage = await deflate("BT /F1 10 Tf 1 0 0 1 72 700 Tm (Suma ubezpieczenia 500 000 PLN) Tj ET");
+
+    const pdf = buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /MediaBox [0 0 595 842] /Resources << /Font << /F1 5 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>",
+      HELVETICA,
+      { dict: "", stream: firstPage },
+      { dict: "/Filter /FlateDecode", stream: secondPage },
+    ]);
+
+    const layer = await extractPdfTextLayer(pdf);
+
+    expect(layer.pages).toHaveLength(2);
+    expect(layer.pages[0]).toMatchObject({ pageNumber: 1, width: 595, height: 842 });
+    expect(layer.pages[0].text).toBe("Oferta ubezpieczenia\nSkładka 1 200 zł");
+    expect(layer.pages[1].text).toBe("Suma ubezpieczenia 500 000 PLN");
+    expect(layer.pages[0].lines[0]).toMatchObject({ x: 72, y: 720, fontSize: 12 });
+  });
+
+  it("maps composite fonts through their ToUnicode CMap", async () => {
+    const cmap = encoder.encode([
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "2 beginbfchar <0001> <0104> <0002> <0142> endbfchar",
+      "1 beginbfrange <0010> <0012> <0061> endbfrange",
+      "endcmap",
+    ].join("\n"));
+    const content = encoder.encode("BT /F2 11 Tf 50 500 Td <000100100011000200120002> Tj ET");
+
+    const pdf = buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F2 4 0 R >> >> /Contents 6 0 R >>",
+      "<< /Type /Font /Subtype /Type0 /BaseFont /Arial /Encoding /Identity-H /ToUnicode 5 0 R /DescendantFonts [7 0 R] >>",
+      { dict: "", stream: cmap },
+      { dict: "", stream: content },
+      "<< /Type /Font /Subtype /CIDFontType2 /DW 600 >>",
+    ]);
+
+    const layer = await extractPdfTextLayer(pdf);
+
+    expect(layer.pages[0].text).toBe("Ąabłcł");
+  });
+
+  it("unpacks pages stored inside object streams", async () => {
+    const catalog = "<< /Type /Catalog /Pages 7 0 R >> ";
+    const pages = "<< /Type /Pages /Kids [2 0 R] /Count 1 >>";
+    const header = `6 0 7 ${catalog.length} `;
+    const objectStream = await deflate(header + catalog + pages);
+    const content = encoder.encode("BT /F1 9 Tf 10 10 Td (Polisa OC) Tj ET");
+
+    const pdf = buildPdf([
+      { dict: `/Type /ObjStm /N 2 /First ${header.length} /Filter /FlateDecode`, stream: objectStream },
+      "<< /Type /Page /Parent 7 0 R /MediaBox [0 0 200 200] /Resources << /Font << /F1 3 0 R >> >> /Contents 4 0 R >>",
+      HELVETICA,
+      { dict: "", stream: content },
+    ]);
+
+    const layer = await extractPdfTextLayer(pdf);
+
+    expect(layer.pages[0].text).toBe("Polisa OC");
+  });
+
+  it("counts images and returns empty text for scanned pages", async () => {
+    const content = encoder.encode("q 595 0 0 842 0 0 cm /Im1 Do Q");
+    const pdf = buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /XObject << /Im1 5 0 R >> >> /Contents 4 0 R >>",
+      { dict: "", stream: content },
+      { dict: "/Type /XObject /Subtype /Image /Width 1 /Height 1", stream: new Uint8Array([0]) },
+    ]);
+
+    const layer = await extractPdfTextLayer(pdf);
+
+    expect(layer.pages[0]).toMatchObject({ text: "", imageCount: 1 });
+  });
+
+  it("rejects encrypted documents and non-PDF input", async () => {
+    const encrypted = buildPdf(["<< /Type /Catalog >>"]);
+    const withEncrypt = new Uint8Array([...encrypted, ...encoder.encode("trailer << /Encrypt 9 0 R >>")]);
+
+    await expect(extractPdfTextLayer(withEncrypt)).rejects.toMatchObject({ code: "PDF_ENCRYPTED" });
+    await expect(extractPdfTextLayer(encoder.encode("hello"))).rejects.toBeInstanceOf(PdfTextExtractionError);
+  });
+});
+
+describe("assembleLines", () => {
+  it("orders runs top to bottom and inserts spaces only across visible gaps", () => {
+    const lines = assembleLines([
+      { text: "zł", x: 140, y: 700, width: 12, fontSize: 10 },
+      { text: "Razem", x: 72, y: 720, width: 30, fontSize: 10 },
+      { text: "1 20", x: 100, y: 700, width: 20, fontSize: 10 },
+      { text: "0", x: 120, y: 700.5, width: 5, fontSize: 10 },
+    ]);
+
+    expect(lines.map((line) => line.text)).toEqual(["Razem", "1 200 zł"]);
+    expect(lines[1]).toMatchObject({ x: 100, width: 52 });
+  });
+});
+
+describe("groupLinesIntoBlocks", () => {
+  const line = (text: string, x: number, y: number, fontSize: number, width = 200): PdfTextLine => ({
+    text,
+    x,
+    y,
+    width,
+    fontSize,
+    runs: [],
+  });
+
+  it("merges paragraph lines and promotes larger short lines to titles with top-left boxes", () => {
+    const blocks = groupLinesIntoBlocks(
+      [
+        line("ZAKRES OCHRONY", 72, 760, 16, 150),
+        line("Śmierć ubezpieczonego 200 000 zł", 72, 730, 10),
+        line("Poważne zachorowanie 50 000 zł", 72, 718, 10),
+        line("Składka miesięczna 189,00 zł", 72, 650, 10),
+      ],
+      842,
+    );
+
+    expect(blocks.map((block) => [block.type, block.text])).toEqual([
+      ["title", "ZAKRES OCHRONY"],
+      ["text", "Śmierć ubezpieczonego 200 000 zł\nPoważne zachorowanie 50 000 zł"],
+      ["text", "Składka miesięczna 189,00 zł"],
+    ]);
+    expect(blocks[0].headingLevel).toBe(1);
+    expect(blocks[1].boundingBox).toEqual({ x: 72, y: 842 - 738, width: 200, height: 738 - 715.5 });
+  });
+});
+
+describe("PdfTextParser", () => {
+  const textPage = (text: string) => encoder.encode(`BT /F1 11 Tf 72 700 Td (${text}) Tj ET`);
+  const scanPage = encoder.encode("q 595 0 0 842 0 0 cm /Im1 Do Q");
+
+  const buildOffer = (contents: Uint8Array[]) => {
+    const pageRefs = contents.map((_, index) => `${5 + index * 2} 0 R`).join(" ");
+    return buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pageRefs}] /Count ${contents.length} /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> /XObject << /Im1 4 0 R >> >> >>`,
+      HELVETICA,
+      { dict: "/Type /XObject /Subtype /Image /Width 1 /Height 1", stream: new Uint8Array([0]) },
+      ...contents.flatMap((content, index) => [
+        `<< /Type /Page /Parent 2 0 R /Contents ${6 + index * 2} 0 R >>`,
+        { dict: "", stream: content },
+      ]),
+    ]);
+  };
+
+  const parseWith = (pdf: Uint8Array) =>
+    new PdfTextParser((async () => new Response(pdf)) as typeof fetch).parse({
+      documentId: "doc-1",
+      fileName: "oferta.pdf",
+      format: "pdf",
+      sourceUrl: "https://storage.example.com/oferta.pdf",
+      enableOcr: false,
+    });
+
+  it("returns MinerU-compatible pages with positioned blocks", async () => {
+    const result = await parseWith(buildOffer([textPage("Suma ubezpieczenia 200 000 PLN")]));
+
+    expect(result.provider).toBe("pdf-text");
+    expect(result.lowTextReason).toBeUndefined();
+    expect(result.pages[0]).toMatchObject({ pageNumber: 1, width: 595, height: 842 });
+    expect(result.pages[0].blocks?.[0]).toMatchObject({
+      id: "p1-b1",
+      type: "text",
+      text: "Suma ubezpieczenia 200 000 PLN",
+      boundingBox: { x: 72, y: 842 - 700 - 11 * 0.8 },
+    });
+    expect(result.structureSummary?.pages[0].blockCount).toBe(1);
+  });
+
+  it("flags PDFs made mostly of scanned pages so OCR providers run next", async () => {
+    const result = await parseWith(buildOffer([textPage("Strona tytulowa oferty"), scanPage, scanPage]));
+
+    expect(result.lowTextReason).toBe("scanned pages: 2, 3");
+    expect(result.scannedPages).toEqual([2, 3]);
+  });
+
+  it("flags a single scanned page among many text pages", async () => {
+    const result = await parseWith(
+      buildOffer([
+        textPage("Strona tytulowa oferty"),
+        textPage("Zakres ochrony"),
+        textPage("Wylaczenia odpowiedzialnosci"),
+        textPage("Tabela skladek"),
+        textPage("Warunki platnosci"),
+        scanPage,
+      ]),
+    );
+
+    expect(result.lowTextReason).toBe("scanned pages: 6");
+    expect(result.scannedPages).toEqual([6]);
+  });
+});
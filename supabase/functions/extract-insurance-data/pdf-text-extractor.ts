@@ -0,0 +1,1384 @@
+/**
+ * Dependency-free reader for the text layer of digitally generated PDFs.
+ *
+ * It indexes objects by scanning for `n g obj` headers (so broken xref tables do not matter),
+ * unpacks object streams, walks the page tree and interprets content streams to produce
+ * positioned text runs. Scanned documents simply yield little or no text.
+ */
+
+export class PdfTextExtractionError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'PDF_INVALID' | 'PDF_ENCRYPTED' | 'PDF_NO_PAGES',
+  ) {
+    super(message);
+    this.name = 'PdfTextExtractionError';
+  }
+}
+
+export interface PdfTextRun {
+  text: string;
+  /** Baseline origin in PDF user space (origin at the bottom-left corner of the page). */
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfTextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  runs: PdfTextRun[];
+}
+
+export interface PdfTextBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextBlock {
+  type: 'title' | 'text';
+  /** 1 for the largest headings, 2 for the rest; only set on titles. */
+  headingLevel?: number;
+  text: string;
+  fontSize: number;
+  /** Page points with a top-left origin, the convention MinerU uses for block boxes. */
+  boundingBox: PdfTextBoundingBox;
+  lines: PdfTextLine[];
+}
+
+export interface PdfTextPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  lines: PdfTextLine[];
+  blocks: PdfTextBlock[];
+  text: string;
+  /** Number of image XObjects drawn on the page; a hint for scanned pages. */
+  imageCount: number;
+}
+
+export interface PdfTextLayer {
+  pages: PdfTextPage[];
+}
+
+interface PdfName {
+  type: 'name';
+  name: string;
+}
+
+interface PdfString {
+  type: 'string';
+  bytes: Uint8Array;
+}
+
+interface PdfRef {
+  type: 'ref';
+  num: number;
+}
+
+interface PdfDict {
+  type: 'dict';
+  map: Map<string, PdfValue>;
+}
+
+interface PdfStream {
+  type: 'stream';
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+interface PdfOperator {
+  type: 'op';
+  op: string;
+}
+
+interface PdfDelimiter {
+  type: 'delim';
+  value: '[' | ']' | '<<' | '>>' | '{' | '}';
+}
+
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfStream | PdfValue[];
+
+type PdfToken = PdfValue | PdfOperator | PdfDelimiter;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 5;
+
+const isWhitespace = (byte: number) =>
+  byte === 0x00 || byte === 0x09 || byte === 0x0a || byte === 0x0c || byte === 0x0d || byte === 0x20;
+
+const isDelimiterByte = (byte: number) =>
+  byte === 0x28 || byte === 0x29 || byte === 0x3c || byte === 0x3e || byte === 0x5b || byte === 0x5d ||
+  byte === 0x7b || byte === 0x7d || byte === 0x2f || byte === 0x25;
+
+const isObject = (value: unknown): value is { type: string } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && 'type' in value;
+
+const isName = (value: unknown): value is PdfName => isObject(value) && value.type === 'name';
+const isDict = (value: unknown): value is PdfDict => isObject(value) && value.type === 'dict';
+const isStream = (value: unknown): value is PdfStream => isObject(value) && value.type === 'stream';
+const isString = (value: unknown): value is PdfString => isObject(value) && value.type === 'string';
+const isRef = (value: unknown): value is PdfRef => isObject(value) && value.type === 'ref';
+const isOperator = (value: unknown): value is PdfOperator => isObject(value) && value.type === 'op';
+const isDelimiter = (value: unknown, delimiter: PdfDelimiter['value']): value is PdfDelimiter =>
+  isObject(value) && value.type === 'delim' && (value as PdfDelimiter).value === delimiter;
+
+class PdfLexer {
+  constructor(
+    private readonly bytes: Uint8Array,
+    public pos = 0,
+    private readonly allowRefs = true,
+  ) {}
+
+  get atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.bytes.length;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (isWhitespace(byte)) {
+        this.pos += 1;
+        continue;
+      }
+      if (byte === 0x25) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) {
+          this.pos += 1;
+        }
+        continue;
+      }
+      break;
+    }
+  }
+
+  /** Reads one complete value (arrays and dictionaries included) or an operator. */
+  readObject(): PdfToken | undefined {
+    const token = this.readToken();
+    if (token === undefined) {
+      return undefined;
+    }
+
+    if (isDelimiter(token, '[')) {
+      const items: PdfValue[] = [];
+      while (true) {
+        const next = this.readObject();
+        if (next === undefined || isDelimiter(next, ']')) {
+          break;
+        }
+        if (!isOperator(next) && !(isObject(next) && next.type === 'delim')) {
+          items.push(next as PdfValue);
+        }
+      }
+      return items;
+    }
+
+    if (isDelimiter(token, '<<')) {
+      const map = new Map<string, PdfValue>();
+      while (true) {
+        const key = this.readObject();
+        if (key === undefined || isDelimiter(key, '>>')) {
+          break;
+        }
+        if (!isName(key)) {
+          continue;
+        }
+        const value = this.readObject();
+        if (value === undefined || isDelimiter(value, '>>')) {
+          break;
+        }
+        if (!isOperator(value) && !(isObject(value) && value.type === 'delim')) {
+          map.set(key.name, value as PdfValue);
+        }
+      }
+      return { type: 'dict', map };
+    }
+
+    if (this.allowRefs && typeof token === 'number' && Number.isInteger(token) && token >= 0) {
+      const saved = this.pos;
+      const generation = this.readToken();
+      if (typeof generation === 'number' && Number.isInteger(generation)) {
+        const keyword = this.readToken();
+        if (isOperator(keyword) && keyword.op === 'R') {
+          return { type: 'ref', num: token };
+        }
+      }
+      this.pos = saved;
+    }
+
+    return token;
+  }
+
+  readToken(): PdfToken | undefined {
+    this.skipWhitespace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) {
+      return undefined;
+    }
+
+    const byte = bytes[this.pos];
+
+    if (byte === 0x2f) {
+      return this.readName();
+    }
+    if (byte === 0x28) {
+      return this.readLiteralString();
+    }
+    if (byte === 0x3c) {
+      if (bytes[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return { type: 'delim', value: '<<' };
+      }
+      return this.readHexString();
+    }
+    if (byte === 0x3e) {
+      this.pos += bytes[this.pos + 1] === 0x3e ? 2 : 1;
+      return { type: 'delim', value: '>>' };
+    }
+    if (byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d) {
+      this.pos += 1;
+      return { type: 'delim', value: String.fromCharCode(byte) as PdfDelimiter['value'] };
+    }
+    if (byte === 0x29) {
+      this.pos += 1;
+      return this.readToken();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && !isWhitespace(bytes[this.pos]) && !isDelimiterByte(bytes[this.pos])) {
+      this.pos += 1;
+    }
+    const word = latin1(bytes.subarray(start, this.pos));
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return Number.parseFloat(word);
+    }
+    if (word === 'true') {
+      return true;
+    }
+    if (word === 'false') {
+      return false;
+    }
+    if (word === 'null') {
+      return null;
+    }
+    return { type: 'op', op: word };
+  }
+
+  /** Skips inline image data: the lexer is positioned right after the `ID` operator. */
+  skipInlineImage(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length - 2) {
+      if (
+        isWhitespace(bytes[this.pos]) && bytes[this.pos + 1] === 0x45 && bytes[this.pos + 2] === 0x49 &&
+        (this.pos + 3 >= bytes.length || isWhitespace(bytes[this.pos + 3]))
+      ) {
+        this.pos += 3;
+        return;
+      }
+      this.pos += 1;
+    }
+    this.pos = bytes.length;
+  }
+
+  private readName(): PdfName {
+    const { bytes } = this;
+    this.pos += 1;
+    const start = this.pos;
+    while (this.pos < bytes.length && !isWhitespace(bytes[this.pos]) && !isDelimiterByte(bytes[this.pos])) {
+      this.pos += 1;
+    }
+    const raw = latin1(bytes.subarray(start, this.pos));
+    return {
+      type: 'name',
+      name: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16))),
+    };
+  }
+
+  private readLiteralString(): PdfString {
+    const { bytes } = this;
+    this.pos += 1;
+    const out: number[] = [];
+    let depth = 1;
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+
+      if (byte === 0x5c) {
+        const next = bytes[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break;
+          case 0x72: out.push(0x0d); break;
+          case 0x74: out.push(0x09); break;
+          case 0x62: out.push(0x08); break;
+          case 0x66: out.push(0x0c); break;
+          case 0x0d:
+            if (bytes[this.pos] === 0x0a) {
+              this.pos += 1;
+            }
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let value = next - 0x30;
+              for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i += 1) {
+                value = value * 8 + (bytes[this.pos++] - 0x30);
+              }
+              out.push(value & 0xff);
+            } else if (next !== undefined) {
+              out.push(next);
+            }
+        }
+        continue;
+      }
+
+      if (byte === 0x28) {
+        depth += 1;
+      } else if (byte === 0x29) {
+        depth -= 1;
+        if (depth === 0) {
+          break;
+        }
+      }
+      out.push(byte);
+    }
+
+    return { type: 'string', bytes: Uint8Array.from(out) };
+  }
+
+  private readHexString(): PdfString {
+    const { bytes } = this;
+    this.pos += 1;
+    let hex = '';
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const byte = bytes[this.pos++];
+      if (!isWhitespace(byte)) {
+        hex += String.fromCharCode(byte);
+      }
+    }
+    this.pos += 1;
+    return { type: 'string', bytes: hexToBytes(hex) };
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const normalized = hex.length % 2 === 0 ? hex : `${hex}0`;
+  const out = new Uint8Array(normalized.length / 2);
+  for (let i = 0; i < out.length; i += 1) {
+    out[i] = Number.parseInt(normalized.slice(i * 2, i * 2 + 2), 16) || 0;
+  }
+  return out;
+}
+
+function bytesToNumber(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+function decodeUtf16Be(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return result;
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch (error) {
+    // Generators often write streams with a truncated or missing checksum; keep what was inflated.
+    if (total === 0) {
+      throw error;
+    }
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function applyPngPredictor(data: Uint8Array, columns: number, colors: number, bitsPerComponent: number): Uint8Array {
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((columns * colors * bitsPerComponent) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  const previous = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rows; row += 1) {
+    const filter = data[row * (rowLength + 1)];
+    const line = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const current = new Uint8Array(rowLength);
+
+    for (let i = 0; i < rowLength; i += 1) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let value = line[i];
+
+      switch (filter) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += Math.floor((left + up) / 2); break;
+        case 4: {
+          const estimate = left + up - upLeft;
+          const distLeft = Math.abs(estimate - left);
+          const distUp = Math.abs(estimate - up);
+          const distUpLeft = Math.abs(estimate - upLeft);
+          value += distLeft <= distUp && distLeft <= distUpLeft ? left : distUp <= distUpLeft ? up : upLeft;
+          break;
+        }
+      }
+
+      current[i] = value & 0xff;
+    }
+
+    out.set(current, row * rowLength);
+    previous.set(current);
+  }
+
+  return out;
+}
+
+const WIN_ANSI_TABLE: string[] = (() => {
+  const decoder = new TextDecoder('windows-1252');
+  return Array.from({ length: 256 }, (_, code) => decoder.decode(new Uint8Array([code])));
+})();
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', underscore: '_',
+  quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', quotedblbase: '„',
+  endash: '–', emdash: '—', bullet: '•', section: '§', degree: '°', Euro: '€', nbspace: ' ',
+  aogonek: 'ą', Aogonek: 'Ą', cacute: 'ć', Cacute: 'Ć', eogonek: 'ę', Eogonek: 'Ę', lslash: 'ł',
+  Lslash: 'Ł', nacute: 'ń', Nacute: 'Ń', oacute: 'ó', Oacute: 'Ó', sacute: 'ś', Sacute: 'Ś',
+  zacute: 'ź', Zacute: 'Ź', zdotaccent: 'ż', Zdotaccent: 'Ż',
+};
+
+function glyphNameToUnicode(name: string): string {
+  if (GLYPH_NAMES[name]) {
+    return GLYPH_NAMES[name];
+  }
+  if (/^[A-Za-z]$/.test(name)) {
+    return name;
+  }
+  const uni = /^uni([0-9A-Fa-f]{4})/.exec(name) ?? /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (uni) {
+    return String.fromCodePoint(Number.parseInt(uni[1], 16));
+  }
+  return '';
+}
+
+interface DecodedGlyph {
+  text: string;
+  width: number;
+  isSpace: boolean;
+}
+
+interface FontDecoder {
+  decode(bytes: Uint8Array): DecodedGlyph[];
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+  private readonly decodedStreams = new WeakMap<PdfStream, Promise<Uint8Array | null>>();
+  private readonly fontCache = new Map<PdfValue, Promise<FontDecoder>>();
+
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  static async load(bytes: Uint8Array): Promise<PdfDocument> {
+    const document = new PdfDocument(bytes);
+    await document.index();
+    return document;
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    for (let depth = 0; depth < 16 && isRef(current); depth += 1) {
+      current = this.objects.get(current.num);
+    }
+    return isRef(current) ? undefined : current;
+  }
+
+  get(dict: PdfDict | PdfStream | undefined, key: string): PdfValue | undefined {
+    const map = isStream(dict) ? dict.dict.map : dict?.map;
+    return this.resolve(map?.get(key));
+  }
+
+  getDict(dict: PdfDict | PdfStream | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key);
+    if (isDict(value)) {
+      return value;
+    }
+    return isStream(value) ? value.dict : undefined;
+  }
+
+  getNumber(dict: PdfDict | PdfStream | undefined, key: string): number | undefined {
+    const value = this.get(dict, key);
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  getName(dict: PdfDict | PdfStream | undefined, key: string): string | undefined {
+    const value = this.get(dict, key);
+    return isName(value) ? value.name : undefined;
+  }
+
+  getArray(dict: PdfDict | PdfStream | undefined, key: string): PdfValue[] | undefined {
+    const value = this.get(dict, key);
+    return Array.isArray(value) ? value : undefined;
+  }
+
+  decodeStream(stream: PdfStream): Promise<Uint8Array | null> {
+    let cached = this.decodedStreams.get(stream);
+    if (!cached) {
+      cached = this.decodeStreamUncached(stream).catch(() => null);
+      this.decodedStreams.set(stream, cached);
+    }
+    return cached;
+  }
+
+  /** Content streams without filters are used verbatim; unsupported filters yield null. */
+  async decodeStreamOrRaw(stream: PdfStream): Promise<Uint8Array | null> {
+    return this.get(stream, 'Filter') === undefined ? stream.data : await this.decodeStream(stream);
+  }
+
+  /** Returns the page dictionaries in reading order together with inherited attributes. */
+  listPages(): Array<{ page: PdfDict; resources: PdfDict | undefined; mediaBox: number[] }> {
+    const catalog = Array.from(this.objects.values()).find(
+      (value): value is PdfDict => isDict(value) && this.getName(value, 'Type') === 'Catalog',
+    );
+    const root = catalog ? this.getDict(catalog, 'Pages') : undefined;
+    const pages: Array<{ page: PdfDict; resources: PdfDict | undefined; mediaBox: number[] }> = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict, resources: PdfDict | undefined, mediaBox: number[]) => {
+      if (visited.has(node)) {
+        return;
+      }
+      visited.add(node);
+
+      const ownResources = this.getDict(node, 'Resources') ?? resources;
+      const ownMediaBox = this.readBox(node) ?? mediaBox;
+      const kids = this.getArray(node, 'Kids');
+
+      if (kids && this.getName(node, 'Type') !== 'Page') {
+        for (const kid of kids) {
+          const resolved = this.resolve(kid);
+          if (isDict(resolved)) {
+            walk(resolved, ownResources, ownMediaBox);
+          }
+        }
+        return;
+      }
+
+      pages.push({ page: node, resources: ownResources, mediaBox: ownMediaBox });
+    };
+
+    if (root) {
+      walk(root, undefined, [0, 0, 612, 792]);
+    }
+
+    if (pages.length === 0) {
+      for (const value of this.objects.values()) {
+        if (isDict(value) && this.getName(value, 'Type') === 'Page') {
+          pages.push({ page: value, resources: this.getDict(value, 'Resources'), mediaBox: this.readBox(value) ?? [0, 0, 612, 792] });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  loadFont(value: PdfValue): Promise<FontDecoder> {
+    let cached = this.fontCache.get(value);
+    if (!cached) {
+      cached = this.buildFont(value);
+      this.fontCache.set(value, cached);
+    }
+    return cached;
+  }
+
+  private readBox(node: PdfDict): number[] | undefined {
+    const box = this.getArray(node, 'MediaBox');
+    if (!box || box.length < 4) {
+      return undefined;
+    }
+    const numbers = box.map((entry) => this.resolve(entry));
+    return numbers.every((entry) => typeof entry === 'number') ? (numbers as number[]) : undefined;
+  }
+
+  private async index(): Promise<void> {
+    const { bytes } = this;
+    const text = latin1(bytes);
+
+    if (!text.slice(0, 1024).includes('%PDF')) {
+      throw new PdfTextExtractionError('File does not look like a PDF', 'PDF_INVALID');
+    }
+    if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(text)) {
+      throw new PdfTextExtractionError('Encrypted PDFs are not supported', 'PDF_ENCRYPTED');
+    }
+
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(text)) !== null) {
+      const lexer = new PdfLexer(bytes, match.index + match[0].length);
+      const value = lexer.readObject();
+      if (value === undefined || isOperator(value) || (isObject(value) && value.type === 'delim')) {
+        continue;
+      }
+
+      let objectValue = value as PdfValue;
+      if (isDict(objectValue)) {
+        lexer.skipWhitespace();
+        if (text.startsWith('stream', lexer.pos)) {
+          const stream = this.readStreamData(text, objectValue, lexer.pos + 'stream'.length);
+          if (stream) {
+            objectValue = stream;
+            header.lastIndex = Math.max(header.lastIndex, stream.data.byteOffset + stream.data.length);
+          }
+        }
+      }
+
+      this.objects.set(Number.parseInt(match[1], 10), objectValue);
+    }
+
+    for (const value of Array.from(this.objects.values())) {
+      if (isStream(value) && this.getName(value, 'Type') === 'ObjStm') {
+        await this.unpackObjectStream(value);
+      }
+    }
+  }
+
+  private readStreamData(text: string, dict: PdfDict, afterKeyword: number): PdfStream | null {
+    let start = afterKeyword;
+    if (text[start] === '\r') {
+      start += 1;
+    }
+    if (text[start] === '\n') {
+      start += 1;
+    }
+
+    const declaredLength = this.resolve(dict.map.get('Length'));
+    if (typeof declaredLength === 'number' && declaredLength >= 0) {
+      const end = start + declaredLength;
+      const tail = text.slice(end, end + 32).trimStart();
+      if (tail.startsWith('endstream')) {
+        return { type: 'stream', dict, data: this.bytes.subarray(start, end) };
+      }
+    }
+
+    const endIndex = text.indexOf('endstream', start);
+    if (endIndex < 0) {
+      return null;
+    }
+
+    let end = endIndex;
+    if (text[end - 1] === '\n') {
+      end -= 1;
+    }
+    if (text[end - 1] === '\r') {
+      end -= 1;
+    }
+    return { type: 'stream', dict, data: this.bytes.subarray(start, Math.max(start, end)) };
+  }
+
+  private async unpackObjectStream(stream: PdfStream): Promise<void> {
+    const data = await this.decodeStream(stream);
+    const count = this.getNumber(stream, 'N');
+    const first = this.getNumber(stream, 'First');
+    if (!data || count === undefined || first === undefined) {
+      return;
+    }
+
+    const headerLexer = new PdfLexer(data, 0, false);
+    const entries: Array<{ num: number; offset: number }> = [];
+    for (let i = 0; i < count; i += 1) {
+      const num = headerLexer.readToken();
+      const offset = headerLexer.readToken();
+      if (typeof num !== 'number' || typeof offset !== 'number') {
+        break;
+      }
+      entries.push({ num, offset });
+    }
+
+    for (const { num, offset } of entries) {
+      if (this.objects.has(num)) {
+        continue;
+      }
+      const value = new PdfLexer(data, first + offset).readObject();
+      if (value !== undefined && !isOperator(value) && !(isObject(value) && value.type === 'delim')) {
+        this.objects.set(num, value as PdfValue);
+      }
+    }
+  }
+
+  private async decodeStreamUncached(stream: PdfStream): Promise<Uint8Array | null> {
+    const filterValue = this.get(stream, 'Filter');
+    const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [])
+      .map((entry) => this.resolve(entry))
+      .filter(isName)
+      .map((entry) => entry.name);
+    const parmsValue = this.get(stream, 'DecodeParms');
+    const parmsList = Array.isArray(parmsValue) ? parmsValue.map((entry) => this.resolve(entry)) : [parmsValue];
+
+    let data: Uint8Array = stream.data;
+    for (const [index, filter] of filters.entries()) {
+      const parms = parmsList[index];
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl': {
+          data = await inflate(data);
+          const predictor = isDict(parms) ? this.getNumber(parms, 'Predictor') ?? 1 : 1;
+          if (predictor >= 10 && isDict(parms)) {
+            data = applyPngPredictor(
+              data,
+              this.getNumber(parms, 'Columns') ?? 1,
+              this.getNumber(parms, 'Colors') ?? 1,
+              this.getNumber(parms, 'BitsPerComponent') ?? 8,
+            );
+          }
+          break;
+        }
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = hexToBytes(latin1(data).replace(/[^0-9a-fA-F]/g, ''));
+          break;
+        default:
+          return null;
+      }
+    }
+
+    return data;
+  }
+
+  private async buildFont(value: PdfValue): Promise<FontDecoder> {
+    const font = this.resolve(value);
+    if (!isDict(font)) {
+      return { decode: (bytes) => Array.from(bytes, (byte) => ({ text: WIN_ANSI_TABLE[byte], width: 500, isSpace: byte === 32 })) };
+    }
+
+    const isType0 = this.getName(font, 'Subtype') === 'Type0';
+    const toUnicode = this.get(font, 'ToUnicode');
+    const cmap = isStream(toUnicode) ? await this.parseToUnicode(toUnicode) : null;
+
+    if (isType0) {
+      const descendants = this.getArray(font, 'DescendantFonts');
+      const descendant = descendants ? this.resolve(descendants[0]) : undefined;
+      const widths = isDict(descendant) ? this.readCidWidths(descendant) : new Map<number, number>();
+      const defaultWidth = isDict(descendant) ? this.getNumber(descendant, 'DW') ?? 1000 : 1000;
+      const codeLengths = cmap?.codeLengths.length ? cmap.codeLengths : [2];
+
+      return {
+        decode: (bytes) => {
+          const glyphs: DecodedGlyph[] = [];
+          let pos = 0;
+          while (pos < bytes.length) {
+            let length = codeLengths.find((candidate) =>
+              cmap?.map.has(bytesToNumber(bytes.subarray(pos, pos + candidate)))
+            ) ?? codeLengths[codeLengths.length - 1];
+            length = Math.max(1, Math.min(length, bytes.length - pos));
+            const code = bytesToNumber(bytes.subarray(pos, pos + length));
+            const text = cmap?.map.get(code) ?? '';
+            glyphs.push({ text, width: widths.get(code) ?? defaultWidth, isSpace: text === ' ' && length === 1 });
+            pos += length;
+          }
+          return glyphs;
+        },
+      };
+    }
+
+    const encoding = this.buildSimpleEncoding(font);
+    const firstChar = this.getNumber(font, 'FirstChar') ?? 0;
+    const widthArray = (this.getArray(font, 'Widths') ?? []).map((entry) => this.resolve(entry));
+    const missingWidth = this.getNumber(this.getDict(font, 'FontDescriptor'), 'MissingWidth') ?? 500;
+
+    return {
+      decode: (bytes) =>
+        Array.from(bytes, (code) => {
+          const width = widthArray[code - firstChar];
+          return {
+            text: cmap?.map.get(code) ?? encoding[code] ?? '',
+            width: typeof width === 'number' ? width : missingWidth,
+            isSpace: code === 32,
+          };
+        }),
+    };
+  }
+
+  private buildSimpleEncoding(font: PdfDict): string[] {
+    const table = [...WIN_ANSI_TABLE];
+    const encoding = this.get(font, 'Encoding');
+    if (!isDict(encoding)) {
+      return table;
+    }
+
+    const differences = this.getArray(encoding, 'Differences') ?? [];
+    let code = 0;
+    for (const entry of differences) {
+      const resolved = this.resolve(entry);
+      if (typeof resolved === 'number') {
+        code = resolved;
+      } else if (isName(resolved)) {
+        table[code] = glyphNameToUnicode(resolved.name);
+        code += 1;
+      }
+    }
+    return table;
+  }
+
+  private readCidWidths(descendant: PdfDict): Map<number, number> {
+    const widths = new Map<number, number>();
+    const entries = (this.getArray(descendant, 'W') ?? []).map((entry) => this.resolve(entry));
+
+    for (let i = 0; i < entries.length; ) {
+      const first = entries[i];
+      const next = entries[i + 1];
+      if (typeof first !== 'number') {
+        i += 1;
+        continue;
+      }
+      if (Array.isArray(next)) {
+        next.forEach((width, offset) => {
+          const resolved = this.resolve(width);
+          if (typeof resolved === 'number') {
+            widths.set(first + offset, resolved);
+          }
+        });
+        i += 2;
+        continue;
+      }
+      const width = entries[i + 2];
+      if (typeof next === 'number' && typeof width === 'number') {
+        for (let code = first; code <= next && code - first < 65536; code += 1) {
+          widths.set(code, width);
+        }
+      }
+      i += 3;
+    }
+
+    return widths;
+  }
+
+  private async parseToUnicode(stream: PdfStream): Promise<{ map: Map<number, string>; codeLengths: number[] } | null> {
+    const data = await this.decodeStream(stream);
+    if (!data) {
+      return null;
+    }
+
+    const map = new Map<number, string>();
+    const codeLengths = new Set<number>();
+    const lexer = new PdfLexer(data, 0, false);
+    let mode: 'codespace' | 'bfchar' | 'bfrange' | null = null;
+    let operands: PdfToken[] = [];
+
+    while (!lexer.atEnd) {
+      const token = lexer.readObject();
+      if (token === undefined) {
+        break;
+      }
+
+      if (isOperator(token)) {
+        switch (token.op) {
+          case 'begincodespacerange': mode = 'codespace'; break;
+          case 'beginbfchar': mode = 'bfchar'; break;
+          case 'beginbfrange': mode = 'bfrange'; break;
+          case 'endcodespacerange':
+            for (let i = 0; i + 1 < operands.length; i += 2) {
+              const low = operands[i];
+              if (isString(low)) {
+                codeLengths.add(low.bytes.length);
+              }
+            }
+            mode = null;
+            break;
+          case 'endbfchar':
+            for (let i = 0; i + 1 < operands.length; i += 2) {
+              const source = operands[i];
+              const target = operands[i + 1];
+              if (isString(source) && isString(target)) {
+                map.set(bytesToNumber(source.bytes), decodeUtf16Be(target.bytes));
+              }
+            }
+            mode = null;
+            break;
+          case 'endbfrange':
+            for (let i = 0; i + 2 < operands.length; i += 3) {
+              const low = operands[i];
+              const high = operands[i + 1];
+              const target = operands[i + 2];
+              if (!isString(low) || !isString(high)) {
+                continue;
+              }
+              const start = bytesToNumber(low.bytes);
+              const end = bytesToNumber(high.bytes);
+              for (let code = start; code <= end && code - start < 65536; code += 1) {
+                if (Array.isArray(target)) {
+                  const entry = target[code - start];
+                  if (isString(entry)) {
+                    map.set(code, decodeUtf16Be(entry.bytes));
+                  }
+                } else if (isString(target)) {
+                  const base = target.bytes.slice();
+                  const offset = code - start;
+                  const last = base.length - 1;
+                  const value = ((base[last - 1] ?? 0) << 8 | base[last]) + offset;
+                  base[last] = value & 0xff;
+                  if (last > 0) {
+                    base[last - 1] = (value >> 8) & 0xff;
+                  }
+                  map.set(code, decodeUtf16Be(base));
+                }
+              }
+            }
+            mode = null;
+            break;
+        }
+        operands = [];
+        continue;
+      }
+
+      if (mode) {
+        operands.push(token);
+      }
+    }
+
+    return { map, codeLengths: Array.from(codeLengths).sort((a, b) => a - b) };
+  }
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: FontDecoder | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScaling: number;
+  leading: number;
+  rise: number;
+}
+
+class ContentInterpreter {
+  readonly runs: PdfTextRun[] = [];
+  imageCount = 0;
+
+  constructor(private readonly document: PdfDocument) {}
+
+  async run(content: Uint8Array, resources: PdfDict | undefined, ctm: Matrix, depth = 0): Promise<void> {
+    const { document } = this;
+    const lexer = new PdfLexer(content, 0, false);
+    const stack: GraphicsState[] = [];
+    let state: GraphicsState = {
+      ctm,
+      font: null,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScaling: 1,
+      leading: 0,
+      rise: 0,
+    };
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+    let operands: PdfToken[] = [];
+
+    const fonts = document.getDict(resources, 'Font');
+    const xObjects = document.getDict(resources, 'XObject');
+
+    const num = (index: number) => {
+      const value = operands[index];
+      return typeof value === 'number' ? value : 0;
+    };
+
+    const moveText = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const showText = (bytes: Uint8Array) => {
+      if (!state.font) {
+        return;
+      }
+
+      const renderingStart = multiply(
+        [state.fontSize * state.horizontalScaling, 0, 0, state.fontSize, 0, state.rise],
+        multiply(textMatrix, state.ctm),
+      );
+      let text = '';
+
+      for (const glyph of state.font.decode(bytes)) {
+        text += glyph.text;
+        const advance =
+          ((glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0)) *
+          state.horizontalScaling;
+        textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+      }
+
+      const renderingEnd = multiply(textMatrix, state.ctm);
+      const width = Math.hypot(renderingEnd[4] - renderingStart[4], renderingEnd[5] - renderingStart[5]);
+      const fontSize = Math.hypot(renderingStart[2], renderingStart[3]);
+
+      if (text.length > 0) {
+        this.runs.push({ text, x: renderingStart[4], y: renderingStart[5], width, fontSize });
+      }
+    };
+
+    while (true) {
+      const token = lexer.readObject();
+      if (token === undefined) {
+        break;
+      }
+
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.op) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          state = stack.pop() ?? state;
+          break;
+        case 'cm':
+          state.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], state.ctm);
+          break;
+        case 'BT':
+          textMatrix = IDENTITY;
+          lineMatrix = IDENTITY;
+          break;
+        case 'Tf': {
+          const name = operands[0];
+          state.fontSize = num(1);
+          const fontRef = isName(name) && fonts ? fonts.map.get(name.name) : undefined;
+          state.font = fontRef !== undefined ? await document.loadFont(fontRef) : null;
+          break;
+        }
+        case 'Tc':
+          state.charSpacing = num(0);
+          break;
+        case 'Tw':
+          state.wordSpacing = num(0);
+          break;
+        case 'Tz':
+          state.horizontalScaling = num(0) / 100;
+          break;
+        case 'TL':
+          state.leading = num(0);
+          break;
+        case 'Ts':
+          state.rise = num(0);
+          break;
+        case 'Td':
+          moveText(num(0), num(1));
+          break;
+        case 'TD':
+          state.leading = -num(1);
+          moveText(num(0), num(1));
+          break;
+        case 'Tm':
+          lineMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)];
+          textMatrix = lineMatrix;
+          break;
+        case 'T*':
+          moveText(0, -state.leading);
+          break;
+        case 'Tj': {
+          const value = operands[0];
+          if (isString(value)) {
+            showText(value.bytes);
+          }
+          break;
+        }
+        case "'": {
+          moveText(0, -state.leading);
+          const value = operands[0];
+          if (isString(value)) {
+            showText(value.bytes);
+          }
+          break;
+        }
+        case '"': {
+          state.wordSpacing = num(0);
+          state.charSpacing = num(1);
+          moveText(0, -state.leading);
+          const value = operands[2];
+          if (isString(value)) {
+            showText(value.bytes);
+          }
+          break;
+        }
+        case 'TJ': {
+          const items = operands[0];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (isString(item)) {
+                showText(item.bytes);
+              } else if (typeof item === 'number') {
+                const shift = (-item / 1000) * state.fontSize * state.horizontalScaling;
+                textMatrix = multiply([1, 0, 0, 1, shift, 0], textMatrix);
+              }
+            }
+          }
+          break;
+        }
+        case 'Do': {
+          const name = operands[0];
+          const xObject = isName(name) && xObjects ? document.resolve(xObjects.map.get(name.name)) : undefined;
+          if (!isStream(xObject)) {
+            break;
+          }
+          const subtype = document.getName(xObject, 'Subtype');
+          if (subtype === 'Image') {
+            this.imageCount += 1;
+          } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+            const formContent = await document.decodeStreamOrRaw(xObject);
+            const matrixValue = document.getArray(xObject, 'Matrix');
+            const formMatrix = matrixValue && matrixValue.length === 6 && matrixValue.every((entry) => typeof entry === 'number')
+              ? (matrixValue as Matrix)
+              : IDENTITY;
+            if (formContent) {
+              await this.run(
+                formContent,
+                document.getDict(xObject, 'Resources') ?? resources,
+                multiply(formMatrix, state.ctm),
+                depth + 1,
+              );
+            }
+          }
+          break;
+        }
+        case 'BI':
+          break;
+        case 'ID':
+          lexer.skipInlineImage();
+          this.imageCount += 1;
+          break;
+      }
+
+      operands = [];
+    }
+  }
+}
+
+/**
+ * Groups runs into reading-order lines: top to bottom, then left to right. Runs whose
+ * baselines differ by less than half the font size share a line.
+ */
+export function assembleLines(runs: PdfTextRun[]): PdfTextLine[] {
+  const sorted = runs
+    .filter((run) => run.text.trim().length > 0)
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PdfTextLine[] = [];
+
+  for (const run of sorted) {
+    const current = lines[lines.length - 1];
+    const tolerance = Math.max(current?.fontSize ?? 0, run.fontSize) * 0.5;
+    if (current && Math.abs(current.y - run.y) <= tolerance) {
+      current.runs.push(run);
+      current.fontSize = Math.max(current.fontSize, run.fontSize);
+    } else {
+      lines.push({ text: '', x: run.x, y: run.y, width: 0, fontSize: run.fontSize, runs: [run] });
+    }
+  }
+
+  for (const line of lines) {
+    line.runs.sort((a, b) => a.x - b.x);
+    let text = '';
+    let previousEnd: number | null = null;
+
+    for (const run of line.runs) {
+      if (previousEnd !== null) {
+        const gap = run.x - previousEnd;
+        if (gap > line.fontSize * 0.15 && !text.endsWith(' ') && !run.text.startsWith(' ')) {
+          text += ' ';
+        }
+      }
+      text += run.text;
+      previousEnd = Math.max(previousEnd ?? -Infinity, run.x + run.width);
+    }
+
+    const first = line.runs[0];
+    line.text = text.replace(/\s+/g, ' ').trim();
+    line.x = first.x;
+    line.width = (previousEnd ?? first.x) - first.x;
+  }
+
+  return lines.filter((line) => line.text.length > 0);
+}
+
+// Glyph extents relative to the baseline, as a fraction of the font size.
+const ASCENT = 0.8;
+const DESCENT = 0.25;
+
+const roundPoints = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Merges consecutive lines into paragraph-like blocks: same font size, horizontally
+ * overlapping and no more than ~1.8 line heights apart. Short lines set noticeably larger
+ * than the body text become titles so segmentation can use them as section headings.
+ */
+export function groupLinesIntoBlocks(lines: PdfTextLine[], pageHeight: number): PdfTextBlock[] {
+  const bodyFontSize = median(lines.map((line) => line.fontSize));
+  const groups: PdfTextLine[][] = [];
+
+  for (const line of lines) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+
+    const joinsPrevious = previous !== undefined &&
+      Math.abs(previous.fontSize - line.fontSize) <= 0.5 &&
+      previous.y - line.y > 0 &&
+      previous.y - line.y <= line.fontSize * 1.8 &&
+      line.x < previous.x + previous.width &&
+      previous.x < line.x + line.width;
+
+    if (joinsPrevious) {
+      group.push(line);
+    } else {
+      groups.push([line]);
+    }
+  }
+
+  return groups.map((group): PdfTextBlock => {
+    const fontSize = Math.max(...group.map((line) => line.fontSize));
+    const left = Math.min(...group.map((line) => line.x));
+    const right = Math.max(...group.map((line) => line.x + line.width));
+    const top = Math.max(...group.map((line) => line.y + line.fontSize * ASCENT));
+    const bottom = Math.min(...group.map((line) => line.y - line.fontSize * DESCENT));
+    const text = group.map((line) => line.text).join('\n');
+    const isTitle = bodyFontSize > 0 && group.length <= 2 && text.length <= 120 && fontSize >= bodyFontSize * 1.2;
+
+    return {
+      type: isTitle ? 'title' : 'text',
+      ...(isTitle ? { headingLevel: fontSize >= bodyFontSize * 1.6 ? 1 : 2 } : {}),
+      text,
+      fontSize,
+      boundingBox: {
+        x: roundPoints(left),
+        y: roundPoints(pageHeight - top),
+        width: roundPoints(right - left),
+        height: roundPoints(top - bottom),
+      },
+      lines: group,
+    };
+  });
+}
+
+/** Below this many characters a page that draws an image is treated as a scan. */
+export const SCANNED_PAGE_MAX_TEXT_LENGTH = 50;
+
+export const isLikelyScannedPage = (page: Pick<PdfTextPage, 'text' | 'imageCount'>): boolean =>
+  page.imageCount > 0 && page.text.replace(/\s+/g, '').length < SCANNED_PAGE_MAX_TEXT_LENGTH;
+
+export async function extractPdfTextLayer(
+  bytes: Uint8Array,
+  { maxPages = 200 }: { maxPages?: number } = {},
+): Promise<PdfTextLayer> {
+  const document = await PdfDocument.load(bytes);
+  const pageEntries = document.listPages().slice(0, maxPages);
+
+  if (pageEntries.length === 0) {
+    throw new PdfTextExtractionError('PDF does not contain any pages', 'PDF_NO_PAGES');
+  }
+
+  const pages: PdfTextPage[] = [];
+
+  for (const [index, { page, resources, mediaBox }] of pageEntries.entries()) {
+    const contents = document.get(page, 'Contents');
+    const streams = (Array.isArray(contents) ? contents.map((entry) => document.resolve(entry)) : [contents])
+      .filter(isStream);
+    const decoded = await Promise.all(streams.map((stream) => document.decodeStreamOrRaw(stream)));
+    const content = concatBytes(decoded.filter((entry): entry is Uint8Array => entry !== null));
+
+    const interpreter = new ContentInterpreter(document);
+    // Content streams are positioned relative to the MediaBox origin.
+    await interpreter.run(content, resources, [1, 0, 0, 1, -mediaBox[0], -mediaBox[1]]);
+
+    const lines = assembleLines(interpreter.runs);
+    pages.push({
+      pageNumber: index + 1,
+      width: mediaBox[2] - mediaBox[0],
+      height: mediaBox[3] - mediaBox[1],
+      lines,
+      blocks: groupLinesIntoBlocks(lines, mediaBox[3] - mediaBox[1]),
+      text: lines.map((line) => line.text).join('\n'),
+      imageCount: interpreter.imageCount,
+    });
+  }
+
+  return { pages };
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+    out[offset] = 0x0a;
+    offset += 1;
+  }
+  return out;
+}
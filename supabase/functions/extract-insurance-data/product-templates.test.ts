@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  buildProductFieldsSchema,
+  buildProductTemplateInstructions,
+  getProductTemplate,
+  normalizeProductFields,
+} from "./product-templates.ts";
+
+describe("product templates", () => {
+  it("resolves templates by classifier product type", () => {
+    expect(getProductTemplate("auto_insurance")?.label).toBe("Ubezpieczenie komunikacyjne");
+    expect(getProductTemplate(" Travel_Insurance ")?.productType).toBe("travel_insurance");
+    expect(getProductTemplate("pet_insurance")).toBeNull();
+    expect(getProductTemplate(null)).toBeNull();
+  });
+
+  it("adds the template fields to the schema and the prompt", () => {
+    const template = getProductTemplate("property_insurance")!;
+    const schema = buildProductFieldsSchema(template);
+
+    expect(Object.keys(schema.properties)).toEqual([
+      "walls_sum",
+      "contents_sum",
+      "theft_sum",
+      "civil_liability_sum",
+      "property_deductible",
+    ]);
+    expect(buildProductTemplateInstructions(template)).toContain("- walls_sum (NUMBER): Suma ubezpieczenia murów");
+  });
+
+  it("parses amounts and drops fields outside the template", () => {
+    const template = getProductTemplate("travel_insurance")!;
+
+    expect(
+      normalizeProductFields(
+        {
+          medical_costs_abroad: "500 000 PLN",
+          baggage_sum: 2000,
+          territorial_scope: "  cały świat ",
+          oc_sum: 1000000,
+        },
+        template,
+      ),
+    ).toEqual({
+      medical_costs_abroad: 500000,
+      rescue_costs: null,
+      baggage_sum: 2000,
+      travel_nnw_sum: null,
+      territorial_scope: "cały świat",
+    });
+  });
+});
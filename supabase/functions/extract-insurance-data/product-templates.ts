@@ -0,0 +1,144 @@
+// Product-type templates: fields the extraction prompt asks for on top of the unified structure
+
+import { parseNumberValue } from './unified-builder.ts';
+
+export type ProductTemplateFieldKind = 'amount' | 'text';
+
+export interface ProductTemplateField {
+  key: string;
+  label: string;
+  kind: ProductTemplateFieldKind;
+  /** Prompt hint telling the model where the value usually appears in the document. */
+  hint: string;
+}
+
+export interface ProductTemplate {
+  productType: string;
+  label: string;
+  fields: ProductTemplateField[];
+}
+
+export type ProductFields = Record<string, number | string | null>;
+
+// Keep keys and labels in sync with src/lib/product-templates.ts, which renders the table rows.
+export const PRODUCT_TEMPLATES: Record<string, ProductTemplate> = {
+  auto_insurance: {
+    productType: 'auto_insurance',
+    label: 'Ubezpieczenie komunikacyjne',
+    fields: [
+      { key: 'oc_sum', label: 'Suma gwarancyjna OC', kind: 'amount', hint: 'suma gwarancyjna OC posiadacza pojazdu za szkody na osobie lub w mieniu (wyższa z kwot)' },
+      { key: 'ac_sum', label: 'Suma ubezpieczenia AC', kind: 'amount', hint: 'suma ubezpieczenia autocasco, zwykle wartość rynkowa pojazdu' },
+      { key: 'ac_deductible', label: 'Udział własny AC', kind: 'amount', hint: 'kwotowy udział własny lub franszyza w AC; null, jeśli brak' },
+      { key: 'nnw_sum', label: 'Suma NNW kierowcy i pasażerów', kind: 'amount', hint: 'suma ubezpieczenia następstw nieszczęśliwych wypadków na osobę' },
+      { key: 'assistance_towing_km', label: 'Holowanie (km)', kind: 'amount', hint: 'limit holowania w assistance w kilometrach' },
+    ],
+  },
+  travel_insurance: {
+    productType: 'travel_insurance',
+    label: 'Ubezpieczenie turystyczne',
+    fields: [
+      { key: 'medical_costs_abroad', label: 'Koszty leczenia za granicą', kind: 'amount', hint: 'suma ubezpieczenia kosztów leczenia i transportu za granicą' },
+      { key: 'rescue_costs', label: 'Koszty ratownictwa', kind: 'amount', hint: 'suma na koszty akcji poszukiwawczej i ratowniczej' },
+      { key: 'baggage_sum', label: 'Bagaż podróżny', kind: 'amount', hint: 'suma ubezpieczenia bagażu podróżnego' },
+      { key: 'travel_nnw_sum', label: 'NNW w podróży', kind: 'amount', hint: 'suma ubezpieczenia następstw nieszczęśliwych wypadków' },
+      { key: 'territorial_scope', label: 'Zakres terytorialny', kind: 'text', hint: 'np. "Europa", "cały świat", "cały świat bez USA i Kanady"' },
+    ],
+  },
+  property_insurance: {
+    productType: 'property_insurance',
+    label: 'Ubezpieczenie majątkowe',
+    fields: [
+      { key: 'walls_sum', label: 'Suma ubezpieczenia murów', kind: 'amount', hint: 'suma ubezpieczenia budynku lub lokalu (mury, elementy stałe)' },
+      { key: 'contents_sum', label: 'Suma ubezpieczenia ruchomości', kind: 'amount', hint: 'suma ubezpieczenia ruchomości domowych (wyposażenie)' },
+      { key: 'theft_sum', label: 'Kradzież z włamaniem', kind: 'amount', hint: 'suma ubezpieczenia od kradzieży z włamaniem i rabunku' },
+      { key: 'civil_liability_sum', label: 'OC w życiu prywatnym', kind: 'amount', hint: 'suma gwarancyjna OC w życiu prywatnym' },
+      { key: 'property_deductible', label: 'Franszyza', kind: 'amount', hint: 'kwotowa franszyza lub udział własny; null, jeśli brak' },
+    ],
+  },
+  life_insurance: {
+    productType: 'life_insurance',
+    label: 'Ubezpieczenie na życie',
+    fields: [
+      { key: 'death_sum', label: 'Suma na wypadek śmierci', kind: 'amount', hint: 'świadczenie z tytułu śmierci ubezpieczonego z dowolnej przyczyny' },
+      { key: 'accidental_death_sum', label: 'Śmierć w wyniku NW', kind: 'amount', hint: 'łączne świadczenie z tytułu śmierci w wyniku nieszczęśliwego wypadku' },
+      { key: 'critical_illness_sum', label: 'Poważne zachorowanie', kind: 'amount', hint: 'świadczenie z tytułu poważnego zachorowania' },
+    ],
+  },
+  health_insurance: {
+    productType: 'health_insurance',
+    label: 'Ubezpieczenie zdrowotne',
+    fields: [
+      { key: 'hospital_daily_benefit', label: 'Pobyt w szpitalu (za dzień)', kind: 'amount', hint: 'świadczenie za jeden dzień pobytu w szpitalu' },
+      { key: 'surgery_sum', label: 'Operacje chirurgiczne', kind: 'amount', hint: 'maksymalne świadczenie z tytułu operacji' },
+      { key: 'outpatient_scope', label: 'Zakres ambulatoryjny', kind: 'text', hint: 'np. liczba specjalistów, badania diagnostyczne, sieć placówek' },
+    ],
+  },
+  accident_insurance: {
+    productType: 'accident_insurance',
+    label: 'Ubezpieczenie NNW',
+    fields: [
+      { key: 'nnw_sum', label: 'Suma ubezpieczenia NNW', kind: 'amount', hint: 'podstawowa suma ubezpieczenia następstw nieszczęśliwych wypadków' },
+      { key: 'permanent_injury_per_percent', label: 'Świadczenie za 1% uszczerbku', kind: 'amount', hint: 'kwota wypłacana za każdy procent trwałego uszczerbku na zdrowiu' },
+      { key: 'hospital_daily_benefit', label: 'Pobyt w szpitalu (za dzień)', kind: 'amount', hint: 'świadczenie za jeden dzień pobytu w szpitalu po wypadku' },
+    ],
+  },
+};
+
+export function getProductTemplate(productType: string | null | undefined): ProductTemplate | null {
+  if (!productType) {
+    return null;
+  }
+
+  return PRODUCT_TEMPLATES[productType.trim().toLowerCase()] ?? null;
+}
+
+/** JSON schema of the `product_fields` object added to the extraction tool call. */
+export function buildProductFieldsSchema(template: ProductTemplate) {
+  return {
+    type: 'object',
+    description: `Parametry specyficzne dla produktu: ${template.label}`,
+    properties: Object.fromEntries(
+      template.fields.map(field => [
+        field.key,
+        field.kind === 'amount'
+          ? {
+              anyOf: [
+                { type: 'number' },
+                { type: 'string', description: 'Amount as number string' }
+              ],
+              description: `${field.label}: ${field.hint}`
+            }
+          : { type: 'string', description: `${field.label}: ${field.hint}` }
+      ])
+    )
+  };
+}
+
+export function buildProductTemplateInstructions(template: ProductTemplate): string {
+  const lines = template.fields.map(field =>
+    `- ${field.key} (${field.kind === 'amount' ? 'NUMBER' : 'tekst'}): ${field.label} – ${field.hint}`
+  );
+
+  return [
+    `Rodzaj produktu: ${template.label}. Oprócz standardowych pól wypełnij obiekt product_fields:`,
+    ...lines,
+    'Jeśli wartości nie ma w tym segmencie, użyj null.'
+  ].join('\n');
+}
+
+/** Keeps only the template's keys, with amounts parsed to numbers. */
+export function normalizeProductFields(value: unknown, template: ProductTemplate): ProductFields {
+  const record = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+
+  return Object.fromEntries(
+    template.fields.map(field => {
+      const raw = record[field.key];
+      if (field.kind === 'amount') {
+        return [field.key, parseNumberValue(raw)];
+      }
+      return [field.key, typeof raw === 'string' && raw.trim().length > 0 ? raw.trim() : null];
+    })
+  );
+}
@@ -3,10 +3,16 @@
 import {
   ParsedSection,
   ProductTypeHeuristicResult,
+  SectionType,
   inferProductTypeFromText
 } from './classifier.ts';
+import { CitationLocator, FieldSource, createCitationLocator } from './citations.ts';
+import { CurrencySource, detectOfferCurrency } from './currency.ts';
+import { FieldConfidence, FieldOrigin, scoreFieldConfidence } from './field-confidence.ts';
+import type { MineruPage } from './mineru-client.ts';
+import { WaitingPeriod, extractWaitingPeriods } from './waiting-periods.ts';
 
-function parseNumberValue(value: unknown): number | null {
+export function parseNumberValue(value: unknown): number | null {
   if (typeof value === 'number' && !Number.isNaN(value)) {
     return value;
   }
@@ -175,6 +181,9 @@ export interface UnifiedOffer {
   discounts: string[];
   total_premium_before_discounts: number | 'missing';
   total_premium_after_discounts: number | 'missing';
+  /** ISO 4217 code all amounts of the offer are quoted in. */
+  currency: string;
+  currency_source: CurrencySource;
   payment_schedule: {
     normalized_cycles: PaymentCycle[];
     raw_mentions: string[];
@@ -192,6 +201,8 @@ export interface UnifiedOffer {
     description: string;
     keywords: string[];
   }>;
+  /** Waiting periods (karencja) found in the document; 0 days marks an explicit "bez karencji". */
+  waiting_periods: WaitingPeriod[];
   duration: {
     start: string;
     end: string;
@@ -199,6 +210,10 @@ export interface UnifiedOffer {
   };
   notes: string[];
   missing_fields: string[];
+  /** Citations keyed by the same paths as `missing_fields`, e.g. `base_contracts[0].sum`. */
+  field_sources: Record<string, FieldSource>;
+  /** Per-field confidence keyed like `field_sources`; `extraction_confidence` stays document-wide. */
+  field_confidence: Record<string, FieldConfidence>;
   extraction_confidence: 'high' | 'medium' | 'low';
 }
 
@@ -227,6 +242,8 @@ export function buildUnifiedOffer(
     documentId: string | undefined;
     fileName: string;
     calculationId?: string;
+    /** Parsed pages used to cite each extracted value; omitted citations when absent. */
+    pages?: MineruPage[];
   },
   aiExtractedData?: any
 ): UnifiedOfferBuildResult {
@@ -279,6 +296,7 @@ export function buildUnifiedOffer(
   const { beforeDiscounts, afterDiscounts } = extractPremiums(sections, aiExtractedData, missingFields);
   registerSources('premium', 'premiums');
   const paymentSchedule = extractPaymentSchedule(sections, aiExtractedData);
+  const currency = detectOfferCurrency(sections, aiExtractedData);
   registerSources('premium', 'payment_schedule');
 
   // Build assistance array
@@ -287,6 +305,7 @@ export function buildUnifiedOffer(
 
   // Extract exclusions
   const exclusions = buildExclusions(sections, aiExtractedData);
+  const waitingPeriods = extractWaitingPeriods(sections);
 
   // Extract duration
   const duration = extractDuration(sections, aiExtractedData);
@@ -310,15 +329,30 @@ export function buildUnifiedOffer(
     discounts,
     total_premium_before_discounts: beforeDiscounts,
     total_premium_after_discounts: afterDiscounts,
+    currency: currency.code,
+    currency_source: currency.source,
     payment_schedule: paymentSchedule,
     assistance,
     exclusions,
+    waiting_periods: waitingPeriods,
     duration,
     notes,
     missing_fields: missingFields,
+    field_sources: {},
+    field_confidence: {},
     extraction_confidence: extractionConfidence
   };
 
+  const citableFields = listCitableFields(offer);
+  offer.field_confidence = collectFieldConfidence(citableFields, sections, aiExtractedData);
+  const lowConfidenceCount = Object.values(offer.field_confidence).filter(entry => entry.level === 'low').length;
+  console.log(`🎯 Builder: Scored ${citableFields.length} field(s), ${lowConfidenceCount} with low confidence`);
+
+  if (metadata.documentId && metadata.pages && metadata.pages.length > 0) {
+    offer.field_sources = collectFieldSources(citableFields, createCitationLocator(metadata.documentId, metadata.pages));
+    console.log(`📍 Builder: Cited ${Object.keys(offer.field_sources).length} field(s)`);
+  }
+
   const heuristicFragments: string[] = [];
   if (typeof aiExtractedData?.product_type === 'string') {
     heuristicFragments.push(aiExtractedData.product_type);
@@ -354,6 +388,139 @@ export function buildUnifiedOffer(
   };
 }
 
+interface CitableField {
+  path: string;
+  value: number | string;
+  /** Field labels that help pick the right block when a value occurs several times. */
+  hints: Array<string | undefined>;
+  /** Section types the value is expected to be printed in. */
+  sectionTypes: SectionType[];
+}
+
+const PREMIUM_HINTS = ['składka', 'razem', 'łącznie', 'do zapłaty'];
+
+/**
+ * Lists the extracted values worth verifying, keyed by the same paths as `missing_fields`.
+ * Missing numbers and placeholder texts are left out.
+ */
+function listCitableFields(offer: UnifiedOffer): CitableField[] {
+  const fields: CitableField[] = [];
+
+  const addNumber = (path: string, value: number | 'missing', hints: Array<string | undefined>, sectionTypes: SectionType[]) => {
+    if (typeof value === 'number') {
+      fields.push({ path, value, hints, sectionTypes });
+    }
+  };
+  const addText = (path: string, value: string | undefined, hints: Array<string | undefined>, sectionTypes: SectionType[]) => {
+    if (value && value !== 'missing' && value !== 'brak danych' && value !== 'brak szczegółów') {
+      fields.push({ path, value, hints, sectionTypes });
+    }
+  };
+
+  addNumber('total_premium_before_discounts', offer.total_premium_before_discounts, [...PREMIUM_HINTS, 'przed', 'zniżk'], ['premium', 'discount']);
+  addNumber('total_premium_after_discounts', offer.total_premium_after_discounts, PREMIUM_HINTS, ['premium']);
+
+  offer.insured.forEach((person, index) => {
+    addText(`insured[${index}].name`, person.name, [person.role], ['insured']);
+    addNumber(`insured[${index}].age`, person.age, [person.name, 'wiek', 'lat'], ['insured']);
+    person.plans.forEach((plan, planIndex) => {
+      addNumber(`insured[${index}].plans[${planIndex}].sum`, plan.sum, [plan.type, 'suma'], ['insured', 'base_contract']);
+      addNumber(`insured[${index}].plans[${planIndex}].premium`, plan.premium, [plan.type, 'składka'], ['insured', 'premium']);
+    });
+  });
+
+  offer.base_contracts.forEach((contract, index) => {
+    addText(`base_contracts[${index}].name`, contract.name, [], ['base_contract']);
+    addNumber(`base_contracts[${index}].sum`, contract.sum, [contract.name, 'suma'], ['base_contract']);
+    addNumber(`base_contracts[${index}].premium`, contract.premium, [contract.name, 'składka'], ['base_contract', 'premium']);
+  });
+
+  offer.additional_contracts.forEach((contract, index) => {
+    addText(`additional_contracts[${index}].name`, contract.name, [], ['additional_contract']);
+    addNumber(`additional_contracts[${index}].premium`, contract.premium, [contract.name, 'składka'], ['additional_contract', 'premium']);
+  });
+
+  offer.discounts.forEach((discount, index) => addText(`discounts[${index}]`, discount, ['zniżka', 'rabat'], ['discount']));
+  offer.assistance.forEach((service, index) => addText(`assistance[${index}].name`, service.name, ['assistance'], ['assistance']));
+  offer.exclusions.forEach((exclusion, index) =>
+    addText(
+      `exclusions[${index}]`,
+      exclusion.description === 'brak szczegółów' ? exclusion.name : exclusion.description,
+      ['wyłączenia', 'nie obejmuje'],
+      ['unknown', 'base_contract', 'additional_contract', 'assistance']
+    )
+  );
+
+  addText('duration.start', offer.duration.start, ['początek', 'okres'], ['duration']);
+  addText('duration.end', offer.duration.end, ['koniec', 'okres'], ['duration']);
+
+  return fields;
+}
+
+/**
+ * Locates every extracted value in the parsed pages. Fields that cannot be found
+ * are left out rather than guessed, so the UI only offers verification where it holds.
+ */
+function collectFieldSources(fields: CitableField[], locator: CitationLocator): Record<string, FieldSource> {
+  const fieldSources: Record<string, FieldSource> = {};
+
+  for (const field of fields) {
+    const source = typeof field.value === 'number'
+      ? locator.locateNumber(field.value, field.hints)
+      : locator.locateText(field.value, field.hints);
+    if (source) {
+      fieldSources[field.path] = source;
+    }
+  }
+
+  return fieldSources;
+}
+
+/**
+ * Discounts, assistance and exclusions fall back to regex matches on section text when the
+ * model did not return them; everything else is taken from the AI response.
+ */
+function resolveFieldOrigin(path: string, value: number | string, aiData: any): FieldOrigin {
+  if (path.startsWith('discounts[')) {
+    return Array.isArray(aiData?.discounts) && aiData.discounts.includes(value) ? 'ai' : 'regex';
+  }
+  if (path.startsWith('assistance[')) {
+    return Array.isArray(aiData?.assistance) && aiData.assistance.length > 0 ? 'ai' : 'regex';
+  }
+  if (path.startsWith('exclusions[')) {
+    const aiTexts = new Set(
+      (Array.isArray(aiData?.exclusions) ? aiData.exclusions : []).flatMap((entry: any) =>
+        typeof entry === 'string'
+          ? [entry.trim()]
+          : [entry?.name, entry?.title, entry?.description, entry?.detail].filter((text) => typeof text === 'string')
+      )
+    );
+    return aiTexts.has(value) ? 'ai' : 'regex';
+  }
+  return 'ai';
+}
+
+function collectFieldConfidence(
+  fields: CitableField[],
+  sections: ParsedSection[],
+  aiData: any
+): Record<string, FieldConfidence> {
+  const fieldConfidence: Record<string, FieldConfidence> = {};
+
+  for (const field of fields) {
+    fieldConfidence[field.path] = scoreFieldConfidence(
+      {
+        value: field.value,
+        origin: resolveFieldOrigin(field.path, field.value, aiData),
+        sectionTypes: field.sectionTypes
+      },
+      sections
+    );
+  }
+
+  return fieldConfidence;
+}
+
 function buildInsuredArray(
   sections: ParsedSection[],
   aiData: any,
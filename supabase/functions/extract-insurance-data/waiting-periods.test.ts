@@ -0,0 +1,35 @@
+import { describe, expect, it } from "bun:test";
+
+import type { ParsedSection } from "./classifier.ts";
+import { extractWaitingPeriods } from "./waiting-periods.ts";
+
+const section = (content: string): ParsedSection => ({
+  type: "additional_contract",
+  content,
+  keywords: [],
+  confidence: 0.5,
+  pageRange: null,
+  snippet: content.slice(0, 40),
+});
+
+describe("extractWaitingPeriods", () => {
+  it("converts waiting periods to days", () => {
+    const periods = extractWaitingPeriods([
+      section("Poważne zachorowanie – karencja 3 miesiące\nPobyt w szpitalu: okres karencji 30 dni"),
+      section("Leczenie stomatologiczne, karencja: 2 tygodnie"),
+    ]);
+
+    expect(periods.map((period) => period.days)).toEqual([90, 30, 14]);
+    expect(periods[0].name).toBe("Poważne zachorowanie – karencja 3 miesiące");
+  });
+
+  it("records lines without a waiting period as zero days", () => {
+    expect(extractWaitingPeriods([section("Ochrona od pierwszego dnia, bez karencji")])).toEqual([
+      { name: "Ochrona od pierwszego dnia, bez karencji", days: 0 },
+    ]);
+  });
+
+  it("ignores documents that do not mention waiting periods", () => {
+    expect(extractWaitingPeriods([section("Składka miesięczna 120 zł, okres 12 miesięcy")])).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+// Waiting period (karencja) detection for extracted offers
+
+import type { ParsedSection } from './classifier.ts';
+
+export interface WaitingPeriod {
+  /** Line of the document the period was read from, trimmed to a readable length. */
+  name: string;
+  days: number;
+}
+
+const MAX_NAME_LENGTH = 120;
+
+const WAITING_PERIOD_PATTERN =
+  /karencj\p{L}*[^\n\d]{0,60}?(\d{1,3})\s*(dni|dzień|dnia|tydz\p{L}*|tygodni\p{L}*|mies\p{L}*\.?|miesiąc\p{L}*)/giu;
+const NO_WAITING_PERIOD_PATTERN = /bez\s+(?:okresu\s+)?karencji/iu;
+
+const toDays = (value: number, unit: string): number => {
+  const normalized = unit.toLowerCase();
+  if (normalized.startsWith('mies')) {
+    return value * 30;
+  }
+  if (normalized.startsWith('tyg') || normalized.startsWith('tydz')) {
+    return value * 7;
+  }
+  return value;
+};
+
+const toName = (line: string): string => {
+  const trimmed = line.replace(/\s+/g, ' ').trim();
+  return trimmed.length > MAX_NAME_LENGTH ? `${trimmed.slice(0, MAX_NAME_LENGTH - 1)}…` : trimmed;
+};
+
+/**
+ * Reads waiting periods ("karencja 3 miesiące", "okres karencji: 90 dni") from the document
+ * text. Lines stating there is no waiting period are recorded with 0 days, so an empty list
+ * means the document does not mention waiting periods at all.
+ */
+export function extractWaitingPeriods(sections: ParsedSection[]): WaitingPeriod[] {
+  const periods = new Map<string, WaitingPeriod>();
+
+  for (const section of sections) {
+    for (const line of section.content.split(/\r?\n/)) {
+      if (!/karencj/iu.test(line)) {
+        continue;
+      }
+
+      const name = toName(line);
+      if (NO_WAITING_PERIOD_PATTERN.test(line)) {
+        periods.set(`${name}:0`, { name, days: 0 });
+        continue;
+      }
+
+      for (const match of line.matchAll(WAITING_PERIOD_PATTERN)) {
+        const days = toDays(Number(match[1]), match[2]);
+        periods.set(`${name}:${days}`, { name, days });
+      }
+    }
+  }
+
+  return Array.from(periods.values());
+}
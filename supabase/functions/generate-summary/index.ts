@@ -1,6 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  completeJson,
+  resolveLlmProvider,
+  type JsonCompletionResult,
+  type LlmMessage,
+} from "../_shared/llm/mod.ts";
+import { createSummaryStream } from "./stream.ts";
+import {
+  buildSummarySystemPrompt,
+  DEFAULT_SUMMARY_LANGUAGE,
+  DEFAULT_SUMMARY_STYLE,
+  SUMMARY_LANGUAGES,
+  SUMMARY_STYLE_IDS,
+  summaryStorageKey,
+} from "./styles.ts";
 
 // Text sanitization utilities (copied from mineru-client to avoid cross-function imports)
 function sanitizePlainText(value: string): string {
@@ -147,10 +162,43 @@ const createCorsHeaders = (origin: string | null) => {
   } as const;
 };
 
+// Default model on the Lovable gateway; LLM_PROVIDER / LLM_MODEL can override it.
+const SUMMARY_MODEL = "google/gemini-2.5-flash";
+
 const comparisonSchema = z.object({
   comparison_id: z.string().min(1, "comparison_id is required"),
+  // The result page asks for server-sent events; the orchestrator waits for the plain JSON response.
+  stream: z.boolean().optional(),
+  style: z.enum(SUMMARY_STYLE_IDS).default(DEFAULT_SUMMARY_STYLE),
+  language: z.enum(SUMMARY_LANGUAGES).default(DEFAULT_SUMMARY_LANGUAGE),
 });
 
+const optionalText = z.string().nullable().optional();
+const optionalTextList = z.array(z.string()).nullable().optional();
+
+// Validates the model answer before sanitizeSummary trims it; a mismatch triggers a re-prompt.
+const summaryResponseSchema = z.object({
+  recommended_offer: z
+    .object({
+      name: optionalText,
+      insurer: optionalText,
+      summary: optionalText,
+      key_numbers: z
+        .array(z.object({ label: z.string(), value: z.union([z.string(), z.number()]).transform(String) }))
+        .nullable()
+        .optional(),
+    })
+    .passthrough()
+    .nullable()
+    .optional(),
+  reasons: optionalTextList,
+  risks: optionalTextList,
+  next_steps: optionalTextList,
+  fallback_text: optionalText,
+}).passthrough();
+
+type SummaryResponse = z.infer<typeof summaryResponseSchema>;
+
 type SummaryKeyNumber = {
   label: string;
   value: string;
@@ -287,32 +335,14 @@ const sanitizeSummary = (value: unknown, rawText: string): SummaryData | null =>
   return summary;
 };
 
-const parseSummaryResponse = (content: string): { data: SummaryData; rawText: string } => {
-  const rawText = content.trim();
-  const jsonMatch =
-    rawText.match(/```json\n?([\s\S]*?)\n?```/) ||
-    rawText.match(/```\n?([\s\S]*?)\n?```/);
-  const jsonText = jsonMatch ? jsonMatch[1] : rawText;
-
-  if (jsonText.trim().length === 0) {
-    return {
-      data: { raw_text: rawText || null, fallback_text: rawText || null, parse_error: true },
-      rawText,
-    };
-  }
-
-  try {
-    const parsed = JSON.parse(jsonText.trim());
-    const sanitized = sanitizeSummary(parsed, rawText);
-    if (sanitized) {
-      return { data: sanitized, rawText };
-    }
-  } catch (parseError) {
-    console.error("Failed to parse AI summary JSON");
-  }
+const toSummaryResult = (
+  result: JsonCompletionResult<SummaryResponse>,
+): { data: SummaryData; rawText: string } => {
+  const rawText = result.content.trim();
+  const sanitized = result.ok ? sanitizeSummary(result.data, rawText) : null;
 
   return {
-    data: { raw_text: rawText || null, fallback_text: rawText || null, parse_error: true },
+    data: sanitized ?? { raw_text: rawText || null, fallback_text: rawText || null, parse_error: true },
     rawText,
   };
 };
@@ -377,12 +407,12 @@ serve(async (req) => {
       );
     }
 
-    const { comparison_id } = validation.data;
-    console.log("Generating summary for:", comparison_id);
+    const { comparison_id, stream, style, language } = validation.data;
+    console.log("Generating summary for:", comparison_id, { style, language });
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
+    const llm = resolveLlmProvider((name) => Deno.env.get(name), { defaultModel: SUMMARY_MODEL });
 
     const supabase = createClient(supabaseUrl, supabaseKey, {
       global: {
@@ -393,14 +423,16 @@ serve(async (req) => {
     });
 
     const accessToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+    // The comparison-orchestrator worker calls this function with the service role key.
+    const isServiceRoleCall = accessToken.length > 0 && accessToken === supabaseKey;
     const {
       data: { user },
       error: userError,
-    } = accessToken
+    } = accessToken && !isServiceRoleCall
       ? await supabase.auth.getUser(accessToken)
       : { data: { user: null }, error: null } as const;
 
-    if (userError || !user) {
+    if (!isServiceRoleCall && (userError || !user)) {
       console.warn("generate-summary: user authentication failed", {
         hasError: !!userError,
       });
@@ -424,7 +456,7 @@ serve(async (req) => {
       throw new Error("Comparison or comparison data not found");
     }
 
-    if (comparison.user_id !== user.id) {
+    if (!isServiceRoleCall && comparison.user_id !== user.id) {
       return new Response(
         JSON.stringify({ error: "Forbidden" }),
         {
@@ -434,102 +466,143 @@ serve(async (req) => {
       );
     }
 
-    // Call Lovable AI to generate summary
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "system",
-            content: `Jesteś doradcą ubezpieczeniowym, który przygotowuje rekomendacje dla klientów.
-            Na podstawie porównania ofert zwróć TYLKO poprawny JSON w następującym formacie:
-            {
-              "recommended_offer": {
-                "name": "nazwa oferty lub ubezpieczyciela",
-                "insurer": "nazwa towarzystwa (opcjonalnie)",
-                "summary": "krótkie uzasadnienie wyboru",
-                "key_numbers": [
-                  { "label": "np. Składka roczna", "value": "1230 zł" }
-                ]
-              },
-              "reasons": ["najważniejsze powody wyboru, preferowane liczby"],
-              "risks": ["kluczowe ryzyka lub ograniczenia"],
-              "next_steps": ["konkretne działania dla klienta"],
-              "fallback_text": "zwięzłe tekstowe podsumowanie (max 150 słów)"
-            }
-
-            - Użyj języka prostego i przyjaznego.
-            - Jeśli czegoś nie wiesz, pomiń pole lub użyj wartości null.
-            - Nie dodawaj żadnego dodatkowego tekstu ani formatowania.`,
-          },
-          {
-            role: "user",
-            content: `Napisz podsumowanie na podstawie tego porównania:\n\n${JSON.stringify(
-              comparison.comparison_data,
-              null,
-              2,
-            )}`,
-          },
-        ],
-      }),
-    });
+    const systemPrompt = buildSummarySystemPrompt(style, language);
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      throw new Error(`AI API error: ${aiResponse.status} - ${errorText}`);
-    }
+    const messages: LlmMessage[] = [
+      {
+        role: "system",
+        content: systemPrompt,
+      },
+      {
+        role: "user",
+        content: `Napisz podsumowanie na podstawie tego porównania:\n\n${JSON.stringify(
+          comparison.comparison_data,
+          null,
+          2,
+        )}`,
+      },
+    ];
 
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.choices?.[0]?.message?.content ?? "";
-    const parsedSummary = parseSummaryResponse(aiContent);
-    const candidatePlainText =
-      parsedSummary.data.fallback_text
-      ?? parsedSummary.data.raw_text
-      ?? parsedSummary.rawText;
-    const summaryPlainText = typeof candidatePlainText === "string"
-      ? sanitizePlainText(candidatePlainText)
-      : "";
+    // Shared by the streamed and the plain response, so both leave the same rows behind.
+    const persistSummary = async (aiResult: JsonCompletionResult<SummaryResponse>): Promise<SummaryData> => {
+      const parsedSummary = toSummaryResult(aiResult);
+      const candidatePlainText =
+        parsedSummary.data.fallback_text
+        ?? parsedSummary.data.raw_text
+        ?? parsedSummary.rawText;
+      const summaryPlainText = typeof candidatePlainText === "string"
+        ? sanitizePlainText(candidatePlainText)
+        : "";
+
+      console.log("📝 Summary plain text length:", summaryPlainText.length);
+
+      // summary_text always holds the default style in Polish, which the orchestrator and reports rely on.
+      const summaryTextUpdate = style === DEFAULT_SUMMARY_STYLE && language === DEFAULT_SUMMARY_LANGUAGE
+        ? { summary_text: summaryPlainText.length > 0 ? summaryPlainText : null }
+        : {};
+
+      // Other styles may be generated at the same time, so the summary is set under its own key in
+      // summary_json by the database instead of writing back a merged copy.
+      const summaryKey = summaryStorageKey(style, language);
+
+      try {
+        const { error: summaryError } = await supabase.rpc("store_comparison_summary", {
+          p_comparison_id: comparison_id,
+          p_summary_key: summaryKey,
+          p_summary: parsedSummary.data,
+        });
+
+        if (summaryError) {
+          throw summaryError;
+        }
+
+        if ("summary_text" in summaryTextUpdate) {
+          const { error: updateError } = await supabase
+            .from("comparisons")
+            .update(summaryTextUpdate)
+            .eq("id", comparison_id);
+
+          if (updateError) {
+            throw updateError;
+          }
+        }
+      } catch (updateError) {
+        // Properly serialize Supabase error objects
+        const errorDetails = updateError instanceof Error 
+          ? updateError.message 
+          : typeof updateError === 'object' && updateError !== null
+            ? JSON.stringify(updateError)
+            : String(updateError);
+      
+        console.error("Failed to persist summary", { 
+          comparison_id, 
+          error: updateError,
+          errorDetails 
+        });
+      
+        throw new Error(`Failed to update summary: ${errorDetails}`);
+      }
 
-    console.log("📝 Summary plain text length:", summaryPlainText.length);
+      // Complete the version opened by compare-offers for this run.
+      const { data: latestVersion, error: versionLookupError } = await supabase
+        .from("comparison_versions")
+        .select("id")
+        .eq("comparison_id", comparison_id)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (versionLookupError) {
+        throw new Error(`Failed to read comparison versions: ${versionLookupError.message}`);
+      }
 
-    try {
-      const { error: updateError } = await supabase
-        .from("comparisons")
-        .update({
-          summary_text: summaryPlainText.length > 0 ? summaryPlainText : null,
-          summary_json: parsedSummary.data,
-        })
-        .eq("id", comparison_id);
-
-      if (updateError) {
-        throw updateError;
+      if (latestVersion) {
+        const { error: versionSummaryError } = await supabase.rpc("store_comparison_version_summary", {
+          p_version_id: latestVersion.id,
+          p_summary_key: summaryKey,
+          p_summary: parsedSummary.data,
+        });
+
+        if (versionSummaryError) {
+          throw new Error(`Failed to store summary version: ${versionSummaryError.message}`);
+        }
+
+        const { error: versionError } = await supabase
+          .from("comparison_versions")
+          .update({
+            ...summaryTextUpdate,
+            summary_model: aiResult.model,
+            summary_prompt: systemPrompt,
+            summary_usage: aiResult.usage,
+            summary_generated_at: new Date().toISOString(),
+          })
+          .eq("id", latestVersion.id);
+
+        if (versionError) {
+          throw new Error(`Failed to store summary version: ${versionError.message}`);
+        }
+      } else {
+        console.warn("generate-summary: no comparison version to attach the summary to", { comparison_id });
       }
-    } catch (updateError) {
-      // Properly serialize Supabase error objects
-      const errorDetails = updateError instanceof Error 
-        ? updateError.message 
-        : typeof updateError === 'object' && updateError !== null
-          ? JSON.stringify(updateError)
-          : String(updateError);
-      
-      console.error("Failed to persist summary", { 
-        comparison_id, 
-        error: updateError,
-        errorDetails 
+
+      console.log("Summary generated successfully:", comparison_id);
+      return parsedSummary.data;
+    };
+
+    if (stream) {
+      return new Response(createSummaryStream(llm, messages, summaryResponseSchema, persistSummary), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
       });
-      
-      throw new Error(`Failed to update summary: ${errorDetails}`);
     }
 
-    console.log("Summary generated successfully:", comparison_id);
+    const summary = await persistSummary(await completeJson(llm, { schema: summaryResponseSchema, messages }));
 
     return new Response(
-      JSON.stringify({ success: true, summary: parsedSummary.data }),
+      JSON.stringify({ success: true, summary }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } },
     );
   } catch (error) {
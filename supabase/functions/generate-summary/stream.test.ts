@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test";
+
+import type { LlmProviderConfig } from "../_shared/llm/mod.ts";
+import { createSummaryStream } from "./stream.ts";
+
+const config: LlmProviderConfig = {
+  provider: "lovable",
+  baseUrl: "https://ai.gateway.lovable.dev/v1",
+  apiKey: "key",
+  model: "google/gemini-2.5-flash",
+};
+
+const reasonsSchema = {
+  safeParse(value: any) {
+    return Array.isArray(value?.reasons)
+      ? { success: true as const, data: value as { reasons: string[] } }
+      : { success: false as const, error: { message: "reasons: Required" } };
+  },
+};
+
+const deltaEvent = (text: string) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+
+// Hands out one chunk per read so the test can disconnect while the model is still writing.
+const fetchStreaming = (chunks: string[]) =>
+  (async () => {
+    const encoder = new TextEncoder();
+    const pending = [...chunks];
+    return new Response(
+      new ReadableStream({
+        async pull(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          const next = pending.shift();
+          if (next === undefined) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(next));
+          }
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    );
+  }) as unknown as typeof fetch;
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const text = await new Response(stream).text();
+  return text.split("\n\n").filter(Boolean).map((event) => event.split("\n")[0]);
+};
+
+describe("createSummaryStream", () => {
+  it("streams deltas and ends with the persisted summary", async () => {
+    const stream = createSummaryStream(
+      config,
+      [{ role: "user", content: "hi" }],
+      reasonsSchema,
+      async (result) => (result.ok ? result.data : null),
+      { fetch: fetchStreaming([deltaEvent('{"reasons": '), deltaEvent('["Tanio"]}'), "data: [DONE]\n\n"]) },
+    );
+
+    expect(await readAll(stream)).toEqual(["event: delta", "event: delta", "event: done"]);
+  });
+
+  it("persists the summary when the client disconnects mid-stream", async () => {
+    let persisted: unknown = null;
+    let markPersisted: () => void = () => {};
+    const persistedPromise = new Promise<void>((resolve) => {
+      markPersisted = resolve;
+    });
+
+    const stream = createSummaryStream(
+      config,
+      [{ role: "user", content: "hi" }],
+      reasonsSchema,
+      async (result) => {
+        persisted = result.ok ? result.data : null;
+        markPersisted();
+        return persisted;
+      },
+      { fetch: fetchStreaming([deltaEvent('{"reasons": '), deltaEvent('["Tanio"'), deltaEvent("]}"), "data: [DONE]\n\n"]) },
+    );
+
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    await persistedPromise;
+
+    expect(persisted).toEqual({ reasons: ["Tanio"] });
+  });
+});
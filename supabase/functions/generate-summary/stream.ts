@@ -0,0 +1,97 @@
+import {
+  addLlmUsage,
+  buildRepairPrompt,
+  completeJson,
+  parseJsonContent,
+  streamChatCompletion,
+  type ChatCompletionOptions,
+  type JsonCompletionResult,
+  type JsonSchema,
+  type LlmMessage,
+  type LlmProviderConfig,
+} from "../_shared/llm/mod.ts";
+
+const encodeSseEvent = (event: string, data: unknown) =>
+  new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * Sends the answer as `delta` events while the model writes it and ends with `done` carrying the
+ * persisted summary, or `error`. An answer that does not validate gets one non-streamed repair.
+ * The model answer is awaited and persisted even after the client disconnects, so the summary is
+ * there when the page is opened again.
+ */
+export const createSummaryStream = <T, S>(
+  llm: LlmProviderConfig,
+  messages: LlmMessage[],
+  schema: JsonSchema<T>,
+  persist: (result: JsonCompletionResult<T>) => Promise<S>,
+  options: ChatCompletionOptions = {},
+) => {
+  let isCancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (isCancelled) {
+          return;
+        }
+        try {
+          controller.enqueue(encodeSseEvent(event, data));
+        } catch {
+          isCancelled = true;
+        }
+      };
+
+      try {
+        const streamed = await streamChatCompletion(llm, { messages }, (text) => send("delta", { text }), options);
+        const parsed = parseJsonContent(streamed.content, schema);
+        let result: JsonCompletionResult<T>;
+
+        if (parsed.ok) {
+          result = {
+            ok: true,
+            data: parsed.data,
+            content: streamed.content,
+            model: streamed.model,
+            usage: streamed.usage,
+            repairs: 0,
+          };
+        } else {
+          console.warn("generate-summary: streamed answer invalid, repairing", { error: parsed.error });
+          const repaired = await completeJson(
+            llm,
+            {
+              schema,
+              maxRepairs: 1,
+              messages: [
+                ...messages,
+                { role: "assistant", content: streamed.content },
+                { role: "user", content: buildRepairPrompt(parsed.error) },
+              ],
+            },
+            options,
+          );
+          result = { ...repaired, usage: addLlmUsage(streamed.usage, repaired.usage), repairs: repaired.repairs + 1 };
+        }
+
+        const summary = await persist(result);
+        send("done", { summary });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error in generate-summary stream:", { message: errorMessage });
+        send("error", { error: errorMessage });
+      } finally {
+        if (!isCancelled) {
+          try {
+            controller.close();
+          } catch {
+            // The client went away between the last event and closing.
+          }
+        }
+      }
+    },
+    cancel() {
+      isCancelled = true;
+    },
+  });
+};
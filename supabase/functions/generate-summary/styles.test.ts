@@ -0,0 +1,31 @@
+import { describe, expect, it } from "bun:test";
+
+import { buildSummarySystemPrompt, summaryStorageKey } from "./styles.ts";
+
+describe("buildSummarySystemPrompt", () => {
+  it("describes the audience, tone and length of the style", () => {
+    const prompt = buildSummarySystemPrompt("letter");
+
+    expect(prompt).toContain("Odbiorca: klient otrzymujący oficjalną rekomendację od brokera.");
+    expect(prompt).toContain("Szanowni Państwo");
+    expect(prompt).toContain("max 250 słów");
+    expect(buildSummarySystemPrompt("client")).toContain("max 150 słów");
+  });
+
+  it("asks for the summary in the requested language", () => {
+    expect(buildSummarySystemPrompt("client")).toContain("w języku polskim");
+    expect(buildSummarySystemPrompt("memo", "uk")).toContain("w języku ukraińskim");
+  });
+});
+
+describe("summaryStorageKey", () => {
+  it("keeps the bare style key for Polish summaries", () => {
+    expect(summaryStorageKey("memo")).toBe("memo");
+    expect(summaryStorageKey("client", "pl")).toBe("client");
+  });
+
+  it("stores other languages next to the Polish summary of the style", () => {
+    expect(summaryStorageKey("client", "en")).toBe("client.en");
+    expect(summaryStorageKey("sms", "uk")).toBe("sms.uk");
+  });
+});
@@ -0,0 +1,95 @@
+// Same style ids as SUMMARY_STYLES in src/lib/summary-styles.ts.
+export const SUMMARY_STYLE_IDS = ["client", "sms", "memo", "letter"] as const;
+
+export type SummaryStyle = typeof SUMMARY_STYLE_IDS[number];
+
+/** Written by the orchestrator and used whenever a request does not name a style. */
+export const DEFAULT_SUMMARY_STYLE: SummaryStyle = "client";
+
+// Same language codes as LANGUAGES in src/lib/i18n.ts.
+export const SUMMARY_LANGUAGES = ["pl", "en", "uk"] as const;
+
+export type SummaryLanguage = typeof SUMMARY_LANGUAGES[number];
+
+export const DEFAULT_SUMMARY_LANGUAGE: SummaryLanguage = "pl";
+
+// Instrumental case, as used in "w języku …".
+const SUMMARY_LANGUAGE_NAMES: Record<SummaryLanguage, string> = {
+  pl: "polskim",
+  en: "angielskim",
+  uk: "ukraińskim",
+};
+
+interface SummaryStylePreset {
+  audience: string;
+  tone: string;
+  length: string;
+}
+
+const SUMMARY_STYLE_PRESETS: Record<SummaryStyle, SummaryStylePreset> = {
+  client: {
+    audience: "klient, który nie zna się na ubezpieczeniach",
+    tone: "Użyj języka prostego i przyjaznego.",
+    length: "zwięzłe tekstowe podsumowanie (max 150 słów)",
+  },
+  sms: {
+    audience: "klient czytający wiadomość SMS na telefonie",
+    tone:
+      "Pisz krótko i bezpośrednio, jak w wiadomości SMS. Podaj najwyżej 2 pozycje w \"reasons\", \"risks\" i \"next_steps\".",
+    length: "jedna lub dwie wiadomości SMS (max 300 znaków), bez nagłówków i list",
+  },
+  memo: {
+    audience: "broker i zespół biura, notatka wewnętrzna do akt klienta",
+    tone:
+      "Pisz rzeczowo i fachowo, używaj terminologii ubezpieczeniowej. Podaj konkretne kwoty, sumy ubezpieczenia i różnice między wszystkimi ofertami.",
+    length: "szczegółowa notatka wewnętrzna (max 400 słów)",
+  },
+  letter: {
+    audience: "klient otrzymujący oficjalną rekomendację od brokera",
+    tone:
+      "Użyj stylu formalnego listu: zwracaj się per \"Szanowni Państwo\", stosuj formy grzecznościowe i unikaj skrótów.",
+    length: "formalny list z rekomendacją (max 250 słów) z powitaniem i zakończeniem",
+  },
+};
+
+export const buildSummarySystemPrompt = (
+  style: SummaryStyle,
+  language: SummaryLanguage = DEFAULT_SUMMARY_LANGUAGE,
+) => {
+  const preset = SUMMARY_STYLE_PRESETS[style];
+
+  return `Jesteś doradcą ubezpieczeniowym, który przygotowuje rekomendacje.
+            Odbiorca: ${preset.audience}.
+            Na podstawie porównania ofert zwróć TYLKO poprawny JSON w następującym formacie:
+            {
+              "recommended_offer": {
+                "name": "nazwa oferty lub ubezpieczyciela",
+                "insurer": "nazwa towarzystwa (opcjonalnie)",
+                "summary": "krótkie uzasadnienie wyboru",
+                "key_numbers": [
+                  { "label": "np. Składka roczna", "value": "1230 zł" }
+                ]
+              },
+              "reasons": ["najważniejsze powody wyboru, preferowane liczby"],
+              "risks": ["kluczowe ryzyka lub ograniczenia"],
+              "next_steps": ["konkretne działania dla klienta"],
+              "fallback_text": "${preset.length}"
+            }
+
+            - ${preset.tone}
+            - Wszystkie teksty w JSON (także "label" i "value" w "key_numbers") napisz w języku ${SUMMARY_LANGUAGE_NAMES[language]}.
+              Klucze JSON pozostaw bez zmian.
+            - Jeśli czegoś nie wiesz, pomiń pole lub użyj wartości null.
+            - Jeśli porównanie zawiera "client_needs" (profil potrzeb klienta), uzasadnij "reasons"
+              odwołując się do wieku, osób na utrzymaniu, budżetu i skłonności do ryzyka klienta.
+              Oferty przekraczające budżet lub bez zakresów z "must_have_coverages" wymień w "risks"
+              i nie rekomenduj ich, jeśli istnieje oferta spełniająca te wymagania.
+            - Nie dodawaj żadnego dodatkowego tekstu ani formatowania.`;
+};
+
+/**
+ * Key of a summary in `summary_json`. Polish summaries keep the bare style key they had before
+ * other languages existed; the others are stored as `<style>.<language>`.
+ */
+export const summaryStorageKey = (style: SummaryStyle, language: SummaryLanguage = DEFAULT_SUMMARY_LANGUAGE) =>
+  language === DEFAULT_SUMMARY_LANGUAGE ? style : `${style}.${language}`;
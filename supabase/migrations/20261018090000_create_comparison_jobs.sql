@@ -0,0 +1,43 @@
+-- Server-side orchestration of the comparison pipeline.
+-- One job per comparison; the comparison-orchestrator edge function owns the state machine.
+CREATE TABLE IF NOT EXISTS public.comparison_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  comparison_id UUID NOT NULL UNIQUE REFERENCES public.comparisons(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL DEFAULT 'triggering_extraction'
+    CHECK (stage IN ('triggering_extraction', 'waiting_for_extraction', 'comparing_offers', 'generating_summary', 'done')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'retrying', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  stage_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comparison_jobs_pending
+ON public.comparison_jobs(next_attempt_at)
+WHERE status IN ('queued', 'running', 'retrying');
+
+ALTER TABLE public.comparison_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written only by the worker (service role); users may observe their own jobs.
+CREATE POLICY "Users can view own comparison jobs" ON public.comparison_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_comparison_jobs_updated_at
+  BEFORE UPDATE ON public.comparison_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Let the UI subscribe to progress instead of polling.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comparison_jobs;
+
+COMMENT ON COLUMN public.comparison_jobs.stage IS 'Current pipeline stage (mirrors ComparisonStage on the client)';
+COMMENT ON COLUMN public.comparison_jobs.attempts IS 'Failed attempts of the current stage';
+COMMENT ON COLUMN public.comparison_jobs.stage_started_at IS 'When the current stage was entered (used to time out stuck extractions)';
+COMMENT ON COLUMN public.comparison_jobs.next_attempt_at IS 'Earliest time the worker may pick the job up again (retry backoff)';
+COMMENT ON COLUMN public.comparison_jobs.locked_until IS 'Lease held by the worker processing the job; expired leases are resumed by the sweep';
@@ -0,0 +1,11 @@
+-- Fine-grained extraction progress, streamed to the browser through Supabase Realtime.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS processing_stage TEXT
+    CHECK (processing_stage IN ('mineru_queued', 'mineru_running', 'archive_downloaded', 'ai_extraction', 'unified_build')),
+  ADD COLUMN IF NOT EXISTS processing_stage_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.documents.processing_stage IS 'Sub-stage of extract-insurance-data while status = processing; NULL before extraction starts';
+COMMENT ON COLUMN public.documents.processing_stage_updated_at IS 'When processing_stage last changed';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comparisons;
@@ -0,0 +1,5 @@
+-- Per-provider outcome of the document parser chain (pdf-text, MinerU, ConvertAPI, fixtures).
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS ocr_attempts JSONB;
+
+COMMENT ON COLUMN public.documents.ocr_attempts IS 'Ordered parser attempts: [{provider, status, durationMs, textLength?, error?}]';
@@ -0,0 +1,40 @@
+-- Broker-maintained exchange rates used to compare offers quoted in different currencies.
+-- Rates are entered by hand or imported from a file; no live rate service is queried.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'PLN'),
+  rate_to_pln NUMERIC(14, 6) NOT NULL CHECK (rate_to_pln > 0),
+  valid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, currency)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exchange rates" ON public.exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own exchange rates" ON public.exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own exchange rates" ON public.exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own exchange rates" ON public.exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.comparisons
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT NOT NULL DEFAULT 'PLN'
+    CHECK (reporting_currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN public.exchange_rates.rate_to_pln IS 'Value of one unit of the currency in PLN (NBP-style mid rate)';
+COMMENT ON COLUMN public.exchange_rates.valid_on IS 'Date the rate was published or entered';
+COMMENT ON COLUMN public.comparisons.reporting_currency IS 'Currency premiums are converted to for ranking, deltas and the report';
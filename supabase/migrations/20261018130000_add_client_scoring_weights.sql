@@ -0,0 +1,5 @@
+-- Per-client weights of the offer scoring model; NULL falls back to the product type defaults.
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS scoring_weights JSONB;
+
+COMMENT ON COLUMN public.clients.scoring_weights IS 'Partial weights: {price, sumInsured, assistance, exclusions, discounts, waitingPeriods}';
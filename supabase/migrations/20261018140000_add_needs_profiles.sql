@@ -0,0 +1,10 @@
+-- Client needs questionnaire (age, dependants, budget, must-have coverages, risk tolerance).
+-- A comparison may carry its own profile; when NULL the profile of its client applies.
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS needs_profile JSONB;
+
+ALTER TABLE public.comparisons
+  ADD COLUMN IF NOT EXISTS needs_profile JSONB;
+
+COMMENT ON COLUMN public.clients.needs_profile IS '{age, dependants, budget: {amount, period, currency}, must_have_coverages[], risk_tolerance, notes}';
+COMMENT ON COLUMN public.comparisons.needs_profile IS 'Overrides clients.needs_profile for this comparison; same shape';
@@ -0,0 +1,13 @@
+-- Comparisons whose offers cover different product types (e.g. travel vs life) are held in
+-- 'needs_review' until the broker excludes the offending documents or compares them anyway.
+ALTER TABLE public.comparisons
+  ADD COLUMN IF NOT EXISTS product_type_mismatch JSONB;
+
+ALTER TABLE public.comparisons
+  DROP CONSTRAINT IF EXISTS comparisons_status_check;
+
+ALTER TABLE public.comparisons
+  ADD CONSTRAINT comparisons_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'needs_review'));
+
+COMMENT ON COLUMN public.comparisons.product_type_mismatch IS '{status: pending|acknowledged|resolved, detected_at, dominant_type, documents[{document_id, file_name, product_type, classifier_type, ai_type, matches_dominant}], excluded_document_ids[]}';
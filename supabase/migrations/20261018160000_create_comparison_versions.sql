@@ -0,0 +1,40 @@
+-- Every run of the comparison pipeline is kept as a version so re-runs no longer overwrite history.
+-- compare-offers opens a version with its result; generate-summary completes it with the summary.
+CREATE TABLE IF NOT EXISTS public.comparison_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  comparison_id UUID NOT NULL REFERENCES public.comparisons(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  document_ids UUID[] NOT NULL DEFAULT '{}',
+  document_revisions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  comparison_data JSONB,
+  comparison_model TEXT,
+  comparison_prompt TEXT,
+  summary_json JSONB,
+  summary_text TEXT,
+  summary_model TEXT,
+  summary_prompt TEXT,
+  summary_generated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (comparison_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comparison_versions_comparison
+ON public.comparison_versions(comparison_id, version DESC);
+
+ALTER TABLE public.comparison_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own comparison versions" ON public.comparison_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The edge functions write versions with the caller's token when a broker starts the run.
+CREATE POLICY "Users can insert own comparison versions" ON public.comparison_versions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own comparison versions" ON public.comparison_versions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.comparison_versions.version IS 'Run number within the comparison, starting at 1';
+COMMENT ON COLUMN public.comparison_versions.document_revisions IS '[{document_id, file_name, extracted_at, corrections_count, data_hash}] of the documents compared in this run';
+COMMENT ON COLUMN public.comparison_versions.comparison_prompt IS 'System prompt sent by compare-offers';
+COMMENT ON COLUMN public.comparison_versions.summary_prompt IS 'System prompt sent by generate-summary';
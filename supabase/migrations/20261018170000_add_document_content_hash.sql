@@ -0,0 +1,11 @@
+-- SHA-256 of the uploaded file, computed in the browser before upload. Identical files are
+-- reused instead of being uploaded and extracted again. Existing rows stay NULL: their hash is
+-- unknown without downloading the files, so they are simply never matched.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_content_hash
+ON public.documents(user_id, content_hash)
+WHERE content_hash IS NOT NULL;
+
+COMMENT ON COLUMN public.documents.content_hash IS 'Hex SHA-256 of the file content, used to deduplicate uploads per user';
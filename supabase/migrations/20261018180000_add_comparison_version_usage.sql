@@ -0,0 +1,8 @@
+-- Token counts and estimated cost of the LLM calls behind each run, as reported by the shared
+-- LLM gateway (including retries and JSON re-prompts). Cost is NULL for unpriced models.
+ALTER TABLE public.comparison_versions
+  ADD COLUMN IF NOT EXISTS comparison_usage JSONB,
+  ADD COLUMN IF NOT EXISTS summary_usage JSONB;
+
+COMMENT ON COLUMN public.comparison_versions.comparison_usage IS 'prompt_tokens, completion_tokens, total_tokens and cost_usd of the compare-offers call';
+COMMENT ON COLUMN public.comparison_versions.summary_usage IS 'prompt_tokens, completion_tokens, total_tokens and cost_usd of the generate-summary call';
@@ -0,0 +1,14 @@
+-- generate-summary now writes one summary per style ("client", "sms", "memo", "letter") into
+-- summary_json. Summaries stored before that become the default "client" style.
+UPDATE public.comparisons
+SET summary_json = jsonb_build_object('client', summary_json)
+WHERE jsonb_typeof(summary_json) = 'object'
+  AND NOT summary_json ?| ARRAY['client', 'sms', 'memo', 'letter'];
+
+UPDATE public.comparison_versions
+SET summary_json = jsonb_build_object('client', summary_json)
+WHERE jsonb_typeof(summary_json) = 'object'
+  AND NOT summary_json ?| ARRAY['client', 'sms', 'memo', 'letter'];
+
+COMMENT ON COLUMN public.comparisons.summary_json IS 'AI summaries keyed by style; summary_text mirrors the "client" style';
+COMMENT ON COLUMN public.comparison_versions.summary_json IS 'AI summaries of this run keyed by style';
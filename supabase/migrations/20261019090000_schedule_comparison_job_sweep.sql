@@ -0,0 +1,31 @@
+-- Resumes comparison jobs whose worker died or whose hand-over to a fresh invocation failed:
+-- every minute the comparison-orchestrator is called in sweep mode and re-claims jobs that are
+-- due and whose lease expired.
+--
+-- The call authenticates with the service role key. Both values are read from Supabase Vault,
+-- so they have to be stored once per project before the schedule can succeed:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Re-running the migration replaces the schedule instead of adding a second one.
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'comparison-orchestrator-sweep';
+
+SELECT cron.schedule(
+  'comparison-orchestrator-sweep',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/comparison-orchestrator',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode":"sweep"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,16 @@
+-- A job held for product type review used to be marked 'completed' at its comparing_offers stage,
+-- which progress followers could not tell apart from a finished run. It now ends as 'blocked'
+-- until excluding documents or confirming the comparison re-runs it.
+ALTER TABLE public.comparison_jobs DROP CONSTRAINT IF EXISTS comparison_jobs_status_check;
+ALTER TABLE public.comparison_jobs ADD CONSTRAINT comparison_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'retrying', 'completed', 'blocked', 'failed'));
+
+UPDATE public.comparison_jobs AS job
+SET status = 'blocked'
+FROM public.comparisons AS comparison
+WHERE comparison.id = job.comparison_id
+  AND comparison.status = 'needs_review'
+  AND job.status = 'completed'
+  AND job.stage <> 'done';
+
+COMMENT ON COLUMN public.comparison_jobs.status IS 'queued/running/retrying while active; completed, blocked (waiting for product type review) or failed once settled';
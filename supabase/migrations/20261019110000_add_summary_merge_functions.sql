@@ -0,0 +1,51 @@
+-- generate-summary stores one summary per style and language in summary_json. Summaries of
+-- different styles may finish at the same time, so each request sets its own key in a single
+-- statement instead of writing back a copy of the column it read earlier. Summaries stored
+-- before styles existed were keyed by 20261018190000_key_summary_json_by_style.sql.
+CREATE OR REPLACE FUNCTION public.store_comparison_summary(
+  p_comparison_id UUID,
+  p_summary_key TEXT,
+  p_summary JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comparisons
+  SET summary_json = jsonb_set(
+    CASE WHEN jsonb_typeof(summary_json) = 'object' THEN summary_json ELSE '{}'::jsonb END,
+    ARRAY[p_summary_key],
+    p_summary
+  )
+  WHERE id = p_comparison_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comparison % not found', p_comparison_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.store_comparison_version_summary(
+  p_version_id UUID,
+  p_summary_key TEXT,
+  p_summary JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comparison_versions
+  SET summary_json = jsonb_set(
+    CASE WHEN jsonb_typeof(summary_json) = 'object' THEN summary_json ELSE '{}'::jsonb END,
+    ARRAY[p_summary_key],
+    p_summary
+  )
+  WHERE id = p_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comparison version % not found', p_version_id;
+  END IF;
+END;
+$$;